@@ -1,4 +1,4 @@
-import { AdminData, createSuccessResponse, createErrorResponse, handleOptionsRequest } from '../shared/index.mjs';
+import { AdminData, getCallerIdentity, canAdminister, createSuccessResponse, createErrorResponse, createUnauthorizedError, createForbiddenError, handleOptionsRequest } from '../shared/index.mjs';
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
@@ -11,6 +11,14 @@ export const handler = async (event) => {
       return handleOptionsRequest(event);
     }
 
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+    if (!canAdminister(caller)) {
+      return createForbiddenError('Admin access required');
+    }
+
     let deletedDynamoItems = 0;
     let deletedS3Objects = 0;
 
@@ -1,37 +1,86 @@
-import { AdminData, createSuccessResponse, createErrorResponse, createNotFoundError, createValidationError, handleOptionsRequest } from '../shared/index.mjs';
+import {
+  AdminData,
+  AdminEvents,
+  JobData,
+  ProfileData,
+  getCallerIdentity,
+  canAdminister,
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+
+// A running deletion saves progress after every page; one quiet this long has stopped
+const STALLED_AFTER_MS = 15 * 60 * 1000;
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
+/**
+ * DELETE /admin/users/{userId} starts deleting a user and everything they
+ * own. The user-deleter consumer does the work in the background; poll
+ * GET /admin/users/{userId}/deletion for progress.
+ *
+ * A deletion still making progress is left to finish. One that failed to
+ * start or has stalled (its event failed every retry) is started again from
+ * the beginning; redriving the user-deleter's dead letter queue resumes a
+ * stalled one instead.
+ */
 export const handler = async (event) => {
   try {
     if (handleOptionsRequest(event)) {
       return handleOptionsRequest(event);
     }
 
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+    if (!canAdminister(caller)) {
+      return createForbiddenError('Admin access required');
+    }
+
     const { userId } = event.pathParameters || {};
 
     if (!userId) {
       return createValidationError('userId path parameter is required');
     }
 
-    try {
-      const result = await AdminData.deleteUser(userId);
-
+    const current = await AdminData.getUserDeletion(userId);
+    if (current?.status === 'running' && Date.now() - Date.parse(current.updatedAt) < STALLED_AFTER_MS) {
       return createSuccessResponse({
-        message: 'User deleted successfully',
-        ...result,
-      });
+        message: 'User deletion already in progress',
+        deletion: current,
+      }, 202);
+    }
+
+    const profile = await ProfileData.getProfileById(userId);
+    if (!profile) {
+      return createNotFoundError('User not found');
+    }
 
+    // Locked before answering rather than when the deleter starts; its first step repeats this
+    await AdminData.lockAccount(userId);
+    const job = await AdminData.startUserDeletion(userId, caller.userId);
+    try {
+      await AdminEvents.userDeletionRequested(userId, job.runId, caller.userId);
     } catch (error) {
-      if (error.message === 'User not found') {
-        return createNotFoundError('User not found');
-      }
+      // No deleter will pick the run up; a failed job is started over when asked again
+      await JobData.failJob(job);
       throw error;
     }
 
+    return createSuccessResponse({
+      message: 'User deletion started',
+      deletion: await AdminData.getUserDeletion(userId),
+    }, 202);
+
   } catch (error) {
     console.error('Error deleting user:', error);
-    return createErrorResponse('Failed to delete user', error);
+    return createErrorResponse('Failed to delete user');
   }
-};
\ No newline at end of file
+};
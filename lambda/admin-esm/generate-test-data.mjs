@@ -1,4 +1,4 @@
-import { ProfileData, PostData, createSuccessResponse, createErrorResponse, createValidationError, handleOptionsRequest } from '../shared/index.mjs';
+import { ProfileData, PostData, getCallerIdentity, canAdminister, createSuccessResponse, createErrorResponse, createValidationError, createUnauthorizedError, createForbiddenError, handleOptionsRequest } from '../shared/index.mjs';
 // import { sample, range, map, times } from 'lodash-es';
 
 // Pre-warm the connections with top-level await
@@ -180,6 +180,14 @@ export const handler = async (event) => {
     return optionsResponse;
   }
 
+  const caller = getCallerIdentity(event);
+  if (!caller) {
+    return createUnauthorizedError();
+  }
+  if (!canAdminister(caller)) {
+    return createForbiddenError('Admin access required');
+  }
+
   // Extract and validate parameters
   const { userCount = DEFAULTS.USER_COUNT.toString(), postsPerUser = DEFAULTS.POSTS_PER_USER.toString() } = event.queryStringParameters || {};
 
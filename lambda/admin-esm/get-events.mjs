@@ -1,4 +1,20 @@
-import { createSuccessResponse, createErrorResponse, createValidationError, handleOptionsRequest } from '../shared/index.mjs';
+import {
+  EventLogData,
+  getCallerIdentity,
+  canAdminister,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { validateGetEventsQuery, createEventsResponse } from '../shared/schemas.mjs';
+
+const DEFAULT_EVENTS_PAGE_SIZE = 50;
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
@@ -9,56 +25,44 @@ export const handler = async (event) => {
       return handleOptionsRequest(event);
     }
 
-    const { limit = '50', nextToken } = event.queryStringParameters || {};
-    const limitNum = Math.min(parseInt(limit) || 50, 100); // Cap at 100
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+    if (!canAdminister(caller)) {
+      return createForbiddenError('Admin access required');
+    }
+
+    const { source, detailType, userId, from, to } = event.queryStringParameters || {};
 
-    if (isNaN(limitNum) || limitNum < 1) {
-      return createValidationError('Invalid limit parameter');
+    const validation = validateGetEventsQuery({ from, to });
+    if (!validation.isValid) {
+      return createValidationError(validation.errors.join(', '));
     }
 
-    // For demo purposes, generate sample events
-    // In production, you could integrate with CloudWatch Logs or store events in DynamoDB
-    const events = generateSampleEvents(limitNum);
+    const filters = {
+      source: source || undefined,
+      detailType: detailType || undefined,
+      userId: userId || undefined,
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+    };
 
-    return createSuccessResponse({
-      events,
-      totalEvents: events.length,
-      nextToken: events.length >= limitNum ? `page-${Date.now()}` : undefined,
-    });
+    // Cursors are tied to the filters they were issued for
+    const scope = `admin-events:${JSON.stringify(filters)}`;
+    const page = await getPageRequest(event, scope, { defaultLimit: DEFAULT_EVENTS_PAGE_SIZE });
 
-  } catch (error) {
-    console.error('Error getting events:', error);
-    return createErrorResponse('Failed to get events', error);
-  }
-};
+    const { items, lastEvaluatedKey } = await EventLogData.listEvents(filters, page);
+    const nextCursor = await encodeCursor(lastEvaluatedKey, scope);
 
-function generateSampleEvents(limit) {
-  const sampleEvents = [];
-  const sources = ['social-media.profiles', 'social-media.posts', 'social-media.follows', 'social-media.likes'];
-  const detailTypes = ['Profile Created', 'Post Published', 'User Followed', 'Post Liked', 'Data Generated'];
+    return createSuccessResponse(createEventsResponse(items, nextCursor));
 
-  for (let i = 0; i < Math.min(limit, 10); i++) {
-    const source = sources[i % sources.length];
-    const detailType = detailTypes[i % detailTypes.length];
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
 
-    sampleEvents.push({
-      eventId: `sample-${Date.now()}-${i}`,
-      source,
-      detailType,
-      detail: {
-        userId: `user-${Math.floor(Math.random() * 1000)}`,
-        action: detailType.toLowerCase().replace(' ', '-'),
-        timestamp: new Date().toISOString(),
-        metadata: {
-          source: 'admin-demo',
-          version: '1.0',
-        },
-      },
-      timestamp: new Date(Date.now() - (i * 60000)).toISOString(), // Spread over last hour
-      region: process.env.AWS_REGION || 'us-east-1',
-      account: '123456789012',
-    });
+    console.error('Error getting events:', error);
+    return createErrorResponse('Failed to get events');
   }
-
-  return sampleEvents.reverse(); // Most recent first
-}
\ No newline at end of file
+};
@@ -0,0 +1,51 @@
+import {
+  AdminData,
+  getCallerIdentity,
+  canAdminister,
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * GET /admin/users/{userId}/deletion reports how far a user's deletion has got
+ */
+export const handler = async (event) => {
+  try {
+    if (handleOptionsRequest(event)) {
+      return handleOptionsRequest(event);
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+    if (!canAdminister(caller)) {
+      return createForbiddenError('Admin access required');
+    }
+
+    const { userId } = event.pathParameters || {};
+
+    if (!userId) {
+      return createValidationError('userId path parameter is required');
+    }
+
+    const deletion = await AdminData.getUserDeletion(userId);
+    if (!deletion) {
+      return createNotFoundError('No deletion started for this user');
+    }
+
+    return createSuccessResponse({ deletion });
+
+  } catch (error) {
+    console.error('Error getting user deletion:', error);
+    return createErrorResponse('Failed to get user deletion');
+  }
+};
@@ -0,0 +1,61 @@
+import {
+  DeadLetterData,
+  getCallerIdentity,
+  canAdminister,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createNotFoundError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+
+const DEFAULT_EVENTS_LIMIT = 10;
+const MAX_EVENTS_LIMIT = 50;
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * GET /admin/dead-letters lists every consumer's queue with its count;
+ * GET /admin/dead-letters/{consumer} shows a sample of that queue's events.
+ */
+export const handler = async (event) => {
+  try {
+    if (handleOptionsRequest(event)) {
+      return handleOptionsRequest(event);
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+    if (!canAdminister(caller)) {
+      return createForbiddenError('Admin access required');
+    }
+
+    const consumer = event.pathParameters?.consumer;
+    if (!consumer) {
+      return createSuccessResponse({ queues: await DeadLetterData.getQueueSummaries() });
+    }
+
+    if (!DeadLetterData.getConsumers().includes(consumer)) {
+      return createNotFoundError(`No dead letter queue for consumer: ${consumer}`);
+    }
+
+    const { limit } = event.queryStringParameters || {};
+    const eventsLimit = parseInt(limit || DEFAULT_EVENTS_LIMIT, 10);
+    if (isNaN(eventsLimit) || eventsLimit < 1 || eventsLimit > MAX_EVENTS_LIMIT) {
+      return createValidationError(`limit must be between 1 and ${MAX_EVENTS_LIMIT}`);
+    }
+
+    const events = await DeadLetterData.peekFailedEvents(consumer, eventsLimit);
+
+    return createSuccessResponse({ consumer, events });
+
+  } catch (error) {
+    console.error('Error listing dead letters:', error);
+    return createErrorResponse('Failed to list dead letters');
+  }
+};
@@ -1,4 +1,14 @@
-import { ProfileData, createSuccessResponse, createErrorResponse, createValidationError, handleOptionsRequest } from '../shared/index.mjs';
+import {
+  ProfileData,
+  getCallerIdentity,
+  canAdminister,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
@@ -9,6 +19,14 @@ export const handler = async (event) => {
       return handleOptionsRequest(event);
     }
 
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+    if (!canAdminister(caller)) {
+      return createForbiddenError('Admin access required');
+    }
+
     const { page = '1', limit = '10' } = event.queryStringParameters || {};
     const pageNumber = parseInt(page);
     const pageLimit = parseInt(limit);
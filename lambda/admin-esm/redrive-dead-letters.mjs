@@ -0,0 +1,57 @@
+import {
+  DeadLetterData,
+  getCallerIdentity,
+  canAdminister,
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+import { validateRedriveRequest } from '../shared/schemas.mjs';
+
+const DEFAULT_REDRIVE_EVENTS = 100;
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * POST /admin/dead-letters/{consumer}/redrive sends failed events back to
+ * their consumer. Call again while the queue still holds events.
+ */
+export const handler = async (event) => {
+  try {
+    if (handleOptionsRequest(event)) {
+      return handleOptionsRequest(event);
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+    if (!canAdminister(caller)) {
+      return createForbiddenError('Admin access required');
+    }
+
+    const consumer = event.pathParameters?.consumer;
+    if (!DeadLetterData.getConsumers().includes(consumer)) {
+      return createNotFoundError(`No dead letter queue for consumer: ${consumer}`);
+    }
+
+    const request = JSON.parse(event.body || '{}');
+    const validation = validateRedriveRequest(request);
+    if (!validation.isValid) {
+      return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+    }
+
+    const result = await DeadLetterData.redrive(consumer, request.maxEvents ?? DEFAULT_REDRIVE_EVENTS);
+    console.log(`Redrove dead letters for ${consumer}:`, result);
+
+    return createSuccessResponse({ consumer, ...result });
+
+  } catch (error) {
+    console.error('Error redriving dead letters:', error);
+    return createErrorResponse('Failed to redrive dead letters');
+  }
+};
@@ -0,0 +1,57 @@
+import { verifyAccessToken, extractBearerToken, createAuthorizerPolicy } from '../shared/auth.mjs';
+import { ProfileData } from '../shared/profile-data.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * Read the Authorization header from a REQUEST authorizer event
+ */
+function getRequestAuthorizationHeader(event) {
+  const headers = event.headers || {};
+  const name = Object.keys(headers).find(key => key.toLowerCase() === 'authorization');
+  return name ? headers[name] : undefined;
+}
+
+/**
+ * API Gateway authorizer.
+ * TOKEN events come from authenticated routes and require a token. REQUEST
+ * events come from public reads that tailor their response to the caller:
+ * anonymous requests are allowed with an empty context, but a token that is
+ * present must still be valid.
+ * Tokens of users who are being deleted, or were, are rejected: their profile
+ * is marked with `deletedAt` or gone. API Gateway caches a decision for
+ * AUTHORIZER_CACHE_TTL_SECONDS, so a token allowed just before still works
+ * that long.
+ * Verified claims are exposed to handlers through requestContext.authorizer.
+ */
+export const handler = async (event) => {
+  const isOptional = event.type === 'REQUEST';
+  const authorizationHeader = isOptional ? getRequestAuthorizationHeader(event) : event.authorizationToken;
+  const token = extractBearerToken(authorizationHeader);
+
+  if (!token) {
+    if (isOptional && !authorizationHeader) {
+      return createAuthorizerPolicy('anonymous', 'Allow', event.methodArn);
+    }
+    throw new Error('Unauthorized'); // API Gateway maps this message to a 401
+  }
+
+  try {
+    const claims = await verifyAccessToken(token);
+
+    const profile = await ProfileData.getProfileById(claims.sub);
+    if (!profile || profile.deletedAt) {
+      throw new Error(`Account ${claims.sub} is deleted`);
+    }
+
+    return createAuthorizerPolicy(claims.sub, 'Allow', event.methodArn, {
+      userId: claims.sub,
+      username: claims.username || '',
+      role: claims.role || 'user',
+    });
+  } catch (error) {
+    console.warn('Rejected token:', error instanceof Error ? error.message : 'Unknown error');
+    throw new Error('Unauthorized');
+  }
+};
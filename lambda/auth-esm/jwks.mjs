@@ -0,0 +1,18 @@
+import { getJwks, createSuccessResponse, createErrorResponse } from '../shared/index.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async () => {
+  try {
+    const jwks = await getJwks();
+
+    return createSuccessResponse(jwks, 200, {
+      'Cache-Control': 'max-age=600', // Cache for 10 minutes
+    });
+
+  } catch (error) {
+    console.error('Error getting JWKS:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,52 @@
+import {
+  AuthData,
+  ProfileData,
+  verifyPassword,
+  signAccessToken,
+  createSuccessResponse,
+  createErrorResponse,
+  createUnauthorizedError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+import { validateLoginRequest, createAuthTokenResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+const INVALID_CREDENTIALS = 'Invalid username or password';
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const request = JSON.parse(event.body || '{}');
+
+    // Validate request using shared schema
+    const validation = validateLoginRequest(request);
+    if (!validation.isValid) {
+      return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+    }
+
+    const profile = await ProfileData.getProfileByUsername(request.username);
+    const credentials = profile && await AuthData.getCredentials(profile.userId);
+
+    // Same response for unknown users and wrong passwords
+    if (!credentials || !await verifyPassword(request.password, credentials.passwordHash)) {
+      return createUnauthorizedError(INVALID_CREDENTIALS);
+    }
+
+    const token = await signAccessToken({
+      userId: profile.userId,
+      username: profile.username,
+      role: credentials.role,
+    });
+
+    return createSuccessResponse(createAuthTokenResponse(token, profile));
+
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,62 @@
+import {
+  AuthData,
+  ProfileData,
+  hashPassword,
+  signAccessToken,
+  createSuccessResponse,
+  createErrorResponse,
+  createConflictError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+import { validateRegisterRequest, createAuthTokenResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const request = JSON.parse(event.body || '{}');
+
+    // Validate request using shared schema
+    const validation = validateRegisterRequest(request);
+    if (!validation.isValid) {
+      return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+    }
+
+    // Profiles created before registration existed have no username reservation
+    const existingProfile = await ProfileData.getProfileByUsername(request.username);
+    if (existingProfile) {
+      return createConflictError('Username is already taken');
+    }
+
+    const { password, ...profileData } = request;
+    const profile = await AuthData.registerUser({
+      username: profileData.username,
+      email: profileData.email,
+      displayName: profileData.displayName,
+      bio: profileData.bio,
+      avatar: profileData.avatar,
+      passwordHash: await hashPassword(password),
+    });
+
+    const token = await signAccessToken({
+      userId: profile.userId,
+      username: profile.username,
+      role: 'user',
+    });
+
+    return createSuccessResponse(createAuthTokenResponse(token, profile), 201);
+
+  } catch (error) {
+    if (error.name === 'TransactionCanceledException') {
+      return createConflictError('Username is already taken');
+    }
+
+    console.error('Error registering user:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,32 @@
+import { generateKeyPairSync, randomUUID } from 'node:crypto';
+import { SecretsManagerClient, PutSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+
+const secretsClient = new SecretsManagerClient({
+  maxAttempts: 3,
+  retryMode: 'adaptive',
+});
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * CloudFormation custom resource that generates the RS256 signing key.
+ * The key is only written on create so redeploys never invalidate issued tokens.
+ */
+export const handler = async (event) => {
+  const secretArn = event.ResourceProperties.SecretArn;
+
+  if (event.RequestType === 'Create') {
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = { ...privateKey.export({ format: 'jwk' }), kid: randomUUID() };
+
+    await secretsClient.send(new PutSecretValueCommand({
+      SecretId: secretArn,
+      SecretString: JSON.stringify(jwk),
+    }));
+
+    console.log(`Generated signing key ${jwk.kid}`);
+  }
+
+  return { PhysicalResourceId: event.PhysicalResourceId ?? `signing-key-${secretArn}` };
+};
@@ -0,0 +1,93 @@
+import {
+  CommentData,
+  FollowData,
+  PostData,
+  ProfileData,
+  getCallerIdentity,
+  canCreateComment,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+import { validateCreateCommentRequest, createCommentResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    // The commenter is always the caller; the body may repeat their id but not name anyone else
+    const body = JSON.parse(event.body || '{}');
+    if (!canCreateComment(caller, body.userId)) {
+      return createForbiddenError('You can only comment as yourself');
+    }
+    const request = {
+      ...body,
+      postId: event.pathParameters?.postId,
+      userId: caller.userId,
+    };
+
+    // Validate request using shared schema
+    const validation = validateCreateCommentRequest(request);
+    if (!validation.isValid) {
+      return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+    }
+
+    const post = await PostData.getPostById(request.postId);
+    if (!post) {
+      return createNotFoundError('Post not found');
+    }
+
+    if (await FollowData.isBlockedEitherWay(request.userId, post.userId)) {
+      return createForbiddenError('You cannot interact with this user');
+    }
+
+    let parentComment;
+    if (request.parentCommentId) {
+      parentComment = await CommentData.getComment(request.postId, request.parentCommentId);
+      if (!parentComment) {
+        return createNotFoundError('Parent comment not found');
+      }
+      if (parentComment.parentCommentId) {
+        return createValidationError('Replies can only be one level deep');
+      }
+    }
+
+    const userProfile = await ProfileData.getProfileById(request.userId);
+    if (!userProfile) {
+      return createNotFoundError('User profile not found');
+    }
+
+    const comment = await CommentData.createComment({
+      postId: request.postId,
+      postAuthorId: post.userId,
+      userId: request.userId,
+      content: request.content.trim(),
+      userProfile,
+      parentComment,
+    });
+
+    return createSuccessResponse(createCommentResponse(comment), 201);
+
+  } catch (error) {
+    if (error.name === 'TransactionCanceledException') {
+      return createNotFoundError('Post or parent comment no longer exists');
+    }
+
+    console.error('Error creating comment:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,67 @@
+import {
+  CommentData,
+  isCommentDeletionCancelled,
+  PostData,
+  getCallerIdentity,
+  canDeleteComment,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  createConflictError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const { postId, commentId } = event.pathParameters || {};
+    if (!postId || !commentId) {
+      return createValidationError('postId and commentId path parameters are required');
+    }
+
+    const comment = await CommentData.getComment(postId, commentId);
+    if (!comment) {
+      return createNotFoundError('Comment not found');
+    }
+
+    const post = await PostData.getPostById(postId);
+    if (!canDeleteComment(caller, comment, post)) {
+      return createForbiddenError('You can only delete your own comments or comments on your posts');
+    }
+
+    const { deletedCount } = await CommentData.deleteComment(comment);
+
+    return createSuccessResponse({
+      message: 'Comment deleted successfully',
+      postId,
+      commentId,
+      deletedCount,
+    });
+
+  } catch (error) {
+    if (isCommentDeletionCancelled(error)) {
+      switch (error.reason) {
+        case 'post-deleted': return createNotFoundError('Post not found');
+        case 'comment-deleted': return createNotFoundError('Comment not found');
+        default: return createConflictError('The thread changed while the comment was being deleted; try again');
+      }
+    }
+
+    console.error('Error deleting comment:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,59 @@
+import {
+  CommentData,
+  PostData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createNotFoundError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  getContentAccess,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createCommentsResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const postId = event.pathParameters?.postId;
+    if (!postId) {
+      return createValidationError('postId path parameter is required');
+    }
+
+    // The limit counts threads; their replies come along
+    const scope = `comments:${postId}`;
+    const page = await getPageRequest(event, scope, { defaultLimit: 50 });
+
+    const post = await PostData.getPostById(postId);
+    if (!post) {
+      return createNotFoundError('Post not found');
+    }
+
+    const { allowed } = await getContentAccess(getCallerIdentity(event), post.userId);
+    if (!allowed) {
+      return createForbiddenError('This account is private');
+    }
+
+    const { items, lastEvaluatedKey } = await CommentData.getComments(postId, page);
+    const nextCursor = await encodeCursor(lastEvaluatedKey, scope);
+
+    return createSuccessResponse(createCommentsResponse(items, postId, nextCursor));
+
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
+
+    console.error('Error listing comments:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
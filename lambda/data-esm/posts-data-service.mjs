@@ -0,0 +1,150 @@
+import {
+  PostData,
+  ProfileData,
+  getCallerIdentity,
+  getContentAccess,
+  filterVisibleItems,
+  canCreatePost,
+  canEditPost,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  createConflictError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+import {
+  validateCreatePostRequest,
+  validateUpdatePostRequest,
+  createPostResponse,
+} from '../shared/schemas.mjs';
+import { parseDataServiceRoute, validateBatchIds } from './routes.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * Internal posts data service, behind /data/posts/{proxy+}
+ *
+ *   POST /data/posts/create     {userId, content, imageUrl?}  -> 201 post
+ *   POST /data/posts/batch-get  {postIds}                     -> {posts}
+ *   GET  /data/posts/{postId}                                 -> post
+ *   PUT  /data/posts/{postId}   {content?, imageUrl?}         -> post
+ *
+ * Posts are returned in the PostResponseSchema shape. The author fields of a
+ * new post are read from the stored profile, not taken from the request.
+ * Posts by private authors the caller may not see are left out of batches
+ * and are not found by id.
+ */
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const route = parseDataServiceRoute(event);
+    switch (route) {
+      case 'POST create':
+        return await createPost(caller, JSON.parse(event.body || '{}'));
+      case 'POST batch-get':
+        return await batchGetPosts(caller, JSON.parse(event.body || '{}'));
+      case 'GET item':
+        return await getPost(caller, event.pathParameters.proxy);
+      case 'PUT item':
+        return await updatePost(caller, event.pathParameters.proxy, JSON.parse(event.body || '{}'));
+      default:
+        return createNotFoundError(`No posts data service route for ${event.httpMethod} ${event.path}`);
+    }
+
+  } catch (error) {
+    if (error.name === 'TransactionCanceledException') {
+      return createConflictError('Post was modified or deleted concurrently, please retry');
+    }
+
+    console.error('Error in posts data service:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
+
+async function createPost(caller, request) {
+  const validation = validateCreatePostRequest(request);
+  if (!validation.isValid) {
+    return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+  }
+
+  if (!canCreatePost(caller, request.userId)) {
+    return createForbiddenError('You can only publish posts as yourself');
+  }
+
+  const profile = await ProfileData.getProfileById(request.userId);
+  if (!profile) {
+    return createNotFoundError('User profile not found');
+  }
+
+  // Post Created is published from the table stream once the post is stored
+  const post = await PostData.createPost({
+    userId: request.userId,
+    content: request.content.trim(),
+    imageUrl: request.imageUrl || undefined,
+    userProfile: {
+      username: profile.username,
+      displayName: profile.displayName,
+      avatar: profile.avatar,
+    },
+  });
+
+  return createSuccessResponse(createPostResponse(post), 201);
+}
+
+async function batchGetPosts(caller, request) {
+  const error = validateBatchIds(request.postIds, 'postIds');
+  if (error) {
+    return createValidationError(error);
+  }
+
+  const posts = await PostData.getPostsByIds(request.postIds);
+  const found = request.postIds.map(postId => posts.get(postId)).filter(Boolean);
+  const visible = await filterVisibleItems(caller, [...new Set(found)]);
+
+  return createSuccessResponse({ posts: visible.map(createPostResponse) });
+}
+
+async function getPost(caller, postId) {
+  const post = await PostData.getPostById(postId);
+  if (!post || !(await getContentAccess(caller, post.userId)).allowed) {
+    return createNotFoundError('Post not found');
+  }
+
+  return createSuccessResponse(createPostResponse(post));
+}
+
+async function updatePost(caller, postId, request) {
+  const validation = validateUpdatePostRequest(request);
+  if (!validation.isValid) {
+    return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+  }
+
+  const post = await PostData.getPostById(postId);
+  if (!post) {
+    return createNotFoundError('Post not found');
+  }
+
+  if (!canEditPost(caller, post)) {
+    return createForbiddenError('You can only edit your own posts');
+  }
+
+  // Followers' feed copies are edited by the feed processor on the Post Updated event
+  const updatedPost = await PostData.updatePost(post, {
+    content: request.content !== undefined ? request.content.trim() : post.content,
+    imageUrl: request.imageUrl,
+  }, caller.userId);
+
+  return createSuccessResponse(createPostResponse(updatedPost));
+}
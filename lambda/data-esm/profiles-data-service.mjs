@@ -0,0 +1,131 @@
+import {
+  ProfileData,
+  getCallerIdentity,
+  canAdminister,
+  canEditProfile,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  createConflictError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+import {
+  validateCreateProfileRequest,
+  validateUpdateProfileRequest,
+  createProfileResponse,
+  UpdateProfileRequestSchema,
+} from '../shared/schemas.mjs';
+import { parseDataServiceRoute, validateBatchIds } from './routes.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * Internal profiles data service, behind /data/profiles/{proxy+}
+ *
+ *   POST /data/profiles/create     {userId?, username, email, displayName, ...} -> 201 profile
+ *   POST /data/profiles/batch-get  {userIds}                                     -> {profiles}
+ *   GET  /data/profiles/{userId}                                                 -> profile
+ *   PUT  /data/profiles/{userId}   {displayName?, bio?, avatar?, isPrivate?}     -> profile
+ *
+ * Profiles are returned in the ProfileResponseSchema shape. Accounts are
+ * made by registration, which also reserves the username and stores
+ * credentials, so creating a bare profile here is for admins only.
+ */
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const route = parseDataServiceRoute(event);
+    switch (route) {
+      case 'POST create':
+        return await createProfile(caller, JSON.parse(event.body || '{}'));
+      case 'POST batch-get':
+        return await batchGetProfiles(JSON.parse(event.body || '{}'));
+      case 'GET item':
+        return await getProfile(event.pathParameters.proxy);
+      case 'PUT item':
+        return await updateProfile(caller, event.pathParameters.proxy, JSON.parse(event.body || '{}'));
+      default:
+        return createNotFoundError(`No profiles data service route for ${event.httpMethod} ${event.path}`);
+    }
+
+  } catch (error) {
+    console.error('Error in profiles data service:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
+
+async function createProfile(caller, request) {
+  if (!canAdminister(caller)) {
+    return createForbiddenError('Admin access required');
+  }
+
+  const validation = validateCreateProfileRequest(request);
+  if (!validation.isValid) {
+    return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+  }
+
+  try {
+    const profile = await ProfileData.createProfile(request);
+    return createSuccessResponse(createProfileResponse(profile), 201);
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return createConflictError('Profile already exists');
+    }
+    throw error;
+  }
+}
+
+async function batchGetProfiles(request) {
+  const error = validateBatchIds(request.userIds, 'userIds');
+  if (error) {
+    return createValidationError(error);
+  }
+
+  const profiles = await ProfileData.getPublicProfiles(request.userIds);
+  return createSuccessResponse({ profiles: [...profiles.values()].map(createProfileResponse) });
+}
+
+async function getProfile(userId) {
+  const profile = await ProfileData.getProfileById(userId);
+  if (!profile) {
+    return createNotFoundError('Profile not found');
+  }
+
+  return createSuccessResponse(createProfileResponse(profile));
+}
+
+async function updateProfile(caller, userId, request) {
+  if (!canEditProfile(caller, userId)) {
+    return createForbiddenError('You can only edit your own profile');
+  }
+
+  const validation = validateUpdateProfileRequest(request);
+  if (!validation.isValid) {
+    return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+  }
+
+  // An update would otherwise create a partial profile item
+  if (!await ProfileData.getProfileById(userId)) {
+    return createNotFoundError('Profile not found');
+  }
+
+  // Profile Updated is published from the table stream
+  const updates = Object.fromEntries(Object.keys(UpdateProfileRequestSchema.properties)
+    .filter(field => request[field] !== undefined)
+    .map(field => [field, request[field]]));
+  const profile = await ProfileData.updateProfile(userId, updates);
+
+  return createSuccessResponse(createProfileResponse(profile));
+}
@@ -0,0 +1,35 @@
+// Most ids a batch-get may ask for, the DynamoDB BatchGetItem limit
+export const MAX_BATCH_IDS = 100;
+
+// Proxy paths that name an operation rather than an item id
+const OPERATIONS = ['create', 'batch-get'];
+
+/**
+ * Name the route of a request to a /data/<entity>/{proxy+} service:
+ * `<METHOD> <operation>` for the operations above, `<METHOD> item` for a
+ * single id, and `<METHOD>` alone for the entity root or deeper paths.
+ */
+export function parseDataServiceRoute(event) {
+  const proxy = event.pathParameters?.proxy;
+  if (!proxy || proxy.includes('/')) {
+    return event.httpMethod;
+  }
+
+  return `${event.httpMethod} ${OPERATIONS.includes(proxy) ? proxy : 'item'}`;
+}
+
+/**
+ * Check the id list of a batch-get body; returns an error message or null
+ */
+export function validateBatchIds(ids, field) {
+  if (!Array.isArray(ids) || ids.length === 0) {
+    return `${field} must be a non-empty array`;
+  }
+  if (ids.length > MAX_BATCH_IDS) {
+    return `${field} must have at most ${MAX_BATCH_IDS} entries`;
+  }
+  if (!ids.every(id => typeof id === 'string' && id.length > 0)) {
+    return `${field} must contain only non-empty strings`;
+  }
+  return null;
+}
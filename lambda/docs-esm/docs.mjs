@@ -0,0 +1,56 @@
+import { readFileSync } from 'node:fs';
+import { CORS_HEADERS } from '../shared/responses.mjs';
+import { API_ROUTES } from '../shared/api-routes.mjs';
+
+// Written by `npm run generate:openapi`
+const OPENAPI_DOCUMENT = readFileSync(new URL('../shared/openapi.json', import.meta.url), 'utf8');
+
+const CACHE_CONTROL = 'max-age=300'; // Cache for 5 minutes
+
+// Swagger UI from a CDN, pinned to one release and checked against its hashes
+const SWAGGER_UI = 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5.33.1';
+const SWAGGER_UI_CSS_INTEGRITY = 'sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW';
+const SWAGGER_UI_BUNDLE_INTEGRITY = 'sha384-ZPehFMQommnnuaZ4rpxgkgTT2DKFVp4hZC/7pLit+9Lek9T1YGSo23eHFbvNkXkw';
+
+/**
+ * The page browsing the document. Its URL is built from the path the page was
+ * requested at, stage and base path included, so it resolves the same from
+ * /docs and /docs/.
+ */
+const docsPage = (documentUrl) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Social Media Profile Service API</title>
+  <link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css" integrity="${SWAGGER_UI_CSS_INTEGRITY}" crossorigin="anonymous">
+</head>
+<body>
+  <div id="docs"></div>
+  <script src="${SWAGGER_UI}/swagger-ui-bundle.js" integrity="${SWAGGER_UI_BUNDLE_INTEGRITY}" crossorigin="anonymous"></script>
+  <script>
+    SwaggerUIBundle({ url: ${JSON.stringify(documentUrl).replace(/</g, '\\u003c')}, dom_id: '#docs' });
+  </script>
+</body>
+</html>
+`;
+
+/**
+ * Serve the OpenAPI document at /docs/openapi.json and a page browsing it at /docs
+ */
+export const handler = async (event) => {
+  if (event.resource === API_ROUTES.OPENAPI_DOCUMENT.path) {
+    return {
+      statusCode: 200,
+      headers: { ...CORS_HEADERS, 'Cache-Control': CACHE_CONTROL },
+      body: OPENAPI_DOCUMENT,
+    };
+  }
+
+  const pagePath = event.requestContext?.path ?? event.path ?? API_ROUTES.DOCS.path;
+  return {
+    statusCode: 200,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': CACHE_CONTROL },
+    body: docsPage(`${pagePath.replace(/\/+$/, '')}/openapi.json`),
+  };
+};
@@ -0,0 +1,133 @@
+// lambda/events-esm/author-propagator.mjs
+import {
+  ProfileData,
+  PostData,
+  FollowData,
+  FeedData,
+  JobData,
+  ProfileEvents,
+  readEvent,
+} from '../shared/index.mjs';
+
+const JOB_TYPE = 'author-sync';
+
+// Profile fields copied onto posts and feed items
+const AUTHOR_FIELDS = ['displayName', 'avatar'];
+
+const POSTS_PAGE_SIZE = 100;
+const FOLLOWERS_PAGE_SIZE = 25;
+
+// Hand over to a new invocation while there is still time to save progress
+const HANDOVER_MS = 30 * 1000;
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * Copy a user's new display name and avatar onto their posts and onto the
+ * feed items fanned out to their followers.
+ *
+ * The rewrite is a job (see JobData) that works through the user's posts and
+ * then their followers a page at a time, saving its cursor after each page.
+ * When the invocation runs short of time it publishes `Author Sync Continued`
+ * and the next invocation resumes from the saved cursor; a handover
+ * EventBridge rejects fails the invocation, so Lambda retries the event it
+ * was running instead. A newer profile update restarts the job, and the
+ * older run stops at its next save.
+ */
+export const handler = async (event, context) => {
+  try {
+    const { data, correlationId } = readEvent(event);
+
+    switch (event['detail-type']) {
+      case 'Profile Updated': {
+        if (!AUTHOR_FIELDS.some(field => field in (data.updates || {}))) {
+          console.log(`No author fields changed for ${data.userId}, nothing to propagate`);
+          return;
+        }
+
+        const job = await JobData.startJob(JOB_TYPE, data.userId, 'posts');
+        await propagate(job, context, correlationId);
+        break;
+      }
+
+      case 'Author Sync Continued': {
+        const job = await JobData.getJob(JOB_TYPE, data.userId);
+        if (job?.runId !== data.runId || job.status !== 'running') {
+          console.log(`Author sync run ${data.runId} for ${data.userId} was superseded`);
+          return;
+        }
+
+        await propagate(job, context, correlationId);
+        break;
+      }
+
+      default:
+        console.warn('Unknown event type:', event['detail-type']);
+    }
+
+  } catch (error) {
+    console.error('Error propagating author fields:', error instanceof Error ? error.message : 'Unknown error');
+    throw error; // Re-throw to trigger retry mechanism; the job resumes from its last save
+  }
+};
+
+async function propagate(job, context, correlationId) {
+  const userId = job.id;
+
+  // Always copy the current values, whichever update started the job
+  const profile = await ProfileData.getProfileById(userId);
+  if (!profile) {
+    await JobData.completeJob(job);
+    return;
+  }
+
+  const author = { displayName: profile.displayName, avatar: profile.avatar || '' };
+  const progress = { posts: 0, feedItems: 0, ...job.progress };
+
+  while (job.status === 'running') {
+    if (context && context.getRemainingTimeInMillis() < HANDOVER_MS) {
+      await ProfileEvents.authorSyncContinued(userId, job.runId, correlationId);
+      console.log(`Author sync for ${userId} continuing in a new invocation:`, progress);
+      return;
+    }
+
+    const state = job.phase === 'posts'
+      ? await rewritePostsPage(userId, author, job.cursor, progress)
+      : await rewriteFeedsPage(userId, author, job.cursor, progress);
+
+    if (!await JobData.saveProgress(job, state)) {
+      console.log(`Author sync for ${userId} was restarted by a newer update, stopping`);
+      return;
+    }
+  }
+
+  console.log(`Author fields for ${userId} propagated:`, progress);
+}
+
+async function rewritePostsPage(userId, author, cursor, progress) {
+  const { updated, lastEvaluatedKey } = await PostData.updateAuthorOnPosts(userId, author, {
+    limit: POSTS_PAGE_SIZE,
+    startKey: cursor || undefined,
+  });
+  progress.posts += updated;
+
+  return lastEvaluatedKey
+    ? { cursor: lastEvaluatedKey, progress }
+    : { phase: 'feeds', cursor: null, progress };
+}
+
+async function rewriteFeedsPage(userId, author, cursor, progress) {
+  const { items, lastEvaluatedKey } = await FollowData.getFollowers(userId, {
+    limit: FOLLOWERS_PAGE_SIZE,
+    startKey: cursor || undefined,
+  });
+
+  const counts = await Promise.all(items.map(follower =>
+    FeedData.updateAuthorInFeed(follower.followerId, userId, author)));
+  progress.feedItems += counts.reduce((sum, count) => sum + count, 0);
+
+  return lastEvaluatedKey
+    ? { cursor: lastEvaluatedKey, progress }
+    : { status: 'completed', phase: 'done', cursor: null, progress };
+}
@@ -0,0 +1,19 @@
+// lambda/events-esm/event-archiver.mjs
+import { EventLogData } from '../shared/index.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * Keep a copy of every social-media.* event for the admin events view.
+ * See EventLogData for how the archive is stored and listed.
+ */
+export const handler = async (event) => {
+  try {
+    await EventLogData.archiveEvent(event);
+
+  } catch (error) {
+    console.error('Error archiving event:', error instanceof Error ? error.message : 'Unknown error');
+    throw error; // Re-throw to trigger retry mechanism
+  }
+};
@@ -1,64 +1,145 @@
 // lambda/events-esm/feed-processor.mjs
+import { FeedData, FollowData, PostData, readEvent } from '../shared/index.mjs';
 
-const API_BASE_URL = process.env.API_BASE_URL;
+// Follower IDs logged when a fan-out is incomplete
+const MAX_LOGGED_FAILURES = 100;
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
-// Helper function to make API calls
-const makeApiCall = async (endpoint, method, body) => {
-  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-    method,
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: body ? JSON.stringify(body) : undefined,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`API call failed: ${response.status} ${response.statusText} - ${errorText}`);
-  }
-
-  return response.json();
-};
-
+/**
+ * Keep feeds in step with posts and follows.
+ *
+ * Every handler is safe to run more than once: feed keys are derived from the
+ * post, so repeated writes overwrite rather than duplicate, and follow events
+ * are checked against the stored relationship so a late or redelivered event
+ * does not undo a newer follow or unfollow.
+ */
 export const handler = async (event) => {
   try {
-    const { postId, userId, username, displayName, avatar, content, imageUrl, timestamp } = event.detail;
+    const { data } = readEvent(event);
+
+    switch (event['detail-type']) {
+      case 'Post Created':
+        await fanOutPost(data.postId, data.userId);
+        break;
 
-    console.log(`Processing post created event for postId: ${postId}, userId: ${userId}`);
+      case 'Post Updated':
+        await editFeedCopies(data.postId);
+        break;
 
-    // Get all followers of the user who created the post using API
-    const followersResponse = await makeApiCall(`/social/followers/${userId}`, 'GET');
-    const followers = followersResponse.followers || [];
+      case 'Post Deleted':
+        await removeFeedCopies(data);
+        break;
 
-    console.log(`Found ${followers.length} followers for user ${userId}`);
+      case 'User Followed':
+        await backfillFeed(data.followerId, data.followedUserId);
+        break;
 
-    if (followers.length === 0) {
-      console.log('No followers found, skipping feed generation');
-      return;
+      case 'User Unfollowed':
+        await cleanUpFeed(data.followerId, data.followedUserId);
+        break;
+
+      default:
+        console.warn('Unknown event type:', event['detail-type']);
     }
 
-    // Create feed items for each follower
-    const feedItems = followers.map((follower) => ({
-      followerId: follower.followerId,
-      postId,
-      authorId: userId,
-      authorUsername: username,
-      authorDisplayName: displayName,
-      authorAvatar: avatar,
-      content,
-      imageUrl,
-      timestamp,
-    }));
-
-    // Create feed items using API
-    await makeApiCall('/feed/items', 'POST', { feedItems });
-
-    console.log(`Successfully created ${feedItems.length} feed items for post ${postId}`);
   } catch (error) {
-    console.error('Error processing post created event:', error instanceof Error ? error.message : 'Unknown error');
-    throw error;
+    console.error('Error processing feed event:', error instanceof Error ? error.message : 'Unknown error');
+    throw error; // Re-throw to trigger retry mechanism
+  }
+};
+
+async function fanOutPost(postId, userId) {
+  console.log(`Processing post created event for postId: ${postId}, userId: ${userId}`);
+
+  // Fan out the stored post rather than the event copy, so a post deleted
+  // before this runs is not resurrected in followers' feeds
+  const post = await PostData.getPostById(postId);
+  if (!post) {
+    console.log(`Post ${postId} no longer exists, skipping feed generation`);
+    return;
+  }
+
+  const { mode, followers, written, failedFollowerIds } = await FeedData.createFeedItemsForPost(post);
+
+  if (mode === 'pull') {
+    if (failedFollowerIds.length > 0) {
+      console.error(`Registering pull-mode author ${userId} left followers unwritten:`, failedFollowerIds.slice(0, MAX_LOGGED_FAILURES));
+      // The author is only marked registered once every follower has the item, so a retry finishes it
+      throw new Error(`Registering pull-mode author ${userId} incomplete: ${failedFollowerIds.length} followers unwritten`);
+    }
+    console.log(`Post ${postId} not fanned out: author has ${followers} followers and is merged into feeds on read`);
+    return;
   }
-};
\ No newline at end of file
+
+  if (failedFollowerIds.length > 0) {
+    console.error(
+      `Fan-out for post ${postId} wrote ${written} of ${followers} feed items; unwritten for:`,
+      failedFollowerIds.slice(0, MAX_LOGGED_FAILURES),
+    );
+    // Retrying the whole fan-out is safe: copies already written are overwritten in place
+    throw new Error(`Fan-out for post ${postId} incomplete: ${failedFollowerIds.length} feed items unwritten`);
+  }
+
+  console.log(`Successfully created ${written} feed items for post ${postId}`);
+}
+
+async function editFeedCopies(postId) {
+  // Apply the stored post rather than the event copy, so a late event does not
+  // undo a newer edit; a deleted post's copies are removed by its own event
+  const post = await PostData.getPostById(postId);
+  if (!post) {
+    console.log(`Post ${postId} no longer exists, skipping feed edit`);
+    return;
+  }
+
+  const { updated } = await FeedData.updateFeedItemsForPost(post);
+  console.log(`Updated ${updated} feed items for post ${postId}`);
+}
+
+async function removeFeedCopies({ postId, userId, createdAt }) {
+  // Copies are keyed by the post's creation time, which events published
+  // before it was added to the payload do not carry
+  if (!createdAt) {
+    console.warn(`Post Deleted event for ${postId} has no createdAt, leaving its feed items`);
+    return;
+  }
+
+  const { removed, unprocessed } = await FeedData.removeFeedItemsForPost({ postId, userId, createdAt });
+  if (unprocessed > 0) {
+    throw new Error(`Removal of post ${postId} from feeds incomplete: ${unprocessed} feed items left`);
+  }
+
+  console.log(`Removed ${removed} feed items for post ${postId}`);
+}
+
+async function backfillFeed(followerId, followedUserId) {
+  // Unfollowed again before this ran; the unfollow event cleans up
+  if (!await FollowData.checkFollowStatus(followerId, followedUserId)) {
+    console.log(`${followerId} no longer follows ${followedUserId}, skipping backfill`);
+    return;
+  }
+
+  const { written, unprocessed } = await FeedData.backfillFeed(followerId, followedUserId);
+  if (unprocessed > 0) {
+    throw new Error(`Backfill of ${followedUserId} into ${followerId}'s feed incomplete: ${unprocessed} feed items unwritten`);
+  }
+
+  console.log(`Backfilled ${written} posts by ${followedUserId} into ${followerId}'s feed`);
+}
+
+async function cleanUpFeed(followerId, unfollowedUserId) {
+  // Followed again before this ran; their posts belong in the feed
+  if (await FollowData.checkFollowStatus(followerId, unfollowedUserId)) {
+    console.log(`${followerId} follows ${unfollowedUserId} again, skipping feed cleanup`);
+    return;
+  }
+
+  const { removed, unprocessed } = await FeedData.removeFeedItemsForUnfollow(followerId, unfollowedUserId);
+  if (unprocessed > 0) {
+    throw new Error(`Cleanup of ${unfollowedUserId} from ${followerId}'s feed incomplete: ${unprocessed} feed items left`);
+  }
+
+  console.log(`Removed ${removed} posts by ${unfollowedUserId} from ${followerId}'s feed`);
+}
@@ -0,0 +1,124 @@
+// lambda/events-esm/notification-processor.mjs
+import { NotificationData, FollowData, ProfileData, readEvent } from '../shared/index.mjs';
+
+// Longest post or comment excerpt stored on a notification
+const PREVIEW_LENGTH = 100;
+
+// @mentions are word characters only, so trailing punctuation is not part of the name
+const MENTION_PATTERN = /(?:^|[^\w@])@(\w{1,50})/g;
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    const { data } = readEvent(event);
+
+    switch (event['detail-type']) {
+      case 'Post Liked':
+        await notify({
+          userId: data.postAuthorId,
+          actorId: data.userId,
+          type: 'like',
+          groupKey: `like#${data.postId}`,
+          postId: data.postId,
+          preview: toPreview(data.postContent),
+        });
+        break;
+
+      case 'User Followed':
+        await notify({
+          userId: data.followedUserId,
+          actorId: data.followerId,
+          type: 'follow',
+          groupKey: 'follow',
+        });
+        break;
+
+      case 'Follow Requested':
+        await notify({
+          userId: data.targetUserId,
+          actorId: data.requesterId,
+          type: 'follow_request',
+          groupKey: 'follow_request',
+        });
+        break;
+
+      case 'Comment Created':
+        await notify({
+          userId: data.postAuthorId,
+          actorId: data.userId,
+          type: 'comment',
+          groupKey: `comment#${data.postId}`,
+          postId: data.postId,
+          commentId: data.commentId,
+          preview: toPreview(data.content),
+        });
+        await notifyMentions(data.content, {
+          actorId: data.userId,
+          postId: data.postId,
+          commentId: data.commentId,
+        });
+        break;
+
+      case 'Post Created':
+        await notifyMentions(data.content, {
+          actorId: data.userId,
+          postId: data.postId,
+        });
+        break;
+
+      default:
+        console.warn('Unknown event type:', event['detail-type']);
+    }
+
+  } catch (error) {
+    console.error('Error processing notification event:', error instanceof Error ? error.message : 'Unknown error');
+    throw error; // Re-throw to trigger retry mechanism
+  }
+};
+
+/**
+ * Notify one user, unless they are the actor or either has blocked the other
+ */
+async function notify(notification) {
+  const { userId, actorId } = notification;
+  if (!userId || !actorId || userId === actorId) {
+    return;
+  }
+
+  if (await FollowData.isBlockedEitherWay(userId, actorId)) {
+    return;
+  }
+
+  const { aggregated } = await NotificationData.addNotification(notification);
+  console.log(`${aggregated ? 'Aggregated' : 'Created'} ${notification.type} notification for ${userId}`);
+}
+
+/**
+ * Notify every existing user mentioned by @username in the content.
+ * Each post or comment gets its own mention notification per recipient.
+ */
+async function notifyMentions(content, { actorId, postId, commentId }) {
+  const usernames = [...new Set([...(content || '').matchAll(MENTION_PATTERN)].map(match => match[1]))];
+  const profiles = await Promise.all(usernames.map(username => ProfileData.getProfileByUsername(username)));
+
+  for (const profile of profiles.filter(Boolean)) {
+    await notify({
+      userId: profile.userId,
+      actorId,
+      type: 'mention',
+      groupKey: `mention#${commentId || postId}`,
+      postId,
+      commentId,
+      preview: toPreview(content),
+    });
+  }
+}
+
+function toPreview(content) {
+  if (!content) {
+    return undefined;
+  }
+  return content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH - 1)}…` : content;
+}
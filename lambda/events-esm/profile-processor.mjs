@@ -1,4 +1,5 @@
 // lambda/events-esm/profile-processor.mjs
+import { ProfileData, readEvent } from '../shared/index.mjs';
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
@@ -6,14 +7,15 @@ await Promise.resolve();
 export const handler = async (event) => {
   try {
     console.log('Processing profile event:', JSON.stringify(event, null, 2));
+    const { data } = readEvent(event);
 
     switch (event['detail-type']) {
       case 'Profile Created':
-        await handleProfileCreated(event.detail);
+        await handleProfileCreated(data);
         break;
 
       case 'Profile Updated':
-        await handleProfileUpdated(event.detail);
+        await handleProfileUpdated(data);
         break;
 
       default:
@@ -26,90 +28,63 @@ export const handler = async (event) => {
   }
 };
 
-async function handleProfileCreated(detail) {
-  console.log(`Profile created for user: ${detail.userId} (${detail.username})`);
+async function handleProfileCreated({ userId, profile }) {
+  console.log(`Profile created for user: ${userId} (${profile.username})`);
 
   // Example event-driven tasks:
-  // 1. Create search index entry
-  // 2. Send welcome email
-  // 3. Initialize analytics tracking
-  // 4. Create default privacy settings
+  // 1. Send welcome email
+  // 2. Initialize analytics tracking
+  // 3. Create default privacy settings
+  // The search index is maintained by the search indexer
 
   // Simulate async operations
   await Promise.all([
-    createSearchIndexEntry(detail),
-    sendWelcomeEmail(detail),
-    initializeAnalytics(detail),
+    sendWelcomeEmail(userId),
+    initializeAnalytics(userId),
   ]);
 }
 
 async function handleProfileUpdated(detail) {
   console.log(`Profile updated for user: ${detail.userId}`);
-  console.log('Changes:', detail.changes);
+  console.log('Changes:', detail.updates);
 
   // Example event-driven tasks:
-  // 1. Update search index
-  // 2. Invalidate profile caches
-  // 3. Update feed relevance scores
-  // 4. Log analytics event
+  // 1. Invalidate profile caches
+  // 2. Update feed relevance scores
+  // 3. Log analytics event
 
   await Promise.all([
-    updateSearchIndex(detail),
     invalidateProfileCache(detail),
     updateFeedRelevance(detail),
   ]);
 }
 
 // Placeholder implementations - replace with actual services
-async function createSearchIndexEntry(detail) {
-  // TODO: Add user to ElasticSearch/OpenSearch for profile search
-  console.log(`Creating search index for ${detail.username}`);
-
-  // Example: Could index username, displayName, bio for search
-  const searchDocument = {
-    userId: detail.userId,
-    username: detail.username,
-    displayName: detail.displayName,
-    type: 'profile',
-    createdAt: detail.timestamp,
-  };
-
-  // await searchClient.index(searchDocument);
-  console.log('Search document:', searchDocument);
-}
+async function sendWelcomeEmail(userId) {
+  // Email addresses are private, so the event carries the public profile only
+  const profile = await ProfileData.getProfileById(userId);
+  if (!profile) {
+    console.log(`Profile ${userId} no longer exists, skipping welcome email`);
+    return;
+  }
 
-async function sendWelcomeEmail(detail) {
   // TODO: Send welcome email via SES
-  console.log(`Sending welcome email to ${detail.email}`);
+  console.log(`Sending welcome email to ${profile.email}`);
 
   // await sesClient.sendEmail({
-  //   to: detail.email,
+  //   to: profile.email,
   //   subject: 'Welcome to Social Media App!',
-  //   body: `Hi ${detail.displayName}, welcome!`
+  //   body: `Hi ${profile.displayName}, welcome!`
   // });
 }
 
-async function initializeAnalytics(detail) {
+async function initializeAnalytics(userId) {
   // TODO: Set up analytics tracking for new user
-  console.log(`Initializing analytics for ${detail.userId}`);
+  console.log(`Initializing analytics for ${userId}`);
 
   // Could create user segments, initialize tracking, etc.
 }
 
-async function updateSearchIndex(detail) {
-  console.log(`Updating search index for user ${detail.userId}`);
-
-  // Update searchable fields if they changed
-  const searchableChanges = ['displayName', 'bio', 'isPrivate'];
-  const hasSearchableChanges = Object.keys(detail.changes)
-    .some(key => searchableChanges.includes(key));
-
-  if (hasSearchableChanges) {
-    console.log('Searchable fields changed, updating index');
-    // await searchClient.update(detail.userId, detail.changes);
-  }
-}
-
 async function invalidateProfileCache(detail) {
   console.log(`Invalidating cache for user ${detail.userId}`);
 
@@ -127,8 +102,8 @@ async function updateFeedRelevance(detail) {
   console.log(`Updating feed relevance for user ${detail.userId}`);
 
   // If privacy settings changed, might need to update who can see their content
-  if ('isPrivate' in detail.changes) {
-    console.log(`Privacy setting changed to: ${detail.changes.isPrivate}`);
+  if ('isPrivate' in detail.updates) {
+    console.log(`Privacy setting changed to: ${detail.updates.isPrivate}`);
     // TODO: Update feed algorithms, follower visibility, etc.
   }
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+// lambda/events-esm/search-indexer.mjs
+import { SearchData, ProfileData, PostData, readEvent } from '../shared/index.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * Keep the search index in step with profiles and posts.
+ *
+ * Every event re-reads the current document instead of trusting the event
+ * detail, so redelivered or out-of-order events converge on the stored state.
+ */
+export const handler = async (event) => {
+  try {
+    const { data } = readEvent(event);
+
+    switch (event['detail-type']) {
+      case 'Profile Created':
+      case 'Profile Updated':
+      case 'Profile Deleted':
+        await reindexProfile(data.userId);
+        break;
+
+      case 'Post Created':
+      case 'Post Updated':
+      case 'Post Deleted':
+        await reindexPost(data.postId);
+        break;
+
+      default:
+        console.warn('Unknown event type:', event['detail-type']);
+    }
+
+  } catch (error) {
+    console.error('Error updating search index:', error instanceof Error ? error.message : 'Unknown error');
+    throw error; // Re-throw to trigger retry mechanism
+  }
+};
+
+async function reindexProfile(userId) {
+  const profile = await ProfileData.getProfileById(userId);
+  const result = profile
+    ? await SearchData.indexProfile(profile)
+    : await SearchData.removeDocument('profile', userId);
+
+  console.log(`Search index for profile ${userId}:`, result);
+}
+
+async function reindexPost(postId) {
+  const post = await PostData.getPostById(postId);
+  const result = post
+    ? await SearchData.indexPost(post)
+    : await SearchData.removeDocument('post', postId);
+
+  console.log(`Search index for post ${postId}:`, result);
+}
@@ -0,0 +1,55 @@
+// lambda/events-esm/stream-processor.mjs
+import { toDomainEvent, publishEvents, isEventsRejectedError, MAX_EVENTS_PER_PUT } from '../shared/index.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * Publish the domain events implied by table changes (see toDomainEvent).
+ *
+ * Events go out in stream order. The first record that cannot be mapped or
+ * published is returned as a batch item failure, so Lambda retries the batch
+ * from that record and the events before it are not sent again. Delivery is
+ * still at least once: consumers must tolerate a repeated event.
+ *
+ * A change whose event does not match the catalog cannot be mapped either,
+ * so it ends up in the stream's dead letter queue rather than on the bus.
+ */
+export const handler = async (event) => {
+  const pending = [];
+  let unmapped;
+
+  for (const record of event.Records) {
+    try {
+      const domainEvent = await toDomainEvent(record);
+      if (domainEvent) {
+        pending.push({ sequenceNumber: record.dynamodb.SequenceNumber, domainEvent });
+      }
+    } catch (error) {
+      console.error(`Error mapping stream record ${record.eventID}:`, error instanceof Error ? error.message : 'Unknown error');
+      unmapped = record.dynamodb.SequenceNumber;
+      break;
+    }
+  }
+
+  for (let i = 0; i < pending.length; i += MAX_EVENTS_PER_PUT) {
+    const chunk = pending.slice(i, i + MAX_EVENTS_PER_PUT);
+
+    let failedIndex = -1;
+    try {
+      await publishEvents(chunk.map(({ domainEvent }) => domainEvent));
+    } catch (error) {
+      console.error('Error publishing domain events:', error instanceof Error ? error.message : 'Unknown error');
+      failedIndex = isEventsRejectedError(error) ? error.entries.findIndex(entry => entry.ErrorCode) : 0;
+    }
+
+    if (failedIndex !== -1) {
+      const { domainEvent, sequenceNumber } = chunk[failedIndex];
+      console.error(`${domainEvent.detailType} not published, retrying from record ${sequenceNumber}`);
+      return { batchItemFailures: [{ itemIdentifier: sequenceNumber }] };
+    }
+  }
+
+  console.log(`Published ${pending.length} domain events from ${event.Records.length} stream records`);
+  return { batchItemFailures: unmapped ? [{ itemIdentifier: unmapped }] : [] };
+};
@@ -0,0 +1,298 @@
+// lambda/events-esm/user-deleter.mjs
+import {
+  AdminData,
+  ProfileData,
+  PostData,
+  LikeData,
+  CommentData,
+  isCommentDeletionCancelled,
+  FollowData,
+  FeedData,
+  JobData,
+  AdminEvents,
+  batchDeleteKeys,
+  readEvent,
+  USER_DELETION_JOB,
+  IMAGES_BUCKET_NAME,
+} from '../shared/index.mjs';
+
+// Steps of a deletion, in order. The account is locked first, so the user
+// cannot add anything behind the steps that already ran. Posts go before
+// followers, whose follow edges find the feed copies; the profile goes last,
+// so a failed run can be started again and counters on it are never written
+// to a deleted item.
+const PHASES = ['lock', 'posts', 'likes', 'following', 'followers', 'references', 'partitions', 'images', 'account'];
+
+// Jobs kept per user by other consumers, e.g. the author propagator's
+const USER_JOB_TYPES = ['author-sync'];
+
+const POSTS_PAGE_SIZE = 10;
+const EDGES_PAGE_SIZE = 25;
+const ITEMS_PAGE_SIZE = 100;
+
+// Hand over to a new invocation while there is still time to save progress
+const HANDOVER_MS = 30 * 1000;
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+/**
+ * Delete a user and everything that belongs to them.
+ *
+ * The deletion is a job (see JobData) started by the admin delete-user
+ * endpoint, which publishes `User Deletion Requested`. It works through
+ * PHASES a page at a time, saving its cursor and counts after each page so
+ * the admin UI can show progress. When the invocation runs short of time it
+ * publishes `User Deletion Continued` and the next invocation resumes from
+ * the saved cursor; an event that failed every retry can be redriven from the
+ * dead letter queue to the same effect.
+ *
+ * Every step tolerates repeats: records another step or a previous attempt
+ * already removed are skipped, so counters on other profiles and posts are
+ * decremented once per record actually deleted.
+ */
+export const handler = async (event, context) => {
+  try {
+    const { data, correlationId } = readEvent(event);
+
+    switch (event['detail-type']) {
+      case 'User Deletion Requested':
+      case 'User Deletion Continued': {
+        const job = await JobData.getJob(USER_DELETION_JOB, data.userId);
+        if (job?.runId !== data.runId || job.status !== 'running') {
+          console.log(`User deletion run ${data.runId} for ${data.userId} was superseded`);
+          return;
+        }
+
+        await deleteUser(job, context, correlationId);
+        break;
+      }
+
+      default:
+        console.warn('Unknown event type:', event['detail-type']);
+    }
+
+  } catch (error) {
+    console.error('Error deleting user:', error instanceof Error ? error.message : 'Unknown error');
+    throw error; // Re-throw to trigger retry mechanism; the job resumes from its last save
+  }
+};
+
+async function deleteUser(job, context, correlationId) {
+  const userId = job.id;
+  const progress = {
+    posts: 0,
+    likes: 0,
+    follows: 0,
+    comments: 0,
+    references: 0,
+    items: 0,
+    objects: 0,
+    ...job.progress,
+  };
+
+  while (job.status === 'running') {
+    if (context && context.getRemainingTimeInMillis() < HANDOVER_MS) {
+      await AdminEvents.userDeletionContinued(userId, job.runId, correlationId);
+      console.log(`Deletion of ${userId} continuing in a new invocation:`, progress);
+      return;
+    }
+
+    const step = await STEPS[job.phase](userId, job.cursor, progress);
+    const state = step.done
+      ? nextPhase(job.phase, progress)
+      : { cursor: step.cursor, progress };
+
+    if (!await JobData.saveProgress(job, state)) {
+      console.log(`Deletion of ${userId} was restarted, stopping`);
+      return;
+    }
+  }
+
+  console.log(`User ${userId} deleted:`, progress);
+}
+
+function nextPhase(phase, progress) {
+  const next = PHASES[PHASES.indexOf(phase) + 1];
+  return next
+    ? { phase: next, cursor: null, progress }
+    : { status: 'completed', phase: 'done', cursor: null, progress };
+}
+
+// Each step handles one page and returns the cursor of the next, or done
+const pageResult = (lastEvaluatedKey) =>
+  (lastEvaluatedKey ? { cursor: lastEvaluatedKey } : { done: true });
+
+const isCancelled = (error) => error.name === 'TransactionCanceledException';
+
+const STEPS = {
+  // Their credentials, and every token they hold (see AdminData.lockAccount)
+  async lock(userId) {
+    await AdminData.lockAccount(userId);
+    return { done: true };
+  },
+
+  // The user's posts with their likes, comments, revisions and feed copies
+  async posts(userId, cursor, progress) {
+    const { items, lastEvaluatedKey } = await PostData.getUserPosts(userId, {
+      limit: POSTS_PAGE_SIZE,
+      startKey: cursor || undefined,
+    });
+
+    for (const item of items) {
+      const post = await PostData.getPostById(item.postId);
+      if (!post) {
+        continue; // Index items left behind are removed with the partition
+      }
+
+      await FeedData.removeFeedItemsForPost(post);
+      try {
+        await PostData.deletePost(post);
+        progress.posts += 1;
+      } catch (error) {
+        if (!isCancelled(error)) throw error;
+      }
+    }
+
+    return pageResult(lastEvaluatedKey);
+  },
+
+  // Likes on other people's posts, decrementing their likesCount
+  async likes(userId, cursor, progress) {
+    const { items, lastEvaluatedKey } = await LikeData.getUserLikes(userId, {
+      limit: EDGES_PAGE_SIZE,
+      startKey: cursor || undefined,
+    });
+
+    for (const item of items) {
+      try {
+        await LikeData.unlikePost(userId, item.postId);
+        progress.likes += 1;
+      } catch (error) {
+        if (!isCancelled(error)) throw error;
+        await batchDeleteKeys([item]); // The post, and its like record, are gone
+      }
+    }
+
+    return pageResult(lastEvaluatedKey);
+  },
+
+  // Users they follow, decrementing each one's followersCount
+  async following(userId, cursor, progress) {
+    const { items, lastEvaluatedKey } = await FollowData.getFollowing(userId, {
+      limit: EDGES_PAGE_SIZE,
+      startKey: cursor || undefined,
+    });
+
+    for (const item of items) {
+      progress.follows += await unfollow(userId, item.followedUserId);
+    }
+
+    return pageResult(lastEvaluatedKey);
+  },
+
+  // Their followers, decrementing each one's followingCount
+  async followers(userId, cursor, progress) {
+    const { items, lastEvaluatedKey } = await FollowData.getFollowers(userId, {
+      limit: EDGES_PAGE_SIZE,
+      startKey: cursor || undefined,
+    });
+
+    for (const item of items) {
+      progress.follows += await unfollow(item.followerId, userId);
+    }
+
+    return pageResult(lastEvaluatedKey);
+  },
+
+  // Their comments, sent follow requests and blocks and mutes of them, held
+  // in other partitions and found through the references in their own
+  async references(userId, cursor, progress) {
+    const { items, lastEvaluatedKey } = await AdminData.getUserReferences(userId, {
+      limit: EDGES_PAGE_SIZE,
+      startKey: cursor || undefined,
+    });
+
+    for (const reference of items) {
+      if (reference.commentId) {
+        // Still there unless deleted with a thread earlier in this page
+        const comment = await CommentData.getComment(reference.postId, reference.commentId);
+        if (comment) {
+          try {
+            await CommentData.deleteComment(comment);
+            progress.comments += 1;
+          } catch (error) {
+            // Gone with its post or deleted meanwhile; a changed thread is retried
+            if (!isCommentDeletionCancelled(error) || error.reason === 'thread-changed') throw error;
+          }
+        }
+        // deleteComment takes the reference with it; this removes one that outlived its comment
+        await batchDeleteKeys([reference]);
+      } else {
+        await batchDeleteKeys([reference.ref, reference]);
+        progress.references += 1;
+      }
+    }
+
+    return pageResult(lastEvaluatedKey);
+  },
+
+  // Whatever is left under USER#, and their feed, notifications and jobs
+  async partitions(userId, cursor, progress) {
+    const partitions = [
+      `USER#${userId}`,
+      `FEED#${userId}`,
+      `NOTIF#${userId}`,
+      ...USER_JOB_TYPES.map(type => `JOB#${type}#${userId}`),
+    ];
+    const { partition = 0, startKey } = cursor || {};
+
+    const { deleted, lastEvaluatedKey } = await AdminData.deletePartitionPage(partitions[partition], {
+      limit: ITEMS_PAGE_SIZE,
+      startKey,
+    }, ['PROFILE']);
+    progress.items += deleted;
+
+    if (lastEvaluatedKey) {
+      return { cursor: { partition, startKey: lastEvaluatedKey } };
+    }
+    return partition + 1 < partitions.length
+      ? { cursor: { partition: partition + 1 } }
+      : { done: true };
+  },
+
+  // Their uploads: post images and avatars
+  async images(userId, cursor, progress) {
+    if (!IMAGES_BUCKET_NAME) {
+      return { done: true };
+    }
+
+    const { deleted, more } = await AdminData.deleteUserObjects(IMAGES_BUCKET_NAME, userId);
+    progress.objects += deleted;
+
+    return more ? { cursor: null } : { done: true };
+  },
+
+  // The profile and username; the stream removes them from search
+  async account(userId) {
+    const profile = await ProfileData.getProfileById(userId);
+    if (profile) {
+      await AdminData.deleteAccount(profile);
+    }
+    return { done: true };
+  },
+};
+
+/**
+ * Remove a follow and its counters. Returns 0 when the follow was already
+ * gone, so the counters are not decremented twice.
+ */
+async function unfollow(followerId, followedUserId) {
+  try {
+    await FollowData.unfollowUser(followerId, followedUserId);
+    return 1;
+  } catch (error) {
+    if (!isCancelled(error)) throw error;
+    return 0;
+  }
+}
@@ -1,78 +1,66 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
-import { createFeedResponse } from '../shared/schemas.mjs';
-
-// Initialize AWS SDK clients with top-level await
-const dynamoClient = new DynamoDBClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
-const docClient = DynamoDBDocumentClient.from(dynamoClient, {
-  marshallOptions: {
-    removeUndefinedValues: true,
-  },
-});
+import {
+  FeedData,
+  FollowData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  canActAsUser,
+  filterVisibleItems,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createFeedResponse, validateGetFeedQuery } from '../shared/schemas.mjs';
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
-const TABLE_NAME = process.env.TABLE_NAME;
-
 export const handler = async (event) => {
-  const headers = {
-    'Content-Type': 'application/json',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key',
-    'Access-Control-Allow-Methods': 'GET,OPTIONS',
-  };
-
   try {
     if (event.httpMethod === 'OPTIONS') {
-      return { statusCode: 200, headers, body: '' };
+      return handleOptionsRequest();
     }
 
     const userId = event.pathParameters?.userId;
-
     if (!userId) {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({ error: 'Missing userId' }),
-      };
+      return createValidationError('Missing userId');
     }
 
-    // Query user's feed
-    const result = await docClient.send(new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `FEED#${userId}`,
-        ':sk': 'POST#',
-      },
-      ScanIndexForward: false, // Sort by timestamp descending (newest first)
-      Limit: 20, // Limit to 20 feed items
-    }));
+    const { mode = 'chronological' } = event.queryStringParameters || {};
+    const validation = validateGetFeedQuery({ mode });
+    if (!validation.isValid) {
+      return createValidationError(validation.errors.join(', '));
+    }
+
+    // Ranked cursors hold an offset rather than a key, so each mode has its own scope
+    const scope = mode === 'ranked' ? `feed:${userId}:ranked` : `feed:${userId}`;
+    const page = await getPageRequest(event, scope);
+
+    const { items, lastEvaluatedKey } = mode === 'ranked'
+      ? await FeedData.getRankedFeed(userId, page)
+      : await FeedData.getUserFeed(userId, page);
+    const caller = getCallerIdentity(event);
 
-    const feedItems = result.Items || [];
+    // The owner's feed only holds posts they were allowed to see; other viewers
+    // must not reach private authors through it. Items fanned out before a
+    // block or mute stay in the table, so those authors are dropped on read.
+    const [visibleItems, hiddenAuthorIds, nextCursor] = await Promise.all([
+      canActAsUser(caller, userId) ? items : filterVisibleItems(caller, items),
+      FollowData.getHiddenAuthorIds(userId, items.map(item => item.userId)),
+      encodeCursor(lastEvaluatedKey, scope),
+    ]);
+    const feedItems = visibleItems.filter(item => !hiddenAuthorIds.has(item.userId));
 
-    // Format response using shared helper
-    const response = createFeedResponse(feedItems, userId);
+    return createSuccessResponse(createFeedResponse(feedItems, userId, nextCursor, mode));
 
-    return {
-      statusCode: 200,
-      headers,
-      body: JSON.stringify(response),
-    };
   } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
+
     console.error('Error getting user feed:', error);
-    return {
-      statusCode: 500,
-      headers,
-      body: JSON.stringify({
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      }),
-    };
+    return createErrorResponse('Internal server error');
   }
-};
\ No newline at end of file
+};
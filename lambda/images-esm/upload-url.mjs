@@ -2,6 +2,9 @@ import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { v4 as uuidv4 } from 'uuid';
 import { validateUploadUrlRequest, createUploadUrlResponse } from '../shared/schemas.mjs';
+import { getCallerIdentity } from '../shared/auth.mjs';
+import { canUploadImage } from '../shared/policies.mjs';
+import { createUnauthorizedError, createForbiddenError } from '../shared/responses.mjs';
 
 // Initialize AWS SDK clients with top-level await
 const s3Client = new S3Client({
@@ -15,6 +18,10 @@ await Promise.resolve();
 
 const BUCKET_NAME = process.env.IMAGES_BUCKET_NAME;
 
+// Where uploaded images are served from; the dev server points this at its S3 stand-in
+const IMAGES_BASE_URL = process.env.IMAGES_BASE_URL
+  || `https://${BUCKET_NAME}.s3.${process.env.AWS_REGION}.amazonaws.com`;
+
 export const handler = async (event) => {
   console.log('Event:', JSON.stringify(event, null, 2));
 
@@ -34,6 +41,11 @@ export const handler = async (event) => {
       };
     }
 
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
     if (!event.body) {
       return {
         statusCode: 400,
@@ -42,7 +54,12 @@ export const handler = async (event) => {
       };
     }
 
-    const request = JSON.parse(event.body);
+    // Uploads always go to the caller's folder; the body may repeat their id but not name anyone else
+    const body = JSON.parse(event.body);
+    if (!canUploadImage(caller, body.userId)) {
+      return createForbiddenError('You can only upload images for yourself');
+    }
+    const request = { ...body, userId: caller.userId };
 
     // Validate request using shared schema
     const validation = validateUploadUrlRequest(request);
@@ -80,7 +97,7 @@ export const handler = async (event) => {
     });
 
     // Generate the public URL for accessing the image
-    const imageUrl = `https://${BUCKET_NAME}.s3.${process.env.AWS_REGION}.amazonaws.com/${key}`;
+    const imageUrl = `${IMAGES_BASE_URL}/${key}`;
 
     // Format response using shared helper
     const response = createUploadUrlResponse(uploadUrl, imageUrl, key, uniqueFileName);
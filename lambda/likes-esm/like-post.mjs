@@ -1,7 +1,10 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
-import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
 import { validateLikeRequest, createLikeActionResponse } from '../shared/schemas.mjs';
+import { getCallerIdentity } from '../shared/auth.mjs';
+import { canLikePost } from '../shared/policies.mjs';
+import { FollowData } from '../shared/follow-data.mjs';
+import { createUnauthorizedError, createForbiddenError } from '../shared/responses.mjs';
 
 // Initialize AWS SDK clients with top-level await
 const dynamoClient = new DynamoDBClient({
@@ -15,16 +18,10 @@ const docClient = DynamoDBDocumentClient.from(dynamoClient, {
   },
 });
 
-const eventBridgeClient = new EventBridgeClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
 const TABLE_NAME = process.env.TABLE_NAME;
-const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
 
 export const handler = async (event) => {
   console.log('Event:', JSON.stringify(event, null, 2));
@@ -41,6 +38,11 @@ export const handler = async (event) => {
       return { statusCode: 200, headers, body: '' };
     }
 
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
     if (!event.body) {
       return {
         statusCode: 400,
@@ -49,7 +51,12 @@ export const handler = async (event) => {
       };
     }
 
-    const request = JSON.parse(event.body);
+    // Likes are always the caller's; the body may repeat their id but not name anyone else
+    const body = JSON.parse(event.body);
+    if (!canLikePost(caller, body.userId)) {
+      return createForbiddenError('You can only like posts as yourself');
+    }
+    const request = { ...body, userId: caller.userId };
 
     // Validate request using shared schema
     const validation = validateLikeRequest(request);
@@ -83,6 +90,10 @@ export const handler = async (event) => {
       };
     }
 
+    if (await FollowData.isBlockedEitherWay(userId, postResult.Item.userId)) {
+      return createForbiddenError('You cannot interact with this user');
+    }
+
     // Check if user already liked this post
     const existingLike = await docClient.send(new GetCommand({
       TableName: TABLE_NAME,
@@ -114,6 +125,7 @@ export const handler = async (event) => {
             SK: `LIKE#${userId}`,
             postId,
             userId,
+            postAuthorId: post.userId, // For the Post Liked event published from the stream
             createdAt: timestamp,
           },
         },
@@ -127,6 +139,7 @@ export const handler = async (event) => {
             SK: `LIKED#${postId}`,
             postId,
             userId,
+            postAuthorId: post.userId, // Author affinity for the ranked feed
             createdAt: timestamp,
           },
         },
@@ -151,25 +164,6 @@ export const handler = async (event) => {
       TransactItems: transactItems,
     }));
 
-    // Send event to EventBridge
-    await eventBridgeClient.send(new PutEventsCommand({
-      Entries: [
-        {
-          Source: 'social-media.likes',
-          DetailType: 'Post Liked',
-          Detail: JSON.stringify({
-            userId,
-            postId,
-            postAuthorId: post.userId,
-            postAuthorUsername: post.username,
-            postContent: post.content,
-            timestamp,
-          }),
-          EventBusName: EVENT_BUS_NAME,
-        },
-      ],
-    }));
-
     // Format response using shared helper
     const response = createLikeActionResponse(true, (post.likesCount || 0) + 1);
 
@@ -1,7 +1,9 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
-import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
 import { validateLikeRequest, createLikeActionResponse } from '../shared/schemas.mjs';
+import { getCallerIdentity } from '../shared/auth.mjs';
+import { canLikePost } from '../shared/policies.mjs';
+import { createUnauthorizedError, createForbiddenError } from '../shared/responses.mjs';
 
 // Initialize AWS SDK clients with top-level await
 const dynamoClient = new DynamoDBClient({
@@ -15,16 +17,10 @@ const docClient = DynamoDBDocumentClient.from(dynamoClient, {
   },
 });
 
-const eventBridgeClient = new EventBridgeClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
 const TABLE_NAME = process.env.TABLE_NAME;
-const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
 
 export const handler = async (event) => {
   console.log('Event:', JSON.stringify(event, null, 2));
@@ -41,6 +37,11 @@ export const handler = async (event) => {
       return { statusCode: 200, headers, body: '' };
     }
 
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
     if (!event.body) {
       return {
         statusCode: 400,
@@ -49,7 +50,12 @@ export const handler = async (event) => {
       };
     }
 
-    const request = JSON.parse(event.body);
+    // Likes are always the caller's; the body may repeat their id but not name anyone else
+    const body = JSON.parse(event.body);
+    if (!canLikePost(caller, body.userId)) {
+      return createForbiddenError('You can only like posts as yourself');
+    }
+    const request = { ...body, userId: caller.userId };
 
     // Validate request using shared schema
     const validation = validateLikeRequest(request);
@@ -100,7 +106,6 @@ export const handler = async (event) => {
       };
     }
 
-    const timestamp = new Date().toISOString();
     const post = postResult.Item;
 
     // Remove like records and update counts in a transaction
@@ -145,25 +150,6 @@ export const handler = async (event) => {
       TransactItems: transactItems,
     }));
 
-    // Send event to EventBridge
-    await eventBridgeClient.send(new PutEventsCommand({
-      Entries: [
-        {
-          Source: 'social-media.likes',
-          DetailType: 'Post Unliked',
-          Detail: JSON.stringify({
-            userId,
-            postId,
-            postAuthorId: post.userId,
-            postAuthorUsername: post.username,
-            postContent: post.content,
-            timestamp,
-          }),
-          EventBusName: EVENT_BUS_NAME,
-        },
-      ],
-    }));
-
     // Format response using shared helper
     const response = createLikeActionResponse(false, Math.max((post.likesCount || 0) - 1, 0));
 
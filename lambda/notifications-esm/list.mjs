@@ -0,0 +1,65 @@
+import {
+  NotificationData,
+  ProfileData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  canManageNotifications,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createNotificationsResponse, getNotificationActorIds } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const userId = event.pathParameters?.userId;
+    if (!userId) {
+      return createValidationError('Missing userId parameter');
+    }
+
+    if (!canManageNotifications(caller, userId)) {
+      return createForbiddenError('You can only view your own notifications');
+    }
+
+    const scope = `notifications:${userId}`;
+    const page = await getPageRequest(event, scope);
+
+    const [{ items, lastEvaluatedKey }, unreadCount] = await Promise.all([
+      NotificationData.getNotifications(userId, page),
+      NotificationData.getUnreadCount(userId),
+    ]);
+
+    // Actor names are read now rather than stored, so renames show up
+    const [profiles, nextCursor] = await Promise.all([
+      ProfileData.getPublicProfiles(items.flatMap(getNotificationActorIds)),
+      encodeCursor(lastEvaluatedKey, scope),
+    ]);
+
+    return createSuccessResponse(createNotificationsResponse(items, userId, unreadCount, nextCursor, profiles));
+
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
+
+    console.error('Error listing notifications:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
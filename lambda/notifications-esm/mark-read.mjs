@@ -0,0 +1,54 @@
+import {
+  NotificationData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  canManageNotifications,
+} from '../shared/index.mjs';
+import { validateMarkNotificationsReadRequest, createMarkNotificationsReadResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const userId = event.pathParameters?.userId;
+    if (!userId) {
+      return createValidationError('Missing userId parameter');
+    }
+
+    if (!canManageNotifications(caller, userId)) {
+      return createForbiddenError('You can only update your own notifications');
+    }
+
+    const request = JSON.parse(event.body || '{}');
+    const validation = validateMarkNotificationsReadRequest(request);
+    if (!validation.isValid) {
+      return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+    }
+
+    const marked = request.notificationIds
+      ? await NotificationData.markRead(userId, request.notificationIds)
+      : await NotificationData.markAllRead(userId);
+    const unreadCount = await NotificationData.getUnreadCount(userId);
+
+    return createSuccessResponse(createMarkNotificationsReadResponse(userId, marked, unreadCount));
+
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
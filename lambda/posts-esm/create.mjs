@@ -1,144 +1,77 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
-import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
-import { validateCreatePostRequest, createPostResponse } from '../shared/schemas.mjs';
-
-// Initialize AWS SDK clients with top-level await
-const dynamoClient = new DynamoDBClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
-const docClient = DynamoDBDocumentClient.from(dynamoClient, {
-  marshallOptions: {
-    removeUndefinedValues: true,
-  },
-});
-
-const eventBridgeClient = new EventBridgeClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
+import {
+  API_BASE_URL,
+  apiPath,
+  getCallerIdentity,
+  canCreatePost,
+  createSuccessResponse,
+  createErrorResponse,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+import { validateCreatePostRequest } from '../shared/schemas.mjs';
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
-const TABLE_NAME = process.env.TABLE_NAME;
-const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
-const API_BASE_URL = process.env.API_BASE_URL;
-
-const makeApiCall = async (endpoint, method, body) => {
+/**
+ * Call a data service with the caller's token, which its route is
+ * authorized with. Returns the service's status and parsed body.
+ */
+const makeApiCall = async (endpoint, method, body, authorization) => {
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
     method,
     headers: {
       'Content-Type': 'application/json',
+      Authorization: authorization,
     },
     body: body ? JSON.stringify(body) : undefined,
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`API call failed: ${response.status} ${response.statusText} - ${errorText}`);
-  }
-
-  return response.json();
+  return { statusCode: response.status, body: await response.json() };
 };
 
 export const handler = async (event) => {
   try {
-    const request = JSON.parse(event.body || '{}');
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    // The author is always the caller; the body may repeat their id but not name anyone else
+    const body = JSON.parse(event.body || '{}');
+    if (!canCreatePost(caller, body.userId)) {
+      return createForbiddenError('You can only publish posts as yourself');
+    }
+    const request = { ...body, userId: caller.userId };
 
     // Validate request using shared schema
     const validation = validateCreatePostRequest(request);
     if (!validation.isValid) {
-      return {
-        statusCode: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-        body: JSON.stringify({
-          error: 'Validation failed',
-          details: validation.errors
-        }),
-      };
+      return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
     }
 
+    // The posts data service stores the post with the author's profile fields
     const { userId, content, imageUrl } = request;
-
-    // Get user profile for post metadata
-    const profileResult = await docClient.send(new GetCommand({
-      TableName: TABLE_NAME,
-      Key: {
-        PK: `USER#${userId}`,
-        SK: 'PROFILE',
-      },
-    }));
-
-    if (!profileResult.Item) {
-      return {
-        statusCode: 404,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-        body: JSON.stringify({ error: 'User profile not found' }),
-      };
-    }
-
-    const profile = profileResult.Item;
-
-    // Create post using posts-data-service
-    const post = await makeApiCall('/data/posts/create', 'POST', {
+    const result = await makeApiCall(apiPath('DATA_POSTS_PROXY', { proxy: 'create' }), 'POST', {
       userId,
       content,
       imageUrl,
-      userProfile: {
-        username: profile.username,
-        displayName: profile.displayName,
-        avatar: profile.avatar || '',
-      },
-    });
+    }, event.headers?.Authorization ?? event.headers?.authorization);
+
+    // Post Created is published from the table stream once the post is stored
 
-    // Send event to EventBridge for feed generation
-    await eventBridgeClient.send(new PutEventsCommand({
-      Entries: [
-        {
-          Source: 'social-media.posts',
-          DetailType: 'Post Created',
-          Detail: JSON.stringify({
-            postId: post.postId,
-            userId,
-            username: profile.username,
-            displayName: profile.displayName,
-            avatar: profile.avatar || '',
-            content,
-            imageUrl: imageUrl || undefined,
-            timestamp: post.createdAt,
-          }),
-          EventBusName: EVENT_BUS_NAME,
-        },
-      ],
-    }));
+    if (result.statusCode >= 500) {
+      throw new Error(`Posts data service failed: ${result.statusCode} ${JSON.stringify(result.body)}`);
+    }
+    return createSuccessResponse(result.body, result.statusCode);
 
-    return {
-      statusCode: 201,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify(post),
-    };
   } catch (error) {
     console.error('Error creating post:', error);
-
-    return {
-      statusCode: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({ error: 'Internal server error' }),
-    };
+    return createErrorResponse('Internal server error');
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,63 @@
+import {
+  PostData,
+  getCallerIdentity,
+  canDeletePost,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const postId = event.pathParameters?.postId;
+    if (!postId) {
+      return createValidationError('postId path parameter is required');
+    }
+
+    const post = await PostData.getPostById(postId);
+    if (!post) {
+      return createNotFoundError('Post not found');
+    }
+
+    if (!canDeletePost(caller, post)) {
+      return createForbiddenError('You can only delete your own posts');
+    }
+
+    // Followers' feed copies are removed by the feed processor on the Post Deleted event
+    const { deletedItems, unprocessed } = await PostData.deletePost(post);
+
+    if (unprocessed > 0) {
+      console.warn(`Post ${postId} deleted with ${unprocessed} items left for cleanup`);
+    }
+
+    return createSuccessResponse({
+      message: 'Post deleted successfully',
+      postId,
+      deletedItems,
+    });
+
+  } catch (error) {
+    if (error.name === 'TransactionCanceledException') {
+      return createNotFoundError('Post not found');
+    }
+
+    console.error('Error deleting post:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
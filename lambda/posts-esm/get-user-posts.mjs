@@ -1,90 +1,54 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
-
-// Initialize AWS SDK clients with top-level await
-const dynamoClient = new DynamoDBClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
-const docClient = DynamoDBDocumentClient.from(dynamoClient, {
-  marshallOptions: {
-    removeUndefinedValues: true,
-  },
-});
+import {
+  PostData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  getContentAccess,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createUserPostsResponse } from '../shared/schemas.mjs';
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
-const TABLE_NAME = process.env.TABLE_NAME;
-
 export const handler = async (event) => {
   try {
-    const userId = event.pathParameters?.userId;
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
 
+    const userId = event.pathParameters?.userId;
     if (!userId) {
-      return {
-        statusCode: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-        body: JSON.stringify({ error: 'Missing userId' }),
-      };
+      return createValidationError('Missing userId');
     }
 
-    // Query user posts
-    const result = await docClient.send(new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `USER#${userId}`,
-        ':sk': 'POST#',
-      },
-      ScanIndexForward: false, // Sort by timestamp descending (newest first)
-      Limit: 20, // Limit to 20 posts
-    }));
+    const scope = `posts:${userId}`;
+    const page = await getPageRequest(event, scope);
 
-    // Get full post details for each post
-    const postIds = result.Items?.map(item => item.postId) || [];
-    const posts = [];
+    const { allowed } = await getContentAccess(getCallerIdentity(event), userId);
+    if (!allowed) {
+      return createForbiddenError('This account is private');
+    }
 
-    for (const postId of postIds) {
-      const postResult = await docClient.send(new QueryCommand({
-        TableName: TABLE_NAME,
-        KeyConditionExpression: 'PK = :pk AND SK = :sk',
-        ExpressionAttributeValues: {
-          ':pk': `POST#${postId}`,
-          ':sk': 'METADATA',
-        },
-      }));
+    // The USER# index items only carry keys; read the full post for each
+    const { items, lastEvaluatedKey } = await PostData.getUserPosts(userId, page);
+    const posts = await Promise.all(items.map(item => PostData.getPostById(item.postId)));
 
-      if (postResult.Items && postResult.Items.length > 0) {
-        posts.push(postResult.Items[0]);
-      }
-    }
+    const nextCursor = await encodeCursor(lastEvaluatedKey, scope);
+
+    return createSuccessResponse(createUserPostsResponse(posts.filter(Boolean), userId, nextCursor));
 
-    return {
-      statusCode: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({
-        posts,
-        userId,
-      }),
-    };
   } catch (error) {
-    console.error('Error getting user posts:', error);
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
 
-    return {
-      statusCode: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({ error: 'Internal server error' }),
-    };
+    console.error('Error getting user posts:', error);
+    return createErrorResponse('Internal server error');
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,57 @@
+import {
+  PostData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createNotFoundError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  getContentAccess,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createPostRevisionsResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const postId = event.pathParameters?.postId;
+    if (!postId) {
+      return createValidationError('postId path parameter is required');
+    }
+
+    const scope = `revisions:${postId}`;
+    const page = await getPageRequest(event, scope);
+
+    const post = await PostData.getPostById(postId);
+    if (!post) {
+      return createNotFoundError('Post not found');
+    }
+
+    const { allowed } = await getContentAccess(getCallerIdentity(event), post.userId);
+    if (!allowed) {
+      return createForbiddenError('This account is private');
+    }
+
+    const { items, lastEvaluatedKey } = await PostData.getRevisions(postId, page);
+    const nextCursor = await encodeCursor(lastEvaluatedKey, scope);
+
+    return createSuccessResponse(createPostRevisionsResponse(items, postId, nextCursor));
+
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
+
+    console.error('Error getting post revisions:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
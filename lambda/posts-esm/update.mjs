@@ -0,0 +1,68 @@
+import {
+  PostData,
+  getCallerIdentity,
+  canEditPost,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  createConflictError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
+import { validateUpdatePostRequest, createPostResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const postId = event.pathParameters?.postId;
+    if (!postId) {
+      return createValidationError('postId path parameter is required');
+    }
+
+    const request = JSON.parse(event.body || '{}');
+
+    // Validate request using shared schema
+    const validation = validateUpdatePostRequest(request);
+    if (!validation.isValid) {
+      return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
+    }
+
+    const post = await PostData.getPostById(postId);
+    if (!post) {
+      return createNotFoundError('Post not found');
+    }
+
+    if (!canEditPost(caller, post)) {
+      return createForbiddenError('You can only edit your own posts');
+    }
+
+    // Followers' feed copies are edited by the feed processor on the Post Updated event
+    const updatedPost = await PostData.updatePost(post, {
+      content: request.content !== undefined ? request.content.trim() : post.content,
+      imageUrl: request.imageUrl,
+    }, caller.userId);
+
+    return createSuccessResponse(createPostResponse(updatedPost));
+
+  } catch (error) {
+    if (error.name === 'TransactionCanceledException') {
+      return createConflictError('Post was modified or deleted concurrently, please retry');
+    }
+
+    console.error('Error updating post:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -17,7 +17,8 @@ export const handler = async (event) => {
       profile = await ProfileData.getProfileByUsername(username);
     }
 
-    if (!profile) {
+    // A user being deleted is already gone as far as anyone else can tell
+    if (!profile || profile.deletedAt) {
       return createNotFoundError('Profile not found');
     }
 
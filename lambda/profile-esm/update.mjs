@@ -1,6 +1,8 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, UpdateCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
-import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { getCallerIdentity } from '../shared/auth.mjs';
+import { canEditProfile } from '../shared/policies.mjs';
+import { createUnauthorizedError, createForbiddenError } from '../shared/responses.mjs';
 
 // Initialize AWS SDK clients with top-level await
 const dynamoClient = new DynamoDBClient({
@@ -14,19 +16,18 @@ const docClient = DynamoDBDocumentClient.from(dynamoClient, {
   },
 });
 
-const eventBridgeClient = new EventBridgeClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
 const TABLE_NAME = process.env.TABLE_NAME;
-const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
 
 export const handler = async (event) => {
   try {
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
     const { userId } = event.pathParameters || {};
 
     if (!userId) {
@@ -42,6 +43,10 @@ export const handler = async (event) => {
       };
     }
 
+    if (!canEditProfile(caller, userId)) {
+      return createForbiddenError('You can only edit your own profile');
+    }
+
     if (!event.body) {
       return {
         statusCode: 400,
@@ -149,26 +154,6 @@ export const handler = async (event) => {
       ConditionExpression: 'attribute_exists(PK)', // Ensure profile exists
     }));
 
-    // Publish event to EventBridge
-    await eventBridgeClient.send(new PutEventsCommand({
-      Entries: [{
-        Source: 'social-media.profile',
-        DetailType: 'Profile Updated',
-        Detail: JSON.stringify({
-          userId,
-          changes: updates,
-          previousValues: {
-            displayName: currentProfile.Item.displayName,
-            bio: currentProfile.Item.bio,
-            avatar: currentProfile.Item.avatar,
-            isPrivate: currentProfile.Item.isPrivate,
-          },
-          timestamp: expressionAttributeValues[':updatedAt'],
-        }),
-        EventBusName: EVENT_BUS_NAME,
-      }],
-    }));
-
     // Return updated profile (without internal fields)
     const updatedProfile = updateResult.Attributes;
     const responseProfile = {
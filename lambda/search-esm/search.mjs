@@ -0,0 +1,90 @@
+import {
+  SearchData,
+  ProfileData,
+  PostData,
+  FollowData,
+  tokenize,
+  MIN_TOKEN_LENGTH,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  filterVisibleItems,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { validateSearchQuery, createSearchResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const { q, type = 'profiles' } = event.queryStringParameters || {};
+
+    const validation = validateSearchQuery({ q, type });
+    if (!validation.isValid) {
+      return createValidationError(validation.errors.join(', '));
+    }
+
+    const tokens = tokenize(q);
+    if (tokens.length === 0) {
+      return createValidationError(`Search query must contain a word of at least ${MIN_TOKEN_LENGTH} letters or digits`);
+    }
+
+    // Cursors are tied to the normalized query, so "Alice" and "alice " share pages
+    const scope = `search:${type}:${tokens.join(' ')}`;
+    const page = await getPageRequest(event, scope);
+
+    const { items, lastEvaluatedKey } = await SearchData.search(type === 'posts' ? 'post' : 'profile', q, page);
+    const docIds = items.map(item => item.docId);
+
+    // Results are read fresh so edits show up and deleted documents drop out
+    const [results, nextCursor] = await Promise.all([
+      type === 'posts'
+        ? getVisiblePosts(getCallerIdentity(event), docIds)
+        : getProfiles(docIds),
+      encodeCursor(lastEvaluatedKey, scope),
+    ]);
+
+    return createSuccessResponse(createSearchResponse(type, q, results, nextCursor));
+
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
+
+    console.error('Error searching:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
+
+/**
+ * Profiles in result order. Private accounts are listed; their posts are not.
+ */
+async function getProfiles(userIds) {
+  const profiles = await ProfileData.getPublicProfiles(userIds);
+  return userIds.map(userId => profiles.get(userId)).filter(Boolean);
+}
+
+/**
+ * Posts in result order, without private authors the caller may not see
+ * or authors they have blocked, muted or been blocked by
+ */
+async function getVisiblePosts(caller, postIds) {
+  const posts = await PostData.getPostsByIds(postIds);
+  const found = postIds.map(postId => posts.get(postId)).filter(Boolean);
+
+  const [visible, hiddenAuthorIds] = await Promise.all([
+    filterVisibleItems(caller, found),
+    caller ? FollowData.getHiddenAuthorIds(caller.userId, found.map(post => post.userId)) : new Set(),
+  ]);
+
+  return visible.filter(post => !hiddenAuthorIds.has(post.userId));
+}
@@ -1,93 +1,182 @@
-import { QueryCommand, DeleteCommand, TransactWriteCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { TransactWriteCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
 import { ListObjectsV2Command, DeleteObjectsCommand } from '@aws-sdk/client-s3';
 import { docClient, s3Client, TABLE_NAME } from './clients.mjs';
+import { batchDeleteKeys } from './batch.mjs';
+import { queryPage } from './pagination.mjs';
+import { REFERENCE_PREFIX, heldReferenceKey } from './references.mjs';
+import { JobData } from './job-data.mjs';
+
+// Job run by the user-deleter consumer, one per deleted user
+export const USER_DELETION_JOB = 'user-deletion';
 
 /**
  * Admin data access operations
  */
 export class AdminData {
   /**
-   * Delete all items for a user (profile, posts, likes, follows, etc.)
+   * Start (or restart) deleting a user, from the user-deleter's first phase
+   *
+   * @returns {Promise<object>} the job record
+   */
+  static async startUserDeletion(userId, requestedBy) {
+    return JobData.startJob(USER_DELETION_JOB, userId, 'lock', { requestedBy });
+  }
+
+  /**
+   * Lock a user out before deleting them: their credentials are removed, so
+   * they cannot sign in, and their profile is marked with `deletedAt`, so the
+   * authorizer rejects tokens already issued. Nothing happens once the
+   * profile is gone.
+   */
+  static async lockAccount(userId) {
+    try {
+      await docClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Delete: {
+              TableName: TABLE_NAME,
+              Key: { PK: `USER#${userId}`, SK: 'CREDENTIALS' },
+            },
+          },
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: { PK: `USER#${userId}`, SK: 'PROFILE' },
+              UpdateExpression: 'SET deletedAt = if_not_exists(deletedAt, :now)',
+              ConditionExpression: 'attribute_exists(PK)',
+              ExpressionAttributeValues: { ':now': new Date().toISOString() },
+            },
+          },
+        ],
+      }));
+    } catch (error) {
+      if (error.name !== 'TransactionCanceledException') throw error;
+    }
+  }
+
+  /**
+   * Get the progress of a user's deletion, if one was started
+   *
+   * @returns {Promise<{userId: string, status: string, phase: string, progress: object, startedAt: string, updatedAt: string}|undefined>}
+   */
+  static async getUserDeletion(userId) {
+    const job = await JobData.getJob(USER_DELETION_JOB, userId);
+    return job && {
+      userId,
+      status: job.status,
+      phase: job.phase,
+      progress: job.progress,
+      startedAt: job.startedAt,
+      updatedAt: job.updatedAt,
+    };
+  }
+
+  /**
+   * Delete one page of a partition, apart from the sort keys in `keep`, and
+   * the references other users hold to the deleted items
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{deleted: number, unprocessed: number, lastEvaluatedKey: object|undefined}>}
    */
-  static async deleteUser(userId) {
-    // Query all items for this user
-    const queryParams = {
-      TableName: TABLE_NAME,
+  static async deletePartitionPage(pk, page = {}, keep = []) {
+    const { items, lastEvaluatedKey } = await queryPage({
       KeyConditionExpression: 'PK = :pk',
       ExpressionAttributeValues: {
-        ':pk': `USER#${userId}`,
+        ':pk': pk,
       },
-    };
+      ProjectionExpression: 'PK, SK',
+    }, page);
 
-    const userItems = await docClient.send(new QueryCommand(queryParams));
-
-    if (!userItems.Items || userItems.Items.length === 0) {
-      throw new Error('User not found');
-    }
+    const keys = items.filter(item => !keep.includes(item.SK));
+    const { written, unprocessed } = await batchDeleteKeys(keys);
 
-    // Also query for posts by this user using GSI1
-    let postItems = [];
-    try {
-      const postsQueryParams = {
-        TableName: TABLE_NAME,
-        IndexName: 'GSI1',
-        KeyConditionExpression: 'GSI1PK = :gsi1pk',
-        ExpressionAttributeValues: {
-          ':gsi1pk': `USER#${userId}`,
-        },
-      };
+    // Then the references other users hold to what was deleted
+    const references = keys.map(heldReferenceKey).filter(Boolean);
+    const released = await batchDeleteKeys(references);
 
-      const postsResult = await docClient.send(new QueryCommand(postsQueryParams));
-      postItems = postsResult.Items || [];
-    } catch (error) {
-      console.log('No GSI or posts found for user:', error);
-      // Continue without posts if GSI doesn't exist
-    }
+    return {
+      deleted: written,
+      unprocessed: unprocessed.length + released.unprocessed.length,
+      lastEvaluatedKey,
+    };
+  }
 
-    // Collect all items to delete
-    const itemsToDelete = [...userItems.Items, ...postItems];
+  /**
+   * Get one page of the references to items outside a user's own partitions
+   * that belong to the user: their comments on other people's posts, follow
+   * requests they sent, and other users' blocks and mutes of them (see
+   * references.mjs)
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getUserReferences(userId, page = {}) {
+    return queryPage({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': REFERENCE_PREFIX,
+      },
+    }, page);
+  }
 
-    // Delete items in batches (max 25 per transaction)
-    const batchSize = 25;
-    const batches = [];
+  /**
+   * Delete up to 1000 of a user's uploads (everything under users/<userId>/)
+   *
+   * @returns {Promise<{deleted: number, more: boolean}>} `more` when objects remain
+   */
+  static async deleteUserObjects(bucketName, userId) {
+    const listResult = await s3Client.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Prefix: `users/${userId}/`,
+    }));
+
+    const objects = listResult.Contents || [];
+    if (objects.length > 0) {
+      const deleteResult = await s3Client.send(new DeleteObjectsCommand({
+        Bucket: bucketName,
+        Delete: {
+          Objects: objects.map(obj => ({ Key: obj.Key })),
+          Quiet: true,
+        },
+      }));
 
-    for (let i = 0; i < itemsToDelete.length; i += batchSize) {
-      batches.push(itemsToDelete.slice(i, i + batchSize));
+      // Quiet mode lists only the failures
+      if (deleteResult.Errors?.length) {
+        throw new Error(`Failed to delete ${deleteResult.Errors.length} objects under users/${userId}/: ${deleteResult.Errors[0].Message}`);
+      }
     }
 
-    // Execute deletions
-    for (const batch of batches) {
-      if (batch.length === 1) {
-        // Single item delete
-        await docClient.send(new DeleteCommand({
-          TableName: TABLE_NAME,
-          Key: {
-            PK: batch[0].PK,
-            SK: batch[0].SK,
+    return { deleted: objects.length, more: Boolean(listResult.IsTruncated) };
+  }
+
+  /**
+   * Delete a profile and release its username in one transaction: the last
+   * step of deleting a user, once nothing else refers to the profile
+   */
+  static async deleteAccount(profile) {
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: [
+        {
+          Delete: {
+            TableName: TABLE_NAME,
+            Key: {
+              PK: `USER#${profile.userId}`,
+              SK: 'PROFILE',
+            },
           },
-        }));
-      } else {
-        // Batch delete using transaction
-        const transactItems = batch.map(item => ({
+        },
+        {
           Delete: {
             TableName: TABLE_NAME,
             Key: {
-              PK: item.PK,
-              SK: item.SK,
+              PK: `USERNAME#${profile.username.toLowerCase()}`,
+              SK: 'RESERVATION',
             },
           },
-        }));
-
-        await docClient.send(new TransactWriteCommand({
-          TransactItems: transactItems,
-        }));
-      }
-    }
-
-    return {
-      deletedItems: itemsToDelete.length,
-      userId,
-    };
+        },
+      ],
+    }));
   }
 
   /**
@@ -0,0 +1,68 @@
+// Generated from lib/constants/api-routes.ts by `npm run generate:api-routes`; do not edit.
+
+export const API_ROUTES = {
+  REGISTER: { method: 'POST', path: '/auth/register', auth: 'public', request: 'RegisterRequestSchema', response: 'AuthTokenResponseSchema', status: 201 },
+  LOGIN: { method: 'POST', path: '/auth/login', auth: 'public', request: 'LoginRequestSchema', response: 'AuthTokenResponseSchema' },
+  JWKS: { method: 'GET', path: '/.well-known/jwks.json', auth: 'public' },
+  GET_PROFILE: { method: 'GET', path: '/profiles/{userId}', auth: 'public', response: 'ProfileResponseSchema' },
+  UPDATE_PROFILE: { method: 'PUT', path: '/profiles/{userId}', auth: 'authenticated', request: 'UpdateProfileRequestSchema', response: 'ProfileResponseSchema' },
+  FOLLOW_USER: { method: 'POST', path: '/profiles/{userId}/follow', auth: 'authenticated', request: 'FollowRequestSchema', requestDefaults: ['followerId', 'followedUserId'], response: 'FollowActionResponseSchema' },
+  UNFOLLOW_USER: { method: 'POST', path: '/profiles/{userId}/unfollow', auth: 'authenticated', request: 'UnfollowRequestSchema', requestDefaults: ['followerId', 'followedUserId'], response: 'FollowActionResponseSchema' },
+  CHECK_FOLLOW: { method: 'GET', path: '/profiles/{userId}/following/{targetUserId}', auth: 'public', response: 'FollowStatusResponseSchema' },
+  GET_FOLLOWERS: { method: 'GET', path: '/profiles/{userId}/followers', auth: 'viewerAware', query: 'PaginationQuerySchema', response: 'GetFollowersResponseSchema' },
+  GET_FOLLOWING: { method: 'GET', path: '/profiles/{userId}/following', auth: 'viewerAware', query: 'PaginationQuerySchema', response: 'GetFollowingResponseSchema' },
+  GET_RELATIONSHIP: { method: 'GET', path: '/profiles/{userId}/relationship/{otherUserId}', auth: 'authenticated', response: 'RelationshipResponseSchema' },
+  LIST_FOLLOW_REQUESTS: { method: 'GET', path: '/profiles/{userId}/follow-requests', auth: 'authenticated', query: 'PaginationQuerySchema', response: 'GetFollowRequestsResponseSchema' },
+  APPROVE_FOLLOW_REQUEST: { method: 'POST', path: '/profiles/{userId}/follow-requests/{requesterId}/approve', auth: 'authenticated', response: 'FollowRequestDecisionResponseSchema' },
+  DENY_FOLLOW_REQUEST: { method: 'POST', path: '/profiles/{userId}/follow-requests/{requesterId}/deny', auth: 'authenticated', response: 'FollowRequestDecisionResponseSchema' },
+  BLOCK_USER: { method: 'POST', path: '/profiles/{userId}/block', auth: 'authenticated', response: 'BlockActionResponseSchema' },
+  UNBLOCK_USER: { method: 'POST', path: '/profiles/{userId}/unblock', auth: 'authenticated', response: 'BlockActionResponseSchema' },
+  MUTE_USER: { method: 'POST', path: '/profiles/{userId}/mute', auth: 'authenticated', response: 'BlockActionResponseSchema' },
+  UNMUTE_USER: { method: 'POST', path: '/profiles/{userId}/unmute', auth: 'authenticated', response: 'BlockActionResponseSchema' },
+  LIST_BLOCKS: { method: 'GET', path: '/profiles/{userId}/blocks', auth: 'authenticated', query: 'PaginationQuerySchema', response: 'GetBlockListResponseSchema' },
+  LIST_MUTES: { method: 'GET', path: '/profiles/{userId}/mutes', auth: 'authenticated', query: 'PaginationQuerySchema', response: 'GetBlockListResponseSchema' },
+  CREATE_POST: { method: 'POST', path: '/posts', auth: 'authenticated', request: 'CreatePostRequestSchema', requestDefaults: ['userId'], response: 'PostResponseSchema', status: 201 },
+  GET_USER_POSTS: { method: 'GET', path: '/profiles/{userId}/posts', auth: 'viewerAware', query: 'PaginationQuerySchema', response: 'GetUserPostsResponseSchema' },
+  UPDATE_POST: { method: 'PUT', path: '/posts/{postId}', auth: 'authenticated', request: 'UpdatePostRequestSchema', response: 'PostResponseSchema' },
+  DELETE_POST: { method: 'DELETE', path: '/posts/{postId}', auth: 'authenticated' },
+  GET_POST_REVISIONS: { method: 'GET', path: '/posts/{postId}/revisions', auth: 'viewerAware', query: 'PaginationQuerySchema', response: 'GetPostRevisionsResponseSchema' },
+  LIST_COMMENTS: { method: 'GET', path: '/posts/{postId}/comments', auth: 'viewerAware', query: 'PaginationQuerySchema', response: 'ListCommentsResponseSchema' },
+  CREATE_COMMENT: { method: 'POST', path: '/posts/{postId}/comments', auth: 'authenticated', request: 'CreateCommentRequestSchema', requestDefaults: ['postId', 'userId'], response: 'CommentResponseSchema', status: 201 },
+  DELETE_COMMENT: { method: 'DELETE', path: '/posts/{postId}/comments/{commentId}', auth: 'authenticated' },
+  LIKE_POST: { method: 'POST', path: '/like', auth: 'authenticated', request: 'LikePostRequestSchema', requestDefaults: ['userId'], response: 'LikeActionResponseSchema' },
+  UNLIKE_POST: { method: 'POST', path: '/unlike', auth: 'authenticated', request: 'UnlikePostRequestSchema', requestDefaults: ['userId'], response: 'LikeActionResponseSchema' },
+  CHECK_LIKE: { method: 'GET', path: '/likes/{userId}/{postId}', auth: 'public', response: 'LikeStatusResponseSchema' },
+  GET_FEED: { method: 'GET', path: '/profiles/{userId}/feed', auth: 'viewerAware', query: 'GetFeedQuerySchema', response: 'GetFeedResponseSchema' },
+  LIST_NOTIFICATIONS: { method: 'GET', path: '/notifications/{userId}', auth: 'authenticated', query: 'PaginationQuerySchema', response: 'GetNotificationsResponseSchema' },
+  MARK_NOTIFICATIONS_READ: { method: 'POST', path: '/notifications/{userId}/read', auth: 'authenticated', request: 'MarkNotificationsReadRequestSchema', response: 'MarkNotificationsReadResponseSchema' },
+  SEARCH: { method: 'GET', path: '/search', auth: 'viewerAware', query: 'SearchQuerySchema', response: 'SearchResponseSchema' },
+  GET_UPLOAD_URL: { method: 'POST', path: '/upload-url', auth: 'authenticated', request: 'UploadUrlRequestSchema', requestDefaults: ['userId'], response: 'UploadUrlResponseSchema' },
+  LIST_USERS: { method: 'GET', path: '/admin/users', auth: 'authenticated' },
+  DELETE_USER: { method: 'DELETE', path: '/admin/users/{userId}', auth: 'authenticated', status: 202 },
+  GET_USER_DELETION: { method: 'GET', path: '/admin/users/{userId}/deletion', auth: 'authenticated' },
+  CLEANUP_ALL: { method: 'POST', path: '/admin/cleanup', auth: 'authenticated' },
+  GENERATE_TEST_DATA: { method: 'POST', path: '/admin/test-data', auth: 'authenticated' },
+  GET_EVENTS: { method: 'GET', path: '/admin/events', auth: 'authenticated', query: 'GetEventsQuerySchema', response: 'GetEventsResponseSchema' },
+  LIST_DEAD_LETTER_QUEUES: { method: 'GET', path: '/admin/dead-letters', auth: 'authenticated', response: 'GetDeadLetterQueuesResponseSchema' },
+  LIST_DEAD_LETTERS: { method: 'GET', path: '/admin/dead-letters/{consumer}', auth: 'authenticated', response: 'GetFailedEventsResponseSchema' },
+  REDRIVE_DEAD_LETTERS: { method: 'POST', path: '/admin/dead-letters/{consumer}/redrive', auth: 'authenticated', request: 'RedriveRequestSchema', response: 'RedriveResponseSchema' },
+  DOCS: { method: 'GET', path: '/docs', auth: 'public' },
+  OPENAPI_DOCUMENT: { method: 'GET', path: '/docs/openapi.json', auth: 'public' },
+  DATA_POSTS: { method: 'ANY', path: '/data/posts', auth: 'authenticated', internal: true },
+  DATA_POSTS_PROXY: { method: 'ANY', path: '/data/posts/{proxy+}', auth: 'authenticated', internal: true },
+  DATA_PROFILES: { method: 'ANY', path: '/data/profiles', auth: 'authenticated', internal: true },
+  DATA_PROFILES_PROXY: { method: 'ANY', path: '/data/profiles/{proxy+}', auth: 'authenticated', internal: true },
+};
+
+/**
+ * A route's path with its parameters filled in and URL-encoded; a {proxy+}
+ * value may span several segments
+ *
+ * @param {keyof typeof API_ROUTES} name
+ * @param {Record<string, string>} [params]
+ */
+export function apiPath(name, params = {}) {
+  return API_ROUTES[name].path.replace(/\{(\w+)(\+?)\}/g, (_, key, greedy) => greedy
+    ? params[key].split('/').map(encodeURIComponent).join('/')
+    : encodeURIComponent(params[key]));
+}
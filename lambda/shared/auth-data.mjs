@@ -0,0 +1,74 @@
+import { GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLE_NAME } from './clients.mjs';
+import { ProfileData } from './profile-data.mjs';
+
+/**
+ * Authentication data access operations
+ *
+ * Credentials live next to the profile as USER#<userId>/CREDENTIALS.
+ * Usernames are reserved with USERNAME#<username>/RESERVATION items so two
+ * registrations cannot claim the same name.
+ */
+export class AuthData {
+  /**
+   * Get stored credentials for a user
+   */
+  static async getCredentials(userId) {
+    const result = await docClient.send(new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'CREDENTIALS',
+      },
+    }));
+    return result.Item;
+  }
+
+  /**
+   * Register a user: reserve the username, create the profile and store credentials atomically
+   */
+  static async registerUser({ passwordHash, role = 'user', ...profileData }) {
+    const profile = ProfileData.buildProfileItem(profileData);
+
+    const transactItems = [
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: {
+            PK: `USERNAME#${profile.username.toLowerCase()}`,
+            SK: 'RESERVATION',
+            userId: profile.userId,
+            createdAt: profile.createdAt,
+          },
+          ConditionExpression: 'attribute_not_exists(PK)', // Username already taken
+        },
+      },
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: profile,
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: {
+            PK: `USER#${profile.userId}`,
+            SK: 'CREDENTIALS',
+            userId: profile.userId,
+            passwordHash,
+            role,
+            createdAt: profile.createdAt,
+          },
+        },
+      },
+    ];
+
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: transactItems,
+    }));
+
+    return profile;
+  }
+}
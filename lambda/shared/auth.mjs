@@ -0,0 +1,259 @@
+import { createPrivateKey, createPublicKey, randomBytes, scrypt, sign, timingSafeEqual, verify } from 'node:crypto';
+import { promisify } from 'node:util';
+import { GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import {
+  secretsClient,
+  AUTH_ISSUER,
+  AUTH_AUDIENCE,
+  AUTH_JWKS_URL,
+  AUTH_SIGNING_KEY_SECRET_ARN,
+  AUTH_TOKEN_TTL_SECONDS,
+} from './clients.mjs';
+
+const scryptAsync = promisify(scrypt);
+
+const TOKEN_ALGORITHM = 'RS256';
+const CLOCK_SKEW_SECONDS = 60;
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Module-level caches survive warm invocations
+let signingKeyPromise;
+let jwksCache = { keys: [], fetchedAt: 0 };
+
+const encodeSegment = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const decodeSegment = (segment) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * Load the private signing JWK.
+ * AUTH_SIGNING_KEY (inline JWK) takes precedence for local runs; deployed
+ * functions read the key from Secrets Manager.
+ */
+async function loadSigningJwk() {
+  if (process.env.AUTH_SIGNING_KEY) {
+    return JSON.parse(process.env.AUTH_SIGNING_KEY);
+  }
+
+  if (!AUTH_SIGNING_KEY_SECRET_ARN) {
+    throw new Error('No signing key configured');
+  }
+
+  const result = await secretsClient.send(new GetSecretValueCommand({
+    SecretId: AUTH_SIGNING_KEY_SECRET_ARN,
+  }));
+
+  return JSON.parse(result.SecretString);
+}
+
+/**
+ * Get the signing key (cached per container)
+ */
+async function getSigningKey() {
+  if (!signingKeyPromise) {
+    signingKeyPromise = loadSigningJwk()
+      .then(jwk => ({
+        kid: jwk.kid,
+        privateKey: createPrivateKey({ key: jwk, format: 'jwk' }),
+      }))
+      .catch(error => {
+        signingKeyPromise = undefined;
+        throw error;
+      });
+  }
+  return signingKeyPromise;
+}
+
+/**
+ * Get the public JSON Web Key Set for the local signing key
+ */
+export async function getJwks() {
+  const { kid, privateKey } = await getSigningKey();
+  const publicJwk = createPublicKey(privateKey).export({ format: 'jwk' });
+
+  return {
+    keys: [{ ...publicJwk, kid, alg: TOKEN_ALGORITHM, use: 'sig' }],
+  };
+}
+
+/**
+ * Fetch the remote JWKS, refreshing when stale or when the key id is unknown
+ */
+async function getRemoteJwk(kid) {
+  const isStale = Date.now() - jwksCache.fetchedAt > JWKS_CACHE_TTL_MS;
+  let jwk = jwksCache.keys.find(key => key.kid === kid);
+
+  if (!jwk || isStale) {
+    const response = await fetch(AUTH_JWKS_URL);
+    if (!response.ok) {
+      throw new Error(`JWKS request failed: ${response.status}`);
+    }
+    const jwks = await response.json();
+    jwksCache = { keys: jwks.keys || [], fetchedAt: Date.now() };
+    jwk = jwksCache.keys.find(key => key.kid === kid);
+  }
+
+  return jwk;
+}
+
+/**
+ * Resolve the public key that verifies a token with the given key id.
+ * Uses AUTH_JWKS_URL when set, otherwise the local signing key.
+ */
+async function getVerificationKey(kid) {
+  const jwk = AUTH_JWKS_URL
+    ? await getRemoteJwk(kid)
+    : (await getJwks()).keys.find(key => key.kid === kid);
+
+  if (!jwk) {
+    throw new Error('Unknown signing key');
+  }
+
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/**
+ * Issue a signed access token for a user
+ */
+export async function signAccessToken({ userId, username, role = 'user' }) {
+  const { kid, privateKey } = await getSigningKey();
+  const now = Math.floor(Date.now() / 1000);
+
+  const header = { alg: TOKEN_ALGORITHM, typ: 'JWT', kid };
+  const payload = {
+    iss: AUTH_ISSUER,
+    aud: AUTH_AUDIENCE,
+    sub: userId,
+    username,
+    role,
+    iat: now,
+    exp: now + AUTH_TOKEN_TTL_SECONDS,
+  };
+
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const signature = sign('RSA-SHA256', Buffer.from(signingInput), privateKey).toString('base64url');
+
+  return {
+    token: `${signingInput}.${signature}`,
+    expiresIn: AUTH_TOKEN_TTL_SECONDS,
+  };
+}
+
+/**
+ * Verify an access token and return its claims
+ */
+export async function verifyAccessToken(token) {
+  const segments = typeof token === 'string' ? token.split('.') : [];
+  if (segments.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment(encodedHeader);
+
+  if (header.alg !== TOKEN_ALGORITHM) {
+    throw new Error('Unsupported token algorithm');
+  }
+
+  const publicKey = await getVerificationKey(header.kid);
+  const isValid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    publicKey,
+    Buffer.from(encodedSignature, 'base64url'),
+  );
+
+  if (!isValid) {
+    throw new Error('Invalid token signature');
+  }
+
+  const claims = decodeSegment(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== AUTH_ISSUER) {
+    throw new Error('Invalid token issuer');
+  }
+  if (AUTH_AUDIENCE && claims.aud !== AUTH_AUDIENCE) {
+    throw new Error('Invalid token audience');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('Token expired');
+  }
+  if (!claims.sub) {
+    throw new Error('Token has no subject');
+  }
+
+  return claims;
+}
+
+/**
+ * Extract the token from an "Authorization: Bearer <token>" header value
+ */
+export function extractBearerToken(authorizationHeader) {
+  if (!authorizationHeader) return null;
+
+  const [scheme, token] = authorizationHeader.trim().split(/\s+/);
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+}
+
+/**
+ * Build an API Gateway authorizer response.
+ * The policy covers every method of the stage so cached results can be
+ * reused across routes.
+ */
+export function createAuthorizerPolicy(principalId, effect, methodArn, context = {}) {
+  const [arnPrefix, stage] = methodArn.split('/');
+
+  return {
+    principalId,
+    policyDocument: {
+      Version: '2012-10-17',
+      Statement: [
+        {
+          Action: 'execute-api:Invoke',
+          Effect: effect,
+          Resource: `${arnPrefix}/${stage}/*`,
+        },
+      ],
+    },
+    context,
+  };
+}
+
+/**
+ * Resolve the authenticated caller from the authorizer context.
+ * Returns null when the request was not authenticated.
+ */
+export function getCallerIdentity(event) {
+  const authorizer = event?.requestContext?.authorizer;
+  if (!authorizer?.userId) {
+    return null;
+  }
+
+  return {
+    userId: authorizer.userId,
+    username: authorizer.username,
+    role: authorizer.role || 'user',
+  };
+}
+
+/**
+ * Hash a password with scrypt and a random salt
+ */
+export async function hashPassword(password) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * Check a password against a stored scrypt hash
+ */
+export async function verifyPassword(password, storedHash) {
+  const [scheme, salt, expected] = (storedHash || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected, 'base64');
+  const hash = await scryptAsync(password, Buffer.from(salt, 'base64'), expectedBuffer.length);
+  return timingSafeEqual(hash, expectedBuffer);
+}
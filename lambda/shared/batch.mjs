@@ -0,0 +1,96 @@
+import { BatchGetCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLE_NAME } from './clients.mjs';
+
+// BatchWriteItem accepts at most 25 requests
+export const BATCH_WRITE_SIZE = 25;
+
+// BatchGetItem accepts at most 100 keys
+export const BATCH_GET_SIZE = 100;
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 50;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Write put/delete requests in batches of 25, retrying unprocessed items with
+ * exponential backoff. Requests that are still unprocessed after the last
+ * attempt are returned rather than thrown so callers can report them.
+ *
+ * @param {Array<{PutRequest?: object, DeleteRequest?: object}>} requests
+ * @returns {Promise<{written: number, unprocessed: Array}>}
+ */
+export async function batchWrite(requests) {
+  let written = 0;
+  const unprocessed = [];
+
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+    let pending = requests.slice(i, i + BATCH_WRITE_SIZE);
+
+    for (let attempt = 1; pending.length > 0 && attempt <= MAX_ATTEMPTS; attempt++) {
+      if (attempt > 1) {
+        await sleep(BASE_DELAY_MS * 2 ** (attempt - 2));
+      }
+
+      const result = await docClient.send(new BatchWriteCommand({
+        RequestItems: {
+          [TABLE_NAME]: pending,
+        },
+      }));
+
+      const remaining = result.UnprocessedItems?.[TABLE_NAME] || [];
+      written += pending.length - remaining.length;
+      pending = remaining;
+    }
+
+    unprocessed.push(...pending);
+  }
+
+  return { written, unprocessed };
+}
+
+/**
+ * Delete items by key in batches
+ */
+export async function batchDeleteKeys(keys) {
+  return batchWrite(keys.map(({ PK, SK }) => ({
+    DeleteRequest: { Key: { PK, SK } },
+  })));
+}
+
+/**
+ * Read items by key in batches of 100, retrying unprocessed keys with
+ * exponential backoff. Missing items are simply absent from the result,
+ * which is in no particular order.
+ *
+ * @param {Array<{PK: string, SK: string}>} keys
+ * @returns {Promise<Array>}
+ */
+export async function batchGet(keys) {
+  const items = [];
+
+  for (let i = 0; i < keys.length; i += BATCH_GET_SIZE) {
+    let pending = keys.slice(i, i + BATCH_GET_SIZE);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      if (attempt > MAX_ATTEMPTS) {
+        throw new Error(`BatchGetItem left ${pending.length} keys unprocessed`);
+      }
+
+      if (attempt > 1) {
+        await sleep(BASE_DELAY_MS * 2 ** (attempt - 2));
+      }
+
+      const result = await docClient.send(new BatchGetCommand({
+        RequestItems: {
+          [TABLE_NAME]: { Keys: pending },
+        },
+      }));
+
+      items.push(...(result.Responses?.[TABLE_NAME] || []));
+      pending = result.UnprocessedKeys?.[TABLE_NAME]?.Keys || [];
+    }
+  }
+
+  return items;
+}
@@ -2,6 +2,9 @@ import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
 import { S3Client } from '@aws-sdk/client-s3';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { LambdaClient } from '@aws-sdk/client-lambda';
 
 // Initialize DynamoDB client with optimized settings
 const dynamoClient = new DynamoDBClient({
@@ -28,6 +31,24 @@ export const s3Client = new S3Client({
   retryMode: 'adaptive',
 });
 
+// Initialize Secrets Manager client
+export const secretsClient = new SecretsManagerClient({
+  maxAttempts: 3,
+  retryMode: 'adaptive',
+});
+
+// Initialize SQS client
+export const sqsClient = new SQSClient({
+  maxAttempts: 3,
+  retryMode: 'adaptive',
+});
+
+// Initialize Lambda client
+export const lambdaClient = new LambdaClient({
+  maxAttempts: 3,
+  retryMode: 'adaptive',
+});
+
 // Pre-warm connections with top-level await
 await Promise.resolve();
 
@@ -36,4 +57,17 @@ export const TABLE_NAME = process.env.TABLE_NAME;
 export const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
 export const IMAGES_BUCKET_NAME = process.env.IMAGES_BUCKET_NAME;
 export const S3_BUCKET = process.env.S3_BUCKET;
-export const API_BASE_URL = process.env.API_BASE_URL;
\ No newline at end of file
+export const API_BASE_URL = process.env.API_BASE_URL;
+
+// Authentication configuration
+export const AUTH_ISSUER = process.env.AUTH_ISSUER;
+export const AUTH_AUDIENCE = process.env.AUTH_AUDIENCE;
+export const AUTH_JWKS_URL = process.env.AUTH_JWKS_URL;
+export const AUTH_SIGNING_KEY_SECRET_ARN = process.env.AUTH_SIGNING_KEY_SECRET_ARN;
+export const AUTH_TOKEN_TTL_SECONDS = parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || '3600', 10);
+
+// Pagination cursor signing
+export const CURSOR_SECRET_ARN = process.env.CURSOR_SECRET_ARN;
+
+// Dead letter queues of the event consumers, as JSON: { <consumer>: { queueUrl, functionArn } }
+export const DEAD_LETTER_QUEUES = process.env.DEAD_LETTER_QUEUES;
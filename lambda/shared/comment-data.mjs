@@ -0,0 +1,329 @@
+import { GetCommand, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLE_NAME } from './clients.mjs';
+import { DEFAULT_PAGE_SIZE, queryPage } from './pagination.mjs';
+import { REFERENCE_PREFIX, referenceItem, referenceKey } from './references.mjs';
+import { batchGet } from './batch.mjs';
+import { v4 as uuidv4 } from 'uuid';
+
+// TransactWriteItems accepts 100 items; each comment takes three (it, its ID
+// pointer and its author's reference) and one slot is kept for the counter
+// update
+const MAX_COMMENTS_PER_TRANSACTION = 33;
+
+// Comment references read when working out which authors a user engages with
+const MAX_COMMENTS_SCANNED = 500;
+
+/**
+ * Key of the pointer that finds a comment by ID
+ */
+export const commentIdKey = (postId, commentId) => ({
+  PK: `POST#${postId}`,
+  SK: `COMMENT_ID#${commentId}`,
+});
+
+function deletionCancelled(error, comment, inLastBatch) {
+  const reasons = error.CancellationReasons || [];
+  const failed = (index) => reasons.at(index)?.Code === 'ConditionalCheckFailed';
+
+  // The counter update is last, the comment itself just before it
+  const reason = failed(-1) ? 'post-deleted' : inLastBatch && failed(-2) ? 'comment-deleted' : 'thread-changed';
+  const cancelled = new Error(`Deleting comment ${comment.commentId} was cancelled: ${reason}`);
+  cancelled.name = 'CommentDeletionCancelled';
+  cancelled.reason = reason;
+  return cancelled;
+}
+
+/**
+ * Whether an error is a comment deletion cancelled by a concurrent change;
+ * its `reason` is 'post-deleted', 'comment-deleted' or 'thread-changed'
+ */
+export const isCommentDeletionCancelled = (error) => error?.name === 'CommentDeletionCancelled';
+
+/**
+ * Comment data access operations
+ *
+ * Comments live under their post as POST#<postId>/COMMENT#<ts>#<commentId>.
+ * Replies are stored under their parent's sort key
+ * (COMMENT#<ts>#<parentId>#REPLY#<ts>#<replyId>) so a single query returns
+ * every thread in order. Only one level of replies is supported.
+ *
+ * Each comment also has a POST#<postId>/COMMENT_ID#<commentId> pointer
+ * holding its sort key, so it can be read by ID, and its author has a
+ * reference to that pointer (see references.mjs).
+ */
+export class CommentData {
+  /**
+   * Find a comment on a post by its ID
+   */
+  static async getComment(postId, commentId) {
+    const pointer = await docClient.send(new GetCommand({
+      TableName: TABLE_NAME,
+      Key: commentIdKey(postId, commentId),
+    }));
+    if (!pointer.Item) {
+      return undefined;
+    }
+
+    const result = await docClient.send(new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `POST#${postId}`,
+        SK: pointer.Item.commentSK,
+      },
+    }));
+    return result.Item;
+  }
+
+  /**
+   * Get one page of a post's comments with their replies, oldest first.
+   * The limit counts top-level comments only; a page always ends after the
+   * last reply of its last thread, so threads are never split across pages.
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getComments(postId, { limit = DEFAULT_PAGE_SIZE, startKey } = {}) {
+    const items = [];
+    let threads = 0;
+    let lastEvaluatedKey = startKey;
+
+    do {
+      const page = await queryPage({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `POST#${postId}`,
+          ':sk': 'COMMENT#',
+        },
+        ScanIndexForward: true,
+      }, { limit, startKey: lastEvaluatedKey });
+
+      for (const item of page.items) {
+        if (!item.parentCommentId && threads++ === limit) {
+          const last = items.at(-1);
+          return { items, lastEvaluatedKey: { PK: last.PK, SK: last.SK } };
+        }
+        items.push(item);
+      }
+      lastEvaluatedKey = page.lastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return { items, lastEvaluatedKey: undefined };
+  }
+
+  /**
+   * Get the replies to a top-level comment
+   */
+  static async getReplies(comment) {
+    const replies = [];
+    let lastEvaluatedKey;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': comment.PK,
+          ':sk': `${comment.SK}#REPLY#`,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      replies.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return replies;
+  }
+
+  /**
+   * Create a comment or reply and increment the post's commentsCount atomically.
+   * The post's author is kept on the item for the Comment Created event, and
+   * on the commenter's reference for feed ranking.
+   */
+  static async createComment({ postId, postAuthorId, userId, content, userProfile, parentComment }) {
+    const commentId = uuidv4();
+    const timestamp = new Date().toISOString();
+    const commentKey = `COMMENT#${Date.now()}#${commentId}`;
+    const sortKey = parentComment ? `${parentComment.SK}#REPLY#${commentKey.slice('COMMENT#'.length)}` : commentKey;
+
+    const comment = {
+      commentId,
+      postId,
+      userId,
+      username: userProfile.username,
+      displayName: userProfile.displayName,
+      avatar: userProfile.avatar || '',
+      content,
+      parentCommentId: parentComment?.commentId,
+      createdAt: timestamp,
+    };
+
+    const transactItems = [
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: {
+            PK: `POST#${postId}`,
+            SK: sortKey,
+            ...comment,
+            postAuthorId,
+          },
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: {
+            ...commentIdKey(postId, commentId),
+            commentId,
+            commentSK: sortKey,
+          },
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: referenceItem(userId, commentIdKey(postId, commentId), { postId, commentId, postAuthorId }),
+        },
+      },
+      {
+        Update: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `POST#${postId}`,
+            SK: 'METADATA',
+          },
+          UpdateExpression: 'ADD commentsCount :inc',
+          ConditionExpression: 'attribute_exists(PK)', // Post must still exist
+          ExpressionAttributeValues: {
+            ':inc': 1,
+          },
+        },
+      },
+    ];
+
+    // Replies require the parent to still exist when the transaction commits
+    if (parentComment) {
+      transactItems.push({
+        ConditionCheck: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: parentComment.PK,
+            SK: parentComment.SK,
+          },
+          ConditionExpression: 'attribute_exists(PK)',
+        },
+      });
+    }
+
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: transactItems,
+    }));
+
+    return comment;
+  }
+
+  /**
+   * Delete a comment, together with its replies, and decrement commentsCount.
+   * Large threads are deleted in several transactions, each adjusting the
+   * counter by the number of comments it removes. Every item must still be
+   * there, so a concurrent deletion cannot decrement the counter twice; a
+   * cancelled transaction is thrown as a CommentDeletionCancelled error.
+   */
+  static async deleteComment(comment) {
+    const replies = comment.parentCommentId ? [] : await this.getReplies(comment);
+
+    // Delete replies before their parent so a partial failure never orphans them
+    const items = [...replies, comment];
+    let deletedCount = 0;
+
+    for (let i = 0; i < items.length; i += MAX_COMMENTS_PER_TRANSACTION) {
+      const batch = items.slice(i, i + MAX_COMMENTS_PER_TRANSACTION);
+
+      try {
+        await docClient.send(new TransactWriteCommand({
+          TransactItems: [
+            ...batch.flatMap(item => [
+              // Comments written before references existed have none
+              { Delete: { TableName: TABLE_NAME, Key: referenceKey(item.userId, commentIdKey(comment.postId, item.commentId)) } },
+              ...[commentIdKey(comment.postId, item.commentId), { PK: item.PK, SK: item.SK }].map(key => ({
+                Delete: {
+                  TableName: TABLE_NAME,
+                  Key: key,
+                  ConditionExpression: 'attribute_exists(PK)',
+                },
+              })),
+            ]),
+            {
+              Update: {
+                TableName: TABLE_NAME,
+                Key: {
+                  PK: `POST#${comment.postId}`,
+                  SK: 'METADATA',
+                },
+                UpdateExpression: 'ADD commentsCount :dec',
+                ConditionExpression: 'attribute_exists(PK)', // Post must still exist
+                ExpressionAttributeValues: {
+                  ':dec': -batch.length,
+                },
+              },
+            },
+          ],
+        }));
+      } catch (error) {
+        if (error.name === 'TransactionCanceledException') {
+          throw deletionCancelled(error, comment, i + batch.length === items.length);
+        }
+        throw error;
+      }
+
+      deletedCount += batch.length;
+    }
+
+    return { deletedCount };
+  }
+
+  /**
+   * Count the comments a user has made per post author, from their comment
+   * references. Older references predate `postAuthorId`; their posts are
+   * looked up.
+   *
+   * @returns {Promise<Map<string, number>>} authorId → comments by the user
+   */
+  static async getCommentedAuthorCounts(userId) {
+    const commented = [];
+    let lastEvaluatedKey;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': `${REFERENCE_PREFIX}POST#`,
+        },
+        ProjectionExpression: 'postId, postAuthorId',
+        Limit: MAX_COMMENTS_SCANNED - commented.length,
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      commented.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey && commented.length < MAX_COMMENTS_SCANNED);
+
+    const unattributed = [...new Set(commented.filter(item => !item.postAuthorId).map(item => item.postId))];
+    const posts = await batchGet(unattributed.map(postId => ({ PK: `POST#${postId}`, SK: 'METADATA' })));
+    const authors = new Map(posts.map(post => [post.postId, post.userId]));
+
+    const counts = new Map();
+    for (const item of commented) {
+      const authorId = item.postAuthorId || authors.get(item.postId);
+      if (authorId) {
+        counts.set(authorId, (counts.get(authorId) || 0) + 1);
+      }
+    }
+    return counts;
+  }
+}
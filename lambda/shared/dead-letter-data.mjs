@@ -0,0 +1,160 @@
+import { GetQueueAttributesCommand, ReceiveMessageCommand, DeleteMessageBatchCommand } from '@aws-sdk/client-sqs';
+import { InvokeCommand } from '@aws-sdk/client-lambda';
+import { sqsClient, lambdaClient, DEAD_LETTER_QUEUES } from './clients.mjs';
+
+// SQS returns at most 10 messages per receive
+const RECEIVE_BATCH_SIZE = 10;
+
+// Receives per peek; peeked messages stay visible, so later receives can repeat them
+const MAX_PEEK_RECEIVES = 5;
+
+// Seconds a message being redriven is hidden from other readers
+const REDRIVE_VISIBILITY_TIMEOUT = 60;
+
+const getQueues = () => JSON.parse(DEAD_LETTER_QUEUES || '{}');
+
+const receive = (queueUrl, maxMessages, visibilityTimeout) => sqsClient.send(new ReceiveMessageCommand({
+  QueueUrl: queueUrl,
+  MaxNumberOfMessages: Math.min(maxMessages, RECEIVE_BATCH_SIZE),
+  VisibilityTimeout: visibilityTimeout,
+  MessageAttributeNames: ['All'],
+  MessageSystemAttributeNames: ['SentTimestamp', 'ApproximateReceiveCount'],
+}));
+
+/**
+ * Unwrap a dead letter message. Events that failed inside the consumer come
+ * from Lambda's on-failure destination, wrapped with the error; events
+ * EventBridge could not deliver come as they were, with the error in
+ * message attributes.
+ */
+function toFailedEvent(consumer, message) {
+  const body = JSON.parse(message.Body);
+  const attributes = message.MessageAttributes || {};
+
+  if (body.requestPayload) {
+    return {
+      messageId: message.MessageId,
+      consumer,
+      event: body.requestPayload,
+      error: {
+        code: body.responsePayload?.errorType ?? body.requestContext?.condition,
+        message: body.responsePayload?.errorMessage,
+      },
+      attempts: body.requestContext?.approximateInvokeCount,
+      failedAt: body.timestamp,
+    };
+  }
+
+  return {
+    messageId: message.MessageId,
+    consumer,
+    event: body,
+    error: {
+      code: attributes.ERROR_CODE?.StringValue,
+      message: attributes.ERROR_MESSAGE?.StringValue,
+    },
+    attempts: attributes.RETRY_ATTEMPTS ? Number(attributes.RETRY_ATTEMPTS.StringValue) + 1 : undefined,
+    failedAt: new Date(Number(message.Attributes?.SentTimestamp)).toISOString(),
+  };
+}
+
+/**
+ * Events the bus consumers gave up on, one SQS queue per consumer.
+ *
+ * Each consumer Lambda sends an event to its queue once Lambda's retries are
+ * exhausted, and EventBridge sends it there when delivery itself fails.
+ * Redriving invokes the consumer again with the original event.
+ */
+export class DeadLetterData {
+  /**
+   * Names of the consumers with a dead letter queue, e.g. 'feed-processor'
+   */
+  static getConsumers() {
+    return Object.keys(getQueues()).sort();
+  }
+
+  /**
+   * Approximate number of failed events waiting in each consumer's queue
+   *
+   * @returns {Promise<Array<{consumer: string, approximateCount: number, inFlight: number}>>}
+   */
+  static async getQueueSummaries() {
+    const queues = getQueues();
+
+    return Promise.all(DeadLetterData.getConsumers().map(async (consumer) => {
+      const result = await sqsClient.send(new GetQueueAttributesCommand({
+        QueueUrl: queues[consumer].queueUrl,
+        AttributeNames: ['ApproximateNumberOfMessages', 'ApproximateNumberOfMessagesNotVisible'],
+      }));
+
+      return {
+        consumer,
+        approximateCount: Number(result.Attributes?.ApproximateNumberOfMessages ?? 0),
+        inFlight: Number(result.Attributes?.ApproximateNumberOfMessagesNotVisible ?? 0),
+      };
+    }));
+  }
+
+  /**
+   * Read failed events without taking them off the queue. SQS has no
+   * ordered listing, so this is a sample of up to `limit` events.
+   */
+  static async peekFailedEvents(consumer, limit = RECEIVE_BATCH_SIZE) {
+    const { queueUrl } = getQueues()[consumer];
+    const found = new Map();
+
+    for (let receives = 0; receives < MAX_PEEK_RECEIVES && found.size < limit; receives++) {
+      const { Messages = [] } = await receive(queueUrl, limit - found.size, 0);
+      if (Messages.length === 0) {
+        break;
+      }
+      for (const message of Messages) {
+        found.set(message.MessageId, toFailedEvent(consumer, message));
+      }
+    }
+
+    return [...found.values()].slice(0, limit);
+  }
+
+  /**
+   * Invoke the consumer again with up to `maxEvents` failed events, removing
+   * each from the queue once Lambda has accepted it. Events Lambda rejects
+   * stay queued and become visible again after REDRIVE_VISIBILITY_TIMEOUT.
+   *
+   * The invocation is asynchronous, so an event that fails again returns to
+   * the queue through the consumer's on-failure destination.
+   *
+   * @returns {Promise<{redriven: number, failed: number}>}
+   */
+  static async redrive(consumer, maxEvents) {
+    const { queueUrl, functionArn } = getQueues()[consumer];
+    let redriven = 0;
+    let failed = 0;
+
+    while (redriven + failed < maxEvents) {
+      const { Messages = [] } = await receive(queueUrl, maxEvents - redriven - failed, REDRIVE_VISIBILITY_TIMEOUT);
+      if (Messages.length === 0) {
+        break;
+      }
+
+      const results = await Promise.allSettled(Messages.map(message => lambdaClient.send(new InvokeCommand({
+        FunctionName: functionArn,
+        InvocationType: 'Event',
+        Payload: JSON.stringify(toFailedEvent(consumer, message).event),
+      }))));
+
+      const accepted = Messages.filter((message, index) => results[index].status === 'fulfilled');
+      if (accepted.length > 0) {
+        await sqsClient.send(new DeleteMessageBatchCommand({
+          QueueUrl: queueUrl,
+          Entries: accepted.map((message, index) => ({ Id: String(index), ReceiptHandle: message.ReceiptHandle })),
+        }));
+      }
+
+      redriven += accepted.length;
+      failed += Messages.length - accepted.length;
+    }
+
+    return { redriven, failed };
+  }
+}
@@ -0,0 +1,270 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Catalog of the domain events published on the bus.
+ *
+ * Every event's detail is an envelope:
+ *
+ *   { eventId, correlationId, schemaVersion, occurredAt, data }
+ *
+ * `data` is the payload described by the event's schema for `schemaVersion`.
+ * `correlationId` is shared by every event in a chain (an author sync run
+ * carries the correlation of the profile update that started it); an event
+ * that starts a chain is its own correlation.
+ *
+ * Adding an optional field keeps the version. Renaming, removing or
+ * retyping a field, or making one required, adds a new version; the old one
+ * stays in the catalog until no producer sends it and nothing is archived in
+ * it, so consumers and replays keep working through the change.
+ */
+
+const id = { type: 'string', minLength: 1 };
+const text = { type: 'string' };
+const imageUrl = { type: ['string', 'null'] }; // Cleared images are null
+const object = { type: 'object' };
+
+const event = (source, versions) => ({ source, versions });
+const schema = (required, optional = {}) => ({
+  type: 'object',
+  required: Object.keys(required),
+  properties: { ...required, ...optional },
+});
+
+const followEvent = event('social-media.follows', {
+  1: schema({ followerId: id, followedUserId: id }),
+});
+const blockEvent = event('social-media.blocks', {
+  1: schema({ blockerId: id, blockedUserId: id }),
+});
+const muteEvent = event('social-media.blocks', {
+  1: schema({ muterId: id, mutedUserId: id }),
+});
+
+export const EVENT_CATALOG = {
+  'Post Created': event('social-media.posts', {
+    1: schema(
+      { postId: id, userId: id, content: text },
+      { username: text, displayName: text, avatar: text, imageUrl },
+    ),
+  }),
+  'Post Updated': event('social-media.posts', {
+    1: schema(
+      { postId: id, userId: id },
+      { content: text, imageUrl, previousContent: text, revision: { type: 'integer' }, editedAt: text },
+    ),
+  }),
+  'Post Deleted': event('social-media.posts', {
+    // createdAt addresses the post's feed copies, which outlive it until removed
+    1: schema({ postId: id, userId: id }, { createdAt: text }),
+  }),
+
+  'Profile Created': event('social-media.profiles', {
+    1: schema({
+      userId: id,
+      profile: schema({ userId: id, username: id }, { displayName: text, bio: text, avatar: text, isPrivate: { type: 'boolean' } }),
+    }),
+  }),
+  'Profile Updated': event('social-media.profiles', {
+    // `updates` holds only the edited fields; `previousProfile` all of them
+    1: schema({ userId: id, updates: object, previousProfile: object }),
+  }),
+  'Profile Deleted': event('social-media.profiles', {
+    1: schema({ userId: id }, { username: text }),
+  }),
+  'Author Sync Continued': event('social-media.profiles', {
+    1: schema({ userId: id, runId: id }),
+  }),
+
+  'User Followed': followEvent,
+  'User Unfollowed': followEvent,
+  'Follow Requested': event('social-media.follows', {
+    1: schema({ requesterId: id, targetUserId: id }),
+  }),
+
+  'Post Liked': event('social-media.likes', {
+    1: schema(
+      { userId: id, postId: id, postAuthorId: id },
+      { postAuthorUsername: text, postContent: text },
+    ),
+  }),
+  'Post Unliked': event('social-media.likes', {
+    // Likes made before postAuthorId was stored on them do not have it
+    1: schema({ userId: id, postId: id }, { postAuthorId: id }),
+  }),
+
+  'Comment Created': event('social-media.comments', {
+    1: schema(
+      { commentId: id, postId: id, userId: id, postAuthorId: id, content: text },
+      { parentCommentId: id },
+    ),
+  }),
+
+  'User Blocked': blockEvent,
+  'User Unblocked': blockEvent,
+  'User Muted': muteEvent,
+  'User Unmuted': muteEvent,
+
+  'User Deletion Requested': event('social-media.admin', {
+    1: schema({ userId: id, runId: id }, { requestedBy: id }),
+  }),
+  'User Deletion Continued': event('social-media.admin', {
+    1: schema({ userId: id, runId: id }),
+  }),
+};
+
+const EnvelopeSchema = schema({
+  eventId: id,
+  correlationId: id,
+  schemaVersion: { type: 'integer', minimum: 1 },
+  occurredAt: { type: 'string', format: 'date-time' },
+  data: object,
+});
+
+/**
+ * The version producers publish an event in: the newest in the catalog
+ */
+export const currentVersion = (detailType) =>
+  Math.max(...Object.keys(EVENT_CATALOG[detailType]?.versions ?? {}).map(Number));
+
+const typeOf = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+/**
+ * Check a value against the subset of JSON Schema the catalog uses
+ */
+function checkSchema(definition, value, path, errors) {
+  const types = [definition.type].flat();
+  const actual = typeOf(value);
+  if (!types.includes(actual) && !(actual === 'integer' && types.includes('number'))) {
+    errors.push(`${path} must be ${types.join(' or ')}`);
+    return;
+  }
+
+  if (actual === 'string') {
+    if (definition.minLength && value.length < definition.minLength) {
+      errors.push(`${path} must not be empty`);
+    }
+    if (definition.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      errors.push(`${path} must be an ISO 8601 timestamp`);
+    }
+  }
+  if (definition.minimum !== undefined && typeof value === 'number' && value < definition.minimum) {
+    errors.push(`${path} must be at least ${definition.minimum}`);
+  }
+
+  if (actual === 'object') {
+    for (const field of definition.required ?? []) {
+      if (value[field] === undefined) {
+        errors.push(`${path}.${field} is required`);
+      }
+    }
+    for (const [field, property] of Object.entries(definition.properties ?? {})) {
+      if (value[field] !== undefined) {
+        checkSchema(property, value[field], `${path}.${field}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate an event against the catalog: its source, envelope and payload
+ *
+ * @param {{source: string, detailType: string, detail: object}} event
+ * @returns {{isValid: boolean, errors: string[]}}
+ */
+export function validateEvent({ source, detailType, detail }) {
+  const errors = [];
+  const entry = EVENT_CATALOG[detailType];
+
+  if (!entry) {
+    errors.push(`${detailType} is not in the event catalog`);
+  } else if (source !== entry.source) {
+    errors.push(`${detailType} must come from ${entry.source}, not ${source}`);
+  }
+
+  checkSchema(EnvelopeSchema, detail, 'detail', errors);
+
+  const payloadSchema = entry?.versions[detail?.schemaVersion];
+  if (entry && Number.isInteger(detail?.schemaVersion) && !payloadSchema) {
+    errors.push(`${detailType} has no schema version ${detail.schemaVersion}`);
+  }
+  if (payloadSchema && typeOf(detail.data) === 'object') {
+    checkSchema(payloadSchema, detail.data, 'detail.data', errors);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+function invalidEvent(detailType, errors) {
+  const error = new Error(`Invalid ${detailType} event: ${errors.join('; ')}`);
+  error.name = 'EventContractError';
+  error.errors = errors;
+  return error;
+}
+
+/**
+ * Whether an error came from the checks below
+ */
+export const isEventContractError = (error) => error?.name === 'EventContractError';
+
+/**
+ * Throw an EventContractError unless the event matches the catalog
+ *
+ * @param {{source: string, detailType: string, detail: object}} event
+ */
+export function assertValidEvent(event) {
+  const { isValid, errors } = validateEvent(event);
+  if (!isValid) {
+    throw invalidEvent(event.detailType, errors);
+  }
+}
+
+/**
+ * Wrap a payload in an envelope of the current schema version, ready for
+ * publishEvents. Throws an EventContractError if the payload does not match
+ * the catalog, so a bad event is never put on the bus.
+ *
+ * @param {string} detailType - a key of EVENT_CATALOG
+ * @param {object} data - the payload
+ * @param {{eventId?: string, correlationId?: string, occurredAt?: string}} [options]
+ *   eventId defaults to a new UUID; pass a stable one where the event may be
+ *   produced again (a retried stream record) so consumers can spot repeats
+ * @returns {{source: string, detailType: string, detail: object}}
+ */
+export function createEvent(detailType, data, { eventId = uuidv4(), correlationId = eventId, occurredAt = new Date().toISOString() } = {}) {
+  const domainEvent = {
+    source: EVENT_CATALOG[detailType]?.source,
+    detailType,
+    detail: {
+      eventId,
+      correlationId,
+      schemaVersion: currentVersion(detailType),
+      occurredAt,
+      data,
+    },
+  };
+
+  assertValidEvent(domainEvent);
+  return domainEvent;
+}
+
+/**
+ * Check an event delivered by EventBridge against the catalog and return its
+ * envelope. Throws an EventContractError for events the catalog does not
+ * describe, so the consumer fails and the event waits in its dead letter
+ * queue instead of being half processed.
+ *
+ * @param {object} event - the event as delivered to a Lambda target
+ * @returns {{eventId: string, correlationId: string, schemaVersion: number, occurredAt: string, data: object}}
+ */
+export function readEvent(event) {
+  assertValidEvent({ source: event.source, detailType: event['detail-type'], detail: event.detail });
+  return event.detail;
+}
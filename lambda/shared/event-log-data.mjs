@@ -0,0 +1,156 @@
+import { PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLE_NAME } from './clients.mjs';
+import { DEFAULT_PAGE_SIZE } from './pagination.mjs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days an archived event is kept; the table's TTL deletes it afterwards
+const EVENT_RETENTION_DAYS = parseInt(process.env.EVENT_RETENTION_DAYS, 10) || 30;
+
+// Events read per query; filters apply after the read, so pages read ahead
+const READ_PAGE_SIZE = 100;
+
+// Queries per list request, enough to walk every retained day once, so a rare
+// filter returns a partial page and a cursor instead of timing out
+const MAX_QUERIES_PER_PAGE = 50;
+
+// Payload fields that name a user the event is about
+const USER_ID_FIELDS = [
+  'userId',
+  'followerId',
+  'followedUserId',
+  'requesterId',
+  'targetUserId',
+  'postAuthorId',
+  'blockerId',
+  'blockedUserId',
+  'muterId',
+  'mutedUserId',
+];
+
+const PARTITION_PREFIX = 'EVENT#';
+
+const partitionKey = (day) => `${PARTITION_PREFIX}${day}`;
+const dayOf = (timestamp) => timestamp.slice(0, 10);
+const previousDay = (day) => new Date(Date.parse(day) - DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Archive of the events published on the bus, for the admin events view.
+ *
+ * Events are stored under one partition per UTC day, EVENT#<YYYY-MM-DD>, with
+ * sort key <timestamp>#<eventId>, and expire after EVENT_RETENTION_DAYS.
+ * Listing walks the days newest first.
+ */
+export class EventLogData {
+  /**
+   * Store an EventBridge event. EventBridge may deliver an event more than
+   * once; the key comes from its ID, so a redelivery overwrites the copy.
+   *
+   * @param {object} event - the event as delivered to a Lambda target
+   * @returns {Promise<object>} the archived item
+   */
+  static async archiveEvent(event) {
+    const timestamp = new Date(event.time).toISOString();
+    const detail = event.detail ?? {};
+    // Archived as published, envelope or not; the payload is in `data` (see EVENT_CATALOG)
+    const data = detail.data ?? detail;
+
+    const item = {
+      PK: partitionKey(dayOf(timestamp)),
+      SK: `${timestamp}#${event.id}`,
+      eventId: event.id,
+      source: event.source,
+      detailType: event['detail-type'],
+      detail,
+      timestamp,
+      region: event.region,
+      account: event.account,
+      userIds: [...new Set(USER_ID_FIELDS.map(field => data[field]).filter(id => typeof id === 'string' && id))],
+      expiresAt: Math.floor(Date.parse(timestamp) / 1000) + EVENT_RETENTION_DAYS * 24 * 60 * 60,
+    };
+
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: item,
+    }));
+
+    return item;
+  }
+
+  /**
+   * One page of archived events, newest first.
+   *
+   * The page may hold fewer than `limit` events when filters are selective;
+   * the returned key then resumes the walk where it stopped.
+   *
+   * @param {{source?: string, detailType?: string, userId?: string, from?: string, to?: string}} filters
+   *   from and to are ISO timestamps, both inclusive; from is clamped to the retention period
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async listEvents({ source, detailType, userId, from, to } = {}, { limit = DEFAULT_PAGE_SIZE, startKey } = {}) {
+    const oldest = new Date(Date.now() - EVENT_RETENTION_DAYS * DAY_MS).toISOString();
+    const lower = from && from > oldest ? from : oldest;
+    const upper = to ?? new Date().toISOString();
+
+    const conditions = [];
+    const names = {};
+    // '~' sorts after every event ID, so events at exactly `to` are included
+    const values = { ':from': lower, ':to': `${upper}#~` };
+    if (source) {
+      conditions.push('#source = :source');
+      names['#source'] = 'source';
+      values[':source'] = source;
+    }
+    if (detailType) {
+      conditions.push('detailType = :detailType');
+      values[':detailType'] = detailType;
+    }
+    if (userId) {
+      conditions.push('contains(userIds, :userId)');
+      values[':userId'] = userId;
+    }
+
+    const lastDay = dayOf(lower);
+    let day = startKey ? startKey.PK.slice(PARTITION_PREFIX.length) : dayOf(upper);
+    let exclusiveStartKey = startKey?.SK ? startKey : undefined;
+    const items = [];
+
+    for (let queries = 0; queries < MAX_QUERIES_PER_PAGE && day >= lastDay && items.length < limit; queries++) {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+        ...(conditions.length > 0 && { FilterExpression: conditions.join(' AND ') }),
+        ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+        ExpressionAttributeValues: { ...values, ':pk': partitionKey(day) },
+        ScanIndexForward: false,
+        Limit: READ_PAGE_SIZE,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+
+      const found = result.Items || [];
+      const wanted = limit - items.length;
+      items.push(...found.slice(0, wanted));
+
+      if (found.length > wanted) {
+        // More matches than fit: resume after the last one returned, not the last one read
+        const last = items[items.length - 1];
+        return { items, lastEvaluatedKey: { PK: last.PK, SK: last.SK } };
+      }
+
+      if (result.LastEvaluatedKey) {
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } else {
+        day = previousDay(day);
+        exclusiveStartKey = undefined;
+      }
+    }
+
+    if (day < lastDay) {
+      return { items, lastEvaluatedKey: undefined };
+    }
+
+    // A day partition with no SK starts from that day's newest event
+    return { items, lastEvaluatedKey: exclusiveStartKey ?? { PK: partitionKey(day) } };
+  }
+}
@@ -1,84 +1,95 @@
 import { PutEventsCommand } from '@aws-sdk/client-eventbridge';
 import { eventBridgeClient, EVENT_BUS_NAME } from './clients.mjs';
+import { createEvent, assertValidEvent } from './event-catalog.mjs';
+
+// PutEvents accepts at most this many entries per call
+export const MAX_EVENTS_PER_PUT = 10;
+
+const toEntry = ({ source, detailType, detail }) => ({
+  Source: source,
+  DetailType: detailType,
+  Detail: JSON.stringify(detail),
+  EventBusName: EVENT_BUS_NAME,
+});
 
 /**
- * Send an event to EventBridge
+ * Send an event to EventBridge, in the current version of its catalog schema
+ *
+ * @param {string} detailType - a key of EVENT_CATALOG
+ * @param {object} data - the event's payload
+ * @param {{correlationId?: string}} [options] - see createEvent
  */
-export async function publishEvent(source, detailType, detail) {
-  const command = new PutEventsCommand({
-    Entries: [
-      {
-        Source: source,
-        DetailType: detailType,
-        Detail: JSON.stringify(detail),
-        EventBusName: EVENT_BUS_NAME,
-      },
-    ],
-  });
+export async function publishEvent(detailType, data, options) {
+  return await publishEvents([createEvent(detailType, data, options)]);
+}
 
-  return await eventBridgeClient.send(command);
+function eventsRejected(events, entries) {
+  const rejected = entries
+    .map((entry, index) => ({ ...entry, detailType: events[index].detailType }))
+    .filter(entry => entry.ErrorCode);
+  const error = new Error(`EventBridge rejected ${rejected.length} of ${events.length} events: `
+    + rejected.map(entry => `${entry.detailType} (${entry.ErrorCode}: ${entry.ErrorMessage})`).join('; '));
+  error.name = 'EventsRejectedError';
+  error.entries = entries;
+  return error;
 }
 
 /**
- * Publish profile-related events
+ * Whether an error is a PutEvents call that EventBridge answered with
+ * rejected entries; its `entries` line up with the events sent, and rejected
+ * ones carry an ErrorCode
  */
-export const ProfileEvents = {
-  profileCreated: (userId, profile) =>
-    publishEvent('social-media.profiles', 'Profile Created', { userId, profile, timestamp: new Date().toISOString() }),
-
-  profileUpdated: (userId, updates, previousProfile) =>
-    publishEvent('social-media.profiles', 'Profile Updated', { userId, updates, previousProfile, timestamp: new Date().toISOString() }),
-};
+export const isEventsRejectedError = (error) => error?.name === 'EventsRejectedError';
 
 /**
- * Publish post-related events
+ * Send up to MAX_EVENTS_PER_PUT events made by createEvent in one call.
+ * EventBridge accepts or rejects each entry separately and reports a
+ * throttled or failed entry in its answer rather than as an error, so any
+ * rejection is thrown here as an EventsRejectedError: the events before it
+ * may have been delivered, the caller must send the rest again.
+ *
+ * Nothing is sent if any event does not match the catalog; the
+ * EventContractError names the first one that does not.
+ *
+ * @param {Array<{source: string, detailType: string, detail: object}>} events
  */
-export const PostEvents = {
-  postCreated: (post) =>
-    publishEvent('social-media.posts', 'Post Created', { ...post, timestamp: new Date().toISOString() }),
+export async function publishEvents(events) {
+  events.forEach(assertValidEvent);
 
-  postDeleted: (postId, userId) =>
-    publishEvent('social-media.posts', 'Post Deleted', { postId, userId, timestamp: new Date().toISOString() }),
-};
+  const command = new PutEventsCommand({
+    Entries: events.map(toEntry),
+  });
+
+  const result = await eventBridgeClient.send(command);
+  if (result.FailedEntryCount > 0) {
+    throw eventsRejected(events, result.Entries);
+  }
+  return result;
+}
 
 /**
- * Publish like-related events
+ * Publish profile events that do not come from a table change.
+ *
+ * Domain events for posts, profiles, follows, likes, comments and blocks are
+ * published by the stream processor from the item changes themselves (see
+ * stream-events.mjs), so handlers only write to the table.
  */
-export const LikeEvents = {
-  postLiked: (userId, postId, postAuthorId, postAuthorUsername, postContent) =>
-    publishEvent('social-media.likes', 'Post Liked', {
-      userId,
-      postId,
-      postAuthorId,
-      postAuthorUsername,
-      postContent,
-      timestamp: new Date().toISOString(),
-    }),
-
-  postUnliked: (userId, postId, postAuthorId) =>
-    publishEvent('social-media.likes', 'Post Unliked', {
-      userId,
-      postId,
-      postAuthorId,
-      timestamp: new Date().toISOString(),
-    }),
+export const ProfileEvents = {
+  // Hands a long-running author field rewrite over to a fresh invocation
+  authorSyncContinued: (userId, runId, correlationId) =>
+    publishEvent('Author Sync Continued', { userId, runId }, { correlationId }),
 };
 
 /**
- * Publish follow-related events
+ * Publish the events that drive an admin's deletion of a user (see the
+ * user-deleter consumer)
  */
-export const FollowEvents = {
-  userFollowed: (followerId, followedUserId) =>
-    publishEvent('social-media.follows', 'User Followed', {
-      followerId,
-      followedUserId,
-      timestamp: new Date().toISOString(),
-    }),
+export const AdminEvents = {
+  // Starts a deletion run; the event is its own correlation
+  userDeletionRequested: (userId, runId, requestedBy) =>
+    publishEvent('User Deletion Requested', { userId, runId, requestedBy }),
 
-  userUnfollowed: (followerId, followedUserId) =>
-    publishEvent('social-media.follows', 'User Unfollowed', {
-      followerId,
-      followedUserId,
-      timestamp: new Date().toISOString(),
-    }),
-};
\ No newline at end of file
+  // Hands a deletion run over to a fresh invocation
+  userDeletionContinued: (userId, runId, correlationId) =>
+    publishEvent('User Deletion Continued', { userId, runId }, { correlationId }),
+};
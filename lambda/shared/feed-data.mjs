@@ -1,137 +1,529 @@
-import { PutCommand, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { DeleteCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { docClient, TABLE_NAME } from './clients.mjs';
 import { FollowData } from './follow-data.mjs';
+import { ProfileData } from './profile-data.mjs';
+import { PostData } from './post-data.mjs';
+import { LikeData } from './like-data.mjs';
+import { CommentData } from './comment-data.mjs';
+import { authorAffinity, rankFeedItems } from './feed-ranking.mjs';
+import { batchWrite, batchDeleteKeys } from './batch.mjs';
+import { DEFAULT_PAGE_SIZE } from './pagination.mjs';
+
+const FEED_UPDATE_CONCURRENCY = 25;
+
+// Followers read per fan-out page; a multiple of the 25-item BatchWriteItem limit
+const FAN_OUT_PAGE_SIZE = 250;
+
+// Authors with at least this many followers are merged into feeds on read instead of fanned out
+const FANOUT_FOLLOWER_THRESHOLD = parseInt(process.env.FEED_FANOUT_THRESHOLD, 10) || 10000;
+
+// Posts copied into a follower's feed when they start following an author
+const FEED_BACKFILL_POSTS = parseInt(process.env.FEED_BACKFILL_POSTS, 10) || 20;
+
+// Newest feed items scored for each ranked feed session
+const RANKED_CANDIDATES = parseInt(process.env.FEED_RANK_CANDIDATES, 10) || 200;
+
+// Bounds of the POST# sort keys; '$' sorts directly after '#'
+const POST_KEY_START = 'POST#';
+const POST_KEY_END = 'POST$';
+
+/**
+ * A followed pull-mode author, kept in the follower's partition
+ */
+const pullAuthorItem = (followerId, authorId, pullSince) => ({
+  PK: `USER#${followerId}`,
+  SK: `PULLS#${authorId}`,
+  authorId,
+  pullSince,
+});
 
 /**
- * Feed data access operations
+ * Feed data access operations.
+ *
+ * Feeds are hybrid. Posts by most authors are copied into each follower's
+ * FEED#<userId> partition when published (fan-out on write). Authors with
+ * FANOUT_FOLLOWER_THRESHOLD followers or more are switched to fan-out on
+ * read: their profile gets `feedMode: 'pull'` and `pullSince`, and their
+ * later posts are read from USER#<authorId>/POST# items when a follower
+ * loads their feed. Both sources share the `POST#<createdMs>#<postId>` sort
+ * key, so pages are merged by sort key and the cursor is the last key shown.
+ *
+ * Each follower keeps the pull-mode authors they follow as
+ * USER#<followerId>/PULLS#<authorId> items: written for every follower when
+ * an author switches, and on each later follow; removed on unfollow.
  */
 export class FeedData {
   /**
-   * Get user's feed
+   * Get one page of a user's feed, newest first, merging fanned-out copies
+   * with recent posts by followed pull-mode authors
+   *
+   * @param {{limit?: number, startKey?: {SK: string}}} page - startKey is the
+   *   last sort key of the previous page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: {SK: string}|undefined}>}
    */
-  static async getUserFeed(userId, limit = 20) {
-    const result = await docClient.send(new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `FEED#${userId}`,
-        ':sk': 'POST#',
-      },
-      ScanIndexForward: false, // Sort by timestamp descending (newest first)
-      Limit: limit,
-    }));
+  static async getUserFeed(userId, page = {}) {
+    const { limit = DEFAULT_PAGE_SIZE, startKey } = page;
+    const before = startKey?.SK;
+
+    const pullAuthors = await FeedData.getPullAuthors(userId);
+    const [feed, ...pulledSources] = await Promise.all([
+      queryPostKeys(`FEED#${userId}`, POST_KEY_START, before, limit),
+      ...pullAuthors.map(author =>
+        queryPostKeys(`USER#${author.userId}`, `POST#${author.pullSince}`, before, limit)),
+    ]);
+
+    // Newest first across every source. Sorting is stable, so a fanned-out
+    // copy (listed first) wins over the pulled copy of the same post.
+    const seen = new Set();
+    const merged = [
+      ...feed.items,
+      ...pulledSources.flatMap(source => source.items.map(item => ({ ...item, pulled: true }))),
+    ]
+      .sort((a, b) => (a.SK < b.SK ? 1 : a.SK > b.SK ? -1 : 0))
+      .filter(item => !seen.has(item.postId) && seen.add(item.postId));
+
+    const pageItems = merged.slice(0, limit);
+    const hasMore = merged.length > limit || [feed, ...pulledSources].some(source => source.lastEvaluatedKey);
 
-    return result.Items || [];
+    // Pulled posts are index items; read the posts themselves for author and counts
+    const pulled = pageItems.filter(item => item.pulled);
+    const posts = pulled.length > 0 ? await PostData.getPostsByIds(pulled.map(item => item.postId)) : new Map();
+
+    const items = pageItems
+      .map(item => item.pulled ? toPulledFeedItem(item, posts.get(item.postId)) : item)
+      .filter(Boolean);
+
+    return {
+      items,
+      lastEvaluatedKey: hasMore && pageItems.length > 0 ? { SK: pageItems[pageItems.length - 1].SK } : undefined,
+    };
   }
 
   /**
-   * Add a feed item for a user
+   * Get one page of a user's feed ordered by score (see feed-ranking.mjs)
+   * rather than time.
+   *
+   * Each session ranks the newest RANKED_CANDIDATES items created up to
+   * `asOf`, the time of its first page. The cursor carries `asOf` and the
+   * offset reached, so later pages rank the same candidates at the same
+   * moment and nothing is repeated or skipped while new posts arrive.
+   *
+   * @param {{limit?: number, startKey?: {asOf: number, offset: number}}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: {asOf: number, offset: number}|undefined}>}
    */
-  static async addFeedItem(userId, feedItem) {
-    const timestamp = Date.now();
-    const item = {
-      PK: `FEED#${userId}`,
-      SK: `POST#${timestamp}#${feedItem.postId}`,
-      ...feedItem,
-      feedTimestamp: timestamp,
+  static async getRankedFeed(userId, page = {}) {
+    const { limit = DEFAULT_PAGE_SIZE, startKey } = page;
+    const asOf = startKey?.asOf ?? Date.now();
+    const offset = startKey?.offset ?? 0;
+
+    const [{ items: candidates }, liked, commented] = await Promise.all([
+      FeedData.getUserFeed(userId, { limit: RANKED_CANDIDATES, startKey: { SK: `POST#${asOf + 1}` } }),
+      LikeData.getLikedAuthorCounts(userId),
+      CommentData.getCommentedAuthorCounts(userId),
+    ]);
+
+    // Feed copies keep the counts from when they were written; score on current ones
+    const posts = candidates.length > 0 ? await PostData.getPostsByIds(candidates.map(item => item.postId)) : new Map();
+    const current = candidates
+      .filter(item => posts.has(item.postId))
+      .map(item => ({
+        ...item,
+        likesCount: posts.get(item.postId).likesCount || 0,
+        commentsCount: posts.get(item.postId).commentsCount || 0,
+      }));
+
+    const ranked = rankFeedItems(current, authorAffinity(liked, commented), asOf);
+    const nextOffset = offset + limit;
+
+    return {
+      items: ranked.slice(offset, nextOffset),
+      lastEvaluatedKey: nextOffset < ranked.length ? { asOf, offset: nextOffset } : undefined,
     };
+  }
 
-    await docClient.send(new PutCommand({
-      TableName: TABLE_NAME,
-      Item: item,
-    }));
+  /**
+   * The authors a user follows whose posts are merged into their feed on read.
+   * An unfollow racing an author's switch can leave a PULLS# item behind
+   * until its cleanup runs, so only authors still followed are returned.
+   *
+   * @returns {Promise<Array<{userId: string, pullSince: number}>>}
+   */
+  static async getPullAuthors(userId) {
+    const items = [];
+    let lastEvaluatedKey;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'PULLS#',
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      items.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    const followed = await FollowData.getFollowedIds(userId, items.map(item => item.authorId));
+
+    return items
+      .filter(item => followed.has(item.authorId))
+      .map(item => ({ userId: item.authorId, pullSince: item.pullSince || 0 }));
   }
 
   /**
-   * Create feed items for all followers when a post is created
+   * Copy a post into the feed of every follower of its author.
+   *
+   * Authors at or above FANOUT_FOLLOWER_THRESHOLD followers are switched to
+   * fan-out on read instead (see getUserFeed) and nothing is copied. The
+   * switch is sticky, so posts do not drop out of feeds if the author later
+   * loses followers. Switching adds the author to every follower's pull-mode
+   * authors (see registerPullAuthor); the profile's `pullRegistered` marks
+   * that done, so a retried event finishes an interrupted registration.
+   *
+   * Otherwise followers are read a page at a time and each page is written
+   * with BatchWriteItem before the next is read, so memory stays flat however
+   * large the audience. Feed keys come from the post's creation time, so a
+   * retried fan-out overwrites the copies it already wrote instead of
+   * duplicating them.
+   *
+   * @returns {Promise<{mode: 'push'|'pull', followers: number, written: number, failedFollowerIds: string[]}>}
+   *   failedFollowerIds are followers whose copy (or, when switching, whose
+   *   PULLS# item) was still unprocessed after retries
    */
   static async createFeedItemsForPost(post) {
-    // Get all followers of the post author
-    const followers = await FollowData.getFollowers(post.userId, 1000); // Adjust limit as needed
+    const feedItem = toFeedItem(post);
+
+    const author = await ProfileData.getProfileById(post.userId);
+    if (author?.feedMode === 'pull' || (author?.followersCount || 0) >= FANOUT_FOLLOWER_THRESHOLD) {
+      let { pullSince } = author;
+      if (author.feedMode !== 'pull') {
+        // Switched before the followers are read, so a follow made meanwhile
+        // finds the author in pull mode and registers itself
+        const result = await docClient.send(new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { PK: `USER#${post.userId}`, SK: 'PROFILE' },
+          UpdateExpression: 'SET feedMode = :pull, pullSince = if_not_exists(pullSince, :since)',
+          ExpressionAttributeValues: { ':pull': 'pull', ':since': feedItem.feedTimestamp },
+          ReturnValues: 'ALL_NEW',
+        }));
+        pullSince = result.Attributes.pullSince;
+      }
 
-    if (followers.length === 0) {
-      return;
+      const failedFollowerIds = author.pullRegistered ? [] : await FeedData.registerPullAuthor(post.userId, pullSince);
+      return { mode: 'pull', followers: author.followersCount || 0, written: 0, failedFollowerIds };
     }
 
-    const timestamp = Date.now();
-    const feedItem = {
-      postId: post.postId,
-      userId: post.userId,
-      username: post.username,
-      displayName: post.displayName,
-      avatar: post.avatar,
-      content: post.content,
-      imageUrl: post.imageUrl,
-      likesCount: post.likesCount,
-      commentsCount: post.commentsCount,
-      createdAt: post.createdAt,
-    };
+    let followers = 0;
+    let written = 0;
+    const failedFollowerIds = [];
+    let startKey;
+
+    do {
+      const page = await FollowData.getFollowers(post.userId, { limit: FAN_OUT_PAGE_SIZE, startKey });
+      const result = await batchWrite(page.items.map(follower => ({
+        PutRequest: {
+          Item: { PK: `FEED#${follower.followerId}`, ...feedItem },
+        },
+      })));
 
-    // Create feed items in batches to avoid transaction limits
-    const batchSize = 25; // DynamoDB transaction limit is 25 items
-    for (let i = 0; i < followers.length; i += batchSize) {
-      const batch = followers.slice(i, i + batchSize);
+      followers += page.items.length;
+      written += result.written;
+      failedFollowerIds.push(...result.unprocessed.map(request => request.PutRequest.Item.PK.slice('FEED#'.length)));
+      startKey = page.lastEvaluatedKey;
+    } while (startKey);
 
-      const transactItems = batch.map(follower => ({
-        Put: {
+    return { mode: 'push', followers, written, failedFollowerIds };
+  }
+
+  /**
+   * Add a pull-mode author to every follower's PULLS# items, then mark the
+   * author's profile registered. Followers are read a page at a time, like a
+   * fan-out; rewriting an item is harmless, so an interrupted run is simply
+   * repeated.
+   *
+   * @returns {Promise<string[]>} followers whose item was still unprocessed
+   *   after retries; the profile is only marked when there are none
+   */
+  static async registerPullAuthor(authorId, pullSince) {
+    const failedFollowerIds = [];
+    let startKey;
+
+    do {
+      const page = await FollowData.getFollowers(authorId, { limit: FAN_OUT_PAGE_SIZE, startKey });
+      const { unprocessed } = await batchWrite(page.items.map(follower => ({
+        PutRequest: { Item: pullAuthorItem(follower.followerId, authorId, pullSince) },
+      })));
+
+      failedFollowerIds.push(...unprocessed.map(request => request.PutRequest.Item.PK.slice('USER#'.length)));
+      startKey = page.lastEvaluatedKey;
+    } while (startKey);
+
+    if (failedFollowerIds.length === 0) {
+      await docClient.send(new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: `USER#${authorId}`, SK: 'PROFILE' },
+        UpdateExpression: 'SET pullRegistered = :true',
+        ExpressionAttributeValues: { ':true': true },
+      }));
+    }
+
+    return failedFollowerIds;
+  }
+
+  /**
+   * Apply an edit to every follower's feed copy of a post. Copies removed
+   * meanwhile (by an unfollow, say) are skipped rather than recreated.
+   *
+   * @returns {Promise<{updated: number}>}
+   */
+  static async updateFeedItemsForPost(post) {
+    let updated = 0;
+
+    await forEachFeedCopyPage(post, async (keys) => {
+      for (let i = 0; i < keys.length; i += FEED_UPDATE_CONCURRENCY) {
+        const results = await Promise.all(keys.slice(i, i + FEED_UPDATE_CONCURRENCY).map(key => docClient.send(new UpdateCommand({
           TableName: TABLE_NAME,
-          Item: {
-            PK: `FEED#${follower.followerId}`,
-            SK: `POST#${timestamp}#${post.postId}`,
-            ...feedItem,
-            feedTimestamp: timestamp,
+          Key: key,
+          UpdateExpression: 'SET content = :content, imageUrl = :imageUrl, editedAt = :editedAt',
+          ConditionExpression: 'attribute_exists(PK)',
+          ExpressionAttributeValues: {
+            ':content': post.content,
+            ':imageUrl': post.imageUrl || '',
+            ':editedAt': post.editedAt,
           },
-        },
-      }));
+        })).then(() => true, error => {
+          if (error.name !== 'ConditionalCheckFailedException') throw error;
+          return false;
+        })));
+
+        updated += results.filter(Boolean).length;
+      }
+    });
+
+    return { updated };
+  }
+
+  /**
+   * Remove every follower's feed copy of a post
+   *
+   * @param {{postId: string, userId: string, createdAt: string}} post - the
+   *   deleted post, of which only the key fields are needed
+   * @returns {Promise<{removed: number, unprocessed: number}>}
+   */
+  static async removeFeedItemsForPost(post) {
+    let removed = 0;
+    let unprocessed = 0;
 
-      await docClient.send(new TransactWriteCommand({
-        TransactItems: transactItems,
+    await forEachFeedCopyPage(post, async (keys) => {
+      const result = await batchDeleteKeys(keys);
+      removed += result.written;
+      unprocessed += result.unprocessed.length;
+    });
+
+    return { removed, unprocessed };
+  }
+
+  /**
+   * Copy an author's most recent posts into a new follower's feed.
+   *
+   * Posts by a pull-mode author from `pullSince` on are merged in on read
+   * once the author is among the follower's PULLS# items, so only their
+   * older posts are copied. Feed keys come from each post's creation time,
+   * so running the backfill again rewrites the same items instead of
+   * duplicating them.
+   *
+   * @returns {Promise<{written: number, unprocessed: number}>}
+   */
+  static async backfillFeed(followerId, authorId, limit = FEED_BACKFILL_POSTS) {
+    const author = await ProfileData.getProfileById(authorId);
+    const before = author?.feedMode === 'pull' ? `POST#${author.pullSince || 0}` : undefined;
+
+    if (author?.feedMode === 'pull') {
+      await docClient.send(new PutCommand({
+        TableName: TABLE_NAME,
+        Item: pullAuthorItem(followerId, authorId, author.pullSince || 0),
       }));
     }
+
+    const { items } = await queryPostKeys(`USER#${authorId}`, POST_KEY_START, before, limit);
+    if (items.length === 0) {
+      return { written: 0, unprocessed: 0 };
+    }
+
+    // Index items only carry the content; copy the posts themselves
+    const posts = await PostData.getPostsByIds(items.map(item => item.postId));
+    const { written, unprocessed } = await batchWrite(items
+      .map(item => posts.get(item.postId))
+      .filter(Boolean)
+      .map(post => ({
+        PutRequest: {
+          Item: { PK: `FEED#${followerId}`, ...toFeedItem(post) },
+        },
+      })));
+
+    return { written, unprocessed: unprocessed.length };
+  }
+
+  /**
+   * Rewrite the author fields on every post by an author in a follower's feed
+   *
+   * @returns {Promise<number>} feed items updated
+   */
+  static async updateAuthorInFeed(followerId, authorId, author) {
+    let updated = 0;
+    let lastEvaluatedKey;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: 'userId = :userId',
+        ExpressionAttributeValues: {
+          ':pk': `FEED#${followerId}`,
+          ':sk': POST_KEY_START,
+          ':userId': authorId,
+        },
+        ProjectionExpression: 'PK, SK',
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      updated += await PostData.updateAuthorFields(result.Items || [], author);
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return updated;
   }
 
   /**
-   * Remove feed items when a user unfollows another user
+   * Remove every post by an author from a follower's feed, and the author
+   * from the follower's pull-mode authors.
+   * The feed is read a page at a time and each page's matches are deleted
+   * before the next is read, so an interrupted run can simply be repeated.
+   *
+   * @returns {Promise<{removed: number, unprocessed: number}>}
    */
   static async removeFeedItemsForUnfollow(followerId, unfollowedUserId) {
-    // Query all feed items from the unfollowed user
-    const result = await docClient.send(new QueryCommand({
+    await docClient.send(new DeleteCommand({
       TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `FEED#${followerId}`,
-        ':sk': 'POST#',
-      },
-      FilterExpression: 'userId = :userId',
-      ExpressionAttributeValues: {
-        ...result.ExpressionAttributeValues,
-        ':userId': unfollowedUserId,
-      },
+      Key: { PK: `USER#${followerId}`, SK: `PULLS#${unfollowedUserId}` },
     }));
 
-    const itemsToDelete = result.Items || [];
-    if (itemsToDelete.length === 0) {
-      return;
-    }
-
-    // Delete items in batches
-    const batchSize = 25;
-    for (let i = 0; i < itemsToDelete.length; i += batchSize) {
-      const batch = itemsToDelete.slice(i, i + batchSize);
+    let removed = 0;
+    let unprocessed = 0;
+    let lastEvaluatedKey;
 
-      const transactItems = batch.map(item => ({
-        Delete: {
-          TableName: TABLE_NAME,
-          Key: {
-            PK: item.PK,
-            SK: item.SK,
-          },
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: 'userId = :userId',
+        ExpressionAttributeValues: {
+          ':pk': `FEED#${followerId}`,
+          ':sk': POST_KEY_START,
+          ':userId': unfollowedUserId,
         },
+        ProjectionExpression: 'PK, SK',
+        ExclusiveStartKey: lastEvaluatedKey,
       }));
 
-      await docClient.send(new TransactWriteCommand({
-        TransactItems: transactItems,
-      }));
-    }
+      const deleted = await batchDeleteKeys(result.Items || []);
+      removed += deleted.written;
+      unprocessed += deleted.unprocessed.length;
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return { removed, unprocessed };
+  }
+}
+
+/**
+ * Call `apply` with the keys of a post's feed copies, a page of the author's
+ * followers at a time. Copies are keyed by the post's creation time, so each
+ * follower's is addressed directly rather than searched for. Posts a
+ * pull-mode author published from `pullSince` on were never copied.
+ */
+async function forEachFeedCopyPage(post, apply) {
+  const { SK, feedTimestamp } = toFeedItem(post);
+
+  const author = await ProfileData.getProfileById(post.userId);
+  if (author?.feedMode === 'pull' && feedTimestamp >= (author.pullSince || 0)) {
+    return;
+  }
+
+  let startKey;
+  do {
+    const page = await FollowData.getFollowers(post.userId, { limit: FAN_OUT_PAGE_SIZE, startKey });
+    await apply(page.items.map(follower => ({ PK: `FEED#${follower.followerId}`, SK })));
+    startKey = page.lastEvaluatedKey;
+  } while (startKey);
+}
+
+/**
+ * Read up to `limit` POST# items of a partition, newest first, with sort keys
+ * from `from` up to but excluding `before`
+ *
+ * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+ */
+async function queryPostKeys(pk, from, before, limit) {
+  const result = await docClient.send(new QueryCommand({
+    TableName: TABLE_NAME,
+    KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+    ExpressionAttributeValues: {
+      ':pk': pk,
+      ':from': from,
+      ':to': before || POST_KEY_END,
+    },
+    ScanIndexForward: false,
+    // BETWEEN includes `before` itself, which was the last item of the previous page
+    Limit: before ? limit + 1 : limit,
+  }));
+
+  return {
+    items: (result.Items || []).filter(item => !before || item.SK !== before),
+    lastEvaluatedKey: result.LastEvaluatedKey,
+  };
+}
+
+/**
+ * The attributes of a post copied into followers' feeds, keyed by the post's
+ * creation time (the partition key is added per follower)
+ */
+function toFeedItem(post) {
+  const createdMs = Date.parse(post.createdAt);
+
+  return {
+    SK: `POST#${createdMs}#${post.postId}`,
+    postId: post.postId,
+    userId: post.userId,
+    username: post.username,
+    displayName: post.displayName,
+    avatar: post.avatar,
+    content: post.content,
+    imageUrl: post.imageUrl,
+    likesCount: post.likesCount,
+    commentsCount: post.commentsCount,
+    createdAt: post.createdAt,
+    feedTimestamp: createdMs,
+  };
+}
+
+/**
+ * Shape a pulled post like a fanned-out feed copy. Posts deleted since the
+ * index item was read are dropped.
+ */
+function toPulledFeedItem(indexItem, post) {
+  if (!post) {
+    return null;
   }
-}
\ No newline at end of file
+
+  return {
+    ...post,
+    PK: indexItem.PK,
+    SK: indexItem.SK,
+    feedTimestamp: Date.parse(post.createdAt),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Scoring for the ranked ("For You") feed.
+ *
+ *   score = recency    × 0.5 ^ (age in hours / halfLifeHours)
+ *         + affinity   × ln(1 + the viewer's likes + 2 × their comments on the author's posts)
+ *         + engagement × ln(1 + likesCount + 2 × commentsCount)
+ *
+ * The weights come from the FEED_RANK_* environment variables so they can be
+ * tuned per deployment; a weight of 0 turns that signal off.
+ */
+
+// A comment is a stronger signal than a like, from anyone and from the viewer
+const COMMENT_ENGAGEMENT_FACTOR = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const envNumber = (name, fallback) => {
+  const value = parseFloat(process.env[name]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+export const RANKING_WEIGHTS = Object.freeze({
+  recency: envNumber('FEED_RANK_RECENCY_WEIGHT', 1),
+  affinity: envNumber('FEED_RANK_AFFINITY_WEIGHT', 0.5),
+  engagement: envNumber('FEED_RANK_ENGAGEMENT_WEIGHT', 0.3),
+  halfLifeHours: envNumber('FEED_RANK_HALF_LIFE_HOURS', 24),
+});
+
+/**
+ * Score one feed item for a viewer
+ *
+ * @param {object} item - feed item with userId, createdAt, likesCount and commentsCount
+ * @param {number} affinity - the viewer's engagement with the item's author (see authorAffinity)
+ * @param {number} now - epoch milliseconds the score is taken at
+ */
+export function scoreFeedItem(item, affinity, now, weights = RANKING_WEIGHTS) {
+  const ageHours = Math.max(0, now - Date.parse(item.createdAt)) / HOUR_MS;
+  const engagement = (item.likesCount || 0) + COMMENT_ENGAGEMENT_FACTOR * (item.commentsCount || 0);
+
+  return weights.recency * 0.5 ** (ageHours / weights.halfLifeHours)
+    + weights.affinity * Math.log1p(affinity)
+    + weights.engagement * Math.log1p(engagement);
+}
+
+/**
+ * Combine the viewer's likes and comments per author into their affinity
+ *
+ * @param {Map<string, number>} likedCounts - authorId → posts liked by the viewer
+ * @param {Map<string, number>} commentedCounts - authorId → comments by the viewer
+ * @returns {Map<string, number>} authorId → affinity
+ */
+export function authorAffinity(likedCounts, commentedCounts) {
+  const affinity = new Map(likedCounts);
+  for (const [authorId, comments] of commentedCounts) {
+    affinity.set(authorId, (affinity.get(authorId) || 0) + COMMENT_ENGAGEMENT_FACTOR * comments);
+  }
+  return affinity;
+}
+
+/**
+ * Order feed items by score, highest first. Equal scores keep the newest
+ * first so the order is stable between requests.
+ *
+ * @param {Map<string, number>} affinityByAuthor - authorId → affinity (see authorAffinity)
+ */
+export function rankFeedItems(items, affinityByAuthor, now, weights = RANKING_WEIGHTS) {
+  return items
+    .map(item => ({ item, score: scoreFeedItem(item, affinityByAuthor.get(item.userId) || 0, now, weights) }))
+    .sort((a, b) => b.score - a.score || (a.item.SK < b.item.SK ? 1 : a.item.SK > b.item.SK ? -1 : 0))
+    .map(({ item }) => item);
+}
@@ -1,5 +1,124 @@
-import { GetCommand, TransactWriteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { GetCommand, PutCommand, DeleteCommand, TransactWriteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
 import { docClient, TABLE_NAME } from './clients.mjs';
+import { queryPage } from './pagination.mjs';
+import { batchGet } from './batch.mjs';
+import { referenceItem, referenceKey } from './references.mjs';
+
+const followRequestKey = (targetUserId, requesterId) => ({
+  PK: `USER#${targetUserId}`,
+  SK: `FOLLOW_REQUEST#${requesterId}`,
+});
+
+/**
+ * Transaction items that create a follow: both edge items and both counters
+ */
+function followTransactItems(followerId, followedUserId, timestamp) {
+  return [
+    {
+      Put: {
+        TableName: TABLE_NAME,
+        Item: {
+          PK: `USER#${followerId}`,
+          SK: `FOLLOWS#${followedUserId}`,
+          followerId,
+          followedUserId,
+          createdAt: timestamp,
+        },
+        ConditionExpression: 'attribute_not_exists(PK)', // Prevent duplicate follows
+      },
+    },
+    {
+      Put: {
+        TableName: TABLE_NAME,
+        Item: {
+          PK: `USER#${followedUserId}`,
+          SK: `FOLLOWER#${followerId}`,
+          followerId,
+          followedUserId,
+          createdAt: timestamp,
+        },
+      },
+    },
+    {
+      Update: {
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${followerId}`,
+          SK: 'PROFILE',
+        },
+        UpdateExpression: 'ADD followingCount :inc',
+        ExpressionAttributeValues: {
+          ':inc': 1,
+        },
+        ConditionExpression: 'attribute_not_exists(deletedAt)', // Neither account is being deleted
+      },
+    },
+    {
+      Update: {
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${followedUserId}`,
+          SK: 'PROFILE',
+        },
+        UpdateExpression: 'ADD followersCount :inc',
+        ExpressionAttributeValues: {
+          ':inc': 1,
+        },
+        ConditionExpression: 'attribute_not_exists(deletedAt)',
+      },
+    },
+  ];
+}
+
+/**
+ * Transaction items that remove both edge items of an existing follow
+ */
+function followEdgeDeletes(followerId, followedUserId) {
+  return [
+    {
+      Delete: {
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${followerId}`,
+          SK: `FOLLOWS#${followedUserId}`,
+        },
+        ConditionExpression: 'attribute_exists(PK)', // Ensure follow exists
+      },
+    },
+    {
+      Delete: {
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${followedUserId}`,
+          SK: `FOLLOWER#${followerId}`,
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Transaction item that adjusts several counters on one profile. A
+ * transaction may only touch each item once, so deltas for the same profile
+ * must be combined into a single update.
+ *
+ * @param {Record<string, number>} deltas counter name to amount
+ */
+function profileCounterUpdate(userId, deltas) {
+  const counters = Object.entries(deltas);
+
+  return {
+    Update: {
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${userId}`,
+        SK: 'PROFILE',
+      },
+      UpdateExpression: `ADD ${counters.map(([name], i) => `${name} :delta${i}`).join(', ')}`,
+      ExpressionAttributeValues: Object.fromEntries(counters.map(([, amount], i) => [`:delta${i}`, amount])),
+    },
+  };
+}
 
 /**
  * Follow data access operations
@@ -19,159 +138,445 @@ export class FollowData {
     return !!result.Item;
   }
 
+  /**
+   * Return the subset of userIds that the follower follows
+   */
+  static async getFollowedIds(followerId, userIds) {
+    const uniqueIds = [...new Set(userIds)];
+    if (uniqueIds.length === 0) {
+      return new Set();
+    }
+
+    const items = await batchGet(uniqueIds.map(userId => ({
+      PK: `USER#${followerId}`,
+      SK: `FOLLOWS#${userId}`,
+    })));
+    return new Set(items.map(item => item.followedUserId));
+  }
+
+  /**
+   * Describe how two users are connected, from userId's point of view.
+   * Reads the FOLLOWS# and BLOCKS# items in both directions, any pending
+   * request from userId and userId's mute, in one batch.
+   */
+  static async getRelationship(userId, otherUserId) {
+    const keys = {
+      following: { PK: `USER#${userId}`, SK: `FOLLOWS#${otherUserId}` },
+      followedBy: { PK: `USER#${otherUserId}`, SK: `FOLLOWS#${userId}` },
+      blocked: { PK: `USER#${userId}`, SK: `BLOCKS#${otherUserId}` },
+      blockedBy: { PK: `USER#${otherUserId}`, SK: `BLOCKS#${userId}` },
+      requested: { PK: `USER#${otherUserId}`, SK: `FOLLOW_REQUEST#${userId}` },
+      muted: { PK: `USER#${userId}`, SK: `MUTES#${otherUserId}` },
+    };
+
+    const items = await batchGet(Object.values(keys));
+    const found = new Set(items.map(item => `${item.PK}|${item.SK}`));
+    const has = ({ PK, SK }) => found.has(`${PK}|${SK}`);
+
+    const following = has(keys.following);
+    const followedBy = has(keys.followedBy);
+
+    return {
+      following,
+      followedBy,
+      mutual: following && followedBy,
+      blocked: has(keys.blocked),
+      blockedBy: has(keys.blockedBy),
+      requested: has(keys.requested),
+      muted: has(keys.muted),
+    };
+  }
+
   /**
    * Follow a user with atomic transaction
    */
   static async followUser(followerId, followedUserId) {
     const timestamp = new Date().toISOString();
 
-    const transactItems = [
-      {
-        Put: {
-          TableName: TABLE_NAME,
-          Item: {
-            PK: `USER#${followerId}`,
-            SK: `FOLLOWS#${followedUserId}`,
-            followerId,
-            followedUserId,
-            createdAt: timestamp,
-          },
-          ConditionExpression: 'attribute_not_exists(PK)', // Prevent duplicate follows
-        },
-      },
-      {
-        Put: {
-          TableName: TABLE_NAME,
-          Item: {
-            PK: `USER#${followedUserId}`,
-            SK: `FOLLOWER#${followerId}`,
-            followerId,
-            followedUserId,
-            createdAt: timestamp,
-          },
-        },
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: followTransactItems(followerId, followedUserId, timestamp),
+    }));
+  }
+
+  /**
+   * Unfollow a user with atomic transaction
+   */
+  static async unfollowUser(followerId, followedUserId) {
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: [
+        ...followEdgeDeletes(followerId, followedUserId),
+        profileCounterUpdate(followerId, { followingCount: -1 }),
+        profileCounterUpdate(followedUserId, { followersCount: -1 }),
+      ],
+    }));
+  }
+
+  /**
+   * Get one page of a user's followers
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getFollowers(userId, page = {}) {
+    return queryPage({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'FOLLOWER#',
       },
-      {
-        Update: {
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${followerId}`,
-            SK: 'PROFILE',
-          },
-          UpdateExpression: 'ADD followingCount :inc',
-          ExpressionAttributeValues: {
-            ':inc': 1,
-          },
-        },
+    }, page);
+  }
+
+  /**
+   * Get one page of the users that a user is following
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getFollowing(userId, page = {}) {
+    return queryPage({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'FOLLOWS#',
       },
-      {
-        Update: {
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${followedUserId}`,
-            SK: 'PROFILE',
-          },
-          UpdateExpression: 'ADD followersCount :inc',
-          ExpressionAttributeValues: {
-            ':inc': 1,
-          },
+    }, page);
+  }
+
+  /**
+   * Get the IDs of every user a user follows, following pagination
+   */
+  static async getAllFollowingIds(userId) {
+    const followedIds = [];
+    let lastEvaluatedKey;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'FOLLOWS#',
         },
+        ProjectionExpression: 'followedUserId',
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      followedIds.push(...(result.Items || []).map(item => item.followedUserId));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return followedIds;
+  }
+
+  /**
+   * Get a pending follow request. Requests live under the target's partition
+   * so the target can list them; the requester looks them up by key.
+   */
+  static async getFollowRequest(requesterId, targetUserId) {
+    const result = await docClient.send(new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: `USER#${targetUserId}`,
+        SK: `FOLLOW_REQUEST#${requesterId}`,
       },
-    ];
+    }));
+    return result.Item;
+  }
 
-    await docClient.send(new TransactWriteCommand({
-      TransactItems: transactItems,
+  /**
+   * Ask to follow a private account
+   */
+  static async createFollowRequest(requesterId, targetUserId) {
+    const request = {
+      ...followRequestKey(targetUserId, requesterId),
+      requesterId,
+      targetUserId,
+      createdAt: new Date().toISOString(),
+    };
+
+    // The requester's reference goes first, so the request never lacks one
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: referenceItem(requesterId, request),
     }));
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: request,
+      ConditionExpression: 'attribute_not_exists(PK)', // Prevent duplicate requests
+    }));
+
+    return request;
   }
 
   /**
-   * Unfollow a user with atomic transaction
+   * Approve a pending request, turning it into a follow atomically
    */
-  static async unfollowUser(followerId, followedUserId) {
-    const transactItems = [
-      {
-        Delete: {
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${followerId}`,
-            SK: `FOLLOWS#${followedUserId}`,
+  static async approveFollowRequest(targetUserId, requesterId) {
+    const timestamp = new Date().toISOString();
+
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: [
+        {
+          Delete: {
+            TableName: TABLE_NAME,
+            Key: followRequestKey(targetUserId, requesterId),
+            ConditionExpression: 'attribute_exists(PK)', // Ensure the request is still pending
           },
-          ConditionExpression: 'attribute_exists(PK)', // Ensure follow exists
         },
-      },
-      {
-        Delete: {
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${followedUserId}`,
-            SK: `FOLLOWER#${followerId}`,
+        {
+          Delete: {
+            TableName: TABLE_NAME,
+            Key: referenceKey(requesterId, followRequestKey(targetUserId, requesterId)),
           },
         },
+        ...followTransactItems(requesterId, targetUserId, timestamp),
+      ],
+    }));
+
+    return timestamp;
+  }
+
+  /**
+   * Remove a pending request (denied by the target or cancelled by the requester)
+   */
+  static async deleteFollowRequest(targetUserId, requesterId) {
+    const key = followRequestKey(targetUserId, requesterId);
+
+    await docClient.send(new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: key,
+      ConditionExpression: 'attribute_exists(PK)', // Ensure the request is still pending
+    }));
+    await docClient.send(new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: referenceKey(requesterId, key),
+    }));
+  }
+
+  /**
+   * Get one page of the follow requests waiting for a user
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getFollowRequests(userId, page = {}) {
+    return queryPage({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'FOLLOW_REQUEST#',
       },
+    }, page);
+  }
+
+  /**
+   * Block a user. The block item, the follows between the two users in both
+   * directions, their counters and any pending follow requests are written in
+   * one transaction, so a block never leaves a half-removed follow behind.
+   *
+   * @returns {Promise<{createdAt: string, removedFollowing: boolean, removedFollower: boolean}>}
+   */
+  static async blockUser(blockerId, blockedUserId) {
+    const relationship = await FollowData.getRelationship(blockerId, blockedUserId);
+    const timestamp = new Date().toISOString();
+
+    const block = {
+      PK: `USER#${blockerId}`,
+      SK: `BLOCKS#${blockedUserId}`,
+      blockerId,
+      blockedUserId,
+      createdAt: timestamp,
+    };
+
+    const transactItems = [
       {
-        Update: {
+        Put: {
           TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${followerId}`,
-            SK: 'PROFILE',
-          },
-          UpdateExpression: 'ADD followingCount :dec',
-          ExpressionAttributeValues: {
-            ':dec': -1,
-          },
+          Item: block,
+          ConditionExpression: 'attribute_not_exists(PK)', // Prevent duplicate blocks
         },
       },
       {
-        Update: {
+        Put: {
           TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${followedUserId}`,
-            SK: 'PROFILE',
-          },
-          UpdateExpression: 'ADD followersCount :dec',
-          ExpressionAttributeValues: {
-            ':dec': -1,
-          },
+          Item: referenceItem(blockedUserId, block),
         },
       },
     ];
 
+    const blockerDeltas = {};
+    const blockedDeltas = {};
+
+    if (relationship.following) {
+      transactItems.push(...followEdgeDeletes(blockerId, blockedUserId));
+      blockerDeltas.followingCount = -1;
+      blockedDeltas.followersCount = -1;
+    }
+
+    if (relationship.followedBy) {
+      transactItems.push(...followEdgeDeletes(blockedUserId, blockerId));
+      blockedDeltas.followingCount = -1;
+      blockerDeltas.followersCount = -1;
+    }
+
+    if (relationship.following || relationship.followedBy) {
+      transactItems.push(
+        profileCounterUpdate(blockerId, blockerDeltas),
+        profileCounterUpdate(blockedUserId, blockedDeltas),
+      );
+    }
+
+    // Pending requests in either direction are dropped with their references;
+    // deleting a missing item is a no-op
+    const requests = [[blockedUserId, blockerId], [blockerId, blockedUserId]];
+    for (const [targetUserId, requesterId] of requests) {
+      const key = followRequestKey(targetUserId, requesterId);
+      transactItems.push(
+        { Delete: { TableName: TABLE_NAME, Key: key } },
+        { Delete: { TableName: TABLE_NAME, Key: referenceKey(requesterId, key) } },
+      );
+    }
+
     await docClient.send(new TransactWriteCommand({
       TransactItems: transactItems,
     }));
+
+    return {
+      createdAt: timestamp,
+      removedFollowing: relationship.following,
+      removedFollower: relationship.followedBy,
+    };
   }
 
   /**
-   * Get followers of a user
+   * Lift a block. Follows removed by the block are not restored.
    */
-  static async getFollowers(userId, limit = 20) {
-    const result = await docClient.send(new QueryCommand({
+  static async unblockUser(blockerId, blockedUserId) {
+    const key = { PK: `USER#${blockerId}`, SK: `BLOCKS#${blockedUserId}` };
+
+    await docClient.send(new DeleteCommand({
       TableName: TABLE_NAME,
+      Key: key,
+      ConditionExpression: 'attribute_exists(PK)', // Ensure the block exists
+    }));
+    await docClient.send(new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: referenceKey(blockedUserId, key),
+    }));
+  }
+
+  /**
+   * Check whether either user has blocked the other
+   */
+  static async isBlockedEitherWay(userId, otherUserId) {
+    if (userId === otherUserId) {
+      return false;
+    }
+
+    const items = await batchGet([
+      { PK: `USER#${userId}`, SK: `BLOCKS#${otherUserId}` },
+      { PK: `USER#${otherUserId}`, SK: `BLOCKS#${userId}` },
+    ]);
+    return items.length > 0;
+  }
+
+  /**
+   * Get one page of the users that a user has blocked
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getBlocks(userId, page = {}) {
+    return queryPage({
       KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
       ExpressionAttributeValues: {
         ':pk': `USER#${userId}`,
-        ':sk': 'FOLLOWER#',
+        ':sk': 'BLOCKS#',
       },
-      Limit: limit,
+    }, page);
+  }
+
+  /**
+   * Mute a user: their posts stay out of the muter's feed, but nothing else
+   * about the relationship changes and the muted user is not told
+   */
+  static async muteUser(muterId, mutedUserId) {
+    const mute = {
+      PK: `USER#${muterId}`,
+      SK: `MUTES#${mutedUserId}`,
+      muterId,
+      mutedUserId,
+      createdAt: new Date().toISOString(),
+    };
+
+    // The muted user's reference goes first, so the mute never lacks one
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: referenceItem(mutedUserId, mute),
+    }));
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: mute,
+      ConditionExpression: 'attribute_not_exists(PK)', // Prevent duplicate mutes
     }));
 
-    return result.Items || [];
+    return mute;
   }
 
   /**
-   * Get users that a user is following
+   * Lift a mute
    */
-  static async getFollowing(userId, limit = 20) {
-    const result = await docClient.send(new QueryCommand({
+  static async unmuteUser(muterId, mutedUserId) {
+    const key = { PK: `USER#${muterId}`, SK: `MUTES#${mutedUserId}` };
+
+    await docClient.send(new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: key,
+      ConditionExpression: 'attribute_exists(PK)', // Ensure the mute exists
+    }));
+    await docClient.send(new DeleteCommand({
       TableName: TABLE_NAME,
+      Key: referenceKey(mutedUserId, key),
+    }));
+  }
+
+  /**
+   * Get one page of the users that a user has muted
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getMutes(userId, page = {}) {
+    return queryPage({
       KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
       ExpressionAttributeValues: {
         ':pk': `USER#${userId}`,
-        ':sk': 'FOLLOWS#',
+        ':sk': 'MUTES#',
       },
-      Limit: limit,
-    }));
+    }, page);
+  }
+
+  /**
+   * Return the subset of authorIds whose posts the viewer should not see in
+   * their feed: authors the viewer blocked or muted, and authors who blocked
+   * the viewer. Looked up by key in one batch, so the cost follows the page
+   * size rather than the length of the viewer's block list.
+   */
+  static async getHiddenAuthorIds(viewerId, authorIds) {
+    const uniqueIds = [...new Set(authorIds)].filter(authorId => authorId !== viewerId);
+    if (uniqueIds.length === 0) {
+      return new Set();
+    }
+
+    const items = await batchGet(uniqueIds.flatMap(authorId => [
+      { PK: `USER#${viewerId}`, SK: `BLOCKS#${authorId}` },
+      { PK: `USER#${viewerId}`, SK: `MUTES#${authorId}` },
+      { PK: `USER#${authorId}`, SK: `BLOCKS#${viewerId}` },
+    ]));
 
-    return result.Items || [];
+    return new Set(items.map(item => item.SK.startsWith('MUTES#')
+      ? item.mutedUserId
+      : item.blockerId === viewerId ? item.blockedUserId : item.blockerId));
   }
-}
\ No newline at end of file
+}
@@ -1,10 +1,28 @@
 // Re-export all shared modules for easy importing
 export * from './clients.mjs';
+export * from './api-routes.mjs';
 export * from './responses.mjs';
+export * from './batch.mjs';
+export * from './pagination.mjs';
+export * from './references.mjs';
 export * from './events.mjs';
+export * from './event-catalog.mjs';
+export * from './stream-events.mjs';
 export * from './profile-data.mjs';
 export * from './post-data.mjs';
 export * from './like-data.mjs';
+export * from './comment-data.mjs';
 export * from './follow-data.mjs';
 export * from './feed-data.mjs';
-export * from './admin-data.mjs';
\ No newline at end of file
+export * from './feed-ranking.mjs';
+export * from './notification-data.mjs';
+export * from './search-data.mjs';
+export * from './admin-data.mjs';
+export * from './job-data.mjs';
+export * from './event-log-data.mjs';
+export * from './dead-letter-data.mjs';
+export * from './auth.mjs';
+export * from './auth-data.mjs';
+export * from './policies.mjs';
+export * from './visibility.mjs';
+
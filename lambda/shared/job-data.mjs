@@ -0,0 +1,103 @@
+import { GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLE_NAME } from './clients.mjs';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Progress records for background jobs too long for one invocation, stored as
+ * JOB#<type>#<id>/STATE.
+ *
+ * A job saves its phase and cursor after every step, so the next invocation
+ * resumes where the last one stopped. Starting a job again replaces the record
+ * with a new runId; a run still holding the old runId fails its next save and
+ * stops, leaving the newer run to finish the work.
+ */
+export class JobData {
+  /**
+   * Start (or restart) a job from its first phase
+   *
+   * @returns {Promise<object>} the job record
+   */
+  static async startJob(type, id, phase, params = {}) {
+    const timestamp = new Date().toISOString();
+    const job = {
+      type,
+      id,
+      runId: uuidv4(),
+      status: 'running',
+      phase,
+      cursor: null,
+      progress: {},
+      params,
+      startedAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: { PK: `JOB#${type}#${id}`, SK: 'STATE', ...job },
+    }));
+
+    return job;
+  }
+
+  /**
+   * Get a job record
+   */
+  static async getJob(type, id) {
+    const result = await docClient.send(new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: `JOB#${type}#${id}`, SK: 'STATE' },
+    }));
+    return result.Item;
+  }
+
+  /**
+   * Record a job's position. Returns false when the job has been restarted
+   * since this run began, in which case the caller should stop.
+   *
+   * @param {{phase?: string, cursor?: object|null, progress?: object, status?: string}} state
+   */
+  static async saveProgress(job, state) {
+    const next = { ...job, ...state, updatedAt: new Date().toISOString() };
+
+    try {
+      await docClient.send(new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: `JOB#${job.type}#${job.id}`, SK: 'STATE' },
+        UpdateExpression: 'SET #status = :status, phase = :phase, #cursor = :cursor, progress = :progress, updatedAt = :updatedAt',
+        ConditionExpression: 'runId = :runId',
+        ExpressionAttributeNames: { '#status': 'status', '#cursor': 'cursor' },
+        ExpressionAttributeValues: {
+          ':status': next.status,
+          ':phase': next.phase,
+          ':cursor': next.cursor ?? null,
+          ':progress': next.progress,
+          ':updatedAt': next.updatedAt,
+          ':runId': job.runId,
+        },
+      }));
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+      throw error;
+    }
+
+    Object.assign(job, next);
+    return true;
+  }
+
+  /**
+   * Mark a job finished
+   */
+  static async completeJob(job, progress = job.progress) {
+    return JobData.saveProgress(job, { status: 'completed', phase: 'done', cursor: null, progress });
+  }
+
+  /**
+   * Mark a job that nothing will carry on with, so it can be started again
+   */
+  static async failJob(job) {
+    return JobData.saveProgress(job, { status: 'failed' });
+  }
+}
@@ -1,5 +1,10 @@
-import { GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { GetCommand, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
 import { docClient, TABLE_NAME } from './clients.mjs';
+import { PostData } from './post-data.mjs';
+import { queryPage } from './pagination.mjs';
+
+// LIKED# items read when working out which authors a user engages with
+const MAX_LIKES_SCANNED = 500;
 
 /**
  * Like data access operations
@@ -120,4 +125,60 @@ export class LikeData {
       TransactItems: transactItems,
     }));
   }
-}
\ No newline at end of file
+
+  /**
+   * Get one page of a user's LIKED# items
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getUserLikes(userId, page = {}) {
+    return queryPage({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'LIKED#',
+      },
+    }, page);
+  }
+
+  /**
+   * Count the posts a user has liked per author, from their LIKED# items.
+   * Older LIKED# items predate `postAuthorId`; their posts are looked up.
+   *
+   * @returns {Promise<Map<string, number>>} authorId → likes by the user
+   */
+  static async getLikedAuthorCounts(userId) {
+    const liked = [];
+    let lastEvaluatedKey;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'LIKED#',
+        },
+        ProjectionExpression: 'postId, postAuthorId',
+        Limit: MAX_LIKES_SCANNED - liked.length,
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      liked.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey && liked.length < MAX_LIKES_SCANNED);
+
+    const unattributed = liked.filter(item => !item.postAuthorId).map(item => item.postId);
+    const posts = unattributed.length > 0 ? await PostData.getPostsByIds(unattributed) : new Map();
+
+    const counts = new Map();
+    for (const item of liked) {
+      const authorId = item.postAuthorId || posts.get(item.postId)?.userId;
+      if (authorId) {
+        counts.set(authorId, (counts.get(authorId) || 0) + 1);
+      }
+    }
+    return counts;
+  }
+}
@@ -0,0 +1,250 @@
+import { GetCommand, UpdateCommand, TransactWriteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { docClient, TABLE_NAME } from './clients.mjs';
+import { queryPage } from './pagination.mjs';
+import { batchGet } from './batch.mjs';
+
+// Concurrent events for the same group can race to create it; the loser retries once as an aggregate
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Notification data access operations.
+ *
+ * Everything for a recipient lives under the NOTIF#<userId> partition:
+ * - NOTIF#<notificationId> - the notification; IDs start with the creation
+ *   time in milliseconds so the sort key orders them chronologically
+ * - GROUP#<groupKey>       - points at the unread notification that new
+ *   events with the same group key are folded into ("Alex and 4 others
+ *   liked your post"). Removed when that notification is read, so later
+ *   events start a fresh one.
+ * - UNREAD                 - the unread notification counter
+ *
+ * Actors are kept in a string set, so a redelivered event does not count its
+ * actor twice.
+ */
+export class NotificationData {
+  /**
+   * Record that actorId did something the recipient should hear about,
+   * folding it into the unread notification for the same group if there is one
+   *
+   * @param {{userId: string, type: string, groupKey: string, actorId: string,
+   *   postId?: string, commentId?: string, preview?: string}} notification
+   * @returns {Promise<{notificationId: string, aggregated: boolean}>}
+   */
+  static async addNotification(notification) {
+    const { userId, groupKey, actorId } = notification;
+    const pointerKey = { PK: `NOTIF#${userId}`, SK: `GROUP#${groupKey}` };
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const timestamp = new Date().toISOString();
+      const pointer = (await docClient.send(new GetCommand({
+        TableName: TABLE_NAME,
+        Key: pointerKey,
+      }))).Item;
+
+      if (pointer) {
+        try {
+          await docClient.send(new UpdateCommand({
+            TableName: TABLE_NAME,
+            Key: { PK: `NOTIF#${userId}`, SK: `NOTIF#${pointer.notificationId}` },
+            UpdateExpression: 'ADD actorIds :actors SET latestActorId = :actor, updatedAt = :timestamp',
+            ConditionExpression: 'attribute_exists(PK) AND #read = :false', // Only fold into an unread notification
+            ExpressionAttributeNames: { '#read': 'read' },
+            ExpressionAttributeValues: {
+              ':actors': new Set([actorId]),
+              ':actor': actorId,
+              ':timestamp': timestamp,
+              ':false': false,
+            },
+          }));
+          return { notificationId: pointer.notificationId, aggregated: true };
+        } catch (error) {
+          if (error.name !== 'ConditionalCheckFailedException') {
+            throw error;
+          }
+          // The pointer is stale; replace it with a new notification below
+        }
+      }
+
+      const notificationId = `${Date.now()}-${uuidv4()}`;
+
+      try {
+        await docClient.send(new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: TABLE_NAME,
+                Item: {
+                  PK: `NOTIF#${userId}`,
+                  SK: `NOTIF#${notificationId}`,
+                  notificationId,
+                  userId,
+                  type: notification.type,
+                  groupKey,
+                  actorIds: new Set([actorId]),
+                  latestActorId: actorId,
+                  postId: notification.postId,
+                  commentId: notification.commentId,
+                  preview: notification.preview,
+                  read: false,
+                  createdAt: timestamp,
+                  updatedAt: timestamp,
+                },
+              },
+            },
+            {
+              Put: {
+                TableName: TABLE_NAME,
+                Item: { ...pointerKey, notificationId },
+                // Another event may have created the group since we looked
+                ConditionExpression: pointer
+                  ? 'notificationId = :stale'
+                  : 'attribute_not_exists(PK)',
+                ...(pointer && { ExpressionAttributeValues: { ':stale': pointer.notificationId } }),
+              },
+            },
+            {
+              Update: {
+                TableName: TABLE_NAME,
+                Key: { PK: `NOTIF#${userId}`, SK: 'UNREAD' },
+                UpdateExpression: 'ADD unreadCount :one',
+                ExpressionAttributeValues: { ':one': 1 },
+              },
+            },
+          ],
+        }));
+        return { notificationId, aggregated: false };
+      } catch (error) {
+        if (error.name !== 'TransactionCanceledException') {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`Could not record ${groupKey} notification for ${userId} after ${MAX_ATTEMPTS} attempts`);
+  }
+
+  /**
+   * Get one page of a user's notifications, newest first
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getNotifications(userId, page = {}) {
+    return queryPage({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `NOTIF#${userId}`,
+        ':sk': 'NOTIF#',
+      },
+      ScanIndexForward: false,
+    }, page);
+  }
+
+  /**
+   * Get how many of a user's notifications are unread
+   */
+  static async getUnreadCount(userId) {
+    const result = await docClient.send(new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: `NOTIF#${userId}`, SK: 'UNREAD' },
+    }));
+    return Math.max(0, result.Item?.unreadCount || 0);
+  }
+
+  /**
+   * Mark the given notifications read. Unknown and already-read IDs are skipped.
+   *
+   * @returns {Promise<number>} how many notifications changed to read
+   */
+  static async markRead(userId, notificationIds) {
+    const items = await batchGet([...new Set(notificationIds)].map(notificationId => ({
+      PK: `NOTIF#${userId}`,
+      SK: `NOTIF#${notificationId}`,
+    })));
+
+    return markItemsRead(userId, items.filter(item => !item.read));
+  }
+
+  /**
+   * Mark every unread notification read
+   *
+   * @returns {Promise<number>} how many notifications changed to read
+   */
+  static async markAllRead(userId) {
+    const unread = [];
+    let lastEvaluatedKey;
+
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: '#read = :false',
+        ExpressionAttributeNames: { '#read': 'read' },
+        ExpressionAttributeValues: {
+          ':pk': `NOTIF#${userId}`,
+          ':sk': 'NOTIF#',
+          ':false': false,
+        },
+        ProjectionExpression: 'notificationId, groupKey',
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+
+      unread.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    return markItemsRead(userId, unread);
+  }
+}
+
+/**
+ * Mark each notification read, release its group and decrement the counter
+ * in one transaction per notification. A notification that another request
+ * marked read first is skipped rather than counted twice.
+ */
+async function markItemsRead(userId, items) {
+  let marked = 0;
+
+  for (const item of items) {
+    try {
+      await docClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: { PK: `NOTIF#${userId}`, SK: `NOTIF#${item.notificationId}` },
+              UpdateExpression: 'SET #read = :true',
+              ConditionExpression: '#read = :false', // Ensure it is still unread
+              ExpressionAttributeNames: { '#read': 'read' },
+              ExpressionAttributeValues: { ':true': true, ':false': false },
+            },
+          },
+          {
+            Delete: {
+              TableName: TABLE_NAME,
+              Key: { PK: `NOTIF#${userId}`, SK: `GROUP#${item.groupKey}` },
+              ConditionExpression: 'attribute_not_exists(PK) OR notificationId = :notificationId',
+              ExpressionAttributeValues: { ':notificationId': item.notificationId },
+            },
+          },
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: { PK: `NOTIF#${userId}`, SK: 'UNREAD' },
+              UpdateExpression: 'ADD unreadCount :minusOne',
+              ExpressionAttributeValues: { ':minusOne': -1 },
+            },
+          },
+        ],
+      }));
+      marked++;
+    } catch (error) {
+      if (error.name !== 'TransactionCanceledException') {
+        throw error;
+      }
+    }
+  }
+
+  return marked;
+}
@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { docClient, secretsClient, TABLE_NAME, CURSOR_SECRET_ARN } from './clients.mjs';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Cursors are short-lived so a leaked one cannot be replayed indefinitely
+const CURSOR_TTL_MS = 24 * 60 * 60 * 1000;
+const CURSOR_VERSION = 1;
+
+// Module-level cache survives warm invocations
+let cursorKeyPromise;
+
+/**
+ * Load the cursor signing secret.
+ * CURSOR_SECRET (inline) takes precedence for local runs; deployed functions
+ * read it from Secrets Manager.
+ */
+async function loadCursorKey() {
+  if (process.env.CURSOR_SECRET) {
+    return process.env.CURSOR_SECRET;
+  }
+
+  if (!CURSOR_SECRET_ARN) {
+    throw new Error('No cursor secret configured');
+  }
+
+  const result = await secretsClient.send(new GetSecretValueCommand({
+    SecretId: CURSOR_SECRET_ARN,
+  }));
+
+  return result.SecretString;
+}
+
+/**
+ * Get the cursor signing secret (cached per container)
+ */
+function getCursorKey() {
+  if (!cursorKeyPromise) {
+    cursorKeyPromise = loadCursorKey().catch(error => {
+      cursorKeyPromise = undefined;
+      throw error;
+    });
+  }
+  return cursorKeyPromise;
+}
+
+const sign = (key, payload) => createHmac('sha256', key).update(payload).digest();
+
+function invalidCursor(reason) {
+  const error = new Error(`Invalid cursor: ${reason}`);
+  error.name = 'InvalidCursorError';
+  return error;
+}
+
+/**
+ * Turn a DynamoDB LastEvaluatedKey into an opaque, signed cursor.
+ * The scope ties the cursor to one list (e.g. `feed:<userId>`) so it cannot
+ * be replayed against another.
+ *
+ * @returns {Promise<string|null>} null when there are no more pages
+ */
+export async function encodeCursor(lastEvaluatedKey, scope) {
+  if (!lastEvaluatedKey) {
+    return null;
+  }
+
+  const payload = Buffer.from(JSON.stringify({
+    v: CURSOR_VERSION,
+    s: scope,
+    k: lastEvaluatedKey,
+    t: Date.now(),
+  })).toString('base64url');
+
+  const signature = sign(await getCursorKey(), payload).toString('base64url');
+  return `${payload}.${signature}`;
+}
+
+/**
+ * Verify a cursor and return the ExclusiveStartKey it carries.
+ * Throws an error named InvalidCursorError for malformed, tampered, expired
+ * or foreign cursors.
+ */
+export async function decodeCursor(cursor, scope) {
+  const [payload, signature, ...rest] = String(cursor).split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw invalidCursor('malformed');
+  }
+
+  const expected = sign(await getCursorKey(), payload);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw invalidCursor('signature mismatch');
+  }
+
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw invalidCursor('malformed');
+  }
+
+  if (decoded.v !== CURSOR_VERSION || decoded.s !== scope || !decoded.k || typeof decoded.t !== 'number') {
+    throw invalidCursor('not valid for this list');
+  }
+
+  if (Date.now() - decoded.t > CURSOR_TTL_MS) {
+    throw invalidCursor('expired');
+  }
+
+  return decoded.k;
+}
+
+/**
+ * Whether an error came from decodeCursor
+ */
+export const isInvalidCursorError = (error) => error?.name === 'InvalidCursorError';
+
+/**
+ * Read `limit` and `cursor` from the query string of an API Gateway event
+ *
+ * @returns {Promise<{limit: number, startKey: object|undefined}>}
+ */
+export async function getPageRequest(event, scope, { defaultLimit = DEFAULT_PAGE_SIZE, maxLimit = MAX_PAGE_SIZE } = {}) {
+  const { limit, cursor } = event.queryStringParameters || {};
+
+  const requestedLimit = parseInt(limit || defaultLimit, 10);
+  const pageSize = Math.min(Math.max(requestedLimit || defaultLimit, 1), maxLimit);
+
+  return {
+    limit: pageSize,
+    startKey: cursor ? await decodeCursor(cursor, scope) : undefined,
+  };
+}
+
+/**
+ * Run one page of a query
+ *
+ * @param {object} params - QueryCommand input without TableName, Limit or ExclusiveStartKey
+ * @param {{limit?: number, startKey?: object}} page
+ * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+ */
+export async function queryPage(params, { limit = DEFAULT_PAGE_SIZE, startKey } = {}) {
+  const result = await docClient.send(new QueryCommand({
+    TableName: TABLE_NAME,
+    ...params,
+    Limit: limit,
+    ExclusiveStartKey: startKey,
+  }));
+
+  return {
+    items: result.Items || [],
+    lastEvaluatedKey: result.LastEvaluatedKey,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Authorization policies
+ *
+ * Every rule takes the caller resolved by getCallerIdentity() and answers
+ * whether they may perform an action. Handlers turn a denial into a 403 with
+ * createForbiddenError(). Admins may act on any resource.
+ */
+
+export const ROLES = {
+  USER: 'user',
+  ADMIN: 'admin',
+};
+
+/**
+ * Check whether the caller has the admin role
+ */
+export function isAdmin(caller) {
+  return caller?.role === ROLES.ADMIN;
+}
+
+/**
+ * Check whether the caller may act on behalf of the given user
+ */
+export function canActAsUser(caller, userId) {
+  if (!caller?.userId || !userId) {
+    return false;
+  }
+  return caller.userId === userId || isAdmin(caller);
+}
+
+/**
+ * Check whether a request naming who acts (the author, follower, liker...)
+ * may come from the caller. Those actions are always taken as the caller,
+ * admins included, so the request may leave the actor out or repeat the
+ * caller's id but never name anyone else.
+ */
+function namesCallerAsActor(caller, actorId) {
+  if (!caller?.userId) {
+    return false;
+  }
+  return actorId === undefined || actorId === caller.userId;
+}
+
+/**
+ * Check whether the caller may edit a profile
+ */
+export function canEditProfile(caller, profileUserId) {
+  return canActAsUser(caller, profileUserId);
+}
+
+/**
+ * Check whether the caller may publish a post naming the given author
+ */
+export function canCreatePost(caller, authorId) {
+  return namesCallerAsActor(caller, authorId);
+}
+
+/**
+ * Check whether the caller may edit a post
+ */
+export function canEditPost(caller, post) {
+  return canActAsUser(caller, post?.userId);
+}
+
+/**
+ * Check whether the caller may delete a post
+ */
+export function canDeletePost(caller, post) {
+  return canActAsUser(caller, post?.userId);
+}
+
+/**
+ * Check whether the caller may follow or unfollow naming the given follower
+ */
+export function canFollow(caller, followerId) {
+  return namesCallerAsActor(caller, followerId);
+}
+
+/**
+ * Check whether the caller may see a user's posts and connections.
+ * Private accounts only show them to approved followers.
+ */
+export function canViewUserContent(caller, profile, isApprovedFollower) {
+  return !profile?.isPrivate || isApprovedFollower === true || canActAsUser(caller, profile.userId);
+}
+
+/**
+ * Check whether the caller may list, approve or deny a user's follow requests
+ */
+export function canManageFollowRequests(caller, userId) {
+  return canActAsUser(caller, userId);
+}
+
+/**
+ * Check whether the caller may view or change a user's blocked and muted lists
+ */
+export function canManageBlocks(caller, userId) {
+  return canActAsUser(caller, userId);
+}
+
+/**
+ * Check whether the caller may read a user's notifications or mark them read
+ */
+export function canManageNotifications(caller, userId) {
+  return canActAsUser(caller, userId);
+}
+
+/**
+ * Check whether the caller may see how a user relates to others.
+ * Block state is private to the user, so only they (or an admin) may ask.
+ */
+export function canViewRelationship(caller, userId) {
+  return canActAsUser(caller, userId);
+}
+
+/**
+ * Check whether the caller may like or unlike naming the given user
+ */
+export function canLikePost(caller, userId) {
+  return namesCallerAsActor(caller, userId);
+}
+
+/**
+ * Check whether the caller may comment naming the given user
+ */
+export function canCreateComment(caller, userId) {
+  return namesCallerAsActor(caller, userId);
+}
+
+/**
+ * Check whether the caller may delete a comment.
+ * Post authors may moderate comments on their own posts.
+ */
+export function canDeleteComment(caller, comment, post) {
+  return canActAsUser(caller, comment?.userId) || canActAsUser(caller, post?.userId);
+}
+
+/**
+ * Check whether the caller may upload images naming the given user
+ */
+export function canUploadImage(caller, userId) {
+  return namesCallerAsActor(caller, userId);
+}
+
+/**
+ * Check whether the caller may use administrative operations
+ */
+export function canAdminister(caller) {
+  return isAdmin(caller);
+}
@@ -1,7 +1,22 @@
-import { GetCommand, PutCommand, TransactWriteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { GetCommand, PutCommand, TransactWriteCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { docClient, TABLE_NAME } from './clients.mjs';
+import { batchDeleteKeys, batchGet } from './batch.mjs';
+import { queryPage } from './pagination.mjs';
+import { referenceKey } from './references.mjs';
+import { commentIdKey } from './comment-data.mjs';
 import { v4 as uuidv4 } from 'uuid';
 
+// Index items were historically keyed with a separate clock read; allow for drift
+const INDEX_KEY_SKEW_MS = 1000;
+
+// Author field rewrites sent at once
+const AUTHOR_UPDATE_CONCURRENCY = 25;
+
+/**
+ * Sort key for a post revision, zero-padded so revisions sort numerically
+ */
+const revisionKey = (revision) => `REVISION#${String(revision).padStart(6, '0')}`;
+
 /**
  * Post data access operations
  */
@@ -20,13 +35,27 @@ export class PostData {
     return result.Item;
   }
 
+  /**
+   * Get many posts at once
+   *
+   * @returns {Promise<Map<string, object>>} keyed by postId; missing posts are absent
+   */
+  static async getPostsByIds(postIds) {
+    const posts = await batchGet([...new Set(postIds)].map(postId => ({
+      PK: `POST#${postId}`,
+      SK: 'METADATA',
+    })));
+
+    return new Map(posts.map(post => [post.postId, post]));
+  }
+
   /**
    * Create a new post with atomic transaction
    */
   static async createPost({ userId, content, imageUrl, userProfile }) {
     const postId = uuidv4();
-    const timestamp = new Date().toISOString();
     const timestampMs = Date.now();
+    const timestamp = new Date(timestampMs).toISOString();
 
     const post = {
       postId,
@@ -92,21 +121,69 @@ export class PostData {
   }
 
   /**
-   * Get posts by user ID
+   * Get one page of a user's post index items, newest first
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
    */
-  static async getUserPosts(userId, limit = 20) {
-    const result = await docClient.send(new QueryCommand({
-      TableName: TABLE_NAME,
+  static async getUserPosts(userId, page = {}) {
+    return queryPage({
       KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
       ExpressionAttributeValues: {
         ':pk': `USER#${userId}`,
         ':sk': 'POST#',
       },
       ScanIndexForward: false, // Sort by timestamp descending
-      Limit: limit,
-    }));
+    }, page);
+  }
 
-    return result.Items || [];
+  /**
+   * Rewrite the author fields copied onto one page of a user's posts
+   *
+   * @param {{displayName: string, avatar: string}} author
+   * @param {{limit?: number, startKey?: object}} page - a page of the user's post index
+   * @returns {Promise<{updated: number, lastEvaluatedKey: object|undefined}>}
+   */
+  static async updateAuthorOnPosts(userId, author, page = {}) {
+    const { items, lastEvaluatedKey } = await PostData.getUserPosts(userId, page);
+    const updated = await PostData.updateAuthorFields(
+      items.map(item => ({ PK: `POST#${item.postId}`, SK: 'METADATA' })),
+      author,
+    );
+    return { updated, lastEvaluatedKey };
+  }
+
+  /**
+   * Overwrite the author's display name and avatar on copies of their posts
+   * (post metadata or feed items). Usernames cannot change, so are left alone.
+   * Items deleted meanwhile are skipped rather than recreated.
+   *
+   * @param {Array<{PK: string, SK: string}>} keys
+   * @returns {Promise<number>} items updated
+   */
+  static async updateAuthorFields(keys, author) {
+    let updated = 0;
+
+    for (let i = 0; i < keys.length; i += AUTHOR_UPDATE_CONCURRENCY) {
+      const results = await Promise.all(keys.slice(i, i + AUTHOR_UPDATE_CONCURRENCY).map(key =>
+        docClient.send(new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: { PK: key.PK, SK: key.SK },
+          UpdateExpression: 'SET displayName = :displayName, avatar = :avatar',
+          ConditionExpression: 'attribute_exists(PK)',
+          ExpressionAttributeValues: {
+            ':displayName': author.displayName,
+            ':avatar': author.avatar || '',
+          },
+        })).then(() => true, error => {
+          if (error.name !== 'ConditionalCheckFailedException') throw error;
+          return false;
+        })));
+
+      updated += results.filter(Boolean).length;
+    }
+
+    return updated;
   }
 
   /**
@@ -127,24 +204,149 @@ export class PostData {
   }
 
   /**
-   * Delete a post (admin function)
+   * Find the USER#<userId>/POST#<ts>#<postId> index item for a post
    */
-  static async deletePost(postId, userId) {
+  static async getUserPostIndexKey(post) {
+    const createdMs = Date.parse(post.createdAt);
+    const result = await docClient.send(new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+      FilterExpression: 'postId = :postId',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${post.userId}`,
+        ':from': `POST#${createdMs - INDEX_KEY_SKEW_MS}`,
+        ':to': `POST#${createdMs + INDEX_KEY_SKEW_MS}`,
+        ':postId': post.postId,
+      },
+      ProjectionExpression: 'PK, SK',
+    }));
+
+    return result.Items?.[0];
+  }
+
+  /**
+   * Get one page of the revision history of a post, newest first
+   *
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array, lastEvaluatedKey: object|undefined}>}
+   */
+  static async getRevisions(postId, page = {}) {
+    return queryPage({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `POST#${postId}`,
+        ':sk': 'REVISION#',
+      },
+      ScanIndexForward: false,
+    }, page);
+  }
+
+  /**
+   * Edit a post, keeping the previous content as POST#<id>/REVISION#<n>.
+   * The revision counter doubles as an optimistic lock so concurrent edits
+   * cannot overwrite each other's history.
+   */
+  static async updatePost(post, { content, imageUrl }, editorId) {
+    const editedAt = new Date().toISOString();
+    const revision = (post.revisionCount || 0) + 1;
+    const indexKey = await this.getUserPostIndexKey(post);
+    const nextImageUrl = imageUrl !== undefined ? imageUrl : (post.imageUrl || '');
+
+    const transactItems = [
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: {
+            PK: `POST#${post.postId}`,
+            SK: revisionKey(revision),
+            postId: post.postId,
+            revision,
+            content: post.content,
+            imageUrl: post.imageUrl || '',
+            createdAt: post.editedAt || post.createdAt,
+            replacedAt: editedAt,
+            editedBy: editorId,
+          },
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+      {
+        Update: {
+          TableName: TABLE_NAME,
+          Key: {
+            PK: `POST#${post.postId}`,
+            SK: 'METADATA',
+          },
+          UpdateExpression: 'SET content = :content, imageUrl = :imageUrl, editedAt = :editedAt, updatedAt = :editedAt, revisionCount = :revision',
+          ConditionExpression: revision === 1
+            ? 'attribute_exists(PK) AND attribute_not_exists(revisionCount)'
+            : 'attribute_exists(PK) AND revisionCount = :previousRevision',
+          ExpressionAttributeValues: {
+            ':content': content,
+            ':imageUrl': nextImageUrl,
+            ':editedAt': editedAt,
+            ':revision': revision,
+            ...(revision > 1 && { ':previousRevision': revision - 1 }),
+          },
+        },
+      },
+    ];
+
+    if (indexKey) {
+      transactItems.push({
+        Update: {
+          TableName: TABLE_NAME,
+          Key: indexKey,
+          UpdateExpression: 'SET content = :content, imageUrl = :imageUrl, editedAt = :editedAt',
+          ExpressionAttributeValues: {
+            ':content': content,
+            ':imageUrl': nextImageUrl,
+            ':editedAt': editedAt,
+          },
+        },
+      });
+    }
+
+    await docClient.send(new TransactWriteCommand({
+      TransactItems: transactItems,
+    }));
+
+    return {
+      ...post,
+      content,
+      imageUrl: nextImageUrl,
+      editedAt,
+      updatedAt: editedAt,
+      revisionCount: revision,
+    };
+  }
+
+  /**
+   * Delete a post, its USER# index item and everything stored under the post
+   * (revisions, comments, likes, the likers' LIKED# items and the commenters'
+   * references).
+   * Followers' feed copies are removed by the feed processor on the Post
+   * Deleted event.
+   */
+  static async deletePost(post) {
+    const indexKey = await this.getUserPostIndexKey(post);
+
     const transactItems = [
       {
         Delete: {
           TableName: TABLE_NAME,
           Key: {
-            PK: `POST#${postId}`,
+            PK: `POST#${post.postId}`,
             SK: 'METADATA',
           },
+          ConditionExpression: 'attribute_exists(PK)',
         },
       },
       {
         Update: {
           TableName: TABLE_NAME,
           Key: {
-            PK: `USER#${userId}`,
+            PK: `USER#${post.userId}`,
             SK: 'PROFILE',
           },
           UpdateExpression: 'ADD postsCount :dec',
@@ -155,8 +357,44 @@ export class PostData {
       },
     ];
 
+    if (indexKey) {
+      transactItems.push({
+        Delete: {
+          TableName: TABLE_NAME,
+          Key: indexKey,
+        },
+      });
+    }
+
     await docClient.send(new TransactWriteCommand({
       TransactItems: transactItems,
     }));
+
+    // The post is gone; remove its children so nothing is left orphaned
+    const children = [];
+    let lastEvaluatedKey;
+    do {
+      const result = await docClient.send(new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk',
+        ExpressionAttributeValues: {
+          ':pk': `POST#${post.postId}`,
+        },
+        ExclusiveStartKey: lastEvaluatedKey,
+      }));
+      children.push(...(result.Items || []));
+      lastEvaluatedKey = result.LastEvaluatedKey;
+    } while (lastEvaluatedKey);
+
+    const likedKeys = children
+      .filter(item => item.SK.startsWith('LIKE#'))
+      .map(item => ({ PK: `USER#${item.userId}`, SK: `LIKED#${post.postId}` }));
+    const commenterKeys = children
+      .filter(item => item.SK.startsWith('COMMENT#'))
+      .map(item => referenceKey(item.userId, commentIdKey(post.postId, item.commentId)));
+
+    const { written, unprocessed } = await batchDeleteKeys([...children, ...likedKeys, ...commenterKeys]);
+
+    return { deletedItems: written + 1, unprocessed: unprocessed.length };
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,6 @@
 import { GetCommand, PutCommand, UpdateCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
 import { docClient, TABLE_NAME } from './clients.mjs';
+import { batchGet } from './batch.mjs';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -20,6 +21,21 @@ export class ProfileData {
     return result.Item;
   }
 
+  /**
+   * Get public profile data for many users at once
+   *
+   * @returns {Promise<Map<string, object>>} keyed by userId; unknown users are absent
+   */
+  static async getPublicProfiles(userIds) {
+    const uniqueIds = [...new Set(userIds)];
+    const profiles = await batchGet(uniqueIds.map(userId => ({
+      PK: `USER#${userId}`,
+      SK: 'PROFILE',
+    })));
+
+    return new Map(profiles.map(profile => [profile.userId, ProfileData.getPublicProfile(profile)]));
+  }
+
   /**
    * Get a profile by username using GSI
    */
@@ -40,9 +56,24 @@ export class ProfileData {
    * Create a new profile
    */
   static async createProfile(profileData) {
+    const profile = ProfileData.buildProfileItem(profileData);
+
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: profile,
+      ConditionExpression: 'attribute_not_exists(PK)',
+    }));
+
+    return profile;
+  }
+
+  /**
+   * Build a new profile item with default counters
+   */
+  static buildProfileItem(profileData) {
     const userId = profileData.userId || uuidv4();
     const timestamp = new Date().toISOString();
-    const profile = {
+    return {
       PK: `USER#${userId}`,
       SK: 'PROFILE',
       userId: userId,
@@ -59,14 +90,6 @@ export class ProfileData {
       createdAt: timestamp,
       updatedAt: timestamp,
     };
-
-    await docClient.send(new PutCommand({
-      TableName: TABLE_NAME,
-      Item: profile,
-      ConditionExpression: 'attribute_not_exists(PK)',
-    }));
-
-    return profile;
   }
 
   /**
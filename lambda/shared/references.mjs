@@ -0,0 +1,42 @@
+/**
+ * Pointers to items that name a user but live in other partitions: their
+ * comments on other people's posts, follow requests they sent, and other
+ * users' blocks and mutes of them. Each is kept in the user's own partition
+ * as USER#<userId>/REF#<PK>#<SK> with the key of the item it points at, so
+ * deleting the user can query for them.
+ *
+ * A pointer is written in the same transaction as its item, or before it,
+ * and removed with it or after it, so an item never exists without one. A
+ * pointer may outlive its item; readers skip those.
+ */
+
+export const REFERENCE_PREFIX = 'REF#';
+
+export const referenceKey = (userId, key) => ({
+  PK: `USER#${userId}`,
+  SK: `${REFERENCE_PREFIX}${key.PK}#${key.SK}`,
+});
+
+/**
+ * The pointer item for `key`, with any attributes its reader needs
+ */
+export const referenceItem = (userId, key, attributes = {}) => ({
+  ...referenceKey(userId, key),
+  ref: { PK: key.PK, SK: key.SK },
+  ...attributes,
+});
+
+// Items in one user's partition that another user holds the reference to,
+// with that user's ID after the prefix
+const REFERENCED_SK_PREFIXES = ['FOLLOW_REQUEST#', 'BLOCKS#', 'MUTES#'];
+
+/**
+ * The key of the reference another user holds to an item in a USER#
+ * partition, or undefined if nobody does
+ */
+export function heldReferenceKey(key) {
+  const prefix = REFERENCED_SK_PREFIXES.find(candidate => key.SK.startsWith(candidate));
+  return prefix && key.PK.startsWith('USER#')
+    ? referenceKey(key.SK.slice(prefix.length), key)
+    : undefined;
+}
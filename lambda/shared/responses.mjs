@@ -41,6 +41,20 @@ export function createValidationError(message) {
   return createErrorResponse(message, 400);
 }
 
+/**
+ * Create an unauthorized error response
+ */
+export function createUnauthorizedError(message = 'Authentication required') {
+  return createErrorResponse(message, 401);
+}
+
+/**
+ * Create a forbidden error response
+ */
+export function createForbiddenError(message = 'You do not have permission to perform this action') {
+  return createErrorResponse(message, 403);
+}
+
 /**
  * Create a not found error response
  */
@@ -56,9 +70,14 @@ export function createConflictError(message) {
 }
 
 /**
- * Handle OPTIONS preflight requests
+ * Handle OPTIONS preflight requests.
+ * When given an event, returns null unless it is a preflight request.
  */
-export function handleOptionsRequest() {
+export function handleOptionsRequest(event) {
+  if (event && event.httpMethod !== 'OPTIONS') {
+    return null;
+  }
+
   return {
     statusCode: 200,
     headers: CORS_HEADERS,
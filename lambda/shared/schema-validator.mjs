@@ -0,0 +1,272 @@
+/**
+ * Validators built from the declarations in schemas.mjs
+ *
+ * The declarations are JSON Schema: type (or a list of types), properties,
+ * required, items, oneOf, enum, const, default, minLength, maxLength,
+ * pattern, format (email, url or date-time), minimum, maximum, minItems,
+ * maxItems and minProperties. minProperties counts the declared properties
+ * that are present. A few keywords of our own say what JSON Schema cannot:
+ *
+ *   label          - the name messages use for the field, e.g. 'Display name'
+ *   message        - the message when a pattern or rule does not hold
+ *   trim           - whitespace-only strings count as empty
+ *   emptyAsMissing - an empty string is treated as the field being left out
+ *   allowEmpty     - an empty string is accepted, e.g. to clear a field
+ *   rules          - checks across an object's fields:
+ *                    { check: 'different' | 'ordered', fields: [a, b], message }
+ *
+ * scripts/generate-schemas.mjs turns the same declarations into the
+ * frontends' Zod schemas, with the messages below, so both ends accept the
+ * same requests and report the same errors.
+ */
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isUrl = (value) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isTimestamp = (value) => !Number.isNaN(Date.parse(value));
+
+const FORMATS = {
+  email: (value) => EMAIL_PATTERN.test(value),
+  url: isUrl,
+  'date-time': isTimestamp,
+};
+
+const FORMAT_MESSAGES = {
+  email: (label) => `${label} must be a valid email address`,
+  url: (label) => `${label} must be a valid URL`,
+  'date-time': (label) => `${label} must be an ISO 8601 timestamp`,
+};
+
+const types = (definition) => [definition.type].flat();
+
+const describeNumber = ({ type, minimum, maximum }) => {
+  const kind = type === 'integer' ? 'an integer' : 'a number';
+  if (minimum !== undefined && maximum !== undefined) return `${kind} between ${minimum} and ${maximum}`;
+  if (minimum === 0) return `a non-negative ${kind.replace(/^an? /, '')}`;
+  if (minimum !== undefined) return `${kind} of at least ${minimum}`;
+  return kind;
+};
+
+/**
+ * The messages for a field's checks, by keyword
+ *
+ * @param {object} definition - the field's schema
+ * @param {string} label - what the messages call the field
+ * @param {boolean} required - whether the field is in its object's `required`
+ */
+export function fieldMessages(definition, label, required) {
+  const type = types(definition).find(name => name !== 'null');
+  const whenProvided = required ? '' : ' when provided';
+
+  switch (type) {
+    case 'string':
+      return {
+        type: required ? `${label} is required` : `${label} cannot be empty`,
+        minLength: definition.minLength > 1
+          ? `${label} must be at least ${definition.minLength} characters`
+          : (required ? `${label} is required` : `${label} cannot be empty`),
+        maxLength: `${label} must be ${definition.maxLength} characters or less`,
+        format: definition.message ?? FORMAT_MESSAGES[definition.format]?.(label),
+        pattern: definition.message ?? `${label} is not valid`,
+        enum: `${label} must be one of: ${definition.enum?.join(', ')}`,
+        const: `${label} must be ${definition.const}`,
+      };
+    case 'number':
+    case 'integer':
+      return { type: `${label} must be ${describeNumber({ ...definition, type })}` };
+    case 'boolean':
+      return { type: `${label} must be true or false` };
+    case 'array':
+      return {
+        type: definition.minItems ? `${label} must be a non-empty array${whenProvided}` : `${label} must be an array${whenProvided}`,
+        minItems: definition.minItems > 1
+          ? `${label} must have at least ${definition.minItems} items`
+          : `${label} must be a non-empty array${whenProvided}`,
+        maxItems: `${label} must have at most ${definition.maxItems} items`,
+      };
+    default:
+      return { type: required ? `${label} is required` : `${label} must be an object` };
+  }
+}
+
+/**
+ * What messages call a field: its label, or else its name
+ */
+export const fieldLabel = (definition, name) => definition.label ?? name;
+
+/**
+ * What messages call the items of an array field
+ */
+export const itemLabel = (definition, label) => definition.items.label ?? `${label} item`;
+
+/**
+ * Whether a field counts as given
+ */
+export const isGiven = (definition, value) =>
+  value !== undefined && !(definition.emptyAsMissing && value === '');
+
+const typeOf = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const hasType = (definition, value) => {
+  const actual = typeOf(value);
+  const allowed = types(definition);
+  return allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+};
+
+function checkValue(definition, value, label, required, errors) {
+  if (definition.oneOf) {
+    const matches = definition.oneOf.some(branch => {
+      const branchErrors = [];
+      checkValue(branch, value, label, required, branchErrors);
+      return branchErrors.length === 0;
+    });
+    if (!matches) {
+      errors.push(`${label} is not valid`);
+    }
+    return;
+  }
+
+  const messages = fieldMessages(definition, label, required);
+  if (!hasType(definition, value)) {
+    errors.push(messages.type);
+    return;
+  }
+
+  switch (typeOf(value)) {
+    case 'string':
+      checkString(definition, value, messages, errors);
+      break;
+    case 'integer':
+    case 'number':
+      if ((definition.minimum !== undefined && value < definition.minimum)
+        || (definition.maximum !== undefined && value > definition.maximum)) {
+        errors.push(messages.type);
+      }
+      break;
+    case 'array':
+      checkArray(definition, value, label, messages, errors);
+      break;
+    case 'object':
+      if (definition.properties) {
+        const objectErrors = checkObject(definition, value);
+        if (objectErrors.length) {
+          errors.push(`${label}: ${objectErrors.join(', ')}`);
+        }
+      }
+      break;
+  }
+}
+
+function checkString(definition, value, messages, errors) {
+  if (definition.allowEmpty && value === '') return;
+
+  const length = (definition.trim ? value.trim() : value).length;
+
+  if (definition.minLength !== undefined && length < definition.minLength) {
+    errors.push(messages.minLength);
+    return;
+  }
+  if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+    errors.push(messages.maxLength);
+  }
+
+  if (definition.enum && !definition.enum.includes(value)) {
+    errors.push(messages.enum);
+  }
+  if (definition.const !== undefined && value !== definition.const) {
+    errors.push(messages.const);
+  }
+  if (definition.pattern && !new RegExp(definition.pattern).test(value)) {
+    errors.push(messages.pattern);
+  }
+  if (definition.format && FORMATS[definition.format] && !FORMATS[definition.format](value)) {
+    errors.push(messages.format);
+  }
+}
+
+function checkArray(definition, value, label, messages, errors) {
+  if (definition.minItems !== undefined && value.length < definition.minItems) {
+    errors.push(messages.minItems);
+    return;
+  }
+  if (definition.maxItems !== undefined && value.length > definition.maxItems) {
+    errors.push(messages.maxItems);
+  }
+
+  if (definition.items) {
+    const items = itemLabel(definition, label);
+    value.forEach((item, index) => {
+      checkValue(definition.items, item, `${items} ${index}`, false, errors);
+    });
+  }
+}
+
+const RULES = {
+  different: (a, b) => a === undefined || b === undefined || a !== b,
+  ordered: (a, b) => !isTimestamp(a) || !isTimestamp(b) || Date.parse(a) <= Date.parse(b),
+};
+
+/**
+ * Whether an object passes a rule from its schema's `rules`
+ */
+export const passesRule = ({ check, fields: [a, b] }, data) => RULES[check](data[a], data[b]);
+
+function checkObject(schema, data) {
+  const errors = [];
+  const properties = Object.entries(schema.properties ?? {});
+
+  if (schema.minProperties
+    && properties.filter(([name, property]) => isGiven(property, data[name])).length < schema.minProperties) {
+    errors.push(`At least one of ${properties.map(([name]) => name).join(', ')} must be provided`);
+  }
+
+  for (const [name, property] of properties) {
+    const required = schema.required?.includes(name) ?? false;
+    const label = fieldLabel(property, name);
+
+    if (!isGiven(property, data[name])) {
+      if (required) {
+        errors.push(fieldMessages(property, label, true).type);
+      }
+      continue;
+    }
+    checkValue(property, data[name], label, required, errors);
+  }
+
+  for (const rule of schema.rules ?? []) {
+    if (!passesRule(rule, data)) {
+      errors.push(rule.message);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build a validator for an object schema
+ *
+ * @param {object} schema - a declaration from schemas.mjs
+ * @returns {(data: object) => {isValid: boolean, errors: string[]}}
+ */
+export function createValidator(schema) {
+  return (data) => {
+    const errors = checkObject(schema, data ?? {});
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  };
+}
@@ -1,12 +1,46 @@
 /**
- * Shared validation schemas for profile data
+ * Shared schemas for the API's requests and responses
  *
- * Used by both client (web-ui-vite) and server (lambda functions).
- * This ensures consistent validation across the entire stack.
+ * The one place the API's rules are declared: the handlers validate with the
+ * validate* functions built from them here, scripts/generate-openapi.mjs
+ * documents them, and scripts/generate-schemas.mjs writes them out as Zod for
+ * web-ui and web-ui-vite. See schema-validator.mjs for the keywords.
  */
 
-// Note: Using Zod-like validation structure that can be consumed by both ESM and TypeScript
-// For now, this is a simple structure that can be expanded to use Zod when lambda supports it
+import { createValidator } from './schema-validator.mjs';
+
+/**
+ * Pagination schemas
+ */
+
+/**
+ * Opaque signed cursor for the next page; null on the last page
+ */
+export const NextCursorSchema = { type: ['string', 'null'], minLength: 1, label: 'Cursor' };
+
+/**
+ * List query parameters accepted by every paginated endpoint
+ */
+export const PaginationQuerySchema = {
+  type: 'object',
+  properties: {
+    limit: { type: 'integer', minimum: 1, maximum: 100 },
+    cursor: { type: 'string', minLength: 1 }
+  }
+};
+
+/**
+ * Error response schema - what createErrorResponse returns; details are the
+ * validation failures, one message or a list of them
+ */
+export const ErrorResponseSchema = {
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: { type: 'string', minLength: 1 },
+    details: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] }
+  }
+};
 
 /**
  * Profile request validation schema
@@ -15,35 +49,11 @@ export const CreateProfileRequestSchema = {
   type: 'object',
   required: ['username', 'email', 'displayName'],
   properties: {
-    username: {
-      type: 'string',
-      minLength: 1,
-      maxLength: 50,
-      message: 'Username is required and must be 1-50 characters'
-    },
-    email: {
-      type: 'string',
-      format: 'email',
-      message: 'Invalid email format'
-    },
-    displayName: {
-      type: 'string',
-      minLength: 1,
-      maxLength: 100,
-      message: 'Display name is required and must be 1-100 characters'
-    },
-    bio: {
-      type: 'string',
-      maxLength: 500,
-      optional: true,
-      message: 'Bio must be 500 characters or less'
-    },
-    avatar: {
-      type: 'string',
-      format: 'url',
-      optional: true,
-      message: 'Avatar must be a valid URL'
-    }
+    username: { type: 'string', minLength: 1, maxLength: 50, label: 'Username' },
+    email: { type: 'string', minLength: 1, format: 'email', label: 'Email' },
+    displayName: { type: 'string', minLength: 1, maxLength: 100, label: 'Display name' },
+    bio: { type: 'string', maxLength: 500, label: 'Bio', emptyAsMissing: true },
+    avatar: { type: 'string', format: 'url', label: 'Avatar', emptyAsMissing: true }
   }
 };
 
@@ -63,9 +73,9 @@ export const ProfileResponseSchema = {
     displayName: { type: 'string', minLength: 1, maxLength: 100 },
     bio: { type: 'string', maxLength: 500 },
     avatar: { type: 'string' },
-    followersCount: { type: 'number', minimum: 0 },
-    followingCount: { type: 'number', minimum: 0 },
-    postsCount: { type: 'number', minimum: 0 },
+    followersCount: { type: 'integer', minimum: 0 },
+    followingCount: { type: 'integer', minimum: 0 },
+    postsCount: { type: 'integer', minimum: 0 },
     isVerified: { type: 'boolean' },
     isPrivate: { type: 'boolean' },
     createdAt: { type: 'string', format: 'date-time' }
@@ -73,65 +83,29 @@ export const ProfileResponseSchema = {
 };
 
 /**
- * Simple validation function for create profile request
+ * Validate create profile requests
  */
-export function validateCreateProfileRequest(data) {
-  const errors = [];
-
-  if (!data.username || typeof data.username !== 'string' || data.username.length === 0) {
-    errors.push('Username is required');
-  }
-  if (data.username && data.username.length > 50) {
-    errors.push('Username must be 50 characters or less');
-  }
-
-  if (!data.email || typeof data.email !== 'string') {
-    errors.push('Email is required');
-  }
-  if (data.email && !isValidEmail(data.email)) {
-    errors.push('Invalid email format');
-  }
-
-  if (!data.displayName || typeof data.displayName !== 'string' || data.displayName.length === 0) {
-    errors.push('Display name is required');
-  }
-  if (data.displayName && data.displayName.length > 100) {
-    errors.push('Display name must be 100 characters or less');
-  }
-
-  if (data.bio && data.bio.length > 500) {
-    errors.push('Bio must be 500 characters or less');
-  }
-
-  if (data.avatar && data.avatar !== '' && !isValidUrl(data.avatar)) {
-    errors.push('Avatar must be a valid URL');
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
-}
+export const validateCreateProfileRequest = createValidator(CreateProfileRequestSchema);
 
 /**
- * Helper function to validate email format
+ * Update profile request schema - at least one field is required
  */
-function isValidEmail(email) {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-}
+export const UpdateProfileRequestSchema = {
+  type: 'object',
+  minProperties: 1,
+  properties: {
+    displayName: { type: 'string', minLength: 1, maxLength: 100, trim: true, label: 'Display name' },
+    bio: { type: 'string', maxLength: 500, label: 'Bio' },
+    // An empty avatar removes it
+    avatar: { type: 'string', format: 'url', label: 'Avatar', allowEmpty: true },
+    isPrivate: { type: 'boolean' }
+  }
+};
 
 /**
- * Helper function to validate URL format
+ * Validate update profile requests
  */
-function isValidUrl(string) {
-  try {
-    new URL(string);
-    return true;
-  } catch (_) {
-    return false;
-  }
-}
+export const validateUpdateProfileRequest = createValidator(UpdateProfileRequestSchema);
 
 /**
  * Create a clean profile response object
@@ -163,23 +137,9 @@ export const CreatePostRequestSchema = {
   type: 'object',
   required: ['userId', 'content'],
   properties: {
-    userId: {
-      type: 'string',
-      minLength: 1,
-      message: 'User ID is required'
-    },
-    content: {
-      type: 'string',
-      minLength: 1,
-      maxLength: 2000,
-      message: 'Content is required and must be 1-2000 characters'
-    },
-    imageUrl: {
-      type: 'string',
-      format: 'url',
-      optional: true,
-      message: 'Image URL must be a valid URL'
-    }
+    userId: { type: 'string', minLength: 1, label: 'User ID' },
+    content: { type: 'string', minLength: 1, maxLength: 2000, label: 'Content' },
+    imageUrl: { type: 'string', format: 'url', label: 'Image URL', emptyAsMissing: true }
   }
 };
 
@@ -200,38 +160,80 @@ export const PostResponseSchema = {
     avatar: { type: 'string' },
     content: { type: 'string', minLength: 1, maxLength: 2000 },
     imageUrl: { type: 'string' },
-    likesCount: { type: 'number', minimum: 0 },
-    commentsCount: { type: 'number', minimum: 0 },
-    createdAt: { type: 'string', format: 'date-time' }
+    likesCount: { type: 'integer', minimum: 0 },
+    commentsCount: { type: 'integer', minimum: 0 },
+    createdAt: { type: 'string', format: 'date-time' },
+    editedAt: { type: 'string', format: 'date-time' },
+    revisionCount: { type: 'integer', minimum: 0 }
   }
 };
 
 /**
- * Simple validation function for create post request
+ * Get user posts response schema
  */
-export function validateCreatePostRequest(data) {
-  const errors = [];
-
-  if (!data.userId || typeof data.userId !== 'string' || data.userId.length === 0) {
-    errors.push('User ID is required');
+export const GetUserPostsResponseSchema = {
+  type: 'object',
+  required: ['posts', 'userId', 'nextCursor'],
+  properties: {
+    posts: {
+      type: 'array',
+      items: PostResponseSchema
+    },
+    userId: { type: 'string', minLength: 1 },
+    nextCursor: NextCursorSchema
   }
+};
 
-  if (!data.content || typeof data.content !== 'string' || data.content.length === 0) {
-    errors.push('Content is required');
+/**
+ * Update post request schema - at least one field is required
+ */
+export const UpdatePostRequestSchema = {
+  type: 'object',
+  minProperties: 1,
+  properties: {
+    content: { type: 'string', minLength: 1, maxLength: 2000, trim: true, label: 'Content' },
+    // An empty imageUrl removes the image
+    imageUrl: { type: 'string', format: 'url', label: 'Image URL', allowEmpty: true }
   }
-  if (data.content && data.content.length > 2000) {
-    errors.push('Content must be 2000 characters or less');
+};
+
+/**
+ * Post revision response schema - a previous version of an edited post
+ */
+export const PostRevisionResponseSchema = {
+  type: 'object',
+  required: ['revision', 'content', 'createdAt', 'replacedAt'],
+  properties: {
+    revision: { type: 'integer', minimum: 1 },
+    content: { type: 'string' },
+    imageUrl: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    replacedAt: { type: 'string', format: 'date-time' }
   }
+};
 
-  if (data.imageUrl && data.imageUrl !== '' && !isValidUrl(data.imageUrl)) {
-    errors.push('Image URL must be a valid URL');
+/**
+ * Get post revisions response schema
+ */
+export const GetPostRevisionsResponseSchema = {
+  type: 'object',
+  required: ['postId', 'revisions', 'nextCursor'],
+  properties: {
+    postId: { type: 'string', minLength: 1 },
+    revisions: { type: 'array', items: PostRevisionResponseSchema },
+    nextCursor: NextCursorSchema
   }
+};
 
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
-}
+/**
+ * Validate create post requests
+ */
+export const validateCreatePostRequest = createValidator(CreatePostRequestSchema);
+
+/**
+ * Validate update post requests
+ */
+export const validateUpdatePostRequest = createValidator(UpdatePostRequestSchema);
 
 /**
  * Create a clean post response object
@@ -248,6 +250,35 @@ export function createPostResponse(post) {
     likesCount: post.likesCount || 0,
     commentsCount: post.commentsCount || 0,
     createdAt: post.createdAt,
+    ...(post.editedAt && { editedAt: post.editedAt, revisionCount: post.revisionCount || 0 }),
+  };
+}
+
+/**
+ * Create a clean user posts page response object
+ */
+export function createUserPostsResponse(posts, userId, nextCursor = null) {
+  return {
+    posts: posts.map(createPostResponse),
+    userId: userId,
+    nextCursor,
+  };
+}
+
+/**
+ * Create a post revisions page response object
+ */
+export function createPostRevisionsResponse(revisionItems, postId, nextCursor = null) {
+  return {
+    postId,
+    revisions: revisionItems.map(item => ({
+      revision: item.revision,
+      content: item.content,
+      imageUrl: item.imageUrl || '',
+      createdAt: item.createdAt,
+      replacedAt: item.replacedAt,
+    })),
+    nextCursor,
   };
 }
 
@@ -260,145 +291,72 @@ export function createPostResponse(post) {
  */
 export const FeedItemSchema = {
   type: 'object',
+  label: 'Feed item',
   required: [
     'postId', 'userId', 'username', 'displayName', 'content',
     'likesCount', 'commentsCount', 'createdAt', 'feedTimestamp'
   ],
   properties: {
-    postId: { type: 'string', minLength: 1 },
-    userId: { type: 'string', minLength: 1 },
-    username: { type: 'string', minLength: 1, maxLength: 50 },
-    displayName: { type: 'string', minLength: 1, maxLength: 100 },
+    postId: { type: 'string', minLength: 1, label: 'Post ID' },
+    userId: { type: 'string', minLength: 1, label: 'User ID' },
+    username: { type: 'string', minLength: 1, maxLength: 50, label: 'Username' },
+    displayName: { type: 'string', minLength: 1, maxLength: 100, label: 'Display name' },
     avatar: { type: 'string' },
-    content: { type: 'string', minLength: 1, maxLength: 2000 },
+    content: { type: 'string', minLength: 1, maxLength: 2000, label: 'Content' },
     imageUrl: { type: 'string' },
-    likesCount: { type: 'number', minimum: 0 },
-    commentsCount: { type: 'number', minimum: 0 },
-    createdAt: { type: 'string', format: 'date-time' },
-    feedTimestamp: { type: 'number', minimum: 0 }
+    likesCount: { type: 'integer', minimum: 0, label: 'Likes count' },
+    commentsCount: { type: 'integer', minimum: 0, label: 'Comments count' },
+    createdAt: { type: 'string', format: 'date-time', label: 'Created at' },
+    feedTimestamp: { type: 'integer', minimum: 0, label: 'Feed timestamp' },
+    editedAt: { type: 'string', format: 'date-time', label: 'Edited at' }
   }
 };
 
 /**
- * Get feed response schema
+ * Feed orderings: newest first, or scored by recency, author affinity and engagement
  */
-export const GetFeedResponseSchema = {
+export const FEED_MODES = ['chronological', 'ranked'];
+
+export const FeedModeSchema = { type: 'string', enum: FEED_MODES, label: 'Feed mode' };
+
+/**
+ * Get feed query schema
+ */
+export const GetFeedQuerySchema = {
   type: 'object',
-  required: ['feedItems', 'userId'],
   properties: {
-    feedItems: {
-      type: 'array',
-      items: FeedItemSchema
-    },
-    userId: { type: 'string', minLength: 1 }
+    mode: { ...FeedModeSchema, default: 'chronological' },
+    limit: PaginationQuerySchema.properties.limit,
+    cursor: PaginationQuerySchema.properties.cursor
   }
 };
 
 /**
- * Create feed items request schema
+ * Get feed response schema
  */
-export const CreateFeedItemsRequestSchema = {
+export const GetFeedResponseSchema = {
   type: 'object',
-  required: ['feedItems'],
+  required: ['feedItems', 'userId', 'mode', 'nextCursor'],
   properties: {
     feedItems: {
       type: 'array',
-      minItems: 1,
-      maxItems: 25, // DynamoDB batch write limit
       items: FeedItemSchema
-    }
+    },
+    userId: { type: 'string', minLength: 1 },
+    mode: FeedModeSchema,
+    nextCursor: NextCursorSchema
   }
 };
 
 /**
- * Simple validation function for feed item
+ * Validate feed items
  */
-export function validateFeedItem(data) {
-  const errors = [];
-
-  if (!data.postId || typeof data.postId !== 'string' || data.postId.length === 0) {
-    errors.push('Post ID is required');
-  }
-
-  if (!data.userId || typeof data.userId !== 'string' || data.userId.length === 0) {
-    errors.push('User ID is required');
-  }
-
-  if (!data.username || typeof data.username !== 'string' || data.username.length === 0) {
-    errors.push('Username is required');
-  }
-  if (data.username && data.username.length > 50) {
-    errors.push('Username must be 50 characters or less');
-  }
-
-  if (!data.displayName || typeof data.displayName !== 'string' || data.displayName.length === 0) {
-    errors.push('Display name is required');
-  }
-  if (data.displayName && data.displayName.length > 100) {
-    errors.push('Display name must be 100 characters or less');
-  }
-
-  if (!data.content || typeof data.content !== 'string' || data.content.length === 0) {
-    errors.push('Content is required');
-  }
-  if (data.content && data.content.length > 2000) {
-    errors.push('Content must be 2000 characters or less');
-  }
-
-  if (typeof data.likesCount !== 'number' || data.likesCount < 0) {
-    errors.push('Likes count must be a non-negative number');
-  }
-
-  if (typeof data.commentsCount !== 'number' || data.commentsCount < 0) {
-    errors.push('Comments count must be a non-negative number');
-  }
-
-  if (!data.createdAt || typeof data.createdAt !== 'string') {
-    errors.push('Created at timestamp is required');
-  }
-
-  if (typeof data.feedTimestamp !== 'number' || data.feedTimestamp < 0) {
-    errors.push('Feed timestamp must be a non-negative number');
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
-}
+export const validateFeedItem = createValidator(FeedItemSchema);
 
 /**
- * Simple validation function for create feed items request
+ * Validate get feed query parameters
  */
-export function validateCreateFeedItemsRequest(data) {
-  const errors = [];
-
-  if (!data.feedItems || !Array.isArray(data.feedItems)) {
-    errors.push('Feed items must be an array');
-    return { isValid: false, errors };
-  }
-
-  if (data.feedItems.length === 0) {
-    errors.push('At least one feed item is required');
-  }
-
-  if (data.feedItems.length > 25) {
-    errors.push('Maximum 25 feed items allowed per request');
-  }
-
-  // Validate each feed item
-  data.feedItems.forEach((item, index) => {
-    const itemValidation = validateFeedItem(item);
-    if (!itemValidation.isValid) {
-      errors.push(`Feed item ${index}: ${itemValidation.errors.join(', ')}`);
-    }
-  });
-
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
-}
+export const validateGetFeedQuery = createValidator(GetFeedQuerySchema);
 
 /**
  * Create a clean feed item response object
@@ -416,16 +374,19 @@ export function createFeedItemResponse(feedItem) {
     commentsCount: feedItem.commentsCount || 0,
     createdAt: feedItem.createdAt,
     feedTimestamp: feedItem.feedTimestamp,
+    ...(feedItem.editedAt && { editedAt: feedItem.editedAt }),
   };
 }
 
 /**
  * Create a clean feed response object
  */
-export function createFeedResponse(feedItems, userId) {
+export function createFeedResponse(feedItems, userId, nextCursor = null, mode = 'chronological') {
   return {
     feedItems: feedItems.map(createFeedItemResponse),
     userId: userId,
+    mode,
+    nextCursor,
   };
 }
 
@@ -440,8 +401,8 @@ export const LikePostRequestSchema = {
   type: 'object',
   required: ['userId', 'postId'],
   properties: {
-    userId: { type: 'string', minLength: 1 },
-    postId: { type: 'string', minLength: 1 }
+    userId: { type: 'string', minLength: 1, label: 'User ID' },
+    postId: { type: 'string', minLength: 1, label: 'Post ID' }
   }
 };
 
@@ -458,7 +419,7 @@ export const LikeStatusResponseSchema = {
   required: ['isLiked', 'likesCount', 'postId', 'userId'],
   properties: {
     isLiked: { type: 'boolean' },
-    likesCount: { type: 'number', minimum: 0 },
+    likesCount: { type: 'integer', minimum: 0 },
     postId: { type: 'string', minLength: 1 },
     userId: { type: 'string', minLength: 1 }
   }
@@ -473,29 +434,14 @@ export const LikeActionResponseSchema = {
   properties: {
     success: { type: 'boolean' },
     message: { type: 'string', minLength: 1 },
-    likesCount: { type: 'number', minimum: 0 }
+    likesCount: { type: 'integer', minimum: 0 }
   }
 };
 
 /**
- * Simple validation function for like/unlike requests
+ * Validate like/unlike requests
  */
-export function validateLikeRequest(data) {
-  const errors = [];
-
-  if (!data.userId || typeof data.userId !== 'string' || data.userId.length === 0) {
-    errors.push('User ID is required');
-  }
-
-  if (!data.postId || typeof data.postId !== 'string' || data.postId.length === 0) {
-    errors.push('Post ID is required');
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
-}
+export const validateLikeRequest = createValidator(LikePostRequestSchema);
 
 /**
  * Create a clean like status response object
@@ -521,159 +467,522 @@ export function createLikeActionResponse(isLiked, likesCount) {
 }
 
 /**
- * Social domain schemas and validation
+ * Comments domain schemas and validation
  */
 
 /**
- * Follow request schema
+ * Create comment request schema
  */
-export const FollowRequestSchema = {
+export const CreateCommentRequestSchema = {
   type: 'object',
-  required: ['followerId', 'followedUserId'],
+  required: ['postId', 'userId', 'content'],
   properties: {
-    followerId: { type: 'string', minLength: 1 },
-    followedUserId: { type: 'string', minLength: 1 }
+    postId: { type: 'string', minLength: 1, label: 'Post ID' },
+    userId: { type: 'string', minLength: 1, label: 'User ID' },
+    content: { type: 'string', minLength: 1, maxLength: 1000, trim: true, label: 'Content' },
+    parentCommentId: { type: 'string', minLength: 1, label: 'Parent comment ID' }
   }
 };
 
 /**
- * Unfollow request schema (same as follow)
- */
-export const UnfollowRequestSchema = FollowRequestSchema;
-
-/**
- * Follow status response schema
+ * Comment response schema - replies are only present on top-level comments
  */
-export const FollowStatusResponseSchema = {
+export const CommentResponseSchema = {
   type: 'object',
-  required: ['isFollowing', 'followerId', 'followedUserId'],
+  required: ['commentId', 'postId', 'userId', 'username', 'displayName', 'content', 'createdAt'],
   properties: {
-    isFollowing: { type: 'boolean' },
-    followerId: { type: 'string', minLength: 1 },
-    followedUserId: { type: 'string', minLength: 1 }
+    commentId: { type: 'string', minLength: 1 },
+    postId: { type: 'string', minLength: 1 },
+    userId: { type: 'string', minLength: 1 },
+    username: { type: 'string', minLength: 1, maxLength: 50 },
+    displayName: { type: 'string', minLength: 1, maxLength: 100 },
+    avatar: { type: 'string' },
+    content: { type: 'string', minLength: 1, maxLength: 1000 },
+    parentCommentId: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    replies: { type: 'array', items: { type: 'object' } }
   }
 };
 
 /**
- * Follow action response schema (for follow/unfollow operations)
+ * List comments response schema
  */
-export const FollowActionResponseSchema = {
+export const ListCommentsResponseSchema = {
   type: 'object',
-  required: ['message', 'followerId', 'followedUserId', 'createdAt'],
+  required: ['comments', 'postId', 'count', 'nextCursor'],
   properties: {
-    message: { type: 'string', minLength: 1 },
-    followerId: { type: 'string', minLength: 1 },
-    followedUserId: { type: 'string', minLength: 1 },
-    createdAt: { type: 'string', format: 'date-time' }
+    comments: { type: 'array', items: CommentResponseSchema },
+    postId: { type: 'string', minLength: 1 },
+    count: { type: 'integer', minimum: 0 },
+    nextCursor: NextCursorSchema
   }
 };
 
 /**
- * Simple validation function for follow/unfollow requests
+ * Validate create comment requests
  */
-export function validateFollowRequest(data) {
-  const errors = [];
-
-  if (!data.followerId || typeof data.followerId !== 'string' || data.followerId.length === 0) {
-    errors.push('Follower ID is required');
-  }
-
-  if (!data.followedUserId || typeof data.followedUserId !== 'string' || data.followedUserId.length === 0) {
-    errors.push('Followed user ID is required');
-  }
-
-  if (data.followerId === data.followedUserId) {
-    errors.push('Cannot follow yourself');
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
-}
+export const validateCreateCommentRequest = createValidator(CreateCommentRequestSchema);
 
 /**
- * Create a clean follow status response object
+ * Create a clean comment response object
  */
-export function createFollowStatusResponse(followItem, followerId, followedUserId) {
+export function createCommentResponse(comment) {
   return {
-    isFollowing: !!followItem,
-    followerId: followerId,
-    followedUserId: followedUserId,
+    commentId: comment.commentId,
+    postId: comment.postId,
+    userId: comment.userId,
+    username: comment.username,
+    displayName: comment.displayName,
+    avatar: comment.avatar || '',
+    content: comment.content,
+    ...(comment.parentCommentId && { parentCommentId: comment.parentCommentId }),
+    createdAt: comment.createdAt,
   };
 }
 
 /**
- * Create a clean follow action response object
+ * Group a page of comment items into threads of top-level comments with
+ * their replies
  */
-export function createFollowActionResponse(isFollow, followerId, followedUserId, timestamp) {
+export function createCommentsResponse(commentItems, postId, nextCursor = null) {
+  const threads = [];
+  const threadsById = new Map();
+
+  for (const item of commentItems) {
+    const comment = createCommentResponse(item);
+
+    if (!comment.parentCommentId) {
+      const thread = { ...comment, replies: [] };
+      threads.push(thread);
+      threadsById.set(comment.commentId, thread);
+    } else {
+      threadsById.get(comment.parentCommentId)?.replies.push(comment);
+    }
+  }
+
   return {
-    message: isFollow ? 'Successfully followed user' : 'Successfully unfollowed user',
-    followerId: followerId,
-    followedUserId: followedUserId,
-    createdAt: timestamp,
+    comments: threads,
+    postId,
+    count: commentItems.length,
+    nextCursor,
   };
 }
 
 /**
- * Images domain schemas and validation
+ * Social domain schemas and validation
  */
 
 /**
- * Upload URL request schema
+ * Follow request schema
  */
-export const UploadUrlRequestSchema = {
+export const FollowRequestSchema = {
   type: 'object',
-  required: ['fileName', 'fileType', 'userId'],
+  required: ['followerId', 'followedUserId'],
   properties: {
-    fileName: { type: 'string', minLength: 1 },
-    fileType: { type: 'string', minLength: 1, pattern: '^image\/' },
-    userId: { type: 'string', minLength: 1 }
-  }
+    followerId: { type: 'string', minLength: 1, label: 'Follower ID' },
+    followedUserId: { type: 'string', minLength: 1, label: 'Followed user ID' }
+  },
+  rules: [{ check: 'different', fields: ['followerId', 'followedUserId'], message: 'Cannot follow yourself' }]
 };
 
 /**
- * Upload URL response schema
+ * Unfollow request schema (same as follow)
  */
-export const UploadUrlResponseSchema = {
+export const UnfollowRequestSchema = FollowRequestSchema;
+
+/**
+ * Follow status response schema
+ */
+export const FollowStatusResponseSchema = {
   type: 'object',
-  required: ['uploadUrl', 'imageUrl', 'key', 'fileName'],
+  required: ['isFollowing', 'isRequested', 'followerId', 'followedUserId'],
   properties: {
-    uploadUrl: { type: 'string', minLength: 1 },
-    imageUrl: { type: 'string', minLength: 1 },
-    key: { type: 'string', minLength: 1 },
-    fileName: { type: 'string', minLength: 1 }
+    isFollowing: { type: 'boolean' },
+    // A follow request to a private account is waiting for approval
+    isRequested: { type: 'boolean' },
+    followerId: { type: 'string', minLength: 1 },
+    followedUserId: { type: 'string', minLength: 1 }
   }
 };
 
 /**
- * Simple validation function for upload URL requests
+ * Follow action response schema (for follow/unfollow operations)
  */
-export function validateUploadUrlRequest(data) {
-  const errors = [];
-
-  if (!data.fileName || typeof data.fileName !== 'string' || data.fileName.length === 0) {
-    errors.push('File name is required');
-  }
-
-  if (!data.fileType || typeof data.fileType !== 'string' || data.fileType.length === 0) {
-    errors.push('File type is required');
-  }
-
-  if (data.fileType && !data.fileType.startsWith('image/')) {
-    errors.push('Only image files are allowed');
-  }
-
-  if (!data.userId || typeof data.userId !== 'string' || data.userId.length === 0) {
-    errors.push('User ID is required');
+export const FollowActionResponseSchema = {
+  type: 'object',
+  required: ['message', 'status', 'followerId', 'followedUserId', 'createdAt'],
+  properties: {
+    message: { type: 'string', minLength: 1 },
+    status: { type: 'string', enum: ['following', 'requested', 'unfollowed', 'cancelled'] },
+    followerId: { type: 'string', minLength: 1 },
+    followedUserId: { type: 'string', minLength: 1 },
+    createdAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+/**
+ * Follow list entry schema (one follower or followed user)
+ */
+export const FollowListEntrySchema = {
+  type: 'object',
+  required: ['userId', 'followedAt', 'profile'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    followedAt: { type: 'string', format: 'date-time' },
+    // null when the profile no longer exists
+    profile: { oneOf: [ProfileResponseSchema, { type: 'null' }] }
+  }
+};
+
+/**
+ * Get followers response schema
+ */
+export const GetFollowersResponseSchema = {
+  type: 'object',
+  required: ['userId', 'followers', 'count', 'nextCursor'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    followers: {
+      type: 'array',
+      items: FollowListEntrySchema
+    },
+    count: { type: 'integer', minimum: 0 },
+    nextCursor: NextCursorSchema
+  }
+};
+
+/**
+ * Get following response schema
+ */
+export const GetFollowingResponseSchema = {
+  type: 'object',
+  required: ['userId', 'following', 'count', 'nextCursor'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    following: {
+      type: 'array',
+      items: FollowListEntrySchema
+    },
+    count: { type: 'integer', minimum: 0 },
+    nextCursor: NextCursorSchema
+  }
+};
+
+/**
+ * Relationship response schema - how userId relates to otherUserId
+ */
+export const RelationshipResponseSchema = {
+  type: 'object',
+  required: ['userId', 'otherUserId', 'following', 'followedBy', 'mutual', 'blocked', 'blockedBy', 'requested', 'muted'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    otherUserId: { type: 'string', minLength: 1 },
+    following: { type: 'boolean' },
+    followedBy: { type: 'boolean' },
+    mutual: { type: 'boolean' },
+    blocked: { type: 'boolean' },
+    blockedBy: { type: 'boolean' },
+    // userId has asked to follow otherUserId and is waiting for approval
+    requested: { type: 'boolean' },
+    // userId has hidden otherUserId's posts from their feed
+    muted: { type: 'boolean' }
+  }
+};
+
+/**
+ * Follow request entry schema (one pending request to a private account)
+ */
+export const FollowRequestEntrySchema = {
+  type: 'object',
+  required: ['requesterId', 'requestedAt', 'profile'],
+  properties: {
+    requesterId: { type: 'string', minLength: 1 },
+    requestedAt: { type: 'string', format: 'date-time' },
+    // null when the profile no longer exists
+    profile: { oneOf: [ProfileResponseSchema, { type: 'null' }] }
+  }
+};
+
+/**
+ * Get follow requests response schema
+ */
+export const GetFollowRequestsResponseSchema = {
+  type: 'object',
+  required: ['userId', 'requests', 'count', 'nextCursor'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    requests: {
+      type: 'array',
+      items: FollowRequestEntrySchema
+    },
+    count: { type: 'integer', minimum: 0 },
+    nextCursor: NextCursorSchema
+  }
+};
+
+/**
+ * Follow request decision response schema (approve/deny)
+ */
+export const FollowRequestDecisionResponseSchema = {
+  type: 'object',
+  required: ['message', 'decision', 'userId', 'requesterId', 'timestamp'],
+  properties: {
+    message: { type: 'string', minLength: 1 },
+    decision: { type: 'string', enum: ['approved', 'denied'] },
+    userId: { type: 'string', minLength: 1 },
+    requesterId: { type: 'string', minLength: 1 },
+    timestamp: { type: 'string', format: 'date-time' }
+  }
+};
+
+/**
+ * Block/mute action response schema
+ */
+export const BlockActionResponseSchema = {
+  type: 'object',
+  required: ['message', 'status', 'userId', 'targetUserId', 'timestamp'],
+  properties: {
+    message: { type: 'string', minLength: 1 },
+    status: { type: 'string', enum: ['blocked', 'unblocked', 'muted', 'unmuted'] },
+    userId: { type: 'string', minLength: 1 },
+    targetUserId: { type: 'string', minLength: 1 },
+    timestamp: { type: 'string', format: 'date-time' }
+  }
+};
+
+/**
+ * Block list entry schema (one blocked or muted user)
+ */
+export const BlockListEntrySchema = {
+  type: 'object',
+  required: ['userId', 'since', 'profile'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    since: { type: 'string', format: 'date-time' },
+    // null when the profile no longer exists
+    profile: { oneOf: [ProfileResponseSchema, { type: 'null' }] }
+  }
+};
+
+/**
+ * Get blocked or muted users response schema
+ */
+export const GetBlockListResponseSchema = {
+  type: 'object',
+  required: ['userId', 'list', 'users', 'count', 'nextCursor'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    list: { type: 'string', enum: ['blocks', 'mutes'] },
+    users: {
+      type: 'array',
+      items: BlockListEntrySchema
+    },
+    count: { type: 'integer', minimum: 0 },
+    nextCursor: NextCursorSchema
   }
+};
+
+/**
+ * Validate follow/unfollow requests
+ */
+export const validateFollowRequest = createValidator(FollowRequestSchema);
 
+/**
+ * Create a clean follow status response object
+ */
+export function createFollowStatusResponse(followItem, followerId, followedUserId, requestItem = null) {
   return {
-    isValid: errors.length === 0,
-    errors
+    isFollowing: !!followItem,
+    isRequested: !!requestItem,
+    followerId: followerId,
+    followedUserId: followedUserId,
   };
 }
 
+const FOLLOW_ACTION_MESSAGES = {
+  following: 'Successfully followed user',
+  requested: 'Follow request sent',
+  unfollowed: 'Successfully unfollowed user',
+  cancelled: 'Follow request cancelled',
+};
+
+/**
+ * Create a clean follow action response object
+ */
+export function createFollowActionResponse(status, followerId, followedUserId, timestamp) {
+  return {
+    message: FOLLOW_ACTION_MESSAGES[status],
+    status,
+    followerId: followerId,
+    followedUserId: followedUserId,
+    createdAt: timestamp,
+  };
+}
+
+/**
+ * Create a follow list entry, hydrated from a map of public profiles
+ */
+function createFollowListEntry(userId, followedAt, profiles) {
+  const profile = profiles.get(userId);
+  return {
+    userId,
+    followedAt,
+    profile: profile ? createProfileResponse(profile) : null,
+  };
+}
+
+/**
+ * Create a clean followers page response object
+ */
+export function createFollowersResponse(followerItems, userId, nextCursor = null, profiles = new Map()) {
+  return {
+    userId: userId,
+    followers: followerItems.map(item => createFollowListEntry(item.followerId, item.createdAt, profiles)),
+    count: followerItems.length,
+    nextCursor,
+  };
+}
+
+/**
+ * Create a clean following page response object
+ */
+export function createFollowingResponse(followingItems, userId, nextCursor = null, profiles = new Map()) {
+  return {
+    userId: userId,
+    following: followingItems.map(item => createFollowListEntry(item.followedUserId, item.createdAt, profiles)),
+    count: followingItems.length,
+    nextCursor,
+  };
+}
+
+/**
+ * Create a clean relationship response object
+ */
+export function createRelationshipResponse(userId, otherUserId, relationship) {
+  return {
+    userId,
+    otherUserId,
+    following: relationship.following,
+    followedBy: relationship.followedBy,
+    mutual: relationship.mutual,
+    blocked: relationship.blocked,
+    blockedBy: relationship.blockedBy,
+    requested: relationship.requested,
+    muted: relationship.muted,
+  };
+}
+
+/**
+ * Create a clean follow requests page response object
+ */
+export function createFollowRequestsResponse(requestItems, userId, nextCursor = null, profiles = new Map()) {
+  return {
+    userId,
+    requests: requestItems.map(item => {
+      const profile = profiles.get(item.requesterId);
+      return {
+        requesterId: item.requesterId,
+        requestedAt: item.createdAt,
+        profile: profile ? createProfileResponse(profile) : null,
+      };
+    }),
+    count: requestItems.length,
+    nextCursor,
+  };
+}
+
+/**
+ * Create a clean follow request decision response object
+ */
+export function createFollowRequestDecisionResponse(approved, userId, requesterId, timestamp) {
+  return {
+    message: approved ? 'Follow request approved' : 'Follow request denied',
+    decision: approved ? 'approved' : 'denied',
+    userId,
+    requesterId,
+    timestamp,
+  };
+}
+
+const BLOCK_ACTION_MESSAGES = {
+  blocked: 'User blocked',
+  unblocked: 'User unblocked',
+  muted: 'User muted',
+  unmuted: 'User unmuted',
+};
+
+/**
+ * Create a clean block/mute action response object
+ */
+export function createBlockActionResponse(status, userId, targetUserId, timestamp) {
+  return {
+    message: BLOCK_ACTION_MESSAGES[status],
+    status,
+    userId,
+    targetUserId,
+    timestamp,
+  };
+}
+
+/**
+ * Create a clean blocked or muted users page response object
+ *
+ * @param {'blocks'|'mutes'} list
+ */
+export function createBlockListResponse(list, items, userId, nextCursor = null, profiles = new Map()) {
+  return {
+    userId,
+    list,
+    users: items.map(item => {
+      const targetUserId = list === 'blocks' ? item.blockedUserId : item.mutedUserId;
+      const profile = profiles.get(targetUserId);
+      return {
+        userId: targetUserId,
+        since: item.createdAt,
+        profile: profile ? createProfileResponse(profile) : null,
+      };
+    }),
+    count: items.length,
+    nextCursor,
+  };
+}
+
+/**
+ * Images domain schemas and validation
+ */
+
+/**
+ * Upload URL request schema
+ */
+export const UploadUrlRequestSchema = {
+  type: 'object',
+  required: ['fileName', 'fileType', 'userId'],
+  properties: {
+    fileName: { type: 'string', minLength: 1, label: 'File name' },
+    fileType: { type: 'string', minLength: 1, pattern: '^image/', label: 'File type', message: 'Only image files are allowed' },
+    userId: { type: 'string', minLength: 1, label: 'User ID' }
+  }
+};
+
+/**
+ * Upload URL response schema
+ */
+export const UploadUrlResponseSchema = {
+  type: 'object',
+  required: ['uploadUrl', 'imageUrl', 'key', 'fileName'],
+  properties: {
+    uploadUrl: { type: 'string', minLength: 1 },
+    imageUrl: { type: 'string', minLength: 1 },
+    key: { type: 'string', minLength: 1 },
+    fileName: { type: 'string', minLength: 1 }
+  }
+};
+
+/**
+ * Validate upload URL requests
+ */
+export const validateUploadUrlRequest = createValidator(UploadUrlRequestSchema);
+
 /**
  * Create a clean upload URL response object
  */
@@ -684,4 +993,499 @@ export function createUploadUrlResponse(uploadUrl, imageUrl, key, fileName) {
     key: key,
     fileName: fileName,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Auth domain schemas and validation
+ */
+
+/**
+ * Register request schema - profile fields plus a password
+ */
+export const RegisterRequestSchema = {
+  type: 'object',
+  required: ['username', 'email', 'displayName', 'password'],
+  properties: {
+    ...CreateProfileRequestSchema.properties,
+    password: { type: 'string', minLength: 8, maxLength: 128, label: 'Password' }
+  }
+};
+
+/**
+ * Login request schema
+ */
+export const LoginRequestSchema = {
+  type: 'object',
+  required: ['username', 'password'],
+  properties: {
+    username: { type: 'string', minLength: 1, label: 'Username' },
+    password: { type: 'string', minLength: 1, label: 'Password' }
+  }
+};
+
+/**
+ * Auth token response schema - returned by register and login
+ */
+export const AuthTokenResponseSchema = {
+  type: 'object',
+  required: ['token', 'tokenType', 'expiresIn', 'profile'],
+  properties: {
+    token: { type: 'string', minLength: 1 },
+    tokenType: { type: 'string', minLength: 1 },
+    expiresIn: { type: 'integer', minimum: 1 },
+    profile: ProfileResponseSchema
+  }
+};
+
+/**
+ * Validate register requests
+ */
+export const validateRegisterRequest = createValidator(RegisterRequestSchema);
+
+/**
+ * Validate login requests
+ */
+export const validateLoginRequest = createValidator(LoginRequestSchema);
+
+/**
+ * Create a clean auth token response object
+ */
+export function createAuthTokenResponse({ token, expiresIn }, profile) {
+  return {
+    token,
+    tokenType: 'Bearer',
+    expiresIn,
+    profile: createProfileResponse(profile),
+  };
+}
+
+/**
+ * Notifications domain schemas and validation
+ */
+
+export const NOTIFICATION_TYPES = ['like', 'comment', 'follow', 'follow_request', 'mention'];
+
+export const NotificationTypeSchema = { type: 'string', enum: NOTIFICATION_TYPES, label: 'Notification type' };
+
+// Most notifications list this many actors by name; the rest are a count
+const NOTIFICATION_ACTOR_LIMIT = 3;
+
+// Notification IDs in a mark-read request
+const MAX_MARK_READ_IDS = 100;
+
+/**
+ * Notification actor schema - the public identity of someone who acted
+ */
+export const NotificationActorSchema = {
+  type: 'object',
+  required: ['userId', 'username', 'displayName'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    username: { type: 'string' },
+    displayName: { type: 'string' },
+    avatar: { type: 'string' }
+  }
+};
+
+/**
+ * Notification response schema
+ */
+export const NotificationResponseSchema = {
+  type: 'object',
+  required: ['notificationId', 'type', 'message', 'actors', 'actorCount', 'read', 'createdAt', 'updatedAt'],
+  properties: {
+    notificationId: { type: 'string', minLength: 1 },
+    type: NotificationTypeSchema,
+    message: { type: 'string', minLength: 1 },
+    // Most recent actor first
+    actors: { type: 'array', items: NotificationActorSchema, maxItems: NOTIFICATION_ACTOR_LIMIT },
+    actorCount: { type: 'integer', minimum: 1 },
+    postId: { type: 'string' },
+    commentId: { type: 'string' },
+    preview: { type: 'string' },
+    read: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+/**
+ * Get notifications response schema
+ */
+export const GetNotificationsResponseSchema = {
+  type: 'object',
+  required: ['userId', 'notifications', 'unreadCount', 'count', 'nextCursor'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    notifications: {
+      type: 'array',
+      items: NotificationResponseSchema
+    },
+    unreadCount: { type: 'integer', minimum: 0 },
+    count: { type: 'integer', minimum: 0 },
+    nextCursor: NextCursorSchema
+  }
+};
+
+/**
+ * Mark notifications read request schema. Without notificationIds, every
+ * notification is marked read.
+ */
+export const MarkNotificationsReadRequestSchema = {
+  type: 'object',
+  properties: {
+    notificationIds: {
+      type: 'array',
+      items: { type: 'string', minLength: 1, label: 'Notification ID' },
+      minItems: 1,
+      maxItems: MAX_MARK_READ_IDS
+    }
+  }
+};
+
+/**
+ * Mark notifications read response schema
+ */
+export const MarkNotificationsReadResponseSchema = {
+  type: 'object',
+  required: ['userId', 'marked', 'unreadCount'],
+  properties: {
+    userId: { type: 'string', minLength: 1 },
+    marked: { type: 'integer', minimum: 0 },
+    unreadCount: { type: 'integer', minimum: 0 }
+  }
+};
+
+/**
+ * Validate mark-read requests
+ */
+export const validateMarkNotificationsReadRequest = createValidator(MarkNotificationsReadRequestSchema);
+
+const NOTIFICATION_ACTIONS = {
+  like: 'liked your post',
+  comment: 'commented on your post',
+  follow: 'started following you',
+  follow_request: 'requested to follow you',
+};
+
+/**
+ * Build the notification sentence, e.g. "Alex and 4 others liked your post"
+ */
+function describeNotification(type, actors, actorCount, commentId) {
+  const name = actors[0]?.displayName || actors[0]?.username || 'Someone';
+  const others = actorCount - 1;
+  const subject = others === 0 ? name : `${name} and ${others} ${others === 1 ? 'other' : 'others'}`;
+  const action = type === 'mention'
+    ? `mentioned you in a ${commentId ? 'comment' : 'post'}`
+    : NOTIFICATION_ACTIONS[type];
+
+  return `${subject} ${action}`;
+}
+
+/**
+ * The actors to name on a notification: the latest first, then the others
+ * in a stable order
+ */
+export function getNotificationActorIds(item) {
+  const others = [...(item.actorIds || [])].filter(id => id !== item.latestActorId).sort();
+  return [item.latestActorId, ...others].slice(0, NOTIFICATION_ACTOR_LIMIT);
+}
+
+/**
+ * Create a clean notification response object, hydrated from a map of
+ * public profiles
+ */
+export function createNotificationResponse(item, profiles = new Map()) {
+  const actorCount = Math.max(1, [...(item.actorIds || [])].length);
+  const actors = getNotificationActorIds(item).map(userId => {
+    const profile = profiles.get(userId);
+    return {
+      userId,
+      username: profile?.username || '',
+      displayName: profile?.displayName || '',
+      avatar: profile?.avatar || '',
+    };
+  });
+
+  return {
+    notificationId: item.notificationId,
+    type: item.type,
+    message: describeNotification(item.type, actors, actorCount, item.commentId),
+    actors,
+    actorCount,
+    postId: item.postId,
+    commentId: item.commentId,
+    preview: item.preview,
+    read: !!item.read,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * Create a clean notifications page response object
+ */
+export function createNotificationsResponse(items, userId, unreadCount, nextCursor = null, profiles = new Map()) {
+  return {
+    userId,
+    notifications: items.map(item => createNotificationResponse(item, profiles)),
+    unreadCount,
+    count: items.length,
+    nextCursor,
+  };
+}
+
+/**
+ * Create a clean mark-read response object
+ */
+export function createMarkNotificationsReadResponse(userId, marked, unreadCount) {
+  return {
+    userId,
+    marked,
+    unreadCount,
+  };
+}
+
+/**
+ * Search domain schemas and validation
+ */
+
+export const SEARCH_TYPES = ['profiles', 'posts'];
+
+export const SearchTypeSchema = { type: 'string', enum: SEARCH_TYPES, label: 'Search type' };
+
+const MAX_SEARCH_QUERY_LENGTH = 100;
+
+/**
+ * Search query parameters schema
+ */
+export const SearchQuerySchema = {
+  type: 'object',
+  required: ['q'],
+  properties: {
+    q: { type: 'string', minLength: 1, maxLength: MAX_SEARCH_QUERY_LENGTH, trim: true, label: 'Search query' },
+    type: { ...SearchTypeSchema, default: 'profiles' },
+    limit: PaginationQuerySchema.properties.limit,
+    cursor: PaginationQuerySchema.properties.cursor
+  }
+};
+
+const searchResponse = (type, resultSchema) => ({
+  type: 'object',
+  required: ['query', 'type', 'results', 'count', 'nextCursor'],
+  properties: {
+    query: { type: 'string', minLength: 1 },
+    type: { type: 'string', const: type },
+    results: {
+      type: 'array',
+      items: resultSchema
+    },
+    count: { type: 'integer', minimum: 0 },
+    nextCursor: NextCursorSchema
+  }
+});
+
+/**
+ * Profile search response schema
+ */
+export const ProfileSearchResponseSchema = searchResponse('profiles', ProfileResponseSchema);
+
+/**
+ * Post search response schema
+ */
+export const PostSearchResponseSchema = searchResponse('posts', PostResponseSchema);
+
+/**
+ * Search response schema - results are profiles or posts depending on type
+ */
+export const SearchResponseSchema = { oneOf: [ProfileSearchResponseSchema, PostSearchResponseSchema] };
+
+/**
+ * Validate search query parameters
+ */
+export const validateSearchQuery = createValidator(SearchQuerySchema);
+
+/**
+ * Create a clean search response object
+ */
+export function createSearchResponse(type, query, results, nextCursor = null) {
+  return {
+    query,
+    type,
+    results: results.map(type === 'posts' ? createPostResponse : createProfileResponse),
+    count: results.length,
+    nextCursor,
+  };
+}
+
+/**
+ * Admin domain schemas and validation
+ */
+
+/**
+ * Admin events query parameters schema - from and to are ISO timestamps
+ */
+export const GetEventsQuerySchema = {
+  type: 'object',
+  properties: {
+    source: { type: 'string', minLength: 1 },
+    detailType: { type: 'string', minLength: 1 },
+    userId: { type: 'string', minLength: 1 },
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    limit: PaginationQuerySchema.properties.limit,
+    cursor: PaginationQuerySchema.properties.cursor
+  },
+  rules: [{ check: 'ordered', fields: ['from', 'to'], message: 'from must not be later than to' }]
+};
+
+/**
+ * Archived event response schema
+ */
+export const EventResponseSchema = {
+  type: 'object',
+  required: ['eventId', 'source', 'detailType', 'detail', 'timestamp'],
+  properties: {
+    eventId: { type: 'string', minLength: 1 },
+    source: { type: 'string', minLength: 1 },
+    detailType: { type: 'string', minLength: 1 },
+    detail: { type: 'object' },
+    timestamp: { type: 'string', format: 'date-time' },
+    region: { type: 'string' },
+    account: { type: 'string' }
+  }
+};
+
+/**
+ * Admin events response schema
+ */
+export const GetEventsResponseSchema = {
+  type: 'object',
+  required: ['events', 'nextCursor'],
+  properties: {
+    events: {
+      type: 'array',
+      items: EventResponseSchema
+    },
+    nextCursor: NextCursorSchema
+  }
+};
+
+/**
+ * Validate admin events query parameters
+ */
+export const validateGetEventsQuery = createValidator(GetEventsQuerySchema);
+
+/**
+ * Create a clean archived event response object
+ */
+export function createEventResponse(item) {
+  return {
+    eventId: item.eventId,
+    source: item.source,
+    detailType: item.detailType,
+    detail: item.detail,
+    timestamp: item.timestamp,
+    region: item.region,
+    account: item.account,
+  };
+}
+
+/**
+ * Create a clean admin events page response object
+ */
+export function createEventsResponse(items, nextCursor = null) {
+  return {
+    events: items.map(createEventResponse),
+    nextCursor,
+  };
+}
+
+/**
+ * Failed event response schema - an event a consumer gave up on
+ */
+export const FailedEventResponseSchema = {
+  type: 'object',
+  required: ['messageId', 'consumer', 'event', 'error'],
+  properties: {
+    messageId: { type: 'string', minLength: 1 },
+    consumer: { type: 'string', minLength: 1 },
+    event: { type: 'object' },
+    error: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' }
+      }
+    },
+    attempts: { type: 'integer', minimum: 1 },
+    failedAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+/**
+ * Dead letter queues response schema - failed event counts per consumer
+ */
+export const GetDeadLetterQueuesResponseSchema = {
+  type: 'object',
+  required: ['queues'],
+  properties: {
+    queues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['consumer', 'approximateCount', 'inFlight'],
+        properties: {
+          consumer: { type: 'string', minLength: 1 },
+          approximateCount: { type: 'integer', minimum: 0 },
+          inFlight: { type: 'integer', minimum: 0 }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Failed events response schema - a sample of one consumer's queue
+ */
+export const GetFailedEventsResponseSchema = {
+  type: 'object',
+  required: ['consumer', 'events'],
+  properties: {
+    consumer: { type: 'string', minLength: 1 },
+    events: {
+      type: 'array',
+      items: FailedEventResponseSchema
+    }
+  }
+};
+
+const MAX_REDRIVE_EVENTS = 500;
+
+/**
+ * Redrive request schema
+ */
+export const RedriveRequestSchema = {
+  type: 'object',
+  properties: {
+    maxEvents: { type: 'integer', minimum: 1, maximum: MAX_REDRIVE_EVENTS, default: 100 }
+  }
+};
+
+/**
+ * Redrive response schema
+ */
+export const RedriveResponseSchema = {
+  type: 'object',
+  required: ['consumer', 'redriven', 'failed'],
+  properties: {
+    consumer: { type: 'string', minLength: 1 },
+    redriven: { type: 'integer', minimum: 0 },
+    failed: { type: 'integer', minimum: 0 }
+  }
+};
+
+/**
+ * Validate redrive requests
+ */
+export const validateRedriveRequest = createValidator(RedriveRequestSchema);
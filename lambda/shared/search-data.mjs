@@ -0,0 +1,178 @@
+import { GetCommand, PutCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLE_NAME } from './clients.mjs';
+import { queryPage } from './pagination.mjs';
+import { batchWrite } from './batch.mjs';
+
+// Shorter query terms match too much to be useful
+export const MIN_TOKEN_LENGTH = 2;
+
+// Longer terms are looked up by their first 10 characters and matched in full by a filter
+const MAX_PREFIX_LENGTH = 10;
+
+// Caps the index entries a long post can produce
+const MAX_INDEXED_TOKENS = 30;
+
+/**
+ * Split text into normalized search tokens: lowercased, accents removed,
+ * split on anything that is not a letter or digit (so `alice_smith` is
+ * "alice" and "smith"), duplicates and too-short tokens dropped.
+ */
+export function tokenize(text) {
+  const words = (text || '')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= MIN_TOKEN_LENGTH);
+
+  return [...new Set(words)];
+}
+
+/**
+ * Every prefix of the tokens that gets its own index partition
+ */
+function indexPrefixes(tokens) {
+  const prefixes = new Set();
+  for (const token of tokens) {
+    for (let length = MIN_TOKEN_LENGTH; length <= Math.min(token.length, MAX_PREFIX_LENGTH); length++) {
+      prefixes.add(token.slice(0, length));
+    }
+  }
+  return [...prefixes];
+}
+
+const documentKey = (type, docId) => ({ PK: `SEARCHDOC#${type}#${docId}`, SK: 'TOKENS' });
+const entryKey = (type, prefix, sortKey) => ({ PK: `SEARCH#${type}#${prefix}`, SK: sortKey });
+
+/**
+ * Search index data access operations.
+ *
+ * Profiles and posts are indexed by token prefix in the main table, so a
+ * search is a single query however large the table grows:
+ * - SEARCH#<type>#<prefix> / <sortKey> - one entry per document per prefix
+ *   of each of its tokens. Entries carry the document ID, its author and
+ *   ` token token ...` text so multi-word queries are narrowed by a filter.
+ *   Post sort keys start with the creation time, profile sort keys with the
+ *   username, so results come back newest post / alphabetical profile first.
+ * - SEARCHDOC#<type>#<docId> / TOKENS - the prefixes and sort key the
+ *   document is currently indexed under, so a re-index can delete the
+ *   entries it no longer needs.
+ *
+ * Entries hold IDs rather than content; callers read the current profile or
+ * post when presenting results.
+ */
+export class SearchData {
+  /**
+   * Index (or re-index) a profile by username, display name and bio
+   */
+  static async indexProfile(profile) {
+    return indexDocument('profile', profile.userId, {
+      sortKey: `${profile.username.toLowerCase()}#${profile.userId}`,
+      userId: profile.userId,
+      text: [profile.username, profile.displayName, profile.bio].join(' '),
+    });
+  }
+
+  /**
+   * Index (or re-index) a post by its content
+   */
+  static async indexPost(post) {
+    return indexDocument('post', post.postId, {
+      sortKey: `${post.createdAt}#${post.postId}`,
+      userId: post.userId,
+      text: post.content,
+    });
+  }
+
+  /**
+   * Remove a profile or post from the index. Removing a document that was
+   * never indexed is a no-op.
+   *
+   * @param {'profile'|'post'} type
+   */
+  static async removeDocument(type, docId) {
+    return indexDocument(type, docId, null);
+  }
+
+  /**
+   * Get one page of documents matching every word of the query, as prefixes
+   *
+   * @param {'profile'|'post'} type
+   * @param {{limit?: number, startKey?: object}} page
+   * @returns {Promise<{items: Array<{docId: string, userId: string}>, lastEvaluatedKey: object|undefined}>}
+   */
+  static async search(type, query, page = {}) {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+      return { items: [], lastEvaluatedKey: undefined };
+    }
+
+    // The longest term has the smallest partition; the filter checks the rest
+    const [keyToken] = [...tokens].sort((a, b) => b.length - a.length);
+    const filterTokens = tokens.filter(token => token !== keyToken || token.length > MAX_PREFIX_LENGTH);
+
+    return queryPage({
+      KeyConditionExpression: 'PK = :pk',
+      ...(filterTokens.length > 0 && {
+        FilterExpression: filterTokens.map((_, i) => `contains(searchText, :token${i})`).join(' AND '),
+      }),
+      ExpressionAttributeValues: {
+        ':pk': `SEARCH#${type}#${keyToken.slice(0, MAX_PREFIX_LENGTH)}`,
+        // searchText starts every token with a space, so this matches word prefixes only
+        ...Object.fromEntries(filterTokens.map((token, i) => [`:token${i}`, ` ${token}`])),
+      },
+      ScanIndexForward: type === 'profile',
+    }, page);
+  }
+}
+
+/**
+ * Replace a document's index entries; a null document removes them.
+ * Entries under prefixes the document still has are overwritten in place, so
+ * a re-index never leaves the document briefly unsearchable.
+ *
+ * @returns {Promise<{indexed: number, removed: number, unprocessed: number}>}
+ */
+async function indexDocument(type, docId, document) {
+  const previous = (await docClient.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: documentKey(type, docId),
+  }))).Item;
+
+  const tokens = document ? tokenize(document.text).slice(0, MAX_INDEXED_TOKENS) : [];
+  const prefixes = indexPrefixes(tokens);
+  const searchText = ` ${tokens.join(' ')}`;
+
+  const kept = new Set(previous?.sortKey === document?.sortKey ? prefixes : []);
+  const staleKeys = (previous?.prefixes || [])
+    .filter(prefix => !kept.has(prefix))
+    .map(prefix => entryKey(type, prefix, previous.sortKey));
+
+  const { unprocessed } = await batchWrite([
+    ...prefixes.map(prefix => ({
+      PutRequest: {
+        Item: { ...entryKey(type, prefix, document.sortKey), docId, userId: document.userId, searchText },
+      },
+    })),
+    ...staleKeys.map(Key => ({ DeleteRequest: { Key } })),
+  ]);
+
+  if (unprocessed.length > 0) {
+    // Leave the document record as it was so a retried event cleans up after this one
+    throw new Error(`Could not index ${type} ${docId}: ${unprocessed.length} writes unprocessed`);
+  }
+
+  if (prefixes.length > 0) {
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: { ...documentKey(type, docId), sortKey: document.sortKey, prefixes },
+    }));
+  } else if (previous) {
+    await docClient.send(new DeleteCommand({
+      TableName: TABLE_NAME,
+      Key: documentKey(type, docId),
+    }));
+  }
+
+  return { indexed: prefixes.length, removed: staleKeys.length, unprocessed: unprocessed.length };
+}
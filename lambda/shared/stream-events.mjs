@@ -0,0 +1,212 @@
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { createEvent } from './event-catalog.mjs';
+import { PostData } from './post-data.mjs';
+import { ProfileData } from './profile-data.mjs';
+
+// Profile fields a user edits; counter and version changes are not updates
+const PROFILE_FIELDS = ['displayName', 'bio', 'avatar', 'isPrivate'];
+
+// The ID in a key such as USER#<id> or FOLLOWS#<id>
+const idOf = (key) => key.slice(key.indexOf('#') + 1);
+
+const pick = (item, fields) => Object.fromEntries(fields.map(field => [field, item[field]]));
+
+/**
+ * Items whose changes are domain events, and the event for each kind of change.
+ * Each builder gets { keys, item, previous } and returns the event's detail
+ * type and payload (see EVENT_CATALOG), or null when the change is not one (a
+ * counter bump on a post, say).
+ */
+const EVENT_SOURCES = [
+  {
+    pk: 'POST#',
+    sk: 'METADATA',
+    INSERT: ({ item }) => ({
+      detailType: 'Post Created',
+      data: {
+        postId: item.postId,
+        userId: item.userId,
+        username: item.username,
+        displayName: item.displayName,
+        avatar: item.avatar,
+        content: item.content,
+        imageUrl: item.imageUrl,
+      },
+    }),
+    MODIFY: ({ item, previous }) => {
+      if (item.content === previous.content && item.imageUrl === previous.imageUrl) {
+        return null;
+      }
+      return {
+        detailType: 'Post Updated',
+        data: {
+          postId: item.postId,
+          userId: item.userId,
+          content: item.content,
+          imageUrl: item.imageUrl,
+          previousContent: previous.content,
+          revision: item.revisionCount,
+          editedAt: item.editedAt,
+        },
+      };
+    },
+    REMOVE: ({ previous }) => ({
+      detailType: 'Post Deleted',
+      data: { postId: previous.postId, userId: previous.userId, createdAt: previous.createdAt },
+    }),
+  },
+  {
+    pk: 'USER#',
+    sk: 'PROFILE',
+    INSERT: ({ item }) => ({
+      detailType: 'Profile Created',
+      data: { userId: item.userId, profile: ProfileData.getPublicProfile(item) },
+    }),
+    MODIFY: ({ item, previous }) => {
+      const changed = PROFILE_FIELDS.filter(field => item[field] !== previous[field]);
+      if (changed.length === 0) {
+        return null;
+      }
+      return {
+        detailType: 'Profile Updated',
+        data: {
+          userId: item.userId,
+          updates: pick(item, changed),
+          previousProfile: pick(previous, PROFILE_FIELDS),
+        },
+      };
+    },
+    REMOVE: ({ keys, previous }) => ({
+      detailType: 'Profile Deleted',
+      data: { userId: idOf(keys.PK), username: previous.username },
+    }),
+  },
+  {
+    pk: 'USER#',
+    skPrefix: 'FOLLOWS#',
+    INSERT: ({ keys }) => ({
+      detailType: 'User Followed',
+      data: { followerId: idOf(keys.PK), followedUserId: idOf(keys.SK) },
+    }),
+    REMOVE: ({ keys }) => ({
+      detailType: 'User Unfollowed',
+      data: { followerId: idOf(keys.PK), followedUserId: idOf(keys.SK) },
+    }),
+  },
+  {
+    pk: 'USER#',
+    skPrefix: 'FOLLOW_REQUEST#',
+    INSERT: ({ keys }) => ({
+      detailType: 'Follow Requested',
+      data: { requesterId: idOf(keys.SK), targetUserId: idOf(keys.PK) },
+    }),
+  },
+  {
+    pk: 'POST#',
+    skPrefix: 'LIKE#',
+    // The notification shows the post, which the like record does not copy
+    INSERT: async ({ keys, item }) => {
+      const post = await PostData.getPostById(idOf(keys.PK));
+      const postAuthorId = item.postAuthorId ?? post?.userId;
+      if (!postAuthorId) {
+        return null; // Post and author both gone, nobody to tell
+      }
+      return {
+        detailType: 'Post Liked',
+        data: {
+          userId: idOf(keys.SK),
+          postId: idOf(keys.PK),
+          postAuthorId,
+          postAuthorUsername: post?.username,
+          postContent: post?.content,
+        },
+      };
+    },
+    REMOVE: ({ keys, previous }) => ({
+      detailType: 'Post Unliked',
+      data: { userId: idOf(keys.SK), postId: idOf(keys.PK), postAuthorId: previous.postAuthorId },
+    }),
+  },
+  {
+    pk: 'POST#',
+    skPrefix: 'COMMENT#',
+    INSERT: ({ item }) => ({
+      detailType: 'Comment Created',
+      data: {
+        commentId: item.commentId,
+        postId: item.postId,
+        userId: item.userId,
+        parentCommentId: item.parentCommentId,
+        postAuthorId: item.postAuthorId,
+        content: item.content,
+      },
+    }),
+  },
+  {
+    pk: 'USER#',
+    skPrefix: 'BLOCKS#',
+    INSERT: ({ keys }) => ({
+      detailType: 'User Blocked',
+      data: { blockerId: idOf(keys.PK), blockedUserId: idOf(keys.SK) },
+    }),
+    REMOVE: ({ keys }) => ({
+      detailType: 'User Unblocked',
+      data: { blockerId: idOf(keys.PK), blockedUserId: idOf(keys.SK) },
+    }),
+  },
+  {
+    pk: 'USER#',
+    skPrefix: 'MUTES#',
+    INSERT: ({ keys }) => ({
+      detailType: 'User Muted',
+      data: { muterId: idOf(keys.PK), mutedUserId: idOf(keys.SK) },
+    }),
+    REMOVE: ({ keys }) => ({
+      detailType: 'User Unmuted',
+      data: { muterId: idOf(keys.PK), mutedUserId: idOf(keys.SK) },
+    }),
+  },
+];
+
+/**
+ * Sort keys of the items above, as Lambda event filter patterns. The stream
+ * event source filters on these (STREAM_CONFIG.EVENT_SORT_KEYS) so feed
+ * copies, counters and search tokens never invoke the processor.
+ */
+export const EVENT_SORT_KEYS = EVENT_SOURCES.map(source => source.sk ?? { prefix: source.skPrefix });
+
+const sourceFor = (keys) => EVENT_SOURCES.find(source =>
+  keys.PK.startsWith(source.pk) && (source.sk ? keys.SK === source.sk : keys.SK.startsWith(source.skPrefix)));
+
+/**
+ * Turn a DynamoDB stream record into the domain event it stands for.
+ *
+ * The table is the outbox: an event is derived from the write that caused it,
+ * so it cannot be lost between a successful write and a failed PutEvents.
+ * The event's ID is the stream record's, so an event published again when a
+ * batch is retried has the same ID as before.
+ *
+ * @returns {Promise<{source: string, detailType: string, detail: object}|null>}
+ *   null for changes that are not domain events
+ * @throws an EventContractError when the change makes an event the catalog
+ *   does not describe
+ */
+export async function toDomainEvent(record) {
+  const change = record.dynamodb;
+  const keys = unmarshall(change.Keys);
+  const build = sourceFor(keys)?.[record.eventName];
+  if (!build) {
+    return null;
+  }
+
+  const event = await build({
+    keys,
+    item: change.NewImage && unmarshall(change.NewImage),
+    previous: change.OldImage && unmarshall(change.OldImage),
+  });
+
+  return event && createEvent(event.detailType, event.data, {
+    eventId: record.eventID,
+    occurredAt: new Date(change.ApproximateCreationDateTime * 1000).toISOString(),
+  });
+}
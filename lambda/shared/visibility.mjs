@@ -0,0 +1,45 @@
+import { ProfileData } from './profile-data.mjs';
+import { FollowData } from './follow-data.mjs';
+import { canActAsUser, canViewUserContent } from './policies.mjs';
+
+/**
+ * Decide whether the caller may read a user's posts and connections.
+ * Only private accounts cost a follow lookup, and only for other callers.
+ *
+ * @returns {Promise<{profile: object|undefined, allowed: boolean}>}
+ */
+export async function getContentAccess(caller, userId) {
+  const profile = await ProfileData.getProfileById(userId);
+
+  const needsFollowCheck = profile?.isPrivate && caller?.userId && !canActAsUser(caller, userId);
+  const isApprovedFollower = needsFollowCheck
+    ? await FollowData.checkFollowStatus(caller.userId, userId)
+    : false;
+
+  return { profile, allowed: canViewUserContent(caller, profile, isApprovedFollower) };
+}
+
+/**
+ * Drop items by private authors that the caller may not see.
+ * Items are anything with a `userId` author field (posts, feed items).
+ */
+export async function filterVisibleItems(caller, items) {
+  const authorIds = [...new Set(items.map(item => item.userId))]
+    .filter(authorId => !canActAsUser(caller, authorId));
+  if (authorIds.length === 0) {
+    return items;
+  }
+
+  const profiles = await ProfileData.getPublicProfiles(authorIds);
+  const privateAuthorIds = authorIds.filter(authorId => profiles.get(authorId)?.isPrivate);
+  if (privateAuthorIds.length === 0) {
+    return items;
+  }
+
+  const followedIds = caller?.userId
+    ? await FollowData.getFollowedIds(caller.userId, privateAuthorIds)
+    : new Set();
+
+  return items.filter(item =>
+    canViewUserContent(caller, profiles.get(item.userId), followedIds.has(item.userId)));
+}
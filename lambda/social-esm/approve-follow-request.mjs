@@ -0,0 +1,51 @@
+import {
+  FollowData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  canManageFollowRequests,
+} from '../shared/index.mjs';
+import { createFollowRequestDecisionResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const { userId, requesterId } = event.pathParameters || {};
+    if (!userId || !requesterId) {
+      return createValidationError('userId and requesterId path parameters are required');
+    }
+
+    if (!canManageFollowRequests(caller, userId)) {
+      return createForbiddenError('You can only approve requests to follow you');
+    }
+
+    // The follow this creates reaches consumers as an ordinary User Followed
+    const timestamp = await FollowData.approveFollowRequest(userId, requesterId);
+
+    return createSuccessResponse(createFollowRequestDecisionResponse(true, userId, requesterId, timestamp));
+
+  } catch (error) {
+    if (error.name === 'TransactionCanceledException') {
+      return createNotFoundError('No pending follow request from this user');
+    }
+
+    console.error('Error approving follow request:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,56 @@
+import {
+  FollowData,
+  ProfileData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createNotFoundError,
+  createConflictError,
+  handleOptionsRequest,
+  getCallerIdentity,
+} from '../shared/index.mjs';
+import { createBlockActionResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    // The blocker is always the caller; the blocked user comes from the route
+    const targetUserId = event.pathParameters?.userId;
+    if (!targetUserId) {
+      return createValidationError('Missing userId parameter');
+    }
+    if (targetUserId === caller.userId) {
+      return createValidationError('You cannot block yourself');
+    }
+
+    const target = await ProfileData.getProfileById(targetUserId);
+    if (!target || target.deletedAt) {
+      return createNotFoundError('User not found');
+    }
+
+    const { createdAt } = await FollowData.blockUser(caller.userId, targetUserId);
+
+    return createSuccessResponse(createBlockActionResponse('blocked', caller.userId, targetUserId, createdAt));
+
+  } catch (error) {
+    // The block already exists, or a follow changed between the read and the write
+    if (error.name === 'TransactionCanceledException') {
+      return createConflictError('User is already blocked');
+    }
+
+    console.error('Error blocking user:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
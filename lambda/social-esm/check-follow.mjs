@@ -21,8 +21,8 @@ const TABLE_NAME = process.env.TABLE_NAME;
 
 export const handler = async (event) => {
   try {
-    const followerId = event.pathParameters?.followerId;
-    const followedUserId = event.pathParameters?.followedUserId;
+    // Whether {userId} follows, or has asked to follow, {targetUserId}
+    const { userId: followerId, targetUserId: followedUserId } = event.pathParameters || {};
 
     if (!followerId || !followedUserId) {
       return {
@@ -31,21 +31,30 @@ export const handler = async (event) => {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*',
         },
-        body: JSON.stringify({ error: 'Missing followerId or followedUserId' }),
+        body: JSON.stringify({ error: 'Missing userId or targetUserId' }),
       };
     }
 
-    // Check if follow relationship exists
-    const result = await docClient.send(new GetCommand({
-      TableName: TABLE_NAME,
-      Key: {
-        PK: `USER#${followerId}`,
-        SK: `FOLLOWS#${followedUserId}`,
-      },
-    }));
+    // Check for a follow, or a request still waiting on a private account
+    const [followResult, requestResult] = await Promise.all([
+      docClient.send(new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${followerId}`,
+          SK: `FOLLOWS#${followedUserId}`,
+        },
+      })),
+      docClient.send(new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: `USER#${followedUserId}`,
+          SK: `FOLLOW_REQUEST#${followerId}`,
+        },
+      })),
+    ]);
 
     // Format response using shared helper
-    const response = createFollowStatusResponse(result.Item, followerId, followedUserId);
+    const response = createFollowStatusResponse(followResult.Item, followerId, followedUserId, requestResult.Item);
 
     return {
       statusCode: 200,
@@ -0,0 +1,52 @@
+import {
+  FollowData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  canManageFollowRequests,
+} from '../shared/index.mjs';
+import { createFollowRequestDecisionResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const { userId, requesterId } = event.pathParameters || {};
+    if (!userId || !requesterId) {
+      return createValidationError('userId and requesterId path parameters are required');
+    }
+
+    if (!canManageFollowRequests(caller, userId)) {
+      return createForbiddenError('You can only deny requests to follow you');
+    }
+
+    await FollowData.deleteFollowRequest(userId, requesterId);
+
+    return createSuccessResponse(
+      createFollowRequestDecisionResponse(false, userId, requesterId, new Date().toISOString())
+    );
+
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return createNotFoundError('No pending follow request from this user');
+    }
+
+    console.error('Error denying follow request:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
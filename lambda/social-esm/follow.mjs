@@ -1,162 +1,94 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
-import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import {
+  FollowData,
+  ProfileData,
+  getCallerIdentity,
+  canFollow,
+  createSuccessResponse,
+  createErrorResponse,
+  createUnauthorizedError,
+  createForbiddenError,
+  createNotFoundError,
+  createConflictError,
+  handleOptionsRequest,
+} from '../shared/index.mjs';
 import { validateFollowRequest, createFollowActionResponse } from '../shared/schemas.mjs';
 
-// Initialize AWS SDK clients with top-level await
-const dynamoClient = new DynamoDBClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
-const docClient = DynamoDBDocumentClient.from(dynamoClient, {
-  marshallOptions: {
-    removeUndefinedValues: true,
-  },
-});
-
-const eventBridgeClient = new EventBridgeClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
-const TABLE_NAME = process.env.TABLE_NAME;
-const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
-
 export const handler = async (event) => {
   try {
-    const request = JSON.parse(event.body || '{}');
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    // The follower is always the caller, whom the body may repeat but not replace;
+    // the target comes from the route
+    const body = JSON.parse(event.body || '{}');
+    if (!canFollow(caller, body.followerId)) {
+      return createForbiddenError('You can only follow users as yourself');
+    }
+    const request = {
+      followerId: caller.userId,
+      followedUserId: event.pathParameters?.userId || body.followedUserId,
+    };
 
     // Validate request using shared schema
     const validation = validateFollowRequest(request);
     if (!validation.isValid) {
-      return {
-        statusCode: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-        body: JSON.stringify({
-          error: 'Validation failed',
-          details: validation.errors
-        }),
-      };
+      return createErrorResponse({ message: 'Validation failed', details: validation.errors }, 400);
     }
 
     const { followerId, followedUserId } = request;
 
-    const timestamp = new Date().toISOString();
+    const target = await ProfileData.getProfileById(followedUserId);
+    if (!target || target.deletedAt) {
+      return createNotFoundError('User not found');
+    }
 
-    // Create follow relationship using transaction
-    const transactItems = [
-      {
-        Put: {
-          TableName: TABLE_NAME,
-          Item: {
-            PK: `USER#${followerId}`,
-            SK: `FOLLOWS#${followedUserId}`,
-            followerId,
-            followedUserId,
-            createdAt: timestamp,
-          },
-          ConditionExpression: 'attribute_not_exists(PK)', // Prevent duplicate follows
-        },
-      },
-      {
-        Put: {
-          TableName: TABLE_NAME,
-          Item: {
-            PK: `USER#${followedUserId}`,
-            SK: `FOLLOWER#${followerId}`,
-            followerId,
-            followedUserId,
-            createdAt: timestamp,
-          },
-        },
-      },
-      {
-        Update: {
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${followerId}`,
-            SK: 'PROFILE',
-          },
-          UpdateExpression: 'ADD followingCount :inc',
-          ExpressionAttributeValues: {
-            ':inc': 1,
-          },
-        },
-      },
-      {
-        Update: {
-          TableName: TABLE_NAME,
-          Key: {
-            PK: `USER#${followedUserId}`,
-            SK: 'PROFILE',
-          },
-          UpdateExpression: 'ADD followersCount :inc',
-          ExpressionAttributeValues: {
-            ':inc': 1,
-          },
-        },
-      },
-    ];
+    if (await FollowData.isBlockedEitherWay(followerId, followedUserId)) {
+      return createForbiddenError('You cannot interact with this user');
+    }
 
-    await docClient.send(new TransactWriteCommand({
-      TransactItems: transactItems,
-    }));
+    // Private accounts approve followers; until then the follow is only a request
+    if (target.isPrivate) {
+      if (await FollowData.checkFollowStatus(followerId, followedUserId)) {
+        return createConflictError('Already following this user');
+      }
 
-    // Send event to EventBridge
-    await eventBridgeClient.send(new PutEventsCommand({
-      Entries: [
-        {
-          Source: 'social-media.follow',
-          DetailType: 'User Followed',
-          Detail: JSON.stringify({
-            followerId,
-            followedUserId,
-            timestamp,
-          }),
-          EventBusName: EVENT_BUS_NAME,
-        },
-      ],
-    }));
+      const followRequest = await FollowData.createFollowRequest(followerId, followedUserId);
 
-    // Format response using shared helper
-    const response = createFollowActionResponse(true, followerId, followedUserId, timestamp);
+      return createSuccessResponse(
+        createFollowActionResponse('requested', followerId, followedUserId, followRequest.createdAt),
+        202
+      );
+    }
 
-    return {
-      statusCode: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify(response),
-    };
-  } catch (error) {
-    console.error('Error following user:', error);
+    await FollowData.followUser(followerId, followedUserId);
 
+    return createSuccessResponse(
+      createFollowActionResponse('following', followerId, followedUserId, new Date().toISOString())
+    );
+
+  } catch (error) {
+    // The edge already exists, or a deletion locked one of the two profiles
+    // (the last two items) after the read above
+    if (error.name === 'TransactionCanceledException') {
+      if (error.CancellationReasons?.slice(2).some(reason => reason.Code === 'ConditionalCheckFailed')) {
+        return createNotFoundError('User not found');
+      }
+      return createConflictError('Already following this user');
+    }
     if (error.name === 'ConditionalCheckFailedException') {
-      return {
-        statusCode: 409,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-        body: JSON.stringify({ error: 'Already following this user' }),
-      };
+      return createConflictError('Follow request already pending');
     }
 
-    return {
-      statusCode: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({ error: 'Internal server error' }),
-    };
+    console.error('Error following user:', error);
+    return createErrorResponse('Internal server error');
   }
-};
\ No newline at end of file
+};
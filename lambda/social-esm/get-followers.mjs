@@ -1,85 +1,55 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
-
-// Initialize AWS SDK clients with top-level await
-const dynamoClient = new DynamoDBClient({
-  maxAttempts: 3,
-  retryMode: 'adaptive',
-});
-
-const docClient = DynamoDBDocumentClient.from(dynamoClient, {
-  marshallOptions: {
-    removeUndefinedValues: true,
-  },
-});
+import {
+  FollowData,
+  ProfileData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  getContentAccess,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createFollowersResponse } from '../shared/schemas.mjs';
 
 // Pre-warm the connections with top-level await
 await Promise.resolve();
 
-const TABLE_NAME = process.env.TABLE_NAME;
-
 export const handler = async (event) => {
   try {
-    const { userId } = event.pathParameters || {};
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
 
+    const userId = event.pathParameters?.userId;
     if (!userId) {
-      return {
-        statusCode: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key',
-          'Access-Control-Allow-Methods': 'OPTIONS,GET'
-        },
-        body: JSON.stringify({
-          error: 'Missing userId parameter'
-        }),
-      };
+      return createValidationError('Missing userId parameter');
     }
 
-    // Get all followers of the specified user
-    const followersResult = await docClient.send(new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `USER#${userId}`,
-        ':sk': 'FOLLOWER#',
-      },
-    }));
+    const scope = `followers:${userId}`;
+    const page = await getPageRequest(event, scope);
 
-    const followers = followersResult.Items || [];
+    const { allowed } = await getContentAccess(getCallerIdentity(event), userId);
+    if (!allowed) {
+      return createForbiddenError('This account is private');
+    }
 
-    return {
-      statusCode: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key',
-        'Access-Control-Allow-Methods': 'OPTIONS,GET'
-      },
-      body: JSON.stringify({
-        userId,
-        followers: followers.map(follower => ({
-          followerId: follower.followerId,
-          followedAt: follower.followedAt,
-        })),
-        followersCount: followers.length,
-      }),
-    };
+    const { items, lastEvaluatedKey } = await FollowData.getFollowers(userId, page);
+    const [profiles, nextCursor] = await Promise.all([
+      ProfileData.getPublicProfiles(items.map(item => item.followerId)),
+      encodeCursor(lastEvaluatedKey, scope),
+    ]);
+
+    return createSuccessResponse(createFollowersResponse(items, userId, nextCursor, profiles));
 
   } catch (error) {
-    console.error('Error getting followers:', error);
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
 
-    return {
-      statusCode: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-      body: JSON.stringify({
-        error: 'Internal server error',
-        message: error.message,
-      }),
-    };
+    console.error('Error getting followers:', error);
+    return createErrorResponse('Internal server error');
   }
-};
\ No newline at end of file
+};
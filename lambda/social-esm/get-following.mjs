@@ -0,0 +1,55 @@
+import {
+  FollowData,
+  ProfileData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  getContentAccess,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createFollowingResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const userId = event.pathParameters?.userId;
+    if (!userId) {
+      return createValidationError('Missing userId parameter');
+    }
+
+    const scope = `following:${userId}`;
+    const page = await getPageRequest(event, scope);
+
+    const { allowed } = await getContentAccess(getCallerIdentity(event), userId);
+    if (!allowed) {
+      return createForbiddenError('This account is private');
+    }
+
+    const { items, lastEvaluatedKey } = await FollowData.getFollowing(userId, page);
+    const [profiles, nextCursor] = await Promise.all([
+      ProfileData.getPublicProfiles(items.map(item => item.followedUserId)),
+      encodeCursor(lastEvaluatedKey, scope),
+    ]);
+
+    return createSuccessResponse(createFollowingResponse(items, userId, nextCursor, profiles));
+
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
+
+    console.error('Error getting following:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,49 @@
+import {
+  FollowData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  canViewRelationship,
+} from '../shared/index.mjs';
+import { createRelationshipResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const { userId, otherUserId } = event.pathParameters || {};
+    if (!userId || !otherUserId) {
+      return createValidationError('userId and otherUserId path parameters are required');
+    }
+
+    if (userId === otherUserId) {
+      return createValidationError('Cannot describe a relationship with yourself');
+    }
+
+    if (!canViewRelationship(caller, userId)) {
+      return createForbiddenError('You can only view your own relationships');
+    }
+
+    const relationship = await FollowData.getRelationship(userId, otherUserId);
+
+    return createSuccessResponse(createRelationshipResponse(userId, otherUserId, relationship));
+
+  } catch (error) {
+    console.error('Error getting relationship:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,60 @@
+import {
+  FollowData,
+  ProfileData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  canManageFollowRequests,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createFollowRequestsResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const userId = event.pathParameters?.userId;
+    if (!userId) {
+      return createValidationError('Missing userId parameter');
+    }
+
+    if (!canManageFollowRequests(caller, userId)) {
+      return createForbiddenError('You can only view your own follow requests');
+    }
+
+    const scope = `follow-requests:${userId}`;
+    const page = await getPageRequest(event, scope);
+
+    const { items, lastEvaluatedKey } = await FollowData.getFollowRequests(userId, page);
+    const [profiles, nextCursor] = await Promise.all([
+      ProfileData.getPublicProfiles(items.map(item => item.requesterId)),
+      encodeCursor(lastEvaluatedKey, scope),
+    ]);
+
+    return createSuccessResponse(createFollowRequestsResponse(items, userId, nextCursor, profiles));
+
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
+
+    console.error('Error listing follow requests:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,60 @@
+import {
+  FollowData,
+  ProfileData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createForbiddenError,
+  handleOptionsRequest,
+  getCallerIdentity,
+  canManageBlocks,
+  getPageRequest,
+  encodeCursor,
+  isInvalidCursorError,
+} from '../shared/index.mjs';
+import { createBlockListResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const userId = event.pathParameters?.userId;
+    if (!userId) {
+      return createValidationError('Missing userId parameter');
+    }
+
+    if (!canManageBlocks(caller, userId)) {
+      return createForbiddenError('You can only view your own muted users');
+    }
+
+    const scope = `mutes:${userId}`;
+    const page = await getPageRequest(event, scope);
+
+    const { items, lastEvaluatedKey } = await FollowData.getMutes(userId, page);
+    const [profiles, nextCursor] = await Promise.all([
+      ProfileData.getPublicProfiles(items.map(item => item.mutedUserId)),
+      encodeCursor(lastEvaluatedKey, scope),
+    ]);
+
+    return createSuccessResponse(createBlockListResponse('mutes', items, userId, nextCursor, profiles));
+
+  } catch (error) {
+    if (isInvalidCursorError(error)) {
+      return createValidationError(error.message);
+    }
+
+    console.error('Error listing muted users:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,55 @@
+import {
+  FollowData,
+  ProfileData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createNotFoundError,
+  createConflictError,
+  handleOptionsRequest,
+  getCallerIdentity,
+} from '../shared/index.mjs';
+import { createBlockActionResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    // The muter is always the caller; the muted user comes from the route
+    const targetUserId = event.pathParameters?.userId;
+    if (!targetUserId) {
+      return createValidationError('Missing userId parameter');
+    }
+    if (targetUserId === caller.userId) {
+      return createValidationError('You cannot mute yourself');
+    }
+
+    const target = await ProfileData.getProfileById(targetUserId);
+    if (!target || target.deletedAt) {
+      return createNotFoundError('User not found');
+    }
+
+    const mute = await FollowData.muteUser(caller.userId, targetUserId);
+
+    return createSuccessResponse(createBlockActionResponse('muted', caller.userId, targetUserId, mute.createdAt));
+
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return createConflictError('User is already muted');
+    }
+
+    console.error('Error muting user:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,46 @@
+import {
+  FollowData,
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createUnauthorizedError,
+  createNotFoundError,
+  handleOptionsRequest,
+  getCallerIdentity,
+} from '../shared/index.mjs';
+import { createBlockActionResponse } from '../shared/schemas.mjs';
+
+// Pre-warm the connections with top-level await
+await Promise.resolve();
+
+export const handler = async (event) => {
+  try {
+    if (event.httpMethod === 'OPTIONS') {
+      return handleOptionsRequest();
+    }
+
+    const caller = getCallerIdentity(event);
+    if (!caller) {
+      return createUnauthorizedError();
+    }
+
+    const targetUserId = event.pathParameters?.userId;
+    if (!targetUserId) {
+      return createValidationError('Missing userId parameter');
+    }
+
+    await FollowData.unblockUser(caller.userId, targetUserId);
+
+    return createSuccessResponse(
+      createBlockActionResponse('unblocked', caller.userId, targetUserId, new Date().toISOString())
+    );
+
+  } catch (error) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return createNotFoundError('User is not blocked');
+    }
+
+    console.error('Error unblocking user:', error);
+    return createErrorResponse('Internal server error');
+  }
+};
@@ -0,0 +1,239 @@
+/**
+ * Who may call a route:
+ * - public: anyone, no authorizer
+ * - authenticated: callers with a valid token (TokenAuthorizer)
+ * - viewerAware: anyone; a token, if sent, must be valid and decides what
+ *   private content the caller sees (OptionalAuthorizer)
+ */
+export type ApiRouteAuth = 'public' | 'authenticated' | 'viewerAware';
+
+export interface ApiRouteDefinition {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'ANY';
+  /** Resource path; `{name}` is a path parameter and `{proxy+}` matches the rest of the path */
+  path: string;
+  /** The ApiGatewayConstruct prop holding the function that serves the route */
+  function: string;
+  auth: ApiRouteAuth;
+  /** Called by other handlers rather than the frontends, so left out of their endpoint tables and the OpenAPI document */
+  internal?: boolean;
+  /** The lambda/shared/schemas.mjs export describing the JSON body */
+  request?: string;
+  /** Body fields the handler fills in from the path or the caller when they are left out */
+  requestDefaults?: readonly string[];
+  /** The lambda/shared/schemas.mjs export describing the query string */
+  query?: string;
+  /** The lambda/shared/schemas.mjs export describing the success response body */
+  response?: string;
+  /** Success status code, when not 200 */
+  status?: 201 | 202;
+}
+
+/**
+ * Every route of the REST API. ApiGatewayConstruct builds the API from this
+ * table, and `npm run generate:api-routes` writes the endpoint tables the
+ * handlers (lambda/shared/api-routes.mjs) and both frontends
+ * (web-ui/src/shared/endpoints.ts, web-ui-vite/src/config/endpoints.ts) use.
+ * `npm run generate:openapi` then documents the routes with their schemas in
+ * lambda/shared/openapi.json, which ApiGatewayConstruct takes the request
+ * models from and /docs serves. test/unit/shared/api-routes.test.ts and
+ * openapi.test.ts fail when any of them drift.
+ */
+export const API_ROUTES = {
+  // Auth
+  REGISTER: {
+    method: 'POST', path: '/auth/register', function: 'registerFunction', auth: 'public',
+    request: 'RegisterRequestSchema', response: 'AuthTokenResponseSchema', status: 201,
+  },
+  LOGIN: {
+    method: 'POST', path: '/auth/login', function: 'loginFunction', auth: 'public',
+    request: 'LoginRequestSchema', response: 'AuthTokenResponseSchema',
+  },
+  JWKS: { method: 'GET', path: '/.well-known/jwks.json', function: 'jwksFunction', auth: 'public' },
+
+  // Profiles
+  GET_PROFILE: {
+    method: 'GET', path: '/profiles/{userId}', function: 'getProfileFunction', auth: 'public',
+    response: 'ProfileResponseSchema',
+  },
+  UPDATE_PROFILE: {
+    method: 'PUT', path: '/profiles/{userId}', function: 'updateProfileFunction', auth: 'authenticated',
+    request: 'UpdateProfileRequestSchema', response: 'ProfileResponseSchema',
+  },
+
+  // Follows; {userId} is the followed user, or the follower for CHECK_FOLLOW
+  FOLLOW_USER: {
+    method: 'POST', path: '/profiles/{userId}/follow', function: 'followUserFunction', auth: 'authenticated',
+    request: 'FollowRequestSchema', requestDefaults: ['followerId', 'followedUserId'], response: 'FollowActionResponseSchema',
+  },
+  UNFOLLOW_USER: {
+    method: 'POST', path: '/profiles/{userId}/unfollow', function: 'unfollowUserFunction', auth: 'authenticated',
+    request: 'UnfollowRequestSchema', requestDefaults: ['followerId', 'followedUserId'], response: 'FollowActionResponseSchema',
+  },
+  CHECK_FOLLOW: {
+    method: 'GET', path: '/profiles/{userId}/following/{targetUserId}', function: 'checkFollowFunction', auth: 'public',
+    response: 'FollowStatusResponseSchema',
+  },
+  GET_FOLLOWERS: {
+    method: 'GET', path: '/profiles/{userId}/followers', function: 'getFollowersFunction', auth: 'viewerAware',
+    query: 'PaginationQuerySchema', response: 'GetFollowersResponseSchema',
+  },
+  GET_FOLLOWING: {
+    method: 'GET', path: '/profiles/{userId}/following', function: 'getFollowingFunction', auth: 'viewerAware',
+    query: 'PaginationQuerySchema', response: 'GetFollowingResponseSchema',
+  },
+  GET_RELATIONSHIP: {
+    method: 'GET', path: '/profiles/{userId}/relationship/{otherUserId}', function: 'getRelationshipFunction', auth: 'authenticated',
+    response: 'RelationshipResponseSchema',
+  },
+  LIST_FOLLOW_REQUESTS: {
+    method: 'GET', path: '/profiles/{userId}/follow-requests', function: 'listFollowRequestsFunction', auth: 'authenticated',
+    query: 'PaginationQuerySchema', response: 'GetFollowRequestsResponseSchema',
+  },
+  APPROVE_FOLLOW_REQUEST: {
+    method: 'POST', path: '/profiles/{userId}/follow-requests/{requesterId}/approve', function: 'approveFollowRequestFunction', auth: 'authenticated',
+    response: 'FollowRequestDecisionResponseSchema',
+  },
+  DENY_FOLLOW_REQUEST: {
+    method: 'POST', path: '/profiles/{userId}/follow-requests/{requesterId}/deny', function: 'denyFollowRequestFunction', auth: 'authenticated',
+    response: 'FollowRequestDecisionResponseSchema',
+  },
+
+  // Blocks and mutes, placed by the caller on {userId}
+  BLOCK_USER: {
+    method: 'POST', path: '/profiles/{userId}/block', function: 'blockUserFunction', auth: 'authenticated',
+    response: 'BlockActionResponseSchema',
+  },
+  UNBLOCK_USER: {
+    method: 'POST', path: '/profiles/{userId}/unblock', function: 'unblockUserFunction', auth: 'authenticated',
+    response: 'BlockActionResponseSchema',
+  },
+  MUTE_USER: {
+    method: 'POST', path: '/profiles/{userId}/mute', function: 'muteUserFunction', auth: 'authenticated',
+    response: 'BlockActionResponseSchema',
+  },
+  UNMUTE_USER: {
+    method: 'POST', path: '/profiles/{userId}/unmute', function: 'unmuteUserFunction', auth: 'authenticated',
+    response: 'BlockActionResponseSchema',
+  },
+  LIST_BLOCKS: {
+    method: 'GET', path: '/profiles/{userId}/blocks', function: 'listBlocksFunction', auth: 'authenticated',
+    query: 'PaginationQuerySchema', response: 'GetBlockListResponseSchema',
+  },
+  LIST_MUTES: {
+    method: 'GET', path: '/profiles/{userId}/mutes', function: 'listMutesFunction', auth: 'authenticated',
+    query: 'PaginationQuerySchema', response: 'GetBlockListResponseSchema',
+  },
+
+  // Posts
+  CREATE_POST: {
+    method: 'POST', path: '/posts', function: 'createPostFunction', auth: 'authenticated',
+    request: 'CreatePostRequestSchema', requestDefaults: ['userId'], response: 'PostResponseSchema', status: 201,
+  },
+  GET_USER_POSTS: {
+    method: 'GET', path: '/profiles/{userId}/posts', function: 'getUserPostsFunction', auth: 'viewerAware',
+    query: 'PaginationQuerySchema', response: 'GetUserPostsResponseSchema',
+  },
+  UPDATE_POST: {
+    method: 'PUT', path: '/posts/{postId}', function: 'updatePostFunction', auth: 'authenticated',
+    request: 'UpdatePostRequestSchema', response: 'PostResponseSchema',
+  },
+  DELETE_POST: { method: 'DELETE', path: '/posts/{postId}', function: 'deletePostFunction', auth: 'authenticated' },
+  GET_POST_REVISIONS: {
+    method: 'GET', path: '/posts/{postId}/revisions', function: 'getPostRevisionsFunction', auth: 'viewerAware',
+    query: 'PaginationQuerySchema', response: 'GetPostRevisionsResponseSchema',
+  },
+
+  // Comments
+  LIST_COMMENTS: {
+    method: 'GET', path: '/posts/{postId}/comments', function: 'listCommentsFunction', auth: 'viewerAware',
+    query: 'PaginationQuerySchema', response: 'ListCommentsResponseSchema',
+  },
+  CREATE_COMMENT: {
+    method: 'POST', path: '/posts/{postId}/comments', function: 'createCommentFunction', auth: 'authenticated',
+    request: 'CreateCommentRequestSchema', requestDefaults: ['postId', 'userId'], response: 'CommentResponseSchema', status: 201,
+  },
+  DELETE_COMMENT: { method: 'DELETE', path: '/posts/{postId}/comments/{commentId}', function: 'deleteCommentFunction', auth: 'authenticated' },
+
+  // Likes
+  LIKE_POST: {
+    method: 'POST', path: '/like', function: 'likePostFunction', auth: 'authenticated',
+    request: 'LikePostRequestSchema', requestDefaults: ['userId'], response: 'LikeActionResponseSchema',
+  },
+  UNLIKE_POST: {
+    method: 'POST', path: '/unlike', function: 'unlikePostFunction', auth: 'authenticated',
+    request: 'UnlikePostRequestSchema', requestDefaults: ['userId'], response: 'LikeActionResponseSchema',
+  },
+  CHECK_LIKE: {
+    method: 'GET', path: '/likes/{userId}/{postId}', function: 'checkLikeStatusFunction', auth: 'public',
+    response: 'LikeStatusResponseSchema',
+  },
+
+  // Feed
+  GET_FEED: {
+    method: 'GET', path: '/profiles/{userId}/feed', function: 'getFeedFunction', auth: 'viewerAware',
+    query: 'GetFeedQuerySchema', response: 'GetFeedResponseSchema',
+  },
+
+  // Notifications
+  LIST_NOTIFICATIONS: {
+    method: 'GET', path: '/notifications/{userId}', function: 'listNotificationsFunction', auth: 'authenticated',
+    query: 'PaginationQuerySchema', response: 'GetNotificationsResponseSchema',
+  },
+  MARK_NOTIFICATIONS_READ: {
+    method: 'POST', path: '/notifications/{userId}/read', function: 'markNotificationsReadFunction', auth: 'authenticated',
+    request: 'MarkNotificationsReadRequestSchema', response: 'MarkNotificationsReadResponseSchema',
+  },
+
+  // Search
+  SEARCH: {
+    method: 'GET', path: '/search', function: 'searchFunction', auth: 'viewerAware',
+    query: 'SearchQuerySchema', response: 'SearchResponseSchema',
+  },
+
+  // Images
+  GET_UPLOAD_URL: {
+    method: 'POST', path: '/upload-url', function: 'imageUploadFunction', auth: 'authenticated',
+    request: 'UploadUrlRequestSchema', requestDefaults: ['userId'], response: 'UploadUrlResponseSchema',
+  },
+
+  // Admin
+  LIST_USERS: { method: 'GET', path: '/admin/users', function: 'listUsersFunction', auth: 'authenticated' },
+  DELETE_USER: {
+    method: 'DELETE', path: '/admin/users/{userId}', function: 'deleteUserFunction', auth: 'authenticated',
+    status: 202,
+  },
+  GET_USER_DELETION: { method: 'GET', path: '/admin/users/{userId}/deletion', function: 'getUserDeletionFunction', auth: 'authenticated' },
+  CLEANUP_ALL: { method: 'POST', path: '/admin/cleanup', function: 'cleanupAllFunction', auth: 'authenticated' },
+  GENERATE_TEST_DATA: { method: 'POST', path: '/admin/test-data', function: 'generateTestDataFunction', auth: 'authenticated' },
+  GET_EVENTS: {
+    method: 'GET', path: '/admin/events', function: 'getEventsFunction', auth: 'authenticated',
+    query: 'GetEventsQuerySchema', response: 'GetEventsResponseSchema',
+  },
+  LIST_DEAD_LETTER_QUEUES: {
+    method: 'GET', path: '/admin/dead-letters', function: 'listDeadLettersFunction', auth: 'authenticated',
+    response: 'GetDeadLetterQueuesResponseSchema',
+  },
+  LIST_DEAD_LETTERS: {
+    method: 'GET', path: '/admin/dead-letters/{consumer}', function: 'listDeadLettersFunction', auth: 'authenticated',
+    response: 'GetFailedEventsResponseSchema',
+  },
+  REDRIVE_DEAD_LETTERS: {
+    method: 'POST', path: '/admin/dead-letters/{consumer}/redrive', function: 'redriveDeadLettersFunction', auth: 'authenticated',
+    request: 'RedriveRequestSchema', response: 'RedriveResponseSchema',
+  },
+
+  // API documentation
+  DOCS: { method: 'GET', path: '/docs', function: 'docsFunction', auth: 'public' },
+  OPENAPI_DOCUMENT: { method: 'GET', path: '/docs/openapi.json', function: 'docsFunction', auth: 'public' },
+
+  // Data services - internal, called by other handlers with the caller's token
+  DATA_POSTS: { method: 'ANY', path: '/data/posts', function: 'postsDataServiceFunction', auth: 'authenticated', internal: true },
+  DATA_POSTS_PROXY: { method: 'ANY', path: '/data/posts/{proxy+}', function: 'postsDataServiceFunction', auth: 'authenticated', internal: true },
+  DATA_PROFILES: { method: 'ANY', path: '/data/profiles', function: 'profilesDataServiceFunction', auth: 'authenticated', internal: true },
+  DATA_PROFILES_PROXY: { method: 'ANY', path: '/data/profiles/{proxy+}', function: 'profilesDataServiceFunction', auth: 'authenticated', internal: true },
+} as const satisfies Record<string, ApiRouteDefinition>;
+
+export type ApiRouteName = keyof typeof API_ROUTES;
+
+/** The ApiGatewayConstruct props the routes are served by */
+export type ApiRouteFunction = (typeof API_ROUTES)[ApiRouteName]['function'];
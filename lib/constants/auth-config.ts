@@ -0,0 +1,10 @@
+export const AUTH_CONFIG = {
+  /** `iss` claim on every token issued by the service */
+  ISSUER: 'social-media-profile-service',
+  /** `aud` claim expected by the API authorizer */
+  AUDIENCE: 'social-media-api',
+  /** Access token lifetime */
+  TOKEN_TTL_SECONDS: 3600,
+  /** How long API Gateway caches an authorizer decision */
+  AUTHORIZER_CACHE_TTL_SECONDS: 300,
+} as const;
@@ -0,0 +1,14 @@
+export const EVENT_DELIVERY_CONFIG = {
+  /** Times Lambda retries an event its consumer failed on before dead-lettering it */
+  RETRY_ATTEMPTS: 2,
+  /** Events not delivered or processed within this many hours are dead-lettered */
+  MAX_EVENT_AGE_HOURS: 6,
+  /** Days a failed event waits in a consumer's dead letter queue */
+  DEAD_LETTER_RETENTION_DAYS: 14,
+  /**
+   * EventBridge archive that `npm run replay-events` replays from. Kept beside
+   * the EVENT# table archive because only EventBridge can replay into a
+   * single rule; the table archive is for browsing
+   */
+  ARCHIVE_NAME: 'social-media-events-archive',
+} as const;
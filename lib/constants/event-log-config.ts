@@ -0,0 +1,6 @@
+export const EVENT_LOG_CONFIG = {
+  /** Days an archived event is kept before the table's TTL removes it */
+  RETENTION_DAYS: 30,
+  /** Name of the table attribute DynamoDB reads expiry times from */
+  TTL_ATTRIBUTE: 'expiresAt',
+} as const;
@@ -0,0 +1,87 @@
+/**
+ * EventBridge rules routing domain events to their consumers, by the consumer
+ * names EventProcessingFunctions gives them. Every detail type must be in
+ * EVENT_CATALOG (lambda/shared/event-catalog.mjs) under the rule's source.
+ */
+export const EVENT_RULES = [
+  {
+    id: 'PostCreatedRule',
+    ruleName: 'post-created-rule',
+    description: 'Process post created events to generate feed items, mention notifications and search entries',
+    source: 'social-media.posts',
+    detailTypes: ['Post Created'],
+    consumers: ['feed-processor', 'notification-processor', 'search-indexer'],
+  },
+  {
+    id: 'PostChangesRule',
+    ruleName: 'post-changes-rule',
+    description: 'Process post edits and deletions to keep feed copies and search results current',
+    source: 'social-media.posts',
+    detailTypes: ['Post Updated', 'Post Deleted'],
+    consumers: ['feed-processor', 'search-indexer'],
+  },
+  {
+    id: 'ProfileEventsRule',
+    ruleName: 'profile-events-rule',
+    description: 'Process profile-related events',
+    source: 'social-media.profiles',
+    detailTypes: ['Profile Created', 'Profile Updated'],
+    consumers: ['profile-processor', 'search-indexer'],
+  },
+  {
+    id: 'ProfileDeletedRule',
+    ruleName: 'profile-deleted-rule',
+    description: 'Remove deleted profiles from search results',
+    source: 'social-media.profiles',
+    detailTypes: ['Profile Deleted'],
+    consumers: ['search-indexer'],
+  },
+  {
+    id: 'AuthorSyncRule',
+    ruleName: 'author-sync-rule',
+    description: 'Copy profile changes onto the user\'s posts and followers\' feed items',
+    source: 'social-media.profiles',
+    detailTypes: ['Profile Updated', 'Author Sync Continued'],
+    consumers: ['author-propagator'],
+  },
+  {
+    id: 'FollowEventsRule',
+    ruleName: 'follow-events-rule',
+    description: 'Process follow-related events',
+    source: 'social-media.follows',
+    detailTypes: ['User Followed', 'Follow Requested'],
+    consumers: ['notification-processor'],
+  },
+  {
+    id: 'FollowFeedRule',
+    ruleName: 'follow-feed-rule',
+    description: 'Backfill feeds on follow and remove the author\'s posts on unfollow',
+    source: 'social-media.follows',
+    detailTypes: ['User Followed', 'User Unfollowed'],
+    consumers: ['feed-processor'],
+  },
+  {
+    id: 'LikeEventsRule',
+    ruleName: 'like-events-rule',
+    description: 'Process like-related events',
+    source: 'social-media.likes',
+    detailTypes: ['Post Liked'],
+    consumers: ['notification-processor'],
+  },
+  {
+    id: 'CommentEventsRule',
+    ruleName: 'comment-events-rule',
+    description: 'Process comment events to notify post authors and mentioned users',
+    source: 'social-media.comments',
+    detailTypes: ['Comment Created'],
+    consumers: ['notification-processor'],
+  },
+  {
+    id: 'UserDeletionRule',
+    ruleName: 'user-deletion-rule',
+    description: 'Delete a user and everything they own, a step at a time',
+    source: 'social-media.admin',
+    detailTypes: ['User Deletion Requested', 'User Deletion Continued'],
+    consumers: ['user-deleter'],
+  },
+] as const;
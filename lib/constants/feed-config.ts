@@ -0,0 +1,19 @@
+export const FEED_CONFIG = {
+  /** Authors with at least this many followers are merged into feeds on read instead of fanned out */
+  FANOUT_FOLLOWER_THRESHOLD: 10000,
+  /** Recent posts copied into a follower's feed when they follow someone */
+  BACKFILL_POSTS: 20,
+  /** Ranked feed scoring; see lambda/shared/feed-ranking.mjs for the formula */
+  RANKING: {
+    /** Weight of the recency decay, 1 for a post created just now */
+    RECENCY_WEIGHT: 1,
+    /** Hours for the recency signal to halve */
+    RECENCY_HALF_LIFE_HOURS: 24,
+    /** Weight of how often the viewer has liked and commented on the author's posts */
+    AFFINITY_WEIGHT: 0.5,
+    /** Weight of the post's likes and comments */
+    ENGAGEMENT_WEIGHT: 0.3,
+    /** Newest feed items scored per ranked session */
+    CANDIDATES: 200,
+  },
+} as const;
@@ -0,0 +1,24 @@
+export const STREAM_CONFIG = {
+  /**
+   * Sort keys of the items whose changes are domain events, as Lambda event
+   * filter patterns. Must match EVENT_SORT_KEYS in lambda/shared/stream-events.mjs
+   */
+  EVENT_SORT_KEYS: [
+    'METADATA',
+    'PROFILE',
+    { prefix: 'FOLLOWS#' },
+    { prefix: 'FOLLOW_REQUEST#' },
+    { prefix: 'LIKE#' },
+    { prefix: 'COMMENT#' },
+    { prefix: 'BLOCKS#' },
+    { prefix: 'MUTES#' },
+  ],
+  /** Stream records per processor invocation */
+  BATCH_SIZE: 100,
+  /** Seconds to wait for a fuller batch */
+  MAX_BATCHING_WINDOW_SECONDS: 1,
+  /** Retries of a failing batch before its records go to the dead letter queue */
+  RETRY_ATTEMPTS: 10,
+  /** Records older than this are sent to the dead letter queue instead of published */
+  MAX_RECORD_AGE_HOURS: 24,
+} as const;
@@ -1,18 +1,25 @@
 import * as cdk from 'aws-cdk-lib';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
-import * as events from 'aws-cdk-lib/aws-events';
 import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import { BaseLambda } from './base-lambda';
+import { EventConsumer } from './event-processing-functions';
+import { EVENT_LOG_CONFIG } from '../constants/event-log-config';
 
 export interface AdminFunctionsProps {
   /** DynamoDB table for data storage */
   table: dynamodb.Table;
-  /** EventBridge bus for event access */
-  eventBus: events.EventBus;
+  /** Secret used to sign pagination cursors */
+  cursorSecret: secretsmanager.ISecret;
+  /** Event consumers whose dead letter queues admins can list and redrive */
+  eventConsumers: EventConsumer[];
   /** S3 bucket for cleanup operations */
   imagesBucket: s3.Bucket;
+  /** EventBridge bus that user deletions are started on */
+  eventBus: events.EventBus;
   /** API Gateway URL for test data generation */
   apiUrl?: string;
 }
@@ -20,17 +27,22 @@ export interface AdminFunctionsProps {
 /**
  * Admin Functions construct containing administrative operations
  * - List users
- * - Delete user
+ * - Delete user (started here, carried out by the user-deleter consumer)
+ * - Get a user deletion's progress
  * - Cleanup all data
  * - Generate test data
- * - Get events
+ * - Get events (from the archive kept by the event archiver)
+ * - List and redrive the event consumers' dead letter queues
  */
 export class AdminFunctions extends Construct {
   public readonly listUsersFunction: lambda.Function;
   public readonly deleteUserFunction: lambda.Function;
+  public readonly getUserDeletionFunction: lambda.Function;
   public readonly cleanupAllFunction: lambda.Function;
   public readonly generateTestDataFunction: lambda.Function;
   public readonly getEventsFunction: lambda.Function;
+  public readonly listDeadLettersFunction: lambda.Function;
+  public readonly redriveDeadLettersFunction: lambda.Function;
 
   constructor(scope: Construct, id: string, props: AdminFunctionsProps) {
     super(scope, id);
@@ -52,11 +64,23 @@ export class AdminFunctions extends Construct {
     const deleteUser = new BaseLambda(this, 'DeleteUser', {
       handler: 'admin-esm/delete-user.handler',
       codeAssetPath: 'lambda',
-      environment: baseEnvironment,
-      timeout: cdk.Duration.seconds(60),
+      environment: {
+        ...baseEnvironment,
+        EVENT_BUS_NAME: props.eventBus.eventBusName,
+      },
+      timeout: cdk.Duration.seconds(30),
     });
     this.deleteUserFunction = deleteUser.function;
 
+    // Get User Deletion Function (using ES modules)
+    const getUserDeletion = new BaseLambda(this, 'GetUserDeletion', {
+      handler: 'admin-esm/get-user-deletion.handler',
+      codeAssetPath: 'lambda',
+      environment: baseEnvironment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.getUserDeletionFunction = getUserDeletion.function;
+
     // Cleanup All Function (using ES modules)
     const cleanupAll = new BaseLambda(this, 'CleanupAll', {
       handler: 'admin-esm/cleanup-all.handler',
@@ -86,19 +110,66 @@ export class AdminFunctions extends Construct {
       handler: 'admin-esm/get-events.handler',
       codeAssetPath: 'lambda',
       environment: {
-        EVENT_BUS_NAME: props.eventBus.eventBusName,
+        ...baseEnvironment,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+        EVENT_RETENTION_DAYS: String(EVENT_LOG_CONFIG.RETENTION_DAYS),
       },
       timeout: cdk.Duration.seconds(30),
     });
     this.getEventsFunction = getEvents.function;
 
+    // Queue URL and function of each consumer, keyed by consumer name
+    const deadLetterQueues = cdk.Stack.of(this).toJsonString(Object.fromEntries(
+      props.eventConsumers.map(consumer => [consumer.name, {
+        queueUrl: consumer.deadLetterQueue.queueUrl,
+        functionArn: consumer.function.functionArn,
+      }]),
+    ));
+
+    // List Dead Letters Function (using ES modules)
+    const listDeadLetters = new BaseLambda(this, 'ListDeadLetters', {
+      handler: 'admin-esm/list-dead-letters.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        DEAD_LETTER_QUEUES: deadLetterQueues,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.listDeadLettersFunction = listDeadLetters.function;
+
+    // Redrive Dead Letters Function (using ES modules)
+    const redriveDeadLetters = new BaseLambda(this, 'RedriveDeadLetters', {
+      handler: 'admin-esm/redrive-dead-letters.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        DEAD_LETTER_QUEUES: deadLetterQueues,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.redriveDeadLettersFunction = redriveDeadLetters.function;
+
     // Grant DynamoDB permissions
     props.table.grantReadData(this.listUsersFunction);
     props.table.grantReadWriteData(this.deleteUserFunction);
+    props.table.grantReadData(this.getUserDeletionFunction);
     props.table.grantReadWriteData(this.cleanupAllFunction);
     props.table.grantReadWriteData(this.generateTestDataFunction);
+    props.table.grantReadData(this.getEventsFunction);
+
+    // Grant EventBridge permissions
+    props.eventBus.grantPutEventsTo(this.deleteUserFunction);
+
+    // Grant cursor secret access
+    props.cursorSecret.grantRead(this.getEventsFunction);
 
     // Grant S3 permissions for cleanup
     props.imagesBucket.grantReadWrite(this.cleanupAllFunction);
+
+    // Grant dead letter queue permissions; peeking receives without deleting
+    for (const consumer of props.eventConsumers) {
+      consumer.deadLetterQueue.grant(this.listDeadLettersFunction, 'sqs:ReceiveMessage', 'sqs:GetQueueAttributes');
+      consumer.deadLetterQueue.grantConsumeMessages(this.redriveDeadLettersFunction);
+      consumer.function.grantInvoke(this.redriveDeadLettersFunction);
+    }
   }
 }
\ No newline at end of file
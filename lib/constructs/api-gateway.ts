@@ -6,27 +6,59 @@ import * as s3deploy from 'aws-cdk-lib/aws-s3-deployment';
 import * as cloudfront from 'aws-cdk-lib/aws-cloudfront';
 import * as origins from 'aws-cdk-lib/aws-cloudfront-origins';
 import { Construct } from 'constructs';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AUTH_CONFIG } from '../constants/auth-config';
+import { API_ROUTES, ApiRouteAuth, ApiRouteDefinition } from '../constants/api-routes';
 
 export interface ApiGatewayConstructProps {
+  // Auth Functions
+  registerFunction: lambda.Function;
+  loginFunction: lambda.Function;
+  jwksFunction: lambda.Function;
+  authorizerFunction: lambda.Function;
+
   // Profile Functions
-  createProfileFunction: lambda.Function;
   getProfileFunction: lambda.Function;
   updateProfileFunction: lambda.Function;
   followUserFunction: lambda.Function;
   unfollowUserFunction: lambda.Function;
   checkFollowFunction: lambda.Function;
   getFollowersFunction: lambda.Function;
+  getFollowingFunction: lambda.Function;
+  getRelationshipFunction: lambda.Function;
+  listFollowRequestsFunction: lambda.Function;
+  approveFollowRequestFunction: lambda.Function;
+  denyFollowRequestFunction: lambda.Function;
+  blockUserFunction: lambda.Function;
+  unblockUserFunction: lambda.Function;
+  muteUserFunction: lambda.Function;
+  unmuteUserFunction: lambda.Function;
+  listBlocksFunction: lambda.Function;
+  listMutesFunction: lambda.Function;
 
   // Posts Functions
   createPostFunction: lambda.Function;
   getUserPostsFunction: lambda.Function;
+  updatePostFunction: lambda.Function;
+  deletePostFunction: lambda.Function;
+  getPostRevisionsFunction: lambda.Function;
+  createCommentFunction: lambda.Function;
+  listCommentsFunction: lambda.Function;
+  deleteCommentFunction: lambda.Function;
 
   // Social Functions
   likePostFunction: lambda.Function;
   unlikePostFunction: lambda.Function;
   checkLikeStatusFunction: lambda.Function;
   getFeedFunction: lambda.Function;
-  createFeedItemsFunction: lambda.Function;
+
+  // Notification Functions
+  listNotificationsFunction: lambda.Function;
+  markNotificationsReadFunction: lambda.Function;
+
+  // Search Functions
+  searchFunction: lambda.Function;
 
   // Image Functions
   imageUploadFunction: lambda.Function;
@@ -34,17 +66,84 @@ export interface ApiGatewayConstructProps {
   // Admin Functions
   listUsersFunction: lambda.Function;
   deleteUserFunction: lambda.Function;
+  getUserDeletionFunction: lambda.Function;
   cleanupAllFunction: lambda.Function;
   generateTestDataFunction: lambda.Function;
   getEventsFunction: lambda.Function;
+  listDeadLettersFunction: lambda.Function;
+  redriveDeadLettersFunction: lambda.Function;
 
-  // Data Service Functions (to be refactored)
+  // Data Service Functions
   postsDataServiceFunction?: lambda.Function;
   profilesDataServiceFunction?: lambda.Function;
+
+  // Docs Functions
+  docsFunction: lambda.Function;
 }
 
 /**
- * API Gateway construct containing REST API and all routes
+ * A schema in the OpenAPI document. Only the keywords modelSchema rewrites are
+ * spelled out; the rest are JSON Schema draft 4 ones, passed on as they are.
+ */
+interface OpenApiSchema {
+  $ref?: string;
+  format?: string;
+  properties?: Record<string, OpenApiSchema>;
+  items?: OpenApiSchema;
+  oneOf?: OpenApiSchema[];
+  [keyword: string]: unknown;
+}
+
+interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path' | 'header' | 'cookie';
+  required?: boolean;
+}
+
+interface OpenApiOperation {
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required?: boolean;
+    content: Record<string, { schema: OpenApiSchema }>;
+  };
+}
+
+/** The parts of the OpenAPI document the API is configured from */
+interface OpenApiDocument {
+  paths: Record<string, Record<string, OpenApiOperation | undefined> | undefined>;
+  components: { schemas: Record<string, OpenApiSchema> };
+}
+
+/**
+ * The OpenAPI document `npm run generate:openapi` writes from API_ROUTES and
+ * the shared schemas, also served at /docs/openapi.json
+ */
+const OPENAPI_DOCUMENT: OpenApiDocument = JSON.parse(readFileSync(join(__dirname, '../../lambda/shared/openapi.json'), 'utf8'));
+
+/**
+ * A document schema as a model schema (JSON Schema draft 4) with its
+ * references inlined. Formats are left to the handlers, which accept empty
+ * strings for optional URLs.
+ */
+function modelSchema(schema: OpenApiSchema): apigateway.JsonSchema {
+  if (schema.$ref) {
+    return modelSchema(OPENAPI_DOCUMENT.components.schemas[schema.$ref.split('/').pop()!]);
+  }
+
+  const { format, properties, items, oneOf, ...rest } = schema;
+  return {
+    ...(rest as apigateway.JsonSchema),
+    ...(properties && {
+      properties: Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, modelSchema(property)])),
+    }),
+    ...(items && { items: modelSchema(items) }),
+    ...(oneOf && { oneOf: oneOf.map(modelSchema) }),
+  };
+}
+
+/**
+ * API Gateway construct containing REST API and all routes (see API_ROUTES),
+ * with request validation from the OpenAPI document
  * Also includes static website hosting with CloudFront
  */
 export class ApiGatewayConstruct extends Construct {
@@ -65,84 +164,86 @@ export class ApiGatewayConstruct extends Construct {
       },
     });
 
-    // Profile routes
-    const profilesResource = this.api.root.addResource('profiles');
-    const profileResource = profilesResource.addResource('{userId}');
-
-    profilesResource.addMethod('POST', new apigateway.LambdaIntegration(props.createProfileFunction));
-    profileResource.addMethod('GET', new apigateway.LambdaIntegration(props.getProfileFunction));
-    profileResource.addMethod('PUT', new apigateway.LambdaIntegration(props.updateProfileFunction));
-
-    // Follow routes
-    const followResource = profileResource.addResource('follow');
-    const unfollowResource = profileResource.addResource('unfollow');
-    const checkFollowDetailResource = profileResource.addResource('following').addResource('{targetUserId}');
-    const followersResource = profileResource.addResource('followers');
-
-    followResource.addMethod('POST', new apigateway.LambdaIntegration(props.followUserFunction));
-    unfollowResource.addMethod('POST', new apigateway.LambdaIntegration(props.unfollowUserFunction));
-    checkFollowDetailResource.addMethod('GET', new apigateway.LambdaIntegration(props.checkFollowFunction));
-    followersResource.addMethod('GET', new apigateway.LambdaIntegration(props.getFollowersFunction));
-
-    // Posts routes
-    const postsResource = this.api.root.addResource('posts');
-    const userPostsResource = profileResource.addResource('posts');
-
-    postsResource.addMethod('POST', new apigateway.LambdaIntegration(props.createPostFunction));
-    userPostsResource.addMethod('GET', new apigateway.LambdaIntegration(props.getUserPostsFunction));
-
-    // Like routes
-    const likeResource = this.api.root.addResource('like');
-    const unlikeResource = this.api.root.addResource('unlike');
-    const checkLikeDetailResource = this.api.root.addResource('likes').addResource('{userId}').addResource('{postId}');
-
-    likeResource.addMethod('POST', new apigateway.LambdaIntegration(props.likePostFunction));
-    unlikeResource.addMethod('POST', new apigateway.LambdaIntegration(props.unlikePostFunction));
-    checkLikeDetailResource.addMethod('GET', new apigateway.LambdaIntegration(props.checkLikeStatusFunction));
-
-    // Feed routes
-    const userFeedResource = profileResource.addResource('feed');
-    const feedItemsResource = this.api.root.addResource('feed-items');
-
-    userFeedResource.addMethod('GET', new apigateway.LambdaIntegration(props.getFeedFunction));
-    feedItemsResource.addMethod('POST', new apigateway.LambdaIntegration(props.createFeedItemsFunction));
-
-    // Image upload routes
-    const uploadUrlResource = this.api.root.addResource('upload-url');
-    uploadUrlResource.addMethod('POST', new apigateway.LambdaIntegration(props.imageUploadFunction));
-
-    // Admin routes
-    const adminResource = this.api.root.addResource('admin');
-    const adminUsersResource = adminResource.addResource('users');
-    const adminUserResource = adminUsersResource.addResource('{userId}');
-    const adminCleanupResource = adminResource.addResource('cleanup');
-    const adminTestDataResource = adminResource.addResource('test-data');
-    const adminEventsResource = adminResource.addResource('events');
-
-    adminUsersResource.addMethod('GET', new apigateway.LambdaIntegration(props.listUsersFunction));
-    adminUserResource.addMethod('DELETE', new apigateway.LambdaIntegration(props.deleteUserFunction));
-    adminCleanupResource.addMethod('POST', new apigateway.LambdaIntegration(props.cleanupAllFunction));
-    adminTestDataResource.addMethod('POST', new apigateway.LambdaIntegration(props.generateTestDataFunction));
-    adminEventsResource.addMethod('GET', new apigateway.LambdaIntegration(props.getEventsFunction));
-
-    // Data service routes (if provided)
-    if (props.postsDataServiceFunction) {
-      const dataResource = this.api.root.addResource('data');
-      const dataPostsResource = dataResource.addResource('posts');
-      dataPostsResource.addMethod('ANY', new apigateway.LambdaIntegration(props.postsDataServiceFunction));
-      dataPostsResource.addProxy({
-        anyMethod: true,
-        defaultIntegration: new apigateway.LambdaIntegration(props.postsDataServiceFunction),
-      });
-    }
+    // One invoke permission per function for the whole API instead of two per
+    // method, which keeps the stack under CloudFormation's 500 resource limit
+    const integration = (handler: lambda.IFunction) =>
+      new apigateway.LambdaIntegration(handler, { scopePermissionToMethod: false });
+
+    // Token authorizer - handlers read the caller from requestContext.authorizer
+    const authorizer = new apigateway.TokenAuthorizer(this, 'TokenAuthorizer', {
+      handler: props.authorizerFunction,
+      resultsCacheTtl: cdk.Duration.seconds(AUTH_CONFIG.AUTHORIZER_CACHE_TTL_SECONDS),
+    });
+    const authenticated: apigateway.MethodOptions = {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.CUSTOM,
+    };
+
+    // Optional authorizer for public reads that hide private accounts from
+    // strangers. Without identity sources (and so without caching) anonymous
+    // requests still reach it; a token that is sent must be valid.
+    const optionalAuthorizer = new apigateway.RequestAuthorizer(this, 'OptionalAuthorizer', {
+      handler: props.authorizerFunction,
+      identitySources: [],
+      resultsCacheTtl: cdk.Duration.seconds(0),
+    });
+    const viewerAware: apigateway.MethodOptions = {
+      authorizer: optionalAuthorizer,
+      authorizationType: apigateway.AuthorizationType.CUSTOM,
+    };
+
+    // Required bodies and query parameters are checked before the handler
+    // runs; one model per document schema, shared by the routes using it
+    const requestValidator = this.api.addRequestValidator('RequestValidator', {
+      validateRequestBody: true,
+      validateRequestParameters: true,
+    });
+    const models = new Map<string, apigateway.Model>();
+    const requestModel = (ref: string) => {
+      const modelName = ref.split('/').pop()!;
+      if (!models.has(modelName)) {
+        models.set(modelName, this.api.addModel(modelName, {
+          contentType: 'application/json',
+          modelName,
+          schema: { schema: apigateway.JsonSchemaVersion.DRAFT4, title: modelName, ...modelSchema({ $ref: ref }) },
+        }));
+      }
+      return models.get(modelName)!;
+    };
+    const requestValidation = (route: ApiRouteDefinition): apigateway.MethodOptions => {
+      const operation = OPENAPI_DOCUMENT.paths[route.path]?.[route.method.toLowerCase()];
+      const body = operation?.requestBody?.required
+        ? operation.requestBody.content['application/json'].schema.$ref
+        : undefined;
+      const queryParameters = (operation?.parameters ?? [])
+        .filter(parameter => parameter.in === 'query' && parameter.required)
+        .map(parameter => parameter.name);
+      if (!body && !queryParameters.length) return {};
+
+      return {
+        requestValidator,
+        ...(body && { requestModels: { 'application/json': requestModel(body) } }),
+        ...(queryParameters.length && {
+          requestParameters: Object.fromEntries(queryParameters.map(name => [`method.request.querystring.${name}`, true])),
+        }),
+      };
+    };
+
+    // Every route comes from API_ROUTES; resourceForPath adds the resources
+    // along each path the first time one is used
+    const methodOptions: Record<ApiRouteAuth, apigateway.MethodOptions | undefined> = {
+      public: undefined,
+      authenticated,
+      viewerAware,
+    };
+    for (const route of Object.values(API_ROUTES)) {
+      const handler: lambda.Function | undefined = props[route.function];
+      // The data services are optional
+      if (!handler) continue;
 
-    if (props.profilesDataServiceFunction) {
-      const dataResource = this.api.root.getResource('data') || this.api.root.addResource('data');
-      const dataProfilesResource = dataResource.addResource('profiles');
-      dataProfilesResource.addMethod('ANY', new apigateway.LambdaIntegration(props.profilesDataServiceFunction));
-      dataProfilesResource.addProxy({
-        anyMethod: true,
-        defaultIntegration: new apigateway.LambdaIntegration(props.profilesDataServiceFunction),
+      this.api.root.resourceForPath(route.path).addMethod(route.method, integration(handler), {
+        ...methodOptions[route.auth],
+        ...requestValidation(route),
       });
     }
 
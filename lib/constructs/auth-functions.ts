@@ -0,0 +1,123 @@
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as cr from 'aws-cdk-lib/custom-resources';
+import { Construct } from 'constructs';
+import { BaseLambda } from './base-lambda';
+import { AUTH_CONFIG } from '../constants/auth-config';
+
+export interface AuthFunctionsProps {
+  /** DynamoDB table for data storage */
+  table: dynamodb.Table;
+  /** EventBridge bus for publishing events */
+  eventBus: events.EventBus;
+  /** External JWKS URL; when omitted tokens are verified with the service's own key */
+  jwksUrl?: string;
+}
+
+/**
+ * Auth Functions construct containing authentication operations
+ * - Register (creates profile + credentials, issues token)
+ * - Login (issues token)
+ * - JWKS (publishes the token verification key)
+ * - API Gateway token authorizer
+ * - RS256 signing key, generated once into Secrets Manager
+ */
+export class AuthFunctions extends Construct {
+  public readonly registerFunction: lambda.Function;
+  public readonly loginFunction: lambda.Function;
+  public readonly jwksFunction: lambda.Function;
+  public readonly authorizerFunction: lambda.Function;
+  public readonly signingKeySecret: secretsmanager.Secret;
+
+  constructor(scope: Construct, id: string, props: AuthFunctionsProps) {
+    super(scope, id);
+
+    // Signing key secret, populated by the key generator below
+    this.signingKeySecret = new secretsmanager.Secret(this, 'SigningKey', {
+      description: 'RS256 private JWK used to sign API access tokens',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    const signingKeyGenerator = new BaseLambda(this, 'SigningKeyGenerator', {
+      handler: 'signing-key.handler',
+      codeAssetPath: 'lambda/auth-esm',
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.signingKeySecret.grantWrite(signingKeyGenerator.function);
+
+    const signingKeyProvider = new cr.Provider(this, 'SigningKeyProvider', {
+      onEventHandler: signingKeyGenerator.function,
+    });
+
+    const signingKey = new cdk.CustomResource(this, 'SigningKeyResource', {
+      serviceToken: signingKeyProvider.serviceToken,
+      properties: { SecretArn: this.signingKeySecret.secretArn },
+    });
+
+    const environment = {
+      TABLE_NAME: props.table.tableName,
+      EVENT_BUS_NAME: props.eventBus.eventBusName,
+      AUTH_ISSUER: AUTH_CONFIG.ISSUER,
+      AUTH_AUDIENCE: AUTH_CONFIG.AUDIENCE,
+      AUTH_TOKEN_TTL_SECONDS: AUTH_CONFIG.TOKEN_TTL_SECONDS.toString(),
+      AUTH_SIGNING_KEY_SECRET_ARN: this.signingKeySecret.secretArn,
+      ...(props.jwksUrl && { AUTH_JWKS_URL: props.jwksUrl }),
+    };
+
+    // Register Function (using ES modules)
+    const register = new BaseLambda(this, 'Register', {
+      handler: 'auth-esm/register.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256, // scrypt hashing is CPU bound
+    });
+    this.registerFunction = register.function;
+
+    // Login Function (using ES modules)
+    const login = new BaseLambda(this, 'Login', {
+      handler: 'auth-esm/login.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+    });
+    this.loginFunction = login.function;
+
+    // JWKS Function (using ES modules)
+    const jwks = new BaseLambda(this, 'Jwks', {
+      handler: 'auth-esm/jwks.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(10),
+    });
+    this.jwksFunction = jwks.function;
+
+    // Token Authorizer Function (using ES modules)
+    const authorizer = new BaseLambda(this, 'Authorizer', {
+      handler: 'auth-esm/authorizer.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(10),
+    });
+    this.authorizerFunction = authorizer.function;
+
+    // Functions must not start before the key exists
+    [this.registerFunction, this.loginFunction, this.jwksFunction, this.authorizerFunction]
+      .forEach(fn => fn.node.addDependency(signingKey));
+
+    // Grant DynamoDB permissions
+    props.table.grantReadWriteData(this.registerFunction);
+    props.table.grantReadData(this.loginFunction);
+    props.table.grantReadData(this.authorizerFunction);
+
+    // Grant signing key access
+    this.signingKeySecret.grantRead(this.registerFunction);
+    this.signingKeySecret.grantRead(this.loginFunction);
+    this.signingKeySecret.grantRead(this.jwksFunction);
+    this.signingKeySecret.grantRead(this.authorizerFunction);
+  }
+}
@@ -2,7 +2,10 @@ import * as cdk from 'aws-cdk-lib';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
+import { EVENT_LOG_CONFIG } from '../constants/event-log-config';
+import { EVENT_DELIVERY_CONFIG } from '../constants/event-delivery-config';
 
 export interface DataLayerProps {
   /** Custom table name, defaults to 'user-profiles' */
@@ -16,8 +19,9 @@ export interface DataLayerProps {
 /**
  * Data Layer construct containing shared data resources
  * - DynamoDB table for all application data
- * - EventBridge custom bus for event processing
+ * - EventBridge custom bus for event processing, with an archive for replays
  * - S3 bucket for image storage
+ * - Secret used to sign pagination cursors
  */
 export class DataLayer extends Construct {
   /** DynamoDB table for storing user profiles, posts, likes, feeds, etc. */
@@ -26,9 +30,15 @@ export class DataLayer extends Construct {
   /** EventBridge custom event bus for application events */
   public readonly eventBus: events.EventBus;
 
+  /** Archive of the bus's events that replays are started from */
+  public readonly eventArchive: events.Archive;
+
   /** S3 bucket for storing uploaded images */
   public readonly imagesBucket: s3.Bucket;
 
+  /** HMAC secret for the opaque nextCursor tokens returned by list endpoints */
+  public readonly cursorSecret: secretsmanager.Secret;
+
   constructor(scope: Construct, id: string, props: DataLayerProps = {}) {
     super(scope, id);
 
@@ -43,6 +53,7 @@ export class DataLayer extends Construct {
         pointInTimeRecoveryEnabled: true,
       },
       stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES,
+      timeToLiveAttribute: EVENT_LOG_CONFIG.TTL_ATTRIBUTE, // Expires archived events
     });
 
     // Global Secondary Index for username lookups
@@ -57,6 +68,16 @@ export class DataLayer extends Construct {
       eventBusName: props.eventBusName ?? 'social-media-events',
     });
 
+    // Archive for replaying events into a single rule (npm run replay-events)
+    this.eventArchive = this.eventBus.archive('EventArchive', {
+      archiveName: EVENT_DELIVERY_CONFIG.ARCHIVE_NAME,
+      description: 'Application events, kept for replays after consumer fixes',
+      eventPattern: {
+        source: events.Match.prefix('social-media.'),
+      },
+      retention: cdk.Duration.days(EVENT_LOG_CONFIG.RETENTION_DAYS),
+    });
+
     // S3 Bucket for Image Storage
     this.imagesBucket = new s3.Bucket(this, 'ImagesBucket', {
       bucketName: `social-media-images-${props.bucketNameSuffix ?? cdk.Stack.of(this).account}`,
@@ -78,6 +99,16 @@ export class DataLayer extends Construct {
       ],
     });
 
+    // Pagination cursor signing secret
+    this.cursorSecret = new secretsmanager.Secret(this, 'CursorSecret', {
+      description: 'HMAC key used to sign list pagination cursors',
+      generateSecretString: {
+        passwordLength: 64,
+        excludePunctuation: true,
+      },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
     // CloudFormation outputs for cross-stack references
     new cdk.CfnOutput(this, 'TableName', {
       value: this.table.tableName,
@@ -0,0 +1,51 @@
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import { Construct } from 'constructs';
+import { BaseLambda } from './base-lambda';
+
+export interface DataServiceFunctionsProps {
+  /** DynamoDB table for data storage */
+  table: dynamodb.Table;
+}
+
+/**
+ * Data Service Functions construct containing the internal /data/* services
+ * other handlers call over the API with the caller's token
+ * - Posts data service: create, get, batch-get and update posts
+ * - Profiles data service: create, get, batch-get and update profiles
+ */
+export class DataServiceFunctions extends Construct {
+  public readonly postsDataServiceFunction: lambda.Function;
+  public readonly profilesDataServiceFunction: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: DataServiceFunctionsProps) {
+    super(scope, id);
+
+    const environment = {
+      TABLE_NAME: props.table.tableName,
+    };
+
+    // Posts Data Service Function - also rewrites fan-out feed copies on update
+    const postsDataService = new BaseLambda(this, 'PostsDataService', {
+      handler: 'data-esm/posts-data-service.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(60),
+    });
+    this.postsDataServiceFunction = postsDataService.function;
+
+    // Profiles Data Service Function (using ES modules)
+    const profilesDataService = new BaseLambda(this, 'ProfilesDataService', {
+      handler: 'data-esm/profiles-data-service.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.profilesDataServiceFunction = profilesDataService.function;
+
+    // Grant DynamoDB permissions
+    props.table.grantReadWriteData(this.postsDataServiceFunction);
+    props.table.grantReadWriteData(this.profilesDataServiceFunction);
+  }
+}
@@ -0,0 +1,24 @@
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { Construct } from 'constructs';
+import { BaseLambda } from './base-lambda';
+
+/**
+ * Docs Functions construct serving the API documentation
+ * - The OpenAPI document and a page browsing it
+ */
+export class DocsFunctions extends Construct {
+  public readonly docsFunction: lambda.Function;
+
+  constructor(scope: Construct, id: string) {
+    super(scope, id);
+
+    // Docs Function (using ES modules) - serves lambda/shared/openapi.json
+    const docs = new BaseLambda(this, 'Docs', {
+      handler: 'docs-esm/docs.handler',
+      codeAssetPath: 'lambda',
+      timeout: cdk.Duration.seconds(10),
+    });
+    this.docsFunction = docs.function;
+  }
+}
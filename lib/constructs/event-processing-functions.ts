@@ -1,37 +1,72 @@
 import * as cdk from 'aws-cdk-lib';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as destinations from 'aws-cdk-lib/aws-lambda-destinations';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
 import { Construct } from 'constructs';
 import { BaseLambda } from './base-lambda';
+import { FEED_CONFIG } from '../constants/feed-config';
+import { EVENT_LOG_CONFIG } from '../constants/event-log-config';
+import { EVENT_DELIVERY_CONFIG } from '../constants/event-delivery-config';
+import { EVENT_RULES } from '../constants/event-rules';
 
-export interface EventProcessingFunctionsProps {
+/** A function consuming bus events, with the queue its failed events go to */
+export interface EventConsumer {
+  /** Name used by the dead letter admin endpoints, e.g. 'feed-processor' */
+  name: string;
+  function: lambda.Function;
+  deadLetterQueue: sqs.Queue;
+}
+
+export interface EventProcessingFunctionsProps extends cdk.NestedStackProps {
   /** DynamoDB table for data storage */
   table: dynamodb.Table;
   /** EventBridge bus for processing events */
   eventBus: events.EventBus;
-  /** API Gateway URL for feed processor */
-  apiUrl?: string;
+  /** S3 bucket holding user uploads, emptied of a user's when they are deleted */
+  imagesBucket: s3.Bucket;
 }
 
 /**
- * Event Processing Functions construct containing event-driven operations
+ * Event Processing Functions nested stack containing event-driven operations
  * - Profile event processor
  * - Feed processor
- * - EventBridge rules and targets
+ * - Notification processor
+ * - Search indexer
+ * - Author propagator
+ * - User deleter (admin-requested account deletion)
+ * - Event archiver (for the admin events view)
+ * - EventBridge rules and targets (see EVENT_RULES)
+ * - A dead letter queue per consumer
+ *
+ * A nested stack keeps the parent stack under CloudFormation's resource limit.
+ *
+ * Each consumer's queue receives the events Lambda still failed on after
+ * EVENT_DELIVERY_CONFIG.RETRY_ATTEMPTS retries, and those EventBridge could
+ * not deliver to it. The admin dead letter endpoints list and redrive them.
  */
-export class EventProcessingFunctions extends Construct {
+export class EventProcessingFunctions extends cdk.NestedStack {
   public readonly profileEventProcessor: lambda.Function;
   public readonly feedProcessor: lambda.Function;
+  public readonly notificationProcessor: lambda.Function;
+  public readonly searchIndexer: lambda.Function;
+  public readonly authorPropagator: lambda.Function;
+  public readonly userDeleter: lambda.Function;
+  public readonly eventArchiver: lambda.Function;
+
+  /** Every function above with its dead letter queue */
+  public readonly consumers: EventConsumer[] = [];
 
   constructor(scope: Construct, id: string, props: EventProcessingFunctionsProps) {
-    super(scope, id);
+    super(scope, id, props);
 
     // Profile Event Processor (using ES modules)
     const profileProcessor = new BaseLambda(this, 'ProfileEventProcessor', {
-      handler: 'profile-processor.handler',
-      codeAssetPath: 'lambda/events-esm',
+      handler: 'events-esm/profile-processor.handler',
+      codeAssetPath: 'lambda',
       environment: {
         TABLE_NAME: props.table.tableName,
       },
@@ -40,63 +75,164 @@ export class EventProcessingFunctions extends Construct {
     this.profileEventProcessor = profileProcessor.function;
 
     // Feed Processor (using ES modules)
+    // Fans out posts and backfills or cleans up feeds on follow changes;
+    // large audiences need more than the default timeout
     const feedProcessorFunc = new BaseLambda(this, 'FeedProcessor', {
-      handler: 'feed-processor.handler',
-      codeAssetPath: 'lambda/events-esm',
+      handler: 'events-esm/feed-processor.handler',
+      codeAssetPath: 'lambda',
       environment: {
-        API_BASE_URL: props.apiUrl?.replace(/\/$/, '') ?? '',
+        TABLE_NAME: props.table.tableName,
+        FEED_FANOUT_THRESHOLD: String(FEED_CONFIG.FANOUT_FOLLOWER_THRESHOLD),
+        FEED_BACKFILL_POSTS: String(FEED_CONFIG.BACKFILL_POSTS),
       },
-      timeout: cdk.Duration.seconds(30),
+      timeout: cdk.Duration.minutes(5),
     });
     this.feedProcessor = feedProcessorFunc.function;
 
-    // Grant DynamoDB permissions
-    props.table.grantReadData(this.profileEventProcessor);
+    // Notification Processor (using ES modules)
+    // Bundled from lambda/ rather than lambda/events-esm so it can use the shared layer
+    const notificationProcessorFunc = new BaseLambda(this, 'NotificationProcessor', {
+      handler: 'events-esm/notification-processor.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.notificationProcessor = notificationProcessorFunc.function;
 
-    // EventBridge Rules for Feed Processor
-    new events.Rule(this, 'PostCreatedRule', {
-      eventBus: props.eventBus,
-      ruleName: 'post-created-rule',
-      description: 'Process post created events to generate feed items',
-      eventPattern: {
-        source: ['social-media.posts'],
-        detailType: ['Post Created'],
+    // Search Indexer (using ES modules)
+    const searchIndexerFunc = new BaseLambda(this, 'SearchIndexer', {
+      handler: 'events-esm/search-indexer.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
       },
-      targets: [new targets.LambdaFunction(this.feedProcessor)],
+      timeout: cdk.Duration.seconds(60),
     });
+    this.searchIndexer = searchIndexerFunc.function;
 
-    // EventBridge Rules for Profile Event Processor
-    new events.Rule(this, 'ProfileEventsRule', {
-      eventBus: props.eventBus,
-      ruleName: 'profile-events-rule',
-      description: 'Process profile-related events',
-      eventPattern: {
-        source: ['social-media.profiles'],
-        detailType: ['Profile Created', 'Profile Updated'],
+    // Author Propagator (using ES modules)
+    // Rewrites author fields on posts and feed items; resumes itself via the bus
+    const authorPropagatorFunc = new BaseLambda(this, 'AuthorPropagator', {
+      handler: 'events-esm/author-propagator.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        EVENT_BUS_NAME: props.eventBus.eventBusName,
       },
-      targets: [new targets.LambdaFunction(this.profileEventProcessor)],
+      timeout: cdk.Duration.minutes(5),
     });
+    this.authorPropagator = authorPropagatorFunc.function;
 
-    new events.Rule(this, 'FollowEventsRule', {
-      eventBus: props.eventBus,
-      ruleName: 'follow-events-rule',
-      description: 'Process follow-related events',
-      eventPattern: {
-        source: ['social-media.follows'],
-        detailType: ['User Followed', 'User Unfollowed'],
+    // User Deleter (using ES modules)
+    // Deletes a user's items, uploads and counterpart counters; resumes itself via the bus
+    const userDeleterFunc = new BaseLambda(this, 'UserDeleter', {
+      handler: 'events-esm/user-deleter.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        EVENT_BUS_NAME: props.eventBus.eventBusName,
+        IMAGES_BUCKET_NAME: props.imagesBucket.bucketName,
       },
-      targets: [new targets.LambdaFunction(this.profileEventProcessor)],
+      timeout: cdk.Duration.minutes(5),
     });
+    this.userDeleter = userDeleterFunc.function;
 
-    new events.Rule(this, 'LikeEventsRule', {
+    // Event Archiver (using ES modules)
+    // Stores every event under EVENT#<date> until the table's TTL expires it
+    const eventArchiverFunc = new BaseLambda(this, 'EventArchiver', {
+      handler: 'events-esm/event-archiver.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        EVENT_RETENTION_DAYS: String(EVENT_LOG_CONFIG.RETENTION_DAYS),
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.eventArchiver = eventArchiverFunc.function;
+
+    // Dead letter queues
+    this.addConsumer('profile-processor', this.profileEventProcessor);
+    this.addConsumer('feed-processor', this.feedProcessor);
+    this.addConsumer('notification-processor', this.notificationProcessor);
+    this.addConsumer('search-indexer', this.searchIndexer);
+    this.addConsumer('author-propagator', this.authorPropagator);
+    this.addConsumer('user-deleter', this.userDeleter);
+    this.addConsumer('event-archiver', this.eventArchiver);
+
+    // Grant DynamoDB permissions
+    props.table.grantReadData(this.profileEventProcessor);
+    props.table.grantReadWriteData(this.feedProcessor);
+    props.table.grantReadWriteData(this.notificationProcessor);
+    props.table.grantReadWriteData(this.searchIndexer);
+    props.table.grantReadWriteData(this.authorPropagator);
+    props.table.grantReadWriteData(this.userDeleter);
+    props.table.grantWriteData(this.eventArchiver);
+
+    // Grant EventBridge permissions
+    props.eventBus.grantPutEventsTo(this.authorPropagator);
+    props.eventBus.grantPutEventsTo(this.userDeleter);
+
+    // Grant S3 permissions
+    props.imagesBucket.grantRead(this.userDeleter);
+    props.imagesBucket.grantDelete(this.userDeleter);
+
+    // EventBridge Rules for the consumers
+    for (const rule of EVENT_RULES) {
+      new events.Rule(this, rule.id, {
+        eventBus: props.eventBus,
+        ruleName: rule.ruleName,
+        description: rule.description,
+        eventPattern: {
+          source: [rule.source],
+          detailType: [...rule.detailTypes],
+        },
+        targets: rule.consumers.map(name => this.target(name)),
+      });
+    }
+
+    // EventBridge Rule for the Event Archiver
+    new events.Rule(this, 'EventArchiveRule', {
       eventBus: props.eventBus,
-      ruleName: 'like-events-rule',
-      description: 'Process like-related events',
+      ruleName: 'event-archive-rule',
+      description: 'Archive every application event for the admin events view',
       eventPattern: {
-        source: ['social-media.likes'],
-        detailType: ['Post Liked', 'Post Unliked'],
+        source: events.Match.prefix('social-media.'),
       },
-      targets: [new targets.LambdaFunction(this.profileEventProcessor)],
+      targets: [this.target('event-archiver')],
+    });
+  }
+
+  /**
+   * Give a consumer a dead letter queue for events it fails on after retries
+   */
+  private addConsumer(name: string, consumer: lambda.Function): void {
+    // 'feed-processor' → 'FeedProcessorDeadLetterQueue'
+    const id = name.replace(/(^|-)(\w)/g, (match, dash, letter) => letter.toUpperCase());
+    const deadLetterQueue = new sqs.Queue(this, `${id}DeadLetterQueue`, {
+      retentionPeriod: cdk.Duration.days(EVENT_DELIVERY_CONFIG.DEAD_LETTER_RETENTION_DAYS),
+    });
+
+    consumer.configureAsyncInvoke({
+      retryAttempts: EVENT_DELIVERY_CONFIG.RETRY_ATTEMPTS,
+      maxEventAge: cdk.Duration.hours(EVENT_DELIVERY_CONFIG.MAX_EVENT_AGE_HOURS),
+      onFailure: new destinations.SqsDestination(deadLetterQueue),
+    });
+
+    this.consumers.push({ name, function: consumer, deadLetterQueue });
+  }
+
+  /**
+   * Rule target for a consumer; events EventBridge cannot deliver go to the
+   * consumer's dead letter queue
+   */
+  private target(name: string): targets.LambdaFunction {
+    const { function: consumer, deadLetterQueue } = this.consumers.find(entry => entry.name === name)!;
+
+    return new targets.LambdaFunction(consumer, {
+      deadLetterQueue,
+      maxEventAge: cdk.Duration.hours(EVENT_DELIVERY_CONFIG.MAX_EVENT_AGE_HOURS),
     });
   }
-}
\ No newline at end of file
+}
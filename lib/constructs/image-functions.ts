@@ -21,8 +21,8 @@ export class ImageFunctions extends Construct {
 
     // Image Upload Function (using ES modules)
     const imageUpload = new BaseLambda(this, 'ImageUpload', {
-      handler: 'upload-url.handler',
-      codeAssetPath: 'lambda/images-esm',
+      handler: 'images-esm/upload-url.handler',
+      codeAssetPath: 'lambda',
       environment: {
         IMAGES_BUCKET_NAME: props.imagesBucket.bucketName,
       },
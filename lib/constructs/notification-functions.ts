@@ -0,0 +1,57 @@
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+import { BaseLambda } from './base-lambda';
+
+export interface NotificationFunctionsProps {
+  /** DynamoDB table for data storage */
+  table: dynamodb.Table;
+  /** Secret used to sign list pagination cursors */
+  cursorSecret: secretsmanager.ISecret;
+}
+
+/**
+ * Notification Functions construct containing notification read operations.
+ * Notifications are written by the notification processor in
+ * EventProcessingFunctions.
+ * - List notifications with the unread count
+ * - Mark notifications read
+ */
+export class NotificationFunctions extends Construct {
+  public readonly listNotificationsFunction: lambda.Function;
+  public readonly markNotificationsReadFunction: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: NotificationFunctionsProps) {
+    super(scope, id);
+
+    // List Notifications Function (using ES modules)
+    const listNotifications = new BaseLambda(this, 'ListNotifications', {
+      handler: 'notifications-esm/list.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.listNotificationsFunction = listNotifications.function;
+
+    // Mark Notifications Read Function (using ES modules)
+    const markNotificationsRead = new BaseLambda(this, 'MarkNotificationsRead', {
+      handler: 'notifications-esm/mark-read.handler',
+      codeAssetPath: 'lambda',
+      environment: { TABLE_NAME: props.table.tableName },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.markNotificationsReadFunction = markNotificationsRead.function;
+
+    // Grant DynamoDB permissions
+    props.table.grantReadData(this.listNotificationsFunction);
+    props.table.grantReadWriteData(this.markNotificationsReadFunction);
+
+    // Grant cursor secret access
+    props.cursorSecret.grantRead(this.listNotificationsFunction);
+  }
+}
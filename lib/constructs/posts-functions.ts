@@ -2,6 +2,7 @@ import * as cdk from 'aws-cdk-lib';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as events from 'aws-cdk-lib/aws-events';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import { BaseLambda } from './base-lambda';
 
@@ -10,16 +11,26 @@ export interface PostsFunctionsProps {
   table: dynamodb.Table;
   /** EventBridge bus for publishing events */
   eventBus: events.EventBus;
+  /** Secret used to sign list pagination cursors */
+  cursorSecret: secretsmanager.ISecret;
 }
 
 /**
  * Posts Functions construct containing post operations
  * - Create post
  * - Get user posts
+ * - Edit and delete posts, with revision history
+ * - Create, list and delete comments
  */
 export class PostsFunctions extends Construct {
   public readonly createPostFunction: lambda.Function;
   public readonly getUserPostsFunction: lambda.Function;
+  public readonly updatePostFunction: lambda.Function;
+  public readonly deletePostFunction: lambda.Function;
+  public readonly getPostRevisionsFunction: lambda.Function;
+  public readonly createCommentFunction: lambda.Function;
+  public readonly listCommentsFunction: lambda.Function;
+  public readonly deleteCommentFunction: lambda.Function;
 
   constructor(scope: Construct, id: string, props: PostsFunctionsProps) {
     super(scope, id);
@@ -29,29 +40,99 @@ export class PostsFunctions extends Construct {
       EVENT_BUS_NAME: props.eventBus.eventBusName,
     };
 
-    // Create Post Function (using ES modules)
+    // Create Post Function - stores posts through the posts data service;
+    // the stack adds API_BASE_URL once the API exists
     const createPost = new BaseLambda(this, 'CreatePost', {
-      handler: 'create.handler',
-      codeAssetPath: 'lambda/posts-esm',
-      environment,
+      handler: 'posts-esm/create.handler',
+      codeAssetPath: 'lambda',
       timeout: cdk.Duration.seconds(30),
     });
     this.createPostFunction = createPost.function;
 
     // Get User Posts Function (using ES modules)
     const getUserPosts = new BaseLambda(this, 'GetUserPosts', {
-      handler: 'get-user-posts.handler',
-      codeAssetPath: 'lambda/posts-esm',
-      environment: { TABLE_NAME: props.table.tableName },
+      handler: 'posts-esm/get-user-posts.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
       timeout: cdk.Duration.seconds(30),
     });
     this.getUserPostsFunction = getUserPosts.function;
 
+    // Update Post Function - also rewrites fan-out feed copies
+    const updatePost = new BaseLambda(this, 'UpdatePost', {
+      handler: 'posts-esm/update.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(60),
+    });
+    this.updatePostFunction = updatePost.function;
+
+    // Delete Post Function - also removes fan-out feed copies
+    const deletePost = new BaseLambda(this, 'DeletePost', {
+      handler: 'posts-esm/delete.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(60),
+    });
+    this.deletePostFunction = deletePost.function;
+
+    // Get Post Revisions Function (using ES modules)
+    const getPostRevisions = new BaseLambda(this, 'GetPostRevisions', {
+      handler: 'posts-esm/revisions.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.getPostRevisionsFunction = getPostRevisions.function;
+
+    // Create Comment Function (using ES modules)
+    const createComment = new BaseLambda(this, 'CreateComment', {
+      handler: 'comments-esm/create.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.createCommentFunction = createComment.function;
+
+    // List Comments Function (using ES modules)
+    const listComments = new BaseLambda(this, 'ListComments', {
+      handler: 'comments-esm/list.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.listCommentsFunction = listComments.function;
+
+    // Delete Comment Function (using ES modules)
+    const deleteComment = new BaseLambda(this, 'DeleteComment', {
+      handler: 'comments-esm/delete.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.deleteCommentFunction = deleteComment.function;
+
     // Grant DynamoDB permissions
-    props.table.grantReadWriteData(this.createPostFunction);
     props.table.grantReadData(this.getUserPostsFunction);
+    props.table.grantReadWriteData(this.updatePostFunction);
+    props.table.grantReadWriteData(this.deletePostFunction);
+    props.table.grantReadData(this.getPostRevisionsFunction);
+    props.table.grantReadWriteData(this.createCommentFunction);
+    props.table.grantReadData(this.listCommentsFunction);
+    props.table.grantReadWriteData(this.deleteCommentFunction);
 
-    // Grant EventBridge permissions
-    props.eventBus.grantPutEventsTo(this.createPostFunction);
+    // Grant cursor secret access
+    props.cursorSecret.grantRead(this.getUserPostsFunction);
+    props.cursorSecret.grantRead(this.getPostRevisionsFunction);
+    props.cursorSecret.grantRead(this.listCommentsFunction);
   }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import * as cdk from 'aws-cdk-lib';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as events from 'aws-cdk-lib/aws-events';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import { BaseLambda } from './base-lambda';
 
@@ -10,25 +11,39 @@ export interface ProfileFunctionsProps {
   table: dynamodb.Table;
   /** EventBridge bus for publishing events */
   eventBus: events.EventBus;
+  /** Secret used to sign list pagination cursors */
+  cursorSecret: secretsmanager.ISecret;
 }
 
 /**
  * Profile Functions construct containing user profile operations
- * - Create profile
  * - Get profile
  * - Update profile
  * - Follow/unfollow users
  * - Check follow status
- * - Get followers
+ * - Get followers and following
+ * - Get the relationship between two users
+ * - List, approve and deny follow requests to private accounts
+ * - Block/unblock and mute/unmute users, and list blocked and muted users
  */
 export class ProfileFunctions extends Construct {
-  public readonly createProfileFunction: lambda.Function;
   public readonly getProfileFunction: lambda.Function;
   public readonly updateProfileFunction: lambda.Function;
   public readonly followUserFunction: lambda.Function;
   public readonly unfollowUserFunction: lambda.Function;
   public readonly checkFollowFunction: lambda.Function;
   public readonly getFollowersFunction: lambda.Function;
+  public readonly getFollowingFunction: lambda.Function;
+  public readonly getRelationshipFunction: lambda.Function;
+  public readonly listFollowRequestsFunction: lambda.Function;
+  public readonly approveFollowRequestFunction: lambda.Function;
+  public readonly denyFollowRequestFunction: lambda.Function;
+  public readonly blockUserFunction: lambda.Function;
+  public readonly unblockUserFunction: lambda.Function;
+  public readonly muteUserFunction: lambda.Function;
+  public readonly unmuteUserFunction: lambda.Function;
+  public readonly listBlocksFunction: lambda.Function;
+  public readonly listMutesFunction: lambda.Function;
 
   constructor(scope: Construct, id: string, props: ProfileFunctionsProps) {
     super(scope, id);
@@ -38,19 +53,10 @@ export class ProfileFunctions extends Construct {
       EVENT_BUS_NAME: props.eventBus.eventBusName,
     };
 
-    // Create Profile Function (using ES modules)
-    const createProfile = new BaseLambda(this, 'CreateProfile', {
-      handler: 'create.handler',
-      codeAssetPath: 'lambda/profile-esm',
-      environment,
-      timeout: cdk.Duration.seconds(30),
-    });
-    this.createProfileFunction = createProfile.function;
-
     // Get Profile Function (using ES modules)
     const getProfile = new BaseLambda(this, 'GetProfile', {
-      handler: 'get.handler',
-      codeAssetPath: 'lambda/profile-esm',
+      handler: 'profile-esm/get.handler',
+      codeAssetPath: 'lambda',
       environment: { TABLE_NAME: props.table.tableName },
       timeout: cdk.Duration.seconds(30),
     });
@@ -58,8 +64,8 @@ export class ProfileFunctions extends Construct {
 
     // Update Profile Function (using ES modules)
     const updateProfile = new BaseLambda(this, 'UpdateProfile', {
-      handler: 'update.handler',
-      codeAssetPath: 'lambda/profile-esm',
+      handler: 'profile-esm/update.handler',
+      codeAssetPath: 'lambda',
       environment,
       timeout: cdk.Duration.seconds(30),
     });
@@ -67,8 +73,8 @@ export class ProfileFunctions extends Construct {
 
     // Follow User Function (using ES modules)
     const followUser = new BaseLambda(this, 'FollowUser', {
-      handler: 'follow.handler',
-      codeAssetPath: 'lambda/social-esm',
+      handler: 'social-esm/follow.handler',
+      codeAssetPath: 'lambda',
       environment,
       timeout: cdk.Duration.seconds(30),
     });
@@ -76,8 +82,8 @@ export class ProfileFunctions extends Construct {
 
     // Unfollow User Function (using ES modules)
     const unfollowUser = new BaseLambda(this, 'UnfollowUser', {
-      handler: 'unfollow.handler',
-      codeAssetPath: 'lambda/social-esm',
+      handler: 'social-esm/unfollow.handler',
+      codeAssetPath: 'lambda',
       environment,
       timeout: cdk.Duration.seconds(30),
     });
@@ -85,8 +91,8 @@ export class ProfileFunctions extends Construct {
 
     // Check Follow Function (using ES modules)
     const checkFollow = new BaseLambda(this, 'CheckFollow', {
-      handler: 'check-follow.handler',
-      codeAssetPath: 'lambda/social-esm',
+      handler: 'social-esm/check-follow.handler',
+      codeAssetPath: 'lambda',
       environment: { TABLE_NAME: props.table.tableName },
       timeout: cdk.Duration.seconds(30),
     });
@@ -94,26 +100,151 @@ export class ProfileFunctions extends Construct {
 
     // Get Followers Function (using ES modules)
     const getFollowers = new BaseLambda(this, 'GetFollowers', {
-      handler: 'get-followers.handler',
-      codeAssetPath: 'lambda/social-esm',
-      environment: { TABLE_NAME: props.table.tableName },
+      handler: 'social-esm/get-followers.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
       timeout: cdk.Duration.seconds(30),
     });
     this.getFollowersFunction = getFollowers.function;
 
+    // Get Following Function (using ES modules)
+    const getFollowing = new BaseLambda(this, 'GetFollowing', {
+      handler: 'social-esm/get-following.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.getFollowingFunction = getFollowing.function;
+
+    // Get Relationship Function (using ES modules)
+    const getRelationship = new BaseLambda(this, 'GetRelationship', {
+      handler: 'social-esm/get-relationship.handler',
+      codeAssetPath: 'lambda',
+      environment: { TABLE_NAME: props.table.tableName },
+      timeout: cdk.Duration.seconds(10),
+    });
+    this.getRelationshipFunction = getRelationship.function;
+
+    // List Follow Requests Function (using ES modules)
+    const listFollowRequests = new BaseLambda(this, 'ListFollowRequests', {
+      handler: 'social-esm/list-follow-requests.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.listFollowRequestsFunction = listFollowRequests.function;
+
+    // Approve Follow Request Function (using ES modules)
+    const approveFollowRequest = new BaseLambda(this, 'ApproveFollowRequest', {
+      handler: 'social-esm/approve-follow-request.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.approveFollowRequestFunction = approveFollowRequest.function;
+
+    // Deny Follow Request Function (using ES modules)
+    const denyFollowRequest = new BaseLambda(this, 'DenyFollowRequest', {
+      handler: 'social-esm/deny-follow-request.handler',
+      codeAssetPath: 'lambda',
+      environment: { TABLE_NAME: props.table.tableName },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.denyFollowRequestFunction = denyFollowRequest.function;
+
+    // Block User Function (using ES modules)
+    const blockUser = new BaseLambda(this, 'BlockUser', {
+      handler: 'social-esm/block.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.blockUserFunction = blockUser.function;
+
+    // Unblock User Function (using ES modules)
+    const unblockUser = new BaseLambda(this, 'UnblockUser', {
+      handler: 'social-esm/unblock.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.unblockUserFunction = unblockUser.function;
+
+    // Mute User Function (using ES modules)
+    const muteUser = new BaseLambda(this, 'MuteUser', {
+      handler: 'social-esm/mute.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.muteUserFunction = muteUser.function;
+
+    // Unmute User Function (using ES modules)
+    const unmuteUser = new BaseLambda(this, 'UnmuteUser', {
+      handler: 'social-esm/unmute.handler',
+      codeAssetPath: 'lambda',
+      environment,
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.unmuteUserFunction = unmuteUser.function;
+
+    // List Blocks Function (using ES modules)
+    const listBlocks = new BaseLambda(this, 'ListBlocks', {
+      handler: 'social-esm/list-blocks.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.listBlocksFunction = listBlocks.function;
+
+    // List Mutes Function (using ES modules)
+    const listMutes = new BaseLambda(this, 'ListMutes', {
+      handler: 'social-esm/list-mutes.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.listMutesFunction = listMutes.function;
+
     // Grant DynamoDB permissions
-    props.table.grantReadWriteData(this.createProfileFunction);
     props.table.grantReadData(this.getProfileFunction);
     props.table.grantReadWriteData(this.updateProfileFunction);
     props.table.grantReadWriteData(this.followUserFunction);
     props.table.grantReadWriteData(this.unfollowUserFunction);
     props.table.grantReadData(this.checkFollowFunction);
     props.table.grantReadData(this.getFollowersFunction);
+    props.table.grantReadData(this.getFollowingFunction);
+    props.table.grantReadData(this.getRelationshipFunction);
+    props.table.grantReadData(this.listFollowRequestsFunction);
+    props.table.grantReadWriteData(this.approveFollowRequestFunction);
+    props.table.grantReadWriteData(this.denyFollowRequestFunction);
+    props.table.grantReadWriteData(this.blockUserFunction);
+    props.table.grantReadWriteData(this.unblockUserFunction);
+    props.table.grantReadWriteData(this.muteUserFunction);
+    props.table.grantReadWriteData(this.unmuteUserFunction);
+    props.table.grantReadData(this.listBlocksFunction);
+    props.table.grantReadData(this.listMutesFunction);
 
-    // Grant EventBridge permissions (for functions that publish events)
-    props.eventBus.grantPutEventsTo(this.createProfileFunction);
-    props.eventBus.grantPutEventsTo(this.updateProfileFunction);
-    props.eventBus.grantPutEventsTo(this.followUserFunction);
-    props.eventBus.grantPutEventsTo(this.unfollowUserFunction);
+    // Grant cursor secret access
+    props.cursorSecret.grantRead(this.getFollowersFunction);
+    props.cursorSecret.grantRead(this.getFollowingFunction);
+    props.cursorSecret.grantRead(this.listFollowRequestsFunction);
+    props.cursorSecret.grantRead(this.listBlocksFunction);
+    props.cursorSecret.grantRead(this.listMutesFunction);
   }
 }
\ No newline at end of file
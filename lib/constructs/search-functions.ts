@@ -0,0 +1,44 @@
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+import { BaseLambda } from './base-lambda';
+
+export interface SearchFunctionsProps {
+  /** DynamoDB table for data storage */
+  table: dynamodb.Table;
+  /** Secret used to sign list pagination cursors */
+  cursorSecret: secretsmanager.ISecret;
+}
+
+/**
+ * Search Functions construct containing search read operations.
+ * The index is written by the search indexer in EventProcessingFunctions.
+ * - Search profiles and posts
+ */
+export class SearchFunctions extends Construct {
+  public readonly searchFunction: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: SearchFunctionsProps) {
+    super(scope, id);
+
+    // Search Function (using ES modules)
+    const search = new BaseLambda(this, 'Search', {
+      handler: 'search-esm/search.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    this.searchFunction = search.function;
+
+    // Grant DynamoDB permissions
+    props.table.grantReadData(this.searchFunction);
+
+    // Grant cursor secret access
+    props.cursorSecret.grantRead(this.searchFunction);
+  }
+}
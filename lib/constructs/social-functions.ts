@@ -2,14 +2,18 @@ import * as cdk from 'aws-cdk-lib';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as events from 'aws-cdk-lib/aws-events';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import { BaseLambda } from './base-lambda';
+import { FEED_CONFIG } from '../constants/feed-config';
 
 export interface SocialFunctionsProps {
   /** DynamoDB table for data storage */
   table: dynamodb.Table;
   /** EventBridge bus for publishing events */
   eventBus: events.EventBus;
+  /** Secret used to sign list pagination cursors */
+  cursorSecret: secretsmanager.ISecret;
 }
 
 /**
@@ -24,7 +28,6 @@ export class SocialFunctions extends Construct {
   public readonly unlikePostFunction: lambda.Function;
   public readonly checkLikeStatusFunction: lambda.Function;
   public readonly getFeedFunction: lambda.Function;
-  public readonly createFeedItemsFunction: lambda.Function;
 
   constructor(scope: Construct, id: string, props: SocialFunctionsProps) {
     super(scope, id);
@@ -36,8 +39,8 @@ export class SocialFunctions extends Construct {
 
     // Like Post Function (using ES modules)
     const likePost = new BaseLambda(this, 'LikePost', {
-      handler: 'like-post.handler',
-      codeAssetPath: 'lambda/likes-esm',
+      handler: 'likes-esm/like-post.handler',
+      codeAssetPath: 'lambda',
       environment,
       timeout: cdk.Duration.seconds(30),
     });
@@ -45,8 +48,8 @@ export class SocialFunctions extends Construct {
 
     // Unlike Post Function (using ES modules)
     const unlikePost = new BaseLambda(this, 'UnlikePost', {
-      handler: 'unlike-post.handler',
-      codeAssetPath: 'lambda/likes-esm',
+      handler: 'likes-esm/unlike-post.handler',
+      codeAssetPath: 'lambda',
       environment,
       timeout: cdk.Duration.seconds(30),
     });
@@ -54,8 +57,8 @@ export class SocialFunctions extends Construct {
 
     // Check Like Status Function (using ES modules)
     const checkLikeStatus = new BaseLambda(this, 'CheckLikeStatus', {
-      handler: 'check-like-status.handler',
-      codeAssetPath: 'lambda/likes-esm',
+      handler: 'likes-esm/check-like-status.handler',
+      codeAssetPath: 'lambda',
       environment: { TABLE_NAME: props.table.tableName },
       timeout: cdk.Duration.seconds(30),
     });
@@ -63,31 +66,28 @@ export class SocialFunctions extends Construct {
 
     // Get Feed Function (using ES modules)
     const getFeed = new BaseLambda(this, 'GetFeed', {
-      handler: 'get-feed.handler',
-      codeAssetPath: 'lambda/feed-esm',
-      environment: { TABLE_NAME: props.table.tableName },
+      handler: 'feed-esm/get-feed.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        CURSOR_SECRET_ARN: props.cursorSecret.secretArn,
+        FEED_RANK_RECENCY_WEIGHT: String(FEED_CONFIG.RANKING.RECENCY_WEIGHT),
+        FEED_RANK_HALF_LIFE_HOURS: String(FEED_CONFIG.RANKING.RECENCY_HALF_LIFE_HOURS),
+        FEED_RANK_AFFINITY_WEIGHT: String(FEED_CONFIG.RANKING.AFFINITY_WEIGHT),
+        FEED_RANK_ENGAGEMENT_WEIGHT: String(FEED_CONFIG.RANKING.ENGAGEMENT_WEIGHT),
+        FEED_RANK_CANDIDATES: String(FEED_CONFIG.RANKING.CANDIDATES),
+      },
       timeout: cdk.Duration.seconds(30),
     });
     this.getFeedFunction = getFeed.function;
 
-    // Create Feed Items Function (using ES modules)
-    const createFeedItems = new BaseLambda(this, 'CreateFeedItems', {
-      handler: 'create-feed-items.handler',
-      codeAssetPath: 'lambda/feed-esm',
-      environment: { TABLE_NAME: props.table.tableName },
-      timeout: cdk.Duration.seconds(30),
-    });
-    this.createFeedItemsFunction = createFeedItems.function;
-
     // Grant DynamoDB permissions
     props.table.grantReadWriteData(this.likePostFunction);
     props.table.grantReadWriteData(this.unlikePostFunction);
     props.table.grantReadData(this.checkLikeStatusFunction);
     props.table.grantReadData(this.getFeedFunction);
-    props.table.grantReadWriteData(this.createFeedItemsFunction);
 
-    // Grant EventBridge permissions
-    props.eventBus.grantPutEventsTo(this.likePostFunction);
-    props.eventBus.grantPutEventsTo(this.unlikePostFunction);
+    // Grant cursor secret access
+    props.cursorSecret.grantRead(this.getFeedFunction);
   }
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+import * as cdk from 'aws-cdk-lib';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import { DynamoEventSource, SqsDlq } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { Construct } from 'constructs';
+import { BaseLambda } from './base-lambda';
+import { STREAM_CONFIG } from '../constants/stream-config';
+
+export interface StreamProcessorProps {
+  /** DynamoDB table whose stream is consumed; must have a stream enabled */
+  table: dynamodb.Table;
+  /** EventBridge bus the domain events are published to */
+  eventBus: events.EventBus;
+}
+
+/**
+ * Stream Processor construct publishing domain events from table changes
+ * - Lambda reading the table's NEW_AND_OLD_IMAGES stream
+ * - Event source filtered to the items that carry domain events
+ * - Dead letter queue for records that still fail after retries
+ *
+ * Handlers only write to the table; the write is the outbox, so an event is
+ * published whenever its write commits.
+ */
+export class StreamProcessor extends Construct {
+  /** Lambda mapping stream records to events */
+  public readonly function: lambda.Function;
+
+  /** Details of stream batches that could not be published */
+  public readonly deadLetterQueue: sqs.Queue;
+
+  constructor(scope: Construct, id: string, props: StreamProcessorProps) {
+    super(scope, id);
+
+    const processor = new BaseLambda(this, 'StreamProcessor', {
+      handler: 'events-esm/stream-processor.handler',
+      codeAssetPath: 'lambda',
+      environment: {
+        TABLE_NAME: props.table.tableName,
+        EVENT_BUS_NAME: props.eventBus.eventBusName,
+      },
+      timeout: cdk.Duration.minutes(1),
+    });
+    this.function = processor.function;
+
+    this.deadLetterQueue = new sqs.Queue(this, 'DeadLetterQueue', {
+      retentionPeriod: cdk.Duration.days(14),
+    });
+
+    this.function.addEventSource(new DynamoEventSource(props.table, {
+      startingPosition: lambda.StartingPosition.TRIM_HORIZON,
+      batchSize: STREAM_CONFIG.BATCH_SIZE,
+      maxBatchingWindow: cdk.Duration.seconds(STREAM_CONFIG.MAX_BATCHING_WINDOW_SECONDS),
+      retryAttempts: STREAM_CONFIG.RETRY_ATTEMPTS,
+      maxRecordAge: cdk.Duration.hours(STREAM_CONFIG.MAX_RECORD_AGE_HOURS),
+      bisectBatchOnError: true,
+      reportBatchItemFailures: true,
+      onFailure: new SqsDlq(this.deadLetterQueue),
+      filters: [
+        lambda.FilterCriteria.filter({
+          dynamodb: { Keys: { SK: { S: [...STREAM_CONFIG.EVENT_SORT_KEYS] } } },
+        }),
+      ],
+    }));
+
+    // Grant DynamoDB permissions (like events read the post they refer to)
+    props.table.grantReadData(this.function);
+
+    // Grant EventBridge permissions
+    props.eventBus.grantPutEventsTo(this.function);
+
+    new cdk.CfnOutput(this, 'DeadLetterQueueUrl', {
+      value: this.deadLetterQueue.queueUrl,
+      description: 'Stream records that could not be published as events',
+    });
+  }
+}
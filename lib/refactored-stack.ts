@@ -1,16 +1,20 @@
 import * as cdk from 'aws-cdk-lib';
-import * as lambda from 'aws-cdk-lib/aws-lambda';
 import { Construct } from 'constructs';
-import { RUNTIME_CONFIG } from './constants/runtime-config';
 
 // Import our constructs
 import { DataLayer } from './constructs/data-layer';
+import { AuthFunctions } from './constructs/auth-functions';
 import { ProfileFunctions } from './constructs/profile-functions';
 import { PostsFunctions } from './constructs/posts-functions';
 import { SocialFunctions } from './constructs/social-functions';
+import { NotificationFunctions } from './constructs/notification-functions';
+import { SearchFunctions } from './constructs/search-functions';
 import { ImageFunctions } from './constructs/image-functions';
 import { AdminFunctions } from './constructs/admin-functions';
+import { DataServiceFunctions } from './constructs/data-service-functions';
+import { DocsFunctions } from './constructs/docs-functions';
 import { EventProcessingFunctions } from './constructs/event-processing-functions';
+import { StreamProcessor } from './constructs/stream-processor';
 import { ApiGatewayConstruct } from './constructs/api-gateway';
 
 /**
@@ -18,9 +22,11 @@ import { ApiGatewayConstruct } from './constructs/api-gateway';
  *
  * This stack uses a modular construct-based architecture with:
  * - Data Layer: DynamoDB, S3, EventBridge
+ * - Auth: token issuing and the API Gateway authorizer
  * - Function Groups: Organized by domain (profiles, posts, social, etc.)
- * - API Gateway: Centralized REST API
- * - Event Processing: EventBridge-driven functions
+ * - API Gateway: Centralized REST API, documented at /docs
+ * - Event Processing: EventBridge-driven functions, in a nested stack
+ * - Stream Processor: domain events published from table changes
  */
 export class RefactoredProfileServiceStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
@@ -32,22 +38,43 @@ export class RefactoredProfileServiceStack extends cdk.Stack {
       eventBusName: 'social-media-events',
     });
 
+    // Auth Functions - Registration, login and token verification
+    const authFunctions = new AuthFunctions(this, 'AuthFunctions', {
+      table: dataLayer.table,
+      eventBus: dataLayer.eventBus,
+    });
+
     // Profile Functions - User profile operations
     const profileFunctions = new ProfileFunctions(this, 'ProfileFunctions', {
       table: dataLayer.table,
       eventBus: dataLayer.eventBus,
+      cursorSecret: dataLayer.cursorSecret,
     });
 
-    // Posts Functions - Post operations
+    // Posts Functions - Post and comment operations
     const postsFunctions = new PostsFunctions(this, 'PostsFunctions', {
       table: dataLayer.table,
       eventBus: dataLayer.eventBus,
+      cursorSecret: dataLayer.cursorSecret,
     });
 
     // Social Functions - Like, feed operations
     const socialFunctions = new SocialFunctions(this, 'SocialFunctions', {
       table: dataLayer.table,
       eventBus: dataLayer.eventBus,
+      cursorSecret: dataLayer.cursorSecret,
+    });
+
+    // Notification Functions - Notification reads; the processor lives with event processing
+    const notificationFunctions = new NotificationFunctions(this, 'NotificationFunctions', {
+      table: dataLayer.table,
+      cursorSecret: dataLayer.cursorSecret,
+    });
+
+    // Search Functions - Search reads; the indexer lives with event processing
+    const searchFunctions = new SearchFunctions(this, 'SearchFunctions', {
+      table: dataLayer.table,
+      cursorSecret: dataLayer.cursorSecret,
     });
 
     // Image Functions - Image upload operations
@@ -55,66 +82,80 @@ export class RefactoredProfileServiceStack extends cdk.Stack {
       imagesBucket: dataLayer.imagesBucket,
     });
 
+    // Event Processing Functions - Event-driven writes straight to the table (nested stack)
+    const eventProcessingFunctions = new EventProcessingFunctions(this, 'EventProcessingFunctions', {
+      table: dataLayer.table,
+      eventBus: dataLayer.eventBus,
+      imagesBucket: dataLayer.imagesBucket,
+    });
+
     // Admin Functions - Created first without API URL to break circular dependency
     const adminFunctions = new AdminFunctions(this, 'AdminFunctions', {
       table: dataLayer.table,
-      eventBus: dataLayer.eventBus,
       imagesBucket: dataLayer.imagesBucket,
+      eventBus: dataLayer.eventBus,
+      cursorSecret: dataLayer.cursorSecret,
+      eventConsumers: eventProcessingFunctions.consumers,
       // apiUrl will be added later after API Gateway is created
     });
 
-    // Data Service Lambda Functions (legacy, kept for compatibility)
-    const postsDataServiceFunction = new lambda.Function(this, 'PostsDataServiceFunction', {
-      runtime: RUNTIME_CONFIG.LAMBDA_RUNTIME,
-      handler: 'index.handler',
-      code: lambda.Code.fromInline(`
-        exports.handler = async (event) => {
-          return {
-            statusCode: 200,
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ message: 'Posts data service placeholder' })
-          };
-        };
-      `),
-      timeout: cdk.Duration.seconds(30),
+    // Data Service Functions - Internal /data/* services behind the API
+    const dataServiceFunctions = new DataServiceFunctions(this, 'DataServiceFunctions', {
+      table: dataLayer.table,
     });
 
-    const profilesDataServiceFunction = new lambda.Function(this, 'ProfilesDataServiceFunction', {
-      runtime: RUNTIME_CONFIG.LAMBDA_RUNTIME,
-      handler: 'index.handler',
-      code: lambda.Code.fromInline(`
-        exports.handler = async (event) => {
-          return {
-            statusCode: 200,
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ message: 'Profiles data service placeholder' })
-          };
-        };
-      `),
-      timeout: cdk.Duration.seconds(30),
-    });
+    // Docs Functions - The OpenAPI document and its page at /docs
+    const docsFunctions = new DocsFunctions(this, 'DocsFunctions');
 
     // API Gateway - Must be created after data service functions for URL reference
     const apiGateway = new ApiGatewayConstruct(this, 'ApiGateway', {
+      // Auth Functions
+      registerFunction: authFunctions.registerFunction,
+      loginFunction: authFunctions.loginFunction,
+      jwksFunction: authFunctions.jwksFunction,
+      authorizerFunction: authFunctions.authorizerFunction,
+
       // Profile Functions
-      createProfileFunction: profileFunctions.createProfileFunction,
       getProfileFunction: profileFunctions.getProfileFunction,
       updateProfileFunction: profileFunctions.updateProfileFunction,
       followUserFunction: profileFunctions.followUserFunction,
       unfollowUserFunction: profileFunctions.unfollowUserFunction,
       checkFollowFunction: profileFunctions.checkFollowFunction,
       getFollowersFunction: profileFunctions.getFollowersFunction,
+      getFollowingFunction: profileFunctions.getFollowingFunction,
+      getRelationshipFunction: profileFunctions.getRelationshipFunction,
+      listFollowRequestsFunction: profileFunctions.listFollowRequestsFunction,
+      approveFollowRequestFunction: profileFunctions.approveFollowRequestFunction,
+      denyFollowRequestFunction: profileFunctions.denyFollowRequestFunction,
+      blockUserFunction: profileFunctions.blockUserFunction,
+      unblockUserFunction: profileFunctions.unblockUserFunction,
+      muteUserFunction: profileFunctions.muteUserFunction,
+      unmuteUserFunction: profileFunctions.unmuteUserFunction,
+      listBlocksFunction: profileFunctions.listBlocksFunction,
+      listMutesFunction: profileFunctions.listMutesFunction,
 
       // Posts Functions
       createPostFunction: postsFunctions.createPostFunction,
       getUserPostsFunction: postsFunctions.getUserPostsFunction,
+      updatePostFunction: postsFunctions.updatePostFunction,
+      deletePostFunction: postsFunctions.deletePostFunction,
+      getPostRevisionsFunction: postsFunctions.getPostRevisionsFunction,
+      createCommentFunction: postsFunctions.createCommentFunction,
+      listCommentsFunction: postsFunctions.listCommentsFunction,
+      deleteCommentFunction: postsFunctions.deleteCommentFunction,
 
       // Social Functions
       likePostFunction: socialFunctions.likePostFunction,
       unlikePostFunction: socialFunctions.unlikePostFunction,
       checkLikeStatusFunction: socialFunctions.checkLikeStatusFunction,
       getFeedFunction: socialFunctions.getFeedFunction,
-      createFeedItemsFunction: socialFunctions.createFeedItemsFunction,
+
+      // Notification Functions
+      listNotificationsFunction: notificationFunctions.listNotificationsFunction,
+      markNotificationsReadFunction: notificationFunctions.markNotificationsReadFunction,
+
+      // Search Functions
+      searchFunction: searchFunctions.searchFunction,
 
       // Image Functions
       imageUploadFunction: imageFunctions.imageUploadFunction,
@@ -122,20 +163,31 @@ export class RefactoredProfileServiceStack extends cdk.Stack {
       // Admin Functions - Now using real functions instead of placeholders
       listUsersFunction: adminFunctions.listUsersFunction,
       deleteUserFunction: adminFunctions.deleteUserFunction,
+      getUserDeletionFunction: adminFunctions.getUserDeletionFunction,
       cleanupAllFunction: adminFunctions.cleanupAllFunction,
       generateTestDataFunction: adminFunctions.generateTestDataFunction,
       getEventsFunction: adminFunctions.getEventsFunction,
+      listDeadLettersFunction: adminFunctions.listDeadLettersFunction,
+      redriveDeadLettersFunction: adminFunctions.redriveDeadLettersFunction,
 
       // Data Service Functions
-      postsDataServiceFunction,
-      profilesDataServiceFunction,
+      postsDataServiceFunction: dataServiceFunctions.postsDataServiceFunction,
+      profilesDataServiceFunction: dataServiceFunctions.profilesDataServiceFunction,
+
+      // Docs Functions
+      docsFunction: docsFunctions.docsFunction,
     });
 
-    // Event Processing Functions - Created after API Gateway to access URL
-    const eventProcessingFunctions = new EventProcessingFunctions(this, 'EventProcessingFunctions', {
+    // Create Post calls the posts data service through the API. The URL is
+    // built from the API id and the default 'prod' stage rather than api.url,
+    // whose stage depends on the create post method and so on the function.
+    postsFunctions.createPostFunction.addEnvironment('API_BASE_URL',
+      `https://${apiGateway.api.restApiId}.execute-api.${this.region}.${this.urlSuffix}/prod`);
+
+    // Stream Processor - Publishes domain events from the table stream (outbox)
+    new StreamProcessor(this, 'StreamProcessor', {
       table: dataLayer.table,
       eventBus: dataLayer.eventBus,
-      apiUrl: apiGateway.api.url,
     });
 
     // Stack outputs
@@ -147,12 +199,18 @@ export class RefactoredProfileServiceStack extends cdk.Stack {
         apiUrl: apiGateway.api.url,
         constructs: {
           dataLayer: 'DataLayer',
-          profileFunctions: 'ProfileFunctions (7 functions)',
-          postsFunctions: 'PostsFunctions (2 functions)',
+          authFunctions: 'AuthFunctions (4 functions + signing key)',
+          profileFunctions: 'ProfileFunctions (18 functions)',
+          postsFunctions: 'PostsFunctions (8 functions)',
           socialFunctions: 'SocialFunctions (5 functions)',
+          notificationFunctions: 'NotificationFunctions (2 functions)',
+          searchFunctions: 'SearchFunctions (1 function)',
           imageFunctions: 'ImageFunctions (1 function)',
-          adminFunctions: 'AdminFunctions (5 functions)',
-          eventProcessing: 'EventProcessingFunctions (2 functions)',
+          adminFunctions: 'AdminFunctions (8 functions)',
+          dataServiceFunctions: 'DataServiceFunctions (2 functions)',
+          docsFunctions: 'DocsFunctions (1 function)',
+          eventProcessing: 'EventProcessingFunctions (nested stack, 7 functions + dead letter queues)',
+          streamProcessor: 'StreamProcessor (1 function + dead letter queue)',
           apiGateway: 'ApiGateway (with CloudFront)',
         }
       }, null, 2),
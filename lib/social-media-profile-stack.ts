@@ -67,22 +67,6 @@ export class ProfileServiceStack extends cdk.Stack {
       ],
     });
 
-    // Profile CRUD Lambda Functions
-    const createProfileFunction = new lambda.Function(this, 'CreateProfileFunction', {
-      runtime: RUNTIME_CONFIG.LAMBDA_RUNTIME,
-      handler: 'create.handler',
-      code: lambda.Code.fromAsset('lambda/profile-esm'),
-      environment: {
-        TABLE_NAME: profileTable.tableName,
-        EVENT_BUS_NAME: socialMediaEventBus.eventBusName,
-      },
-      timeout: cdk.Duration.seconds(30),
-      logGroup: new logs.LogGroup(this, 'CreateProfileLogGroup', {
-        retention: logs.RetentionDays.ONE_WEEK,
-        removalPolicy: cdk.RemovalPolicy.DESTROY,
-      }),
-    });
-
     // Social Features Lambda Functions
     const followUserFunction = new lambda.Function(this, 'FollowUserFunction', {
       runtime: RUNTIME_CONFIG.LAMBDA_RUNTIME,
@@ -187,20 +171,6 @@ export class ProfileServiceStack extends cdk.Stack {
       }),
     });
 
-    const createFeedItemsFunction = new lambda.Function(this, 'CreateFeedItemsFunction', {
-      runtime: RUNTIME_CONFIG.LAMBDA_RUNTIME,
-      handler: 'create-feed-items.handler',
-      code: lambda.Code.fromAsset('lambda/feed-esm'),
-      environment: {
-        TABLE_NAME: profileTable.tableName,
-      },
-      timeout: cdk.Duration.seconds(30),
-      logGroup: new logs.LogGroup(this, 'CreateFeedItemsLogGroup', {
-        retention: logs.RetentionDays.ONE_WEEK,
-        removalPolicy: cdk.RemovalPolicy.DESTROY,
-      }),
-    });
-
 
     // Image Upload Lambda Function
     const imageUploadFunction = new lambda.Function(this, 'ImageUploadFunction', {
@@ -350,6 +320,7 @@ export class ProfileServiceStack extends cdk.Stack {
       }),
     });
 
+    // Profile Lambda Functions
     const getProfileFunction = new lambda.Function(this, 'GetProfileFunction', {
       runtime: RUNTIME_CONFIG.LAMBDA_RUNTIME,
       handler: 'get.handler',
@@ -395,7 +366,6 @@ export class ProfileServiceStack extends cdk.Stack {
     });
 
     // Grant DynamoDB permissions
-    profileTable.grantReadWriteData(createProfileFunction);
     profileTable.grantReadData(getProfileFunction);
     profileTable.grantReadWriteData(updateProfileFunction);
     profileTable.grantReadData(profileEventProcessor);
@@ -406,7 +376,6 @@ export class ProfileServiceStack extends cdk.Stack {
     profileTable.grantReadWriteData(createPostFunction);
     profileTable.grantReadData(getUserPostsFunction);
     profileTable.grantReadData(getFeedFunction);
-    profileTable.grantWriteData(createFeedItemsFunction);
     profileTable.grantReadWriteData(likePostFunction);
     profileTable.grantReadWriteData(unlikePostFunction);
     profileTable.grantReadData(checkLikeStatusFunction);
@@ -426,7 +395,6 @@ export class ProfileServiceStack extends cdk.Stack {
     imagesBucket.grantReadWrite(cleanupAllFunction);
 
     // Grant EventBridge permissions
-    socialMediaEventBus.grantPutEventsTo(createProfileFunction);
     socialMediaEventBus.grantPutEventsTo(updateProfileFunction);
     socialMediaEventBus.grantPutEventsTo(followUserFunction);
     socialMediaEventBus.grantPutEventsTo(unfollowUserFunction);
@@ -533,7 +501,6 @@ export class ProfileServiceStack extends cdk.Stack {
     // Feed API Resources
     const feedResource = api.root.addResource('feed');
     const userFeedResource = feedResource.addResource('{userId}');
-    const feedItemsResource = feedResource.addResource('items');
 
     // Images API Resources
     const imagesResource = api.root.addResource('images');
@@ -560,14 +527,6 @@ export class ProfileServiceStack extends cdk.Stack {
     const dataPostsActionResource = dataPostsResource.addResource('{action}');
 
     // API Methods
-    profilesResource.addMethod('POST', new apigateway.LambdaIntegration(createProfileFunction), {
-      requestValidator: new apigateway.RequestValidator(this, 'CreateProfileValidator', {
-        restApi: api,
-        requestValidatorName: 'create-profile-validator',
-        validateRequestBody: true,
-      }),
-    });
-
     profileResource.addMethod('GET', new apigateway.LambdaIntegration(getProfileFunction));
     profileResource.addMethod('PUT', new apigateway.LambdaIntegration(updateProfileFunction));
 
@@ -583,7 +542,6 @@ export class ProfileServiceStack extends cdk.Stack {
 
     // Feed API Methods
     userFeedResource.addMethod('GET', new apigateway.LambdaIntegration(getFeedFunction));
-    feedItemsResource.addMethod('POST', new apigateway.LambdaIntegration(createFeedItemsFunction));
 
     // Images API Methods
     uploadUrlResource.addMethod('POST', new apigateway.LambdaIntegration(imageUploadFunction));
@@ -0,0 +1,166 @@
+// Read what the dev server runs from a synthesized cloud assembly (cdk.out)
+//
+// Routes, authorizers, EventBridge rules, the table stream's consumer and the
+// table itself come from the templates ApiGatewayConstruct,
+// EventProcessingFunctions, StreamProcessor and DataLayer produce, so the
+// local server serves exactly what would be deployed.
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+
+export const DEFAULT_STACK = 'ProfileServiceStack';
+
+const readJson = (path) => JSON.parse(readFileSync(path, 'utf8'));
+
+/**
+ * Load a stack's template and those of its nested stacks
+ *
+ * @returns {object[]} the templates, the stack's own first
+ */
+function readTemplates(assemblyDir, stackName) {
+  const artifact = readJson(join(assemblyDir, 'manifest.json')).artifacts?.[stackName];
+  if (artifact?.type !== 'aws:cloudformation:stack') {
+    throw new Error(`No stack ${stackName} in ${assemblyDir}; run \`npx cdk synth\` first`);
+  }
+
+  // Nested templates are written next to the stack's, named after it
+  const templateFile = artifact.properties.templateFile;
+  const prefix = templateFile.replace(/\.template\.json$/, '');
+  const nested = readdirSync(assemblyDir)
+    .filter(file => file.startsWith(prefix) && file.endsWith('.nested.template.json'))
+    .sort();
+
+  return [templateFile, ...nested].map(file => readJson(join(assemblyDir, file)));
+}
+
+const resourcesOfType = (template, type) =>
+  Object.entries(template.Resources ?? {}).filter(([, resource]) => resource.Type === type);
+
+/**
+ * Find the Lambda function an ARN expression (a GetAtt, or a Join around
+ * one, like integration and authorizer URIs) points at
+ */
+function referencedFunction(template, value) {
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const fn = referencedFunction(template, entry);
+      if (fn) return fn;
+    }
+    return undefined;
+  }
+  if (value && typeof value === 'object') {
+    const target = value['Fn::GetAtt']?.[0] ?? value.Ref;
+    const resource = typeof target === 'string' ? template.Resources[target] : undefined;
+    if (resource?.Type === 'AWS::Lambda::Function') {
+      return describeFunction(target, resource);
+    }
+    return referencedFunction(template, Object.values(value));
+  }
+  return undefined;
+}
+
+function describeFunction(logicalId, { Properties }) {
+  return {
+    logicalId,
+    handler: Properties.Handler,
+    timeoutSeconds: Properties.Timeout ?? 3,
+    environment: Properties.Environment?.Variables ?? {},
+  };
+}
+
+/**
+ * API routes with the function each one invokes
+ *
+ * @returns {Array<{method: string, path: string, function?: object,
+ *   authorizer?: {type: string, identitySource?: string, function: object},
+ *   responseHeaders?: object}>} OPTIONS routes are CORS mocks with
+ *   `responseHeaders` instead of a function
+ */
+function readRoutes(template) {
+  const resources = Object.fromEntries(resourcesOfType(template, 'AWS::ApiGateway::Resource'));
+  const pathOf = (resourceId) => {
+    // The root resource is a GetAtt of the API
+    const id = resourceId?.Ref;
+    if (!id) return '';
+    const { ParentId, PathPart } = resources[id].Properties;
+    return `${pathOf(ParentId)}/${PathPart}`;
+  };
+
+  const authorizers = Object.fromEntries(resourcesOfType(template, 'AWS::ApiGateway::Authorizer')
+    .map(([id, { Properties }]) => [id, {
+      type: Properties.Type,
+      identitySource: Properties.IdentitySource,
+      function: referencedFunction(template, Properties.AuthorizerUri),
+    }]));
+
+  return resourcesOfType(template, 'AWS::ApiGateway::Method').map(([, { Properties }]) => {
+    const route = { method: Properties.HttpMethod, path: pathOf(Properties.ResourceId) || '/' };
+    const integration = Properties.Integration;
+
+    if (integration.Type === 'MOCK') {
+      const parameters = integration.IntegrationResponses?.[0]?.ResponseParameters ?? {};
+      route.statusCode = Number(integration.IntegrationResponses?.[0]?.StatusCode ?? 200);
+      route.responseHeaders = Object.fromEntries(Object.entries(parameters)
+        .map(([name, value]) => [name.replace('method.response.header.', ''), value.replace(/^'|'$/g, '')]));
+      return route;
+    }
+
+    route.function = referencedFunction(template, integration.Uri);
+    if (Properties.AuthorizationType === 'CUSTOM') {
+      route.authorizer = authorizers[Properties.AuthorizerId.Ref];
+    }
+    return route;
+  });
+}
+
+/**
+ * EventBridge rules with their Lambda targets
+ *
+ * @returns {Array<{name: string, pattern: object, targets: object[]}>}
+ */
+function readRules(template) {
+  return resourcesOfType(template, 'AWS::Events::Rule').map(([id, { Properties }]) => ({
+    name: Properties.Name ?? id,
+    pattern: Properties.EventPattern,
+    targets: Properties.Targets.map(target => referencedFunction(template, target.Arn)).filter(Boolean),
+  }));
+}
+
+/**
+ * Functions reading the table's stream, with their event filters
+ *
+ * @returns {Array<{function: object, batchSize: number, filters: object[]}>}
+ */
+function readStreamConsumers(template) {
+  return resourcesOfType(template, 'AWS::Lambda::EventSourceMapping')
+    .filter(([, { Properties }]) => JSON.stringify(Properties.EventSourceArn).includes('StreamArn'))
+    .map(([, { Properties }]) => ({
+      function: referencedFunction(template, Properties.FunctionName),
+      batchSize: Properties.BatchSize ?? 100,
+      filters: (Properties.FilterCriteria?.Filters ?? []).map(filter => JSON.parse(filter.Pattern)),
+    }));
+}
+
+/**
+ * Everything the dev server needs from a stack
+ *
+ * @param {string} assemblyDir - the `cdk synth` output directory
+ * @param {string} [stackName]
+ * @returns {{routes: object[], rules: object[], streamConsumers: object[],
+ *   functions: object[], table: object, eventBusName: string}}
+ */
+export function readAssembly(assemblyDir, stackName = DEFAULT_STACK) {
+  const templates = readTemplates(assemblyDir, stackName);
+  const [table] = templates.flatMap(template => resourcesOfType(template, 'AWS::DynamoDB::Table'));
+  const [eventBus] = templates.flatMap(template => resourcesOfType(template, 'AWS::Events::EventBus'));
+
+  return {
+    routes: templates.flatMap(readRoutes),
+    rules: templates.flatMap(readRules),
+    streamConsumers: templates.flatMap(readStreamConsumers),
+    functions: templates.flatMap(template => resourcesOfType(template, 'AWS::Lambda::Function')
+      .map(([id, resource]) => describeFunction(id, resource))),
+    table: table?.[1].Properties,
+    eventBusName: eventBus?.[1].Properties.Name,
+  };
+}
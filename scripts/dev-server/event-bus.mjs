@@ -0,0 +1,92 @@
+// In-process stand-in for the EventBridge bus
+//
+// Entries handed to PutEvents are accepted straight away and delivered to
+// the Lambda targets of every matching rule afterwards, one event at a time,
+// the way EventBridge invokes its targets asynchronously. There are no
+// retries or dead letter queues locally: a failing target is logged.
+
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Whether a value matches an EventBridge event pattern (also the shape of
+ * Lambda event source filters). Only the pattern features the stack uses are
+ * supported: lists of literal values and `{prefix}` matches.
+ */
+export function matchesPattern(pattern, value) {
+  return Object.entries(pattern).every(([key, expected]) => {
+    const actual = value?.[key];
+    if (!Array.isArray(expected)) {
+      return matchesPattern(expected, actual);
+    }
+
+    return expected.some(option => {
+      if (option === null || typeof option !== 'object') {
+        return Array.isArray(actual) ? actual.includes(option) : actual === option;
+      }
+      if (typeof option.prefix === 'string') {
+        return typeof actual === 'string' && actual.startsWith(option.prefix);
+      }
+      throw new Error(`Unsupported event pattern ${JSON.stringify(option)}`);
+    });
+  });
+}
+
+/**
+ * Create a bus delivering to the rules read from the assembly
+ *
+ * @param {object} options
+ * @param {Array<{name: string, pattern: object, targets: object[]}>} options.rules
+ * @param {(fn: object, event: object) => Promise<unknown>} options.invoke - runs a target
+ * @param {{region: string, account: string}} options.environment
+ * @returns {{putEvents: Function, idle: () => Promise<void>}}
+ */
+export function createEventBus({ rules, invoke, environment }) {
+  let deliveries = Promise.resolve();
+
+  const deliver = async (event) => {
+    for (const rule of rules.filter(({ pattern }) => matchesPattern(pattern, event))) {
+      for (const target of rule.targets) {
+        try {
+          await invoke(target, event);
+        } catch (error) {
+          console.error(`❌ ${rule.name} → ${target.handler} failed on ${event['detail-type']} ${event.id}:`, error);
+        }
+      }
+    }
+  };
+
+  return {
+    /**
+     * Accept PutEvents entries and queue their delivery
+     *
+     * @returns {{FailedEntryCount: number, Entries: Array<{EventId: string}>}}
+     */
+    putEvents(entries) {
+      const events = entries.map(entry => ({
+        version: '0',
+        id: randomUUID(),
+        'detail-type': entry.DetailType,
+        source: entry.Source,
+        account: environment.account,
+        time: new Date().toISOString(),
+        region: environment.region,
+        resources: entry.Resources ?? [],
+        detail: JSON.parse(entry.Detail),
+      }));
+
+      for (const event of events) {
+        deliveries = deliveries.then(() => deliver(event));
+      }
+      return { FailedEntryCount: 0, Entries: events.map(({ id }) => ({ EventId: id })) };
+    },
+
+    /** Resolves once every accepted event has been delivered */
+    async idle() {
+      let pending;
+      do {
+        pending = deliveries;
+        await pending;
+      } while (pending !== deliveries);
+    },
+  };
+}
@@ -0,0 +1,234 @@
+// Local stand-in for the REST API: turns HTTP requests into API Gateway
+// proxy events for the routes read from the assembly, runs the route's
+// authorizer first, and writes the handler's response back
+//
+// Gateway-generated errors (unknown routes, rejected tokens, failed
+// handlers) use API Gateway's default status codes and bodies.
+
+import { randomUUID } from 'node:crypto';
+
+const MISSING_ROUTE = { statusCode: 403, body: { message: 'Missing Authentication Token' } };
+const UNAUTHORIZED = { statusCode: 401, body: { message: 'Unauthorized' } };
+const DENIED = { statusCode: 403, body: { Message: 'User is not authorized to access this resource with an explicit deny' } };
+const AUTHORIZER_FAILED = { statusCode: 500, body: { message: null } };
+const HANDLER_FAILED = { statusCode: 502, body: { message: 'Internal server error' } };
+
+/**
+ * Compile a resource path like /profiles/{userId}/feed or /data/posts/{proxy+}
+ * into a matcher returning the path parameters, or null
+ */
+function compilePath(template) {
+  const names = [];
+  const source = template.split('/').map(segment => {
+    const parameter = segment.match(/^\{(\w+)(\+?)\}$/);
+    if (!parameter) {
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+    names.push(parameter[1]);
+    return parameter[2] ? '(.+)' : '([^/]+)';
+  }).join('/');
+  const pattern = new RegExp(`^${source}/?$`);
+
+  return (path) => {
+    const match = path.match(pattern);
+    return match && Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+  };
+}
+
+// API Gateway prefers literal path segments over variables, and variables over greedy ones
+const specificity = (template) => template.split('/')
+  .reduce((score, segment) => score * 3 + (segment.endsWith('+}') ? 0 : segment.startsWith('{') ? 1 : 2), 1);
+
+/**
+ * Find the route for a request; methods fall back to the resource's ANY
+ *
+ * @returns {{route: object, pathParameters: object} | undefined}
+ */
+function matchRoute(routes, method, path) {
+  let best;
+  for (const route of routes) {
+    const pathParameters = route.matchPath(path);
+    if (!pathParameters || (route.method !== method && route.method !== 'ANY')) continue;
+
+    const rank = [route.specificity, route.method === method ? 1 : 0];
+    if (!best || rank[0] > best.rank[0] || (rank[0] === best.rank[0] && rank[1] > best.rank[1])) {
+      best = { route, pathParameters, rank };
+    }
+  }
+  return best;
+}
+
+const readBody = (request) => new Promise((resolve, reject) => {
+  const chunks = [];
+  request.on('data', chunk => chunks.push(chunk));
+  request.on('end', () => resolve(Buffer.concat(chunks)));
+  request.on('error', reject);
+});
+
+// Node folds repeated headers together; API Gateway events carry both forms
+function toHeaders(rawHeaders) {
+  const headers = {};
+  const multiValueHeaders = {};
+  for (let i = 0; i < rawHeaders.length; i += 2) {
+    const [name, value] = [rawHeaders[i], rawHeaders[i + 1]];
+    headers[name] = value;
+    (multiValueHeaders[name] ??= []).push(value);
+  }
+  return { headers, multiValueHeaders };
+}
+
+function toQuery(searchParams) {
+  const single = {};
+  const multi = {};
+  for (const [name, value] of searchParams) {
+    single[name] = value;
+    (multi[name] ??= []).push(value);
+  }
+  return Object.keys(single).length ? { single, multi } : { single: null, multi: null };
+}
+
+const headerValue = (headers, name) =>
+  Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+
+/**
+ * Run a route's authorizer the way API Gateway does
+ *
+ * @returns {Promise<{context: object} | {error: {statusCode: number, body: object}}>}
+ */
+async function authorize({ type, identitySource, function: authorizer }, event, invoke) {
+  const methodArn = `arn:aws:execute-api:${event.region}:${event.account}:local/${event.requestContext.stage}/${event.httpMethod}${event.path}`;
+
+  let authorizerEvent;
+  if (type === 'TOKEN') {
+    const token = headerValue(event.headers, identitySource.replace('method.request.header.', ''));
+    if (!token) {
+      return { error: UNAUTHORIZED };
+    }
+    authorizerEvent = { type: 'TOKEN', authorizationToken: token, methodArn };
+  } else {
+    const { resource, path, httpMethod, headers, multiValueHeaders, queryStringParameters,
+      multiValueQueryStringParameters, pathParameters, stageVariables, requestContext } = event;
+    authorizerEvent = { type: 'REQUEST', methodArn, resource, path, httpMethod, headers, multiValueHeaders,
+      queryStringParameters, multiValueQueryStringParameters, pathParameters, stageVariables, requestContext };
+  }
+
+  let result;
+  try {
+    result = await invoke(authorizer, authorizerEvent);
+  } catch (error) {
+    if (error?.message === 'Unauthorized') {
+      return { error: UNAUTHORIZED };
+    }
+    console.error(`❌ Authorizer ${authorizer.handler} failed:`, error);
+    return { error: AUTHORIZER_FAILED };
+  }
+
+  const allowed = result?.policyDocument?.Statement?.some(statement => statement.Effect === 'Allow');
+  if (!allowed) {
+    return { error: DENIED };
+  }
+  return { context: { ...result.context, principalId: result.principalId } };
+}
+
+/**
+ * Create the request listener serving the assembly's routes
+ *
+ * @param {object} options
+ * @param {object[]} options.routes - from readAssembly
+ * @param {(fn: object, event: object) => Promise<unknown>} options.invoke - runs a function
+ * @param {{region: string, account: string}} options.environment
+ * @param {string} [options.stage]
+ * @returns {(request: import('node:http').IncomingMessage, response: import('node:http').ServerResponse) => Promise<void>}
+ */
+export function createGateway({ routes, invoke, environment, stage = 'local' }) {
+  const compiled = routes.map(route => ({
+    ...route,
+    matchPath: compilePath(route.path),
+    specificity: specificity(route.path),
+  }));
+
+  const send = (response, { statusCode, headers = {}, multiValueHeaders = {}, body = '', isBase64Encoded }) => {
+    const merged = { ...headers };
+    for (const [name, values] of Object.entries(multiValueHeaders)) {
+      merged[name] = values;
+    }
+    response.writeHead(statusCode, merged);
+    response.end(isBase64Encoded ? Buffer.from(body, 'base64') : body);
+  };
+  const sendGatewayError = (response, { statusCode, body }) =>
+    send(response, { statusCode, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  return async (request, response) => {
+    const started = Date.now();
+    const url = new URL(request.url, 'http://localhost');
+    const path = decodeURI(url.pathname);
+    const method = request.method;
+    let outcome = 'no route';
+
+    try {
+      const match = matchRoute(compiled, method, path);
+      if (!match) {
+        return sendGatewayError(response, MISSING_ROUTE);
+      }
+      const { route, pathParameters } = match;
+
+      // CORS preflights are answered by the API's mock integrations
+      if (!route.function) {
+        outcome = 'mock';
+        return send(response, { statusCode: route.statusCode, headers: route.responseHeaders });
+      }
+
+      const body = await readBody(request);
+      const query = toQuery(url.searchParams);
+      const event = {
+        resource: route.path,
+        path,
+        httpMethod: method,
+        ...toHeaders(request.rawHeaders),
+        queryStringParameters: query.single,
+        multiValueQueryStringParameters: query.multi,
+        pathParameters: Object.keys(pathParameters).length ? pathParameters : null,
+        stageVariables: null,
+        requestContext: {
+          accountId: environment.account,
+          resourcePath: route.path,
+          httpMethod: method,
+          path: `/${stage}${path}`,
+          stage,
+          requestId: randomUUID(),
+          requestTimeEpoch: started,
+          identity: { sourceIp: request.socket.remoteAddress, userAgent: request.headers['user-agent'] ?? null },
+        },
+        body: body.length ? body.toString('utf8') : null,
+        isBase64Encoded: false,
+      };
+
+      if (route.authorizer) {
+        const authorization = await authorize(route.authorizer,
+          { ...event, region: environment.region, account: environment.account }, invoke);
+        if (authorization.error) {
+          outcome = 'authorizer';
+          return sendGatewayError(response, authorization.error);
+        }
+        event.requestContext.authorizer = authorization.context;
+      }
+
+      outcome = route.function.handler;
+      let result;
+      try {
+        result = await invoke(route.function, event);
+      } catch (error) {
+        console.error(`❌ ${route.function.handler} failed:`, error);
+        return sendGatewayError(response, HANDLER_FAILED);
+      }
+      if (!Number.isInteger(result?.statusCode)) {
+        console.error(`❌ ${route.function.handler} returned a malformed response:`, result);
+        return sendGatewayError(response, HANDLER_FAILED);
+      }
+      return send(response, result);
+
+    } finally {
+      console.log(`${method} ${path} → ${response.statusCode} (${outcome}, ${Date.now() - started} ms)`);
+    }
+  };
+}
@@ -0,0 +1,308 @@
+#!/usr/bin/env node
+
+// Run the backend locally, for developing web-ui offline
+//
+// Usage: npm run dev [-- --port 3001] [--s3-port 4569] [--dynamodb http://localhost:8000]
+//          [--assembly cdk.out] [--stack ProfileServiceStack] [--data-dir .dev-server]
+//
+// The routes, authorizers, EventBridge rules and stream consumer come from
+// the synthesized stack (`npm run dev` synthesizes it first), and the .mjs
+// handlers run in this process with API Gateway-shaped events:
+// - the table lives in DynamoDB Local, and its stream is polled and fed to
+//   the stream processor through the same filters Lambda applies
+// - events the handlers publish are delivered to the rules' targets in-process
+// - the images bucket is served by a local S3 stand-in
+// - tokens are signed with a key generated on first run and kept in the
+//   data directory, so sessions survive restarts
+//
+// Dead letter queues and their admin endpoints need AWS and do not work locally.
+
+import { generateKeyPairSync, randomBytes, randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { readAssembly, DEFAULT_STACK } from './assembly.mjs';
+import { createGateway } from './gateway.mjs';
+import { createEventBus, matchesPattern } from './event-bus.mjs';
+import { ensureTable, createTableStream } from './table.mjs';
+import { startObjectStore } from './object-store.mjs';
+
+const REPO_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '../..');
+const LAMBDA_ROOT = join(REPO_ROOT, 'lambda');
+
+const DEFAULT_PORT = 3001;
+const DEFAULT_S3_PORT = 4569;
+const DEFAULT_DYNAMODB_ENDPOINT = 'http://localhost:8000';
+const IMAGES_BUCKET = 'local-images';
+const STREAM_POLL_INTERVAL_MS = 1000;
+
+// Credentials and ids the local endpoints accept; nothing reaches AWS
+const LOCAL_AWS = { region: 'us-east-1', account: '000000000000', accessKeyId: 'local', secretAccessKey: 'local' };
+
+/**
+ * Load the token signing key and cursor secret, generating them on first run
+ */
+function loadSecrets(dataDir) {
+  const path = join(dataDir, 'secrets.json');
+  if (existsSync(path)) {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  }
+
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const secrets = {
+    signingKey: { ...privateKey.export({ format: 'jwk' }), kid: `local-${randomUUID()}` },
+    cursorSecret: randomBytes(32).toString('base64'),
+  };
+  mkdirSync(dataDir, { recursive: true });
+  writeFileSync(path, JSON.stringify(secrets, null, 2), { mode: 0o600 });
+  return secrets;
+}
+
+/**
+ * The environment every function shares: literal values from the templates,
+ * with the deployed resources' names and secrets replaced by local ones.
+ * Variables pointing at other AWS resources (secret ARNs, queues, the JWKS
+ * URL) are left out, which makes the shared layer fall back to its local
+ * settings.
+ *
+ * @returns {{environment: object, unavailable: string[]}}
+ */
+function localEnvironment(functions, local) {
+  const environment = {};
+  const unavailable = new Set();
+
+  for (const { environment: variables } of functions) {
+    for (const [name, value] of Object.entries(variables)) {
+      // AWS_* variables are the Lambda runtime's own
+      if (name.startsWith('AWS_') || name in local || name in environment) continue;
+      if (typeof value === 'string') {
+        environment[name] = value;
+      } else {
+        unavailable.add(name);
+      }
+    }
+  }
+
+  return { environment: { ...environment, ...local }, unavailable: [...unavailable].sort() };
+}
+
+/**
+ * Run handlers named like `posts-esm/create.handler` from lambda/, as Lambda
+ * would: modules load once and stay warm, and each call gets a context
+ */
+function createInvoker() {
+  const modules = new Map();
+
+  return async (fn, event) => {
+    const separator = fn.handler.lastIndexOf('.');
+    const file = fn.handler.slice(0, separator);
+    if (!modules.has(file)) {
+      modules.set(file, import(pathToFileURL(join(LAMBDA_ROOT, `${file}.mjs`)).href));
+    }
+    const handler = (await modules.get(file))[fn.handler.slice(separator + 1)];
+
+    const deadline = Date.now() + fn.timeoutSeconds * 1000;
+    return handler(event, {
+      functionName: fn.logicalId,
+      awsRequestId: randomUUID(),
+      getRemainingTimeInMillis: () => Math.max(0, deadline - Date.now()),
+    });
+  };
+}
+
+/**
+ * Start the dev server
+ *
+ * @param {object} [options]
+ * @param {string} [options.assemblyDir] - the `cdk synth` output
+ * @param {string} [options.stackName]
+ * @param {number} [options.port] - for the API; 0 picks a free one
+ * @param {number} [options.s3Port] - for the S3 stand-in; 0 picks a free one
+ * @param {string} [options.dynamodbEndpoint] - DynamoDB Local
+ * @param {string} [options.dataDir] - for the signing key and stored objects
+ * @param {{poll: () => Promise<object[]>}} [options.tableStream] - a source
+ *   of table stream records; by default the table is created in DynamoDB
+ *   Local and its stream read from there
+ * @param {number} [options.streamPollIntervalMs]
+ * @returns {Promise<{url: string, s3Url: string, settle: () => Promise<void>, close: () => Promise<void>}>}
+ *   `settle` resolves once the stream and the bus have nothing left to deliver
+ */
+export async function startDevServer({
+  assemblyDir = join(REPO_ROOT, 'cdk.out'),
+  stackName = DEFAULT_STACK,
+  port = DEFAULT_PORT,
+  s3Port = DEFAULT_S3_PORT,
+  dynamodbEndpoint = DEFAULT_DYNAMODB_ENDPOINT,
+  dataDir = join(REPO_ROOT, '.dev-server'),
+  tableStream,
+  streamPollIntervalMs = STREAM_POLL_INTERVAL_MS,
+} = {}) {
+  const assembly = readAssembly(assemblyDir, stackName);
+  const secrets = loadSecrets(dataDir);
+  const objectStore = await startObjectStore({ rootDir: join(dataDir, 'objects'), port: s3Port });
+
+  const server = createServer();
+  await new Promise(resolve => server.listen(port, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${server.address().port}`;
+
+  // The handlers and the shared layer read their configuration when first
+  // imported, so it must be in place before anything from lambda/ loads
+  const { environment, unavailable } = localEnvironment(assembly.functions, {
+    TABLE_NAME: assembly.table.TableName,
+    EVENT_BUS_NAME: assembly.eventBusName,
+    IMAGES_BUCKET_NAME: IMAGES_BUCKET,
+    S3_BUCKET: IMAGES_BUCKET,
+    IMAGES_BASE_URL: `${objectStore.url}/${IMAGES_BUCKET}`,
+    API_BASE_URL: url,
+    AUTH_SIGNING_KEY: JSON.stringify(secrets.signingKey),
+    CURSOR_SECRET: secrets.cursorSecret,
+  });
+  Object.assign(process.env, environment, {
+    AWS_REGION: LOCAL_AWS.region,
+    AWS_ACCESS_KEY_ID: LOCAL_AWS.accessKeyId,
+    AWS_SECRET_ACCESS_KEY: LOCAL_AWS.secretAccessKey,
+    AWS_ENDPOINT_URL_DYNAMODB: dynamodbEndpoint,
+    AWS_ENDPOINT_URL_S3: objectStore.url,
+  });
+
+  const invoke = createInvoker();
+  const bus = createEventBus({ rules: assembly.rules, invoke, environment: LOCAL_AWS });
+  const { eventBridgeClient } = await import(pathToFileURL(join(LAMBDA_ROOT, 'shared/clients.mjs')).href);
+  eventBridgeClient.send = async (command) => {
+    if (command.constructor.name !== 'PutEventsCommand') {
+      throw new Error(`${command.constructor.name} is not supported by the dev server's event bus`);
+    }
+    return bus.putEvents(command.input.Entries);
+  };
+
+  if (!tableStream) {
+    const streamArn = await ensureTable(assembly.table, { endpoint: dynamodbEndpoint, region: LOCAL_AWS.region });
+    tableStream = createTableStream(streamArn, { endpoint: dynamodbEndpoint, ...LOCAL_AWS });
+  }
+
+  // Stream reads run one at a time; `processed` lets settle() notice records
+  // that a background poll picked up
+  let processed = 0;
+  let reading = Promise.resolve();
+  const readStream = async () => {
+    const records = await tableStream.poll();
+    for (const consumer of assembly.streamConsumers) {
+      const matching = records.filter(record =>
+        !consumer.filters.length || consumer.filters.some(filter => matchesPattern(filter, record)));
+      for (let i = 0; i < matching.length; i += consumer.batchSize) {
+        const result = await invoke(consumer.function, { Records: matching.slice(i, i + consumer.batchSize) });
+        if (result?.batchItemFailures?.length) {
+          console.error(`❌ ${consumer.function.handler} failed on records ${result.batchItemFailures.map(({ itemIdentifier }) => itemIdentifier).join(', ')}`);
+        }
+      }
+    }
+    processed += records.length;
+  };
+  const pollStream = () => {
+    reading = reading.then(readStream).catch(error => console.error('❌ Reading the table stream failed:', error));
+    return reading;
+  };
+
+  let running = true;
+  const polling = (async () => {
+    while (running) {
+      await pollStream();
+      await sleep(streamPollIntervalMs);
+    }
+  })();
+
+  const gateway = createGateway({ routes: assembly.routes, invoke, environment: LOCAL_AWS });
+  server.on('request', (request, response) => {
+    gateway(request, response).catch((error) => {
+      console.error(`❌ ${request.method} ${request.url} failed:`, error);
+      if (!response.headersSent) {
+        response.writeHead(500, { 'Content-Type': 'application/json' });
+      }
+      response.end(JSON.stringify({ message: 'Internal server error' }));
+    });
+  });
+
+  if (unavailable.length) {
+    console.log(`ℹ️  Not available locally: ${unavailable.join(', ')}`);
+  }
+
+  return {
+    url,
+    s3Url: objectStore.url,
+
+    async settle() {
+      let before;
+      do {
+        before = processed;
+        await pollStream();
+        await bus.idle();
+      } while (processed !== before);
+    },
+
+    async close() {
+      running = false;
+      await polling;
+      await bus.idle();
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(() => resolve()));
+      await objectStore.close();
+    },
+  };
+}
+
+function parseOptions(argv) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string', default: String(DEFAULT_PORT) },
+      's3-port': { type: 'string', default: String(DEFAULT_S3_PORT) },
+      dynamodb: { type: 'string', default: DEFAULT_DYNAMODB_ENDPOINT },
+      assembly: { type: 'string', default: join(REPO_ROOT, 'cdk.out') },
+      stack: { type: 'string', default: DEFAULT_STACK },
+      'data-dir': { type: 'string', default: join(REPO_ROOT, '.dev-server') },
+    },
+  });
+
+  const port = Number(values.port);
+  const s3Port = Number(values['s3-port']);
+  if (!Number.isInteger(port) || !Number.isInteger(s3Port)) {
+    throw new Error('--port and --s3-port must be numbers');
+  }
+
+  return {
+    port,
+    s3Port,
+    dynamodbEndpoint: values.dynamodb,
+    assemblyDir: values.assembly,
+    stackName: values.stack,
+    dataDir: values['data-dir'],
+  };
+}
+
+async function main() {
+  let options;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    console.error('Usage: npm run dev -- [--port 3001] [--s3-port 4569] [--dynamodb http://localhost:8000]');
+    process.exit(1);
+  }
+
+  const { url, s3Url, close } = await startDevServer(options);
+  console.log(`🚀 API on ${url}, images on ${s3Url}, table in ${options.dynamodbEndpoint}`);
+  console.log(`   Start web-ui with REACT_APP_API_URL=${url}`);
+
+  process.once('SIGINT', () => close().then(() => process.exit(0)));
+  process.once('SIGTERM', () => close().then(() => process.exit(0)));
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
+}
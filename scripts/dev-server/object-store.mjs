@@ -0,0 +1,176 @@
+// Local stand-in for S3, covering what the handlers and the browser do with
+// the images bucket: presigned PUT uploads, GET/HEAD/DELETE of objects,
+// ListObjectsV2 and DeleteObjects. Requests are path-style
+// (/<bucket>/<key>), which the SDK uses for an IP endpoint such as
+// http://127.0.0.1:<port>. Signatures are not checked.
+//
+// Objects are files under `<rootDir>/<bucket>/<key>`.
+
+import { createServer } from 'node:http';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { dirname, extname, join, relative, sep } from 'node:path';
+
+const MAX_KEYS = 1000;
+
+const CONTENT_TYPES = {
+  '.gif': 'image/gif',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,PUT,HEAD,DELETE,POST',
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+const escapeXml = (value) => String(value)
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const unescapeXml = (value) => value
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const readBody = (request) => new Promise((resolve, reject) => {
+  const chunks = [];
+  request.on('data', chunk => chunks.push(chunk));
+  request.on('end', () => resolve(Buffer.concat(chunks)));
+  request.on('error', reject);
+});
+
+const etagOf = (content) => `"${createHash('md5').update(content).digest('hex')}"`;
+
+async function listKeys(bucketDir) {
+  let entries;
+  try {
+    entries = await readdir(bucketDir, { recursive: true, withFileTypes: true });
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => relative(bucketDir, join(entry.parentPath ?? entry.path, entry.name)).split(sep).join('/'))
+    .sort();
+}
+
+/**
+ * Start the object store
+ *
+ * @param {{rootDir: string, port?: number}} options - port 0 picks a free one
+ * @returns {Promise<{url: string, close: () => Promise<void>}>}
+ */
+export async function startObjectStore({ rootDir, port = 0 }) {
+  const send = (response, statusCode, body = '', headers = {}) => {
+    response.writeHead(statusCode, { ...CORS_HEADERS, ...headers });
+    response.end(body);
+  };
+  const sendError = (response, statusCode, code, message) => send(response, statusCode,
+    `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`,
+    { 'Content-Type': 'application/xml' });
+
+  const listObjects = async (response, bucketDir, bucket, params) => {
+    const prefix = params.get('prefix') ?? '';
+    const maxKeys = Math.min(Number(params.get('max-keys') ?? MAX_KEYS), MAX_KEYS);
+    const after = params.get('continuation-token') ?? params.get('start-after') ?? '';
+
+    const keys = (await listKeys(bucketDir)).filter(key => key.startsWith(prefix) && key > after);
+    const page = keys.slice(0, maxKeys);
+    const truncated = keys.length > page.length;
+
+    const contents = await Promise.all(page.map(async key => {
+      const path = join(bucketDir, key);
+      const [{ size, mtime }, content] = await Promise.all([stat(path), readFile(path)]);
+      return `<Contents><Key>${escapeXml(key)}</Key><LastModified>${mtime.toISOString()}</LastModified>`
+        + `<ETag>${escapeXml(etagOf(content))}</ETag><Size>${size}</Size><StorageClass>STANDARD</StorageClass></Contents>`;
+    }));
+
+    send(response, 200, '<?xml version="1.0" encoding="UTF-8"?>'
+      + '<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">'
+      + `<Name>${escapeXml(bucket)}</Name><Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${page.length}</KeyCount>`
+      + `<MaxKeys>${maxKeys}</MaxKeys><IsTruncated>${truncated}</IsTruncated>`
+      + (truncated ? `<NextContinuationToken>${escapeXml(page.at(-1))}</NextContinuationToken>` : '')
+      + contents.join('')
+      + '</ListBucketResult>', { 'Content-Type': 'application/xml' });
+  };
+
+  const deleteObjects = async (response, bucketDir, request) => {
+    const body = (await readBody(request)).toString('utf8');
+    const keys = [...body.matchAll(/<Key>([\s\S]*?)<\/Key>/g)].map(([, key]) => unescapeXml(key));
+    const quiet = /<Quiet>\s*true\s*<\/Quiet>/.test(body);
+
+    await Promise.all(keys.map(key => rm(join(bucketDir, key), { force: true })));
+    send(response, 200, '<?xml version="1.0" encoding="UTF-8"?>'
+      + '<DeleteResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">'
+      + (quiet ? '' : keys.map(key => `<Deleted><Key>${escapeXml(key)}</Key></Deleted>`).join(''))
+      + '</DeleteResult>', { 'Content-Type': 'application/xml' });
+  };
+
+  const handle = async (request, response) => {
+    const url = new URL(request.url, 'http://localhost');
+    const [bucket, ...keyParts] = url.pathname.slice(1).split('/').map(decodeURIComponent);
+    const key = keyParts.join('/');
+    const bucketDir = join(rootDir, bucket);
+    const path = join(bucketDir, key);
+
+    if (request.method === 'OPTIONS') {
+      return send(response, 204, '', {
+        'Access-Control-Allow-Headers': request.headers['access-control-request-headers'] ?? '*',
+      });
+    }
+    if (!bucket || relative(rootDir, path).startsWith('..')) {
+      return sendError(response, 400, 'InvalidRequest', 'Requests must be path-style: /<bucket>/<key>');
+    }
+
+    if (!key) {
+      if (request.method === 'GET') return listObjects(response, bucketDir, bucket, url.searchParams);
+      if (request.method === 'POST' && url.searchParams.has('delete')) return deleteObjects(response, bucketDir, request);
+      return sendError(response, 501, 'NotImplemented', `${request.method} on a bucket is not supported locally`);
+    }
+
+    switch (request.method) {
+      case 'PUT': {
+        const content = await readBody(request);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, content);
+        return send(response, 200, '', { ETag: etagOf(content) });
+      }
+      case 'GET':
+      case 'HEAD': {
+        let content;
+        try {
+          content = await readFile(path);
+        } catch (error) {
+          if (error.code !== 'ENOENT' && error.code !== 'EISDIR') throw error;
+          return sendError(response, 404, 'NoSuchKey', 'The specified key does not exist.');
+        }
+        return send(response, 200, request.method === 'GET' ? content : '', {
+          'Content-Type': CONTENT_TYPES[extname(key).toLowerCase()] ?? 'application/octet-stream',
+          'Content-Length': content.length,
+          ETag: etagOf(content),
+        });
+      }
+      case 'DELETE':
+        await rm(path, { force: true });
+        return send(response, 204);
+      default:
+        return sendError(response, 405, 'MethodNotAllowed', `${request.method} is not supported`);
+    }
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      console.error('❌ Object store request failed:', error);
+      if (!response.headersSent) sendError(response, 500, 'InternalError', error.message);
+    });
+  });
+  await new Promise(resolve => server.listen(port, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
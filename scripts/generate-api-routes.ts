@@ -0,0 +1,131 @@
+// Write the endpoint tables the handlers and both frontends use from the
+// API_ROUTES manifest ApiGatewayConstruct builds the API from
+//
+// Usage: npm run generate:api-routes [-- --check]
+//
+// --check writes nothing and fails if a table is out of date.
+
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { API_ROUTES, ApiRouteDefinition } from '../lib/constants/api-routes';
+
+const REPO_ROOT = resolve(__dirname, '..');
+
+const HEADER = '// Generated from lib/constants/api-routes.ts by `npm run generate:api-routes`; do not edit.';
+
+const literal = (value: unknown): string => Array.isArray(value)
+  ? `[${value.map(literal).join(', ')}]`
+  : typeof value === 'string' ? `'${value}'` : String(value);
+
+const routeEntries = (filter: (route: ApiRouteDefinition) => boolean, fields: (keyof ApiRouteDefinition)[]) =>
+  Object.entries(API_ROUTES as Record<string, ApiRouteDefinition>)
+    .filter(([, route]) => filter(route))
+    .map(([name, route]) => {
+      const properties = fields
+        .filter(field => route[field] !== undefined)
+        .map(field => `${field}: ${literal(route[field])}`);
+      return `  ${name}: { ${properties.join(', ')} },`;
+    })
+    .join('\n');
+
+const CLIENT_FIELDS: (keyof ApiRouteDefinition)[] = ['method', 'path'];
+
+// The OpenAPI generator, which cannot load the TypeScript manifest, documents the routes from these
+const BACKEND_FIELDS: (keyof ApiRouteDefinition)[] = [
+  'method', 'path', 'auth', 'internal', 'request', 'requestDefaults', 'query', 'response', 'status',
+];
+
+/**
+ * The frontends' endpoint table, without the internal routes. buildEndpoint
+ * only compiles when given exactly the endpoint's path parameters.
+ */
+export function renderClientEndpoints(): string {
+  return `${HEADER}
+
+export const API_ENDPOINTS = {
+${routeEntries(route => !route.internal, CLIENT_FIELDS)}
+} as const;
+
+export type ApiEndpointName = keyof typeof API_ENDPOINTS;
+
+type PathParameterNames<Path extends string> =
+  Path extends \`\${string}{\${infer Name}}\${infer Rest}\` ? Name | PathParameterNames<Rest> : never;
+
+/** The path parameters of an endpoint, by name */
+export type EndpointParams<Name extends ApiEndpointName> =
+  Record<PathParameterNames<(typeof API_ENDPOINTS)[Name]['path']>, string>;
+
+type EndpointArgs<Name extends ApiEndpointName> =
+  [PathParameterNames<(typeof API_ENDPOINTS)[Name]['path']>] extends [never] ? [] : [EndpointParams<Name>];
+
+/** An endpoint's path, e.g. /profiles/u1/feed, with its parameters URL-encoded */
+export function buildEndpoint<Name extends ApiEndpointName>(name: Name, ...args: EndpointArgs<Name>): string {
+  const [params = {}] = args as [Record<string, string>?];
+  return API_ENDPOINTS[name].path.replace(/\\{(\\w+)\\}/g, (_, key: string) => encodeURIComponent(params[key]));
+}
+`;
+}
+
+/** The handlers' route table, internal routes and the routes' schemas included */
+export function renderBackendRoutes(): string {
+  return `${HEADER}
+
+export const API_ROUTES = {
+${routeEntries(() => true, BACKEND_FIELDS)}
+};
+
+/**
+ * A route's path with its parameters filled in and URL-encoded; a {proxy+}
+ * value may span several segments
+ *
+ * @param {keyof typeof API_ROUTES} name
+ * @param {Record<string, string>} [params]
+ */
+export function apiPath(name, params = {}) {
+  return API_ROUTES[name].path.replace(/\\{(\\w+)(\\+?)\\}/g, (_, key, greedy) => greedy
+    ? params[key].split('/').map(encodeURIComponent).join('/')
+    : encodeURIComponent(params[key]));
+}
+`;
+}
+
+/** Every generated file, by path from the repository root */
+export const GENERATED_FILES: Record<string, () => string> = {
+  'lambda/shared/api-routes.mjs': renderBackendRoutes,
+  'web-ui/src/shared/endpoints.ts': renderClientEndpoints,
+  'web-ui-vite/src/config/endpoints.ts': renderClientEndpoints,
+};
+
+/** Generated files whose content on disk differs from what the manifest gives */
+export function staleFiles(): string[] {
+  return Object.entries(GENERATED_FILES)
+    .filter(([file, render]) => {
+      try {
+        return readFileSync(resolve(REPO_ROOT, file), 'utf8') !== render();
+      } catch {
+        return true;
+      }
+    })
+    .map(([file]) => file);
+}
+
+function main() {
+  if (process.argv.includes('--check')) {
+    const stale = staleFiles();
+    if (stale.length) {
+      console.error(`❌ Out of date, run \`npm run generate:api-routes\`: ${stale.join(', ')}`);
+      process.exit(1);
+    }
+    console.log('✅ Endpoint tables match API_ROUTES');
+    return;
+  }
+
+  for (const [file, render] of Object.entries(GENERATED_FILES)) {
+    writeFileSync(resolve(REPO_ROOT, file), render());
+    console.log(`📝 Wrote ${file}`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+
+// Write the API's OpenAPI 3.1 document from the route table and the shared
+// schemas
+//
+// Usage: npm run generate:openapi [-- --check]
+//
+// --check writes nothing and fails if the document is out of date.
+//
+// The routes come from lambda/shared/api-routes.mjs, so run
+// `npm run generate:api-routes` first after changing the manifest. Each
+// schema a route names, and every exported schema nested in one, becomes a
+// component; the keywords only our validators read (see
+// lambda/shared/schema-validator.mjs) are dropped.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import * as schemas from '../lambda/shared/schemas.mjs';
+import { API_ROUTES } from '../lambda/shared/api-routes.mjs';
+
+const REPO_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+/** Where the document is written, from the repository root */
+export const OPENAPI_FILE = 'lambda/shared/openapi.json';
+
+const STATUS_DESCRIPTIONS = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+};
+
+const SECURITY = {
+  public: undefined,
+  authenticated: [{ bearerAuth: [] }],
+  // Anonymous callers are served too
+  viewerAware: [{}, { bearerAuth: [] }],
+};
+
+// An object exported under several names, like UnlikePostRequestSchema and
+// LikePostRequestSchema, is one component named after the first of them in
+// alphabetical order
+const componentNames = new Map();
+for (const [name, value] of Object.entries(schemas)) {
+  if (name.endsWith('Schema') && !componentNames.has(value)) {
+    componentNames.set(value, name.replace(/Schema$/, ''));
+  }
+}
+
+const schemaExport = (name, routeName) => {
+  if (!name.endsWith('Schema') || !schemas[name]) {
+    throw new Error(`${routeName} names ${name}, which lambda/shared/schemas.mjs does not export`);
+  }
+  return schemas[name];
+};
+
+// Read by lambda/shared/schema-validator.mjs and the Zod generator only
+const VALIDATOR_KEYWORDS = new Set(['label', 'message', 'trim', 'emptyAsMissing', 'allowEmpty', 'rules']);
+
+const camelCase = (routeName) => routeName.toLowerCase().replace(/_(\w)/g, (_, letter) => letter.toUpperCase());
+
+/**
+ * Build the document
+ */
+export function buildOpenApi() {
+  const components = new Map();
+  const pending = [];
+
+  const ref = (schema) => {
+    const name = componentNames.get(schema);
+    if (!components.has(name)) {
+      components.set(name, null);
+      pending.push(schema);
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  };
+
+  const toJsonSchema = (schema) => {
+    const result = {};
+    for (const [key, value] of Object.entries(schema)) {
+      if (VALIDATOR_KEYWORDS.has(key)) continue;
+      if (key === 'properties') {
+        result.properties = Object.fromEntries(Object.entries(value).map(([name, property]) => [name, nested(property)]));
+      } else if (key === 'items') {
+        result.items = nested(value);
+      } else if (key === 'oneOf') {
+        result.oneOf = value.map(nested);
+      } else if (key === 'format' && value === 'url') {
+        result.format = 'uri';
+      } else {
+        result[key] = value;
+      }
+    }
+    return result;
+  };
+  const nested = (schema) => componentNames.has(schema) ? ref(schema) : toJsonSchema(schema);
+
+  // Request components leave out of `required` what the handler fills in,
+  // which must then be the same on every route using the schema
+  const requestDefaults = new Map();
+  const requestBody = (routeName, route) => {
+    const schema = schemaExport(route.request, routeName);
+    const defaults = (route.requestDefaults ?? []).join(',');
+    if (requestDefaults.has(schema) && requestDefaults.get(schema) !== defaults) {
+      throw new Error(`${routeName} fills in different fields of ${route.request} than another route`);
+    }
+    requestDefaults.set(schema, defaults);
+
+    const required = (schema.required ?? []).filter(field => !route.requestDefaults?.includes(field));
+    return {
+      required: required.length > 0,
+      content: { 'application/json': { schema: ref(schema) } },
+    };
+  };
+
+  const parameters = (routeName, route) => {
+    const inPath = [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+      name, in: 'path', required: true, schema: { type: 'string' },
+    }));
+    if (!route.query) return inPath;
+
+    const query = schemaExport(route.query, routeName);
+    return [...inPath, ...Object.entries(query.properties).map(([name, property]) => ({
+      name,
+      in: 'query',
+      ...(query.required?.includes(name) && { required: true }),
+      schema: nested(property),
+    }))];
+  };
+
+  const responses = (routeName, route) => {
+    const status = route.status ?? 200;
+    const result = {
+      [status]: {
+        description: STATUS_DESCRIPTIONS[status],
+        ...(route.response && { content: { 'application/json': { schema: ref(schemaExport(route.response, routeName)) } } }),
+      },
+    };
+    const error = (description) => ({ description, content: { 'application/json': { schema: ref(schemas.ErrorResponseSchema) } } });
+    if (route.request || route.query) {
+      result[400] = error('Invalid request');
+    }
+    if (route.auth !== 'public') {
+      result[401] = error(route.auth === 'authenticated' ? 'Missing or invalid token' : 'Invalid token');
+    }
+    return result;
+  };
+
+  const paths = {};
+  for (const [routeName, route] of Object.entries(API_ROUTES)) {
+    if (route.internal) continue;
+
+    const parameterList = parameters(routeName, route);
+    paths[route.path] ??= {};
+    paths[route.path][route.method.toLowerCase()] = {
+      operationId: camelCase(routeName),
+      tags: [route.path.split('/')[1]],
+      ...(SECURITY[route.auth] && { security: SECURITY[route.auth] }),
+      ...(parameterList.length && { parameters: parameterList }),
+      ...(route.request && { requestBody: requestBody(routeName, route) }),
+      responses: responses(routeName, route),
+    };
+  }
+
+  while (pending.length) {
+    const schema = pending.shift();
+    const component = toJsonSchema(schema);
+    if (requestDefaults.get(schema)) {
+      const defaults = requestDefaults.get(schema).split(',');
+      component.required = (component.required ?? []).filter(field => !defaults.includes(field));
+      if (!component.required.length) delete component.required;
+    }
+    components.set(componentNames.get(schema), component);
+  }
+
+  const { version } = JSON.parse(readFileSync(join(REPO_ROOT, 'package.json'), 'utf8'));
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Social Media Profile Service',
+      version,
+      description: 'REST API for social media profile service. Send the token from /auth/register or /auth/login as a bearer token.',
+    },
+    // Relative to this document, which the API serves at /docs/openapi.json
+    servers: [{ url: '..' }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+      schemas: Object.fromEntries([...components].sort(([a], [b]) => a.localeCompare(b))),
+    },
+  };
+}
+
+/** The document as written to OPENAPI_FILE */
+export function renderOpenApi() {
+  return `${JSON.stringify(buildOpenApi(), null, 2)}\n`;
+}
+
+function main() {
+  const path = join(REPO_ROOT, OPENAPI_FILE);
+
+  if (process.argv.includes('--check')) {
+    let current = null;
+    try {
+      current = readFileSync(path, 'utf8');
+    } catch {
+      // Missing counts as out of date
+    }
+    if (current !== renderOpenApi()) {
+      console.error(`❌ Out of date, run \`npm run generate:openapi\`: ${OPENAPI_FILE}`);
+      process.exit(1);
+    }
+    console.log('✅ OpenAPI document matches the routes and schemas');
+    return;
+  }
+
+  writeFileSync(path, renderOpenApi());
+  console.log(`📝 Wrote ${OPENAPI_FILE}`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
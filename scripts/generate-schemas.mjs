@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+
+// Write the frontends' Zod schemas from the shared schemas the handlers
+// validate with
+//
+// Usage: npm run generate:schemas [-- --check]
+//
+// --check writes nothing and fails if a file is out of date.
+//
+// Every schema lambda/shared/schemas.mjs exports becomes a Zod schema of the
+// same name, with its inferred type and a validate* helper that parses with
+// it. The messages are the ones lambda/shared/schema-validator.mjs reports.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import * as schemas from '../lambda/shared/schemas.mjs';
+import { EMAIL_PATTERN, fieldLabel, fieldMessages, itemLabel } from '../lambda/shared/schema-validator.mjs';
+
+const REPO_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+const HEADER = '// Generated from lambda/shared/schemas.mjs by `npm run generate:schemas`; do not edit.';
+
+const PREAMBLE = `import { z } from 'zod';
+
+const isUrl = (value: string) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isTimestamp = (value: string) => !Number.isNaN(Date.parse(value));`;
+
+const quote = (value) => `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+const literal = (value) => Array.isArray(value) ? `[${value.map(literal).join(', ')}]` : typeof value === 'string' ? quote(value) : String(value);
+
+// Each exported schema by name, the first name for one exported twice
+const exportNames = new Map();
+for (const [name, value] of Object.entries(schemas)) {
+  if (name.endsWith('Schema') && !exportNames.has(value)) {
+    exportNames.set(value, name);
+  }
+}
+
+// How a rule from a schema's `rules` reads in a refinement
+const RULES = {
+  different: ([a, b]) => `(data) => data.${a} === undefined || data.${b} === undefined || data.${a} !== data.${b}`,
+  ordered: ([a, b]) => `(data) => data.${a} === undefined || data.${b} === undefined`
+    + ` || !isTimestamp(data.${a}) || !isTimestamp(data.${b}) || Date.parse(data.${a}) <= Date.parse(data.${b})`,
+};
+
+const FORMATS = {
+  email: (message) => `.regex(${EMAIL_PATTERN}, ${quote(message)})`,
+  url: (message) => `.refine(isUrl, ${quote(message)})`,
+  'date-time': (message) => `.refine(isTimestamp, ${quote(message)})`,
+};
+
+function zodString(definition, messages) {
+  if (definition.enum) return `z.enum(${literal(definition.enum)}, { error: ${quote(messages.enum)} })`;
+  if (definition.const !== undefined) return `z.literal(${literal(definition.const)}, { error: ${quote(messages.const)} })`;
+
+  let zod = `z.string({ error: ${quote(messages.type)} })`;
+  if (definition.trim) zod += '.trim()';
+  if (definition.minLength !== undefined) zod += `.min(${definition.minLength}, ${quote(messages.minLength)})`;
+  if (definition.maxLength !== undefined) zod += `.max(${definition.maxLength}, ${quote(messages.maxLength)})`;
+  if (definition.pattern) zod += `.regex(${new RegExp(definition.pattern)}, ${quote(messages.pattern)})`;
+  if (FORMATS[definition.format]) zod += FORMATS[definition.format](messages.format);
+  if (definition.allowEmpty) zod = `z.literal('').or(${zod})`;
+  return zod;
+}
+
+function zodObject(definition, indent) {
+  const properties = Object.entries(definition.properties ?? {});
+  if (!properties.length) return 'z.record(z.string(), z.unknown())';
+
+  const fields = properties.map(([name, property]) =>
+    `${indent}  ${name}: ${zodProperty(property, name, definition.required?.includes(name) ?? false, `${indent}  `)},`);
+  let zod = `z.object({\n${fields.join('\n')}\n${indent}})`;
+
+  if (definition.minProperties) {
+    const message = `At least one of ${properties.map(([name]) => name).join(', ')} must be provided`;
+    zod += `.refine((data) => Object.values(data).filter((value) => value !== undefined).length >= ${definition.minProperties}, ${quote(message)})`;
+  }
+  for (const { check, fields: ruleFields, message } of definition.rules ?? []) {
+    zod += `.refine(${RULES[check](ruleFields)}, { message: ${quote(message)}, path: [${quote(ruleFields[1])}] })`;
+  }
+  return zod;
+}
+
+/**
+ * A schema as a Zod expression; exported schemas nested in it are referenced
+ * by name
+ */
+function zodSchema(definition, label, required, indent, top = false) {
+  if (!top && exportNames.has(definition)) return exportNames.get(definition);
+
+  if (definition.oneOf) {
+    const branches = definition.oneOf.filter(branch => branch.type !== 'null');
+    const zod = branches.length === 1
+      ? zodSchema(branches[0], label, required, indent)
+      : `z.union([${branches.map(branch => zodSchema(branch, label, required, indent)).join(', ')}])`;
+    return branches.length < definition.oneOf.length ? `${zod}.nullable()` : zod;
+  }
+
+  const types = [definition.type].flat();
+  const messages = fieldMessages(definition, label, required);
+  let zod;
+  switch (types.find(type => type !== 'null')) {
+    case 'string':
+      zod = zodString(definition, messages);
+      break;
+    case 'integer':
+    case 'number': {
+      zod = `z.number({ error: ${quote(messages.type)} })`;
+      if (types.includes('integer')) zod += `.int(${quote(messages.type)})`;
+      if (definition.minimum !== undefined) zod += `.min(${definition.minimum}, ${quote(messages.type)})`;
+      if (definition.maximum !== undefined) zod += `.max(${definition.maximum}, ${quote(messages.type)})`;
+      break;
+    }
+    case 'boolean':
+      zod = `z.boolean({ error: ${quote(messages.type)} })`;
+      break;
+    case 'array': {
+      zod = `z.array(${zodSchema(definition.items, itemLabel(definition, label), false, indent)}, { error: ${quote(messages.type)} })`;
+      if (definition.minItems !== undefined) zod += `.min(${definition.minItems}, ${quote(messages.minItems)})`;
+      if (definition.maxItems !== undefined) zod += `.max(${definition.maxItems}, ${quote(messages.maxItems)})`;
+      break;
+    }
+    case 'object':
+      zod = zodObject(definition, indent);
+      break;
+    default:
+      zod = 'z.null()';
+  }
+  return types.includes('null') && types.length > 1 ? `${zod}.nullable()` : zod;
+}
+
+function zodProperty(definition, name, required, indent) {
+  const zod = zodSchema(definition, fieldLabel(definition, name), required, indent);
+  if (definition.default !== undefined) return `${zod}.default(${literal(definition.default)})`;
+  if (definition.emptyAsMissing) {
+    return `z.preprocess((value) => value === '' ? undefined : value, ${zod}${required ? '' : '.optional()'})`;
+  }
+  return required ? zod : `${zod}.optional()`;
+}
+
+// The exported schemas nested in a schema, which must be declared before it
+function nestedExports(definition, top = true) {
+  if (!top && exportNames.has(definition)) return [definition];
+  return [
+    ...Object.values(definition.properties ?? {}),
+    ...(definition.items ? [definition.items] : []),
+    ...(definition.oneOf ?? []),
+  ].flatMap(nested => nestedExports(nested, false));
+}
+
+/**
+ * The Zod module both frontends import
+ */
+export function renderZodSchemas() {
+  // Module namespaces list their exports alphabetically, so each schema
+  // follows the ones it nests
+  const ordered = [];
+  const visit = (name) => {
+    if (ordered.includes(name)) return;
+    const first = exportNames.get(schemas[name]);
+    [first, ...nestedExports(schemas[name]).map(nested => exportNames.get(nested))]
+      .filter(dependency => dependency !== name)
+      .forEach(visit);
+    ordered.push(name);
+  };
+  Object.keys(schemas).filter(name => name.endsWith('Schema')).forEach(visit);
+
+  const declarations = ordered.map(name => {
+    const first = exportNames.get(schemas[name]);
+    return first === name
+      ? `export const ${name} = ${zodSchema(schemas[name], fieldLabel(schemas[name], name.replace(/Schema$/, '')), false, '', true)};`
+      : `export const ${name} = ${first};`;
+  });
+  const names = ordered.map(name => name.replace(/Schema$/, ''));
+
+  return `${HEADER}
+
+${PREAMBLE}
+
+${declarations.join('\n\n')}
+
+${names.map(name => `export type ${name} = z.infer<typeof ${name}Schema>;`).join('\n')}
+
+${names.map(name => `export const validate${name} = (data: unknown): ${name} => ${name}Schema.parse(data);`).join('\n')}
+`;
+}
+
+/** Where the Zod module is written, from the repository root */
+export const GENERATED_FILES = [
+  'web-ui/src/shared/schemas/api.ts',
+  'web-ui-vite/src/schemas/shared-schemas.ts',
+];
+
+/** Generated files whose content on disk differs from what the schemas give */
+export function staleFiles() {
+  const rendered = renderZodSchemas();
+  return GENERATED_FILES.filter(file => {
+    try {
+      return readFileSync(join(REPO_ROOT, file), 'utf8') !== rendered;
+    } catch {
+      return true;
+    }
+  });
+}
+
+function main() {
+  if (process.argv.includes('--check')) {
+    const stale = staleFiles();
+    if (stale.length) {
+      console.error(`❌ Out of date, run \`npm run generate:schemas\`: ${stale.join(', ')}`);
+      process.exit(1);
+    }
+    console.log('✅ Zod schemas match lambda/shared/schemas.mjs');
+    return;
+  }
+
+  const rendered = renderZodSchemas();
+  for (const file of GENERATED_FILES) {
+    writeFileSync(join(REPO_ROOT, file), rendered);
+    console.log(`📝 Wrote ${file}`);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+// Replay archived events into a single EventBridge rule, e.g. to rebuild
+// feeds or notifications after fixing their consumer
+//
+// Usage: npm run replay-events -- --rule <rule-name> --from <iso-time> [--to <iso-time>]
+//          [--bus social-media-events] [--archive social-media-events-archive] [--detach]
+//
+// Only the chosen rule's targets receive the replayed events. Replayed events
+// carry a `replay-name` field; consumers must already tolerate redelivery.
+
+import {
+  EventBridgeClient,
+  DescribeRuleCommand,
+  DescribeArchiveCommand,
+  StartReplayCommand,
+  DescribeReplayCommand,
+} from '@aws-sdk/client-eventbridge';
+import { parseArgs } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+// Must match the DataLayer bus and EVENT_DELIVERY_CONFIG.ARCHIVE_NAME
+const DEFAULT_EVENT_BUS = 'social-media-events';
+const DEFAULT_ARCHIVE = 'social-media-events-archive';
+const POLL_INTERVAL_MS = 10 * 1000;
+const FINAL_STATES = ['COMPLETED', 'CANCELLED', 'FAILED'];
+
+// Replay names are at most 64 characters of letters, digits, '.', '-' and '_'
+const replayNameFor = (rule) => `${rule.replace(/[^\w.-]/g, '-').slice(0, 48)}-${Date.now()}`;
+
+/**
+ * Start replaying the archive's events from `from` to `to` into one rule
+ *
+ * @returns {Promise<{replayName: string, ruleArn: string}>}
+ */
+export async function startReplay({ rule, from, to, eventBusName = DEFAULT_EVENT_BUS, archiveName = DEFAULT_ARCHIVE }, client) {
+  const [{ Arn: ruleArn }, { EventSourceArn: eventBusArn, ArchiveArn: archiveArn }] = await Promise.all([
+    client.send(new DescribeRuleCommand({ Name: rule, EventBusName: eventBusName })),
+    client.send(new DescribeArchiveCommand({ ArchiveName: archiveName })),
+  ]);
+
+  const replayName = replayNameFor(rule);
+  await client.send(new StartReplayCommand({
+    ReplayName: replayName,
+    Description: `Replay into ${rule}`,
+    EventSourceArn: archiveArn,
+    EventStartTime: new Date(from),
+    EventEndTime: new Date(to),
+    Destination: { Arn: eventBusArn, FilterArns: [ruleArn] },
+  }));
+
+  return { replayName, ruleArn };
+}
+
+/**
+ * Poll a replay until it completes, fails or is cancelled
+ *
+ * @returns {Promise<object>} the final DescribeReplay response
+ */
+export async function waitForReplay(replayName, client, { pollIntervalMs = POLL_INTERVAL_MS, onProgress = () => {} } = {}) {
+  for (;;) {
+    const replay = await client.send(new DescribeReplayCommand({ ReplayName: replayName }));
+    if (FINAL_STATES.includes(replay.State)) {
+      return replay;
+    }
+    onProgress(replay);
+    await sleep(pollIntervalMs);
+  }
+}
+
+function parseOptions(argv) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      rule: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      bus: { type: 'string', default: DEFAULT_EVENT_BUS },
+      archive: { type: 'string', default: DEFAULT_ARCHIVE },
+      detach: { type: 'boolean', default: false },
+    },
+  });
+
+  const to = values.to ?? new Date().toISOString();
+  if (!values.rule || !values.from) {
+    throw new Error('--rule and --from are required');
+  }
+  if (Number.isNaN(Date.parse(values.from)) || Number.isNaN(Date.parse(to))) {
+    throw new Error('--from and --to must be ISO 8601 timestamps');
+  }
+  if (Date.parse(values.from) >= Date.parse(to)) {
+    throw new Error('--from must be earlier than --to');
+  }
+
+  return { ...values, to };
+}
+
+async function main() {
+  let options;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    console.error('Usage: npm run replay-events -- --rule <rule-name> --from <iso-time> [--to <iso-time>] [--detach]');
+    process.exit(1);
+  }
+
+  const client = new EventBridgeClient({});
+  const { replayName, ruleArn } = await startReplay({
+    rule: options.rule,
+    from: options.from,
+    to: options.to,
+    eventBusName: options.bus,
+    archiveName: options.archive,
+  }, client);
+  console.log(`🔁 Started replay ${replayName} of ${options.from} – ${options.to} into ${ruleArn}`);
+
+  if (options.detach) {
+    return;
+  }
+
+  const replay = await waitForReplay(replayName, client, {
+    onProgress: ({ State, EventLastReplayedTime }) =>
+      console.log(`   ${State}${EventLastReplayedTime ? `, replayed up to ${EventLastReplayedTime.toISOString()}` : ''}`),
+  });
+
+  if (replay.State !== 'COMPLETED') {
+    console.error(`❌ Replay ${replay.State.toLowerCase()}: ${replay.StateReason ?? 'no reason given'}`);
+    process.exit(1);
+  }
+  console.log('✅ Replay completed');
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,36 @@
+import { execFile } from 'child_process';
+import { resolve } from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export const LAMBDA_ROOT = resolve(__dirname, '../../lambda');
+
+/**
+ * Run an ES-module script in a child Node process and return the JSON it prints.
+ *
+ * For the scripts under scripts/, which Jest cannot import as CommonJS; the
+ * Lambda sources are exercised through LambdaHarness (lambda-harness.ts)
+ * instead. The script must write exactly one JSON value to stdout, e.g.
+ * `console.log(JSON.stringify(result))`.
+ */
+export async function runEsm<T>(script: string, env: Record<string, string> = {}): Promise<T> {
+  const { stdout } = await execFileAsync(
+    process.execPath,
+    ['--input-type=module', '--eval', script],
+    {
+      cwd: LAMBDA_ROOT,
+      env: {
+        ...process.env,
+        AWS_REGION: 'us-east-1',
+        TABLE_NAME: 'test-table',
+        EVENT_BUS_NAME: 'test-event-bus',
+        ...env,
+      },
+      timeout: 20000,
+    }
+  );
+
+  const lines = stdout.trim().split('\n');
+  return JSON.parse(lines[lines.length - 1]);
+}
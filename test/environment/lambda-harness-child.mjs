@@ -0,0 +1,240 @@
+// The child process behind LambdaHarness (see lambda-harness.ts). It puts
+// stand-ins behind the shared AWS clients, then runs what the test asks for
+// over IPC: one { id, op, args } message in, one { id, result } or
+// { id, error } message out.
+
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { createMemoryTable, createRecordedTable } from './memory-table.mjs';
+
+const REPO_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '../..');
+const LAMBDA_ROOT = resolve(REPO_ROOT, 'lambda');
+
+// Modules are named from lambda/, or by absolute path
+const load = (module) => import(pathToFileURL(resolve(LAMBDA_ROOT, module)).href);
+
+// What the test reads back; filled in by start()
+let table;
+let memory;
+const published = [];
+const warnings = [];
+let bucket = null;
+let deadLetters = null;
+let fetched = null;
+let devServer = null;
+let s3 = null;
+
+const realNow = Date.now;
+
+console.warn = (...args) => warnings.push(args.join(' '));
+
+function recordEventBridge(eventBridgeClient, rejectDetailTypes = []) {
+  const rejected = new Set(rejectDetailTypes);
+  eventBridgeClient.send = async (command) => {
+    const entries = command.input.Entries;
+    const results = entries.map(entry => rejected.has(entry.DetailType)
+      ? { ErrorCode: 'InternalFailure', ErrorMessage: 'Rejected by the Lambda harness' }
+      : { EventId: 'event-' + published.length });
+    for (const entry of entries.filter(entry => !rejected.has(entry.DetailType))) {
+      published.push({ source: entry.Source, detailType: entry.DetailType, detail: JSON.parse(entry.Detail) });
+    }
+    return { FailedEntryCount: results.filter(result => result.ErrorCode).length, Entries: results };
+  };
+}
+
+// Lists up to pageSize keys per call, like a truncated ListObjectsV2
+function standInBucket(s3Client, { objects, pageSize = 1000 }) {
+  const keys = [...objects];
+  s3Client.send = async (command) => {
+    const input = command.input;
+    switch (command.constructor.name) {
+      case 'ListObjectsV2Command': {
+        const matching = keys.filter(key => key.startsWith(input.Prefix));
+        return { Contents: matching.slice(0, pageSize).map(Key => ({ Key })), IsTruncated: matching.length > pageSize };
+      }
+      case 'DeleteObjectsCommand':
+        for (const { Key } of input.Delete.Objects) keys.splice(keys.indexOf(Key), 1);
+        return {};
+      default: throw new Error('Unexpected S3 command ' + command.constructor.name);
+    }
+  };
+  return keys;
+}
+
+// One SQS queue holding every dead letter, and a Lambda that accepts
+// redriven events unless their id is rejected
+function standInDeadLetters(sqsClient, lambdaClient, { messages, rejectEventIds = [] }) {
+  const queue = messages.map((message, index) =>
+    ({ MessageId: 'message-' + index, ReceiptHandle: 'receipt-' + index, visibleAt: 0, ...message }));
+  const invoked = [];
+
+  sqsClient.send = async (command) => {
+    const input = command.input;
+    const visible = queue.filter(message => message.visibleAt <= Date.now());
+    switch (command.constructor.name) {
+      case 'GetQueueAttributesCommand':
+        return {
+          Attributes: {
+            ApproximateNumberOfMessages: String(visible.length),
+            ApproximateNumberOfMessagesNotVisible: String(queue.length - visible.length),
+          },
+        };
+      case 'ReceiveMessageCommand': {
+        const received = visible.slice(0, input.MaxNumberOfMessages);
+        received.forEach(message => { message.visibleAt = Date.now() + input.VisibilityTimeout * 1000; });
+        return { Messages: received.map(({ visibleAt, ...message }) => message) };
+      }
+      case 'DeleteMessageBatchCommand':
+        for (const entry of input.Entries) {
+          queue.splice(queue.findIndex(message => message.ReceiptHandle === entry.ReceiptHandle), 1);
+        }
+        return { Successful: input.Entries.map(entry => ({ Id: entry.Id })) };
+      default: throw new Error('Unexpected SQS command ' + command.constructor.name);
+    }
+  };
+  lambdaClient.send = async (command) => {
+    const payload = JSON.parse(command.input.Payload);
+    if (rejectEventIds.includes(payload.id)) {
+      throw Object.assign(new Error('Rate exceeded'), { name: 'TooManyRequestsException' });
+    }
+    invoked.push({ functionName: command.input.FunctionName, invocationType: command.input.InvocationType, eventId: payload.id });
+    return { StatusCode: 202 };
+  };
+
+  return { queue, invoked };
+}
+
+// fetch() to API_BASE_URL reaches the handler routed the path's prefix, with
+// the caller its bearer token stands for
+function standInApi({ routes, tokens }) {
+  const calls = [];
+  globalThis.fetch = async (url, { method, headers = {}, body } = {}) => {
+    const path = url.replace(process.env.API_BASE_URL, '');
+    const prefix = Object.keys(routes).find(route => path === route || path.startsWith(route + '/'));
+    calls.push(method + ' ' + path);
+    if (!prefix) throw new Error('No route for ' + path);
+
+    const { handler } = await load(routes[prefix]);
+    const proxy = path.slice(prefix.length + 1);
+    const caller = tokens[headers.Authorization];
+    const response = await handler({
+      httpMethod: method,
+      path,
+      pathParameters: proxy ? { proxy } : null,
+      requestContext: caller ? { authorizer: caller } : {},
+      body: body ?? null,
+    });
+    return { status: response.statusCode, json: async () => JSON.parse(response.body) };
+  };
+  return calls;
+}
+
+// Runs out of time after `pages` calls, the way a handler checks between pages
+const lambdaContext = ({ pages = Infinity } = {}) => {
+  let calls = 0;
+  return { getRemainingTimeInMillis: () => (calls++ < pages ? 60000 : 1000) };
+};
+
+const exported = async (module, name) => {
+  const path = name.split('.');
+  let owner = await load(module);
+  for (const part of path.slice(0, -1)) owner = owner[part];
+  return { owner, value: owner[path[path.length - 1]] };
+};
+
+const ops = {
+  async start({ table: kind, responses, rejectDetailTypes, bucket: bucketOptions, deadLetters: queueOptions, api }) {
+    const clients = await load('shared/clients.mjs');
+    if (kind === 'memory') {
+      memory = createMemoryTable();
+      table = memory;
+    } else {
+      table = createRecordedTable(responses);
+    }
+    clients.docClient.send = table.send;
+    recordEventBridge(clients.eventBridgeClient, rejectDetailTypes);
+    if (bucketOptions) bucket = standInBucket(clients.s3Client, bucketOptions);
+    if (queueOptions) deadLetters = standInDeadLetters(clients.sqsClient, clients.lambdaClient, queueOptions);
+    if (api) fetched = standInApi(api);
+  },
+
+  async call(module, name, args) {
+    const { owner, value } = await exported(module, name);
+    return value.apply(owner, args);
+  },
+
+  async value(module, name) {
+    return (await exported(module, name)).value;
+  },
+
+  async invoke(module, event, options) {
+    const { handler } = await load(module);
+    return handler(event, lambdaContext(options));
+  },
+
+  // The table
+  sent: () => table.sent,
+  seed: (items) => memory.seed(items),
+  item: (key) => memory.getItem(key),
+  deleteItem: (key) => { memory.deleteItem(key); },
+  items: (pk) => (pk === undefined ? [...memory.partitions.values()] : [memory.partitions.get(pk) ?? new Map()])
+    .flatMap(partition => [...partition.values()]),
+  partitions: () => [...memory.partitions.keys()],
+  counts: () => memory.counts,
+  takeStreamRecords: () => memory.streamRecords.splice(0),
+  async send(commandName, input) {
+    const commands = await import('@aws-sdk/lib-dynamodb');
+    return table.send(new commands[commandName](input));
+  },
+
+  // Everything else
+  published: () => published,
+  takePublished: () => published.splice(0),
+  warnings: () => warnings,
+  objects: () => bucket,
+  deadLetters: () => ({ remaining: deadLetters.queue.map(message => message.MessageId), invoked: deadLetters.invoked }),
+  fetched: () => fetched,
+  shiftClock: (ms) => { Date.now = ms ? () => realNow() + ms : realNow; },
+
+  async s3(commandName, input) {
+    const { S3Client, ...commands } = await import('@aws-sdk/client-s3');
+    s3 ??= new S3Client({});
+    return s3.send(new commands[commandName](input));
+  },
+
+  // The dev server, reading the table's stream from the memory table
+  async startDevServer(options) {
+    const { startDevServer } = await load(resolve(REPO_ROOT, 'scripts/dev-server/index.mjs'));
+    devServer = await startDevServer({
+      ...options,
+      tableStream: { poll: async () => memory.streamRecords.splice(0) },
+    });
+    return { url: devServer.url, s3Url: devServer.s3Url };
+  },
+  settle: () => devServer.settle(),
+
+  async stop() {
+    await devServer?.close();
+  },
+};
+
+// Errors lose everything but their message crossing the process boundary,
+// so their name and own fields are sent alongside
+const describeError = (error) => error instanceof Error
+  ? { ...error, name: error.name, message: error.message, stack: error.stack }
+  : { name: 'Error', message: String(error) };
+
+process.on('message', async ({ id, op, args }) => {
+  let reply;
+  try {
+    reply = { id, result: await ops[op](...args) };
+  } catch (error) {
+    reply = { id, error: describeError(error) };
+  }
+  try {
+    process.send(reply);
+  } catch (error) {
+    process.send({ id, error: { name: 'DataCloneError', message: `${op} returned a value that cannot be sent back: ${error.message}` } });
+  }
+  if (op === 'stop') process.disconnect();
+});
@@ -0,0 +1,340 @@
+import { ChildProcess, fork } from 'child_process';
+import { resolve } from 'path';
+import { LAMBDA_ROOT } from './esm-runner';
+
+const CHILD = resolve(__dirname, 'lambda-harness-child.mjs');
+
+export interface Caller {
+  userId: string;
+  username: string;
+  role?: string;
+}
+
+export interface TableKey {
+  PK: string;
+  SK: string;
+}
+
+export interface TableItem extends TableKey {
+  [attribute: string]: unknown;
+}
+
+/**
+ * A command the shared layer sent to the table. Tests reach deep into the
+ * inputs, so they are not typed beyond being objects.
+ */
+export interface SentCommand {
+  type: string;
+  input: Record<string, any>;
+}
+
+/** What a recorded table answers a command with, or the error it throws */
+export type RecordedResponse = object | { throws: { name: string; message?: string; [detail: string]: unknown } };
+
+/** The recorded table throws this error, like the SDK for a failed request */
+export const failure = (name: string, details: Record<string, unknown> = {}): RecordedResponse =>
+  ({ throws: { name, ...details } });
+
+export interface EventEnvelope {
+  eventId: string;
+  correlationId: string;
+  schemaVersion: number;
+  occurredAt: string;
+  data: Record<string, unknown>;
+}
+
+/** An entry the shared layer put on the bus */
+export interface PublishedEvent {
+  source: string;
+  detailType: string;
+  detail: EventEnvelope;
+}
+
+/** An event as EventBridge delivers it to a consumer */
+export interface BusEvent {
+  id: string;
+  source: string;
+  'detail-type': string;
+  time: string;
+  detail: EventEnvelope;
+}
+
+/** A published entry as EventBridge delivers it to a consumer */
+export const delivered = ({ source, detailType, detail }: PublishedEvent): BusEvent =>
+  ({ id: detail.eventId, source, 'detail-type': detailType, time: detail.occurredAt, detail });
+
+export interface HandlerResult {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body: string;
+}
+
+export interface ApiResponse<T> {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: T;
+}
+
+export interface ErrorBody {
+  error: string;
+  details?: string[];
+}
+
+export interface InvokeOptions {
+  /** Pages of work the invocation has time for before it runs short */
+  pages?: number;
+}
+
+export interface LambdaHarnessOptions {
+  /**
+   * 'memory' keeps the table in memory; otherwise every command is recorded
+   * and answered with the next of `responses`
+   */
+  table?: 'memory' | 'recorded';
+  responses?: RecordedResponse[];
+  /** Detail types EventBridge rejects, to exercise partial PutEvents failures */
+  rejectDetailTypes?: string[];
+  /** An S3 bucket holding these keys, listed `pageSize` at a time */
+  bucket?: { objects: string[]; pageSize?: number };
+  /** A dead letter queue holding these messages, and a Lambda rejecting redriven events by id */
+  deadLetters?: { messages: object[]; rejectEventIds?: string[] };
+  /**
+   * Handlers answering fetch() to API_BASE_URL by path prefix (e.g.
+   * '/data/posts'), and the caller each Authorization header stands for
+   */
+  api?: { routes: Record<string, string>; tokens: Record<string, Caller> };
+  env?: Record<string, string>;
+}
+
+export interface DeadLetterState {
+  /** Message ids still queued */
+  remaining: string[];
+  invoked: { functionName: string; invocationType: string; eventId: string }[];
+}
+
+interface Pending {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface Reply {
+  id: number;
+  result?: unknown;
+  error?: { name: string; message: string; stack?: string };
+}
+
+const running = new Set<LambdaHarness>();
+
+/**
+ * Messages are deserialized with Node's own Set, Map and Date, which are not
+ * the ones Jest's sandbox compares against; rebuild them in the test's realm
+ */
+function adopt(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(adopt);
+  if (value === null || typeof value !== 'object') return value;
+  switch (Object.prototype.toString.call(value)) {
+    case '[object Set]': return new Set([...(value as Set<unknown>)].map(adopt));
+    case '[object Map]': return new Map([...(value as Map<unknown, unknown>)].map(([k, v]) => [adopt(k), adopt(v)]));
+    case '[object Date]': return new Date((value as Date).getTime());
+    case '[object Object]': return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, adopt(v)]));
+    default: return value;
+  }
+}
+
+/**
+ * The Lambda sources run in a child Node process, since Jest runs the suite
+ * as CommonJS and cannot import them. The child puts stand-ins behind the
+ * shared AWS clients and the harness calls into it: module paths are
+ * relative to lambda/ (or absolute), and arguments and results cross the
+ * process boundary by structured clone, so Sets and Maps survive but
+ * functions do not.
+ */
+export class LambdaHarness {
+  private readonly pending = new Map<number, Pending>();
+  private nextId = 0;
+  private stderr = '';
+
+  private constructor(private readonly child: ChildProcess) {
+    child.on('message', (reply: Reply) => {
+      const pending = this.pending.get(reply.id);
+      this.pending.delete(reply.id);
+      if (reply.error) {
+        const { message, ...details } = reply.error;
+        pending?.reject(Object.assign(new Error(message), details));
+      } else {
+        pending?.resolve(adopt(reply.result));
+      }
+    });
+    child.stderr?.on('data', (chunk) => { this.stderr += chunk; });
+    child.stdout?.resume();
+    child.on('exit', (code) => {
+      for (const { reject } of this.pending.values()) {
+        reject(new Error(`Lambda harness exited with code ${code}\n${this.stderr}`));
+      }
+      this.pending.clear();
+    });
+  }
+
+  static async start(options: LambdaHarnessOptions = {}): Promise<LambdaHarness> {
+    const { env = {}, ...standIns } = options;
+    const child = fork(CHILD, [], {
+      cwd: LAMBDA_ROOT,
+      env: {
+        ...process.env,
+        AWS_REGION: 'us-east-1',
+        TABLE_NAME: 'test-table',
+        EVENT_BUS_NAME: 'test-event-bus',
+        ...env,
+      },
+      serialization: 'advanced',
+      silent: true,
+    });
+    const harness = new LambdaHarness(child);
+    running.add(harness);
+    await harness.rpc('start', standIns);
+    return harness;
+  }
+
+  /** Stop every harness started so far; for afterEach */
+  static async stopAll(): Promise<void> {
+    await Promise.all([...running].map(harness => harness.stop()));
+  }
+
+  private rpc<T>(op: string, ...args: unknown[]): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      this.child.send({ id, op, args });
+    });
+  }
+
+  /** Call an export, e.g. `call('shared/feed-data.mjs', 'FeedData.getUserFeed', userId)` */
+  call<T>(module: string, name: string, ...args: unknown[]): Promise<T> {
+    return this.rpc('call', module, name, args);
+  }
+
+  /** Read an exported value */
+  value<T>(module: string, name: string): Promise<T> {
+    return this.rpc('value', module, name);
+  }
+
+  /** Invoke a module's handler the way Lambda would */
+  invoke<T = HandlerResult>(module: string, event: object, options: InvokeOptions = {}): Promise<T> {
+    return this.rpc('invoke', module, event, options);
+  }
+
+  /** Invoke an API handler and parse the JSON body it returns */
+  async request<T>(module: string, event: object): Promise<ApiResponse<T>> {
+    const { statusCode, headers = {}, body } = await this.invoke(module, event);
+    return { statusCode, headers, body: body ? JSON.parse(body) : null };
+  }
+
+  /** A catalogued event as EventBridge delivers it to a consumer */
+  async busEvent(detailType: string, data: object, options?: { eventId?: string; correlationId?: string; occurredAt?: string }): Promise<BusEvent> {
+    return delivered(await this.call<PublishedEvent>('shared/event-catalog.mjs', 'createEvent', detailType, data, options));
+  }
+
+  sent(): Promise<SentCommand[]> {
+    return this.rpc('sent');
+  }
+
+  seed(items: object[]): Promise<void> {
+    return this.rpc('seed', items);
+  }
+
+  item<T extends object = TableItem>(key: TableKey): Promise<T | undefined> {
+    return this.rpc('item', key);
+  }
+
+  deleteItem(key: TableKey): Promise<void> {
+    return this.rpc('deleteItem', key);
+  }
+
+  /** The items of one partition, or of the whole table */
+  items<T extends object = TableItem>(pk?: string): Promise<T[]> {
+    return this.rpc('items', pk);
+  }
+
+  partitions(): Promise<string[]> {
+    return this.rpc('partitions');
+  }
+
+  /** Commands sent to the memory table, by type */
+  counts(): Promise<Record<string, number>> {
+    return this.rpc('counts');
+  }
+
+  /** Stream records for the changes since the last call */
+  takeStreamRecords(): Promise<object[]> {
+    return this.rpc('takeStreamRecords');
+  }
+
+  /** Send a lib-dynamodb command by name through the shared docClient */
+  send<T>(commandName: string, input: object): Promise<T> {
+    return this.rpc('send', commandName, input);
+  }
+
+  published(): Promise<PublishedEvent[]> {
+    return this.rpc('published');
+  }
+
+  /** Events published since the last call */
+  takePublished(): Promise<PublishedEvent[]> {
+    return this.rpc('takePublished');
+  }
+
+  /** What the Lambda code passed to console.warn */
+  warnings(): Promise<string[]> {
+    return this.rpc('warnings');
+  }
+
+  /** Keys left in the stand-in bucket */
+  objects(): Promise<string[]> {
+    return this.rpc('objects');
+  }
+
+  deadLetters(): Promise<DeadLetterState> {
+    return this.rpc('deadLetters');
+  }
+
+  /** `<method> <path>` of each fetch() the stand-in API answered */
+  fetched(): Promise<string[]> {
+    return this.rpc('fetched');
+  }
+
+  /** Move the child's clock by `ms`; 0 puts it back */
+  shiftClock(ms: number): Promise<void> {
+    return this.rpc('shiftClock', ms);
+  }
+
+  /** Send an S3 command by name with a client configured from the environment */
+  s3<T>(commandName: string, input: object): Promise<T> {
+    return this.rpc('s3', commandName, input);
+  }
+
+  /**
+   * Start the dev server (scripts/dev-server) on the memory table, reading
+   * the table stream from its changes
+   */
+  startDevServer(options: object): Promise<{ url: string; s3Url: string }> {
+    return this.rpc('startDevServer', options);
+  }
+
+  /** Wait for the dev server's stream and bus to deliver everything */
+  settle(): Promise<void> {
+    return this.rpc('settle');
+  }
+
+  async stop(): Promise<void> {
+    if (!running.delete(this)) return;
+    if (this.child.connected) {
+      await this.rpc('stop').catch(() => undefined);
+    }
+    if (this.child.exitCode === null && this.child.signalCode === null) {
+      const exited = new Promise(resolve => this.child.once('exit', resolve));
+      const timer = setTimeout(() => this.child.kill(), 2000);
+      await exited;
+      clearTimeout(timer);
+    }
+  }
+}
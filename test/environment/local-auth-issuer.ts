@@ -0,0 +1,100 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, KeyObject, randomUUID, sign } from 'crypto';
+
+export interface LocalTokenClaims {
+  userId: string;
+  username?: string;
+  role?: string;
+  expiresInSeconds?: number;
+  issuer?: string;
+  audience?: string;
+}
+
+/**
+ * Local stand-in for the deployed JWKS endpoint.
+ *
+ * Serves /.well-known/jwks.json on a random localhost port and issues RS256
+ * tokens signed with its own key, so the authorizer and shared auth helpers
+ * can be exercised without Secrets Manager or API Gateway.
+ */
+export class LocalAuthIssuer {
+  readonly issuer: string;
+  readonly audience: string;
+  readonly kid = randomUUID();
+
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private server?: Server;
+
+  constructor(issuer = 'social-media-profile-service', audience = 'social-media-api') {
+    this.issuer = issuer;
+    this.audience = audience;
+
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      if (req.url !== '/.well-known/jwks.json') {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(this.getJwks()));
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return this.getJwksUrl();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  getJwksUrl(): string {
+    const { port } = this.server!.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/.well-known/jwks.json`;
+  }
+
+  getJwks() {
+    return {
+      keys: [{ ...this.publicKey.export({ format: 'jwk' }), kid: this.kid, alg: 'RS256', use: 'sig' }],
+    };
+  }
+
+  /**
+   * Environment for a process that should trust this issuer
+   */
+  getVerifierEnvironment(): Record<string, string> {
+    return {
+      AUTH_ISSUER: this.issuer,
+      AUTH_AUDIENCE: this.audience,
+      AUTH_JWKS_URL: this.getJwksUrl(),
+    };
+  }
+
+  issueToken(claims: LocalTokenClaims): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = { alg: 'RS256', typ: 'JWT', kid: this.kid };
+    const payload = {
+      iss: claims.issuer ?? this.issuer,
+      aud: claims.audience ?? this.audience,
+      sub: claims.userId,
+      username: claims.username ?? claims.userId,
+      role: claims.role ?? 'user',
+      iat: now,
+      exp: now + (claims.expiresInSeconds ?? 3600),
+    };
+
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = `${encode(header)}.${encode(payload)}`;
+    const signature = sign('RSA-SHA256', Buffer.from(signingInput), this.privateKey).toString('base64url');
+
+    return `${signingInput}.${signature}`;
+  }
+}
@@ -0,0 +1,234 @@
+// Stand-ins for the DynamoDB table behind the shared docClient, used by the
+// Lambda harness child (see lambda-harness.ts)
+
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+/**
+ * An in-memory table, for tests that need real key-condition and paging
+ * behaviour over more items than a response list can describe.
+ *
+ * `send` answers the commands the shared layer sends. `partitions` maps PK to
+ * a Map of SK to item and `counts` the number of commands sent by type. Only
+ * the key conditions, update expressions and simple filter/condition
+ * expressions (`a = :v`, `attribute_exists(a)`, `attribute_not_exists(a)`,
+ * `contains(a, :v)`, joined with AND) used by the shared layer are
+ * understood, index queries only on an index's partition key, and scans page
+ * through the partitions in insertion order; anything else throws so a test
+ * cannot pass by accident. A failed condition throws a
+ * ConditionalCheckFailedException like DynamoDB, or cancels a transaction.
+ *
+ * Every change made through `send` (not by `seed`) is also appended to
+ * `streamRecords` as a NEW_AND_OLD_IMAGES stream record, for replaying
+ * through the stream processor.
+ */
+export function createMemoryTable() {
+  const partitions = new Map();
+  const counts = {};
+  const streamRecords = [];
+
+  const putItem = (item) => {
+    if (!partitions.has(item.PK)) partitions.set(item.PK, new Map());
+    partitions.get(item.PK).set(item.SK, item);
+  };
+  const getItem = (key) => partitions.get(key.PK)?.get(key.SK);
+  const deleteItem = (key) => partitions.get(key.PK)?.delete(key.SK);
+  const seed = (items) => items.forEach(putItem);
+
+  const write = (key, next) => {
+    const previous = getItem(key);
+    if (JSON.stringify(previous) === JSON.stringify(next)) return; // Unchanged items leave no record
+    if (next) putItem(next); else deleteItem(key);
+    const sequenceNumber = String(streamRecords.length + 1).padStart(21, '0');
+    streamRecords.push({
+      eventID: sequenceNumber,
+      eventName: !previous ? 'INSERT' : next ? 'MODIFY' : 'REMOVE',
+      eventSource: 'aws:dynamodb',
+      dynamodb: {
+        ApproximateCreationDateTime: Math.floor(Date.now() / 1000),
+        Keys: marshall({ PK: key.PK, SK: key.SK }),
+        ...(next && { NewImage: marshall(next, { removeUndefinedValues: true }) }),
+        ...(previous && { OldImage: marshall(previous, { removeUndefinedValues: true }) }),
+        SequenceNumber: sequenceNumber,
+        StreamViewType: 'NEW_AND_OLD_IMAGES',
+      },
+    });
+  };
+  const byKey = (a, b) => (a.SK < b.SK ? -1 : a.SK > b.SK ? 1 : 0);
+
+  const keyCondition = ({ KeyConditionExpression: condition, ExpressionAttributeValues: values }) => {
+    switch (condition) {
+      case 'PK = :pk': return () => true;
+      case 'PK = :pk AND begins_with(SK, :sk)': return sk => sk.startsWith(values[':sk']);
+      case 'PK = :pk AND SK >= :from': return sk => sk >= values[':from'];
+      case 'PK = :pk AND SK BETWEEN :from AND :to': return sk => sk >= values[':from'] && sk <= values[':to'];
+      default: throw new Error('memory table: unsupported key condition ' + condition);
+    }
+  };
+
+  const attribute = (name, names = {}) => names[name] || name;
+
+  const expression = (text, names, values) => {
+    if (!text) return () => true;
+    if (text.includes(' AND ')) {
+      const parts = text.split(' AND ').map(part => expression(part, names, values));
+      return item => parts.every(part => part(item));
+    }
+    const exists = text.match(/^(attribute_exists|attribute_not_exists)\(([#\w]+)\)$/);
+    if (exists) {
+      const name = attribute(exists[2], names);
+      return item => (exists[1] === 'attribute_exists') === (item?.[name] !== undefined);
+    }
+    const contains = text.match(/^contains\(([#\w]+), (:\w+)\)$/);
+    if (contains) {
+      const name = attribute(contains[1], names);
+      return item => item?.[name]?.includes?.(values[contains[2]]) === true;
+    }
+    const equals = text.match(/^([#\w]+) = (:\w+)$/);
+    if (equals) {
+      const name = attribute(equals[1], names);
+      return item => item?.[name] === values[equals[2]];
+    }
+    throw new Error('memory table: unsupported expression ' + text);
+  };
+
+  const checkCondition = (input, item) => {
+    if (!expression(input.ConditionExpression, input.ExpressionAttributeNames, input.ExpressionAttributeValues)(item)) {
+      throw Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+    }
+  };
+
+  const query = (input) => {
+    if (input.IndexName) {
+      return indexQuery(input);
+    }
+    const matches = keyCondition(input);
+    const filter = expression(input.FilterExpression, input.ExpressionAttributeNames, input.ExpressionAttributeValues);
+    const forward = input.ScanIndexForward !== false;
+    const start = input.ExclusiveStartKey?.SK;
+    const items = [...(partitions.get(input.ExpressionAttributeValues[':pk'])?.values() || [])]
+      .filter(item => matches(item.SK))
+      .filter(item => start === undefined || (forward ? item.SK > start : item.SK < start))
+      .sort(byKey);
+    if (!forward) items.reverse();
+
+    // Like DynamoDB, the limit applies before the filter
+    const page = input.Limit ? items.slice(0, input.Limit) : items;
+    const last = page.length < items.length ? page[page.length - 1] : undefined;
+    return { Items: page.filter(filter), ...(last && { LastEvaluatedKey: { PK: last.PK, SK: last.SK } }) };
+  };
+
+  // Partition-key-only index queries, like the username-index lookup
+  const indexQuery = (input) => {
+    const matches = expression(input.KeyConditionExpression, input.ExpressionAttributeNames, input.ExpressionAttributeValues);
+    const items = [...partitions.values()].flatMap(partition => [...partition.values()]).filter(matches).sort(byKey);
+    return { Items: input.Limit ? items.slice(0, input.Limit) : items };
+  };
+
+  // Partitions in insertion order, each in sort key order; the limit applies before the filter
+  const scan = (input) => {
+    const items = [...partitions.values()].flatMap(partition => [...partition.values()].sort(byKey));
+    const start = input.ExclusiveStartKey
+      ? items.findIndex(item => item.PK === input.ExclusiveStartKey.PK && item.SK === input.ExclusiveStartKey.SK) + 1
+      : 0;
+    const page = input.Limit ? items.slice(start, start + input.Limit) : items.slice(start);
+    const last = start + page.length < items.length ? page[page.length - 1] : undefined;
+    const filter = expression(input.FilterExpression, input.ExpressionAttributeNames, input.ExpressionAttributeValues);
+    return { Items: page.filter(filter), ...(last && { LastEvaluatedKey: { PK: last.PK, SK: last.SK } }) };
+  };
+
+  // SET a = :x, b = if_not_exists(b, :y) and ADD a :n, returning nothing or ALL_NEW
+  const update = (input) => {
+    const { Key, UpdateExpression, ExpressionAttributeNames: names, ExpressionAttributeValues: values = {} } = input;
+    checkCondition(input, getItem(Key));
+    const item = { ...(getItem(Key) || Key) };
+    const [, set = '', add = ''] = UpdateExpression.match(/^(?:SET (.+?))?\s*(?:ADD (.+))?$/) || [];
+    for (const clause of set.split(/,(?![^(]*\))/).map(c => c.trim()).filter(Boolean)) {
+      const [, alias, value] = clause.match(/^([#\w]+) = (.+)$/);
+      const name = attribute(alias, names);
+      const ifNotExists = value.match(/^if_not_exists\([#\w]+, (:\w+)\)$/);
+      item[name] = ifNotExists ? (item[name] ?? values[ifNotExists[1]]) : values[value];
+    }
+    for (const clause of add.split(',').map(c => c.trim()).filter(Boolean)) {
+      const [alias, value] = clause.split(' ');
+      const name = attribute(alias, names);
+      item[name] = (item[name] || 0) + values[value];
+    }
+    write(Key, item);
+    return input.ReturnValues === 'ALL_NEW' ? { Attributes: structuredClone(item) } : {};
+  };
+
+  // All conditions are checked before anything is written
+  const transactWrite = ({ TransactItems }) => {
+    const reasons = TransactItems.map((operation) => {
+      const [[, input]] = Object.entries(operation);
+      try {
+        checkCondition(input, getItem(input.Key || input.Item));
+        return { Code: 'None' };
+      } catch (error) {
+        return { Code: 'ConditionalCheckFailed' };
+      }
+    });
+    if (reasons.some(reason => reason.Code !== 'None')) {
+      throw Object.assign(new Error('Transaction cancelled'), { name: 'TransactionCanceledException', CancellationReasons: reasons });
+    }
+    for (const operation of TransactItems) {
+      const [[type, input]] = Object.entries(operation);
+      if (type === 'Put') write(input.Item, input.Item);
+      else if (type === 'Delete') write(input.Key, undefined);
+      else if (type === 'Update') update(input);
+    }
+    return {};
+  };
+
+  const send = async (command) => {
+    const type = command.constructor.name;
+    const input = command.input;
+    counts[type] = (counts[type] || 0) + 1;
+
+    switch (type) {
+      // Copies, so callers mutating a result do not edit the table behind its back
+      case 'GetCommand': return { Item: getItem(input.Key) && structuredClone(getItem(input.Key)) };
+      case 'PutCommand': checkCondition(input, getItem(input.Item)); write(input.Item, input.Item); return {};
+      case 'DeleteCommand': checkCondition(input, getItem(input.Key)); write(input.Key, undefined); return {};
+      case 'UpdateCommand': return update(input);
+      case 'TransactWriteCommand': return transactWrite(input);
+      case 'QueryCommand': return query(input);
+      case 'ScanCommand': return scan(input);
+      case 'BatchGetCommand': {
+        const [[tableName, { Keys }]] = Object.entries(input.RequestItems);
+        return { Responses: { [tableName]: Keys.map(getItem).filter(Boolean) } };
+      }
+      case 'BatchWriteCommand': {
+        const [requests] = Object.values(input.RequestItems);
+        for (const request of requests) {
+          if (request.PutRequest) write(request.PutRequest.Item, request.PutRequest.Item);
+          else write(request.DeleteRequest.Key, undefined);
+        }
+        return {};
+      }
+      default: throw new Error('memory table: unsupported command ' + type);
+    }
+  };
+
+  return { send, seed, getItem, deleteItem, partitions, counts, streamRecords };
+}
+
+/**
+ * A table that records each command as { type, input } in `sent` and answers
+ * it with the next of `responses`, or an empty result once they run out. A
+ * response of `{ throws: { name, message, ...details } }` is thrown as an
+ * error instead, the way the SDK reports a failed condition or transaction.
+ */
+export function createRecordedTable(responses = []) {
+  const sent = [];
+  const send = async (command) => {
+    sent.push({ type: command.constructor.name, input: command.input });
+    const response = responses.shift() || {};
+    if (response.throws) {
+      const { message = response.throws.name, ...details } = response.throws;
+      throw Object.assign(new Error(message), details);
+    }
+    return response;
+  };
+  return { send, sent };
+}
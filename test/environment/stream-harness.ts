@@ -0,0 +1,41 @@
+import { LambdaHarness, PublishedEvent } from './lambda-harness';
+
+export interface StreamReplayOptions {
+  /** Items in the table while the records are processed (like events read their post) */
+  items?: object[];
+  /** Detail types EventBridge rejects, to exercise partial PutEvents failures */
+  rejectDetailTypes?: string[];
+}
+
+export interface StreamReplayResult {
+  /** Events accepted by EventBridge, in order */
+  published: PublishedEvent[];
+  /** Sequence numbers the processor asked Lambda to retry from */
+  batchItemFailures: string[];
+}
+
+/**
+ * Feed recorded DynamoDB stream records to the stream processor, as Lambda
+ * would, and report what it published.
+ *
+ * Records can be a fixture captured from a deployed table (see
+ * test/fixtures/stream-records.json) or the stream records a memory table
+ * collected while handlers ran (`LambdaHarness.takeStreamRecords`).
+ */
+export async function replayStreamRecords(
+  records: object[],
+  options: StreamReplayOptions = {},
+): Promise<StreamReplayResult> {
+  const lambda = await LambdaHarness.start({ table: 'memory', rejectDetailTypes: options.rejectDetailTypes });
+  try {
+    await lambda.seed(options.items ?? []);
+    const response = await lambda.invoke<{ batchItemFailures: { itemIdentifier: string }[] }>(
+      'events-esm/stream-processor.mjs', { Records: records });
+    return {
+      published: await lambda.published(),
+      batchItemFailures: response.batchItemFailures.map(failure => failure.itemIdentifier),
+    };
+  } finally {
+    await lambda.stop();
+  }
+}
@@ -13,7 +13,7 @@ describe('API Endpoints Integration Tests', () => {
   });
 
   describe('Profile Endpoints', () => {
-    describe('POST /profiles', () => {
+    describe('POST /auth/register', () => {
       it('should create a new profile', async () => {
         const profileData = {
           username: `testuser_${Date.now()}`,
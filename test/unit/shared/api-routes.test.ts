@@ -0,0 +1,119 @@
+import { App } from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { readFileSync, readdirSync } from 'fs';
+import { join, resolve } from 'path';
+import { RefactoredProfileServiceStack } from '../../../lib/refactored-stack';
+import { API_ROUTES, ApiRouteAuth, ApiRouteDefinition } from '../../../lib/constants/api-routes';
+import { staleFiles } from '../../../scripts/generate-api-routes';
+
+const REPO_ROOT = resolve(__dirname, '../../..');
+
+type Resources = Record<string, { Type: string; Properties: Record<string, any> }>;
+
+interface SynthesizedRoute {
+  method: string;
+  path: string;
+  auth: ApiRouteAuth;
+  /** The handler's file under lambda/, e.g. posts-esm/create.mjs */
+  handlerFile: string;
+}
+
+const AUTH_BY_AUTHORIZER_TYPE: Record<string, ApiRouteAuth> = { TOKEN: 'authenticated', REQUEST: 'viewerAware' };
+
+/** Every method of the synthesized API except the CORS preflights */
+function synthesizedRoutes(): SynthesizedRoute[] {
+  const app = new App({ context: { 'aws:cdk:disable-asset-staging': true } });
+  const stack = new RefactoredProfileServiceStack(app, 'ProfileServiceStack', {
+    env: { account: '123456789012', region: 'us-east-1' },
+  });
+  const resources: Resources = Template.fromStack(stack).toJSON().Resources;
+
+  const pathOf = (resourceId: string): string => {
+    const { ParentId, PathPart } = resources[resourceId].Properties;
+    return `${ParentId.Ref ? pathOf(ParentId.Ref) : ''}/${PathPart}`;
+  };
+
+  return Object.values(resources)
+    .filter(({ Type, Properties }) => Type === 'AWS::ApiGateway::Method' && Properties.HttpMethod !== 'OPTIONS')
+    .map(({ Properties }) => {
+      const functionId = Properties.Integration.Uri['Fn::Join'][1]
+        .find((part: any) => part['Fn::GetAtt'])['Fn::GetAtt'][0];
+      const handler: string = resources[functionId].Properties.Handler;
+      return {
+        method: Properties.HttpMethod,
+        path: Properties.ResourceId['Fn::GetAtt'] ? '/' : pathOf(Properties.ResourceId.Ref),
+        auth: Properties.AuthorizationType === 'NONE'
+          ? 'public'
+          : AUTH_BY_AUTHORIZER_TYPE[resources[Properties.AuthorizerId.Ref].Properties.Type],
+        handlerFile: `${handler.slice(0, handler.lastIndexOf('.'))}.mjs`,
+      };
+    });
+}
+
+const pathParameterNames = (path: string) => [...path.matchAll(/\{(\w+)\+?\}/g)].map(([, name]) => name);
+
+/** The path parameters a handler reads, as `pathParameters?.name` or by destructuring */
+function pathParametersRead(source: string): string[] {
+  const names = [...source.matchAll(/pathParameters\??\.(\w+)/g)].map(([, name]) => name);
+  for (const [, fields] of source.matchAll(/\{([^{}]*)\}\s*=\s*(?:event\.)?pathParameters/g)) {
+    names.push(...fields.split(',').map(field => field.split(':')[0].trim()).filter(Boolean));
+  }
+  return names;
+}
+
+const routes = Object.values(API_ROUTES as Record<string, ApiRouteDefinition>);
+
+describe('API route manifest', () => {
+  let synthesized: SynthesizedRoute[];
+
+  beforeAll(() => {
+    synthesized = synthesizedRoutes();
+  }, 120000);
+
+  it('is what the stack builds the API from', () => {
+    const key = ({ method, path, auth }: { method: string; path: string; auth: ApiRouteAuth }) => `${method} ${path} (${auth})`;
+
+    expect(synthesized.map(key).sort()).toEqual(routes.map(key).sort());
+  });
+
+  it('gives every handler the path parameters it reads', () => {
+    const unrouted: string[] = [];
+    const handlerFiles = new Set(synthesized.map(({ handlerFile }) => handlerFile));
+
+    for (const handlerFile of handlerFiles) {
+      const routed = new Set(synthesized
+        .filter(route => route.handlerFile === handlerFile)
+        .flatMap(({ path }) => pathParameterNames(path)));
+      const source = readFileSync(join(REPO_ROOT, 'lambda', handlerFile), 'utf8');
+      unrouted.push(...pathParametersRead(source)
+        .filter(name => !routed.has(name))
+        .map(name => `${handlerFile} reads {${name}}`));
+    }
+
+    expect(unrouted).toEqual([]);
+  });
+
+  it('matches the generated endpoint tables', () => {
+    expect(staleFiles()).toEqual([]);
+  });
+
+  it('is the only place the frontends take API paths from', () => {
+    const firstSegments = new Set(routes.map(({ path }) => path.split('/')[1]));
+    const serviceDirs = ['web-ui/src/services', 'web-ui-vite/src/services'];
+    const hardCoded: string[] = [];
+
+    for (const dir of serviceDirs) {
+      for (const file of readdirSync(join(REPO_ROOT, dir)).filter(name => /\.tsx?$/.test(name) && !/\.test\./.test(name))) {
+        const source = readFileSync(join(REPO_ROOT, dir, file), 'utf8').replace(/^import .*$/gm, '');
+        for (const [literal, path] of source.matchAll(/['"`](\/?[\w.-]+(?:\/[^'"`\s]*)?)['"`]/g)) {
+          // web-ui-vite's paths have no leading slash
+          if (path.startsWith('/') || (path.includes('/') && firstSegments.has(path.split('/')[0]))) {
+            hardCoded.push(`${dir}/${file}: ${literal}`);
+          }
+        }
+      }
+    }
+
+    expect(hardCoded).toEqual([]);
+  });
+});
@@ -0,0 +1,195 @@
+import { LocalAuthIssuer } from '../../environment/local-auth-issuer';
+import { generateKeyPairSync } from 'crypto';
+import { LambdaHarness } from '../../environment/lambda-harness';
+
+const METHOD_ARN = 'arn:aws:execute-api:us-east-1:123456789012:abc123/prod/POST/posts';
+
+interface AuthorizerResult {
+  principalId: string;
+  policyDocument: { Statement: { Action: string; Effect: string; Resource: string }[] };
+  context: Record<string, string>;
+}
+
+describe('JWT Authentication', () => {
+  const issuer = new LocalAuthIssuer();
+  let env: Record<string, string>;
+
+  beforeAll(async () => {
+    await issuer.start();
+    env = issuer.getVerifierEnvironment();
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  afterEach(() => LambdaHarness.stopAll());
+
+  // The authorizer's policy, or the message it rejected the request with;
+  // user-1 has a profile unless `profiles` says otherwise
+  const authorize = async (event: object, profiles: object[] = [{ PK: 'USER#user-1', SK: 'PROFILE', userId: 'user-1' }]) => {
+    const lambda = await LambdaHarness.start({ table: 'memory', env });
+    await lambda.seed(profiles);
+    return lambda.invoke<AuthorizerResult>('auth-esm/authorizer.mjs', event).then(
+      result => ({ result, error: undefined }),
+      (error: Error) => ({ result: undefined, error: error.message }),
+    );
+  };
+
+  const invokeAuthorizer = (authorizationToken: string | undefined) =>
+    authorize({ type: 'TOKEN', authorizationToken, methodArn: METHOD_ARN });
+
+  describe('authorizer', () => {
+    it('allows a valid token and exposes the caller in the context', async () => {
+      const token = issuer.issueToken({ userId: 'user-1', username: 'alice' });
+
+      const { result, error } = await invokeAuthorizer(`Bearer ${token}`);
+
+      expect(error).toBeUndefined();
+      expect(result?.principalId).toBe('user-1');
+      expect(result?.context).toEqual({ userId: 'user-1', username: 'alice', role: 'user' });
+      expect(result?.policyDocument.Statement[0]).toEqual({
+        Action: 'execute-api:Invoke',
+        Effect: 'Allow',
+        Resource: 'arn:aws:execute-api:us-east-1:123456789012:abc123/prod/*',
+      });
+    });
+
+    it('rejects the token of a user who is being deleted or is gone', async () => {
+      const token = `Bearer ${issuer.issueToken({ userId: 'user-1' })}`;
+      const event = { type: 'TOKEN', authorizationToken: token, methodArn: METHOD_ARN };
+
+      const deleting = await authorize(event, [{ PK: 'USER#user-1', SK: 'PROFILE', userId: 'user-1', deletedAt: '2024-01-01T00:00:00.000Z' }]);
+      const deleted = await authorize(event, []);
+
+      expect(deleting.error).toBe('Unauthorized');
+      expect(deleted.error).toBe('Unauthorized');
+    });
+
+    it('rejects a missing header', async () => {
+      const { error } = await invokeAuthorizer(undefined);
+      expect(error).toBe('Unauthorized');
+    });
+
+    it('rejects a non-bearer scheme', async () => {
+      const token = issuer.issueToken({ userId: 'user-1' });
+      const { error } = await invokeAuthorizer(`Basic ${token}`);
+      expect(error).toBe('Unauthorized');
+    });
+
+    it('rejects an expired token', async () => {
+      const token = issuer.issueToken({ userId: 'user-1', expiresInSeconds: -3600 });
+      const { error } = await invokeAuthorizer(`Bearer ${token}`);
+      expect(error).toBe('Unauthorized');
+    });
+
+    it('rejects a token from another issuer', async () => {
+      const token = issuer.issueToken({ userId: 'user-1', issuer: 'someone-else' });
+      const { error } = await invokeAuthorizer(`Bearer ${token}`);
+      expect(error).toBe('Unauthorized');
+    });
+
+    it('rejects a token for another audience', async () => {
+      const token = issuer.issueToken({ userId: 'user-1', audience: 'other-api' });
+      const { error } = await invokeAuthorizer(`Bearer ${token}`);
+      expect(error).toBe('Unauthorized');
+    });
+
+    it('rejects a token whose payload was tampered with', async () => {
+      const [header, , signature] = issuer.issueToken({ userId: 'user-1' }).split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({
+        iss: issuer.issuer,
+        aud: issuer.audience,
+        sub: 'admin',
+        role: 'admin',
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      })).toString('base64url');
+
+      const { error } = await invokeAuthorizer(`Bearer ${header}.${forgedPayload}.${signature}`);
+      expect(error).toBe('Unauthorized');
+    });
+
+    it('rejects a token signed by an unknown key', async () => {
+      const stranger = new LocalAuthIssuer(issuer.issuer, issuer.audience);
+      const { error } = await invokeAuthorizer(`Bearer ${stranger.issueToken({ userId: 'user-1' })}`);
+      expect(error).toBe('Unauthorized');
+    });
+  });
+
+  describe('optional authorizer for viewer-aware reads', () => {
+    const invokeRequestAuthorizer = (headers: Record<string, string>) =>
+      authorize({ type: 'REQUEST', headers, methodArn: METHOD_ARN });
+
+    it('lets anonymous requests through without a caller', async () => {
+      const { result, error } = await invokeRequestAuthorizer({});
+
+      expect(error).toBeUndefined();
+      expect(result?.policyDocument.Statement[0].Effect).toBe('Allow');
+      expect(result?.context).toEqual({});
+    });
+
+    it('identifies the caller when a token is sent', async () => {
+      const token = issuer.issueToken({ userId: 'user-1', username: 'alice' });
+
+      const { result } = await invokeRequestAuthorizer({ authorization: `Bearer ${token}` });
+
+      expect(result?.context).toEqual({ userId: 'user-1', username: 'alice', role: 'user' });
+    });
+
+    it('still rejects a token that does not verify', async () => {
+      const token = issuer.issueToken({ userId: 'user-1', expiresInSeconds: -3600 });
+
+      const expired = await invokeRequestAuthorizer({ Authorization: `Bearer ${token}` });
+      const malformed = await invokeRequestAuthorizer({ Authorization: 'Basic abc' });
+
+      expect(expired.error).toBe('Unauthorized');
+      expect(malformed.error).toBe('Unauthorized');
+    });
+  });
+
+  describe('helpers', () => {
+    it('round-trips tokens signed with a local signing key', async () => {
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const lambda = await LambdaHarness.start({
+        env: {
+          AUTH_ISSUER: issuer.issuer,
+          AUTH_AUDIENCE: issuer.audience,
+          AUTH_SIGNING_KEY: JSON.stringify({ ...privateKey.export({ format: 'jwk' }), kid: 'local' }),
+        },
+      });
+
+      const { token, expiresIn } = await lambda.call<{ token: string; expiresIn: number }>(
+        'shared/auth.mjs', 'signAccessToken', { userId: 'user-2', username: 'bob' });
+      const claims = await lambda.call('shared/auth.mjs', 'verifyAccessToken', token);
+      const jwks = await lambda.call<{ keys: Record<string, string>[] }>('shared/auth.mjs', 'getJwks');
+
+      expect(expiresIn).toBe(3600);
+      expect(claims).toMatchObject({ sub: 'user-2', username: 'bob', role: 'user' });
+      expect(jwks.keys).toHaveLength(1);
+      expect(jwks.keys[0]).toMatchObject({ kid: 'local', alg: 'RS256', use: 'sig', kty: 'RSA' });
+      expect(jwks.keys[0].d).toBeUndefined();
+    });
+
+    it('hashes and verifies passwords', async () => {
+      const lambda = await LambdaHarness.start();
+      const verify = (password: string, hash: string) => lambda.call<boolean>('shared/auth.mjs', 'verifyPassword', password, hash);
+
+      const hash = await lambda.call<string>('shared/auth.mjs', 'hashPassword', 'correct horse');
+
+      expect(hash).toMatch(/^scrypt\$/);
+      expect(hash).not.toContain('correct horse');
+      expect(await verify('correct horse', hash)).toBe(true);
+      expect(await verify('wrong horse', hash)).toBe(false);
+      expect(await verify('correct horse', 'plain-text')).toBe(false);
+    });
+
+    it('resolves the caller from the authorizer context', async () => {
+      const lambda = await LambdaHarness.start();
+      const identify = (event: object) => lambda.call('shared/auth.mjs', 'getCallerIdentity', event);
+
+      expect(await identify({ requestContext: { authorizer: { userId: 'user-3', username: 'carol' } } }))
+        .toEqual({ userId: 'user-3', username: 'carol', role: 'user' });
+      expect(await identify({ requestContext: {} })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { InvokeOptions, LambdaHarness, TableItem, delivered } from '../../environment/lambda-harness';
+
+interface SyncJob {
+  runId: string;
+  status: string;
+  phase: string;
+  progress: { posts: number; feedItems: number };
+  cursor?: TableItem;
+}
+
+const BASE_MS = Date.parse('2024-01-01T00:00:00.000Z');
+const stale = { username: 'alice', displayName: 'Old Name', avatar: 'old.png' };
+const JOB = { PK: 'JOB#author-sync#alice-id', SK: 'STATE' };
+
+let lambda: LambdaHarness;
+
+beforeEach(async () => {
+  lambda = await LambdaHarness.start({ table: 'memory' });
+});
+afterEach(() => LambdaHarness.stopAll());
+
+const seedAuthor = ({ posts, followers }: { posts: number; followers: number }) => {
+  const items: TableItem[] = [
+    { PK: 'USER#alice-id', SK: 'PROFILE', userId: 'alice-id', username: 'alice', displayName: 'New Name', avatar: 'new.png' },
+  ];
+  for (let n = 0; n < posts; n++) {
+    const postId = `post-${n}`;
+    const createdMs = BASE_MS + n * 1000;
+    items.push(
+      { PK: `POST#${postId}`, SK: 'METADATA', postId, userId: 'alice-id', ...stale, content: `post ${n}` },
+      { PK: 'USER#alice-id', SK: `POST#${createdMs}#${postId}`, postId },
+    );
+    for (let f = 0; f < followers; f++) {
+      items.push({ PK: `FEED#reader-${f}`, SK: `POST#${createdMs}#${postId}`, postId, userId: 'alice-id', ...stale });
+    }
+  }
+  for (let f = 0; f < followers; f++) {
+    items.push(
+      { PK: 'USER#alice-id', SK: `FOLLOWER#reader-${f}`, followerId: `reader-${f}` },
+      { PK: `FEED#reader-${f}`, SK: 'POST#1#other-post', postId: 'other-post', userId: 'bob-id', displayName: 'Bob', avatar: 'bob.png' },
+    );
+  }
+  return lambda.seed(items);
+};
+
+const propagate = (event: object, options?: InvokeOptions) =>
+  lambda.invoke('events-esm/author-propagator.mjs', event, options);
+const profileUpdated = (updates: Record<string, string>) =>
+  lambda.busEvent('Profile Updated', { userId: 'alice-id', updates, previousProfile: stale }, { correlationId: `update-${Object.keys(updates)}` });
+const job = () => lambda.item<SyncJob>(JOB);
+const staleCopies = async () =>
+  (await lambda.items()).filter(item => item.userId === 'alice-id' && item.displayName === 'Old Name').length;
+
+describe('author propagator', () => {
+  it('rewrites the author on every post and follower feed item', async () => {
+    await seedAuthor({ posts: 3, followers: 2 });
+    await lambda.deleteItem({ PK: 'POST#post-1', SK: 'METADATA' });
+
+    await propagate(await profileUpdated({ displayName: 'New Name' }));
+
+    expect(await lambda.item({ PK: 'POST#post-0', SK: 'METADATA' }))
+      .toMatchObject({ username: 'alice', displayName: 'New Name', avatar: 'new.png', content: 'post 0' });
+    expect(await lambda.item({ PK: 'POST#post-1', SK: 'METADATA' })).toBeUndefined();
+    expect(await lambda.item({ PK: 'FEED#reader-0', SK: 'POST#1#other-post' })).toMatchObject({ displayName: 'Bob', avatar: 'bob.png' });
+    expect(await staleCopies()).toBe(0);
+    expect(await job()).toMatchObject({ status: 'completed', progress: { posts: 2, feedItems: 6 } });
+  });
+
+  it('ignores updates that do not touch copied fields', async () => {
+    await seedAuthor({ posts: 1, followers: 1 });
+    await propagate(await profileUpdated({ bio: 'Hello' }));
+
+    expect(await job()).toBeUndefined();
+    expect(await staleCopies()).toBe(2);
+  });
+
+  it('hands over to a new invocation when time runs short and resumes from the saved cursor', async () => {
+    await seedAuthor({ posts: 250, followers: 30 });
+
+    // Time for two pages of posts, then the function is about to time out
+    await propagate(await profileUpdated({ avatar: 'new.png' }), { pages: 2 });
+    const paused = (await job())!;
+    const [handover] = await lambda.published();
+    const staleAtPause = await staleCopies();
+
+    await propagate(delivered(handover));
+
+    expect(handover).toMatchObject({
+      source: 'social-media.profiles',
+      detailType: 'Author Sync Continued',
+      // The handover belongs to the chain the profile update started
+      detail: { correlationId: 'update-avatar', data: { userId: 'alice-id', runId: paused.runId } },
+    });
+    expect(paused).toMatchObject({ status: 'running', phase: 'posts', progress: { posts: 200, feedItems: 0 } });
+    expect(paused.cursor).toMatchObject({ PK: 'USER#alice-id' });
+    expect(staleAtPause).toBe(50 + 250 * 30);
+
+    expect(await staleCopies()).toBe(0);
+    expect(await job()).toMatchObject({ status: 'completed', progress: { posts: 250, feedItems: 250 * 30 } });
+  });
+
+  it('fails the invocation whose handover EventBridge rejects, so its retry finishes the rewrite', async () => {
+    lambda = await LambdaHarness.start({ table: 'memory', rejectDetailTypes: ['Author Sync Continued'] });
+    await seedAuthor({ posts: 250, followers: 2 });
+    const updated = await profileUpdated({ avatar: 'new.png' });
+
+    const handover = await propagate(updated, { pages: 2 }).then(() => null, (error: Error) => error.name);
+    const paused = (await job())!;
+    await propagate(updated);
+
+    expect(handover).toBe('EventsRejectedError');
+    expect(paused).toMatchObject({ status: 'running', phase: 'posts', progress: { posts: 200 } });
+    expect(await lambda.published()).toEqual([]);
+    expect(await staleCopies()).toBe(0);
+    expect(await job()).toMatchObject({ status: 'completed', progress: { posts: 250, feedItems: 500 } });
+  });
+
+  it('drops a handover from a run that a newer update restarted', async () => {
+    await seedAuthor({ posts: 150, followers: 1 });
+
+    await propagate(await profileUpdated({ avatar: 'new.png' }), { pages: 1 });
+    const [handover] = await lambda.published();
+
+    await propagate(await profileUpdated({ displayName: 'New Name' }));
+    const restarted = (await job())!;
+    const writesBefore = (await lambda.counts()).UpdateCommand;
+    await propagate(delivered(handover));
+
+    expect(handover.detail.data.runId).not.toBe(restarted.runId);
+    expect((await lambda.counts()).UpdateCommand - writesBefore).toBe(0);
+    expect(await job()).toMatchObject({ status: 'completed', progress: { posts: 150, feedItems: 150 } });
+  });
+});
@@ -0,0 +1,240 @@
+import { LambdaHarness, RecordedResponse, ErrorBody } from '../../environment/lambda-harness';
+
+const userProfile = { username: 'alice', displayName: 'Alice', avatar: '' };
+
+interface Comment {
+  commentId: string;
+  parentCommentId?: string;
+}
+
+interface CommentThread extends Comment {
+  replies: Comment[];
+}
+
+describe('CommentData', () => {
+  let lambda: LambdaHarness;
+  const start = async (responses: RecordedResponse[] = []) => {
+    lambda = await LambdaHarness.start({ responses });
+  };
+  const startWithTable = async () => {
+    lambda = await LambdaHarness.start({ table: 'memory', env: { CURSOR_SECRET: 'test-cursor-secret' } });
+    await lambda.seed([
+      { PK: 'POST#post-1', SK: 'METADATA', postId: 'post-1', userId: 'alice-id', commentsCount: 0 },
+      { PK: 'USER#alice-id', SK: 'PROFILE', userId: 'alice-id', username: 'alice', isPrivate: false },
+    ]);
+  };
+  const comments = <T>(name: string, ...args: unknown[]) => lambda.call<T>('shared/comment-data.mjs', `CommentData.${name}`, ...args);
+
+  afterEach(() => LambdaHarness.stopAll());
+
+  it('creates a top-level comment, its author\'s reference and the count in one transaction', async () => {
+    await start();
+    const comment = await comments<Comment>('createComment', {
+      postId: 'post-1', postAuthorId: 'alice-id', userId: 'alice-id', content: 'First!', userProfile,
+    });
+    const sent = await lambda.sent();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].type).toBe('TransactWriteCommand');
+
+    const [put, pointer, reference, update] = sent[0].input.TransactItems;
+    expect(put.Put.Item.PK).toBe('POST#post-1');
+    expect(put.Put.Item.SK).toMatch(new RegExp(`^COMMENT#\\d+#${comment.commentId}$`));
+    expect(pointer.Put.Item).toEqual({
+      PK: 'POST#post-1', SK: `COMMENT_ID#${comment.commentId}`, commentId: comment.commentId, commentSK: put.Put.Item.SK,
+    });
+    expect(reference.Put.Item).toEqual({
+      PK: 'USER#alice-id',
+      SK: `REF#POST#post-1#COMMENT_ID#${comment.commentId}`,
+      ref: { PK: 'POST#post-1', SK: `COMMENT_ID#${comment.commentId}` },
+      postId: 'post-1',
+      commentId: comment.commentId,
+      postAuthorId: 'alice-id',
+    });
+    expect(update.Update.Key).toEqual({ PK: 'POST#post-1', SK: 'METADATA' });
+    expect(update.Update.UpdateExpression).toBe('ADD commentsCount :inc');
+    expect(update.Update.ConditionExpression).toBe('attribute_exists(PK)');
+    expect(comment.parentCommentId).toBeUndefined();
+  });
+
+  it('stores replies under the parent key and checks the parent still exists', async () => {
+    const parent = { PK: 'POST#post-1', SK: 'COMMENT#1700000000000#parent-1', commentId: 'parent-1' };
+
+    await start();
+    const comment = await comments<Comment>('createComment', {
+      postId: 'post-1', userId: 'bob-id', content: 'Reply', userProfile, parentComment: parent,
+    });
+    const sent = await lambda.sent();
+
+    const [put, , , , check] = sent[0].input.TransactItems;
+    expect(put.Put.Item.SK).toMatch(new RegExp(`^${parent.SK}#REPLY#\\d+#${comment.commentId}$`));
+    expect(comment.parentCommentId).toBe('parent-1');
+    expect(check.ConditionCheck.Key).toEqual({ PK: parent.PK, SK: parent.SK });
+  });
+
+  it('deletes a comment with its replies and decrements by the number removed', async () => {
+    const parent = { PK: 'POST#post-1', SK: 'COMMENT#1#parent-1', commentId: 'parent-1', postId: 'post-1', userId: 'alice-id' };
+    const replies = Array.from({ length: 150 }, (_, i) => ({
+      PK: 'POST#post-1', SK: `COMMENT#1#parent-1#REPLY#${i}#r${i}`, commentId: `r${i}`, parentCommentId: 'parent-1', userId: 'bob-id',
+    }));
+
+    await start([{ Items: replies }]);
+    const result = await comments<{ deletedCount: number }>('deleteComment', parent);
+    const sent = await lambda.sent();
+
+    expect(result.deletedCount).toBe(151);
+
+    const transactions = sent.filter(s => s.type === 'TransactWriteCommand');
+    expect(transactions).toHaveLength(5);
+
+    const decrements = transactions.map(t => t.input.TransactItems.at(-1).Update.ExpressionAttributeValues[':dec']);
+    expect(decrements).toEqual([-33, -33, -33, -33, -19]);
+
+    // The parent is removed last so a partial failure never orphans replies
+    const last = transactions[4].input.TransactItems;
+    expect(last.at(-2).Delete.Key).toEqual({ PK: parent.PK, SK: parent.SK });
+    expect(last.at(-3).Delete.Key).toEqual({ PK: 'POST#post-1', SK: 'COMMENT_ID#parent-1' });
+    expect(last.at(-4).Delete.Key).toEqual({ PK: 'USER#alice-id', SK: 'REF#POST#post-1#COMMENT_ID#parent-1' });
+
+    // Nothing is deleted or counted twice when another request got there first;
+    // only the authors' references may already be gone
+    const conditions = transactions.flatMap(t => t.input.TransactItems
+      .filter((i: any) => !i.Delete?.Key.SK.startsWith('REF#'))
+      .map((i: any) => (i.Delete ?? i.Update).ConditionExpression));
+    expect(new Set(conditions)).toEqual(new Set(['attribute_exists(PK)']));
+  });
+
+  it('reads a comment by ID through its pointer, without querying the thread', async () => {
+    await startWithTable();
+    const created = await comments<Comment>('createComment', {
+      postId: 'post-1', userId: 'alice-id', content: 'First!', userProfile,
+    });
+    const before = { ...await lambda.counts() };
+
+    const comment = await comments<Comment>('getComment', 'post-1', created.commentId);
+    const missing = await comments<Comment | undefined>('getComment', 'post-1', 'nope');
+    const counts = await lambda.counts();
+
+    expect(comment).toMatchObject({ commentId: created.commentId, content: 'First!' });
+    expect(missing).toBeUndefined();
+    expect(counts.QueryCommand ?? 0).toBe(before.QueryCommand ?? 0);
+    expect(counts.GetCommand - (before.GetCommand ?? 0)).toBe(3);
+  });
+
+  it('says why a deletion was cancelled and leaves the counter alone', async () => {
+    await startWithTable();
+    const first = await comments<Comment>('createComment', { postId: 'post-1', userId: 'alice-id', content: 'One', userProfile });
+    const second = await comments<Comment>('createComment', { postId: 'post-1', userId: 'alice-id', content: 'Two', userProfile });
+    const firstItem = await comments<{ PK: string; SK: string }>('getComment', 'post-1', first.commentId);
+    const secondItem = await comments<{ PK: string; SK: string }>('getComment', 'post-1', second.commentId);
+
+    // Deleted by another request since it was read
+    await lambda.deleteItem(firstItem);
+    const deletedComment = await comments('deleteComment', firstItem).catch((error: Error) => error);
+
+    // The post went away meanwhile
+    await lambda.deleteItem({ PK: 'POST#post-1', SK: 'METADATA' });
+    const deletedPost = await comments('deleteComment', secondItem).catch((error: Error) => error);
+
+    expect(deletedComment).toMatchObject({ name: 'CommentDeletionCancelled', reason: 'comment-deleted' });
+    expect(deletedPost).toMatchObject({ name: 'CommentDeletionCancelled', reason: 'post-deleted' });
+    expect(await lambda.item({ PK: 'POST#post-1', SK: `COMMENT_ID#${second.commentId}` })).toBeDefined();
+  });
+
+  it('answers 404 for a comment deleted meanwhile and 409 when its thread changed', async () => {
+    await startWithTable();
+    const parent = await comments<Comment>('createComment', { postId: 'post-1', userId: 'alice-id', content: 'Parent', userProfile });
+    const parentItem = await comments<{ PK: string; SK: string }>('getComment', 'post-1', parent.commentId);
+    const reply = await comments<Comment>('createComment', {
+      postId: 'post-1', userId: 'alice-id', content: 'Reply', userProfile, parentComment: parentItem,
+    });
+    const replyItem = await comments<{ PK: string; SK: string }>('getComment', 'post-1', reply.commentId);
+    const deleteAsAlice = () => lambda.request<ErrorBody>('comments-esm/delete.mjs', {
+      httpMethod: 'DELETE',
+      pathParameters: { postId: 'post-1', commentId: parent.commentId },
+      requestContext: { authorizer: { userId: 'alice-id', username: 'alice', role: 'user' } },
+    });
+
+    // Another request is halfway through deleting the reply
+    await lambda.deleteItem({ PK: 'POST#post-1', SK: `COMMENT_ID#${reply.commentId}` });
+    const changed = await deleteAsAlice();
+
+    await lambda.deleteItem(replyItem);
+    const deleted = await deleteAsAlice();
+    const gone = await deleteAsAlice();
+
+    expect(changed.statusCode).toBe(409);
+    expect(deleted.statusCode).toBe(200);
+    expect(gone.statusCode).toBe(404);
+    expect(await lambda.item({ PK: 'POST#post-1', SK: 'METADATA' })).toMatchObject({ commentsCount: 1 });
+  });
+
+  it('does not look up replies when deleting a reply', async () => {
+    const reply = { PK: 'POST#post-1', SK: 'COMMENT#1#p#REPLY#2#r', commentId: 'r', parentCommentId: 'p', postId: 'post-1' };
+
+    await start();
+    await comments('deleteComment', reply);
+    const sent = await lambda.sent();
+
+    expect(sent.map((s: any) => s.type)).toEqual(['TransactWriteCommand']);
+  });
+
+  it('pages through threads without counting their replies toward the limit', async () => {
+    await startWithTable();
+    const comment = (sk: string, commentId: string, parentCommentId?: string) => ({
+      PK: 'POST#post-1', SK: `COMMENT#${sk}`, commentId, postId: 'post-1', userId: 'alice-id',
+      username: 'alice', displayName: 'Alice', content: commentId, createdAt: '2024-01-01T00:00:00.000Z', parentCommentId,
+    });
+    await lambda.seed([
+      comment('1#c1', 'c1'),
+      comment('1#c1#REPLY#2#r1', 'r1', 'c1'),
+      comment('1#c1#REPLY#3#r2', 'r2', 'c1'),
+      comment('1#c1#REPLY#4#r3', 'r3', 'c1'),
+      comment('5#c2', 'c2'),
+      comment('6#c3', 'c3'),
+      comment('6#c3#REPLY#7#r4', 'r4', 'c3'),
+    ]);
+    const list = (queryStringParameters: Record<string, string>) => lambda.request<{ comments: CommentThread[]; count: number; nextCursor: string | null }>(
+      'comments-esm/list.mjs', { httpMethod: 'GET', pathParameters: { postId: 'post-1' }, queryStringParameters });
+
+    const first = await list({ limit: '2' });
+    const second = await list({ limit: '2', cursor: first.body.nextCursor! });
+
+    expect(first.body.comments.map(c => [c.commentId, c.replies.map(r => r.commentId)]))
+      .toEqual([['c1', ['r1', 'r2', 'r3']], ['c2', []]]);
+    expect(first.body.count).toBe(5);
+    expect(second.body.comments.map(c => [c.commentId, c.replies.map(r => r.commentId)])).toEqual([['c3', ['r4']]]);
+    expect(second.body.nextCursor).toBeNull();
+  });
+
+  it('groups comments into threads with one level of replies', async () => {
+    const items = [
+      { commentId: 'c1', postId: 'post-1', userId: 'u1', username: 'a', displayName: 'A', content: 'one', createdAt: 't1' },
+      { commentId: 'r1', postId: 'post-1', userId: 'u2', username: 'b', displayName: 'B', content: 're', parentCommentId: 'c1', createdAt: 't2' },
+      { commentId: 'c2', postId: 'post-1', userId: 'u3', username: 'c', displayName: 'C', content: 'two', createdAt: 't3' },
+    ];
+
+    await start();
+    const response = await lambda.call<{ count: number; comments: CommentThread[] }>(
+      'shared/schemas.mjs', 'createCommentsResponse', items, 'post-1');
+
+    expect(response.count).toBe(3);
+    expect(response.comments.map(c => c.commentId)).toEqual(['c1', 'c2']);
+    expect(response.comments[0].replies.map(r => r.commentId)).toEqual(['r1']);
+    expect(response.comments[1].replies).toEqual([]);
+  });
+
+  it('validates create comment requests', async () => {
+    await start();
+    const requests = [
+      { postId: 'p', userId: 'u', content: 'ok' },
+      { postId: 'p', userId: 'u', content: '   ' },
+      { postId: 'p', userId: 'u', content: 'x'.repeat(1001) },
+      { postId: 'p', userId: 'u', content: 'ok', parentCommentId: '' },
+    ];
+    const results = await Promise.all(requests.map(request =>
+      lambda.call<{ isValid: boolean }>('shared/schemas.mjs', 'validateCreateCommentRequest', request)));
+
+    expect(results.map(r => r.isValid)).toEqual([true, false, false, false]);
+  });
+});
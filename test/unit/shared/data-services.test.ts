@@ -0,0 +1,135 @@
+import { ApiResponse, Caller, ErrorBody, LambdaHarness } from '../../environment/lambda-harness';
+
+const alice = { userId: 'alice', username: 'alice', role: 'user' };
+const bob = { userId: 'bob', username: 'bob', role: 'user' };
+const admin = { userId: 'admin-id', username: 'admin', role: 'admin' };
+
+const SERVICES = {
+  posts: 'data-esm/posts-data-service.mjs',
+  profiles: 'data-esm/profiles-data-service.mjs',
+};
+
+interface Post {
+  postId: string;
+  [field: string]: unknown;
+}
+
+interface Profile {
+  userId: string;
+  [field: string]: unknown;
+}
+
+let lambda: LambdaHarness;
+
+/**
+ * An in-memory table with alice, bob and a private dave signed up, and the
+ * data services reachable through `fetch` at API_BASE_URL the way API
+ * Gateway routes /data/{entity}/{proxy+}, with the bearer token
+ * `<userId>-token` resolved to that caller
+ */
+beforeEach(async () => {
+  lambda = await LambdaHarness.start({
+    table: 'memory',
+    api: {
+      routes: { '/data/posts': SERVICES.posts, '/data/profiles': SERVICES.profiles },
+      tokens: Object.fromEntries([alice, bob, admin].map(caller => [`Bearer ${caller.userId}-token`, caller])),
+    },
+    env: { API_BASE_URL: 'https://api.example.com/prod' },
+  });
+  for (const userId of ['alice', 'bob', 'dave']) {
+    await shared('AuthData.registerUser', {
+      userId, username: userId, email: `${userId}@example.com`, displayName: userId.toUpperCase(), passwordHash: 'hash', isPrivate: userId === 'dave',
+    });
+  }
+});
+afterEach(() => LambdaHarness.stopAll());
+
+const shared = <T>(name: string, ...args: unknown[]) => lambda.call<T>('shared/index.mjs', name, ...args);
+
+// Call a data service directly
+const request = <T>(service: keyof typeof SERVICES, method: string, proxy: string | null, caller: Caller | null, body?: object):
+  Promise<ApiResponse<T>> => {
+  const path = `/data/${service}${proxy ? `/${proxy}` : ''}`;
+  return lambda.request(SERVICES[service], {
+    httpMethod: method,
+    path,
+    pathParameters: proxy ? { proxy } : null,
+    requestContext: caller ? { authorizer: caller } : {},
+    body: body === undefined ? null : JSON.stringify(body),
+  });
+};
+
+const profileOf = (userId: string) => lambda.item<{ postsCount?: number }>({ PK: `USER#${userId}`, SK: 'PROFILE' });
+
+describe('data services', () => {
+  it('persists a post created through the create post handler', async () => {
+    const createPost = (caller: Caller, body: object) => lambda.request<Post>('posts-esm/create.mjs', {
+      httpMethod: 'POST',
+      headers: { Authorization: `Bearer ${caller.userId}-token` },
+      requestContext: { authorizer: caller },
+      body: JSON.stringify(body),
+    });
+    const response = await createPost(alice, { content: '  Hello world  ', userProfile: { displayName: 'Not Alice' } });
+    const post = response.body;
+    const { required, properties } = await lambda.value<{ required: string[]; properties: Record<string, object> }>(
+      'shared/schemas.mjs', 'PostResponseSchema');
+
+    const asBob = await createPost(bob, { content: 'Hello' });
+
+    expect(response.statusCode).toBe(201);
+    expect(post).toMatchObject({ userId: 'alice', username: 'alice', displayName: 'ALICE', content: 'Hello world', likesCount: 0 });
+    expect(required.filter(field => post[field] === undefined)).toEqual([]);
+    expect(Object.keys(post).filter(field => !properties[field])).toEqual([]);
+    expect(await shared('PostData.getPostById', post.postId)).toMatchObject({ postId: post.postId, content: 'Hello world', displayName: 'ALICE' });
+    expect((await profileOf('alice'))!.postsCount).toBe(1);
+    expect((await lambda.items('USER#alice')).filter(item => item.SK.startsWith('POST#'))).toHaveLength(1);
+    expect({ statusCode: asBob.statusCode, posts: (await profileOf('bob'))!.postsCount }).toEqual({ statusCode: 201, posts: 1 });
+    expect(await lambda.fetched()).toEqual(['POST /data/posts/create', 'POST /data/posts/create']);
+  });
+
+  it('gets, batch-gets and updates posts, hiding private authors from strangers', async () => {
+    const author = (userId: string) => ({ username: userId, displayName: userId });
+    const { postId: alicePost } = await shared<Post>('PostData.createPost', { userId: 'alice', content: 'Public', userProfile: author('alice') });
+    const { postId: davePost } = await shared<Post>('PostData.createPost', { userId: 'dave', content: 'Private', userProfile: author('dave') });
+
+    const batch = await request<{ posts: Post[] }>('posts', 'POST', 'batch-get', bob, { postIds: [alicePost, davePost, 'missing', alicePost] });
+    const tooMany = await request<ErrorBody>('posts', 'POST', 'batch-get', bob, { postIds: Array.from({ length: 101 }, (_, i) => `p${i}`) });
+
+    expect(await request('posts', 'GET', alicePost, bob)).toMatchObject({ statusCode: 200, body: { postId: alicePost, content: 'Public' } });
+    expect((await request('posts', 'GET', davePost, bob)).statusCode).toBe(404);
+    expect((await request('posts', 'GET', davePost, admin)).statusCode).toBe(200);
+    expect(batch.body.posts.map(post => post.postId)).toEqual([alicePost]);
+    expect(tooMany.statusCode).toBe(400);
+    expect(tooMany.body).toEqual({ error: 'postIds must have at most 100 entries' });
+    expect((await request('posts', 'PUT', alicePost, bob, { content: 'Mine now' })).statusCode).toBe(403);
+    expect((await request('posts', 'PUT', alicePost, alice, {})).statusCode).toBe(400);
+    expect((await request('posts', 'PUT', alicePost, alice, { content: 'Edited ' })).body)
+      .toMatchObject({ postId: alicePost, content: 'Edited', revisionCount: 1 });
+    expect((await request('posts', 'DELETE', alicePost, alice)).statusCode).toBe(404);
+    expect((await request('posts', 'GET', null, alice)).statusCode).toBe(404);
+    expect((await request('posts', 'GET', alicePost, null)).statusCode).toBe(401);
+  });
+
+  it('gets, batch-gets, updates and (as an admin) creates profiles', async () => {
+    const erin = { userId: 'erin', username: 'erin', email: 'erin@example.com', displayName: 'Erin' };
+    const get = await request<Profile>('profiles', 'GET', 'dave', bob);
+    const batch = await request<{ profiles: Profile[] }>('profiles', 'POST', 'batch-get', bob, { userIds: ['alice', 'nobody', 'bob'] });
+
+    expect(get).toMatchObject({ statusCode: 200, body: { userId: 'dave', displayName: 'DAVE', isPrivate: true, bio: '', postsCount: 0 } });
+    expect(get.body.email).toBeUndefined();
+    expect((await request('profiles', 'GET', 'nobody', bob)).statusCode).toBe(404);
+    expect(batch.body.profiles.map(profile => profile.userId).sort()).toEqual(['alice', 'bob']);
+    expect((await request('profiles', 'POST', 'batch-get', bob, { userIds: [] })).statusCode).toBe(400);
+    expect((await request('profiles', 'PUT', 'alice', bob, { bio: 'Hacked' })).statusCode).toBe(403);
+    expect((await request('profiles', 'PUT', 'alice', alice, { isPrivate: 'yes', userId: 'bob' })).body)
+      .toEqual({ error: 'Validation failed', details: ['isPrivate must be true or false'] });
+    expect((await request('profiles', 'PUT', 'alice', alice, { bio: 'Hi', isPrivate: true, postsCount: 99 })).body)
+      .toMatchObject({ userId: 'alice', bio: 'Hi', isPrivate: true, postsCount: 0 });
+    expect((await request('profiles', 'PUT', 'nobody', admin, { bio: 'Hi' })).statusCode).toBe(404);
+    expect((await request('profiles', 'POST', 'create', bob, erin)).statusCode).toBe(403);
+    expect(await request('profiles', 'POST', 'create', admin, erin))
+      .toMatchObject({ statusCode: 201, body: { userId: 'erin', username: 'erin', followersCount: 0 } });
+    expect((await request('profiles', 'POST', 'create', admin, erin)).statusCode).toBe(409);
+    expect(await profileOf('nobody')).toBeUndefined();
+  });
+});
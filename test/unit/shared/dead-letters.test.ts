@@ -0,0 +1,199 @@
+import { runEsm } from '../../environment/esm-runner';
+import { ApiResponse, Caller, LambdaHarness } from '../../environment/lambda-harness';
+import { resolve } from 'path';
+
+const admin = { userId: 'admin-1', username: 'admin', role: 'admin' };
+
+const followed = {
+  id: 'event-1',
+  source: 'social-media.follows',
+  'detail-type': 'User Followed',
+  time: '2024-01-15T10:00:00Z',
+  detail: { followerId: 'bob', followedUserId: 'alice' },
+};
+const liked = {
+  id: 'event-2',
+  source: 'social-media.likes',
+  'detail-type': 'Post Liked',
+  time: '2024-01-15T10:05:00Z',
+  detail: { userId: 'carol', postId: 'post-1', postAuthorId: 'alice' },
+};
+
+// The two shapes a failed event arrives in
+const lambdaFailure = (event: object) => ({
+  Body: JSON.stringify({
+    version: '1.0',
+    timestamp: '2024-01-15T10:10:00.000Z',
+    requestContext: { condition: 'RetriesExhausted', approximateInvokeCount: 3 },
+    requestPayload: event,
+    responsePayload: { errorType: 'Error', errorMessage: 'Throttled writing feed item' },
+  }),
+});
+const deliveryFailure = (event: object) => ({
+  Body: JSON.stringify(event),
+  MessageAttributes: {
+    ERROR_CODE: { StringValue: 'RESOURCE_NOT_FOUND' },
+    ERROR_MESSAGE: { StringValue: 'Function not found' },
+    RETRY_ATTEMPTS: { StringValue: '0' },
+  },
+  Attributes: { SentTimestamp: String(Date.parse('2024-01-15T10:06:00.000Z')) },
+});
+
+interface DeadLetterRequest {
+  handler: 'list' | 'redrive';
+  consumer?: string;
+  query?: Record<string, string>;
+  body?: object;
+}
+
+interface DeadLetterBody {
+  queues?: object[];
+  events?: object[];
+  consumer?: string;
+  redriven?: number;
+  failed?: number;
+}
+
+const HANDLERS = {
+  list: 'admin-esm/list-dead-letters.mjs',
+  redrive: 'admin-esm/redrive-dead-letters.mjs',
+};
+
+afterEach(() => LambdaHarness.stopAll());
+
+/**
+ * Run the admin dead letter handlers against in-memory queues. `rejected`
+ * lists events (by id) Lambda refuses to accept when redriven.
+ */
+const runDeadLetters = async (
+  requests: DeadLetterRequest[],
+  { queued = [] as object[], rejected = [] as string[], caller = admin as Caller } = {},
+) => {
+  const lambda = await LambdaHarness.start({
+    deadLetters: { messages: queued, rejectEventIds: rejected },
+    env: {
+      DEAD_LETTER_QUEUES: JSON.stringify({
+        'feed-processor': { queueUrl: 'https://sqs/feed', functionArn: 'arn:aws:lambda:us-east-1:111122223333:function:feed' },
+        'notification-processor': { queueUrl: 'https://sqs/notifications', functionArn: 'arn:aws:lambda:us-east-1:111122223333:function:notify' },
+      }),
+    },
+  });
+
+  const responses: ApiResponse<DeadLetterBody>[] = [];
+  for (const { handler, consumer, query, body } of requests) {
+    responses.push(await lambda.request(HANDLERS[handler], {
+      httpMethod: handler === 'list' ? 'GET' : 'POST',
+      requestContext: { authorizer: caller },
+      pathParameters: consumer ? { consumer } : null,
+      queryStringParameters: query ?? null,
+      body: body ? JSON.stringify(body) : null,
+    }));
+  }
+  return { responses, ...await lambda.deadLetters() };
+};
+
+describe('dead letter admin endpoints', () => {
+  it('lists queue counts and unwraps both kinds of failed event', async () => {
+    const { responses, remaining } = await runDeadLetters([
+      { handler: 'list' },
+      { handler: 'list', consumer: 'feed-processor' },
+    ], { queued: [lambdaFailure(followed), deliveryFailure(liked)] });
+
+    expect(responses[0].body.queues).toEqual([
+      { consumer: 'feed-processor', approximateCount: 2, inFlight: 0 },
+      { consumer: 'notification-processor', approximateCount: 2, inFlight: 0 },
+    ]);
+    expect(responses[1].body.events).toEqual([
+      {
+        messageId: 'message-0',
+        consumer: 'feed-processor',
+        event: followed,
+        error: { code: 'Error', message: 'Throttled writing feed item' },
+        attempts: 3,
+        failedAt: '2024-01-15T10:10:00.000Z',
+      },
+      {
+        messageId: 'message-1',
+        consumer: 'feed-processor',
+        event: liked,
+        error: { code: 'RESOURCE_NOT_FOUND', message: 'Function not found' },
+        attempts: 1,
+        failedAt: '2024-01-15T10:06:00.000Z',
+      },
+    ]);
+    // Peeking leaves the events queued
+    expect(remaining).toEqual(['message-0', 'message-1']);
+  });
+
+  it('redrives failed events to their consumer and keeps the ones Lambda rejects', async () => {
+    const { responses, invoked, remaining } = await runDeadLetters([
+      { handler: 'redrive', consumer: 'feed-processor', body: { maxEvents: 10 } },
+    ], { queued: [lambdaFailure(followed), deliveryFailure(liked)], rejected: ['event-2'] });
+
+    expect(responses[0].statusCode).toBe(200);
+    expect(responses[0].body).toEqual({ consumer: 'feed-processor', redriven: 1, failed: 1 });
+    expect(invoked).toEqual([{
+      functionName: 'arn:aws:lambda:us-east-1:111122223333:function:feed',
+      invocationType: 'Event',
+      eventId: 'event-1',
+    }]);
+    expect(remaining).toEqual(['message-1']);
+  });
+
+  it('rejects unknown consumers, bad limits and callers who are not admins', async () => {
+    const { responses } = await runDeadLetters([
+      { handler: 'list', consumer: 'nobody' },
+      { handler: 'redrive', consumer: 'nobody' },
+      { handler: 'list', consumer: 'feed-processor', query: { limit: '500' } },
+      { handler: 'redrive', consumer: 'feed-processor', body: { maxEvents: 0 } },
+    ]);
+    const forbidden = await runDeadLetters([{ handler: 'redrive', consumer: 'feed-processor' }], {
+      caller: { userId: 'alice', username: 'alice', role: 'user' },
+    });
+
+    expect(responses.map(response => response.statusCode)).toEqual([404, 404, 400, 400]);
+    expect(forbidden.responses[0].statusCode).toBe(403);
+  });
+});
+
+describe('replay-events script', () => {
+  it('replays the archive into the chosen rule only', async () => {
+    const result = await runEsm<{ sent: { type: string; input: Record<string, unknown> }[]; replayName: string; state: string }>(`
+      const { startReplay, waitForReplay } = await import('${resolve(__dirname, '../../../scripts/replay-events.mjs')}');
+      const sent = [];
+      const states = ['STARTING', 'RUNNING', 'COMPLETED'];
+      const client = {
+        send: async (command) => {
+          sent.push({ type: command.constructor.name, input: command.input });
+          switch (command.constructor.name) {
+            case 'DescribeRuleCommand': return { Arn: 'arn:aws:events:us-east-1:111122223333:rule/social-media-events/follow-feed-rule' };
+            case 'DescribeArchiveCommand': return {
+              ArchiveArn: 'arn:aws:events:us-east-1:111122223333:archive/social-media-events-archive',
+              EventSourceArn: 'arn:aws:events:us-east-1:111122223333:event-bus/social-media-events',
+            };
+            case 'DescribeReplayCommand': return { State: states.shift() };
+            default: return {};
+          }
+        },
+      };
+      const { replayName } = await startReplay({ rule: 'follow-feed-rule', from: '2024-01-15T00:00:00Z', to: '2024-01-16T00:00:00Z' }, client);
+      const replay = await waitForReplay(replayName, client, { pollIntervalMs: 1 });
+      console.log(JSON.stringify({ sent, replayName, state: replay.State }));
+    `);
+
+    const start = result.sent.find(command => command.type === 'StartReplayCommand')!.input;
+    expect(result.sent[0].input).toEqual({ Name: 'follow-feed-rule', EventBusName: 'social-media-events' });
+    expect(start).toMatchObject({
+      ReplayName: result.replayName,
+      EventSourceArn: 'arn:aws:events:us-east-1:111122223333:archive/social-media-events-archive',
+      EventStartTime: '2024-01-15T00:00:00.000Z',
+      EventEndTime: '2024-01-16T00:00:00.000Z',
+      Destination: {
+        Arn: 'arn:aws:events:us-east-1:111122223333:event-bus/social-media-events',
+        FilterArns: ['arn:aws:events:us-east-1:111122223333:rule/social-media-events/follow-feed-rule'],
+      },
+    });
+    expect(result.replayName).toMatch(/^follow-feed-rule-\d+$/);
+    expect(result.state).toBe('COMPLETED');
+  });
+});
@@ -0,0 +1,116 @@
+import { App } from 'aws-cdk-lib';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RefactoredProfileServiceStack } from '../../../lib/refactored-stack';
+import { ApiResponse, LambdaHarness } from '../../environment/lambda-harness';
+
+// The data services are called back through the server at API_BASE_URL,
+// which the shared layer reads before the server starts, so the port is fixed
+const PORT = 3591;
+const API_URL = `http://127.0.0.1:${PORT}`;
+
+let assemblyDir: string;
+let dataDir: string;
+
+beforeAll(() => {
+  assemblyDir = mkdtempSync(join(tmpdir(), 'dev-server-assembly-'));
+  dataDir = mkdtempSync(join(tmpdir(), 'dev-server-data-'));
+  const app = new App({ outdir: assemblyDir, context: { 'aws:cdk:disable-asset-staging': true } });
+  new RefactoredProfileServiceStack(app, 'ProfileServiceStack', {
+    env: { account: '123456789012', region: 'us-east-1' },
+  });
+  app.synth();
+}, 120000);
+
+afterAll(() => {
+  rmSync(assemblyDir, { recursive: true, force: true });
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+interface Registered {
+  userId: string;
+  token: string;
+}
+
+// Bodies differ by route; the tests pick the fields they check
+interface Body {
+  [field: string]: unknown;
+}
+
+let lambda: LambdaHarness;
+let server: { url: string; s3Url: string };
+
+/**
+ * The dev server serving the synthesized stack, with the table in memory and
+ * its stream read from the memory table's records
+ */
+beforeEach(async () => {
+  lambda = await LambdaHarness.start({ table: 'memory', env: { API_BASE_URL: API_URL } });
+  server = await lambda.startDevServer({ assemblyDir, dataDir, port: PORT, s3Port: 0, streamPollIntervalMs: 50 });
+});
+afterEach(() => LambdaHarness.stopAll());
+
+const call = async <T = Body>(method: string, path: string, token?: string | null, body?: object): Promise<ApiResponse<T>> => {
+  const response = await fetch(server.url + path, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { statusCode: response.status, headers: Object.fromEntries(response.headers), body: text ? JSON.parse(text) : null };
+};
+const register = async (username: string): Promise<Registered> => {
+  const { body } = await call<{ profile: { userId: string }; token: string }>('POST', '/auth/register', null, {
+    username, email: `${username}@example.com`, displayName: username.toUpperCase(), password: 'correct-horse',
+  });
+  return { userId: body.profile.userId, token: body.token };
+};
+
+describe('dev server', () => {
+  it('serves the stack\'s routes through their authorizers, stream and event rules', async () => {
+    const alice = await register('alice');
+    const bob = await register('bob');
+
+    const follow = await call('POST', `/profiles/${alice.userId}/follow`, bob.token);
+    await lambda.settle();
+    const post = await call<{ postId: string }>('POST', '/posts', alice.token, { content: 'Hello from localhost' });
+    await lambda.settle();
+    const feed = await call<{ feedItems: { postId: string }[] }>('GET', `/profiles/${bob.userId}/feed`, bob.token);
+    const preflight = await call('OPTIONS', '/posts');
+
+    expect(follow.statusCode).toBe(200);
+    expect(post).toMatchObject({ statusCode: 201, body: { username: 'alice', content: 'Hello from localhost' } });
+    expect(feed.body.feedItems.map(item => item.postId)).toEqual([post.body.postId]);
+    expect(await lambda.item({ PK: `USER#${alice.userId}`, SK: 'PROFILE' })).toMatchObject({ followersCount: 1 });
+    expect((await call('POST', '/auth/login', null, { username: 'alice', password: 'correct-horse' })).statusCode).toBe(200);
+    expect(await call('POST', '/posts', null, { content: 'Hello' })).toMatchObject({ statusCode: 401, body: { message: 'Unauthorized' } });
+    expect((await call('POST', '/posts', 'not-a-token', { content: 'Hello' })).statusCode).toBe(401);
+    expect(await call('GET', '/nowhere')).toMatchObject({ statusCode: 403, body: { message: 'Missing Authentication Token' } });
+    expect((await call('PATCH', '/posts')).statusCode).toBe(403);
+    expect(preflight.statusCode).toBe(204);
+    expect(preflight.headers['access-control-allow-origin']).toBe('*');
+    expect((await call('GET', `/data/posts/${post.body.postId}`, alice.token)).body.content).toBe('Hello from localhost');
+  });
+
+  it('uploads images to the S3 stand-in through presigned URLs', async () => {
+    const alice = await register('alice');
+
+    const { body: upload } = await call<{ uploadUrl: string; imageUrl: string; key: string }>(
+      'POST', '/upload-url', alice.token, { fileName: 'cat.png', fileType: 'image/png' });
+    const put = await fetch(upload.uploadUrl, { method: 'PUT', headers: { 'Content-Type': 'image/png' }, body: 'not really a png' });
+    const image = await fetch(upload.imageUrl);
+
+    const listed = await lambda.s3<{ Contents: { Key: string; Size: number }[] }>(
+      'ListObjectsV2Command', { Bucket: 'local-images', Prefix: `users/${alice.userId}/` });
+    await lambda.s3('DeleteObjectsCommand', { Bucket: 'local-images', Delete: { Objects: listed.Contents.map(({ Key }) => ({ Key })) } });
+
+    expect(upload.uploadUrl.startsWith(`${server.s3Url}/local-images/${upload.key}?`)).toBe(true);
+    expect(upload.imageUrl).toBe(`${server.s3Url}/local-images/${upload.key}`);
+    expect(put.status).toBe(200);
+    expect({ status: image.status, type: image.headers.get('content-type'), body: await image.text() })
+      .toEqual({ status: 200, type: 'image/png', body: 'not really a png' });
+    expect(listed.Contents.map(({ Key, Size }) => ({ Key, Size }))).toEqual([{ Key: upload.key, Size: 16 }]);
+    expect((await fetch(upload.imageUrl)).status).toBe(404);
+  });
+});
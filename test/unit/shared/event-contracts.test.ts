@@ -0,0 +1,154 @@
+import { LambdaHarness, delivered } from '../../environment/lambda-harness';
+import { replayStreamRecords } from '../../environment/stream-harness';
+import { EVENT_RULES } from '../../../lib/constants/event-rules';
+
+interface ContractError extends Error {
+  errors: string[];
+}
+
+interface RejectedError extends Error {
+  entries: { EventId?: string; ErrorCode?: string }[];
+}
+
+let lambda: LambdaHarness;
+afterEach(() => LambdaHarness.stopAll());
+
+const catalogSources = async () => {
+  const catalog = await lambda.value<Record<string, { source: string }>>('shared/event-catalog.mjs', 'EVENT_CATALOG');
+  return Object.fromEntries(Object.entries(catalog).map(([detailType, { source }]) => [detailType, source]));
+};
+
+describe('event contracts', () => {
+  it('routes only catalogued events, from the source the catalog gives them', async () => {
+    lambda = await LambdaHarness.start();
+    const sources = await catalogSources();
+
+    for (const rule of EVENT_RULES) {
+      for (const detailType of rule.detailTypes) {
+        expect({ rule: rule.ruleName, detailType, source: sources[detailType] })
+          .toEqual({ rule: rule.ruleName, detailType, source: rule.source });
+      }
+    }
+  });
+
+  it('delivers every event the shared layer produces to consumers that accept it', async () => {
+    lambda = await LambdaHarness.start({ table: 'memory' });
+    const shared = <T>(name: string, ...args: unknown[]) => lambda.call<T>('shared/index.mjs', name, ...args);
+    const processStream = async () => (await lambda.invoke<{ batchItemFailures: object[] }>(
+      'events-esm/stream-processor.mjs', { Records: await lambda.takeStreamRecords() })).batchItemFailures;
+
+    // One of every domain change, made the way the handlers make them
+    const author = { username: 'alice', displayName: 'Alice' };
+    await shared('ProfileData.createProfile', { userId: 'alice', username: 'alice', email: 'alice@example.com', displayName: 'Alice' });
+    await shared('ProfileData.createProfile', { userId: 'bob', username: 'bob', email: 'bob@example.com', displayName: 'Bob', isPrivate: true });
+    await shared('ProfileData.createProfile', { userId: 'carol', username: 'carol', email: 'carol@example.com', displayName: 'Carol' });
+    await shared('ProfileData.createProfile', { userId: 'dave', username: 'dave', email: 'dave@example.com', displayName: 'Dave' });
+    await shared('AdminData.deleteAccount', await shared('ProfileData.getProfileById', 'dave'));
+    await shared('ProfileData.updateProfile', 'alice', { displayName: 'Alice A.' });
+    const { postId } = await shared<{ postId: string }>('PostData.createPost', { userId: 'alice', content: 'Hello @bob', userProfile: author });
+    await shared('PostData.updatePost', await shared('PostData.getPostById', postId), { content: 'Hello @bob!' }, 'alice');
+    await shared('FollowData.followUser', 'carol', 'alice');
+    await shared('FollowData.createFollowRequest', 'alice', 'bob');
+    await shared('LikeData.likePost', 'carol', postId);
+    await shared('LikeData.unlikePost', 'carol', postId);
+    await shared('CommentData.createComment', { postId, postAuthorId: 'alice', userId: 'carol', content: 'Hi @alice', userProfile: { username: 'carol', displayName: 'Carol' } });
+    await shared('FollowData.unfollowUser', 'carol', 'alice');
+    await shared('FollowData.muteUser', 'alice', 'carol');
+    await shared('FollowData.unmuteUser', 'alice', 'carol');
+    await shared('FollowData.blockUser', 'bob', 'carol');
+    await shared('FollowData.unblockUser', 'bob', 'carol');
+    // Liked events read the post, so it goes after they are published
+    const beforeDelete = await processStream();
+    await shared('PostData.deletePost', await shared('PostData.getPostById', postId));
+    const afterDelete = await processStream();
+    await shared('ProfileEvents.authorSyncContinued', 'alice', 'superseded-run', 'chain-1');
+    await shared('AdminEvents.userDeletionRequested', 'dave', 'superseded-run', 'admin');
+    await shared('AdminEvents.userDeletionContinued', 'dave', 'superseded-run', 'chain-2');
+    const events = await lambda.takePublished();
+
+    const warnedBefore = (await lambda.warnings()).length;
+    const failures: string[] = [];
+    for (const event of events) {
+      const routed = EVENT_RULES.filter(rule => rule.source === event.source && (rule.detailTypes as readonly string[]).includes(event.detailType));
+      for (const name of routed.flatMap(rule => rule.consumers)) {
+        try {
+          await lambda.invoke(`events-esm/${name}.mjs`, delivered(event));
+        } catch (error) {
+          failures.push(`${name} rejected ${event.detailType}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    expect([...beforeDelete, ...afterDelete]).toEqual([]);
+    expect(failures).toEqual([]);
+    expect((await lambda.warnings()).slice(warnedBefore)).toEqual([]);
+
+    // Every catalogued event was produced, so each was checked against its consumers
+    const produced = [...new Set(events.map(event => event.detailType))];
+    expect(produced.sort()).toEqual(Object.keys(await catalogSources()).sort());
+  });
+  it('refuses to publish an event that does not match the catalog', async () => {
+    const stored = { PK: 'POST#post-1', SK: 'METADATA', postId: 'post-1', content: 'No author' };
+    const record = {
+      eventID: 'record-1',
+      eventName: 'INSERT',
+      dynamodb: {
+        ApproximateCreationDateTime: 1705312800,
+        Keys: { PK: { S: 'POST#post-1' }, SK: { S: 'METADATA' } },
+        NewImage: { PK: { S: 'POST#post-1' }, SK: { S: 'METADATA' }, postId: { S: 'post-1' }, content: { S: stored.content } },
+        SequenceNumber: '100',
+      },
+    };
+    const streamed = await replayStreamRecords([record], { items: [stored] });
+
+    lambda = await LambdaHarness.start();
+    const error = await lambda.call('shared/index.mjs', 'publishEvent', 'Author Sync Continued', { userId: 'alice' })
+      .then(() => null, (e: ContractError) => ({ name: e.name, errors: e.errors }));
+
+    // The stream record is retried and ends in the stream's dead letter queue
+    expect(streamed).toEqual({ published: [], batchItemFailures: ['100'] });
+    expect(error).toEqual({ name: 'EventContractError', errors: ['detail.data.runId is required'] });
+    expect(await lambda.published()).toEqual([]);
+  });
+
+  it('throws when EventBridge rejects an entry instead of reporting success', async () => {
+    lambda = await LambdaHarness.start({ rejectDetailTypes: ['User Deletion Continued'] });
+    const events = [
+      await lambda.call('shared/index.mjs', 'createEvent', 'Author Sync Continued', { userId: 'alice', runId: 'run-1' }),
+      await lambda.call('shared/index.mjs', 'createEvent', 'User Deletion Continued', { userId: 'bob', runId: 'run-2' }),
+    ];
+    const single = await lambda.call('shared/index.mjs', 'AdminEvents.userDeletionContinued', 'bob', 'run-2', 'correlation-1')
+      .then(() => null, (e: RejectedError) => e);
+    const batch = await lambda.call('shared/index.mjs', 'publishEvents', events)
+      .then(() => null, (e: RejectedError) => e);
+
+    expect(single).toMatchObject({
+      name: 'EventsRejectedError',
+      message: 'EventBridge rejected 1 of 1 events: User Deletion Continued (InternalFailure: Rejected by the Lambda harness)',
+    });
+    expect(batch!.name).toBe('EventsRejectedError');
+    expect(batch!.entries.map(entry => entry.ErrorCode)).toEqual([undefined, 'InternalFailure']);
+    // The entries EventBridge accepted were still delivered
+    expect((await lambda.published()).map(event => event.detailType)).toEqual(['Author Sync Continued']);
+  });
+
+  it('rejects events from unknown versions, sources and pre-envelope producers on consume', async () => {
+    lambda = await LambdaHarness.start();
+    const postDeleted = await lambda.busEvent('Post Deleted', { postId: 'post-1', userId: 'alice' });
+    const events = [
+      { ...postDeleted, detail: { ...postDeleted.detail, schemaVersion: 2 } },
+      { ...postDeleted, source: 'social-media.admin' },
+      { ...postDeleted, detail: { postId: 'post-1', userId: 'alice', timestamp: '2024-01-15T10:00:00.000Z' } },
+    ];
+    const errors: string[][] = [];
+    for (const event of events) {
+      await lambda.invoke('events-esm/search-indexer.mjs', event).catch((error: ContractError) => errors.push(error.errors));
+    }
+
+    expect(errors).toEqual([
+      ['Post Deleted has no schema version 2'],
+      ['Post Deleted must come from social-media.posts, not social-media.admin'],
+      expect.arrayContaining(['detail.eventId is required', 'detail.data is required']),
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { ApiResponse, Caller, LambdaHarness } from '../../environment/lambda-harness';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Events spread over the last three days, as the bus would deliver them
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * HOUR_MS).toISOString().replace(/\.\d+Z$/, 'Z');
+const busEvents = [
+  { id: 'event-1', source: 'social-media.posts', 'detail-type': 'Post Created', time: hoursAgo(50), detail: { postId: 'post-1', userId: 'alice' } },
+  { id: 'event-2', source: 'social-media.follows', 'detail-type': 'User Followed', time: hoursAgo(30), detail: { followerId: 'bob', followedUserId: 'alice' } },
+  { id: 'event-3', source: 'social-media.likes', 'detail-type': 'Post Liked', time: hoursAgo(20), detail: { userId: 'carol', postId: 'post-1', postAuthorId: 'alice' } },
+  { id: 'event-4', source: 'social-media.posts', 'detail-type': 'Post Created', time: hoursAgo(2), detail: { postId: 'post-2', userId: 'bob' } },
+  { id: 'event-5', source: 'social-media.blocks', 'detail-type': 'User Muted', time: hoursAgo(1), detail: { muterId: 'carol', mutedUserId: 'bob' } },
+].map(event => ({ ...event, region: 'us-east-1', account: '111122223333' }));
+
+const admin = { userId: 'admin-1', username: 'admin', role: 'admin' };
+
+interface EventsPage {
+  events: { eventId: string }[];
+  nextCursor: string | null;
+  error?: string;
+}
+
+let lambda: LambdaHarness;
+afterEach(() => LambdaHarness.stopAll());
+
+const archive = (event: object) => lambda.invoke('events-esm/event-archiver.mjs', event);
+
+/**
+ * Archive the events, then call GET /admin/events once per query in order.
+ * A query of { next: true } follows the previous response's cursor.
+ */
+const runEvents = async (queries: Record<string, string | boolean>[], caller: Caller = admin) => {
+  lambda = await LambdaHarness.start({
+    table: 'memory',
+    env: { CURSOR_SECRET: 'test-cursor-secret', EVENT_RETENTION_DAYS: '30' },
+  });
+  for (const event of busEvents) {
+    await archive(event);
+  }
+
+  const responses: ApiResponse<EventsPage>[] = [];
+  let cursor: string | null = null;
+  for (const { next, ...query } of queries) {
+    const response: ApiResponse<EventsPage> = await lambda.request('admin-esm/get-events.mjs', {
+      httpMethod: 'GET',
+      requestContext: { authorizer: caller },
+      queryStringParameters: next ? { ...query, cursor } : query,
+    });
+    cursor = response.body.nextCursor;
+    responses.push(response);
+  }
+  return { responses, partitions: await lambda.partitions() };
+};
+
+const eventIds = (response: { body: EventsPage }) => response.body.events.map(event => event.eventId);
+
+describe('event archive', () => {
+  it('stores events by day with an expiry and the users they concern', async () => {
+    lambda = await LambdaHarness.start({ table: 'memory', env: { EVENT_RETENTION_DAYS: '30' } });
+    await archive(busEvents[2]);
+    await archive(busEvents[2]); // Redelivered
+    const [pk] = await lambda.partitions();
+    const items = await lambda.items(pk);
+
+    const [item] = items;
+    expect(items).toHaveLength(1);
+    expect(pk).toBe(`EVENT#${busEvents[2].time.slice(0, 10)}`);
+    expect(item).toMatchObject({
+      eventId: 'event-3',
+      source: 'social-media.likes',
+      detailType: 'Post Liked',
+      detail: busEvents[2].detail,
+      account: '111122223333',
+      userIds: ['carol', 'alice'],
+    });
+    expect(item.expiresAt).toBe(Date.parse(busEvents[2].time) / 1000 + 30 * 24 * 60 * 60);
+  });
+
+  it('pages through every day newest first without repeating an event', async () => {
+    const { responses, partitions } = await runEvents([{ limit: '2' }, { limit: '2', next: true }, { limit: '2', next: true }]);
+
+    expect(partitions.length).toBeGreaterThanOrEqual(3);
+    expect(responses.map(eventIds)).toEqual([['event-5', 'event-4'], ['event-3', 'event-2'], ['event-1']]);
+    expect(responses[0].body.nextCursor).toEqual(expect.any(String));
+    expect(responses[2].body.nextCursor).toBeNull();
+    expect(responses[0].body.events[0]).toEqual({
+      eventId: 'event-5',
+      source: 'social-media.blocks',
+      detailType: 'User Muted',
+      detail: busEvents[4].detail,
+      timestamp: new Date(busEvents[4].time).toISOString(),
+      region: 'us-east-1',
+      account: '111122223333',
+    });
+  });
+
+  it('filters by source, detail type, user and time range', async () => {
+    const { responses } = await runEvents([
+      { source: 'social-media.posts' },
+      { detailType: 'User Followed' },
+      { userId: 'alice' },
+      { userId: 'bob', limit: '1' },
+      { userId: 'bob', limit: '1', next: true },
+      { from: hoursAgo(40), to: hoursAgo(10) },
+    ]);
+
+    expect(responses.map(eventIds)).toEqual([
+      ['event-4', 'event-1'],
+      ['event-2'],
+      ['event-3', 'event-2', 'event-1'],
+      ['event-5'],
+      ['event-4'],
+      ['event-3', 'event-2'],
+    ]);
+  });
+
+  it('rejects callers who are not admins, bad time ranges and cursors from other filters', async () => {
+    const forbidden = await runEvents([{}], { userId: 'alice', username: 'alice', role: 'user' });
+    const { responses } = await runEvents([
+      { from: 'yesterday' },
+      { from: hoursAgo(1), to: hoursAgo(2) },
+      { source: 'social-media.posts', limit: '1' },
+      { source: 'social-media.likes', next: true },
+    ]);
+
+    expect(forbidden.responses[0].statusCode).toBe(403);
+    expect(responses.map(response => response.statusCode)).toEqual([400, 400, 200, 400]);
+    expect(responses[3].body.error).toMatch(/cursor/i);
+  });
+});
@@ -0,0 +1,446 @@
+import { LambdaHarness, RecordedResponse, TableItem } from '../../environment/lambda-harness';
+
+interface FanOut {
+  mode: 'push' | 'pull';
+  followers: number;
+  written: number;
+  failedFollowerIds: string[];
+}
+
+interface FeedPage {
+  items: { postId: string; PK: string }[];
+  lastEvaluatedKey?: object;
+}
+
+let lambda: LambdaHarness;
+afterEach(() => LambdaHarness.stopAll());
+
+const fanOut = async (responses: RecordedResponse[]) => {
+  lambda = await LambdaHarness.start({ responses });
+  const result = await lambda.call<FanOut>('shared/feed-data.mjs', 'FeedData.createFeedItemsForPost', post);
+  return { result, sent: await lambda.sent() };
+};
+
+// Deliver an event to the feed processor, resolving to the error it failed with
+const processEvent = async (detailType: string, data: object) =>
+  lambda.invoke('events-esm/feed-processor.mjs', await lambda.busEvent(detailType, data))
+    .then(() => null, (error: Error) => error.message);
+
+const post = {
+  postId: 'post-1',
+  userId: 'alice-id',
+  username: 'alice',
+  displayName: 'Alice',
+  avatar: '',
+  content: 'Hello followers',
+  imageUrl: '',
+  likesCount: 0,
+  commentsCount: 0,
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+const createdMs = Date.parse(post.createdAt);
+
+const followerPage = (ids: string[], lastEvaluatedKey?: object) => ({
+  Items: ids.map(followerId => ({ followerId })),
+  ...(lastEvaluatedKey && { LastEvaluatedKey: lastEvaluatedKey }),
+});
+
+const author = (followersCount: number, extra: object = {}) =>
+  ({ Item: { PK: 'USER#alice-id', SK: 'PROFILE', userId: 'alice-id', followersCount, ...extra } });
+
+const followerIds = (count: number, from = 0) =>
+  Array.from({ length: count }, (_, i) => `follower-${from + i}`);
+
+describe('FeedData.createFeedItemsForPost', () => {
+  it('reads every follower page and writes copies keyed by the post creation time', async () => {
+    const { result, sent } = await fanOut([
+      author(31),
+      followerPage(followerIds(30), { PK: 'USER#alice-id', SK: 'FOLLOWER#follower-29' }),
+      {},
+      {},
+      followerPage(['follower-30']),
+      {},
+    ]);
+
+    expect(result).toEqual({ mode: 'push', followers: 31, written: 31, failedFollowerIds: [] });
+    expect(sent.map(c => c.type)).toEqual([
+      'GetCommand', 'QueryCommand', 'BatchWriteCommand', 'BatchWriteCommand', 'QueryCommand', 'BatchWriteCommand',
+    ]);
+    expect(sent[4].input.ExclusiveStartKey).toEqual({ PK: 'USER#alice-id', SK: 'FOLLOWER#follower-29' });
+
+    const [first] = sent[2].input.RequestItems['test-table'];
+    expect(sent[2].input.RequestItems['test-table']).toHaveLength(25);
+    expect(first.PutRequest.Item).toMatchObject({
+      PK: 'FEED#follower-0',
+      SK: `POST#${createdMs}#post-1`,
+      userId: 'alice-id',
+      username: 'alice',
+      content: 'Hello followers',
+    });
+  });
+
+  it('retries unprocessed copies and reports the followers still missing one', async () => {
+    const unprocessed = (id: string) => ({
+      UnprocessedItems: { 'test-table': [{ PutRequest: { Item: { PK: `FEED#${id}`, SK: 'POST#1#post-1' } } }] },
+    });
+
+    const { result, sent } = await fanOut([
+      author(2),
+      followerPage(['bob-id', 'carol-id']),
+      unprocessed('carol-id'),
+      ...Array.from({ length: 4 }, () => unprocessed('carol-id')),
+    ]);
+
+    expect(sent.filter(c => c.type === 'BatchWriteCommand')).toHaveLength(5);
+    expect(result).toEqual({ mode: 'push', followers: 2, written: 1, failedFollowerIds: ['carol-id'] });
+  });
+
+  it('writes nothing for an author without followers', async () => {
+    const { result, sent } = await fanOut([author(0), followerPage([])]);
+
+    expect(result).toEqual({ mode: 'push', followers: 0, written: 0, failedFollowerIds: [] });
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'QueryCommand']);
+  });
+
+  it('switches an author at the follower threshold to fan-out on read and tells their followers', async () => {
+    const { result, sent } = await fanOut([
+      author(10000), { Attributes: { pullSince: createdMs } }, followerPage(['bob-id']), {}, {},
+    ]);
+
+    expect(result).toEqual({ mode: 'pull', followers: 10000, written: 0, failedFollowerIds: [] });
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'UpdateCommand', 'QueryCommand', 'BatchWriteCommand', 'UpdateCommand']);
+    expect(sent[1].input.ExpressionAttributeValues).toEqual({ ':pull': 'pull', ':since': createdMs });
+    expect(sent[3].input.RequestItems['test-table']).toEqual([{
+      PutRequest: { Item: { PK: 'USER#bob-id', SK: 'PULLS#alice-id', authorId: 'alice-id', pullSince: createdMs } },
+    }]);
+    expect(sent[4].input.UpdateExpression).toBe('SET pullRegistered = :true');
+  });
+
+  it('finishes telling followers about a switch an earlier run left incomplete', async () => {
+    const unprocessed = {
+      UnprocessedItems: { 'test-table': [{ PutRequest: { Item: { PK: 'USER#carol-id', SK: 'PULLS#alice-id' } } }] },
+    };
+    const { result, sent } = await fanOut([
+      author(10000, { feedMode: 'pull', pullSince: 1 }),
+      followerPage(['bob-id', 'carol-id']),
+      ...Array.from({ length: 5 }, () => unprocessed),
+    ]);
+
+    expect(sent[2].input.RequestItems['test-table'][0].PutRequest.Item.pullSince).toBe(1);
+    expect(sent.filter(c => c.type === 'UpdateCommand')).toEqual([]);
+    expect(result).toEqual({ mode: 'pull', followers: 10000, written: 0, failedFollowerIds: ['carol-id'] });
+  });
+
+  it('keeps pulling for an author who has dropped back below the threshold', async () => {
+    const { result, sent } = await fanOut([author(3, { feedMode: 'pull', pullSince: 1, pullRegistered: true })]);
+
+    expect(result.mode).toBe('pull');
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe('feed processor', () => {
+  const process = async (responses: RecordedResponse[]) => {
+    lambda = await LambdaHarness.start({ responses });
+    const error = await processEvent('Post Created', { postId: 'post-1', userId: 'alice-id', content: 'Hello' });
+    return { error, sent: await lambda.sent() };
+  };
+
+  it('fans out the stored post', async () => {
+    const { error, sent } = await process([{ Item: post }, author(1), followerPage(['bob-id']), {}]);
+
+    expect(error).toBeNull();
+    expect(sent[0].input.Key).toEqual({ PK: 'POST#post-1', SK: 'METADATA' });
+    expect(sent[3].input.RequestItems['test-table'][0].PutRequest.Item.PK).toBe('FEED#bob-id');
+  });
+
+  it('skips posts deleted before the event was processed', async () => {
+    const { error, sent } = await process([{}]);
+
+    expect(error).toBeNull();
+    expect(sent).toHaveLength(1);
+  });
+
+  it('fails the event so it is retried when feed items are left unwritten', async () => {
+    const unprocessed = {
+      UnprocessedItems: { 'test-table': [{ PutRequest: { Item: { PK: 'FEED#bob-id', SK: 'POST#1#post-1' } } }] },
+    };
+    const { error } = await process([
+      { Item: post }, author(1), followerPage(['bob-id']), ...Array.from({ length: 5 }, () => unprocessed),
+    ]);
+
+    expect(error).toBe('Fan-out for post post-1 incomplete: 1 feed items unwritten');
+  });
+});
+
+describe('feed post changes', () => {
+  const followers = ['bob-id', 'carol-id', 'dave-id'];
+  const copyKey = (followerId: string) => ({ PK: `FEED#${followerId}`, SK: `POST#${createdMs}#post-1` });
+  const copies = async () => Promise.all(followers.map(followerId => lambda.item(copyKey(followerId))));
+  const queries = async () => (await lambda.counts()).QueryCommand || 0;
+
+  beforeEach(async () => {
+    lambda = await LambdaHarness.start({ table: 'memory' });
+    await lambda.seed([
+      { PK: 'POST#post-1', SK: 'METADATA', ...post },
+      author(followers.length).Item,
+      ...followers.map(followerId => ({ PK: 'USER#alice-id', SK: `FOLLOWER#${followerId}`, followerId, followedUserId: 'alice-id' })),
+    ]);
+    await processEvent('Post Created', { postId: 'post-1', userId: 'alice-id', content: post.content });
+  });
+
+  it('edits each follower\'s copy by key without recreating removed ones', async () => {
+    await lambda.deleteItem(copyKey('dave-id'));
+    await lambda.seed([{ PK: 'POST#post-1', SK: 'METADATA', ...post, content: 'Edited', editedAt: '2024-01-02T00:00:00.000Z' }]);
+    const before = await queries();
+
+    const error = await processEvent('Post Updated', { postId: 'post-1', userId: 'alice-id', content: 'Edited' });
+
+    expect(error).toBeNull();
+    expect(await copies()).toEqual([
+      expect.objectContaining({ content: 'Edited', editedAt: '2024-01-02T00:00:00.000Z' }),
+      expect.objectContaining({ content: 'Edited', editedAt: '2024-01-02T00:00:00.000Z' }),
+      undefined,
+    ]);
+    // One page of followers; no feed partition is searched
+    expect((await queries()) - before).toBe(1);
+  });
+
+  it('removes each follower\'s copy of a deleted post by key', async () => {
+    await lambda.deleteItem({ PK: 'POST#post-1', SK: 'METADATA' });
+    const before = await queries();
+
+    const error = await processEvent('Post Deleted', { postId: 'post-1', userId: 'alice-id', createdAt: post.createdAt });
+
+    expect(error).toBeNull();
+    expect(await copies()).toEqual([undefined, undefined, undefined]);
+    expect((await queries()) - before).toBe(1);
+  });
+
+  it('leaves copies alone when an edit arrives after the post was deleted', async () => {
+    await lambda.deleteItem({ PK: 'POST#post-1', SK: 'METADATA' });
+
+    const error = await processEvent('Post Updated', { postId: 'post-1', userId: 'alice-id', content: 'Edited' });
+
+    expect(error).toBeNull();
+    expect((await copies()).map(copy => copy?.content)).toEqual(followers.map(() => post.content));
+  });
+});
+
+describe('hybrid feeds', () => {
+  // Profiles, follow edges and posts shaped like the ones the shared layer writes
+  const BASE_MS = Date.parse('2024-01-01T00:00:00.000Z');
+  const profile = (userId: string, followersCount = 0): TableItem => ({
+    PK: `USER#${userId}`, SK: 'PROFILE', userId, username: userId, displayName: userId, followersCount,
+  });
+  const follow = (followerId: string, followedUserId: string): TableItem[] => [
+    { PK: `USER#${followerId}`, SK: `FOLLOWS#${followedUserId}`, followerId, followedUserId },
+    { PK: `USER#${followedUserId}`, SK: `FOLLOWER#${followerId}`, followerId, followedUserId },
+  ];
+  const postItems = (userId: string, n: number): TableItem[] => {
+    const postId = `${userId}-post-${n}`;
+    const createdMs = BASE_MS + n * 1000;
+    const createdAt = new Date(createdMs).toISOString();
+    return [
+      { PK: `POST#${postId}`, SK: 'METADATA', postId, userId, username: userId, displayName: userId,
+        content: `post ${n}`, imageUrl: '', likesCount: 0, commentsCount: 0, createdAt },
+      { PK: `USER#${userId}`, SK: `POST#${createdMs}#${postId}`, postId, content: `post ${n}`, imageUrl: '', createdAt },
+    ];
+  };
+  const addPost = async (userId: string, n: number) => {
+    await lambda.seed(postItems(userId, n));
+    return `${userId}-post-${n}`;
+  };
+  const processPost = (postId: string, userId: string, content: string) =>
+    processEvent('Post Created', { postId, userId, content });
+  const getUserFeed = (userId: string, options: { limit: number; startKey?: object }) =>
+    lambda.call<FeedPage>('shared/feed-data.mjs', 'FeedData.getUserFeed', userId, options);
+  const commandCount = async (type: string) => (await lambda.counts())[type] || 0;
+  const readWholeFeed = async (userId: string, limit: number) => {
+    const pages: { postIds: string[]; queries: number }[] = [];
+    let startKey: object | undefined;
+    do {
+      const before = await commandCount('QueryCommand');
+      const page = await getUserFeed(userId, { limit, startKey });
+      pages.push({
+        postIds: page.items.map(item => item.postId),
+        queries: (await commandCount('QueryCommand')) - before,
+      });
+      startKey = page.lastEvaluatedKey;
+    } while (startKey);
+    return pages;
+  };
+
+  beforeEach(async () => {
+    lambda = await LambdaHarness.start({ table: 'memory' });
+  });
+
+  it('shows a post that was both fanned out and pulled once', async () => {
+    await lambda.seed([profile('viewer'), profile('star', 3), ...follow('viewer', 'star')]);
+    const first = await addPost('star', 1);
+    await processPost(first, 'star', 'Post 1');
+
+    // Switched to pull with the already fanned-out post as the starting point
+    await lambda.seed([
+      { ...profile('star', 3), feedMode: 'pull', pullSince: BASE_MS + 1000, pullRegistered: true },
+      { PK: 'USER#viewer', SK: 'PULLS#star', authorId: 'star', pullSince: BASE_MS + 1000 },
+    ]);
+    await addPost('star', 2);
+
+    const page = await getUserFeed('viewer', { limit: 10 });
+
+    expect(page.items.map(item => item.postId)).toEqual(['star-post-2', 'star-post-1']);
+    expect(page.items.map(item => item.PK)).toEqual(['USER#star', 'FEED#viewer']);
+  });
+
+  it('benchmark: pulls for high-follower authors and pages the merged feed in order', async () => {
+    const REGULAR_AUTHORS = 100;
+    const REGULAR_FOLLOWERS = 20;
+    const STAR_FOLLOWERS = 20000;
+
+    const items = [profile('viewer')];
+    for (let a = 0; a < REGULAR_AUTHORS; a++) {
+      items.push(profile(`author-${a}`, REGULAR_FOLLOWERS), ...follow('viewer', `author-${a}`));
+      for (let f = 1; f < REGULAR_FOLLOWERS; f++) items.push(...follow(`reader-${f}`, `author-${a}`));
+    }
+    // Two authors past the threshold from the start, and one who crosses it midway
+    for (const star of ['star-a', 'star-b']) {
+      items.push(profile(star, STAR_FOLLOWERS), ...follow('viewer', star));
+      for (let f = 1; f < STAR_FOLLOWERS; f++) items.push(...follow(`fan-${f}`, star));
+    }
+    items.push(profile('rising', 9990), ...follow('viewer', 'rising'));
+    for (let f = 1; f < 9990; f++) items.push(...follow(`fan-${f}`, 'rising'));
+    await lambda.seed(items);
+
+    // Publish in time order: three posts per regular author and five per star,
+    // measuring the writes each fan-out takes
+    const authors = Array.from({ length: 5 }, (_, round) => [
+      ...Array.from({ length: 60 }, (_, i) => `author-${(round * 60 + i) % REGULAR_AUTHORS}`),
+      'star-a', 'star-b', 'rising',
+    ]).flat().map((userId, n) => ({ userId, n }));
+    const writes = { push: 0, pull: 0, risingPush: 0, risingPull: 0 };
+    let risingPosts = 0;
+    for (const { userId, n } of authors) {
+      if (userId === 'rising' && risingPosts++ === 2) {
+        const rising = await lambda.item({ PK: 'USER#rising', SK: 'PROFILE' });
+        await lambda.seed([{ ...rising!, followersCount: 10010 }]);
+      }
+      const postId = await addPost(userId, n);
+      const before = await commandCount('BatchWriteCommand');
+      await processPost(postId, userId, `Post ${n}`);
+      const sent = (await commandCount('BatchWriteCommand')) - before;
+      if (userId === 'rising') writes[risingPosts <= 2 ? 'risingPush' : 'risingPull'] += sent;
+      else writes[userId.startsWith('star') ? 'pull' : 'push'] += sent;
+    }
+
+    // Regular authors: one 25-item batch per 20 followers per post; stars:
+    // their followers told once, when they switch, and nothing per post
+    expect(writes.push).toBe(300);
+    expect(writes.pull).toBe(2 * Math.ceil(STAR_FOLLOWERS / 25));
+    expect(writes.risingPush).toBe(2 * Math.ceil(9990 / 25));
+    expect(writes.risingPull).toBe(Math.ceil(9990 / 25));
+    expect(await lambda.item({ PK: 'USER#rising', SK: 'PROFILE' })).toMatchObject({ feedMode: 'pull' });
+
+    // Every post exactly once, newest first, read with a fixed number of queries
+    // per page: the viewer's pull-mode authors, own feed and one per pull-mode author
+    const pages = await readWholeFeed('viewer', 20);
+    const seen = pages.flatMap(page => page.postIds);
+    expect(seen).toEqual(authors.map(({ userId, n }) => `${userId}-post-${n}`).reverse());
+    expect(seen).toHaveLength(315);
+    expect([...new Set(pages.map(page => page.queries))]).toEqual([5]);
+  });
+});
+
+describe('feed follow changes', () => {
+  const BASE_MS = Date.parse('2024-01-01T00:00:00.000Z');
+  const followEvent = (detailType: string) => processEvent(detailType, { followerId: 'viewer', followedUserId: 'alice-id' });
+  const feedPostIds = async () =>
+    (await lambda.items<TableItem & { postId: string }>('FEED#viewer')).map(item => item.postId).sort();
+  const alice: TableItem = { PK: 'USER#alice-id', SK: 'PROFILE', userId: 'alice-id', followersCount: 1 };
+
+  beforeEach(async () => {
+    lambda = await LambdaHarness.start({ table: 'memory' });
+    const items = [alice];
+    for (let n = 10; n < 35; n++) {
+      const postId = `post-${n}`;
+      const createdAt = new Date(BASE_MS + n * 1000).toISOString();
+      items.push(
+        { PK: `POST#${postId}`, SK: 'METADATA', postId, userId: 'alice-id', username: 'alice', content: `post ${n}`, createdAt },
+        { PK: 'USER#alice-id', SK: `POST#${BASE_MS + n * 1000}#${postId}`, postId, createdAt },
+      );
+    }
+    await lambda.seed(items);
+  });
+
+  const following = () =>
+    lambda.seed([{ PK: 'USER#viewer', SK: 'FOLLOWS#alice-id', followerId: 'viewer', followedUserId: 'alice-id' }]);
+  const newest = (count: number) => Array.from({ length: count }, (_, i) => `post-${34 - i}`).sort();
+
+  it('backfills the newest posts once however often the event is delivered', async () => {
+    await following();
+    await followEvent('User Followed');
+    await followEvent('User Followed');
+
+    expect(await feedPostIds()).toEqual(newest(20));
+    expect((await lambda.counts()).BatchWriteCommand).toBe(2);
+  });
+
+  it('skips the backfill when the follow was undone before it ran', async () => {
+    await followEvent('User Followed');
+
+    expect(await feedPostIds()).toEqual([]);
+  });
+
+  it('only backfills posts from before a pull-mode author\'s posts are merged on read', async () => {
+    await following();
+    await lambda.seed([{ ...alice, feedMode: 'pull', pullSince: BASE_MS + 30 * 1000 }]);
+    await followEvent('User Followed');
+
+    expect(await feedPostIds()).toEqual(Array.from({ length: 20 }, (_, i) => `post-${29 - i}`).sort());
+    expect(await lambda.item({ PK: 'USER#viewer', SK: 'PULLS#alice-id' }))
+      .toEqual({ PK: 'USER#viewer', SK: 'PULLS#alice-id', authorId: 'alice-id', pullSince: BASE_MS + 30 * 1000 });
+
+    await lambda.deleteItem({ PK: 'USER#viewer', SK: 'FOLLOWS#alice-id' });
+    await followEvent('User Unfollowed');
+
+    expect(await lambda.item({ PK: 'USER#viewer', SK: 'PULLS#alice-id' })).toBeUndefined();
+  });
+
+  it('leaves the feed alone when the user followed again before cleanup ran', async () => {
+    await following();
+    await followEvent('User Followed');
+    await followEvent('User Unfollowed');
+
+    expect(await feedPostIds()).toEqual(newest(20));
+  });
+
+  it('pages through the feed removing the unfollowed author\'s posts', async () => {
+    await lambda.stop();
+    lambda = await LambdaHarness.start({
+      responses: [
+        {},
+        {},
+        { Items: [{ PK: 'FEED#viewer', SK: 'POST#2#post-2' }], LastEvaluatedKey: { PK: 'FEED#viewer', SK: 'POST#2#post-2' } },
+        {},
+        { Items: [{ PK: 'FEED#viewer', SK: 'POST#1#post-1' }] },
+        {},
+      ],
+    });
+    const error = await followEvent('User Unfollowed');
+    const sent = await lambda.sent();
+
+    expect(error).toBeNull();
+    expect(sent.map(c => c.type)).toEqual([
+      'GetCommand', 'DeleteCommand', 'QueryCommand', 'BatchWriteCommand', 'QueryCommand', 'BatchWriteCommand',
+    ]);
+    expect(sent[1].input.Key).toEqual({ PK: 'USER#viewer', SK: 'PULLS#alice-id' });
+    expect(sent[2].input).toMatchObject({
+      FilterExpression: 'userId = :userId',
+      ExpressionAttributeValues: { ':pk': 'FEED#viewer', ':sk': 'POST#', ':userId': 'alice-id' },
+    });
+    expect(sent[4].input.ExclusiveStartKey).toEqual({ PK: 'FEED#viewer', SK: 'POST#2#post-2' });
+    expect(sent[5].input.RequestItems['test-table']).toEqual([
+      { DeleteRequest: { Key: { PK: 'FEED#viewer', SK: 'POST#1#post-1' } } },
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+import { LambdaHarness, TableItem } from '../../environment/lambda-harness';
+
+const NOW = Date.parse('2024-01-02T00:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+const item = (postId: string, userId: string, ageHours: number, likesCount = 0, commentsCount = 0) => ({
+  SK: `POST#${NOW - ageHours * HOUR}#${postId}`,
+  postId,
+  userId,
+  likesCount,
+  commentsCount,
+  createdAt: new Date(NOW - ageHours * HOUR).toISOString(),
+});
+
+interface RankingWeights {
+  recency: number;
+  affinity: number;
+  engagement: number;
+  halfLifeHours: number;
+}
+
+let lambda: LambdaHarness;
+afterEach(() => LambdaHarness.stopAll());
+
+const ranking = <T>(name: string, ...args: unknown[]) => lambda.call<T>('shared/feed-ranking.mjs', name, ...args);
+const postIds = (items: { postId: string }[]) => items.map(i => i.postId);
+
+describe('feed ranking', () => {
+  beforeEach(async () => {
+    lambda = await LambdaHarness.start();
+  });
+
+  it('halves the recency score every half-life and adds log-scaled affinity and engagement', async () => {
+    const weights = { recency: 1, affinity: 0, engagement: 0, halfLifeHours: 24 };
+
+    expect(await ranking('scoreFeedItem', item('p1', 'a', 0), 0, NOW, weights)).toBeCloseTo(1);
+    expect(await ranking('scoreFeedItem', item('p1', 'a', 24), 0, NOW, weights)).toBeCloseTo(0.5);
+    expect(await ranking('scoreFeedItem', item('p1', 'a', 0), 3, NOW, { ...weights, affinity: 1 })).toBeCloseTo(1 + Math.log(4));
+    // A comment counts twice as much as a like
+    expect(await ranking('scoreFeedItem', item('p1', 'a', 0, 1, 1), 0, NOW, { ...weights, engagement: 1 })).toBeCloseTo(1 + Math.log(4));
+  });
+
+  it('counts each of the viewer\'s comments on an author twice as much as a like', async () => {
+    const affinity = await ranking<Map<string, number>>(
+      'authorAffinity', new Map([['a', 3], ['b', 1]]), new Map([['b', 2], ['c', 1]]));
+
+    expect(affinity).toEqual(new Map([['a', 3], ['b', 5], ['c', 2]]));
+  });
+
+  it('reads the weights from the environment', async () => {
+    const weighted = await LambdaHarness.start({
+      env: {
+        FEED_RANK_RECENCY_WEIGHT: '2',
+        FEED_RANK_AFFINITY_WEIGHT: '0',
+        FEED_RANK_HALF_LIFE_HOURS: '6',
+      },
+    });
+
+    expect(await weighted.value<RankingWeights>('shared/feed-ranking.mjs', 'RANKING_WEIGHTS'))
+      .toEqual({ recency: 2, affinity: 0, engagement: 0.3, halfLifeHours: 6 });
+  });
+
+  it('lifts older posts by liked authors and popular posts above fresh ones', async () => {
+    const items = [
+      item('fresh', 'stranger', 1),
+      item('friend', 'friend', 12),
+      item('viral', 'stranger', 6, 40, 10),
+      item('stale', 'stranger', 72),
+    ];
+    const ranked = await ranking<{ postId: string }[]>('rankFeedItems', items, new Map([['friend', 10]]), NOW);
+
+    expect(postIds(ranked)).toEqual(['viral', 'friend', 'fresh', 'stale']);
+  });
+
+  it('keeps the newest first among equal scores', async () => {
+    const weights = { recency: 0, affinity: 0, engagement: 0, halfLifeHours: 24 };
+    const ranked = await ranking<{ postId: string }[]>(
+      'rankFeedItems', [item('older', 'a', 2), item('newer', 'b', 1)], new Map(), NOW, weights);
+
+    expect(postIds(ranked)).toEqual(['newer', 'older']);
+  });
+});
+
+describe('ranked feed', () => {
+  interface Feed {
+    mode: string;
+    feedItems: { postId: string }[];
+    nextCursor: string | null;
+  }
+
+  beforeEach(async () => {
+    lambda = await LambdaHarness.start({ table: 'memory', env: { CURSOR_SECRET: 'test-cursor-secret' } });
+  });
+
+  const addPost = (postId: string, userId: string, ageHours: number, metadata: object = {}) => {
+    const createdMs = NOW - ageHours * HOUR;
+    const post = {
+      postId, userId, username: userId, displayName: userId, content: postId,
+      likesCount: 0, commentsCount: 0, createdAt: new Date(createdMs).toISOString(),
+    };
+    return lambda.seed([
+      { PK: `POST#${postId}`, SK: 'METADATA', ...post, ...metadata },
+      { PK: 'FEED#viewer', SK: `POST#${createdMs}#${postId}`, ...post, feedTimestamp: createdMs },
+    ]);
+  };
+  const like = (postId: string, postAuthorId?: string): TableItem =>
+    ({ PK: 'USER#viewer', SK: `LIKED#${postId}`, postId, userId: 'viewer', ...(postAuthorId && { postAuthorId }) });
+  const getFeed = (query: Record<string, string>) => lambda.request<Feed>('feed-esm/get-feed.mjs', {
+    httpMethod: 'GET',
+    requestContext: { authorizer: { userId: 'viewer', username: 'viewer' } },
+    pathParameters: { userId: 'viewer' },
+    queryStringParameters: query,
+  });
+
+  const comment = (postId: string, commentId: string, postAuthorId?: string): TableItem => ({
+    PK: 'USER#viewer',
+    SK: `REF#POST#${postId}#COMMENT_ID#${commentId}`,
+    ref: { PK: `POST#${postId}`, SK: `COMMENT_ID#${commentId}` },
+    postId,
+    commentId,
+    ...(postAuthorId && { postAuthorId }),
+  });
+
+  it('ranks on current counts and affinity, including likes recorded before authors were stored', async () => {
+    await addPost('fresh', 'stranger', 1);
+    await addPost('friend', 'friend', 10);
+    await addPost('viral', 'stranger', 8, { likesCount: 50, commentsCount: 10 });
+    await addPost('gone', 'stranger', 0);
+    await lambda.seed([
+      { PK: 'POST#old', SK: 'METADATA', postId: 'old', userId: 'friend' },
+      ...Array.from({ length: 5 }, (_, i) => like(`friend-${i}`, 'friend')),
+      like('old'),
+    ]);
+    await lambda.deleteItem({ PK: 'POST#gone', SK: 'METADATA' });
+
+    const page = await lambda.call<{ items: { postId: string }[] }>(
+      'shared/feed-data.mjs', 'FeedData.getRankedFeed', 'viewer', { limit: 10, startKey: { asOf: NOW, offset: 0 } });
+
+    expect(postIds(page.items)).toEqual(['viral', 'friend', 'fresh']);
+  });
+
+  it('lifts authors the viewer comments on, including comments recorded before authors were stored', async () => {
+    await addPost('fresh', 'stranger', 1);
+    await addPost('chatty', 'friend', 10);
+    await lambda.seed([
+      { PK: 'POST#old', SK: 'METADATA', postId: 'old', userId: 'friend' },
+      comment('friend-0', 'c1', 'friend'),
+      comment('friend-1', 'c2', 'friend'),
+      comment('old', 'c3'),
+    ]);
+
+    const page = await lambda.call<{ items: { postId: string }[] }>(
+      'shared/feed-data.mjs', 'FeedData.getRankedFeed', 'viewer', { limit: 10, startKey: { asOf: NOW, offset: 0 } });
+
+    expect(postIds(page.items)).toEqual(['chatty', 'fresh']);
+  });
+
+  it('pages one ranked session without repeats while new posts arrive', async () => {
+    for (let i = 0; i < 5; i++) await addPost(`post-${i}`, `author-${i}`, i * 3, { likesCount: i });
+
+    const first = await getFeed({ mode: 'ranked', limit: '2' });
+    await addPost('later', 'author-9', (NOW - Date.now() - 1000) / HOUR);
+    const second = await getFeed({ mode: 'ranked', limit: '2', cursor: first.body.nextCursor! });
+    const third = await getFeed({ mode: 'ranked', limit: '2', cursor: second.body.nextCursor! });
+    const mixed = await getFeed({ cursor: first.body.nextCursor! });
+    const pages = [first, second, third].map(page => page.body);
+
+    expect(first.statusCode).toBe(200);
+    expect(pages.flatMap(page => postIds(page.feedItems)).sort()).toEqual(['post-0', 'post-1', 'post-2', 'post-3', 'post-4']);
+    expect(pages.map(page => page.nextCursor !== null)).toEqual([true, true, false]);
+    expect(pages.every(page => page.mode === 'ranked')).toBe(true);
+    // A ranked cursor is not accepted by the chronological feed
+    expect(mixed.statusCode).toBe(400);
+  });
+
+  it('rejects unknown modes and defaults to the chronological feed', async () => {
+    await addPost('older', 'a', 2, { likesCount: 100 });
+    await addPost('newer', 'b', 1);
+    const bad = await getFeed({ mode: 'popular' });
+    const chronological = await getFeed({});
+
+    expect(bad.statusCode).toBe(400);
+    expect(chronological.body.mode).toBe('chronological');
+    expect(postIds(chronological.body.feedItems)).toEqual(['newer', 'older']);
+  });
+});
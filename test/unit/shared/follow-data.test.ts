@@ -0,0 +1,411 @@
+import { LambdaHarness, RecordedResponse } from '../../environment/lambda-harness';
+
+interface ListedUser {
+  userId: string;
+  profile: Record<string, unknown> | null;
+}
+
+interface Body {
+  status?: string;
+  error?: string;
+  decision?: string;
+  count?: number;
+  nextCursor?: string | null;
+  following?: ListedUser[];
+  users?: ListedUser[];
+  feedItems?: { postId: string }[];
+}
+
+let lambda: LambdaHarness;
+const start = async (responses: RecordedResponse[] = []) => {
+  lambda = await LambdaHarness.start({ responses, env: { CURSOR_SECRET: 'test-cursor-secret' } });
+};
+const followData = <T>(name: string, ...args: unknown[]) => lambda.call<T>('shared/follow-data.mjs', `FollowData.${name}`, ...args);
+
+// Invoke a handler against a recorded table answering with `responses`
+const invoke = async (handlerPath: string, event: object, responses: RecordedResponse[] = []) => {
+  await start(responses);
+  const { statusCode, body } = await lambda.request<Body>(handlerPath, event);
+  return { status: statusCode, body, sent: await lambda.sent(), published: await lambda.published() };
+};
+
+afterEach(() => LambdaHarness.stopAll());
+
+const asCaller = (userId: string | null, role = 'user') =>
+  ({ requestContext: userId ? { authorizer: { userId, username: userId, role } } : {} });
+
+const batchResponse = (items: object[]) => ({ Responses: { 'test-table': items } });
+
+describe('FollowData.getRelationship', () => {
+  it('reads follow and block items in both directions, pending requests and mutes in one batch', async () => {
+    await start([batchResponse([
+      { PK: 'USER#alice-id', SK: 'FOLLOWS#bob-id' },
+      { PK: 'USER#bob-id', SK: 'FOLLOWS#alice-id' },
+    ])]);
+    const relationship = await followData('getRelationship', 'alice-id', 'bob-id');
+    const sent = await lambda.sent();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].input.RequestItems['test-table'].Keys).toEqual([
+      { PK: 'USER#alice-id', SK: 'FOLLOWS#bob-id' },
+      { PK: 'USER#bob-id', SK: 'FOLLOWS#alice-id' },
+      { PK: 'USER#alice-id', SK: 'BLOCKS#bob-id' },
+      { PK: 'USER#bob-id', SK: 'BLOCKS#alice-id' },
+      { PK: 'USER#bob-id', SK: 'FOLLOW_REQUEST#alice-id' },
+      { PK: 'USER#alice-id', SK: 'MUTES#bob-id' },
+    ]);
+    expect(relationship).toEqual({
+      following: true, followedBy: true, mutual: true, blocked: false, blockedBy: false, requested: false, muted: false,
+    });
+  });
+
+  it('is not mutual when only one side follows', async () => {
+    await start([batchResponse([
+      { PK: 'USER#bob-id', SK: 'FOLLOWS#alice-id' },
+      { PK: 'USER#bob-id', SK: 'BLOCKS#alice-id' },
+    ])]);
+    const relationship = await followData('getRelationship', 'alice-id', 'bob-id');
+
+    expect(relationship).toEqual({
+      following: false, followedBy: true, mutual: false, blocked: false, blockedBy: true, requested: false, muted: false,
+    });
+  });
+});
+
+describe('relationship and following handlers', () => {
+  const callRelationship = (caller: object, pathParameters: object) => invoke('social-esm/get-relationship.mjs', {
+    httpMethod: 'GET', ...caller, pathParameters,
+  }, [batchResponse([{ PK: 'USER#alice-id', SK: 'FOLLOWS#bob-id' }])]);
+
+  it('describes the caller\'s own relationship', async () => {
+    const { status, body } = await callRelationship(asCaller('alice-id'), { userId: 'alice-id', otherUserId: 'bob-id' });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ userId: 'alice-id', otherUserId: 'bob-id', following: true, mutual: false });
+  });
+
+  it('keeps other users\' block state private', async () => {
+    const { status, sent } = await callRelationship(asCaller('carol-id'), { userId: 'alice-id', otherUserId: 'bob-id' });
+
+    expect(status).toBe(403);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('lets admins inspect any relationship', async () => {
+    const { status } = await callRelationship(asCaller('root-id', 'admin'), { userId: 'alice-id', otherUserId: 'bob-id' });
+
+    expect(status).toBe(200);
+  });
+
+  it('requires authentication', async () => {
+    const { status } = await callRelationship(asCaller(null), { userId: 'alice-id', otherUserId: 'bob-id' });
+
+    expect(status).toBe(401);
+  });
+
+  it('hydrates the following list with public profiles', async () => {
+    const { body, sent } = await invoke('social-esm/get-following.mjs', {
+      httpMethod: 'GET', pathParameters: { userId: 'alice-id' },
+    }, [
+      { Item: { userId: 'alice-id', isPrivate: false } },
+      {
+        Items: [
+          { followerId: 'alice-id', followedUserId: 'bob-id', createdAt: '2024-01-01T00:00:00.000Z' },
+          { followerId: 'alice-id', followedUserId: 'gone-id', createdAt: '2024-01-02T00:00:00.000Z' },
+        ],
+      },
+      batchResponse([
+        { PK: 'USER#bob-id', SK: 'PROFILE', userId: 'bob-id', username: 'bob', displayName: 'Bob', email: 'bob@example.com', createdAt: '2023-01-01T00:00:00.000Z' },
+      ]),
+    ]);
+
+    expect(sent[1].input.ExpressionAttributeValues[':sk']).toBe('FOLLOWS#');
+    expect(body.count).toBe(2);
+    expect(body.nextCursor).toBeNull();
+
+    const [bob, gone] = body.following!;
+    expect(bob).toMatchObject({ userId: 'bob-id', followedAt: '2024-01-01T00:00:00.000Z' });
+    expect(bob.profile).toMatchObject({ username: 'bob', displayName: 'Bob', followersCount: 0 });
+    expect(bob.profile?.email).toBeUndefined();
+    expect(gone.profile).toBeNull();
+  });
+});
+
+describe('private accounts', () => {
+  const privateBob = { Item: { userId: 'bob-id', username: 'bob', isPrivate: true } };
+
+  it('turns a follow of a private account into a pending request', async () => {
+    const { status, body, sent, published } = await invoke('social-esm/follow.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+    }, [privateBob]);
+
+    expect(status).toBe(202);
+    expect(body).toMatchObject({ status: 'requested', followerId: 'alice-id', followedUserId: 'bob-id' });
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'BatchGetCommand', 'GetCommand', 'PutCommand', 'PutCommand']);
+    // The requester's reference is written before the request it points at
+    expect(sent[3].input.Item).toEqual({
+      PK: 'USER#alice-id',
+      SK: 'REF#USER#bob-id#FOLLOW_REQUEST#alice-id',
+      ref: { PK: 'USER#bob-id', SK: 'FOLLOW_REQUEST#alice-id' },
+    });
+    expect(sent[4].input.Item).toMatchObject({ PK: 'USER#bob-id', SK: 'FOLLOW_REQUEST#alice-id', requesterId: 'alice-id' });
+    // Follow Requested is published from the table stream
+    expect(published).toEqual([]);
+  });
+
+  it('follows a public account directly', async () => {
+    const { status, body, sent, published } = await invoke('social-esm/follow.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+    }, [{ Item: { userId: 'bob-id', isPrivate: false } }]);
+
+    expect(status).toBe(200);
+    expect(body.status).toBe('following');
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'BatchGetCommand', 'TransactWriteCommand']);
+    expect(published).toEqual([]);
+  });
+
+  it('approves a request by deleting it and creating the follow in one transaction', async () => {
+    const { status, body, sent, published } = await invoke('social-esm/approve-follow-request.mjs', {
+      ...asCaller('bob-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id', requesterId: 'alice-id' },
+    });
+
+    expect(status).toBe(200);
+    expect(body.decision).toBe('approved');
+    expect(sent).toHaveLength(1);
+
+    const [request, reference, follows] = sent[0].input.TransactItems;
+    expect(request.Delete.Key).toEqual({ PK: 'USER#bob-id', SK: 'FOLLOW_REQUEST#alice-id' });
+    expect(request.Delete.ConditionExpression).toBe('attribute_exists(PK)');
+    expect(reference.Delete.Key).toEqual({ PK: 'USER#alice-id', SK: 'REF#USER#bob-id#FOLLOW_REQUEST#alice-id' });
+    expect(follows.Put.Item).toMatchObject({ PK: 'USER#alice-id', SK: 'FOLLOWS#bob-id' });
+    // The FOLLOWS# item is published as User Followed from the stream
+    expect(published).toEqual([]);
+  });
+
+  it('only lets the private account decide on its requests', async () => {
+    const approve = await invoke('social-esm/approve-follow-request.mjs', {
+      ...asCaller('carol-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id', requesterId: 'alice-id' },
+    });
+    const list = await invoke('social-esm/list-follow-requests.mjs', {
+      ...asCaller('carol-id'), httpMethod: 'GET', pathParameters: { userId: 'bob-id' },
+    });
+
+    expect(approve.status).toBe(403);
+    expect(list.status).toBe(403);
+    expect([...approve.sent, ...list.sent]).toHaveLength(0);
+  });
+
+  it('denies a request by deleting it', async () => {
+    const { status, body, sent } = await invoke('social-esm/deny-follow-request.mjs', {
+      ...asCaller('bob-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id', requesterId: 'alice-id' },
+    });
+
+    expect(status).toBe(200);
+    expect(body.decision).toBe('denied');
+    expect(sent[0].type).toBe('DeleteCommand');
+    expect(sent[0].input.Key).toEqual({ PK: 'USER#bob-id', SK: 'FOLLOW_REQUEST#alice-id' });
+    // The requester's reference goes after the request
+    expect(sent[1].input.Key).toEqual({ PK: 'USER#alice-id', SK: 'REF#USER#bob-id#FOLLOW_REQUEST#alice-id' });
+  });
+
+  it('withdraws a pending request on unfollow', async () => {
+    const { status, body, sent, published } = await invoke('social-esm/unfollow.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+    }, [{ Item: { PK: 'USER#bob-id', SK: 'FOLLOW_REQUEST#alice-id' } }]);
+
+    expect(status).toBe(200);
+    expect(body.status).toBe('cancelled');
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'DeleteCommand', 'DeleteCommand']);
+    expect(published).toHaveLength(0);
+  });
+
+  it('hides a private account\'s posts from callers who do not follow it', async () => {
+    const stranger = await invoke('posts-esm/get-user-posts.mjs', {
+      ...asCaller('carol-id'), httpMethod: 'GET', pathParameters: { userId: 'bob-id' },
+    }, [privateBob, {}]);
+    const anonymous = await invoke('posts-esm/get-user-posts.mjs', {
+      ...asCaller(null), httpMethod: 'GET', pathParameters: { userId: 'bob-id' },
+    }, [privateBob]);
+    const follower = await invoke('posts-esm/get-user-posts.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'GET', pathParameters: { userId: 'bob-id' },
+    }, [privateBob, { Item: { PK: 'USER#alice-id', SK: 'FOLLOWS#bob-id' } }, { Items: [] }]);
+
+    expect(stranger.status).toBe(403);
+    expect(stranger.body.error).toBe('This account is private');
+    expect(anonymous.status).toBe(403);
+    expect(anonymous.sent).toHaveLength(1);
+    expect(follower.status).toBe(200);
+  });
+
+  it('drops private authors from a feed read by someone else', async () => {
+    const { body, sent } = await invoke('feed-esm/get-feed.mjs', {
+      ...asCaller('carol-id'), httpMethod: 'GET', pathParameters: { userId: 'alice-id' },
+    }, [
+      { Items: [] }, // alice follows no pull-mode authors
+      {
+        Items: [
+          { postId: 'post-1', userId: 'bob-id', content: 'private' },
+          { postId: 'post-2', userId: 'dave-id', content: 'public' },
+          { postId: 'post-3', userId: 'carol-id', content: 'mine' },
+        ],
+      },
+      batchResponse([
+        { PK: 'USER#bob-id', SK: 'PROFILE', userId: 'bob-id', isPrivate: true },
+        { PK: 'USER#dave-id', SK: 'PROFILE', userId: 'dave-id', isPrivate: false },
+      ]),
+      batchResponse([]),
+      batchResponse([]),
+    ]);
+
+    expect(body.feedItems!.map(item => item.postId)).toEqual(['post-2', 'post-3']);
+    expect(sent[4].input.RequestItems['test-table'].Keys).toEqual([{ PK: 'USER#carol-id', SK: 'FOLLOWS#bob-id' }]);
+  });
+});
+
+describe('blocks and mutes', () => {
+  const blockedByBob = batchResponse([{ PK: 'USER#bob-id', SK: 'BLOCKS#alice-id', blockerId: 'bob-id', blockedUserId: 'alice-id' }]);
+
+  it('removes follows in both directions in the same transaction as the block', async () => {
+    await start([batchResponse([
+      { PK: 'USER#alice-id', SK: 'FOLLOWS#bob-id' },
+      { PK: 'USER#bob-id', SK: 'FOLLOWS#alice-id' },
+    ])]);
+    const result = await followData('blockUser', 'alice-id', 'bob-id');
+    const sent = await lambda.sent();
+
+    expect(result).toMatchObject({ removedFollowing: true, removedFollower: true });
+    expect(sent.map(c => c.type)).toEqual(['BatchGetCommand', 'TransactWriteCommand']);
+
+    const items = sent[1].input.TransactItems;
+    expect(items[0].Put.Item).toMatchObject({ PK: 'USER#alice-id', SK: 'BLOCKS#bob-id', blockerId: 'alice-id', blockedUserId: 'bob-id' });
+    expect(items[0].Put.ConditionExpression).toBe('attribute_not_exists(PK)');
+
+    const deletedKeys = items.filter((item: any) => item.Delete).map((item: any) => item.Delete.Key);
+    expect(deletedKeys).toEqual(expect.arrayContaining([
+      { PK: 'USER#alice-id', SK: 'FOLLOWS#bob-id' },
+      { PK: 'USER#bob-id', SK: 'FOLLOWER#alice-id' },
+      { PK: 'USER#bob-id', SK: 'FOLLOWS#alice-id' },
+      { PK: 'USER#alice-id', SK: 'FOLLOWER#bob-id' },
+      { PK: 'USER#bob-id', SK: 'FOLLOW_REQUEST#alice-id' },
+      { PK: 'USER#alice-id', SK: 'FOLLOW_REQUEST#bob-id' },
+    ]));
+
+    // Each profile is updated once, with both counters combined
+    const updates = items.filter((item: any) => item.Update).map((item: any) => item.Update);
+    expect(updates.map((u: any) => u.Key.PK)).toEqual(['USER#alice-id', 'USER#bob-id']);
+    expect(updates[0].UpdateExpression).toBe('ADD followingCount :delta0, followersCount :delta1');
+    expect(updates[0].ExpressionAttributeValues).toEqual({ ':delta0': -1, ':delta1': -1 });
+  });
+
+  it('leaves counters alone when there was nothing to unfollow', async () => {
+    await start();
+    await followData('blockUser', 'alice-id', 'bob-id');
+    const sent = await lambda.sent();
+
+    const items = sent[1].input.TransactItems;
+    expect(items.some((item: any) => item.Update)).toBe(false);
+    // The block and the requests in both directions, each with its reference
+    expect(items).toHaveLength(6);
+    expect(items[1].Put.Item).toEqual({
+      PK: 'USER#bob-id',
+      SK: 'REF#USER#alice-id#BLOCKS#bob-id',
+      ref: { PK: 'USER#alice-id', SK: 'BLOCKS#bob-id' },
+    });
+  });
+
+  it('blocks through the handler and leaves the events to the stream', async () => {
+    const { status, body, sent, published } = await invoke('social-esm/block.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+    }, [{ Item: { userId: 'bob-id' } }, batchResponse([{ PK: 'USER#bob-id', SK: 'FOLLOWS#alice-id' }])]);
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ status: 'blocked', userId: 'alice-id', targetUserId: 'bob-id' });
+    // The BLOCKS# put and the FOLLOWS# delete become User Blocked and User Unfollowed
+    const items = sent[sent.length - 1].input.TransactItems;
+    expect(items[0].Put.Item).toMatchObject({ PK: 'USER#alice-id', SK: 'BLOCKS#bob-id' });
+    expect(items.some((item: any) => item.Delete?.Key.SK === 'FOLLOWS#alice-id')).toBe(true);
+    expect(published).toEqual([]);
+  });
+
+  it('refuses to block yourself', async () => {
+    const { status, sent } = await invoke('social-esm/block.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { userId: 'alice-id' },
+    });
+
+    expect(status).toBe(400);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('stops a blocked user from following', async () => {
+    const { status, body, sent } = await invoke('social-esm/follow.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+    }, [{ Item: { userId: 'bob-id', isPrivate: false } }, blockedByBob]);
+
+    expect(status).toBe(403);
+    expect(body.error).toBe('You cannot interact with this user');
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'BatchGetCommand']);
+  });
+
+  it('stops a blocked user from commenting', async () => {
+    const { status, sent } = await invoke('comments-esm/create.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { postId: 'post-1' },
+      body: JSON.stringify({ content: 'hello' }),
+    }, [{ Item: { postId: 'post-1', userId: 'bob-id' } }, blockedByBob]);
+
+    expect(status).toBe(403);
+    expect(sent.some(c => c.type === 'TransactWriteCommand')).toBe(false);
+  });
+
+  it('drops muted and blocking authors from the owner\'s feed', async () => {
+    const { body, sent } = await invoke('feed-esm/get-feed.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'GET', pathParameters: { userId: 'alice-id' },
+    }, [
+      { Items: [] },
+      {
+        Items: [
+          { postId: 'post-1', userId: 'bob-id', content: 'muted' },
+          { postId: 'post-2', userId: 'carol-id', content: 'blocked alice' },
+          { postId: 'post-3', userId: 'dave-id', content: 'visible' },
+        ],
+      },
+      batchResponse([
+        { PK: 'USER#alice-id', SK: 'MUTES#bob-id', muterId: 'alice-id', mutedUserId: 'bob-id' },
+        { PK: 'USER#carol-id', SK: 'BLOCKS#alice-id', blockerId: 'carol-id', blockedUserId: 'alice-id' },
+      ]),
+    ]);
+
+    expect(body.feedItems!.map(item => item.postId)).toEqual(['post-3']);
+    expect(sent[2].input.RequestItems['test-table'].Keys).toHaveLength(9);
+  });
+
+  it('only lists your own blocked users', async () => {
+    const own = await invoke('social-esm/list-blocks.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'GET', pathParameters: { userId: 'alice-id' },
+    }, [
+      { Items: [{ blockerId: 'alice-id', blockedUserId: 'bob-id', createdAt: '2024-01-01T00:00:00.000Z' }] },
+      batchResponse([{ PK: 'USER#bob-id', SK: 'PROFILE', userId: 'bob-id', username: 'bob', displayName: 'Bob' }]),
+    ]);
+    const other = await invoke('social-esm/list-mutes.mjs', {
+      ...asCaller('carol-id'), httpMethod: 'GET', pathParameters: { userId: 'alice-id' },
+    });
+
+    expect(own.status).toBe(200);
+    expect(own.sent[0].input.ExpressionAttributeValues[':sk']).toBe('BLOCKS#');
+    expect(own.body).toMatchObject({ list: 'blocks', count: 1 });
+    expect(own.body.users![0]).toMatchObject({ userId: 'bob-id', since: '2024-01-01T00:00:00.000Z', profile: { username: 'bob' } });
+    expect(other.status).toBe(403);
+    expect(other.sent).toHaveLength(0);
+  });
+
+  it('mutes without touching the follow', async () => {
+    const { status, sent, published } = await invoke('social-esm/mute.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+    }, [{ Item: { userId: 'bob-id' } }]);
+
+    expect(status).toBe(200);
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'PutCommand', 'PutCommand']);
+    expect(sent[1].input.Item).toMatchObject({ PK: 'USER#bob-id', SK: 'REF#USER#alice-id#MUTES#bob-id' });
+    expect(sent[2].input.Item).toMatchObject({ PK: 'USER#alice-id', SK: 'MUTES#bob-id', mutedUserId: 'bob-id' });
+    expect(published).toEqual([]);
+  });
+});
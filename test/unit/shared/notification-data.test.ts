@@ -0,0 +1,225 @@
+import { LambdaHarness, RecordedResponse, failure } from '../../environment/lambda-harness';
+
+interface AddedNotification {
+  notificationId: string;
+  aggregated: boolean;
+}
+
+let lambda: LambdaHarness;
+const start = async (responses: RecordedResponse[] = []) => {
+  lambda = await LambdaHarness.start({ responses, env: { CURSOR_SECRET: 'test-cursor-secret' } });
+};
+const notifications = async <T>(name: string, ...args: unknown[]) => {
+  const result = await lambda.call<T>('shared/notification-data.mjs', `NotificationData.${name}`, ...args);
+  return { result, sent: await lambda.sent() };
+};
+
+afterEach(() => LambdaHarness.stopAll());
+
+const asCaller = (userId: string | null) =>
+  ({ requestContext: userId ? { authorizer: { userId, username: userId, role: 'user' } } : {} });
+
+const batchResponse = (items: object[]) => ({ Responses: { 'test-table': items } });
+
+const like = { userId: 'bob-id', type: 'like', groupKey: 'like#post-1', actorId: 'alice-id', postId: 'post-1' };
+
+describe('NotificationData.addNotification', () => {
+  it('creates a notification, its group pointer and bumps the unread count together', async () => {
+    await start();
+    const { result, sent } = await notifications<AddedNotification>('addNotification', like);
+
+    expect(result.aggregated).toBe(false);
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'TransactWriteCommand']);
+    expect(sent[0].input.Key).toEqual({ PK: 'NOTIF#bob-id', SK: 'GROUP#like#post-1' });
+
+    const [notification, pointer, counter] = sent[1].input.TransactItems;
+    expect(notification.Put.Item).toMatchObject({
+      PK: 'NOTIF#bob-id',
+      SK: `NOTIF#${result.notificationId}`,
+      type: 'like',
+      actorIds: new Set(['alice-id']),
+      latestActorId: 'alice-id',
+      read: false,
+    });
+    expect(result.notificationId).toMatch(/^\d{13}-/);
+    expect(pointer.Put.Item).toEqual({ PK: 'NOTIF#bob-id', SK: 'GROUP#like#post-1', notificationId: result.notificationId });
+    expect(pointer.Put.ConditionExpression).toBe('attribute_not_exists(PK)');
+    expect(counter.Update.Key).toEqual({ PK: 'NOTIF#bob-id', SK: 'UNREAD' });
+  });
+
+  it('folds a new actor into the unread notification for the same group', async () => {
+    await start([{ Item: { notificationId: '1700000000000-n1' } }]);
+    const { result, sent } = await notifications<AddedNotification>('addNotification', { ...like, actorId: 'carol-id' });
+
+    expect(result).toEqual({ notificationId: '1700000000000-n1', aggregated: true });
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'UpdateCommand']);
+    expect(sent[1].input.Key).toEqual({ PK: 'NOTIF#bob-id', SK: 'NOTIF#1700000000000-n1' });
+    expect(sent[1].input.UpdateExpression).toContain('ADD actorIds :actors');
+    expect(sent[1].input.ExpressionAttributeValues[':actors']).toEqual(new Set(['carol-id']));
+  });
+
+  it('starts a new notification when the group it points at was read', async () => {
+    await start([
+      { Item: { notificationId: '1700000000000-old' } },
+      failure('ConditionalCheckFailedException', { message: 'read' }),
+    ]);
+    const { result, sent } = await notifications<AddedNotification>('addNotification', like);
+
+    expect(result.aggregated).toBe(false);
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'UpdateCommand', 'TransactWriteCommand']);
+
+    const pointer = sent[2].input.TransactItems[1].Put;
+    expect(pointer.ConditionExpression).toBe('notificationId = :stale');
+    expect(pointer.ExpressionAttributeValues).toEqual({ ':stale': '1700000000000-old' });
+  });
+});
+
+describe('NotificationData.markRead', () => {
+  it('marks only unread notifications and releases their groups', async () => {
+    await start([batchResponse([
+      { notificationId: 'n1', groupKey: 'like#post-1', read: false },
+      { notificationId: 'n2', groupKey: 'follow', read: true },
+    ])]);
+    const { result: marked, sent } = await notifications<number>('markRead', 'bob-id', ['n1', 'n2', 'n1']);
+
+    expect(marked).toBe(1);
+    expect(sent[0].input.RequestItems['test-table'].Keys).toHaveLength(2);
+    expect(sent.map(c => c.type)).toEqual(['BatchGetCommand', 'TransactWriteCommand']);
+
+    const [notification, pointer, counter] = sent[1].input.TransactItems;
+    expect(notification.Update.Key).toEqual({ PK: 'NOTIF#bob-id', SK: 'NOTIF#n1' });
+    expect(pointer.Delete.Key).toEqual({ PK: 'NOTIF#bob-id', SK: 'GROUP#like#post-1' });
+    expect(counter.Update.ExpressionAttributeValues).toEqual({ ':minusOne': -1 });
+  });
+});
+
+describe('notification processor', () => {
+  const process = async (detailType: string, data: object, responses: RecordedResponse[] = []) => {
+    await start(responses);
+    await lambda.invoke('events-esm/notification-processor.mjs', await lambda.busEvent(detailType, data));
+    return { sent: await lambda.sent() };
+  };
+
+  it('notifies the post author about a like', async () => {
+    const { sent } = await process('Post Liked', {
+      userId: 'alice-id', postId: 'post-1', postAuthorId: 'bob-id', postContent: 'hello world',
+    });
+
+    expect(sent.map(c => c.type)).toEqual(['BatchGetCommand', 'GetCommand', 'TransactWriteCommand']);
+    expect(sent[2].input.TransactItems[0].Put.Item).toMatchObject({
+      PK: 'NOTIF#bob-id', type: 'like', groupKey: 'like#post-1', preview: 'hello world',
+    });
+  });
+
+  it('ignores your own actions and blocked actors', async () => {
+    const own = await process('Post Liked', { userId: 'bob-id', postId: 'post-1', postAuthorId: 'bob-id' });
+    const blocked = await process('User Followed', { followerId: 'alice-id', followedUserId: 'bob-id' }, [
+      batchResponse([{ PK: 'USER#bob-id', SK: 'BLOCKS#alice-id' }]),
+    ]);
+
+    expect(own.sent).toHaveLength(0);
+    expect(blocked.sent.map(c => c.type)).toEqual(['BatchGetCommand']);
+  });
+
+  it('notifies users mentioned in a post', async () => {
+    const { sent } = await process('Post Created', {
+      postId: 'post-2', userId: 'alice-id', content: 'Lunch with @bob and @nobody, email me at x@example.com',
+    }, [
+      { Items: [{ userId: 'bob-id', username: 'bob' }] },
+      { Items: [] },
+    ]);
+
+    const lookups = sent.filter(c => c.input.IndexName === 'username-index');
+    expect(lookups.map(c => c.input.ExpressionAttributeValues[':username'])).toEqual(['bob', 'nobody']);
+
+    const writes = sent.filter(c => c.type === 'TransactWriteCommand');
+    expect(writes).toHaveLength(1);
+    expect(writes[0].input.TransactItems[0].Put.Item).toMatchObject({
+      PK: 'NOTIF#bob-id', type: 'mention', groupKey: 'mention#post-2', postId: 'post-2',
+    });
+  });
+});
+
+describe('notification handlers', () => {
+  interface Listed {
+    unreadCount: number;
+    nextCursor: string | null;
+    notifications: { message: string; actorCount: number; actors: { userId: string }[] }[];
+    details?: string[];
+  }
+
+  const invoke = async (handlerPath: string, event: object, responses: RecordedResponse[] = []) => {
+    await start(responses);
+    const { statusCode, body } = await lambda.request<Listed>(handlerPath, event);
+    return { status: statusCode, body, sent: await lambda.sent() };
+  };
+
+  it('lists notifications with aggregated messages and the unread count', async () => {
+    const { status, body } = await invoke('notifications-esm/list.mjs', {
+      ...asCaller('bob-id'), httpMethod: 'GET', pathParameters: { userId: 'bob-id' },
+    }, [
+      {
+        Items: [{
+          notificationId: '1700000000000-n1',
+          type: 'like',
+          actorIds: ['alice-id', 'carol-id', 'dave-id', 'erin-id', 'frank-id'],
+          latestActorId: 'carol-id',
+          postId: 'post-1',
+          read: false,
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-02T00:00:00.000Z',
+        }],
+      },
+      { Item: { unreadCount: 1 } },
+      batchResponse([
+        { PK: 'USER#carol-id', SK: 'PROFILE', userId: 'carol-id', username: 'carol', displayName: 'Carol' },
+      ]),
+    ]);
+
+    expect(status).toBe(200);
+    expect(body.unreadCount).toBe(1);
+    expect(body.nextCursor).toBeNull();
+
+    const [notification] = body.notifications;
+    expect(notification.message).toBe('Carol and 4 others liked your post');
+    expect(notification.actorCount).toBe(5);
+    expect(notification.actors.map(a => a.userId)).toEqual(['carol-id', 'alice-id', 'dave-id']);
+  });
+
+  it('only lets users read and mark their own notifications', async () => {
+    const list = await invoke('notifications-esm/list.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'GET', pathParameters: { userId: 'bob-id' },
+    });
+    const mark = await invoke('notifications-esm/mark-read.mjs', {
+      ...asCaller('alice-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+    });
+
+    expect(list.status).toBe(403);
+    expect(mark.status).toBe(403);
+    expect([...list.sent, ...mark.sent]).toHaveLength(0);
+  });
+
+  it('marks everything read when no IDs are given', async () => {
+    const { status, body, sent } = await invoke('notifications-esm/mark-read.mjs', {
+      ...asCaller('bob-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+    }, [
+      { Items: [{ notificationId: 'n1', groupKey: 'follow' }] },
+      {},
+      { Item: { unreadCount: 0 } },
+    ]);
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ userId: 'bob-id', marked: 1, unreadCount: 0 });
+    expect(sent[0].input.FilterExpression).toBe('#read = :false');
+  });
+
+  it('rejects an empty ID list', async () => {
+    const { status, body } = await invoke('notifications-esm/mark-read.mjs', {
+      ...asCaller('bob-id'), httpMethod: 'POST', pathParameters: { userId: 'bob-id' },
+      body: JSON.stringify({ notificationIds: [] }),
+    });
+
+    expect(status).toBe(400);
+    expect(body.details).toContain('notificationIds must be a non-empty array when provided');
+  });
+});
@@ -0,0 +1,103 @@
+import { App } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { RefactoredProfileServiceStack } from '../../../lib/refactored-stack';
+import { API_ROUTES } from '../../../lib/constants/api-routes';
+import { runEsm } from '../../environment/esm-runner';
+import { HandlerResult, LambdaHarness } from '../../environment/lambda-harness';
+
+const REPO_ROOT = resolve(__dirname, '../../..');
+const GENERATOR = resolve(REPO_ROOT, 'scripts/generate-openapi.mjs');
+
+const readDocument = () => JSON.parse(readFileSync(resolve(REPO_ROOT, 'lambda/shared/openapi.json'), 'utf8'));
+
+describe('OpenAPI document', () => {
+  afterEach(() => LambdaHarness.stopAll());
+
+  it('matches the routes and schemas', async () => {
+    const rendered = await runEsm<string>(`
+      const { renderOpenApi } = await import('${GENERATOR}');
+      console.log(JSON.stringify(renderOpenApi()));
+    `);
+
+    expect(rendered).toBe(readFileSync(resolve(REPO_ROOT, 'lambda/shared/openapi.json'), 'utf8'));
+  });
+
+  it('documents the routes the frontends call, with what the handlers fill in left optional', () => {
+    const document = readDocument();
+    const documented = Object.entries(document.paths)
+      .flatMap(([path, operations]) => Object.keys(operations as object).map(method => `${method.toUpperCase()} ${path}`));
+    const routes = Object.values(API_ROUTES)
+      .filter(route => !('internal' in route))
+      .map(({ method, path }) => `${method} ${path}`);
+
+    expect(documented.sort()).toEqual(routes.sort());
+    expect(document.components.schemas.CreatePostRequest.required).toEqual(['content']);
+    expect(document.components.schemas.FollowRequest.required).toBeUndefined();
+    expect(document.paths['/profiles/{userId}/follow'].post.requestBody.required).toBe(false);
+    expect(document.components.schemas.RegisterRequest.properties.avatar).toEqual({ type: 'string', format: 'uri' });
+    expect(document.paths['/search'].get.parameters).toContainEqual({
+      name: 'q', in: 'query', required: true, schema: { type: 'string', minLength: 1, maxLength: 100 },
+    });
+  });
+
+  it('gives API Gateway a request validator and model for required bodies and query parameters', () => {
+    const app = new App({ context: { 'aws:cdk:disable-asset-staging': true } });
+    const stack = new RefactoredProfileServiceStack(app, 'ProfileServiceStack', {
+      env: { account: '123456789012', region: 'us-east-1' },
+    });
+    const template = Template.fromStack(stack);
+    const resources = template.toJSON().Resources;
+    const method = (httpMethod: string, pathPart: string) => Object.values<any>(resources).find(({ Type, Properties }) =>
+      Type === 'AWS::ApiGateway::Method'
+      && Properties.HttpMethod === httpMethod
+      && resources[Properties.ResourceId.Ref]?.Properties.PathPart === pathPart).Properties;
+
+    template.resourceCountIs('AWS::ApiGateway::RequestValidator', 1);
+    template.hasResourceProperties('AWS::ApiGateway::Model', {
+      Name: 'CreatePostRequest',
+      ContentType: 'application/json',
+      Schema: {
+        $schema: 'http://json-schema.org/draft-04/schema#',
+        type: 'object',
+        required: ['content'],
+        properties: {
+          userId: { type: 'string', minLength: 1 },
+          content: { type: 'string', minLength: 1, maxLength: 2000 },
+          // Formats are left to the handlers
+          imageUrl: Match.exact({ type: 'string' }),
+        },
+      },
+    });
+
+    const createPost = method('POST', 'posts');
+    expect(createPost.RequestValidatorId).toBeDefined();
+    expect(resources[createPost.RequestModels['application/json'].Ref].Properties.Name).toBe('CreatePostRequest');
+    expect(method('GET', 'search').RequestParameters).toEqual({ 'method.request.querystring.q': true });
+    expect(method('POST', 'follow').RequestValidatorId).toBeUndefined();
+  }, 120000);
+
+  it('is served at /docs/openapi.json, with a page browsing it at /docs', async () => {
+    const lambda = await LambdaHarness.start();
+    const docs = (resource: string, path = resource) =>
+      lambda.invoke<HandlerResult>('docs-esm/docs.mjs', { resource, path, httpMethod: 'GET', requestContext: { path: `/prod${path}` } });
+    const document = await docs('/docs/openapi.json');
+    const page = await docs('/docs');
+    const trailingSlash = await docs('/docs', '/docs/');
+
+    expect(document.statusCode).toBe(200);
+    expect(JSON.parse(document.body)).toEqual(readDocument());
+    expect(page.statusCode).toBe(200);
+    expect(page.headers?.['Content-Type']).toBe('text/html; charset=utf-8');
+    expect(page.body).toContain('url: "/prod/docs/openapi.json"');
+    expect(trailingSlash.body).toContain('url: "/prod/docs/openapi.json"');
+
+    // Swagger UI is one pinned release, checked against its hashes
+    const assets = [...page.body.matchAll(/(?:href|src)="(https:[^"]+)" integrity="(sha384-[^"]+)"/g)];
+    expect(assets.map(([, url]) => url)).toEqual([
+      'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5.33.1/swagger-ui.css',
+      'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5.33.1/swagger-ui-bundle.js',
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import { LambdaHarness, RecordedResponse, TableKey } from '../../environment/lambda-harness';
+
+const CURSOR_ENV = { CURSOR_SECRET: 'test-cursor-secret' };
+
+const lastKey = { PK: 'FEED#alice-id', SK: 'POST#1700000000000#post-20' };
+
+interface FeedPage {
+  feedItems: { postId: string }[];
+  nextCursor: string | null;
+}
+
+let lambda: LambdaHarness;
+const start = async (responses: RecordedResponse[] = [], env: Record<string, string> = CURSOR_ENV) => {
+  lambda = await LambdaHarness.start({ responses, env });
+};
+const encodeCursor = (key: TableKey | undefined, scope: string) =>
+  lambda.call<string | null>('shared/pagination.mjs', 'encodeCursor', key, scope);
+const decodeCursor = (cursor: string, scope: string) =>
+  lambda.call<TableKey>('shared/pagination.mjs', 'decodeCursor', cursor, scope);
+// The name of the error a call failed with, or null
+const rejection = (call: Promise<unknown>) => call.then(() => null, (error: Error) => error.name);
+
+afterEach(() => LambdaHarness.stopAll());
+
+describe('pagination cursors', () => {
+  it('round-trips a LastEvaluatedKey through an opaque cursor', async () => {
+    await start();
+    const cursor = await encodeCursor(lastKey, 'feed:alice-id');
+
+    expect(cursor).not.toContain('FEED#');
+    expect(await decodeCursor(cursor!, 'feed:alice-id')).toEqual(lastKey);
+  });
+
+  it('returns a null cursor on the last page', async () => {
+    await start();
+
+    expect(await encodeCursor(undefined, 'feed:alice-id')).toBeNull();
+  });
+
+  it('rejects tampered, foreign, unsigned and expired cursors', async () => {
+    await start();
+    const cursor = (await encodeCursor(lastKey, 'feed:alice-id'))!;
+    const [payload, signature] = cursor.split('.');
+
+    const forged = Buffer.from(JSON.stringify({
+      ...JSON.parse(Buffer.from(payload, 'base64url').toString()),
+      k: { PK: 'FEED#bob-id', SK: 'POST#1' },
+    })).toString('base64url');
+
+    await lambda.shiftClock(-25 * 60 * 60 * 1000);
+    const stale = (await encodeCursor(lastKey, 'feed:alice-id'))!;
+    await lambda.shiftClock(0);
+
+    const attempts = {
+      tampered: [forged + '.' + signature, 'feed:alice-id'],
+      foreign: [cursor, 'feed:bob-id'],
+      unsigned: [payload, 'feed:alice-id'],
+      garbage: ['not-a-cursor', 'feed:alice-id'],
+      expired: [stale, 'feed:alice-id'],
+    };
+
+    const errors: Record<string, string | null> = {};
+    for (const [name, [value, scope]] of Object.entries(attempts)) {
+      errors[name] = await rejection(decodeCursor(value, scope));
+    }
+
+    expect(errors).toEqual({
+      tampered: 'InvalidCursorError',
+      foreign: 'InvalidCursorError',
+      unsigned: 'InvalidCursorError',
+      garbage: 'InvalidCursorError',
+      expired: 'InvalidCursorError',
+    });
+  });
+
+  it('rejects cursors signed with a different secret', async () => {
+    await start();
+    const cursor = (await encodeCursor(lastKey, 'feed:alice-id'))!;
+
+    await start([], { CURSOR_SECRET: 'rotated-secret' });
+    expect(await rejection(decodeCursor(cursor, 'feed:alice-id'))).toBe('InvalidCursorError');
+  });
+
+  it('clamps the requested page size', async () => {
+    await start();
+    const limits = [];
+    for (const limit of [undefined, '5', '0', '1000', 'abc']) {
+      const page = await lambda.call<{ limit: number }>('shared/pagination.mjs', 'getPageRequest', {
+        queryStringParameters: limit ? { limit } : null,
+      }, 'feed:alice-id');
+      limits.push(page.limit);
+    }
+
+    expect(limits).toEqual([20, 5, 20, 100, 20]);
+  });
+});
+
+describe('paginated list handlers', () => {
+  it('returns a nextCursor that fetches the following feed page', async () => {
+    await start([
+      { Items: [] },
+      { Items: [{ ...lastKey, postId: 'post-20', userId: 'bob-id', content: 'newest' }], LastEvaluatedKey: lastKey },
+      {},
+      { Items: [] },
+      // The previous page's last item is returned again by the inclusive range and skipped
+      {
+        Items: [
+          { ...lastKey, postId: 'post-20' },
+          { PK: 'FEED#alice-id', SK: 'POST#1690000000000#post-19', postId: 'post-19', userId: 'bob-id', content: 'older' },
+        ],
+      },
+      {},
+    ]);
+    const event = (cursor?: string | null) => ({
+      httpMethod: 'GET',
+      requestContext: { authorizer: { userId: 'alice-id', username: 'alice' } },
+      pathParameters: { userId: 'alice-id' },
+      queryStringParameters: { limit: '1', ...(cursor && { cursor }) },
+    });
+
+    const { body: first } = await lambda.request<FeedPage>('feed-esm/get-feed.mjs', event());
+    const { body: second } = await lambda.request<FeedPage>('feed-esm/get-feed.mjs', event(first.nextCursor));
+    const sent = await lambda.sent();
+
+    expect(first.feedItems.map(i => i.postId)).toEqual(['post-20']);
+    expect(typeof first.nextCursor).toBe('string');
+    expect(second.feedItems.map(i => i.postId)).toEqual(['post-19']);
+    expect(second.nextCursor).toBeNull();
+
+    expect(sent[1].input.Limit).toBe(1);
+    expect(sent[1].input.ExpressionAttributeValues[':to']).toBe('POST$');
+    expect(sent[4].input.Limit).toBe(2);
+    expect(sent[4].input.ExpressionAttributeValues[':to']).toBe(lastKey.SK);
+  });
+
+  it('rejects a feed cursor replayed against another user\'s followers', async () => {
+    await start();
+    const cursor = await encodeCursor(lastKey, 'feed:alice-id');
+    const { statusCode } = await lambda.request('social-esm/get-followers.mjs', {
+      httpMethod: 'GET',
+      pathParameters: { userId: 'bob-id' },
+      queryStringParameters: { cursor },
+    });
+
+    expect(statusCode).toBe(400);
+    expect(await lambda.sent()).toHaveLength(0);
+  });
+
+  it('hydrates user posts from the index page', async () => {
+    await start([
+      { Item: { userId: 'alice-id', isPrivate: false } },
+      { Items: [{ postId: 'post-2' }, { postId: 'post-gone' }], LastEvaluatedKey: { PK: 'USER#alice-id', SK: 'POST#2#post-2' } },
+      { Item: { postId: 'post-2', userId: 'alice-id', content: 'hello', createdAt: '2024-01-01T00:00:00.000Z' } },
+      {},
+    ]);
+    const { body } = await lambda.request<{ posts: { postId: string }[]; nextCursor: string | null }>(
+      'posts-esm/get-user-posts.mjs', { httpMethod: 'GET', pathParameters: { userId: 'alice-id' } });
+    const sent = await lambda.sent();
+
+    expect(sent[1].input.Limit).toBe(20);
+    expect(body.posts.map(p => p.postId)).toEqual(['post-2']);
+    expect(body.nextCursor).toEqual(expect.any(String));
+  });
+});
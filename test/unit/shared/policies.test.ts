@@ -0,0 +1,236 @@
+import { LambdaHarness, ErrorBody } from '../../environment/lambda-harness';
+
+const alice = { userId: 'alice-id', username: 'alice', role: 'user' };
+const bob = { userId: 'bob-id', username: 'bob', role: 'user' };
+const admin = { userId: 'admin-id', username: 'admin', role: 'admin' };
+
+const alicePost = { postId: 'post-1', userId: alice.userId };
+
+describe('Authorization Policies', () => {
+  // Every rule is evaluated once against the real module, then asserted per case
+  const cases = {
+    isAdmin: [[admin], [alice], [null]],
+    canActAsUser: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId], [null, alice.userId], [alice, undefined]],
+    canEditProfile: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId], [null, alice.userId]],
+    canCreatePost: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId], [alice, undefined], [null, undefined]],
+    canEditPost: [[alice, alicePost], [bob, alicePost], [admin, alicePost], [alice, undefined]],
+    canDeletePost: [[alice, alicePost], [bob, alicePost], [admin, alicePost], [alice, undefined]],
+    canFollow: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId], [alice, undefined], [null, undefined]],
+    canLikePost: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId], [alice, undefined], [null, undefined]],
+    canCreateComment: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId], [alice, undefined], [null, undefined]],
+    canDeleteComment: [
+      [bob, { userId: bob.userId }, alicePost],
+      [alice, { userId: bob.userId }, alicePost],
+      [bob, { userId: alice.userId }, alicePost],
+      [admin, { userId: bob.userId }, alicePost],
+    ],
+    canUploadImage: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId], [alice, undefined], [null, undefined]],
+    canAdminister: [[admin], [alice], [null]],
+    canViewUserContent: [
+      [bob, { userId: alice.userId, isPrivate: false }, false],
+      [null, { userId: alice.userId, isPrivate: true }, false],
+      [bob, { userId: alice.userId, isPrivate: true }, false],
+      [bob, { userId: alice.userId, isPrivate: true }, true],
+      [alice, { userId: alice.userId, isPrivate: true }, false],
+      [admin, { userId: alice.userId, isPrivate: true }, false],
+    ],
+    canManageFollowRequests: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId]],
+    canManageBlocks: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId]],
+    canManageNotifications: [[alice, alice.userId], [bob, alice.userId], [admin, alice.userId]],
+  };
+
+  let results: Record<string, boolean[]>;
+
+  beforeAll(async () => {
+    const lambda = await LambdaHarness.start();
+    results = {};
+    try {
+      for (const [rule, args] of Object.entries(cases)) {
+        results[rule] = await Promise.all(args.map(a => lambda.call<boolean>('shared/policies.mjs', rule, ...a)));
+      }
+    } finally {
+      await lambda.stop();
+    }
+  });
+
+  it('isAdmin recognises only the admin role', () => {
+    expect(results.isAdmin).toEqual([true, false, false]);
+  });
+
+  it('canActAsUser allows self and admins, denies others and anonymous callers', () => {
+    expect(results.canActAsUser).toEqual([true, false, true, false, false]);
+  });
+
+  it('canEditProfile allows the owner and admins', () => {
+    expect(results.canEditProfile).toEqual([true, false, true, false]);
+  });
+
+  it('canCreatePost allows naming only yourself as the author, admins included', () => {
+    expect(results.canCreatePost).toEqual([true, false, false, true, false]);
+  });
+
+  it('canEditPost allows the author and admins', () => {
+    expect(results.canEditPost).toEqual([true, false, true, false]);
+  });
+
+  it('canDeletePost allows the author and admins', () => {
+    expect(results.canDeletePost).toEqual([true, false, true, false]);
+  });
+
+  it('canFollow allows naming only yourself as the follower, admins included', () => {
+    expect(results.canFollow).toEqual([true, false, false, true, false]);
+  });
+
+  it('canLikePost allows naming only yourself as the liker, admins included', () => {
+    expect(results.canLikePost).toEqual([true, false, false, true, false]);
+  });
+
+  it('canCreateComment allows naming only yourself as the commenter, admins included', () => {
+    expect(results.canCreateComment).toEqual([true, false, false, true, false]);
+  });
+
+  it('canDeleteComment allows the commenter, the post author and admins', () => {
+    expect(results.canDeleteComment).toEqual([true, true, false, true]);
+  });
+
+  it('canUploadImage allows uploads only to your own folder, admins included', () => {
+    expect(results.canUploadImage).toEqual([true, false, false, true, false]);
+  });
+
+  it('canAdminister requires the admin role', () => {
+    expect(results.canAdminister).toEqual([true, false, false]);
+  });
+
+  it('canViewUserContent hides private accounts from everyone but approved followers, the owner and admins', () => {
+    expect(results.canViewUserContent).toEqual([true, false, false, true, true, true]);
+  });
+
+  it('canManageFollowRequests allows the account owner and admins', () => {
+    expect(results.canManageFollowRequests).toEqual([true, false, true]);
+  });
+
+  it('canManageBlocks allows the account owner and admins', () => {
+    expect(results.canManageBlocks).toEqual([true, false, true]);
+  });
+
+  it('canManageNotifications allows the account owner and admins', () => {
+    expect(results.canManageNotifications).toEqual([true, false, true]);
+  });
+
+  describe('handlers', () => {
+    let lambda: LambdaHarness;
+
+    beforeEach(async () => {
+      lambda = await LambdaHarness.start();
+    });
+
+    afterEach(() => LambdaHarness.stopAll());
+
+    const invoke = (handlerPath: string, event: object) => lambda.request<ErrorBody>(handlerPath, event);
+
+    const asCaller = (caller: object | null) => ({ requestContext: caller ? { authorizer: caller } : {} });
+
+    it('returns 403 when editing another user\'s profile', async () => {
+      const response = await invoke('profile-esm/update.mjs', {
+        ...asCaller(bob),
+        httpMethod: 'PUT',
+        pathParameters: { userId: alice.userId },
+        body: JSON.stringify({ bio: 'hijacked' }),
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.body.error).toBe('You can only edit your own profile');
+    });
+
+    it('returns 403 when following on behalf of another user', async () => {
+      const response = await invoke('social-esm/follow.mjs', {
+        ...asCaller(bob),
+        httpMethod: 'POST',
+        pathParameters: { userId: 'carol-id' },
+        body: JSON.stringify({ followerId: alice.userId }),
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('returns 403 when liking on behalf of another user', async () => {
+      const response = await invoke('likes-esm/like-post.mjs', {
+        ...asCaller(bob),
+        httpMethod: 'POST',
+        body: JSON.stringify({ userId: alice.userId, postId: 'post-1' }),
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('returns 403 when an admin likes on behalf of another user', async () => {
+      const response = await invoke('likes-esm/like-post.mjs', {
+        ...asCaller(admin),
+        httpMethod: 'POST',
+        body: JSON.stringify({ userId: alice.userId, postId: 'post-1' }),
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.body.error).toBe('You can only like posts as yourself');
+    });
+
+    it('follows as the caller when the body leaves the follower out', async () => {
+      await lambda.stop();
+      lambda = await LambdaHarness.start({ table: 'memory' });
+      await lambda.seed([
+        { PK: 'USER#carol-id', SK: 'PROFILE', userId: 'carol-id', username: 'carol', isPrivate: false, followersCount: 0 },
+        { PK: `USER#${bob.userId}`, SK: 'PROFILE', userId: bob.userId, username: 'bob', followingCount: 0 },
+      ]);
+
+      const response = await invoke('social-esm/follow.mjs', {
+        ...asCaller(bob),
+        httpMethod: 'POST',
+        pathParameters: { userId: 'carol-id' },
+        body: null,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(await lambda.item({ PK: `USER#${bob.userId}`, SK: 'FOLLOWS#carol-id' })).toMatchObject({ followerId: bob.userId });
+    });
+
+    it('returns 403 when posting as another user', async () => {
+      const response = await invoke('posts-esm/create.mjs', {
+        ...asCaller(bob),
+        httpMethod: 'POST',
+        body: JSON.stringify({ userId: alice.userId, content: 'Not mine' }),
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('returns 403 when a non-admin calls an admin mutation', async () => {
+      const response = await invoke('admin-esm/delete-user.mjs', {
+        ...asCaller(alice),
+        httpMethod: 'DELETE',
+        pathParameters: { userId: bob.userId },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.body.error).toBe('Admin access required');
+    });
+
+    it('returns 403 when a non-admin lists users', async () => {
+      const response = await invoke('admin-esm/list-users.mjs', {
+        ...asCaller(alice),
+        httpMethod: 'GET',
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.body.error).toBe('Admin access required');
+    });
+
+    it('returns 401 when the caller is not authenticated', async () => {
+      const response = await invoke('admin-esm/cleanup-all.mjs', {
+        ...asCaller(null),
+        httpMethod: 'POST',
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { LambdaHarness, RecordedResponse } from '../../environment/lambda-harness';
+
+interface RevisionsPage {
+  revisions: { revision: number }[];
+  nextCursor: string | null;
+}
+
+const post = {
+  postId: 'post-1',
+  userId: 'alice-id',
+  content: 'Original',
+  imageUrl: '',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+const createdMs = Date.parse(post.createdAt);
+const indexKey = { PK: 'USER#alice-id', SK: `POST#${createdMs}#post-1` };
+
+describe('PostData edits and deletes', () => {
+  let lambda: LambdaHarness;
+  const start = async (responses: RecordedResponse[]) => {
+    lambda = await LambdaHarness.start({ responses });
+  };
+
+  afterEach(() => LambdaHarness.stopAll());
+
+  it('stores the previous content as the first revision and updates the index item', async () => {
+    await start([{ Items: [indexKey] }]);
+    const updated = await lambda.call<{ editedAt?: string }>('shared/post-data.mjs', 'PostData.updatePost', post, { content: 'Edited' }, 'alice-id');
+
+    const [indexQuery, transaction] = await lambda.sent();
+    expect(indexQuery.input.ExpressionAttributeValues[':from']).toBe(`POST#${createdMs - 1000}`);
+
+    const [revisionPut, metadataUpdate, indexUpdate] = transaction.input.TransactItems;
+    expect(revisionPut.Put.Item).toMatchObject({
+      PK: 'POST#post-1',
+      SK: 'REVISION#000001',
+      revision: 1,
+      content: 'Original',
+      editedBy: 'alice-id',
+    });
+    expect(metadataUpdate.Update.ConditionExpression).toContain('attribute_not_exists(revisionCount)');
+    expect(indexUpdate.Update.Key).toEqual(indexKey);
+
+    expect(updated).toMatchObject({ content: 'Edited', revisionCount: 1 });
+    expect(updated.editedAt).toBeDefined();
+  });
+
+  it('guards later edits against concurrent writers with the revision counter', async () => {
+    const edited = { ...post, revisionCount: 2, editedAt: '2024-01-02T00:00:00.000Z' };
+
+    await start([{ Items: [indexKey] }]);
+    await lambda.call('shared/post-data.mjs', 'PostData.updatePost', edited, { content: 'Third' }, 'alice-id');
+
+    const [revisionPut, metadataUpdate] = (await lambda.sent())[1].input.TransactItems;
+    expect(revisionPut.Put.Item.SK).toBe('REVISION#000003');
+    expect(revisionPut.Put.Item.createdAt).toBe(edited.editedAt);
+    expect(metadataUpdate.Update.ConditionExpression).toContain('revisionCount = :previousRevision');
+    expect(metadataUpdate.Update.ExpressionAttributeValues[':previousRevision']).toBe(2);
+  });
+
+  it('pages through the revision history, newest first', async () => {
+    lambda = await LambdaHarness.start({ table: 'memory', env: { CURSOR_SECRET: 'test-cursor-secret' } });
+    await lambda.seed([
+      { PK: 'POST#post-1', SK: 'METADATA', ...post, revisionCount: 3 },
+      { PK: 'USER#alice-id', SK: 'PROFILE', userId: 'alice-id', username: 'alice', isPrivate: false },
+      ...[1, 2, 3].map(revision => ({
+        PK: 'POST#post-1', SK: `REVISION#00000${revision}`, revision, content: `v${revision}`,
+        createdAt: post.createdAt, replacedAt: post.createdAt,
+      })),
+    ]);
+    const revisions = (queryStringParameters: Record<string, string>) => lambda.request<RevisionsPage>(
+      'posts-esm/revisions.mjs', { httpMethod: 'GET', pathParameters: { postId: 'post-1' }, queryStringParameters });
+
+    const first = await revisions({ limit: '2' });
+    const second = await revisions({ limit: '2', cursor: first.body.nextCursor! });
+    const foreign = await revisions({ cursor: 'not-a-cursor' });
+
+    expect(first.body.revisions.map(r => r.revision)).toEqual([3, 2]);
+    expect(second.body.revisions.map(r => r.revision)).toEqual([1]);
+    expect(second.body.nextCursor).toBeNull();
+    expect(foreign.statusCode).toBe(400);
+  });
+
+  it('deletes the post, its index item and every child including likers\' LIKED# items', async () => {
+    const children = [
+      { PK: 'POST#post-1', SK: 'REVISION#000001' },
+      { PK: 'POST#post-1', SK: 'COMMENT#1#c1', commentId: 'c1', userId: 'carol-id' },
+      { PK: 'POST#post-1', SK: 'LIKE#bob-id', userId: 'bob-id' },
+    ];
+
+    await start([{ Items: [indexKey] }, {}, { Items: children }]);
+    const result = await lambda.call('shared/post-data.mjs', 'PostData.deletePost', post);
+    const sent = await lambda.sent();
+
+    const transaction = sent.find(s => s.type === 'TransactWriteCommand')!;
+    const deletedKeys = transaction.input.TransactItems.filter((i: any) => i.Delete).map((i: any) => i.Delete.Key);
+    expect(deletedKeys).toEqual([{ PK: 'POST#post-1', SK: 'METADATA' }, indexKey]);
+
+    const batch = sent.find(s => s.type === 'BatchWriteCommand')!;
+    const batchKeys = batch.input.RequestItems['test-table'].map((r: any) => r.DeleteRequest.Key);
+    expect(batchKeys).toContainEqual({ PK: 'USER#bob-id', SK: 'LIKED#post-1' });
+    expect(batchKeys).toContainEqual({ PK: 'USER#carol-id', SK: 'REF#POST#post-1#COMMENT_ID#c1' });
+    expect(batchKeys).toHaveLength(5);
+
+    expect(result).toEqual({ deletedItems: 6, unprocessed: 0 });
+  });
+
+  it('retries unprocessed batch items and reports what could not be written', async () => {
+    const requests = Array.from({ length: 3 }, (_, i) => ({ DeleteRequest: { Key: { PK: `P${i}`, SK: 'S' } } }));
+    const stuck = requests[2];
+
+    await start(Array.from({ length: 5 }, () => ({ UnprocessedItems: { 'test-table': [stuck] } })));
+    const result = await lambda.call('shared/batch.mjs', 'batchWrite', requests);
+    const sent = await lambda.sent();
+
+    expect(sent).toHaveLength(5);
+    expect(sent[1].input.RequestItems['test-table']).toEqual([stuck]);
+    expect(result).toEqual({ written: 2, unprocessed: [stuck] });
+  });
+});
@@ -0,0 +1,46 @@
+import { resolve } from 'path';
+import { runEsm } from '../../environment/esm-runner';
+import { LambdaHarness } from '../../environment/lambda-harness';
+
+interface Validation {
+  isValid: boolean;
+  errors: string[];
+}
+
+const GENERATOR = resolve(__dirname, '../../../scripts/generate-schemas.mjs');
+
+describe('Shared schemas', () => {
+  afterEach(() => LambdaHarness.stopAll());
+
+  it('are what the frontends\' Zod schemas were generated from', async () => {
+    const stale = await runEsm<string[]>(`
+      const { staleFiles } = await import('${GENERATOR}');
+      console.log(JSON.stringify(staleFiles()));
+    `);
+
+    expect(stale).toEqual([]);
+  });
+
+  it('validate requests with the labels, limits and rules they declare', async () => {
+    const lambda = await LambdaHarness.start();
+    const validate = (name: string, data: object) => lambda.call<Validation>('shared/schemas.mjs', name, data);
+    const results = {
+      createProfile: await validate('validateCreateProfileRequest', { username: 'alice', email: '', displayName: 'x'.repeat(101), bio: '' }),
+      emptyUpdate: await validate('validateUpdateProfileRequest', { bio: undefined }),
+      clearAvatar: await validate('validateUpdateProfileRequest', { avatar: '' }),
+      follow: await validate('validateFollowRequest', { followerId: 'alice', followedUserId: 'alice' }),
+      upload: await validate('validateUploadUrlRequest', { fileName: 'notes.txt', fileType: 'text/plain', userId: 'alice' }),
+      events: await validate('validateGetEventsQuery', { from: '2024-02-01T00:00:00Z', to: '2024-01-01T00:00:00Z' }),
+    };
+
+    expect(results.createProfile).toEqual({
+      isValid: false,
+      errors: ['Email is required', 'Display name must be 100 characters or less'],
+    });
+    expect(results.emptyUpdate.errors).toEqual(['At least one of displayName, bio, avatar, isPrivate must be provided']);
+    expect(results.clearAvatar.isValid).toBe(true);
+    expect(results.follow.errors).toEqual(['Cannot follow yourself']);
+    expect(results.upload.errors).toEqual(['Only image files are allowed']);
+    expect(results.events.errors).toEqual(['from must not be later than to']);
+  });
+});
@@ -0,0 +1,181 @@
+import { LambdaHarness, RecordedResponse, SentCommand } from '../../environment/lambda-harness';
+
+let lambda: LambdaHarness;
+afterEach(() => LambdaHarness.stopAll());
+
+// Call SearchData against a recorded table, returning what it sent
+const searchData = async (name: string, args: unknown[], responses: RecordedResponse[] = []) => {
+  lambda = await LambdaHarness.start({ responses });
+  await lambda.call('shared/search-data.mjs', `SearchData.${name}`, ...args);
+  return { sent: await lambda.sent() };
+};
+
+const batchResponse = (items: object[]) => ({ Responses: { 'test-table': items } });
+
+const writeRequests = (sent: SentCommand[]) => sent
+  .filter(c => c.type === 'BatchWriteCommand')
+  .flatMap(c => c.input.RequestItems['test-table']);
+
+const post = {
+  postId: 'post-1',
+  userId: 'alice-id',
+  content: 'Café trip to Zürich!',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('search tokenizer', () => {
+  it('lowercases, strips accents and splits on punctuation', async () => {
+    lambda = await LambdaHarness.start();
+    const tokens = await lambda.call<string[]>('shared/search-data.mjs', 'tokenize', 'Café trip to Zürich! alice_smith a café');
+
+    expect(tokens).toEqual(['cafe', 'trip', 'to', 'zurich', 'alice', 'smith']);
+  });
+});
+
+describe('SearchData indexing', () => {
+  it('writes an entry per token prefix and records them on the document', async () => {
+    const { sent } = await searchData('indexPost', [post]);
+
+    const puts = writeRequests(sent).map((r: any) => r.PutRequest.Item);
+    expect(puts.map((item: any) => item.PK)).toEqual(expect.arrayContaining([
+      'SEARCH#post#ca', 'SEARCH#post#caf', 'SEARCH#post#cafe', 'SEARCH#post#zurich', 'SEARCH#post#to',
+    ]));
+    expect(puts[0]).toEqual({
+      PK: 'SEARCH#post#ca',
+      SK: '2024-01-01T00:00:00.000Z#post-1',
+      docId: 'post-1',
+      userId: 'alice-id',
+      searchText: ' cafe trip to zurich',
+    });
+
+    const record = sent[sent.length - 1];
+    expect(record.type).toBe('PutCommand');
+    expect(record.input.Item.PK).toBe('SEARCHDOC#post#post-1');
+    expect(record.input.Item.prefixes).toHaveLength(puts.length);
+  });
+
+  it('deletes entries for prefixes an edit removed', async () => {
+    const { sent } = await searchData('indexPost', [{ ...post, content: 'trip' }], [{
+      Item: { sortKey: '2024-01-01T00:00:00.000Z#post-1', prefixes: ['ca', 'caf', 'cafe', 'tr', 'tri', 'trip'] },
+    }]);
+
+    const deletes = writeRequests(sent).filter((r: any) => r.DeleteRequest).map((r: any) => r.DeleteRequest.Key.PK);
+    expect(deletes).toEqual(['SEARCH#post#ca', 'SEARCH#post#caf', 'SEARCH#post#cafe']);
+  });
+
+  it('removes every entry and the document record', async () => {
+    const { sent } = await searchData('removeDocument', ['post', 'post-1'], [{ Item: { sortKey: 's', prefixes: ['tr', 'tri'] } }]);
+
+    expect(writeRequests(sent)).toHaveLength(2);
+    expect(sent[sent.length - 1].type).toBe('DeleteCommand');
+    expect(sent[sent.length - 1].input.Key).toEqual({ PK: 'SEARCHDOC#post#post-1', SK: 'TOKENS' });
+  });
+});
+
+describe('SearchData.search', () => {
+  it('queries the longest term and filters on the others as word prefixes', async () => {
+    const { sent } = await searchData('search', ['profile', 'Al Smith', { limit: 10 }]);
+
+    expect(sent[0].input).toMatchObject({
+      KeyConditionExpression: 'PK = :pk',
+      FilterExpression: 'contains(searchText, :token0)',
+      ExpressionAttributeValues: { ':pk': 'SEARCH#profile#smith', ':token0': ' al' },
+      ScanIndexForward: true,
+      Limit: 10,
+    });
+  });
+
+  it('checks terms longer than the indexed prefix in full', async () => {
+    const { sent } = await searchData('search', ['post', 'internationalization']);
+
+    expect(sent[0].input.ExpressionAttributeValues).toEqual({
+      ':pk': 'SEARCH#post#internatio',
+      ':token0': ' internationalization',
+    });
+    expect(sent[0].input.ScanIndexForward).toBe(false);
+  });
+});
+
+describe('search handler', () => {
+  interface Results {
+    results: { username?: string; postId?: string }[];
+  }
+
+  const search = async (query: Record<string, string>, responses: RecordedResponse[] = [], caller?: string) => {
+    lambda = await LambdaHarness.start({ responses, env: { CURSOR_SECRET: 'test-cursor-secret' } });
+    const { statusCode, body } = await lambda.request<Results>('search-esm/search.mjs', {
+      httpMethod: 'GET',
+      queryStringParameters: query,
+      requestContext: caller ? { authorizer: { userId: caller, username: caller, role: 'user' } } : {},
+    });
+    return { status: statusCode, body, sent: await lambda.sent() };
+  };
+
+  it('rejects queries without a searchable word and unknown types', async () => {
+    const empty = await search({ q: '!' });
+    const badType = await search({ q: 'alice', type: 'comments' });
+
+    expect(empty.status).toBe(400);
+    expect(badType.status).toBe(400);
+    expect([...empty.sent, ...badType.sent]).toHaveLength(0);
+  });
+
+  it('returns matching profiles in index order', async () => {
+    const { status, body } = await search({ q: 'ali' }, [
+      { Items: [{ docId: 'alice-id' }, { docId: 'gone-id' }, { docId: 'alina-id' }] },
+      batchResponse([
+        { userId: 'alina-id', username: 'alina', displayName: 'Alina' },
+        { userId: 'alice-id', username: 'alice', displayName: 'Alice', isPrivate: true },
+      ]),
+    ]);
+
+    expect(status).toBe(200);
+    expect(body.results.map(p => p.username)).toEqual(['alice', 'alina']);
+    expect(body).toMatchObject({ query: 'ali', type: 'profiles', count: 2, nextCursor: null });
+  });
+
+  it('leaves out posts by private authors the caller does not follow', async () => {
+    const { status, body } = await search({ q: 'lunch', type: 'posts' }, [
+      { Items: [{ docId: 'post-1' }, { docId: 'post-2' }] },
+      batchResponse([
+        { postId: 'post-1', userId: 'alice-id', username: 'alice', displayName: 'Alice', content: 'lunch', createdAt: '2024-01-01T00:00:00.000Z' },
+        { postId: 'post-2', userId: 'bob-id', username: 'bob', displayName: 'Bob', content: 'lunch?', createdAt: '2024-01-01T00:00:00.000Z' },
+      ]),
+      batchResponse([
+        { userId: 'alice-id', username: 'alice' },
+        { userId: 'bob-id', username: 'bob', isPrivate: true },
+      ]),
+    ]);
+
+    expect(status).toBe(200);
+    expect(body.results.map(p => p.postId)).toEqual(['post-1']);
+  });
+});
+
+describe('search indexer', () => {
+  const index = async (detailType: string, data: object, responses: RecordedResponse[]) => {
+    lambda = await LambdaHarness.start({ responses });
+    await lambda.invoke('events-esm/search-indexer.mjs', await lambda.busEvent(detailType, data));
+    return { sent: await lambda.sent() };
+  };
+
+  it('removes a deleted post from the index', async () => {
+    const { sent } = await index('Post Deleted', { postId: 'post-1', userId: 'alice-id' }, [
+      {}, { Item: { sortKey: 's', prefixes: ['lu'] } },
+    ]);
+
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'GetCommand', 'BatchWriteCommand', 'DeleteCommand']);
+    expect(sent[2].input.RequestItems['test-table']).toEqual([
+      { DeleteRequest: { Key: { PK: 'SEARCH#post#lu', SK: 's' } } },
+    ]);
+  });
+
+  it('removes a deleted profile from the index', async () => {
+    const { sent } = await index('Profile Deleted', { userId: 'alice-id', username: 'alice' }, [
+      {}, { Item: { sortKey: 'alice', prefixes: ['al'] } },
+    ]);
+
+    expect(sent.map(c => c.type)).toEqual(['GetCommand', 'GetCommand', 'BatchWriteCommand', 'DeleteCommand']);
+    expect(sent[3].input.Key).toEqual({ PK: 'SEARCHDOC#profile#alice-id', SK: 'TOKENS' });
+  });
+});
@@ -0,0 +1,130 @@
+import { LambdaHarness } from '../../environment/lambda-harness';
+import { replayStreamRecords } from '../../environment/stream-harness';
+import { STREAM_CONFIG } from '../../../lib/constants/stream-config';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+// Captured from a deployed table: a post, its feed copy, a follow, a like, a comment, a rename and a delete
+const recorded = JSON.parse(readFileSync(resolve(__dirname, '../../fixtures/stream-records.json'), 'utf8'));
+
+const post = {
+  PK: 'POST#post-1', SK: 'METADATA', postId: 'post-1', userId: 'user-alice', username: 'alice', content: 'Hello @bob',
+};
+
+let lambda: LambdaHarness;
+afterEach(() => LambdaHarness.stopAll());
+
+describe('stream processor', () => {
+  it('publishes the domain events in a recorded stream and skips other changes', async () => {
+    const { published, batchItemFailures } = await replayStreamRecords(recorded.Records, { items: [post] });
+
+    expect(published.map(event => event.detailType)).toEqual([
+      'Post Created',
+      'User Followed',
+      'Post Liked',
+      'Comment Created',
+      'Profile Updated',
+      'Post Deleted',
+    ]);
+    expect(published[0]).toEqual({
+      source: 'social-media.posts',
+      detailType: 'Post Created',
+      detail: {
+        // Stable across retries of the stream record
+        eventId: recorded.Records[0].eventID,
+        correlationId: recorded.Records[0].eventID,
+        schemaVersion: 1,
+        occurredAt: '2024-01-15T10:00:00.000Z',
+        data: expect.objectContaining({ postId: 'post-1', userId: 'user-alice', content: 'Hello @bob' }),
+      },
+    });
+    expect(published[1].detail.data).toMatchObject({ followerId: 'user-bob', followedUserId: 'user-alice' });
+    expect(published[2].detail.data).toMatchObject({
+      userId: 'user-bob', postId: 'post-1', postAuthorId: 'user-alice', postAuthorUsername: 'alice', postContent: 'Hello @bob',
+    });
+    expect(published[3].detail.data).toMatchObject({ commentId: 'comment-1', postAuthorId: 'user-alice', content: 'Hi!' });
+    expect(published[4].detail.data).toMatchObject({
+      userId: 'user-alice',
+      updates: { displayName: 'Alice A.' },
+      previousProfile: { displayName: 'Alice', bio: '', avatar: '', isPrivate: false },
+    });
+    expect(published[5].detail.data).toMatchObject({ postId: 'post-1', userId: 'user-alice' });
+    expect(batchItemFailures).toEqual([]);
+  });
+
+  it('retries from the first record whose event EventBridge rejected', async () => {
+    const { published, batchItemFailures } = await replayStreamRecords(recorded.Records, {
+      items: [post],
+      rejectDetailTypes: ['User Followed'],
+    });
+
+    const followRecord = recorded.Records.find((record: any) => record.dynamodb.Keys.SK.S.startsWith('FOLLOWS#'));
+    expect(batchItemFailures).toEqual([followRecord!.dynamodb.SequenceNumber]);
+    expect(published.map(event => event.detailType)).not.toContain('User Followed');
+  });
+
+  it('filters the event source on exactly the items that carry events', async () => {
+    lambda = await LambdaHarness.start();
+    const sortKeys = await lambda.value<string[]>('shared/stream-events.mjs', 'EVENT_SORT_KEYS');
+
+    expect(sortKeys).toEqual(STREAM_CONFIG.EVENT_SORT_KEYS);
+  });
+});
+
+describe('stream events from shared layer writes', () => {
+  beforeEach(async () => {
+    lambda = await LambdaHarness.start({ table: 'memory' });
+    await lambda.seed([
+      { PK: 'USER#alice', SK: 'PROFILE', userId: 'alice', username: 'alice', displayName: 'Alice', bio: '', followersCount: 0 },
+      { PK: 'USER#bob', SK: 'PROFILE', userId: 'bob', username: 'bob', displayName: 'Bob', bio: '', followingCount: 0 },
+    ]);
+  });
+
+  const shared = <T>(name: string, ...args: unknown[]) => lambda.call<T>('shared/index.mjs', name, ...args);
+  const replay = async () => {
+    const response = await lambda.invoke<{ batchItemFailures: object[] }>(
+      'events-esm/stream-processor.mjs', { Records: await lambda.takeStreamRecords() });
+    return { events: (await lambda.takePublished()).map(event => event.detailType), failures: response.batchItemFailures };
+  };
+
+  it('publishes one event per domain change made in a transaction', async () => {
+    const { postId } = await shared<{ postId: string }>('PostData.createPost', {
+      userId: 'alice', content: 'First post', userProfile: { username: 'alice', displayName: 'Alice' },
+    });
+    const created = await replay();
+
+    await shared('FollowData.followUser', 'bob', 'alice');
+    const followed = await replay();
+
+    const stored = await shared('PostData.getPostById', postId);
+    await shared('PostData.updatePost', stored, { content: 'First post, edited' }, 'alice');
+    const edited = await replay();
+
+    await shared('FollowData.unfollowUser', 'bob', 'alice');
+    const unfollowed = await replay();
+
+    // The mirror FOLLOWER# item, the post index item and the counters are not events
+    expect(created).toEqual({ events: ['Post Created'], failures: [] });
+    expect(followed).toEqual({ events: ['User Followed'], failures: [] });
+    expect(edited.events).toEqual(['Post Updated']);
+    expect(unfollowed.events).toEqual(['User Unfollowed']);
+  });
+
+  it('publishes profile edits but not counter changes', async () => {
+    await shared('FollowData.followUser', 'bob', 'alice');
+    const followed = await replay();
+
+    await lambda.send('UpdateCommand', {
+      TableName: 'test-table',
+      Key: { PK: 'USER#alice', SK: 'PROFILE' },
+      UpdateExpression: 'SET bio = :bio',
+      ExpressionAttributeValues: { ':bio': 'Hello' },
+    });
+    const updated = await replay();
+
+    // Following bumped both profiles' counters without a Profile Updated
+    expect(await lambda.item({ PK: 'USER#alice', SK: 'PROFILE' })).toMatchObject({ followersCount: 1 });
+    expect(followed.events).toEqual(['User Followed']);
+    expect(updated.events).toEqual(['Profile Updated']);
+  });
+});
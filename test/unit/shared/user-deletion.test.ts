@@ -0,0 +1,276 @@
+import { ApiResponse, Caller, LambdaHarness, PublishedEvent, TableItem, delivered } from '../../environment/lambda-harness';
+import { LocalAuthIssuer } from '../../environment/local-auth-issuer';
+
+const admin = { userId: 'admin-id', username: 'admin', role: 'admin' };
+
+interface DeletionBody {
+  message?: string;
+  error?: string;
+  deletion?: { runId: string; status: string; phase: string; progress: Record<string, number> };
+}
+
+interface Counters {
+  followersCount?: number;
+  followingCount?: number;
+}
+
+const HANDLERS = {
+  delete: 'admin-esm/delete-user.mjs',
+  get: 'admin-esm/get-user-deletion.mjs',
+};
+
+const issuer = new LocalAuthIssuer();
+
+let lambda: LambdaHarness;
+let alicePosts: string[];
+let bobPost: string;
+let carolComment: { commentId: string };
+
+const shared = <T>(name: string, ...args: unknown[]) => lambda.call<T>('shared/index.mjs', name, ...args);
+
+const request = (handler: keyof typeof HANDLERS, method: string, userId: string, caller: Caller = admin):
+  Promise<ApiResponse<DeletionBody>> => lambda.request(HANDLERS[handler], {
+  httpMethod: method,
+  requestContext: { authorizer: caller },
+  pathParameters: { userId },
+});
+
+// Deliver a published event to the user deleter, which runs out of time after `steps` pages
+const runDeleter = (event: PublishedEvent, steps?: number) =>
+  lambda.invoke('events-esm/user-deleter.mjs', delivered(event), { pages: steps });
+
+// Whether the API's authorizer lets a user's token through, or the error it rejected it with
+const authorize = (userId: string) => lambda.invoke('auth-esm/authorizer.mjs', {
+  type: 'TOKEN',
+  authorizationToken: `Bearer ${issuer.issueToken({ userId })}`,
+  methodArn: 'arn:aws:execute-api:us-east-1:123456789012:abc123/prod/POST/posts',
+}).then(() => 'Allow', (error: Error) => error.message);
+
+const deletion = () => lambda.item<TableItem & NonNullable<DeletionBody['deletion']>>({ PK: 'JOB#user-deletion#alice', SK: 'STATE' });
+
+beforeAll(() => issuer.start());
+afterAll(() => issuer.stop());
+
+/**
+ * An in-memory table and bucket, with alice signed up, posting, liking,
+ * commenting, following and blocked
+ */
+beforeEach(async () => {
+  lambda = await LambdaHarness.start({
+    table: 'memory',
+    bucket: {
+      objects: ['users/alice/posts/1.jpg', 'users/alice/posts/2.jpg', 'users/alice/avatar.png', 'users/bob/posts/1.jpg', 'users/alice-2/posts/1.jpg'],
+      pageSize: 2,
+    },
+    env: { IMAGES_BUCKET_NAME: 'images-bucket', ...issuer.getVerifierEnvironment() },
+  });
+
+  const profile = (userId: string, extra: object = {}) =>
+    ({ userId, username: userId, email: `${userId}@example.com`, displayName: userId, passwordHash: 'hash', ...extra });
+  for (const userId of ['alice', 'bob', 'carol', 'dave', 'erin']) {
+    await shared('AuthData.registerUser', profile(userId, { isPrivate: userId === 'dave' }));
+  }
+  const author = (userId: string) => ({ username: userId, displayName: userId });
+  const createPost = async (userId: string, content: string, imageUrl?: string) =>
+    (await shared<{ postId: string }>('PostData.createPost', { userId, content, ...(imageUrl && { imageUrl }), userProfile: author(userId) })).postId;
+  const comment = (postId: string, postAuthorId: string, userId: string, content: string, parentComment?: object) =>
+    shared<{ commentId: string }>('CommentData.createComment', {
+      postId, postAuthorId, userId, content, userProfile: author(userId), ...(parentComment && { parentComment }),
+    });
+
+  // Alice's own content, and what others did to it
+  alicePosts = [];
+  for (const content of ['First', 'Second', 'Third']) {
+    alicePosts.push(await createPost('alice', content, `https://images/${content}`));
+  }
+  await shared('FollowData.followUser', 'carol', 'alice');
+  await shared('FollowData.followUser', 'bob', 'alice');
+  const firstPost = (await shared<{ postId: string; createdAt: string }>('PostData.getPostById', alicePosts[0]));
+  await lambda.seed([
+    { PK: 'FEED#carol', SK: `POST#${Date.parse(firstPost.createdAt)}#${firstPost.postId}`, postId: firstPost.postId, userId: 'alice' },
+  ]);
+  await shared('LikeData.likePost', 'bob', alicePosts[0]);
+  await comment(alicePosts[0], 'alice', 'carol', 'Nice');
+
+  // What alice did to other people's content and profiles
+  bobPost = await createPost('bob', 'Bob here');
+  await shared('LikeData.likePost', 'alice', bobPost);
+  await comment(bobPost, 'bob', 'alice', 'Hi bob');
+  carolComment = await comment(bobPost, 'bob', 'carol', 'Hi all');
+  const parentComment = await shared<object>('CommentData.getComment', bobPost, carolComment.commentId);
+  await comment(bobPost, 'bob', 'alice', 'Hi carol', parentComment);
+  await shared('FollowData.followUser', 'alice', 'bob');
+  await shared('FollowData.createFollowRequest', 'alice', 'dave');
+  await shared('FollowData.muteUser', 'alice', 'carol');
+  await shared('FollowData.muteUser', 'carol', 'alice');
+  await shared('FollowData.blockUser', 'erin', 'alice');
+  await lambda.seed([
+    { PK: 'NOTIF#alice', SK: 'NOTIF#n-1', notificationId: 'n-1' },
+    { PK: 'NOTIF#alice', SK: 'UNREAD', count: 1 },
+    { PK: 'FEED#alice', SK: `POST#1#${bobPost}`, postId: bobPost, userId: 'bob' },
+    { PK: 'JOB#author-sync#alice', SK: 'STATE', status: 'completed' },
+  ]);
+});
+afterEach(() => LambdaHarness.stopAll());
+
+describe('user deletion', () => {
+  it('removes everything the user owns and fixes the counters it touched', async () => {
+    const started = await request('delete', 'DELETE', 'alice');
+    const [requested] = await lambda.takePublished();
+    await runDeleter(requested);
+    const progress = await request('get', 'GET', 'alice');
+
+    const counters = async (userId: string) => {
+      const { followersCount = 0, followingCount = 0 } = (await lambda.item<Counters>({ PK: `USER#${userId}`, SK: 'PROFILE' }))!;
+      return { followersCount, followingCount };
+    };
+    const items = await lambda.items();
+    const { ScanCommand: scans = 0 } = await lambda.counts();
+
+    expect(started).toMatchObject({
+      statusCode: 202,
+      body: { message: 'User deletion started', deletion: { userId: 'alice', status: 'running', phase: 'lock' } },
+    });
+    expect(requested).toMatchObject({
+      source: 'social-media.admin',
+      detailType: 'User Deletion Requested',
+      detail: { data: { userId: 'alice', requestedBy: 'admin-id' } },
+    });
+    expect(progress).toMatchObject({
+      statusCode: 200,
+      body: {
+        deletion: {
+          status: 'completed',
+          phase: 'done',
+          progress: { posts: 3, likes: 1, follows: 3, comments: 2, references: 3, objects: 3 },
+        },
+      },
+    });
+
+    // Items still mentioning alice, anywhere in the table, found without a scan
+    expect(scans).toBe(0);
+    expect(items.filter(item => JSON.stringify(item).includes('alice') && !item.PK.startsWith('JOB#user-deletion#'))).toEqual([]);
+    expect({ bob: await counters('bob'), carol: await counters('carol') }).toEqual({
+      bob: { followersCount: 0, followingCount: 0 },
+      carol: { followersCount: 0, followingCount: 0 },
+    });
+    expect(await lambda.item({ PK: `POST#${bobPost}`, SK: 'METADATA' })).toMatchObject({ likesCount: 0, commentsCount: 1 });
+    expect(items.some(item => item.commentId === carolComment.commentId)).toBe(true);
+    expect(await lambda.objects()).toEqual(['users/bob/posts/1.jpg', 'users/alice-2/posts/1.jpg']);
+  });
+
+  it('hands over to a new invocation and resumes where it stopped', async () => {
+    await request('delete', 'DELETE', 'alice');
+    const [requested] = await lambda.takePublished();
+
+    // Each invocation has time for one page, then hands over
+    await runDeleter(requested, 1);
+    const handovers: PublishedEvent[] = [];
+    for (let next = await lambda.takePublished(); next.length > 0; next = await lambda.takePublished()) {
+      handovers.push(...next);
+      for (const event of next) await runDeleter(event, 1);
+    }
+
+    expect(handovers.length).toBeGreaterThan(1);
+    expect([...new Set(handovers.map(event => event.detailType))]).toEqual(['User Deletion Continued']);
+    expect(handovers.every(event => event.detail.correlationId === requested.detail.eventId)).toBe(true);
+    expect(await deletion()).toMatchObject({ status: 'completed', phase: 'done', progress: { posts: 3, follows: 3 } });
+    expect(await lambda.item({ PK: 'USER#alice', SK: 'PROFILE' })).toBeUndefined();
+  });
+
+  it('locks the user out before deleting anything, so nothing they write is left behind', async () => {
+    const before = await authorize('alice');
+    await request('delete', 'DELETE', 'alice');
+    const [requested] = await lambda.takePublished();
+    const locked = { alice: await authorize('alice'), bob: await authorize('bob') };
+
+    // Partway through, bob tries to follow alice; a follow that read her
+    // profile before the lock is refused by the transaction instead
+    await runDeleter(requested, 2);
+    expect((await deletion())!.phase).toBe('likes');
+    const midway = await authorize('alice');
+    const follow = await lambda.request<{ error: string }>('social-esm/follow.mjs', {
+      httpMethod: 'POST',
+      requestContext: { authorizer: { userId: 'bob', username: 'bob', role: 'user' } },
+      body: JSON.stringify({ followedUserId: 'alice' }),
+    });
+    const racing = await shared('FollowData.followUser', 'erin', 'alice').catch((error: Error) => error.name);
+
+    for (let next = await lambda.takePublished(); next.length > 0; next = await lambda.takePublished()) {
+      for (const event of next) await runDeleter(event);
+    }
+
+    expect(before).toBe('Allow');
+    expect(locked).toEqual({ alice: 'Unauthorized', bob: 'Allow' });
+    expect(midway).toBe('Unauthorized');
+    expect(follow.statusCode).toBe(404);
+    expect(follow.body).toEqual({ error: 'User not found' });
+    expect(racing).toBe('TransactionCanceledException');
+    expect(await lambda.item({ PK: 'USER#erin', SK: 'FOLLOWS#alice' })).toBeUndefined();
+    expect(await lambda.item({ PK: 'USER#alice', SK: 'CREDENTIALS' })).toBeUndefined();
+    expect((await lambda.items()).filter(item => item.PK === 'USER#alice' || item.userId === 'alice')).toEqual([]);
+  });
+
+  it('lets a running deletion finish, ignores superseded runs and rejects unknown users', async () => {
+    const first = await request('delete', 'DELETE', 'alice');
+    const again = await request('delete', 'DELETE', 'alice');
+    const [requested] = await lambda.takePublished();
+
+    // A deletion that stopped making progress is started over with a new run
+    await lambda.seed([{ ...(await deletion())!, updatedAt: '2024-01-01T00:00:00.000Z' }]);
+    const restarted = await request('delete', 'DELETE', 'alice');
+    await runDeleter(requested);
+
+    expect([first, again, restarted].map(response => response.statusCode)).toEqual([202, 202, 202]);
+    expect(again.body.message).toBe('User deletion already in progress');
+    expect((await deletion())!.phase).toBe('lock');
+    expect(await lambda.item({ PK: 'USER#alice', SK: 'PROFILE' })).toBeDefined();
+    const unknown = await request('delete', 'DELETE', 'nobody');
+    expect(unknown.statusCode).toBe(404);
+    expect(unknown.body).toEqual({ error: 'User not found' });
+    expect((await request('get', 'GET', 'bob')).statusCode).toBe(404);
+    expect((await request('delete', 'DELETE', 'bob', { userId: 'carol', username: 'carol', role: 'user' })).statusCode).toBe(403);
+    expect(await lambda.published()).toHaveLength(1);
+  });
+});
+
+describe('user deletion events EventBridge rejects', () => {
+  const startRejecting = async (detailType: string) => {
+    lambda = await LambdaHarness.start({
+      table: 'memory',
+      rejectDetailTypes: [detailType],
+      env: issuer.getVerifierEnvironment(),
+    });
+    await shared('AuthData.registerUser', { userId: 'alice', username: 'alice', email: 'alice@example.com', displayName: 'alice', passwordHash: 'hash' });
+  };
+
+  it('fails a deletion nothing would pick up, so asking again starts it over', async () => {
+    await startRejecting('User Deletion Requested');
+
+    const first = await request('delete', 'DELETE', 'alice');
+    const failed = (await deletion())!;
+    const again = await request('delete', 'DELETE', 'alice');
+
+    expect(first.statusCode).toBe(500);
+    expect(failed.status).toBe('failed');
+    expect(await authorize('alice')).toBe('Unauthorized');
+    expect(again.statusCode).toBe(500);
+    expect((await deletion())!.runId).not.toBe(failed.runId);
+    expect(await lambda.published()).toEqual([]);
+  });
+
+  it('fails the invocation whose handover is rejected, so its retry resumes the run', async () => {
+    await startRejecting('User Deletion Continued');
+    await request('delete', 'DELETE', 'alice');
+    const [requested] = await lambda.takePublished();
+
+    const handover = await runDeleter(requested, 1).then(() => null, (error: Error) => error.name);
+    const paused = (await deletion())!;
+    await runDeleter(requested);
+
+    expect(handover).toBe('EventsRejectedError');
+    expect(paused).toMatchObject({ status: 'running', phase: 'posts' });
+    expect(await deletion()).toMatchObject({ runId: paused.runId, status: 'completed' });
+    expect(await lambda.item({ PK: 'USER#alice', SK: 'PROFILE' })).toBeUndefined();
+  });
+});
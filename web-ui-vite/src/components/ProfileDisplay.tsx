@@ -89,7 +89,6 @@ export const ProfileDisplay: React.FC<ProfileDisplayProps> = ({
     return (
       <div className="profile-display editing">
         <ProfileForm
-          mode="edit"
           initialData={{
             username: profile.username,
             displayName: profile.displayName,
@@ -1,16 +1,15 @@
 /**
- * Profile creation and editing form component
+ * Profile editing form component
  *
  * Functional React component using modern patterns and Zod validation.
  * Follows CLAUDE.md principles for form state management and validation.
  */
 
 import React, { useState } from 'react';
-import { type CreateProfileRequest, type UpdateProfileRequest, validateCreateRequest, validateUpdateRequest } from '../schemas/shared-schemas';
+import { type CreateProfileRequest, type UpdateProfileRequest, validateUpdateProfileRequest } from '../schemas/shared-schemas';
 import { profileApi, handleApiError } from '../services/api-client';
 
 interface ProfileFormProps {
-  mode: 'create' | 'edit';
   initialData?: Partial<CreateProfileRequest>;
   onSuccess?: (profile: any) => void;
   onCancel?: () => void;
@@ -18,7 +17,6 @@ interface ProfileFormProps {
 }
 
 export const ProfileForm: React.FC<ProfileFormProps> = ({
-  mode,
   initialData = {},
   onSuccess,
   onCancel,
@@ -55,11 +53,7 @@ export const ProfileForm: React.FC<ProfileFormProps> = ({
 
   const validateForm = (): boolean => {
     try {
-      if (mode === 'create') {
-        validateCreateRequest(formData);
-      } else {
-        validateUpdateRequest(formData);
-      }
+      validateUpdateProfileRequest(formData);
       setErrors({});
       return true;
     } catch (error: any) {
@@ -87,9 +81,7 @@ export const ProfileForm: React.FC<ProfileFormProps> = ({
 
     try {
       let result;
-      if (mode === 'create') {
-        result = await profileApi.create(formData as CreateProfileRequest);
-      } else if (userId) {
+      if (userId) {
         result = await profileApi.update(userId, formData as UpdateProfileRequest);
       }
 
@@ -105,7 +97,7 @@ export const ProfileForm: React.FC<ProfileFormProps> = ({
 
   return (
     <form onSubmit={handleSubmit} className="profile-form">
-      <h2>{mode === 'create' ? 'Create Profile' : 'Edit Profile'}</h2>
+      <h2>Edit Profile</h2>
 
       {errors.submit && (
         <div className="error-banner" role="alert">
@@ -115,7 +107,7 @@ export const ProfileForm: React.FC<ProfileFormProps> = ({
 
       <div className="form-group">
         <label htmlFor="username">
-          Username {mode === 'create' && <span className="required">*</span>}
+          Username
         </label>
         <input
           id="username"
@@ -133,7 +125,7 @@ export const ProfileForm: React.FC<ProfileFormProps> = ({
 
       <div className="form-group">
         <label htmlFor="email">
-          Email {mode === 'create' && <span className="required">*</span>}
+          Email
         </label>
         <input
           id="email"
@@ -151,7 +143,7 @@ export const ProfileForm: React.FC<ProfileFormProps> = ({
 
       <div className="form-group">
         <label htmlFor="displayName">
-          Display Name {mode === 'create' && <span className="required">*</span>}
+          Display Name
         </label>
         <input
           id="displayName"
@@ -209,7 +201,7 @@ export const ProfileForm: React.FC<ProfileFormProps> = ({
           disabled={isSubmitting}
           className="submit-button"
         >
-          {isSubmitting ? 'Saving...' : (mode === 'create' ? 'Create Profile' : 'Update Profile')}
+          {isSubmitting ? 'Saving...' : 'Update Profile'}
         </button>
 
         {onCancel && (
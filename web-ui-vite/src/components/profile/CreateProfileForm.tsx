@@ -8,7 +8,7 @@
 import React, { useState } from 'react';
 import { useCreateProfileForm } from '../../hooks/useCreateProfileForm';
 import { FormField } from '../forms/FormField';
-import { profileApi } from '../../services/api-client';
+import { authApi } from '../../services/api-client';
 
 /**
  * CreateProfileForm component
@@ -36,6 +36,7 @@ export const CreateProfileForm: React.FC = () => {
         username: formData.username,
         email: formData.email,
         displayName: formData.displayName,
+        password: formData.password,
       };
 
       // Only include optional fields if they have non-empty values
@@ -46,7 +47,7 @@ export const CreateProfileForm: React.FC = () => {
         requestData.avatar = formData.avatar;
       }
 
-      const profile = await profileApi.create(requestData);
+      const { profile } = await authApi.register(requestData);
       console.log('Profile created successfully:', profile);
       setIsSuccess(true);
       resetForm();
@@ -114,6 +115,17 @@ export const CreateProfileForm: React.FC = () => {
         placeholder="How others will see your name"
       />
 
+      <FormField
+        id="password"
+        label="Password"
+        type="password"
+        value={formData.password}
+        onChange={(value) => updateField('password', value)}
+        error={errors.password}
+        required
+        placeholder="At least 8 characters"
+      />
+
       <div className="form-actions">
         <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
           {isSubmitting ? 'Creating Profile...' : 'Create Profile'}
@@ -2,11 +2,12 @@
  * Form hook for create profile functionality
  *
  * Manages form state, validation, and submission using functional patterns
- * and Zod validation following CLAUDE.md principles.
+ * and Zod validation following CLAUDE.md principles. Profiles are created by
+ * registering, so the form also takes a password.
  */
 
 import { useState } from 'react';
-import { CreateProfileRequestSchema } from '../schemas/shared-schemas';
+import { RegisterRequestSchema } from '../schemas/shared-schemas';
 import { ZodError } from 'zod';
 
 /**
@@ -18,6 +19,7 @@ interface FormState {
   displayName: string;
   bio: string;
   avatar: string;
+  password: string;
 }
 
 /**
@@ -29,6 +31,7 @@ interface ValidationErrors {
   displayName?: string;
   bio?: string;
   avatar?: string;
+  password?: string;
 }
 
 /**
@@ -52,6 +55,7 @@ const INITIAL_STATE: FormState = {
   displayName: '',
   bio: '',
   avatar: '',
+  password: '',
 };
 
 /**
@@ -86,7 +90,7 @@ export const useCreateProfileForm = (): UseCreateProfileFormReturn => {
    */
   const validateField = (field: keyof FormState): void => {
     try {
-      CreateProfileRequestSchema.pick({ [field]: true }).parse(formData);
+      RegisterRequestSchema.pick({ [field]: true }).parse(formData);
       setErrors(prev => ({
         ...prev,
         [field]: undefined,
@@ -109,7 +113,7 @@ export const useCreateProfileForm = (): UseCreateProfileFormReturn => {
    */
   const validateForm = (): boolean => {
     try {
-      CreateProfileRequestSchema.parse(formData);
+      RegisterRequestSchema.parse(formData);
       setErrors({});
       return true;
     } catch (error) {
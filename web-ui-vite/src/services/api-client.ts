@@ -7,30 +7,60 @@
 
 import ky, { type KyInstance } from 'ky';
 import { ENV } from '../config/environment';
+import { buildEndpoint } from '../config/endpoints';
 import {
   type ProfileResponse,
-  type CreateProfileRequest,
+  type RegisterRequest,
+  type AuthTokenResponse,
   type UpdateProfileRequest,
   type CreatePostRequest,
   type PostResponse,
+  type GetUserPostsResponse,
+  type PaginationQuery,
   type GetFeedResponse,
-  type CreateFeedItemsRequest,
+  type FeedMode,
   type LikePostRequest,
   type LikeStatusResponse,
   type LikeActionResponse,
   type FollowRequest,
   type FollowStatusResponse,
   type FollowActionResponse,
+  type GetFollowersResponse,
+  type GetFollowingResponse,
+  type RelationshipResponse,
+  type GetFollowRequestsResponse,
+  type FollowRequestDecisionResponse,
+  type BlockActionResponse,
+  type GetBlockListResponse,
+  type GetNotificationsResponse,
+  type MarkNotificationsReadResponse,
+  type ProfileSearchResponse,
+  type PostSearchResponse,
   type UploadUrlRequest,
   type UploadUrlResponse,
-  validateApiError,
+  validateErrorResponse,
+  validateAuthTokenResponse,
   validateProfileResponse,
   validatePostResponse,
+  validateGetUserPostsResponse,
   validateGetFeedResponse,
   validateLikeStatusResponse,
   validateLikeActionResponse,
   validateFollowStatusResponse,
   validateFollowActionResponse,
+  validateGetFollowersResponse,
+  validateGetFollowingResponse,
+  validateRelationshipResponse,
+  validateGetFollowRequestsResponse,
+  validateFollowRequestDecisionResponse,
+  validateBlockActionResponse,
+  validateGetBlockListResponse,
+  validateGetNotificationsResponse,
+  validateMarkNotificationsReadRequest,
+  validateMarkNotificationsReadResponse,
+  validateSearchQuery,
+  validateProfileSearchResponse,
+  validatePostSearchResponse,
   validateUploadUrlResponse
 } from '../schemas/shared-schemas';
 
@@ -61,7 +91,7 @@ const createApiClient = (): KyInstance => {
           if (response && response.body) {
             try {
               const errorData = await response.json();
-              const validatedError = validateApiError(errorData);
+              const validatedError = validateErrorResponse(errorData);
               error.message = validatedError.error;
             } catch {
               // If we can't parse the error, use the original message
@@ -87,31 +117,45 @@ const makeRequest = async <T>(
   endpoint: string,
   options?: { json?: unknown; searchParams?: Record<string, string> }
 ): Promise<T> => {
-  const response = await apiClient[method](endpoint, options);
+  // ky joins the endpoint onto prefixUrl, which needs it without the leading slash
+  const response = await apiClient[method](endpoint.replace(/^\//, ''), options);
   return await response.json<T>();
 };
 
 /**
- * Profile API endpoints using functional composition
+ * Convert pagination options to query string parameters
  */
-export const profileApi = {
+const toSearchParams = ({ limit, cursor }: PaginationQuery = {}): Record<string, string> => ({
+  ...(limit !== undefined && { limit: String(limit) }),
+  ...(cursor && { cursor }),
+});
+
+/**
+ * Auth API endpoints using shared schemas
+ */
+export const authApi = {
   /**
-   * Create a new profile
-   * @param profileData - Profile creation data
-   * @returns Promise resolving to created profile
+   * Register a user; the profile is created with the account
+   * @param registration - Profile fields and password
+   * @returns Promise resolving to an access token and the created profile
    */
-  create: async (profileData: CreateProfileRequest): Promise<ProfileResponse> => {
-    const response = await makeRequest<ProfileResponse>('post', 'profiles', { json: profileData });
-    return validateProfileResponse(response);
+  register: async (registration: RegisterRequest): Promise<AuthTokenResponse> => {
+    const response = await makeRequest<AuthTokenResponse>('post', buildEndpoint('REGISTER'), { json: registration });
+    return validateAuthTokenResponse(response);
   },
+};
 
+/**
+ * Profile API endpoints using functional composition
+ */
+export const profileApi = {
   /**
    * Get profile by user ID
    * @param userId - User identifier
    * @returns Promise resolving to profile data
    */
   getById: async (userId: string): Promise<ProfileResponse> => {
-    const response = await makeRequest<ProfileResponse>('get', `profiles/${userId}`);
+    const response = await makeRequest<ProfileResponse>('get', buildEndpoint('GET_PROFILE', { userId }));
     return validateProfileResponse(response);
   },
 
@@ -122,7 +166,7 @@ export const profileApi = {
    * @returns Promise resolving to updated profile
    */
   update: async (userId: string, updates: UpdateProfileRequest): Promise<ProfileResponse> => {
-    const response = await makeRequest<ProfileResponse>('put', `profiles/${userId}`, { json: updates });
+    const response = await makeRequest<ProfileResponse>('put', buildEndpoint('UPDATE_PROFILE', { userId }), { json: updates });
     return validateProfileResponse(response);
   },
 };
@@ -137,18 +181,19 @@ export const postsApi = {
    * @returns Promise resolving to created post
    */
   create: async (postData: CreatePostRequest): Promise<PostResponse> => {
-    const response = await makeRequest<PostResponse>('post', 'posts', { json: postData });
+    const response = await makeRequest<PostResponse>('post', buildEndpoint('CREATE_POST'), { json: postData });
     return validatePostResponse(response);
   },
 
   /**
-   * Get posts by user ID
+   * Get one page of posts by user ID
    * @param userId - User identifier
-   * @returns Promise resolving to user posts
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to user posts and the next cursor
    */
-  getUserPosts: async (userId: string): Promise<PostResponse[]> => {
-    const response = await makeRequest<PostResponse[]>('get', `posts/user/${userId}`);
-    return response.map(validatePostResponse);
+  getUserPosts: async (userId: string, page?: PaginationQuery): Promise<GetUserPostsResponse> => {
+    const response = await makeRequest<GetUserPostsResponse>('get', buildEndpoint('GET_USER_POSTS', { userId }), { searchParams: toSearchParams(page) });
+    return validateGetUserPostsResponse(response);
   },
 };
 
@@ -157,23 +202,18 @@ export const postsApi = {
  */
 export const feedApi = {
   /**
-   * Get user's feed
+   * Get one page of a user's feed
    * @param userId - User identifier
-   * @returns Promise resolving to user's feed
+   * @param page - Page size and the nextCursor from the previous page
+   * @param mode - Newest first, or ranked by recency, author affinity and engagement
+   * @returns Promise resolving to user's feed and the next cursor
    */
-  getUserFeed: async (userId: string): Promise<GetFeedResponse> => {
-    const response = await makeRequest<GetFeedResponse>('get', `feed/${userId}`);
+  getUserFeed: async (userId: string, page?: PaginationQuery, mode: FeedMode = 'chronological'): Promise<GetFeedResponse> => {
+    const response = await makeRequest<GetFeedResponse>('get', buildEndpoint('GET_FEED', { userId }), {
+      searchParams: { ...toSearchParams(page), ...(mode !== 'chronological' && { mode }) },
+    });
     return validateGetFeedResponse(response);
   },
-
-  /**
-   * Create feed items (typically used by system processes)
-   * @param feedItemsData - Feed items to create
-   * @returns Promise resolving to success
-   */
-  createFeedItems: async (feedItemsData: CreateFeedItemsRequest): Promise<void> => {
-    await makeRequest<void>('post', 'feed/items', { json: feedItemsData });
-  },
 };
 
 /**
@@ -186,7 +226,7 @@ export const likesApi = {
    * @returns Promise resolving to like action result
    */
   likePost: async (likeData: LikePostRequest): Promise<LikeActionResponse> => {
-    const response = await makeRequest<LikeActionResponse>('post', 'likes', { json: likeData });
+    const response = await makeRequest<LikeActionResponse>('post', buildEndpoint('LIKE_POST'), { json: likeData });
     return validateLikeActionResponse(response);
   },
 
@@ -196,7 +236,7 @@ export const likesApi = {
    * @returns Promise resolving to unlike action result
    */
   unlikePost: async (unlikeData: LikePostRequest): Promise<LikeActionResponse> => {
-    const response = await makeRequest<LikeActionResponse>('delete', 'likes', { json: unlikeData });
+    const response = await makeRequest<LikeActionResponse>('post', buildEndpoint('UNLIKE_POST'), { json: unlikeData });
     return validateLikeActionResponse(response);
   },
 
@@ -207,7 +247,7 @@ export const likesApi = {
    * @returns Promise resolving to like status
    */
   checkLikeStatus: async (userId: string, postId: string): Promise<LikeStatusResponse> => {
-    const response = await makeRequest<LikeStatusResponse>('get', `likes/${userId}/${postId}`);
+    const response = await makeRequest<LikeStatusResponse>('get', buildEndpoint('CHECK_LIKE', { userId, postId }));
     return validateLikeStatusResponse(response);
   },
 };
@@ -222,7 +262,7 @@ export const socialApi = {
    * @returns Promise resolving to follow action result
    */
   followUser: async (followData: FollowRequest): Promise<FollowActionResponse> => {
-    const response = await makeRequest<FollowActionResponse>('post', 'follows', { json: followData });
+    const response = await makeRequest<FollowActionResponse>('post', buildEndpoint('FOLLOW_USER', { userId: followData.followedUserId }), { json: followData });
     return validateFollowActionResponse(response);
   },
 
@@ -232,7 +272,7 @@ export const socialApi = {
    * @returns Promise resolving to unfollow action result
    */
   unfollowUser: async (unfollowData: FollowRequest): Promise<FollowActionResponse> => {
-    const response = await makeRequest<FollowActionResponse>('delete', 'follows', { json: unfollowData });
+    const response = await makeRequest<FollowActionResponse>('post', buildEndpoint('UNFOLLOW_USER', { userId: unfollowData.followedUserId }), { json: unfollowData });
     return validateFollowActionResponse(response);
   },
 
@@ -243,9 +283,194 @@ export const socialApi = {
    * @returns Promise resolving to follow status
    */
   checkFollowStatus: async (followerId: string, followedUserId: string): Promise<FollowStatusResponse> => {
-    const response = await makeRequest<FollowStatusResponse>('get', `follows/${followerId}/${followedUserId}`);
+    const response = await makeRequest<FollowStatusResponse>('get', buildEndpoint('CHECK_FOLLOW', { userId: followerId, targetUserId: followedUserId }));
     return validateFollowStatusResponse(response);
   },
+
+  /**
+   * Get one page of a user's followers
+   * @param userId - User identifier
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to followers and the next cursor
+   */
+  getFollowers: async (userId: string, page?: PaginationQuery): Promise<GetFollowersResponse> => {
+    const response = await makeRequest<GetFollowersResponse>('get', buildEndpoint('GET_FOLLOWERS', { userId }), { searchParams: toSearchParams(page) });
+    return validateGetFollowersResponse(response);
+  },
+
+  /**
+   * Get one page of the users a user follows
+   * @param userId - User identifier
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to followed users and the next cursor
+   */
+  getFollowing: async (userId: string, page?: PaginationQuery): Promise<GetFollowingResponse> => {
+    const response = await makeRequest<GetFollowingResponse>('get', buildEndpoint('GET_FOLLOWING', { userId }), { searchParams: toSearchParams(page) });
+    return validateGetFollowingResponse(response);
+  },
+
+  /**
+   * Get how one user relates to another (follows, mutual, blocks)
+   * @param userId - User whose point of view is described
+   * @param otherUserId - The other user
+   * @returns Promise resolving to the relationship flags
+   */
+  getRelationship: async (userId: string, otherUserId: string): Promise<RelationshipResponse> => {
+    const response = await makeRequest<RelationshipResponse>('get', buildEndpoint('GET_RELATIONSHIP', { userId, otherUserId }));
+    return validateRelationshipResponse(response);
+  },
+
+  /**
+   * Get one page of the requests waiting for a private account's approval
+   * @param userId - Private account owner
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to pending requests and the next cursor
+   */
+  getFollowRequests: async (userId: string, page?: PaginationQuery): Promise<GetFollowRequestsResponse> => {
+    const response = await makeRequest<GetFollowRequestsResponse>('get', buildEndpoint('LIST_FOLLOW_REQUESTS', { userId }), { searchParams: toSearchParams(page) });
+    return validateGetFollowRequestsResponse(response);
+  },
+
+  /**
+   * Approve a pending follow request
+   * @param userId - Private account owner
+   * @param requesterId - User who asked to follow
+   * @returns Promise resolving to the decision
+   */
+  approveFollowRequest: async (userId: string, requesterId: string): Promise<FollowRequestDecisionResponse> => {
+    const response = await makeRequest<FollowRequestDecisionResponse>('post', buildEndpoint('APPROVE_FOLLOW_REQUEST', { userId, requesterId }));
+    return validateFollowRequestDecisionResponse(response);
+  },
+
+  /**
+   * Deny a pending follow request
+   * @param userId - Private account owner
+   * @param requesterId - User who asked to follow
+   * @returns Promise resolving to the decision
+   */
+  denyFollowRequest: async (userId: string, requesterId: string): Promise<FollowRequestDecisionResponse> => {
+    const response = await makeRequest<FollowRequestDecisionResponse>('post', buildEndpoint('DENY_FOLLOW_REQUEST', { userId, requesterId }));
+    return validateFollowRequestDecisionResponse(response);
+  },
+
+  /**
+   * Block a user as the signed-in caller, removing follows in both directions
+   * @param targetUserId - User to block
+   * @returns Promise resolving to the block action result
+   */
+  blockUser: async (targetUserId: string): Promise<BlockActionResponse> => {
+    const response = await makeRequest<BlockActionResponse>('post', buildEndpoint('BLOCK_USER', { userId: targetUserId }));
+    return validateBlockActionResponse(response);
+  },
+
+  /**
+   * Lift a block placed by the signed-in caller
+   * @param targetUserId - Blocked user
+   * @returns Promise resolving to the unblock action result
+   */
+  unblockUser: async (targetUserId: string): Promise<BlockActionResponse> => {
+    const response = await makeRequest<BlockActionResponse>('post', buildEndpoint('UNBLOCK_USER', { userId: targetUserId }));
+    return validateBlockActionResponse(response);
+  },
+
+  /**
+   * Hide a user's posts from the signed-in caller's feed
+   * @param targetUserId - User to mute
+   * @returns Promise resolving to the mute action result
+   */
+  muteUser: async (targetUserId: string): Promise<BlockActionResponse> => {
+    const response = await makeRequest<BlockActionResponse>('post', buildEndpoint('MUTE_USER', { userId: targetUserId }));
+    return validateBlockActionResponse(response);
+  },
+
+  /**
+   * Lift a mute placed by the signed-in caller
+   * @param targetUserId - Muted user
+   * @returns Promise resolving to the unmute action result
+   */
+  unmuteUser: async (targetUserId: string): Promise<BlockActionResponse> => {
+    const response = await makeRequest<BlockActionResponse>('post', buildEndpoint('UNMUTE_USER', { userId: targetUserId }));
+    return validateBlockActionResponse(response);
+  },
+
+  /**
+   * Get one page of the users a user has blocked
+   * @param userId - Account owner
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to blocked users and the next cursor
+   */
+  getBlockedUsers: async (userId: string, page?: PaginationQuery): Promise<GetBlockListResponse> => {
+    const response = await makeRequest<GetBlockListResponse>('get', buildEndpoint('LIST_BLOCKS', { userId }), { searchParams: toSearchParams(page) });
+    return validateGetBlockListResponse(response);
+  },
+
+  /**
+   * Get one page of the users a user has muted
+   * @param userId - Account owner
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to muted users and the next cursor
+   */
+  getMutedUsers: async (userId: string, page?: PaginationQuery): Promise<GetBlockListResponse> => {
+    const response = await makeRequest<GetBlockListResponse>('get', buildEndpoint('LIST_MUTES', { userId }), { searchParams: toSearchParams(page) });
+    return validateGetBlockListResponse(response);
+  },
+};
+
+/**
+ * Notifications API endpoints using shared schemas
+ */
+export const notificationsApi = {
+  /**
+   * Get one page of a user's notifications, newest first
+   * @param userId - Notification recipient
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to notifications, the unread count and the next cursor
+   */
+  getNotifications: async (userId: string, page?: PaginationQuery): Promise<GetNotificationsResponse> => {
+    const response = await makeRequest<GetNotificationsResponse>('get', buildEndpoint('LIST_NOTIFICATIONS', { userId }), { searchParams: toSearchParams(page) });
+    return validateGetNotificationsResponse(response);
+  },
+
+  /**
+   * Mark notifications read
+   * @param userId - Notification recipient
+   * @param notificationIds - Notifications to mark; omit to mark all
+   * @returns Promise resolving to how many changed and the new unread count
+   */
+  markRead: async (userId: string, notificationIds?: string[]): Promise<MarkNotificationsReadResponse> => {
+    const request = validateMarkNotificationsReadRequest({ notificationIds });
+    const response = await makeRequest<MarkNotificationsReadResponse>('post', buildEndpoint('MARK_NOTIFICATIONS_READ', { userId }), { json: request });
+    return validateMarkNotificationsReadResponse(response);
+  },
+};
+
+/**
+ * Search API endpoints using shared schemas
+ */
+export const searchApi = {
+  /**
+   * Search profiles by username, display name and bio
+   * @param query - Words to match; each is matched as a word prefix
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to matching profiles and the next cursor
+   */
+  searchProfiles: async (query: string, page?: PaginationQuery): Promise<ProfileSearchResponse> => {
+    const { q, type } = validateSearchQuery({ q: query, type: 'profiles' });
+    const response = await makeRequest<ProfileSearchResponse>('get', buildEndpoint('SEARCH'), { searchParams: { q, type, ...toSearchParams(page) } });
+    return validateProfileSearchResponse(response);
+  },
+
+  /**
+   * Search post content
+   * @param query - Words to match; each is matched as a word prefix
+   * @param page - Page size and the nextCursor from the previous page
+   * @returns Promise resolving to matching posts, newest first, and the next cursor
+   */
+  searchPosts: async (query: string, page?: PaginationQuery): Promise<PostSearchResponse> => {
+    const { q, type } = validateSearchQuery({ q: query, type: 'posts' });
+    const response = await makeRequest<PostSearchResponse>('get', buildEndpoint('SEARCH'), { searchParams: { q, type, ...toSearchParams(page) } });
+    return validatePostSearchResponse(response);
+  },
 };
 
 /**
@@ -258,7 +483,7 @@ export const imagesApi = {
    * @returns Promise resolving to upload URL and image details
    */
   getUploadUrl: async (uploadData: UploadUrlRequest): Promise<UploadUrlResponse> => {
-    const response = await makeRequest<UploadUrlResponse>('post', 'images/upload-url', { json: uploadData });
+    const response = await makeRequest<UploadUrlResponse>('post', buildEndpoint('GET_UPLOAD_URL'), { json: uploadData });
     return validateUploadUrlResponse(response);
   },
 };
@@ -5,7 +5,7 @@
  * Uses constants and structured data for consistent testing.
  */
 
-import { type ProfileResponse, type CreateProfileRequest, type UpdateProfileRequest } from '../../src/schemas/shared-schemas';
+import { type ProfileResponse, type CreateProfileRequest, type RegisterRequest, type UpdateProfileRequest } from '../../src/schemas/shared-schemas';
 
 /**
  * Valid profile response test fixture - matches server response format
@@ -35,6 +35,14 @@ export const VALID_CREATE_REQUEST: CreateProfileRequest = {
   avatar: 'https://example.com/new-avatar.jpg',
 } as const;
 
+/**
+ * Valid registration request fixture
+ */
+export const VALID_REGISTER_REQUEST: RegisterRequest = {
+  ...VALID_CREATE_REQUEST,
+  password: 'correct-horse-battery',
+} as const;
+
 /**
  * Valid update profile request fixture
  */
@@ -11,10 +11,8 @@ import { describe, it, expect } from 'vitest';
 import {
   validateFeedItem,
   validateGetFeedResponse,
-  validateCreateFeedItemsRequest,
   type FeedItem,
-  type GetFeedResponse,
-  type CreateFeedItemsRequest
+  type GetFeedResponse
 } from '../../../src/schemas/shared-schemas';
 
 // Test fixtures
@@ -35,10 +33,8 @@ const VALID_FEED_ITEM: FeedItem = {
 const VALID_GET_FEED_RESPONSE: GetFeedResponse = {
   feedItems: [VALID_FEED_ITEM],
   userId: 'user-789',
-};
-
-const VALID_CREATE_FEED_ITEMS_REQUEST: CreateFeedItemsRequest = {
-  feedItems: [VALID_FEED_ITEM],
+  mode: 'chronological',
+  nextCursor: null,
 };
 
 describe('Feed Schema Validation', () => {
@@ -138,6 +134,7 @@ describe('Feed Schema Validation', () => {
 
     it('should validate empty feed response', () => {
       const emptyFeedResponse = {
+        ...VALID_GET_FEED_RESPONSE,
         feedItems: [],
         userId: 'user-123'
       };
@@ -166,6 +163,7 @@ describe('Feed Schema Validation', () => {
 
     it('should validate feed response with multiple items', () => {
       const multiItemResponse = {
+        ...VALID_GET_FEED_RESPONSE,
         feedItems: [
           VALID_FEED_ITEM,
           { ...VALID_FEED_ITEM, postId: 'post-456', feedTimestamp: 1672574500000 }
@@ -177,77 +175,57 @@ describe('Feed Schema Validation', () => {
       expect(result.feedItems).toHaveLength(2);
       expect(result.feedItems[1].postId).toBe('post-456');
     });
-  });
 
-  describe('validateCreateFeedItemsRequest', () => {
-    it('should validate a valid create feed items request successfully', () => {
-      const result = validateCreateFeedItemsRequest(VALID_CREATE_FEED_ITEMS_REQUEST);
+    it('should accept a next page cursor', () => {
+      const pagedResponse = {
+        ...VALID_GET_FEED_RESPONSE,
+        nextCursor: 'eyJ2IjoxfQ.c2lnbmF0dXJl'
+      };
 
-      expect(result).toEqual(VALID_CREATE_FEED_ITEMS_REQUEST);
-      expect(result.feedItems).toHaveLength(1);
-      expect(result.feedItems[0].postId).toBe('post-123');
+      const result = validateGetFeedResponse(pagedResponse);
+      expect(result.nextCursor).toBe('eyJ2IjoxfQ.c2lnbmF0dXJl');
     });
 
-    it('should reject request with empty feed items array', () => {
-      const invalidRequest = {
-        feedItems: []
-      };
+    it('should accept the feed mode the server ranked by', () => {
+      const rankedResponse = { ...VALID_GET_FEED_RESPONSE, mode: 'ranked' };
 
-      expect(() => validateCreateFeedItemsRequest(invalidRequest)).toThrow();
+      expect(validateGetFeedResponse(rankedResponse).mode).toBe('ranked');
     });
 
-    it('should reject request with too many feed items', () => {
-      const tooManyItems = Array(26).fill(VALID_FEED_ITEM); // Over 25 item limit
-      const invalidRequest = {
-        feedItems: tooManyItems
-      };
+    it('should reject an unknown feed mode', () => {
+      const invalidResponse = { ...VALID_GET_FEED_RESPONSE, mode: 'popular' };
 
-      expect(() => validateCreateFeedItemsRequest(invalidRequest)).toThrow();
+      expect(() => validateGetFeedResponse(invalidResponse)).toThrow();
     });
 
-    it('should reject request with invalid feed items', () => {
-      const invalidRequest = {
-        feedItems: [{ postId: 'incomplete-item' }]
-      };
+    it('should accept a null cursor on the last page', () => {
+      const lastPage = { ...VALID_GET_FEED_RESPONSE, nextCursor: null };
 
-      expect(() => validateCreateFeedItemsRequest(invalidRequest)).toThrow();
+      expect(validateGetFeedResponse(lastPage).nextCursor).toBeNull();
     });
 
-    it('should validate request with maximum allowed items', () => {
-      const maxItems = Array(25).fill(VALID_FEED_ITEM); // Exactly 25 items (limit)
-      const validRequest = {
-        feedItems: maxItems
-      };
+    it('should reject a response without the mode or cursor the server always sends', () => {
+      const { mode: _mode, ...withoutMode } = VALID_GET_FEED_RESPONSE;
+      const { nextCursor: _nextCursor, ...withoutCursor } = VALID_GET_FEED_RESPONSE;
 
-      const result = validateCreateFeedItemsRequest(validRequest);
-      expect(result.feedItems).toHaveLength(25);
+      expect(() => validateGetFeedResponse(withoutMode)).toThrow();
+      expect(() => validateGetFeedResponse(withoutCursor)).toThrow();
     });
 
-    it('should validate request with multiple different feed items', () => {
-      const multipleItemsRequest = {
-        feedItems: [
-          VALID_FEED_ITEM,
-          { ...VALID_FEED_ITEM, postId: 'post-456', userId: 'user-999' },
-          { ...VALID_FEED_ITEM, postId: 'post-789', content: 'Different content' }
-        ]
-      };
+    it('should reject an empty cursor', () => {
+      const invalidResponse = { ...VALID_GET_FEED_RESPONSE, nextCursor: '' };
 
-      const result = validateCreateFeedItemsRequest(multipleItemsRequest);
-      expect(result.feedItems).toHaveLength(3);
-      expect(result.feedItems[1].postId).toBe('post-456');
-      expect(result.feedItems[2].content).toBe('Different content');
+      expect(() => validateGetFeedResponse(invalidResponse)).toThrow();
     });
   });
 
   describe('Schema Consistency', () => {
     it('should have consistent feed item structure across all schemas', () => {
-      // Verify that feed item in response matches feed item in create request
+      // Verify that feed item in response matches the feed item schema
       const feedItem = VALID_FEED_ITEM;
       const responseItem = VALID_GET_FEED_RESPONSE.feedItems[0];
-      const createRequestItem = VALID_CREATE_FEED_ITEMS_REQUEST.feedItems[0];
 
       expect(responseItem).toEqual(feedItem);
-      expect(createRequestItem).toEqual(feedItem);
     });
 
     it('should enforce same field requirements across schemas', () => {
@@ -266,9 +244,6 @@ describe('Feed Schema Validation', () => {
           feedItems: [invalidItem],
           userId: 'user-123'
         })).toThrow();
-        expect(() => validateCreateFeedItemsRequest({
-          feedItems: [invalidItem]
-        })).toThrow();
       });
     });
 
@@ -287,9 +262,6 @@ describe('Feed Schema Validation', () => {
           feedItems: [invalidItem],
           userId: 'user-123'
         })).toThrow();
-        expect(() => validateCreateFeedItemsRequest({
-          feedItems: [invalidItem]
-        })).toThrow();
       });
     });
   });
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for Notifications shared schema validation
+ *
+ * Tests that client and server use identical validation rules.
+ * Following CLAUDE.md principles for focused, fixture-based testing.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+// Import shared schemas for validation testing
+import {
+  validateNotificationResponse,
+  validateGetNotificationsResponse,
+  validateMarkNotificationsReadRequest,
+  validateMarkNotificationsReadResponse,
+  type NotificationResponse
+} from '../../../src/schemas/shared-schemas';
+
+// Test fixtures
+const VALID_NOTIFICATION: NotificationResponse = {
+  notificationId: '1700000000000-5b1f0c2e',
+  type: 'like',
+  message: 'Alex and 4 others liked your post',
+  actors: [
+    { userId: 'user-123', username: 'alex', displayName: 'Alex', avatar: '' },
+    { userId: 'user-456', username: 'sam', displayName: 'Sam', avatar: '' },
+  ],
+  actorCount: 5,
+  postId: 'post-123',
+  preview: 'Hello world',
+  read: false,
+  createdAt: '2023-01-01T12:00:00Z',
+  updatedAt: '2023-01-01T13:00:00Z',
+};
+
+describe('Notifications Schema Validation', () => {
+  describe('validateNotificationResponse', () => {
+    it('should validate an aggregated notification', () => {
+      expect(validateNotificationResponse(VALID_NOTIFICATION)).toEqual(VALID_NOTIFICATION);
+    });
+
+    it('should accept a follow notification without a post', () => {
+      const { postId: _postId, preview: _preview, ...follow } = VALID_NOTIFICATION;
+
+      expect(validateNotificationResponse({ ...follow, type: 'follow', actorCount: 1 }).type).toBe('follow');
+    });
+
+    it('should reject unknown notification types', () => {
+      expect(() => validateNotificationResponse({ ...VALID_NOTIFICATION, type: 'poke' })).toThrow();
+    });
+
+    it('should reject a notification without actors counted', () => {
+      expect(() => validateNotificationResponse({ ...VALID_NOTIFICATION, actorCount: 0 })).toThrow();
+    });
+  });
+
+  describe('validateGetNotificationsResponse', () => {
+    it('should validate a page of notifications with the unread count', () => {
+      const result = validateGetNotificationsResponse({
+        userId: 'user-789',
+        notifications: [VALID_NOTIFICATION],
+        unreadCount: 1,
+        count: 1,
+        nextCursor: null,
+      });
+
+      expect(result.unreadCount).toBe(1);
+    });
+
+    it('should reject a negative unread count', () => {
+      expect(() => validateGetNotificationsResponse({
+        userId: 'user-789', notifications: [], unreadCount: -1, count: 0, nextCursor: null,
+      })).toThrow();
+    });
+  });
+
+  describe('mark read', () => {
+    it('should accept a request for all or some notifications', () => {
+      expect(validateMarkNotificationsReadRequest({})).toEqual({});
+      expect(validateMarkNotificationsReadRequest({ notificationIds: ['n1'] })).toEqual({ notificationIds: ['n1'] });
+    });
+
+    it('should reject an empty ID list', () => {
+      expect(() => validateMarkNotificationsReadRequest({ notificationIds: [] })).toThrow();
+    });
+
+    it('should validate the mark read response', () => {
+      const response = { userId: 'user-789', marked: 2, unreadCount: 0 };
+
+      expect(validateMarkNotificationsReadResponse(response)).toEqual(response);
+    });
+  });
+});
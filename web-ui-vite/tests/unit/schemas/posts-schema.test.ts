@@ -11,6 +11,7 @@ import { describe, it, expect } from 'vitest';
 import {
   validateCreatePostRequest,
   validatePostResponse,
+  validateGetUserPostsResponse,
   type CreatePostRequest,
   type PostResponse
 } from '../../../src/schemas/shared-schemas';
@@ -139,6 +140,36 @@ describe('Posts Schema Validation', () => {
     });
   });
 
+  describe('validateGetUserPostsResponse', () => {
+    it('should validate a page of posts with a next cursor', () => {
+      const result = validateGetUserPostsResponse({
+        posts: [VALID_POST_RESPONSE],
+        userId: 'user-123',
+        nextCursor: 'eyJ2IjoxfQ.c2lnbmF0dXJl'
+      });
+
+      expect(result.posts).toHaveLength(1);
+      expect(result.nextCursor).toBe('eyJ2IjoxfQ.c2lnbmF0dXJl');
+    });
+
+    it('should validate the last page with a null cursor', () => {
+      const result = validateGetUserPostsResponse({ posts: [], userId: 'user-123', nextCursor: null });
+
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should accept edited posts', () => {
+      const editedPost = { ...VALID_POST_RESPONSE, editedAt: '2023-01-02T12:00:00Z', revisionCount: 1 };
+
+      const result = validateGetUserPostsResponse({ posts: [editedPost], userId: 'user-123', nextCursor: null });
+      expect(result.posts[0].revisionCount).toBe(1);
+    });
+
+    it('should reject a response that is a bare array', () => {
+      expect(() => validateGetUserPostsResponse([VALID_POST_RESPONSE])).toThrow();
+    });
+  });
+
   describe('Schema Consistency', () => {
     it('should have matching field requirements between request and response', () => {
       // Verify that fields that are required in request are present in response
@@ -8,9 +8,9 @@
 import { describe, it, expect } from 'vitest';
 import {
   validateProfileResponse,
-  validateCreateRequest,
-  validateUpdateRequest,
-  validateApiError
+  validateCreateProfileRequest,
+  validateUpdateProfileRequest,
+  validateErrorResponse
 } from '../../../src/schemas/shared-schemas';
 import {
   VALID_PROFILE,
@@ -43,24 +43,24 @@ describe('Profile Schema Validation', () => {
     });
   });
 
-  describe('validateCreateRequest', () => {
+  describe('validateCreateProfileRequest', () => {
     it('should validate a valid create request successfully', () => {
-      const result = validateCreateRequest(VALID_CREATE_REQUEST);
+      const result = validateCreateProfileRequest(VALID_CREATE_REQUEST);
 
       expect(result).toEqual(VALID_CREATE_REQUEST);
       expect(result.username).toBe('newuser');
     });
 
     it('should reject create request with missing username', () => {
-      expect(() => validateCreateRequest(INVALID_PROFILE_DATA.missingUsername)).toThrow();
+      expect(() => validateCreateProfileRequest(INVALID_PROFILE_DATA.missingUsername)).toThrow();
     });
 
     it('should reject create request with invalid email', () => {
-      expect(() => validateCreateRequest(INVALID_PROFILE_DATA.invalidEmail)).toThrow();
+      expect(() => validateCreateProfileRequest(INVALID_PROFILE_DATA.invalidEmail)).toThrow('Email must be a valid email address');
     });
 
     it('should reject create request with bio too long', () => {
-      expect(() => validateCreateRequest(INVALID_PROFILE_DATA.tooLongBio)).toThrow();
+      expect(() => validateCreateProfileRequest(INVALID_PROFILE_DATA.tooLongBio)).toThrow();
     });
 
     it('should allow optional fields to be omitted', () => {
@@ -70,42 +70,44 @@ describe('Profile Schema Validation', () => {
         displayName: 'Test User',
       };
 
-      const result = validateCreateRequest(minimalRequest);
+      const result = validateCreateProfileRequest(minimalRequest);
       expect(result.bio).toBeUndefined();
       expect(result.avatar).toBeUndefined();
     });
   });
 
-  describe('validateUpdateRequest', () => {
+  describe('validateUpdateProfileRequest', () => {
     it('should validate a valid update request successfully', () => {
-      const result = validateUpdateRequest(VALID_UPDATE_REQUEST);
+      const result = validateUpdateProfileRequest(VALID_UPDATE_REQUEST);
 
       expect(result).toEqual(VALID_UPDATE_REQUEST);
       expect(result.isPrivate).toBe(true);
     });
 
-    it('should allow empty update request', () => {
-      const result = validateUpdateRequest({});
+    it('should reject an update request with no fields, as the API does', () => {
+      expect(() => validateUpdateProfileRequest({})).toThrow('At least one of displayName, bio, avatar, isPrivate must be provided');
+    });
 
-      expect(result).toEqual({});
+    it('should accept an empty avatar, which removes it', () => {
+      expect(validateUpdateProfileRequest({ avatar: '' })).toEqual({ avatar: '' });
     });
 
     it('should reject update with bio too long', () => {
       const invalidUpdate = { bio: 'x'.repeat(501) };
 
-      expect(() => validateUpdateRequest(invalidUpdate)).toThrow();
+      expect(() => validateUpdateProfileRequest(invalidUpdate)).toThrow();
     });
 
     it('should reject update with invalid avatar URL', () => {
       const invalidUpdate = { avatar: 'not-a-url' };
 
-      expect(() => validateUpdateRequest(invalidUpdate)).toThrow();
+      expect(() => validateUpdateProfileRequest(invalidUpdate)).toThrow();
     });
   });
 
-  describe('validateApiError', () => {
+  describe('validateErrorResponse', () => {
     it('should validate API error responses', () => {
-      const result = validateApiError(API_ERROR_FIXTURES.notFound);
+      const result = validateErrorResponse(API_ERROR_FIXTURES.notFound);
 
       expect(result.error).toBe('Not Found');
       expect(result.details).toBe('Profile not found');
@@ -114,14 +116,14 @@ describe('Profile Schema Validation', () => {
     it('should validate API error without details', () => {
       const simpleError = { error: 'Something went wrong' };
 
-      const result = validateApiError(simpleError);
+      const result = validateErrorResponse(simpleError);
       expect(result.error).toBe('Something went wrong');
       expect(result.details).toBeUndefined();
     });
 
     it('should reject API error without error field', () => {
-      expect(() => validateApiError({})).toThrow();
-      expect(() => validateApiError({ details: 'Missing error field' })).toThrow();
+      expect(() => validateErrorResponse({})).toThrow();
+      expect(() => validateErrorResponse({ details: 'Missing error field' })).toThrow();
     });
   });
 });
\ No newline at end of file
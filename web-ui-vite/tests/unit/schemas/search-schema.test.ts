@@ -0,0 +1,82 @@
+/**
+ * Unit tests for Search shared schema validation
+ *
+ * Tests that client and server use identical validation rules.
+ * Following CLAUDE.md principles for focused, fixture-based testing.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+// Import shared schemas for validation testing
+import {
+  validateSearchQuery,
+  validateProfileSearchResponse,
+  validatePostSearchResponse,
+  type ProfileResponse,
+  type PostResponse
+} from '../../../src/schemas/shared-schemas';
+
+// Test fixtures
+const VALID_PROFILE: ProfileResponse = {
+  userId: 'user-123',
+  username: 'alice',
+  displayName: 'Alice',
+  bio: 'Coffee and code',
+  avatar: '',
+  followersCount: 3,
+  followingCount: 2,
+  postsCount: 1,
+  isVerified: false,
+  isPrivate: false,
+  createdAt: '2023-01-01T12:00:00Z',
+};
+
+const VALID_POST: PostResponse = {
+  postId: 'post-123',
+  userId: 'user-123',
+  username: 'alice',
+  displayName: 'Alice',
+  avatar: '',
+  content: 'Lunch in Zürich',
+  imageUrl: '',
+  likesCount: 0,
+  commentsCount: 0,
+  createdAt: '2023-01-01T12:00:00Z',
+};
+
+describe('Search Schema Validation', () => {
+  describe('validateSearchQuery', () => {
+    it('should default to profile search', () => {
+      expect(validateSearchQuery({ q: 'alice' })).toEqual({ q: 'alice', type: 'profiles' });
+    });
+
+    it('should reject blank and overlong queries', () => {
+      expect(() => validateSearchQuery({ q: '   ' })).toThrow();
+      expect(() => validateSearchQuery({ q: 'a'.repeat(101) })).toThrow();
+    });
+
+    it('should reject unknown search types', () => {
+      expect(() => validateSearchQuery({ q: 'alice', type: 'comments' })).toThrow();
+    });
+  });
+
+  describe('search responses', () => {
+    it('should validate profile results', () => {
+      const response = { query: 'ali', type: 'profiles', results: [VALID_PROFILE], count: 1, nextCursor: null };
+
+      expect(validateProfileSearchResponse(response)).toEqual(response);
+    });
+
+    it('should validate post results', () => {
+      const response = { query: 'lunch', type: 'posts', results: [VALID_POST], count: 1, nextCursor: 'abc.def' };
+
+      expect(validatePostSearchResponse(response).results[0].postId).toBe('post-123');
+    });
+
+    it('should reject results of the other type', () => {
+      expect(() => validateProfileSearchResponse({
+        query: 'lunch', type: 'profiles', results: [VALID_POST], count: 1, nextCursor: null,
+      })).toThrow();
+    });
+  });
+});
@@ -13,6 +13,12 @@ import {
   validateUnfollowRequest,
   validateFollowStatusResponse,
   validateFollowActionResponse,
+  validateGetFollowingResponse,
+  validateRelationshipResponse,
+  validateGetFollowRequestsResponse,
+  validateFollowRequestDecisionResponse,
+  validateBlockActionResponse,
+  validateGetBlockListResponse,
   type FollowRequest,
   type UnfollowRequest,
   type FollowStatusResponse,
@@ -32,12 +38,14 @@ const VALID_UNFOLLOW_REQUEST: UnfollowRequest = {
 
 const VALID_FOLLOW_STATUS_RESPONSE: FollowStatusResponse = {
   isFollowing: true,
+  isRequested: false,
   followerId: 'user-123',
   followedUserId: 'user-456',
 };
 
 const VALID_FOLLOW_ACTION_RESPONSE: FollowActionResponse = {
   message: 'Successfully followed user',
+  status: 'following',
   followerId: 'user-123',
   followedUserId: 'user-456',
   createdAt: '2023-01-01T12:00:00Z',
@@ -45,6 +53,7 @@ const VALID_FOLLOW_ACTION_RESPONSE: FollowActionResponse = {
 
 const VALID_UNFOLLOW_ACTION_RESPONSE: FollowActionResponse = {
   message: 'Successfully unfollowed user',
+  status: 'unfollowed',
   followerId: 'user-123',
   followedUserId: 'user-456',
   createdAt: '2023-01-01T12:00:00Z',
@@ -332,6 +341,143 @@ describe('Social Schema Validation', () => {
     });
   });
 
+  describe('validateGetFollowingResponse', () => {
+    const followedProfile = {
+      userId: 'user-456',
+      username: 'bob',
+      displayName: 'Bob',
+      bio: '',
+      avatar: '',
+      followersCount: 3,
+      followingCount: 1,
+      postsCount: 7,
+      isVerified: false,
+      isPrivate: false,
+      createdAt: '2023-01-01T12:00:00Z',
+    };
+
+    it('should accept entries with a hydrated profile or a missing one', () => {
+      const result = validateGetFollowingResponse({
+        following: [
+          { userId: 'user-456', followedAt: '2023-01-02T12:00:00Z', profile: followedProfile },
+          { userId: 'user-789', followedAt: '2023-01-03T12:00:00Z', profile: null },
+        ],
+        userId: 'user-123',
+        count: 2,
+        nextCursor: null,
+      });
+
+      expect(result.following[0].profile?.username).toBe('bob');
+      expect(result.following[1].profile).toBeNull();
+    });
+
+    it('should reject entries without a profile field', () => {
+      expect(() => validateGetFollowingResponse({
+        following: [{ userId: 'user-456', followedAt: '2023-01-02T12:00:00Z' }],
+        userId: 'user-123',
+        count: 1,
+        nextCursor: null,
+      })).toThrow();
+    });
+  });
+
+  describe('validateRelationshipResponse', () => {
+    const relationship = {
+      userId: 'user-123',
+      otherUserId: 'user-456',
+      following: true,
+      followedBy: true,
+      mutual: true,
+      blocked: false,
+      blockedBy: false,
+      requested: false,
+      muted: false,
+    };
+
+    it('should validate a relationship response', () => {
+      expect(validateRelationshipResponse(relationship)).toEqual(relationship);
+    });
+
+    it('should reject missing flags', () => {
+      const { mutual: _mutual, ...withoutMutual } = relationship;
+
+      expect(() => validateRelationshipResponse(withoutMutual)).toThrow();
+    });
+  });
+
+  describe('private account follow requests', () => {
+    it('should accept a requested follow action', () => {
+      const result = validateFollowActionResponse({
+        ...VALID_FOLLOW_ACTION_RESPONSE,
+        message: 'Follow request sent',
+        status: 'requested',
+      });
+
+      expect(result.status).toBe('requested');
+    });
+
+    it('should reject an unknown follow action status', () => {
+      expect(() => validateFollowActionResponse({ ...VALID_FOLLOW_ACTION_RESPONSE, status: 'pending' })).toThrow();
+    });
+
+    it('should validate a page of follow requests', () => {
+      const result = validateGetFollowRequestsResponse({
+        userId: 'user-456',
+        requests: [{ requesterId: 'user-123', requestedAt: '2023-01-02T12:00:00Z', profile: null }],
+        count: 1,
+        nextCursor: null,
+      });
+
+      expect(result.requests[0].requesterId).toBe('user-123');
+    });
+
+    it('should validate a follow request decision', () => {
+      const decision = {
+        message: 'Follow request approved',
+        decision: 'approved',
+        userId: 'user-456',
+        requesterId: 'user-123',
+        timestamp: '2023-01-02T12:00:00Z',
+      };
+
+      expect(validateFollowRequestDecisionResponse(decision)).toEqual(decision);
+      expect(() => validateFollowRequestDecisionResponse({ ...decision, decision: 'ignored' })).toThrow();
+    });
+  });
+
+  describe('blocks and mutes', () => {
+    it('should validate block and mute actions', () => {
+      const action = {
+        message: 'User muted',
+        status: 'muted',
+        userId: 'user-123',
+        targetUserId: 'user-456',
+        timestamp: '2023-01-02T12:00:00Z',
+      };
+
+      expect(validateBlockActionResponse(action)).toEqual(action);
+      expect(() => validateBlockActionResponse({ ...action, status: 'hidden' })).toThrow();
+    });
+
+    it('should validate a page of blocked users', () => {
+      const result = validateGetBlockListResponse({
+        userId: 'user-123',
+        list: 'blocks',
+        users: [{ userId: 'user-456', since: '2023-01-02T12:00:00Z', profile: null }],
+        count: 1,
+        nextCursor: null,
+      });
+
+      expect(result.users[0].userId).toBe('user-456');
+    });
+
+    it('should reject an unknown list kind', () => {
+      expect(() => validateGetBlockListResponse({
+        userId: 'user-123', list: 'hidden', users: [], count: 0, nextCursor: null,
+      })).toThrow();
+    });
+  });
+
   describe('Schema Consistency', () => {
     it('should have consistent request structure between follow and unfollow', () => {
       const request = { followerId: 'user-999', followedUserId: 'user-888' };
@@ -6,8 +6,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { profileApi, handleApiError } from '../../../src/services/api-client';
-import { VALID_PROFILE, VALID_CREATE_REQUEST, VALID_UPDATE_REQUEST } from '../../fixtures/profile-fixtures';
+import { authApi, profileApi, handleApiError } from '../../../src/services/api-client';
+import { VALID_PROFILE, VALID_REGISTER_REQUEST, VALID_UPDATE_REQUEST } from '../../fixtures/profile-fixtures';
 
 // Mock ky HTTP client
 vi.mock('ky', () => {
@@ -34,29 +34,30 @@ describe('Profile API Client', () => {
     vi.clearAllMocks();
   });
 
-  describe('profileApi.create', () => {
-    it('should create profile successfully', async () => {
+  describe('authApi.register', () => {
+    it('should register and return the token with the created profile', async () => {
       // Arrange
+      const session = { token: 'test-token', tokenType: 'Bearer', expiresIn: 3600, profile: VALID_PROFILE };
       const mockResponse = {
-        json: vi.fn().mockResolvedValue(VALID_PROFILE),
+        json: vi.fn().mockResolvedValue(session),
       };
 
       const ky = await import('ky');
       vi.mocked(ky.default.post).mockResolvedValue(mockResponse as any);
 
       // Act
-      const result = await profileApi.create(VALID_CREATE_REQUEST);
+      const result = await authApi.register(VALID_REGISTER_REQUEST);
 
       // Assert
-      expect(result).toEqual(VALID_PROFILE);
-      expect(ky.default.post).toHaveBeenCalledWith('profiles', {
-        json: VALID_CREATE_REQUEST,
+      expect(result).toEqual(session);
+      expect(ky.default.post).toHaveBeenCalledWith('auth/register', {
+        json: VALID_REGISTER_REQUEST,
       });
     });
 
     it('should validate response data', async () => {
       // Arrange
-      const invalidResponse = { ...VALID_PROFILE, followersCount: -1 }; // Invalid negative count
+      const invalidResponse = { token: 'test-token', tokenType: 'Bearer', expiresIn: 3600, profile: { ...VALID_PROFILE, followersCount: -1 } }; // Invalid negative count
       const mockResponse = {
         json: vi.fn().mockResolvedValue(invalidResponse),
       };
@@ -65,7 +66,7 @@ describe('Profile API Client', () => {
       vi.mocked(ky.default.post).mockResolvedValue(mockResponse as any);
 
       // Act & Assert
-      await expect(profileApi.create(VALID_CREATE_REQUEST)).rejects.toThrow();
+      await expect(authApi.register(VALID_REGISTER_REQUEST)).rejects.toThrow();
     });
   });
 
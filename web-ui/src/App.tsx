@@ -7,6 +7,8 @@ import { ProfilePage } from '@/pages/ProfilePage';
 import { FeedPage } from '@/pages/FeedPage';
 import { DiscoveryPage } from '@/pages/DiscoveryPage';
 import { AdminPage } from '@/pages/AdminPage';
+import { LoginPage } from '@/pages/LoginPage';
+import { BlockedUsersPage } from '@/pages/BlockedUsersPage';
 
 function App() {
   console.log('App with Router rendered at:', new Date().toISOString());
@@ -18,11 +20,13 @@ function App() {
           <div className="App">
             <Routes>
               <Route path="/" element={<HomePage />} />
+              <Route path="/login" element={<LoginPage />} />
               <Route path="/create-profile" element={<CreateProfilePage />} />
               <Route path="/profile/:userId" element={<ProfilePage />} />
               <Route path="/feed" element={<FeedPage />} />
               <Route path="/discover" element={<DiscoveryPage />} />
               <Route path="/admin" element={<AdminPage />} />
+              <Route path="/settings/blocked" element={<BlockedUsersPage />} />
             </Routes>
           </div>
         </Router>
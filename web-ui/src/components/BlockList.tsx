@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
+import { apiService } from '@/services/api';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+import { BlockListEntry } from '@/types/profile';
+import { Loader2, User } from 'lucide-react';
+
+interface BlockListProps {
+  userId: string;
+  list: 'blocks' | 'mutes';
+}
+
+/**
+ * Users that a user has blocked or muted, with an action to lift each one
+ */
+export const BlockList: React.FC<BlockListProps> = ({ userId, list }) => {
+  const { items, setItems, isLoading, isLoadingMore, error, hasMore, loadMore } = usePaginatedList<BlockListEntry>(
+    async (cursor) => {
+      const result = list === 'blocks'
+        ? await apiService.getBlockedUsers(userId, { cursor })
+        : await apiService.getMutedUsers(userId, { cursor });
+      return { items: result.users, nextCursor: result.nextCursor };
+    },
+    `${list}:${userId}`
+  );
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState('');
+
+  const lift = async (targetUserId: string) => {
+    setPendingId(targetUserId);
+    setActionError('');
+
+    try {
+      if (list === 'blocks') {
+        await apiService.unblockUser(targetUserId);
+      } else {
+        await apiService.unmuteUser(targetUserId);
+      }
+      setItems(prev => prev.filter(entry => entry.userId !== targetUserId));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update this user');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {(error || actionError) && (
+        <div className="p-4 text-sm text-destructive bg-destructive/10 rounded-md border border-destructive/20">
+          {error || actionError}
+        </div>
+      )}
+
+      {items.length === 0 && !error ? (
+        <p className="text-muted-foreground text-center py-8">
+          {list === 'blocks' ? 'You have not blocked anyone.' : 'You have not muted anyone.'}
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {items.map(entry => (
+            <li key={entry.userId} className="flex items-center gap-3 p-3">
+              <Link to={`/profile/${entry.userId}`} className="flex items-center gap-3 min-w-0 flex-1">
+                {entry.profile?.avatar ? (
+                  <img
+                    src={entry.profile.avatar}
+                    alt={`${entry.profile.displayName}'s avatar`}
+                    className="w-10 h-10 rounded-full object-cover shrink-0"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center shrink-0">
+                    <User className="w-5 h-5 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{entry.profile?.displayName ?? 'Deleted account'}</div>
+                  <div className="text-sm text-muted-foreground truncate">
+                    {entry.profile && `@${entry.profile.username} · `}
+                    since {new Date(entry.since).toLocaleDateString()}
+                  </div>
+                </div>
+              </Link>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => lift(entry.userId)}
+                disabled={pendingId === entry.userId}
+              >
+                {list === 'blocks' ? 'Unblock' : 'Unmute'}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { apiService } from '@/services/api';
+import { Relationship } from '@/types/profile';
+import { Ban, Volume2, VolumeX } from 'lucide-react';
+
+interface BlockMuteControlsProps {
+  targetUserId: string;
+  relationship: Relationship;
+  onChange?: () => void;
+}
+
+/**
+ * Block and mute actions for another user's profile
+ */
+export const BlockMuteControls: React.FC<BlockMuteControlsProps> = ({ targetUserId, relationship, onChange }) => {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsUpdating(true);
+    setError('');
+
+    try {
+      await action();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update this user');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const toggleBlock = () => {
+    if (relationship.blocked) {
+      return run(() => apiService.unblockUser(targetUserId));
+    }
+    if (!window.confirm('Block this user? You will unfollow each other and they will not be able to follow, like or comment on your posts.')) {
+      return;
+    }
+    return run(() => apiService.blockUser(targetUserId));
+  };
+
+  const toggleMute = () => run(() => relationship.muted
+    ? apiService.unmuteUser(targetUserId)
+    : apiService.muteUser(targetUserId));
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={toggleMute} disabled={isUpdating}>
+          {relationship.muted ? <Volume2 className="w-4 h-4 mr-1" /> : <VolumeX className="w-4 h-4 mr-1" />}
+          {relationship.muted ? 'Unmute' : 'Mute'}
+        </Button>
+        <Button
+          variant={relationship.blocked ? 'outline' : 'destructive'}
+          size="sm"
+          onClick={toggleBlock}
+          disabled={isUpdating}
+        >
+          <Ban className="w-4 h-4 mr-1" />
+          {relationship.blocked ? 'Unblock' : 'Block'}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Comment } from '@/types/profile';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
+import { Loader2, Reply, Trash2, User } from 'lucide-react';
+import { apiService } from '@/services/api';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+
+interface CommentThreadProps {
+  postId: string;
+  postAuthorId: string;
+  currentUserId?: string;
+  onCountChange?: (delta: number) => void;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  onSubmit: (content: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({ placeholder, onSubmit, onCancel }) => {
+  const [content, setContent] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(content.trim());
+      setContent('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        placeholder={placeholder}
+        rows={2}
+        maxLength={1000}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={!content.trim() || isSubmitting}>
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Post
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const CommentThread: React.FC<CommentThreadProps> = ({
+  postId,
+  postAuthorId,
+  currentUserId,
+  onCountChange
+}) => {
+  const {
+    items: comments,
+    setItems: setComments,
+    isLoading,
+    isLoadingMore,
+    error: loadError,
+    hasMore,
+    loadMore,
+  } = usePaginatedList<Comment>(
+    async (cursor) => {
+      const result = await apiService.getComments(postId, { cursor });
+      return { items: result.comments, nextCursor: result.nextCursor };
+    },
+    postId
+  );
+  const [error, setError] = useState<string>('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const handleCreate = async (content: string, parentCommentId?: string) => {
+    setError('');
+    try {
+      const comment = await apiService.createComment(postId, { content, parentCommentId });
+
+      // Comments are oldest first, so a new one arrives with the last page
+      setComments(prev => parentCommentId
+        ? prev.map(c => c.commentId === parentCommentId
+          ? { ...c, replies: [...(c.replies || []), comment] }
+          : c)
+        : hasMore ? prev : [...prev, { ...comment, replies: [] }]);
+      setReplyingTo(null);
+      onCountChange?.(1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    setError('');
+    try {
+      const { deletedCount } = await apiService.deleteComment(postId, comment.commentId);
+
+      setComments(prev => comment.parentCommentId
+        ? prev.map(c => c.commentId === comment.parentCommentId
+          ? { ...c, replies: (c.replies || []).filter(r => r.commentId !== comment.commentId) }
+          : c)
+        : prev.filter(c => c.commentId !== comment.commentId));
+      onCountChange?.(-deletedCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  const canDelete = (comment: Comment) =>
+    !!currentUserId && (comment.userId === currentUserId || postAuthorId === currentUserId);
+
+  const renderComment = (comment: Comment, isReply = false) => (
+    <div key={comment.commentId} className={isReply ? 'ml-10 mt-2' : 'mt-3'}>
+      <div className="flex gap-2">
+        {comment.avatar ? (
+          <img src={comment.avatar} alt={`${comment.displayName}'s avatar`} className="w-8 h-8 rounded-full object-cover" />
+        ) : (
+          <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+            <User className="w-4 h-4 text-primary/70" />
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="rounded-lg bg-muted/50 px-3 py-2">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-semibold truncate">{comment.displayName}</span>
+              <span className="text-muted-foreground truncate">@{comment.username}</span>
+            </div>
+            <p className="text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+          </div>
+          <div className="flex items-center gap-1 mt-1">
+            {!isReply && currentUserId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setReplyingTo(replyingTo === comment.commentId ? null : comment.commentId)}
+                aria-label={`Reply to ${comment.displayName}`}
+              >
+                <Reply className="w-3 h-3 mr-1" />
+                Reply
+              </Button>
+            )}
+            {canDelete(comment) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-destructive"
+                onClick={() => handleDelete(comment)}
+                aria-label="Delete comment"
+              >
+                <Trash2 className="w-3 h-3 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+          {replyingTo === comment.commentId && (
+            <div className="mt-2">
+              <CommentForm
+                placeholder={`Reply to @${comment.username}...`}
+                onSubmit={(content) => handleCreate(content, comment.commentId)}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+      {!isReply && comment.replies?.map(reply => renderComment(reply, true))}
+    </div>
+  );
+
+  return (
+    <div className="pt-3 border-t border-border/50" onClick={(e) => e.stopPropagation()}>
+      {(error || loadError) && (
+        <div className="mb-2 p-2 text-sm text-destructive bg-destructive/10 rounded-md">
+          {error || loadError}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-2">No comments yet.</p>
+      ) : (
+        comments.map(comment => renderComment(comment))
+      )}
+
+      <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
+
+      {currentUserId && (
+        <div className="mt-3">
+          <CommentForm placeholder="Write a comment..." onSubmit={(content) => handleCreate(content)} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { CreateProfileRequest } from '@/types/profile';
+import { RegisterRequest } from '@/services/auth';
+import { RegisterRequestSchema } from '@/shared/schemas/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,7 +9,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Loader2, UserPlus } from 'lucide-react';
 
 interface CreateProfileFormProps {
-  onSubmit: (data: CreateProfileRequest) => Promise<void>;
+  onSubmit: (data: RegisterRequest) => Promise<void>;
   isLoading?: boolean;
 }
 
@@ -16,52 +17,39 @@ export const CreateProfileForm: React.FC<CreateProfileFormProps> = ({
   onSubmit,
   isLoading = false
 }) => {
-  const [formData, setFormData] = useState<CreateProfileRequest>({
+  const [formData, setFormData] = useState<RegisterRequest>({
     username: '',
     email: '',
+    password: '',
     displayName: '',
     bio: '',
     avatar: '',
   });
 
-  const [errors, setErrors] = useState<Partial<CreateProfileRequest>>({});
+  const [errors, setErrors] = useState<Partial<RegisterRequest>>({});
 
   const validateForm = (): boolean => {
-    const newErrors: Partial<CreateProfileRequest> = {};
-
-    if (!formData.username.trim()) {
-      newErrors.username = 'Username is required';
-    } else if (!/^[a-zA-Z0-9_]+$/.test(formData.username)) {
-      newErrors.username = 'Username can only contain letters, numbers, and underscores';
+    const newErrors: Partial<RegisterRequest> = {};
+
+    const result = RegisterRequestSchema.safeParse(formData);
+    if (!result.success) {
+      for (const { path: [field], message } of result.error.issues) {
+        const key = field as keyof RegisterRequest;
+        if (!newErrors[key]) {
+          newErrors[key] = message;
+        }
+      }
     }
 
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
-
-    if (!formData.displayName.trim()) {
-      newErrors.displayName = 'Display name is required';
-    }
-
-    if (formData.avatar && !isValidUrl(formData.avatar)) {
-      newErrors.avatar = 'Please enter a valid URL for the avatar';
+    // The API takes any username; sign-up keeps to letters, numbers and underscores
+    if (!newErrors.username && !/^[a-zA-Z0-9_]+$/.test(formData.username)) {
+      newErrors.username = 'Username can only contain letters, numbers, and underscores';
     }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const isValidUrl = (string: string) => {
-    try {
-      new URL(string);
-      return true;
-    } catch (_) {
-      return false;
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validateForm() || isLoading) return;
@@ -74,7 +62,7 @@ export const CreateProfileForm: React.FC<CreateProfileFormProps> = ({
   };
 
   const handleInputChange = (
-    field: keyof CreateProfileRequest,
+    field: keyof RegisterRequest,
     value: string
   ) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -124,6 +112,21 @@ export const CreateProfileForm: React.FC<CreateProfileFormProps> = ({
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="password">Password *</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              value={formData.password}
+              onChange={(e) => handleInputChange('password', e.target.value)}
+              className={errors.password ? 'border-destructive' : ''}
+            />
+            {errors.password && (
+              <p className="text-sm text-destructive">{errors.password}</p>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="displayName">Display Name *</Label>
             <Input
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Profile, UpdateProfileRequest } from '@/types/profile';
+import { UpdateProfileRequestSchema } from '@/shared/schemas/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -32,27 +33,19 @@ export const EditProfileForm: React.FC<EditProfileFormProps> = ({
   const validateForm = (): boolean => {
     const newErrors: Partial<UpdateProfileRequest> = {};
 
-    if (formData.displayName && !formData.displayName.trim()) {
-      newErrors.displayName = 'Display name cannot be empty';
-    }
-
-    if (formData.avatar && !isValidUrl(formData.avatar)) {
-      newErrors.avatar = 'Please enter a valid URL for the avatar';
+    const result = UpdateProfileRequestSchema.safeParse(formData);
+    if (!result.success) {
+      for (const { path: [field], message } of result.error.issues) {
+        if ((field === 'displayName' || field === 'bio' || field === 'avatar') && !newErrors[field]) {
+          newErrors[field] = message;
+        }
+      }
     }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const isValidUrl = (string: string) => {
-    try {
-      new URL(string);
-      return true;
-    } catch (_) {
-      return false;
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validateForm() || isLoading) return;
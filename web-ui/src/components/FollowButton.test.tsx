@@ -28,6 +28,7 @@ describe('FollowButton', () => {
   test('renders follow button when not following', async () => {
     mockApiService.checkFollowStatus.mockResolvedValue({
       isFollowing: false,
+      isRequested: false,
       followerId: 'user-123',
       followedUserId: 'user-456',
     });
@@ -44,6 +45,7 @@ describe('FollowButton', () => {
   test('renders unfollow button when following', async () => {
     mockApiService.checkFollowStatus.mockResolvedValue({
       isFollowing: true,
+      isRequested: false,
       followerId: 'user-123',
       followedUserId: 'user-456',
     });
@@ -60,12 +62,14 @@ describe('FollowButton', () => {
   test('handles follow action', async () => {
     mockApiService.checkFollowStatus.mockResolvedValue({
       isFollowing: false,
+      isRequested: false,
       followerId: 'user-123',
       followedUserId: 'user-456',
     });
 
     mockApiService.followUser.mockResolvedValue({
       message: 'Successfully followed user',
+      status: 'following',
       followerId: 'user-123',
       followedUserId: 'user-456',
       createdAt: '2024-01-01T00:00:00Z',
@@ -91,15 +95,17 @@ describe('FollowButton', () => {
   test('handles unfollow action', async () => {
     mockApiService.checkFollowStatus.mockResolvedValue({
       isFollowing: true,
+      isRequested: false,
       followerId: 'user-123',
       followedUserId: 'user-456',
     });
 
     mockApiService.unfollowUser.mockResolvedValue({
       message: 'Successfully unfollowed user',
+      status: 'unfollowed',
       followerId: 'user-123',
       followedUserId: 'user-456',
-      timestamp: '2024-01-01T00:00:00Z',
+      createdAt: '2024-01-01T00:00:00Z',
     });
 
     render(<FollowButton {...mockProps} />);
@@ -119,9 +125,70 @@ describe('FollowButton', () => {
     expect(mockProps.onFollowChange).toHaveBeenCalled();
   });
 
+  test('shows Requested after following a private account', async () => {
+    mockApiService.checkFollowStatus.mockResolvedValue({
+      isFollowing: false,
+      isRequested: false,
+      followerId: 'user-123',
+      followedUserId: 'user-456',
+    });
+
+    mockApiService.followUser.mockResolvedValue({
+      message: 'Follow request sent',
+      status: 'requested',
+      followerId: 'user-123',
+      followedUserId: 'user-456',
+      createdAt: '2024-01-01T00:00:00Z',
+    });
+
+    render(<FollowButton {...mockProps} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Follow')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole('button'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Requested')).toBeInTheDocument();
+    });
+  });
+
+  test('cancels a pending request', async () => {
+    mockApiService.checkFollowStatus.mockResolvedValue({
+      isFollowing: false,
+      isRequested: true,
+      followerId: 'user-123',
+      followedUserId: 'user-456',
+    });
+
+    mockApiService.unfollowUser.mockResolvedValue({
+      message: 'Follow request cancelled',
+      status: 'cancelled',
+      followerId: 'user-123',
+      followedUserId: 'user-456',
+      createdAt: '2024-01-01T00:00:00Z',
+    });
+
+    render(<FollowButton {...mockProps} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Requested')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole('button'));
+
+    expect(mockApiService.unfollowUser).toHaveBeenCalledWith('user-123', 'user-456');
+
+    await waitFor(() => {
+      expect(screen.getByText('Follow')).toBeInTheDocument();
+    });
+  });
+
   test('shows loading state during follow action', async () => {
     mockApiService.checkFollowStatus.mockResolvedValue({
       isFollowing: false,
+      isRequested: false,
       followerId: 'user-123',
       followedUserId: 'user-456',
     });
@@ -130,6 +197,7 @@ describe('FollowButton', () => {
     mockApiService.followUser.mockImplementation(() =>
       new Promise(resolve => setTimeout(() => resolve({
         message: 'Successfully followed user',
+        status: 'following',
         followerId: 'user-123',
         followedUserId: 'user-456',
         createdAt: '2024-01-01T00:00:00Z',
@@ -151,6 +219,7 @@ describe('FollowButton', () => {
   test('handles API errors gracefully', async () => {
     mockApiService.checkFollowStatus.mockResolvedValue({
       isFollowing: false,
+      isRequested: false,
       followerId: 'user-123',
       followedUserId: 'user-456',
     });
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { apiService } from '@/services/api';
-import { UserPlus, UserMinus, Loader2 } from 'lucide-react';
+import { UserPlus, UserMinus, Clock, Loader2 } from 'lucide-react';
 
 interface FollowButtonProps {
   currentUserId: string;
@@ -9,12 +9,15 @@ interface FollowButtonProps {
   onFollowChange?: () => void;
 }
 
+// 'requested' means a private account has not approved the follow yet
+type FollowState = 'none' | 'following' | 'requested';
+
 export const FollowButton: React.FC<FollowButtonProps> = ({
   currentUserId,
   targetUserId,
   onFollowChange
 }) => {
-  const [isFollowing, setIsFollowing] = useState(false);
+  const [followState, setFollowState] = useState<FollowState>('none');
   const [isLoading, setIsLoading] = useState(true);
   const [isActionLoading, setIsActionLoading] = useState(false);
 
@@ -29,10 +32,8 @@ export const FollowButton: React.FC<FollowButtonProps> = ({
     }
 
     try {
-      // For demo purposes, simulate follow status with local storage
-      const followKey = `follow_${currentUserId}_${targetUserId}`;
-      const isFollowingStored = localStorage.getItem(followKey) === 'true';
-      setIsFollowing(isFollowingStored);
+      const status = await apiService.checkFollowStatus(currentUserId, targetUserId);
+      setFollowState(status.isFollowing ? 'following' : status.isRequested ? 'requested' : 'none');
     } catch (error) {
       console.error('Error checking follow status:', error);
     } finally {
@@ -48,18 +49,13 @@ export const FollowButton: React.FC<FollowButtonProps> = ({
     setIsActionLoading(true);
 
     try {
-      // For demo purposes, simulate follow/unfollow with local storage
-      const followKey = `follow_${currentUserId}_${targetUserId}`;
-
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      if (isFollowing) {
-        localStorage.removeItem(followKey);
-        setIsFollowing(false);
+      // Unfollowing also withdraws a request that is still pending
+      if (followState === 'none') {
+        const result = await apiService.followUser(currentUserId, targetUserId);
+        setFollowState(result.status === 'requested' ? 'requested' : 'following');
       } else {
-        localStorage.setItem(followKey, 'true');
-        setIsFollowing(true);
+        await apiService.unfollowUser(currentUserId, targetUserId);
+        setFollowState('none');
       }
 
       if (onFollowChange) {
@@ -77,22 +73,31 @@ export const FollowButton: React.FC<FollowButtonProps> = ({
     return null;
   }
 
+  const label = {
+    none: 'Follow',
+    following: 'Unfollow',
+    requested: 'Requested',
+  }[followState];
+
   return (
     <Button
       onClick={handleFollowToggle}
       disabled={isActionLoading}
-      variant={isFollowing ? "outline" : "default"}
+      variant={followState === 'none' ? "default" : "outline"}
       size="sm"
       className="px-4"
+      title={followState === 'requested' ? 'Waiting for approval - click to cancel the request' : undefined}
     >
       {isActionLoading ? (
         <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-      ) : isFollowing ? (
+      ) : followState === 'following' ? (
         <UserMinus className="w-4 h-4 mr-2" />
+      ) : followState === 'requested' ? (
+        <Clock className="w-4 h-4 mr-2" />
       ) : (
         <UserPlus className="w-4 h-4 mr-2" />
       )}
-      {isActionLoading ? 'Loading...' : isFollowing ? 'Unfollow' : 'Follow'}
+      {isActionLoading ? 'Loading...' : label}
     </Button>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
+import { apiService } from '@/services/api';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+import { FollowListEntry } from '@/types/profile';
+import { Loader2, User } from 'lucide-react';
+
+interface FollowListProps {
+  userId: string;
+  direction: 'followers' | 'following';
+}
+
+export const FollowList: React.FC<FollowListProps> = ({ userId, direction }) => {
+  const { items, isLoading, isLoadingMore, error, hasMore, loadMore } = usePaginatedList<FollowListEntry>(
+    async (cursor) => {
+      if (direction === 'followers') {
+        const result = await apiService.getFollowers(userId, { cursor });
+        return { items: result.followers, nextCursor: result.nextCursor };
+      }
+      const result = await apiService.getFollowing(userId, { cursor });
+      return { items: result.following, nextCursor: result.nextCursor };
+    },
+    `${direction}:${userId}`
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="p-4 text-sm text-destructive bg-destructive/10 rounded-md border border-destructive/20">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 && !error ? (
+        <p className="text-muted-foreground text-center py-8">
+          {direction === 'followers' ? 'No followers yet.' : 'Not following anyone yet.'}
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {items.map(entry => (
+            <li key={entry.userId}>
+              <Link to={`/profile/${entry.userId}`} className="flex items-center gap-3 p-3 hover:bg-muted/50">
+                {entry.profile?.avatar ? (
+                  <img
+                    src={entry.profile.avatar}
+                    alt={`${entry.profile.displayName}'s avatar`}
+                    className="w-10 h-10 rounded-full object-cover"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+                    <User className="w-5 h-5 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{entry.profile?.displayName ?? 'Deleted account'}</div>
+                  {entry.profile && (
+                    <div className="text-sm text-muted-foreground truncate">@{entry.profile.username}</div>
+                  )}
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
+    </div>
+  );
+};
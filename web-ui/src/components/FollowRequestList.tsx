@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
+import { apiService } from '@/services/api';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+import { FollowRequest } from '@/types/profile';
+import { Check, X, Loader2, User } from 'lucide-react';
+
+interface FollowRequestListProps {
+  userId: string;
+  onDecision?: () => void;
+}
+
+/**
+ * Pending follow requests for a private account, with approve/deny actions
+ */
+export const FollowRequestList: React.FC<FollowRequestListProps> = ({ userId, onDecision }) => {
+  const { items, setItems, isLoading, isLoadingMore, error, hasMore, loadMore } = usePaginatedList<FollowRequest>(
+    async (cursor) => {
+      const result = await apiService.getFollowRequests(userId, { cursor });
+      return { items: result.requests, nextCursor: result.nextCursor };
+    },
+    userId
+  );
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState('');
+
+  const decide = async (requesterId: string, approve: boolean) => {
+    setPendingId(requesterId);
+    setActionError('');
+
+    try {
+      if (approve) {
+        await apiService.approveFollowRequest(userId, requesterId);
+      } else {
+        await apiService.denyFollowRequest(userId, requesterId);
+      }
+      setItems(prev => prev.filter(request => request.requesterId !== requesterId));
+      onDecision?.();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update request');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {(error || actionError) && (
+        <div className="p-4 text-sm text-destructive bg-destructive/10 rounded-md border border-destructive/20">
+          {error || actionError}
+        </div>
+      )}
+
+      {items.length === 0 && !error ? (
+        <p className="text-muted-foreground text-center py-8">No pending follow requests.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {items.map(request => (
+            <li key={request.requesterId} className="flex items-center gap-3 p-3">
+              <Link to={`/profile/${request.requesterId}`} className="flex items-center gap-3 min-w-0 flex-1">
+                {request.profile?.avatar ? (
+                  <img
+                    src={request.profile.avatar}
+                    alt={`${request.profile.displayName}'s avatar`}
+                    className="w-10 h-10 rounded-full object-cover shrink-0"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center shrink-0">
+                    <User className="w-5 h-5 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{request.profile?.displayName ?? 'Deleted account'}</div>
+                  {request.profile && (
+                    <div className="text-sm text-muted-foreground truncate">@{request.profile.username}</div>
+                  )}
+                </div>
+              </Link>
+              <Button
+                size="sm"
+                onClick={() => decide(request.requesterId, true)}
+                disabled={pendingId === request.requesterId}
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => decide(request.requesterId, false)}
+                disabled={pendingId === request.requesterId}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Deny
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
+    </div>
+  );
+};
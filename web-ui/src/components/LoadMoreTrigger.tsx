@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Loads the next page when scrolled into view. The button is a fallback for
+ * browsers without IntersectionObserver and for keyboard users.
+ */
+export const LoadMoreTrigger: React.FC<LoadMoreTriggerProps> = ({ hasMore, isLoading, onLoadMore }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    // Re-observing after each load fires again if the sentinel is still visible
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading]);
+
+  if (!hasMore) {
+    return null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoading}>
+        {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {isLoading ? 'Loading...' : 'Load more'}
+      </Button>
+    </div>
+  );
+};
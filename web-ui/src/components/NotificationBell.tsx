@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUser } from '@/contexts/UserContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { apiService } from '@/services/api';
+import { Notification } from '@/types/profile';
+import { Bell, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Notifications shown in the dropdown; older ones are not paged in here
+const NOTIFICATION_PAGE_SIZE = 20;
+
+/**
+ * Bell with the current user's unread count, opening a list of their
+ * most recent notifications
+ */
+export const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentUser } = useUser();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const userId = currentUser?.userId;
+
+  const loadNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await apiService.getNotifications(userId, { limit: NOTIFICATION_PAGE_SIZE });
+      setNotifications(result.notifications);
+      setUnreadCount(result.unreadCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  const toggle = () => {
+    if (!isOpen) {
+      loadNotifications();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const markRead = async (notificationIds?: string[]) => {
+    if (!userId) return;
+
+    try {
+      const result = await apiService.markNotificationsRead(userId, notificationIds);
+      setUnreadCount(result.unreadCount);
+      setNotifications(prev => prev.map(n =>
+        !notificationIds || notificationIds.includes(n.notificationId) ? { ...n, read: true } : n
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark notifications read');
+    }
+  };
+
+  const open = (notification: Notification) => {
+    if (!notification.read) {
+      markRead([notification.notificationId]);
+    }
+    setIsOpen(false);
+
+    if (notification.type === 'follow' || notification.type === 'follow_request') {
+      navigate(`/profile/${notification.actors[0]?.userId}`);
+    } else {
+      navigate('/feed');
+    }
+  };
+
+  if (!currentUser) return null;
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="relative"
+        onClick={toggle}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="w-4 h-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setIsOpen(false)}
+          />
+          <Card className="absolute top-full right-0 mt-2 w-80 z-20 shadow-lg">
+            <CardContent className="p-2">
+              <div className="flex items-center justify-between px-2 py-1">
+                <span className="text-sm font-medium">Notifications</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => markRead()}
+                  disabled={unreadCount === 0}
+                >
+                  Mark all read
+                </Button>
+              </div>
+
+              {error && (
+                <div className="p-2 text-sm text-destructive">{error}</div>
+              )}
+
+              {isLoading && notifications.length === 0 ? (
+                <div className="flex items-center justify-center py-6 text-muted-foreground">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                </div>
+              ) : notifications.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No notifications yet.</p>
+              ) : (
+                <ul className="max-h-96 overflow-y-auto space-y-1">
+                  {notifications.map(notification => (
+                    <li key={notification.notificationId}>
+                      <button
+                        type="button"
+                        className={cn(
+                          "w-full text-left rounded-md p-2 hover:bg-muted",
+                          !notification.read && "bg-primary/5"
+                        )}
+                        onClick={() => open(notification)}
+                      >
+                        <div className={cn("text-sm", !notification.read && "font-medium")}>
+                          {notification.message}
+                        </div>
+                        {notification.preview && (
+                          <div className="text-xs text-muted-foreground truncate">{notification.preview}</div>
+                        )}
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(notification.updatedAt).toLocaleString()}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
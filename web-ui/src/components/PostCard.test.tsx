@@ -165,8 +165,7 @@ describe('PostCard', () => {
     expect(commentButton).toBeInTheDocument();
 
     fireEvent.click(commentButton);
-    // Note: Since we don't have comment functionality implemented yet,
-    // we just test that the button is clickable
+    expect(commentButton).toHaveAttribute('aria-expanded', 'true');
   });
 
   test('share button is interactive', () => {
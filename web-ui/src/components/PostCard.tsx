@@ -2,9 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { Post, FeedItem } from '@/types/profile';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { User, Heart, MessageCircle, Share, Loader2 } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { User, Heart, MessageCircle, Share, Loader2, Pencil, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { apiService } from '@/services/api';
+import { CommentThread } from '@/components/CommentThread';
+import { PostRevisionHistory } from '@/components/PostRevisionHistory';
 
 interface PostCardProps {
   post: Post | FeedItem;
@@ -12,6 +15,7 @@ interface PostCardProps {
   onLike?: (postId: string) => Promise<void>;
   onComment?: (postId: string) => void;
   onShare?: (postId: string) => void;
+  onDeleted?: (postId: string) => void;
   currentUserId?: string;
 }
 
@@ -21,6 +25,7 @@ export const PostCard: React.FC<PostCardProps> = ({
   onLike,
   onComment,
   onShare,
+  onDeleted,
   currentUserId
 }) => {
   // Handle both Post and FeedItem types
@@ -37,6 +42,20 @@ export const PostCard: React.FC<PostCardProps> = ({
   const [imageLoading, setImageLoading] = useState(true);
   const [avatarLoading, setAvatarLoading] = useState(true);
   const [likeStatusLoaded, setLikeStatusLoaded] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [commentsCount, setCommentsCount] = useState(post.commentsCount);
+
+  // Local copy of the editable fields so edits show without refetching
+  const [content, setContent] = useState(post.content);
+  const [editedAt, setEditedAt] = useState(post.editedAt);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(post.content);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleted, setIsDeleted] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [actionError, setActionError] = useState<string>('');
+
+  const isAuthor = !!currentUserId && currentUserId === authorId;
 
   // Check like status on component mount
   useEffect(() => {
@@ -111,6 +130,7 @@ export const PostCard: React.FC<PostCardProps> = ({
 
   const handleComment = (e: React.MouseEvent) => {
     e.stopPropagation();
+    setShowComments(prev => !prev);
     onComment?.(postId);
   };
 
@@ -119,6 +139,55 @@ export const PostCard: React.FC<PostCardProps> = ({
     onShare?.(postId);
   };
 
+  const handleStartEdit = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraft(content);
+    setActionError('');
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!draft.trim() || isSaving) return;
+
+    if (draft.trim() === content) {
+      setIsEditing(false);
+      return;
+    }
+
+    setIsSaving(true);
+    setActionError('');
+    try {
+      const updated = await apiService.updatePost(postId, { content: draft.trim() });
+      setContent(updated.content);
+      setEditedAt(updated.editedAt);
+      setIsEditing(false);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Failed to update post');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!window.confirm('Delete this post? This cannot be undone.')) return;
+
+    setActionError('');
+    try {
+      await apiService.deletePost(postId);
+      setIsDeleted(true);
+      onDeleted?.(postId);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Failed to delete post');
+    }
+  };
+
+  if (isDeleted) {
+    return null;
+  }
+
   return (
     <Card className="w-full cursor-pointer hover:bg-muted/50 transition-colors" onClick={onClick}>
       <CardHeader className="pb-3">
@@ -160,16 +229,71 @@ export const PostCard: React.FC<PostCardProps> = ({
               <span className="text-muted-foreground text-sm hover:text-foreground transition-colors cursor-pointer">
                 {formatDate(post.createdAt)}
               </span>
+              {editedAt && (
+                <button
+                  type="button"
+                  className="text-muted-foreground text-xs italic hover:underline"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowHistory(prev => !prev);
+                  }}
+                  aria-label="Show edit history"
+                  aria-expanded={showHistory}
+                >
+                  edited
+                </button>
+              )}
             </div>
           </div>
+          {isAuthor && !isEditing && (
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={handleStartEdit} aria-label="Edit post">
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive" onClick={handleDelete} aria-label="Delete post">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
         </div>
       </CardHeader>
 
       <CardContent className="pt-0">
         <div className="space-y-4">
-          <div className="text-foreground leading-relaxed whitespace-pre-wrap break-words">
-            {post.content}
-          </div>
+          {actionError && (
+            <div className="p-2 text-sm text-destructive bg-destructive/10 rounded-md">
+              {actionError}
+            </div>
+          )}
+
+          {isEditing ? (
+            <form onSubmit={handleSaveEdit} onClick={(e) => e.stopPropagation()} className="space-y-2">
+              <Textarea
+                rows={3}
+                maxLength={2000}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                aria-label="Edit post content"
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" size="sm" disabled={!draft.trim() || isSaving}>
+                  {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <div className="text-foreground leading-relaxed whitespace-pre-wrap break-words">
+              {content}
+            </div>
+          )}
+
+          {showHistory && (
+            <PostRevisionHistory postId={postId} currentContent={content} editedAt={editedAt} />
+          )}
 
           {post.imageUrl && (
             <div className="relative rounded-xl overflow-hidden bg-muted">
@@ -228,11 +352,12 @@ export const PostCard: React.FC<PostCardProps> = ({
                 size="sm"
                 className="group flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-all duration-200 hover:bg-blue-50 hover:text-blue-600"
                 onClick={handleComment}
-                aria-label={`Comment on post (${post.commentsCount} comments)`}
+                aria-label={`Comment on post (${commentsCount} comments)`}
+                aria-expanded={showComments}
               >
                 <MessageCircle className="w-4 h-4 transition-all duration-200 group-hover:scale-110" />
                 <span className="text-sm font-medium min-w-[1rem]">
-                  {post.commentsCount}
+                  {commentsCount}
                 </span>
               </Button>
             </div>
@@ -249,6 +374,15 @@ export const PostCard: React.FC<PostCardProps> = ({
               </Button>
             </div>
           </div>
+
+          {showComments && (
+            <CommentThread
+              postId={postId}
+              postAuthorId={authorId}
+              currentUserId={currentUserId}
+              onCountChange={(delta) => setCommentsCount(count => Math.max(count + delta, 0))}
+            />
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,62 @@
+import React from 'react';
+import { PostRevision } from '@/types/profile';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
+import { Loader2 } from 'lucide-react';
+import { apiService } from '@/services/api';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+
+interface PostRevisionHistoryProps {
+  postId: string;
+  currentContent: string;
+  editedAt?: string;
+}
+
+export const PostRevisionHistory: React.FC<PostRevisionHistoryProps> = ({
+  postId,
+  currentContent,
+  editedAt
+}) => {
+  // Reload whenever the post is edited again while the history is open
+  const { items: revisions, isLoading, isLoadingMore, error, hasMore, loadMore } = usePaginatedList<PostRevision>(
+    async (cursor) => {
+      const result = await apiService.getPostRevisions(postId, { cursor });
+      return { items: result.revisions, nextCursor: result.nextCursor };
+    },
+    `${postId}:${editedAt ?? ''}`
+  );
+
+  const formatTimestamp = (dateString: string) => new Date(dateString).toLocaleString();
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-muted/30 p-3 text-sm" onClick={(e) => e.stopPropagation()}>
+      <h4 className="font-semibold mb-2">Edit history</h4>
+
+      {error ? (
+        <p className="text-destructive">{error}</p>
+      ) : isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <ol className="space-y-2">
+          <li>
+            <div className="text-xs text-muted-foreground">
+              Current{editedAt && ` · edited ${formatTimestamp(editedAt)}`}
+            </div>
+            <p className="whitespace-pre-wrap break-words">{currentContent}</p>
+          </li>
+          {revisions.map(revision => (
+            <li key={revision.revision} className="pt-2 border-t border-border/50">
+              <div className="text-xs text-muted-foreground">
+                Version {revision.revision} · {formatTimestamp(revision.createdAt)}
+              </div>
+              <p className="whitespace-pre-wrap break-words text-muted-foreground">{revision.content}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {!error && !isLoading && <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />}
+    </div>
+  );
+};
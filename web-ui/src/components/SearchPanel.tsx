@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FollowButton } from '@/components/FollowButton';
+import { PostCard } from '@/components/PostCard';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
+import { apiService } from '@/services/api';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+import { Post, Profile, SearchType } from '@/types/profile';
+import { Loader2, Search, User } from 'lucide-react';
+
+const SEARCH_TABS: { id: SearchType; label: string }[] = [
+  { id: 'profiles', label: 'People' },
+  { id: 'posts', label: 'Posts' },
+];
+
+interface SearchPanelProps {
+  currentUserId: string;
+}
+
+/**
+ * Search box with tabbed people and post results
+ */
+export const SearchPanel: React.FC<SearchPanelProps> = ({ currentUserId }) => {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [activeTab, setActiveTab] = useState<SearchType>('profiles');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(input.trim());
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex gap-2" role="search">
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Search people and posts"
+          aria-label="Search"
+          maxLength={100}
+        />
+        <Button type="submit" variant="outline" disabled={!input.trim()}>
+          <Search className="w-4 h-4" />
+        </Button>
+      </form>
+
+      {query && (
+        <>
+          <div className="flex gap-2 border-b" role="tablist">
+            {SEARCH_TABS.map(t => (
+              <Button
+                key={t.id}
+                variant="ghost"
+                size="sm"
+                role="tab"
+                aria-selected={activeTab === t.id}
+                className={activeTab === t.id ? 'border-b-2 border-primary rounded-none' : 'rounded-none'}
+                onClick={() => setActiveTab(t.id)}
+              >
+                {t.label}
+              </Button>
+            ))}
+          </div>
+
+          {activeTab === 'profiles'
+            ? <ProfileResults query={query} currentUserId={currentUserId} />
+            : <PostResults query={query} currentUserId={currentUserId} />}
+        </>
+      )}
+    </div>
+  );
+};
+
+interface ResultsProps {
+  query: string;
+  currentUserId: string;
+}
+
+const ProfileResults: React.FC<ResultsProps> = ({ query, currentUserId }) => {
+  const navigate = useNavigate();
+  const results = usePaginatedList<Profile>(
+    async (cursor) => {
+      const result = await apiService.searchProfiles(query, { cursor });
+      return { items: result.results, nextCursor: result.nextCursor };
+    },
+    `profiles:${query}`
+  );
+
+  return (
+    <SearchResults {...results} emptyMessage={`No people match "${query}".`}>
+      <ul className="divide-y rounded-md border">
+        {results.items.map(profile => (
+          <li key={profile.userId} className="flex items-center gap-3 p-3">
+            <button
+              type="button"
+              className="flex items-center gap-3 min-w-0 flex-1 text-left"
+              onClick={() => navigate(`/profile/${profile.userId}`)}
+            >
+              {profile.avatar ? (
+                <img
+                  src={profile.avatar}
+                  alt={`${profile.displayName}'s avatar`}
+                  className="w-10 h-10 rounded-full object-cover shrink-0"
+                />
+              ) : (
+                <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center shrink-0">
+                  <User className="w-5 h-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="min-w-0">
+                <div className="font-medium truncate">{profile.displayName}</div>
+                <div className="text-sm text-muted-foreground truncate">@{profile.username}</div>
+              </div>
+            </button>
+            {profile.userId !== currentUserId && (
+              <FollowButton currentUserId={currentUserId} targetUserId={profile.userId} />
+            )}
+          </li>
+        ))}
+      </ul>
+    </SearchResults>
+  );
+};
+
+const PostResults: React.FC<ResultsProps> = ({ query, currentUserId }) => {
+  const navigate = useNavigate();
+  const results = usePaginatedList<Post>(
+    async (cursor) => {
+      const result = await apiService.searchPosts(query, { cursor });
+      return { items: result.results, nextCursor: result.nextCursor };
+    },
+    `posts:${query}`
+  );
+
+  return (
+    <SearchResults {...results} emptyMessage={`No posts match "${query}".`}>
+      <div className="space-y-4">
+        {results.items.map(post => (
+          <PostCard
+            key={post.postId}
+            post={post}
+            onClick={() => navigate(`/profile/${post.userId}`)}
+            currentUserId={currentUserId}
+          />
+        ))}
+      </div>
+    </SearchResults>
+  );
+};
+
+interface SearchResultsProps {
+  items: unknown[];
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string;
+  hasMore: boolean;
+  loadMore: () => void;
+  emptyMessage: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Loading, error, empty and load-more states shared by both result lists
+ */
+const SearchResults: React.FC<SearchResultsProps> = ({
+  items, isLoading, isLoadingMore, error, hasMore, loadMore, emptyMessage, children,
+}) => {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="p-4 text-sm text-destructive bg-destructive/10 rounded-md border border-destructive/20">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 && !error
+        ? <p className="text-muted-foreground text-center py-8">{emptyMessage}</p>
+        : children}
+
+      <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { usePaginatedList, Page } from './usePaginatedList';
+
+const pages: Record<string, Page<string>> = {
+  first: { items: ['a', 'b'], nextCursor: 'cursor-1' },
+  'cursor-1': { items: ['c'], nextCursor: null },
+};
+
+describe('usePaginatedList', () => {
+  test('loads the first page and appends the next one', async () => {
+    const fetchPage = jest.fn((cursor?: string) => Promise.resolve(pages[cursor ?? 'first']));
+
+    const { result } = renderHook(() => usePaginatedList(fetchPage, 'user-1'));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.items).toEqual(['a', 'b']);
+    expect(result.current.hasMore).toBe(true);
+
+    await act(async () => {
+      await result.current.loadMore();
+    });
+
+    expect(fetchPage).toHaveBeenLastCalledWith('cursor-1');
+    expect(result.current.items).toEqual(['a', 'b', 'c']);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  test('starts over when the key changes', async () => {
+    const fetchPage = jest.fn((cursor?: string) => Promise.resolve(pages[cursor ?? 'first']));
+
+    const { result, rerender } = renderHook(
+      ({ key }) => usePaginatedList(fetchPage, key),
+      { initialProps: { key: 'user-1' } }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    await act(async () => {
+      await result.current.loadMore();
+    });
+
+    rerender({ key: 'user-2' });
+
+    await waitFor(() => expect(result.current.items).toEqual(['a', 'b']));
+    expect(fetchPage).toHaveBeenLastCalledWith();
+  });
+
+  test('does not fetch without a key', () => {
+    const fetchPage = jest.fn();
+
+    renderHook(() => usePaginatedList(fetchPage, undefined));
+
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Accumulates pages from a cursor-paginated endpoint.
+ * `fetchPage` is called with no cursor for the first page and with the
+ * previous page's nextCursor afterwards; the list resets whenever `key` changes.
+ */
+export function usePaginatedList<T>(
+  fetchPage: (cursor?: string) => Promise<Page<T>>,
+  key: string | undefined
+) {
+  const [items, setItems] = useState<T[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  // Responses for a previous key (or a superseded reload) are dropped
+  const generation = useRef(0);
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const reload = useCallback(async () => {
+    if (!key) {
+      setIsLoading(false);
+      return;
+    }
+
+    const current = ++generation.current;
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const page = await fetchPageRef.current();
+      if (current !== generation.current) return;
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (current !== generation.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      if (current === generation.current) setIsLoading(false);
+    }
+  }, [key]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+
+    const current = generation.current;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await fetchPageRef.current(nextCursor);
+      if (current !== generation.current) return;
+      setItems(prev => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (current !== generation.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load more');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoading, isLoadingMore]);
+
+  useEffect(() => {
+    setItems([]);
+    setNextCursor(null);
+    reload();
+  }, [reload]);
+
+  return {
+    items,
+    setItems,
+    isLoading,
+    isLoadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore,
+    reload,
+  };
+}
@@ -172,10 +172,20 @@ describe('AdminPage', () => {
   });
 
   test('deletes user when delete button is clicked and confirmed', async () => {
-    mockAdminService.deleteUser.mockResolvedValue({
-      message: 'User deleted successfully',
-      deletedItems: 5,
+    const deletion = {
       userId: 'user-1',
+      status: 'running' as const,
+      phase: 'posts',
+      progress: {},
+      startedAt: '2024-01-15T10:00:00Z',
+      updatedAt: '2024-01-15T10:00:00Z',
+    };
+    mockAdminService.deleteUser.mockResolvedValue({ message: 'User deletion started', deletion });
+    mockAdminService.getUserDeletion.mockResolvedValue({
+      ...deletion,
+      status: 'completed',
+      phase: 'done',
+      progress: { posts: 10, follows: 8 },
     });
 
     renderWithProviders(<AdminPage />);
@@ -201,9 +211,11 @@ describe('AdminPage', () => {
         expect(mockAdminService.deleteUser).toHaveBeenCalledWith('user-1');
       });
 
+      // The deletion is polled until it completes
       await waitFor(() => {
+        expect(mockAdminService.getUserDeletion).toHaveBeenCalledWith('user-1');
         expect(screen.getByText(/User "testuser1" deleted successfully/)).toBeInTheDocument();
-      });
+      }, { timeout: 5000 });
     }
   });
 
@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { adminService, AdminUser, UserListResponse, EventBridgeEvent, EventsResponse } from '@/services/admin';
+import { adminService, AdminUser, UserListResponse, EventBridgeEvent, EventsResponse, EventFilters, DeadLetterQueue, UserDeletion } from '@/services/admin';
 import {
   Settings,
   Users,
@@ -19,9 +19,20 @@ import {
   CheckCircle,
   Home,
   Activity,
-  Clock
+  Clock,
+  RotateCcw
 } from 'lucide-react';
 
+const DELETION_POLL_INTERVAL_MS = 2000;
+
+// "3 posts, 12 follows" from a deletion's non-zero counts
+const describeDeletion = ({ phase, progress }: UserDeletion) => {
+  const removed = Object.entries(progress)
+    .filter(([, count]) => count > 0)
+    .map(([name, count]) => `${count} ${name}`);
+  return `Deleting (${phase})` + (removed.length ? `: ${removed.join(', ')} removed` : '');
+};
+
 export const AdminPage: React.FC = () => {
   const navigate = useNavigate();
   const { refreshUsers } = useUser();
@@ -45,7 +56,14 @@ export const AdminPage: React.FC = () => {
   // EventBridge events state
   const [events, setEvents] = useState<EventBridgeEvent[]>([]);
   const [eventsLoading, setEventsLoading] = useState(false);
-  const [eventsNextToken, setEventsNextToken] = useState<string | undefined>();
+  const [eventsNextCursor, setEventsNextCursor] = useState<string | null>(null);
+  const [eventFilters, setEventFilters] = useState<EventFilters>({});
+
+  // Dead letter queues state
+  const [deadLetterQueues, setDeadLetterQueues] = useState<DeadLetterQueue[]>([]);
+
+  // User deletions in progress, by user ID
+  const [deletions, setDeletions] = useState<Record<string, { username: string; deletion: UserDeletion }>>({});
 
   const loadUsers = async (page = 1) => {
     try {
@@ -63,6 +81,7 @@ export const AdminPage: React.FC = () => {
   useEffect(() => {
     loadUsers();
     loadEvents();
+    loadDeadLetterQueues();
   }, []);
 
   const handleDeleteUser = async (userId: string, username: string) => {
@@ -72,10 +91,9 @@ export const AdminPage: React.FC = () => {
 
     try {
       setActionLoading(`delete-${userId}`);
-      await adminService.deleteUser(userId);
-      setMessage({ type: 'success', text: `User "${username}" deleted successfully` });
-      loadUsers(pagination.currentPage);
-      refreshUsers(); // Refresh user switcher
+      const { deletion } = await adminService.deleteUser(userId);
+      setDeletions(current => ({ ...current, [userId]: { username, deletion } }));
+      setMessage({ type: 'success', text: `Deleting user "${username}"...` });
     } catch (error) {
       setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete user' });
     } finally {
@@ -83,6 +101,33 @@ export const AdminPage: React.FC = () => {
     }
   };
 
+  // Deletions run in the background; poll the running ones until they complete
+  useEffect(() => {
+    const running = Object.entries(deletions).filter(([, { deletion }]) => deletion.status === 'running');
+    if (running.length === 0) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      for (const [userId, { username }] of running) {
+        try {
+          const deletion = await adminService.getUserDeletion(userId);
+          setDeletions(current => ({ ...current, [userId]: { username, deletion } }));
+
+          if (deletion.status === 'completed') {
+            setMessage({ type: 'success', text: `User "${username}" deleted successfully` });
+            loadUsers(pagination.currentPage);
+            refreshUsers(); // Refresh user switcher
+          }
+        } catch (error) {
+          setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to check user deletion' });
+        }
+      }
+    }, DELETION_POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [deletions]);
+
   const handleCleanupAll = async () => {
     if (!window.confirm('Are you sure you want to delete ALL users and data? This action cannot be undone.')) {
       return;
@@ -124,14 +169,24 @@ export const AdminPage: React.FC = () => {
   const loadEvents = async (loadMore = false) => {
     try {
       setEventsLoading(true);
-      const response: EventsResponse = await adminService.getEvents(50, loadMore ? eventsNextToken : undefined);
+      // The time range inputs are local times; the API takes ISO timestamps
+      const filters: EventFilters = {
+        ...eventFilters,
+        from: eventFilters.from && new Date(eventFilters.from).toISOString(),
+        to: eventFilters.to && new Date(eventFilters.to).toISOString(),
+      };
+      const response: EventsResponse = await adminService.getEvents(
+        filters,
+        50,
+        loadMore && eventsNextCursor ? eventsNextCursor : undefined
+      );
 
       if (loadMore) {
         setEvents(prev => [...prev, ...response.events]);
       } else {
         setEvents(response.events);
       }
-      setEventsNextToken(response.nextToken);
+      setEventsNextCursor(response.nextCursor);
     } catch (error) {
       setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load events' });
     } finally {
@@ -139,6 +194,30 @@ export const AdminPage: React.FC = () => {
     }
   };
 
+  const loadDeadLetterQueues = async () => {
+    try {
+      setDeadLetterQueues(await adminService.listDeadLetterQueues() ?? []);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load failed events' });
+    }
+  };
+
+  const handleRedrive = async (consumer: string) => {
+    try {
+      setActionLoading(`redrive-${consumer}`);
+      const result = await adminService.redriveDeadLetters(consumer);
+      setMessage({
+        type: result.failed ? 'error' : 'success',
+        text: `Redrove ${result.redriven} failed events to ${consumer}` + (result.failed ? `, ${result.failed} could not be sent` : ''),
+      });
+      loadDeadLetterQueues();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to redrive events' });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString() + ' ' + new Date(dateString).toLocaleTimeString();
   };
@@ -258,6 +337,54 @@ export const AdminPage: React.FC = () => {
           </Card>
         </div>
 
+        {/* Failed Events */}
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5" />
+                Failed Events
+              </CardTitle>
+              <Button onClick={loadDeadLetterQueues} variant="outline" size="sm">
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {deadLetterQueues.length === 0 ? (
+              <div className="text-center py-4 text-muted-foreground">
+                No dead letter queues
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {deadLetterQueues.map((queue) => (
+                  <div key={queue.consumer} className="border rounded-lg p-3 flex items-center justify-between">
+                    <div>
+                      <span className="font-medium text-sm">{queue.consumer}</span>
+                      <span className="text-sm text-muted-foreground ml-2">
+                        {queue.approximateCount} failed{queue.inFlight ? `, ${queue.inFlight} in flight` : ''}
+                      </span>
+                    </div>
+                    <Button
+                      onClick={() => handleRedrive(queue.consumer)}
+                      disabled={queue.approximateCount === 0 || actionLoading === `redrive-${queue.consumer}`}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {actionLoading === `redrive-${queue.consumer}` ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                      )}
+                      Redrive
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* EventBridge Events */}
         <Card className="mb-8">
           <CardHeader>
@@ -272,6 +399,61 @@ export const AdminPage: React.FC = () => {
             </div>
           </CardHeader>
           <CardContent>
+            <form
+              className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                loadEvents(false);
+              }}
+            >
+              <div>
+                <Label htmlFor="eventSource">Source</Label>
+                <Input
+                  id="eventSource"
+                  placeholder="social-media.posts"
+                  value={eventFilters.source ?? ''}
+                  onChange={(e) => setEventFilters(prev => ({ ...prev, source: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="eventDetailType">Detail Type</Label>
+                <Input
+                  id="eventDetailType"
+                  placeholder="Post Created"
+                  value={eventFilters.detailType ?? ''}
+                  onChange={(e) => setEventFilters(prev => ({ ...prev, detailType: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="eventUserId">User ID</Label>
+                <Input
+                  id="eventUserId"
+                  value={eventFilters.userId ?? ''}
+                  onChange={(e) => setEventFilters(prev => ({ ...prev, userId: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="eventFrom">From</Label>
+                <Input
+                  id="eventFrom"
+                  type="datetime-local"
+                  value={eventFilters.from ?? ''}
+                  onChange={(e) => setEventFilters(prev => ({ ...prev, from: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="eventTo">To</Label>
+                <Input
+                  id="eventTo"
+                  type="datetime-local"
+                  value={eventFilters.to ?? ''}
+                  onChange={(e) => setEventFilters(prev => ({ ...prev, to: e.target.value }))}
+                />
+              </div>
+              <Button type="submit" disabled={eventsLoading} variant="outline" size="sm" className="col-span-2 md:col-span-5">
+                Apply Filters
+              </Button>
+            </form>
             {eventsLoading && events.length === 0 ? (
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="w-6 h-6 animate-spin mr-2" />
@@ -307,7 +489,7 @@ export const AdminPage: React.FC = () => {
                     </div>
                   ))}
                 </div>
-                {eventsNextToken && (
+                {eventsNextCursor && (
                   <div className="flex justify-center">
                     <Button
                       onClick={() => loadEvents(true)}
@@ -402,18 +584,25 @@ export const AdminPage: React.FC = () => {
                           <div className="text-sm">{formatDate(user.createdAt)}</div>
                         </td>
                         <td className="p-2">
-                          <Button
-                            onClick={() => handleDeleteUser(user.userId, user.username)}
-                            disabled={actionLoading === `delete-${user.userId}`}
-                            variant="destructive"
-                            size="sm"
-                          >
-                            {actionLoading === `delete-${user.userId}` ? (
-                              <Loader2 className="w-4 h-4 animate-spin" />
-                            ) : (
-                              <Trash2 className="w-4 h-4" />
-                            )}
-                          </Button>
+                          {deletions[user.userId]?.deletion.status === 'running' ? (
+                            <div className="flex items-center text-sm text-muted-foreground">
+                              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                              {describeDeletion(deletions[user.userId].deletion)}
+                            </div>
+                          ) : (
+                            <Button
+                              onClick={() => handleDeleteUser(user.userId, user.username)}
+                              disabled={actionLoading === `delete-${user.userId}`}
+                              variant="destructive"
+                              size="sm"
+                            >
+                              {actionLoading === `delete-${user.userId}` ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="w-4 h-4" />
+                              )}
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     ))}
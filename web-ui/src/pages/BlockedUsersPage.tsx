@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUser } from '@/contexts/UserContext';
+import { BlockList } from '@/components/BlockList';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Ban } from 'lucide-react';
+
+type BlockListTab = 'blocks' | 'mutes';
+
+const BLOCK_LIST_TABS: { id: BlockListTab; label: string; description: string }[] = [
+  { id: 'blocks', label: 'Blocked', description: 'Blocked users cannot follow you, like or comment on your posts.' },
+  { id: 'mutes', label: 'Muted', description: 'Posts from muted users are hidden from your feed. They are not notified.' },
+];
+
+export const BlockedUsersPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentUser } = useUser();
+  const [activeTab, setActiveTab] = useState<BlockListTab>('blocks');
+
+  if (!currentUser) {
+    return <div>Please select a user</div>;
+  }
+
+  const tab = BLOCK_LIST_TABS.find(t => t.id === activeTab)!;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="container mx-auto max-w-2xl">
+        <div className="mb-6">
+          <Button onClick={() => navigate('/')} variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ban className="w-5 h-5" />
+              Blocked &amp; Muted
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2 border-b" role="tablist">
+              {BLOCK_LIST_TABS.map(t => (
+                <Button
+                  key={t.id}
+                  variant="ghost"
+                  size="sm"
+                  role="tab"
+                  aria-selected={activeTab === t.id}
+                  className={activeTab === t.id ? 'border-b-2 border-primary rounded-none' : 'rounded-none'}
+                  onClick={() => setActiveTab(t.id)}
+                >
+                  {t.label}
+                </Button>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground">{tab.description}</p>
+
+            <BlockList key={activeTab} userId={currentUser.userId} list={activeTab} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,23 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { CreateProfileForm } from '@/components/CreateProfileForm';
-import { apiService } from '@/services/api';
-import { CreateProfileRequest } from '@/types/profile';
+import { authService, RegisterRequest } from '@/services/auth';
+import { useUser } from '@/contexts/UserContext';
 
 export const CreateProfilePage: React.FC = () => {
   const navigate = useNavigate();
+  const { setCurrentUser, addUser } = useUser();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
 
-  const handleCreateProfile = async (data: CreateProfileRequest) => {
+  const handleCreateProfile = async (data: RegisterRequest) => {
     setIsLoading(true);
     setError('');
 
     try {
-      const newProfile = await apiService.createProfile(data);
+      const { profile: newProfile } = await authService.register(data);
+      addUser(newProfile);
+      setCurrentUser(newProfile);
       navigate(`/profile/${newProfile.userId}`, { replace: true });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create profile');
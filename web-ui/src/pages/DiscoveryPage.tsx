@@ -6,7 +6,9 @@ import { Button } from '@/components/ui/button';
 import { FollowButton } from '@/components/FollowButton';
 import { PostCard } from '@/components/PostCard';
 import { UserSwitcher } from '@/components/UserSwitcher';
-import { Home, RefreshCw, User, Users, MessageSquare, Loader2 } from 'lucide-react';
+import { NotificationBell } from '@/components/NotificationBell';
+import { SearchPanel } from '@/components/SearchPanel';
+import { Home, RefreshCw, User, Users, MessageSquare, Loader2, Search } from 'lucide-react';
 import { Post } from '@/types/profile';
 import { apiService } from '@/services/api';
 
@@ -112,12 +114,26 @@ export const DiscoveryPage: React.FC = () => {
                 >
                   <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
                 </Button>
+                <NotificationBell />
                 <UserSwitcher />
               </div>
             </div>
           </CardHeader>
         </Card>
 
+        {/* Search */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Search className="w-5 h-5" />
+              Search
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SearchPanel currentUserId={currentUser.userId} />
+          </CardContent>
+        </Card>
+
         {/* User Recommendations */}
         <Card>
           <CardHeader>
@@ -99,6 +99,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: [],
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     renderFeedPage();
@@ -113,6 +115,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: [],
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     renderFeedPage();
@@ -158,6 +162,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: mockFeedItems,
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     renderFeedPage();
@@ -175,6 +181,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: [],
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     mockApiService.createPost.mockResolvedValue({
@@ -222,6 +230,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: [],
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     renderFeedPage();
@@ -237,6 +247,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: [],
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     renderFeedPage();
@@ -256,6 +268,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: [],
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     // Mock a delayed response
@@ -301,6 +315,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: [],
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     mockApiService.createPost.mockRejectedValue(new Error('Failed to create post'));
@@ -322,6 +338,8 @@ describe('FeedPage', () => {
     mockApiService.getUserFeed.mockResolvedValue({
       feedItems: [],
       userId: 'demo-user-123',
+      mode: 'chronological',
+      nextCursor: null,
     });
 
     renderFeedPage();
@@ -1,47 +1,45 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useUser } from '@/contexts/UserContext';
 import { PostCard } from '@/components/PostCard';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
 import { UserSwitcher } from '@/components/UserSwitcher';
+import { NotificationBell } from '@/components/NotificationBell';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
-import { FeedItem, CreatePostRequest } from '@/types/profile';
+import { FeedItem, FeedMode, CreatePostRequest } from '@/types/profile';
 import { apiService } from '@/services/api';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
 import { Loader2, Home, PenSquare, RefreshCw, ImagePlus, X } from 'lucide-react';
 
+const FEED_MODES: { id: FeedMode; label: string }[] = [
+  { id: 'chronological', label: 'Latest' },
+  { id: 'ranked', label: 'For You' },
+];
+
 export const FeedPage: React.FC = () => {
   const navigate = useNavigate();
   const { currentUser } = useUser();
-  const [feedItems, setFeedItems] = useState<FeedItem[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isCreatingPost, setIsCreatingPost] = useState(false);
   const [newPostContent, setNewPostContent] = useState('');
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [error, setError] = useState<string>('');
+  const [feedMode, setFeedMode] = useState<FeedMode>('chronological');
 
-  const fetchFeed = async () => {
-    if (!currentUser) return;
-
-    setIsLoading(true);
-    setError('');
-
-    try {
-      const result = await apiService.getUserFeed(currentUser.userId);
-      setFeedItems(result.feedItems);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch feed');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    if (currentUser) {
-      fetchFeed();
-    }
-  }, [currentUser]);
+  const {
+    items: feedItems,
+    isLoading,
+    isLoadingMore,
+    error: feedError,
+    hasMore,
+    loadMore,
+    reload: fetchFeed,
+  } = usePaginatedList<FeedItem>(async (cursor) => {
+    const result = await apiService.getUserFeed(currentUser!.userId, { cursor }, feedMode);
+    return { items: result.feedItems, nextCursor: result.nextCursor };
+  }, currentUser ? `${currentUser.userId}:${feedMode}` : undefined);
 
   if (!currentUser) {
     return <div>Please select a user</div>;
@@ -144,6 +142,7 @@ export const FeedPage: React.FC = () => {
             <Button onClick={() => navigate('/discover')} variant="outline" size="sm">
               Discover
             </Button>
+            <NotificationBell />
             <UserSwitcher />
           </div>
         </div>
@@ -226,10 +225,27 @@ export const FeedPage: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Feed Mode */}
+        <div className="mb-4 flex gap-2 border-b" role="tablist">
+          {FEED_MODES.map(m => (
+            <Button
+              key={m.id}
+              variant="ghost"
+              size="sm"
+              role="tab"
+              aria-selected={feedMode === m.id}
+              className={feedMode === m.id ? 'border-b-2 border-primary rounded-none' : 'rounded-none'}
+              onClick={() => setFeedMode(m.id)}
+            >
+              {m.label}
+            </Button>
+          ))}
+        </div>
+
         {/* Error Message */}
-        {error && (
+        {(error || feedError) && (
           <div className="mb-4 p-4 text-sm text-destructive bg-destructive/10 rounded-md border border-destructive/20">
-            {error}
+            {error || feedError}
           </div>
         )}
 
@@ -268,6 +284,7 @@ export const FeedPage: React.FC = () => {
                 currentUserId={currentUserId}
               />
             ))}
+            <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
           </div>
         )}
       </div>
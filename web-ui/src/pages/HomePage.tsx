@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { PostCard } from '@/components/PostCard';
 import { UserSwitcher } from '@/components/UserSwitcher';
+import { NotificationBell } from '@/components/NotificationBell';
 import {
   Settings,
   Users,
@@ -18,11 +19,12 @@ import {
   CheckCircle,
   Home,
   MessageSquare,
-  User
+  User,
+  Ban
 } from 'lucide-react';
 import { adminService } from '@/services/admin';
 import { apiService } from '@/services/api';
-import { FeedItem, CreateProfileRequest } from '@/types/profile';
+import { FeedItem } from '@/types/profile';
 
 export const HomePage: React.FC = () => {
   const navigate = useNavigate();
@@ -33,12 +35,6 @@ export const HomePage: React.FC = () => {
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [testUserCount, setTestUserCount] = useState(5);
   const [testPostsPerUser, setTestPostsPerUser] = useState(3);
-  const [profileForm, setProfileForm] = useState<CreateProfileRequest>({
-    username: '',
-    email: '',
-    displayName: '',
-    bio: '',
-  });
 
   const loadFeed = async () => {
     if (!currentUser) return;
@@ -94,36 +90,6 @@ export const HomePage: React.FC = () => {
     }
   };
 
-  const handleCreateProfile = async () => {
-    if (!profileForm.username || !profileForm.email || !profileForm.displayName) {
-      setMessage({ type: 'error', text: 'Username, email, and display name are required' });
-      return;
-    }
-
-    try {
-      setActionLoading('create');
-      const newProfile = await apiService.createProfile(profileForm);
-      setMessage({
-        type: 'success',
-        text: `Profile created: ${newProfile.displayName} (@${newProfile.username})`
-      });
-
-      setProfileForm({
-        username: '',
-        email: '',
-        displayName: '',
-        bio: '',
-      });
-
-      await refreshUsers();
-      if (currentUser) loadFeed();
-    } catch (error) {
-      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to create profile' });
-    } finally {
-      setActionLoading(null);
-    }
-  };
-
   const handleCleanupAll = async () => {
     if (!window.confirm('Are you sure you want to delete ALL users and data? This action cannot be undone.')) {
       return;
@@ -180,8 +146,9 @@ export const HomePage: React.FC = () => {
             <CardHeader className="pb-3">
               <CardTitle className="text-sm">Current User</CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="flex items-center gap-2">
               <UserSwitcher />
+              <NotificationBell />
             </CardContent>
           </Card>
 
@@ -245,61 +212,15 @@ export const HomePage: React.FC = () => {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <div>
-                <Label htmlFor="username" className="text-xs">Username</Label>
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder="john_doe"
-                  value={profileForm.username}
-                  onChange={(e) => setProfileForm(prev => ({ ...prev, username: e.target.value }))}
-                  className="h-8"
-                />
-              </div>
-              <div>
-                <Label htmlFor="email" className="text-xs">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="john@example.com"
-                  value={profileForm.email}
-                  onChange={(e) => setProfileForm(prev => ({ ...prev, email: e.target.value }))}
-                  className="h-8"
-                />
-              </div>
-              <div>
-                <Label htmlFor="displayName" className="text-xs">Display Name</Label>
-                <Input
-                  id="displayName"
-                  type="text"
-                  placeholder="John Doe"
-                  value={profileForm.displayName}
-                  onChange={(e) => setProfileForm(prev => ({ ...prev, displayName: e.target.value }))}
-                  className="h-8"
-                />
-              </div>
-              <div>
-                <Label htmlFor="bio" className="text-xs">Bio (optional)</Label>
-                <Input
-                  id="bio"
-                  type="text"
-                  placeholder="A short bio..."
-                  value={profileForm.bio}
-                  onChange={(e) => setProfileForm(prev => ({ ...prev, bio: e.target.value }))}
-                  className="h-8"
-                />
-              </div>
+              <p className="text-xs text-muted-foreground">
+                Register a new user with a password; their profile is created with the account.
+              </p>
               <Button
-                onClick={handleCreateProfile}
-                disabled={actionLoading === 'create'}
+                onClick={() => navigate('/create-profile')}
                 className="w-full h-8 text-xs"
                 size="sm"
               >
-                {actionLoading === 'create' ? (
-                  <Loader2 className="w-3 h-3 mr-2 animate-spin" />
-                ) : (
-                  <User className="w-3 h-3 mr-2" />
-                )}
+                <User className="w-3 h-3 mr-2" />
                 Create Profile
               </Button>
             </CardContent>
@@ -355,6 +276,15 @@ export const HomePage: React.FC = () => {
                 <Home className="w-3 h-3 mr-2" />
                 Feed
               </Button>
+              <Button
+                variant="outline"
+                className="w-full h-8 text-xs justify-start"
+                size="sm"
+                onClick={() => navigate('/settings/blocked')}
+              >
+                <Ban className="w-3 h-3 mr-2" />
+                Blocked &amp; Muted
+              </Button>
               <Button
                 variant="outline"
                 className="w-full h-8 text-xs justify-start"
@@ -1,11 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ProfileCard } from '@/components/ProfileCard';
+import { PostCard } from '@/components/PostCard';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
+import { FollowList } from '@/components/FollowList';
+import { FollowRequestList } from '@/components/FollowRequestList';
+import { BlockMuteControls } from '@/components/BlockMuteControls';
 import { EditProfileForm } from '@/components/EditProfileForm';
 import { Button } from '@/components/ui/button';
 import { apiService } from '@/services/api';
-import { Profile, UpdateProfileRequest } from '@/types/profile';
-import { Loader2, ArrowLeft, AlertCircle } from 'lucide-react';
+import { usePaginatedList } from '@/hooks/usePaginatedList';
+import { Post, Profile, Relationship, UpdateProfileRequest } from '@/types/profile';
+import { Loader2, ArrowLeft, AlertCircle, Lock } from 'lucide-react';
+
+type ProfileTab = 'posts' | 'followers' | 'following' | 'requests';
+
+const PROFILE_TABS: { id: ProfileTab; label: string }[] = [
+  { id: 'posts', label: 'Posts' },
+  { id: 'followers', label: 'Followers' },
+  { id: 'following', label: 'Following' },
+];
+
+// Only the owner of a private account sees its pending requests
+const REQUESTS_TAB: { id: ProfileTab; label: string } = { id: 'requests', label: 'Requests' };
 
 export const ProfilePage: React.FC = () => {
   const { userId } = useParams<{ userId: string }>();
@@ -15,16 +32,54 @@ export const ProfilePage: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [error, setError] = useState<string>('');
+  const [activeTab, setActiveTab] = useState<ProfileTab>('posts');
+  const [relationship, setRelationship] = useState<Relationship | null>(null);
 
   // Mock current user ID - in a real app, this would come from authentication context
   const currentUserId = 'demo-user-123';
 
+  const {
+    items: posts,
+    isLoading: isLoadingPosts,
+    isLoadingMore,
+    error: postsError,
+    hasMore,
+    loadMore,
+  } = usePaginatedList<Post>(async (cursor) => {
+    const result = await apiService.getUserPosts(userId!, { cursor });
+    return { items: result.posts, nextCursor: result.nextCursor };
+  }, userId);
+
   useEffect(() => {
     if (userId) {
       fetchProfile();
     }
   }, [userId]); // fetchProfile is not memoized, but this is fine for this simple use case
 
+  useEffect(() => {
+    setActiveTab('posts');
+    setRelationship(null);
+    if (!userId || userId === currentUserId) return;
+
+    let cancelled = false;
+    // The badge and block/mute controls are extras; a failed lookup just leaves them hidden
+    apiService.getRelationship(currentUserId, userId)
+      .then(result => { if (!cancelled) setRelationship(result); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  // Blocking also removes follows, so the counts are refreshed with the flags
+  const handleBlockMuteChange = async () => {
+    if (!userId) return;
+    fetchProfile();
+    try {
+      setRelationship(await apiService.getRelationship(currentUserId, userId));
+    } catch {
+      setRelationship(null);
+    }
+  };
+
   const fetchProfile = async () => {
     if (!userId) return;
 
@@ -93,6 +148,47 @@ export const ProfilePage: React.FC = () => {
     return null;
   }
 
+  const isOwner = currentUserId === userId;
+  const isHidden = profile.isPrivate && !isOwner && !relationship?.following;
+  const tabs = isOwner && profile.isPrivate ? [...PROFILE_TABS, REQUESTS_TAB] : PROFILE_TABS;
+
+  const renderPosts = () => (
+    <>
+      {postsError && (
+        <div className="p-4 text-sm text-destructive bg-destructive/10 rounded-md border border-destructive/20">
+          {postsError}
+        </div>
+      )}
+
+      {isLoadingPosts ? (
+        <div className="flex items-center justify-center py-8 text-muted-foreground">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : posts.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">No posts yet.</p>
+      ) : (
+        <>
+          {posts.map(post => (
+            <PostCard key={post.postId} post={post} currentUserId={currentUserId} />
+          ))}
+          <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={loadMore} />
+        </>
+      )}
+    </>
+  );
+
+  const renderTab = () => {
+    switch (activeTab) {
+      case 'followers':
+      case 'following':
+        return <FollowList userId={userId!} direction={activeTab} />;
+      case 'requests':
+        return <FollowRequestList userId={userId!} onDecision={fetchProfile} />;
+      default:
+        return renderPosts();
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background p-4">
       <div className="container mx-auto max-w-4xl">
@@ -122,13 +218,61 @@ export const ProfilePage: React.FC = () => {
               isLoading={isUpdating}
             />
           ) : (
-            <ProfileCard
-              profile={profile}
-              isOwner={currentUserId === userId} // Check if current user owns this profile
-              currentUserId={currentUserId}
-              onEdit={() => setIsEditing(true)}
-              onFollowChange={fetchProfile} // Refresh profile to update follower counts
-            />
+            <div className="w-full">
+              {relationship?.followedBy && (
+                <div className="flex justify-center mb-2">
+                  <span className="text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground">
+                    {relationship.mutual ? 'Mutual' : 'Follows you'}
+                  </span>
+                </div>
+              )}
+              <ProfileCard
+                profile={profile}
+                isOwner={isOwner}
+                currentUserId={currentUserId}
+                onEdit={() => setIsEditing(true)}
+                onFollowChange={fetchProfile} // Refresh profile to update follower counts
+              />
+              {!isOwner && relationship && (
+                <div className="flex justify-center mt-4">
+                  <BlockMuteControls
+                    targetUserId={userId!}
+                    relationship={relationship}
+                    onChange={handleBlockMuteChange}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-8 max-w-2xl mx-auto space-y-4">
+          {isHidden ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Lock className="w-8 h-8" />
+              <p className="font-medium">This account is private</p>
+              <p className="text-sm">Follow this account to see their posts and connections.</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2 border-b" role="tablist">
+                {tabs.map(tab => (
+                  <Button
+                    key={tab.id}
+                    variant="ghost"
+                    size="sm"
+                    role="tab"
+                    aria-selected={activeTab === tab.id}
+                    className={activeTab === tab.id ? 'border-b-2 border-primary rounded-none' : 'rounded-none'}
+                    onClick={() => setActiveTab(tab.id)}
+                  >
+                    {tab.label}
+                  </Button>
+                ))}
+              </div>
+
+              {renderTab()}
+            </>
           )}
         </div>
       </div>
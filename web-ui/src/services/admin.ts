@@ -1,5 +1,7 @@
 import { Profile } from '@/types/profile';
 import { ServiceConfig } from '@/shared/config';
+import { authService } from '@/services/auth';
+import { buildEndpoint } from '@/shared/endpoints';
 // Using native array methods instead of lodash for simplicity
 
 const API_BASE_URL = ServiceConfig.getApiUrl();
@@ -55,8 +57,47 @@ export interface EventBridgeEvent {
 
 export interface EventsResponse {
   events: EventBridgeEvent[];
-  totalEvents: number;
-  nextToken?: string;
+  nextCursor: string | null;
+}
+
+/** Filters for the event archive; from and to are ISO timestamps */
+export interface EventFilters {
+  source?: string;
+  detailType?: string;
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
+/** Failed events waiting in one event consumer's dead letter queue */
+export interface DeadLetterQueue {
+  consumer: string;
+  approximateCount: number;
+  inFlight: number;
+}
+
+export interface RedriveResponse {
+  consumer: string;
+  redriven: number;
+  failed: number;
+}
+
+/** Progress of a user's deletion, which runs in the background */
+export interface UserDeletion {
+  userId: string;
+  /** 'failed' when the deletion could not be started; deleting the user again starts it over */
+  status: 'running' | 'completed' | 'failed';
+  /** Current step, e.g. 'posts' or 'followers'; 'done' once completed */
+  phase: string;
+  /** Counts of what has been removed so far, e.g. posts, likes, follows */
+  progress: Record<string, number>;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface DeleteUserResponse {
+  message: string;
+  deletion: UserDeletion;
 }
 
 // Constants for default values
@@ -97,22 +138,17 @@ const createCleanupFallback = (): CleanupResponse => ({
 
 const createEventsFallback = (): EventsResponse => ({
   events: [],
-  totalEvents: 0,
-  nextToken: undefined,
+  nextCursor: null,
+});
+
+const createDeadLettersFallback = (): { queues: DeadLetterQueue[] } => ({
+  queues: [],
 });
 
 const createGenericFallback = () => ({
   message: 'Request completed successfully',
 });
 
-// API endpoint constants
-const ADMIN_ENDPOINTS = {
-  USERS: '/admin/users',
-  CLEANUP: '/admin/cleanup',
-  TEST_DATA: '/admin/test-data',
-  EVENTS: '/admin/events',
-} as const;
-
 // Default parameter values
 const DEFAULT_PAGE = 1;
 const DEFAULT_LIMIT = 10;
@@ -122,10 +158,11 @@ const DEFAULT_EVENTS_LIMIT = 50;
 
 class AdminService {
   private static readonly FALLBACK_PATTERNS = [
-    { pathPrefix: '/admin/users', factory: createUserListFallback },
-    { pathPrefix: '/admin/test-data', factory: createTestDataFallback },
-    { pathPrefix: '/admin/cleanup', factory: createCleanupFallback },
-    { pathPrefix: '/admin/events', factory: createEventsFallback },
+    { pathPrefix: buildEndpoint('LIST_USERS'), factory: createUserListFallback },
+    { pathPrefix: buildEndpoint('GENERATE_TEST_DATA'), factory: createTestDataFallback },
+    { pathPrefix: buildEndpoint('CLEANUP_ALL'), factory: createCleanupFallback },
+    { pathPrefix: buildEndpoint('GET_EVENTS'), factory: createEventsFallback },
+    { pathPrefix: buildEndpoint('LIST_DEAD_LETTER_QUEUES'), factory: createDeadLettersFallback },
   ] as const;
 
   private createFallbackResponse<T>(endpoint: string): T {
@@ -142,13 +179,15 @@ class AdminService {
     options: RequestInit = {}
   ): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
+    const token = authService.getToken();
 
     const response = await fetch(url, {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
         ...options.headers,
       },
-      ...options,
     });
 
     if (!response.ok) {
@@ -174,35 +213,58 @@ class AdminService {
   }
 
   async listUsers(page = DEFAULT_PAGE, limit = DEFAULT_LIMIT): Promise<UserListResponse> {
-    return this.makeRequest<UserListResponse>(`${ADMIN_ENDPOINTS.USERS}?page=${page}&limit=${limit}`);
+    return this.makeRequest<UserListResponse>(`${buildEndpoint('LIST_USERS')}?page=${page}&limit=${limit}`);
   }
 
-  async deleteUser(userId: string): Promise<{ message: string; deletedItems: number; userId: string }> {
-    return this.makeRequest(`${ADMIN_ENDPOINTS.USERS}/${userId}`, {
+  /** Start deleting a user; poll getUserDeletion until it completes */
+  async deleteUser(userId: string): Promise<DeleteUserResponse> {
+    return this.makeRequest<DeleteUserResponse>(buildEndpoint('DELETE_USER', { userId }), {
       method: 'DELETE',
     });
   }
 
+  async getUserDeletion(userId: string): Promise<UserDeletion> {
+    const response = await this.makeRequest<{ deletion: UserDeletion }>(buildEndpoint('GET_USER_DELETION', { userId }));
+    return response.deletion;
+  }
+
   async cleanupAll(): Promise<CleanupResponse> {
-    return this.makeRequest<CleanupResponse>(ADMIN_ENDPOINTS.CLEANUP, {
+    return this.makeRequest<CleanupResponse>(buildEndpoint('CLEANUP_ALL'), {
       method: 'POST',
     });
   }
 
   async generateTestData(userCount = DEFAULT_USER_COUNT, postsPerUser = DEFAULT_POSTS_PER_USER): Promise<TestDataResponse> {
-    return this.makeRequest<TestDataResponse>(`${ADMIN_ENDPOINTS.TEST_DATA}?userCount=${userCount}&postsPerUser=${postsPerUser}`, {
+    return this.makeRequest<TestDataResponse>(`${buildEndpoint('GENERATE_TEST_DATA')}?userCount=${userCount}&postsPerUser=${postsPerUser}`, {
       method: 'POST',
     });
   }
 
-  async getEvents(limit = DEFAULT_EVENTS_LIMIT, nextToken?: string): Promise<EventsResponse> {
+  async getEvents(filters: EventFilters = {}, limit = DEFAULT_EVENTS_LIMIT, cursor?: string): Promise<EventsResponse> {
     const params = new URLSearchParams();
     params.append('limit', limit.toString());
-    if (nextToken) {
-      params.append('nextToken', nextToken);
+    Object.entries(filters).forEach(([name, value]) => {
+      if (value) {
+        params.append(name, value);
+      }
+    });
+    if (cursor) {
+      params.append('cursor', cursor);
     }
 
-    return this.makeRequest<EventsResponse>(`${ADMIN_ENDPOINTS.EVENTS}?${params.toString()}`);
+    return this.makeRequest<EventsResponse>(`${buildEndpoint('GET_EVENTS')}?${params.toString()}`);
+  }
+
+  async listDeadLetterQueues(): Promise<DeadLetterQueue[]> {
+    const response = await this.makeRequest<{ queues: DeadLetterQueue[] }>(buildEndpoint('LIST_DEAD_LETTER_QUEUES'));
+    return response.queues;
+  }
+
+  async redriveDeadLetters(consumer: string): Promise<RedriveResponse> {
+    return this.makeRequest<RedriveResponse>(buildEndpoint('REDRIVE_DEAD_LETTERS', { consumer }), {
+      method: 'POST',
+      body: JSON.stringify({}),
+    });
   }
 }
 
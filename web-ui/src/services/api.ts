@@ -1,5 +1,7 @@
-import { Profile, CreateProfileRequest, UpdateProfileRequest, ApiError, Post, CreatePostRequest, FeedItem } from '@/types/profile';
+import { Profile, UpdateProfileRequest, ApiError, Post, CreatePostRequest, UpdatePostRequest, PostRevisionsResponse, FeedMode, FeedResponse, UserPostsResponse, PaginationParams, FollowersResponse, FollowingResponse, Relationship, FollowStatus, FollowActionResponse, FollowRequestsResponse, FollowRequestDecision, BlockActionResponse, BlockListResponse, NotificationsResponse, MarkNotificationsReadResponse, SearchType, SearchResponse, Comment, CommentsResponse, CreateCommentRequest } from '@/types/profile';
 import { ServiceConfig } from '@/shared/config';
+import { authService } from '@/services/auth';
+import { buildEndpoint } from '@/shared/endpoints';
 
 class ApiService {
   private async makeRequest<T>(
@@ -7,13 +9,15 @@ class ApiService {
     options: RequestInit = {}
   ): Promise<T> {
     const url = `${ServiceConfig.getApiUrl()}${endpoint}`;
+    const token = authService.getToken();
 
     const response = await fetch(url, {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
         ...options.headers,
       },
-      ...options,
     });
 
     if (!response.ok) {
@@ -26,69 +30,172 @@ class ApiService {
     return response.json();
   }
 
-  async createProfile(profileData: CreateProfileRequest): Promise<Profile> {
-    return this.makeRequest<Profile>('/profiles', {
-      method: 'POST',
-      body: JSON.stringify(profileData),
-    });
+  private toQueryString(page: PaginationParams): string {
+    const params = new URLSearchParams();
+    if (page.limit !== undefined) params.set('limit', String(page.limit));
+    if (page.cursor) params.set('cursor', page.cursor);
+
+    const query = params.toString();
+    return query ? `?${query}` : '';
   }
 
   async getProfile(userId: string): Promise<Profile> {
-    return this.makeRequest<Profile>(`/profiles/${userId}`);
+    return this.makeRequest<Profile>(buildEndpoint('GET_PROFILE', { userId }));
   }
 
   async updateProfile(userId: string, updates: UpdateProfileRequest): Promise<Profile> {
-    return this.makeRequest<Profile>(`/profiles/${userId}`, {
+    return this.makeRequest<Profile>(buildEndpoint('UPDATE_PROFILE', { userId }), {
       method: 'PUT',
       body: JSON.stringify(updates),
     });
   }
 
   // Social features
-  async followUser(followerId: string, followedUserId: string): Promise<{ message: string; followerId: string; followedUserId: string; createdAt: string }> {
-    return this.makeRequest('/social/follow', {
+  async followUser(followerId: string, followedUserId: string): Promise<FollowActionResponse> {
+    return this.makeRequest(buildEndpoint('FOLLOW_USER', { userId: followedUserId }), {
+      method: 'POST',
+      body: JSON.stringify({ followerId }),
+    });
+  }
+
+  async unfollowUser(followerId: string, followedUserId: string): Promise<FollowActionResponse> {
+    return this.makeRequest(buildEndpoint('UNFOLLOW_USER', { userId: followedUserId }), {
       method: 'POST',
-      body: JSON.stringify({ followerId, followedUserId }),
+      body: JSON.stringify({ followerId }),
     });
   }
 
-  async unfollowUser(followerId: string, followedUserId: string): Promise<{ message: string; followerId: string; followedUserId: string; timestamp: string }> {
-    return this.makeRequest('/social/unfollow', {
+  async checkFollowStatus(followerId: string, followedUserId: string): Promise<FollowStatus> {
+    return this.makeRequest(buildEndpoint('CHECK_FOLLOW', { userId: followerId, targetUserId: followedUserId }));
+  }
+
+  async getFollowers(userId: string, page: PaginationParams = {}): Promise<FollowersResponse> {
+    return this.makeRequest(`${buildEndpoint('GET_FOLLOWERS', { userId })}${this.toQueryString(page)}`);
+  }
+
+  async getFollowing(userId: string, page: PaginationParams = {}): Promise<FollowingResponse> {
+    return this.makeRequest(`${buildEndpoint('GET_FOLLOWING', { userId })}${this.toQueryString(page)}`);
+  }
+
+  async getRelationship(userId: string, otherUserId: string): Promise<Relationship> {
+    return this.makeRequest(buildEndpoint('GET_RELATIONSHIP', { userId, otherUserId }));
+  }
+
+  async getFollowRequests(userId: string, page: PaginationParams = {}): Promise<FollowRequestsResponse> {
+    return this.makeRequest(`${buildEndpoint('LIST_FOLLOW_REQUESTS', { userId })}${this.toQueryString(page)}`);
+  }
+
+  async approveFollowRequest(userId: string, requesterId: string): Promise<FollowRequestDecision> {
+    return this.makeRequest(buildEndpoint('APPROVE_FOLLOW_REQUEST', { userId, requesterId }), { method: 'POST' });
+  }
+
+  async denyFollowRequest(userId: string, requesterId: string): Promise<FollowRequestDecision> {
+    return this.makeRequest(buildEndpoint('DENY_FOLLOW_REQUEST', { userId, requesterId }), { method: 'POST' });
+  }
+
+  // Blocks and mutes act as the signed-in user
+  async blockUser(targetUserId: string): Promise<BlockActionResponse> {
+    return this.makeRequest(buildEndpoint('BLOCK_USER', { userId: targetUserId }), { method: 'POST' });
+  }
+
+  async unblockUser(targetUserId: string): Promise<BlockActionResponse> {
+    return this.makeRequest(buildEndpoint('UNBLOCK_USER', { userId: targetUserId }), { method: 'POST' });
+  }
+
+  async muteUser(targetUserId: string): Promise<BlockActionResponse> {
+    return this.makeRequest(buildEndpoint('MUTE_USER', { userId: targetUserId }), { method: 'POST' });
+  }
+
+  async unmuteUser(targetUserId: string): Promise<BlockActionResponse> {
+    return this.makeRequest(buildEndpoint('UNMUTE_USER', { userId: targetUserId }), { method: 'POST' });
+  }
+
+  async getBlockedUsers(userId: string, page: PaginationParams = {}): Promise<BlockListResponse> {
+    return this.makeRequest(`${buildEndpoint('LIST_BLOCKS', { userId })}${this.toQueryString(page)}`);
+  }
+
+  async getMutedUsers(userId: string, page: PaginationParams = {}): Promise<BlockListResponse> {
+    return this.makeRequest(`${buildEndpoint('LIST_MUTES', { userId })}${this.toQueryString(page)}`);
+  }
+
+  // Notifications features
+  async getNotifications(userId: string, page: PaginationParams = {}): Promise<NotificationsResponse> {
+    return this.makeRequest(`${buildEndpoint('LIST_NOTIFICATIONS', { userId })}${this.toQueryString(page)}`);
+  }
+
+  async markNotificationsRead(userId: string, notificationIds?: string[]): Promise<MarkNotificationsReadResponse> {
+    return this.makeRequest(buildEndpoint('MARK_NOTIFICATIONS_READ', { userId }), {
       method: 'POST',
-      body: JSON.stringify({ followerId, followedUserId }),
+      body: JSON.stringify(notificationIds ? { notificationIds } : {}),
     });
   }
 
-  async checkFollowStatus(followerId: string, followedUserId: string): Promise<{ isFollowing: boolean; followerId: string; followedUserId: string }> {
-    return this.makeRequest(`/social/check-follow/${followerId}/${followedUserId}`);
+  // Search features
+  async searchProfiles(query: string, page: PaginationParams = {}): Promise<SearchResponse<Profile>> {
+    return this.search(query, 'profiles', page);
+  }
+
+  async searchPosts(query: string, page: PaginationParams = {}): Promise<SearchResponse<Post>> {
+    return this.search(query, 'posts', page);
+  }
+
+  private async search<T>(query: string, type: SearchType, page: PaginationParams): Promise<SearchResponse<T>> {
+    const params = new URLSearchParams({ q: query, type });
+    const pageQuery = this.toQueryString(page);
+    return this.makeRequest(`${buildEndpoint('SEARCH')}?${params.toString()}${pageQuery && `&${pageQuery.slice(1)}`}`);
   }
 
   // Posts features
   async createPost(userId: string, postData: CreatePostRequest): Promise<Post> {
-    return this.makeRequest('/posts', {
+    return this.makeRequest(buildEndpoint('CREATE_POST'), {
       method: 'POST',
       body: JSON.stringify({ userId, ...postData }),
     });
   }
 
-  async getUserPosts(userId: string): Promise<{ posts: Post[]; userId: string }> {
-    return this.makeRequest(`/posts/user/${userId}`);
+  async updatePost(postId: string, updates: UpdatePostRequest): Promise<Post> {
+    return this.makeRequest(buildEndpoint('UPDATE_POST', { postId }), {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deletePost(postId: string): Promise<{ message: string; postId: string; deletedItems: number }> {
+    return this.makeRequest(buildEndpoint('DELETE_POST', { postId }), {
+      method: 'DELETE',
+    });
+  }
+
+  async getPostRevisions(postId: string, page: PaginationParams = {}): Promise<PostRevisionsResponse> {
+    return this.makeRequest(`${buildEndpoint('GET_POST_REVISIONS', { postId })}${this.toQueryString(page)}`);
   }
 
-  async getUserFeed(userId: string): Promise<{ feedItems: FeedItem[]; userId: string }> {
-    return this.makeRequest(`/feed/${userId}`);
+  async getUserPosts(userId: string, page: PaginationParams = {}): Promise<UserPostsResponse> {
+    return this.makeRequest(`${buildEndpoint('GET_USER_POSTS', { userId })}${this.toQueryString(page)}`);
   }
 
-  // Mock method for listing profiles (not implemented in backend yet)
-  async searchProfiles(query?: string): Promise<Profile[]> {
-    // This would be implemented as a search endpoint in the backend
-    // For now, return mock data
-    return [];
+  async getUserFeed(userId: string, page: PaginationParams = {}, mode: FeedMode = 'chronological'): Promise<FeedResponse> {
+    const query = this.toQueryString(page);
+    const modeParam = mode === 'chronological' ? '' : `${query ? '&' : '?'}mode=${mode}`;
+    return this.makeRequest(`${buildEndpoint('GET_FEED', { userId })}${query}${modeParam}`);
   }
 
-  // Discovery content
-  async getDiscoveryContent(): Promise<{ users: Profile[]; posts: Post[] }> {
-    return this.makeRequest('/discovery');
+  // Comments
+  async getComments(postId: string, page: PaginationParams = {}): Promise<CommentsResponse> {
+    return this.makeRequest(`${buildEndpoint('LIST_COMMENTS', { postId })}${this.toQueryString(page)}`);
+  }
+
+  async createComment(postId: string, commentData: CreateCommentRequest): Promise<Comment> {
+    return this.makeRequest(buildEndpoint('CREATE_COMMENT', { postId }), {
+      method: 'POST',
+      body: JSON.stringify(commentData),
+    });
+  }
+
+  async deleteComment(postId: string, commentId: string): Promise<{ message: string; postId: string; commentId: string; deletedCount: number }> {
+    return this.makeRequest(buildEndpoint('DELETE_COMMENT', { postId, commentId }), {
+      method: 'DELETE',
+    });
   }
 
   // Image Upload methods
@@ -98,7 +205,7 @@ class ApiService {
     key: string;
     fileName: string;
   }> {
-    return this.makeRequest('/images/upload-url', {
+    return this.makeRequest(buildEndpoint('GET_UPLOAD_URL'), {
       method: 'POST',
       body: JSON.stringify({
         fileName,
@@ -143,7 +250,7 @@ class ApiService {
     message: string;
     likesCount: number;
   }> {
-    return this.makeRequest('/likes/like', {
+    return this.makeRequest(buildEndpoint('LIKE_POST'), {
       method: 'POST',
       body: JSON.stringify({
         userId,
@@ -157,7 +264,7 @@ class ApiService {
     message: string;
     likesCount: number;
   }> {
-    return this.makeRequest('/likes/unlike', {
+    return this.makeRequest(buildEndpoint('UNLIKE_POST'), {
       method: 'POST',
       body: JSON.stringify({
         userId,
@@ -172,7 +279,7 @@ class ApiService {
     postId: string;
     userId: string;
   }> {
-    return this.makeRequest(`/likes/check/${userId}/${postId}`);
+    return this.makeRequest(buildEndpoint('CHECK_LIKE', { userId, postId }));
   }
 }
 
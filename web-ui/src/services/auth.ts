@@ -0,0 +1,90 @@
+import { Profile, ApiError } from '@/types/profile';
+import type { RegisterRequest } from '@/shared/schemas/api';
+import { ServiceConfig } from '@/shared/config';
+import { buildEndpoint } from '@/shared/endpoints';
+
+const TOKEN_STORAGE_KEY = 'social-media.auth';
+
+export interface AuthSession {
+  token: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  profile: Profile;
+}
+
+export type { RegisterRequest };
+
+interface StoredSession {
+  token: string;
+  expiresAt: number;
+  profile: Profile;
+}
+
+class AuthService {
+  private async post(endpoint: string, body: unknown): Promise<AuthSession> {
+    const response = await fetch(`${ServiceConfig.getApiUrl()}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData: ApiError = await response.json().catch(() => ({
+        error: `HTTP ${response.status}: ${response.statusText}`,
+      }));
+      throw new Error(errorData.error);
+    }
+
+    const session: AuthSession = await response.json();
+    this.storeSession(session);
+    return session;
+  }
+
+  async login(username: string, password: string): Promise<AuthSession> {
+    return this.post(buildEndpoint('LOGIN'), { username, password });
+  }
+
+  async register(data: RegisterRequest): Promise<AuthSession> {
+    return this.post(buildEndpoint('REGISTER'), data);
+  }
+
+  logout(): void {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+
+  getToken(): string | null {
+    return this.getSession()?.token ?? null;
+  }
+
+  getSessionProfile(): Profile | null {
+    return this.getSession()?.profile ?? null;
+  }
+
+  private storeSession(session: AuthSession): void {
+    const stored: StoredSession = {
+      token: session.token,
+      expiresAt: Date.now() + session.expiresIn * 1000,
+      profile: session.profile,
+    };
+    localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  private getSession(): StoredSession | null {
+    const raw = localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (!raw) return null;
+
+    try {
+      const session: StoredSession = JSON.parse(raw);
+      if (session.expiresAt <= Date.now()) {
+        this.logout();
+        return null;
+      }
+      return session;
+    } catch {
+      this.logout();
+      return null;
+    }
+  }
+}
+
+export const authService = new AuthService();
@@ -1,5 +1,6 @@
 import { pipe } from '../shared/utils';
 import { ServiceConfig } from '../shared/config';
+import { buildEndpoint } from '../shared/endpoints';
 import {
   GenerateTestDataRequest,
   GenerateTestDataResponse,
@@ -68,7 +69,7 @@ export const adminApi = {
       postsPerUser: params.postsPerUser.toString(),
     });
 
-    const endpoint = `/admin/test-data?${queryParams}`;
+    const endpoint = `${buildEndpoint('GENERATE_TEST_DATA')}?${queryParams}`;
     const request = createApiRequest(endpoint, 'POST', validateGenerateTestDataResponse);
 
     return request({});
@@ -1,53 +1,69 @@
-// Centralized endpoint configuration
-export const API_ENDPOINTS = {
-  // Profile endpoints
-  PROFILES: '/profiles',
-  PROFILE_BY_ID: '/profiles/{userId}',
-
-  // Social endpoints
-  SOCIAL_FOLLOW: '/social/follow',
-  SOCIAL_UNFOLLOW: '/social/unfollow',
-  SOCIAL_CHECK_FOLLOW: '/social/check-follow/{followerId}/{followedUserId}',
+// Generated from lib/constants/api-routes.ts by `npm run generate:api-routes`; do not edit.
 
-  // Posts endpoints
-  POSTS: '/posts',
-  POSTS_BY_USER: '/posts/user/{userId}',
+export const API_ENDPOINTS = {
+  REGISTER: { method: 'POST', path: '/auth/register' },
+  LOGIN: { method: 'POST', path: '/auth/login' },
+  JWKS: { method: 'GET', path: '/.well-known/jwks.json' },
+  GET_PROFILE: { method: 'GET', path: '/profiles/{userId}' },
+  UPDATE_PROFILE: { method: 'PUT', path: '/profiles/{userId}' },
+  FOLLOW_USER: { method: 'POST', path: '/profiles/{userId}/follow' },
+  UNFOLLOW_USER: { method: 'POST', path: '/profiles/{userId}/unfollow' },
+  CHECK_FOLLOW: { method: 'GET', path: '/profiles/{userId}/following/{targetUserId}' },
+  GET_FOLLOWERS: { method: 'GET', path: '/profiles/{userId}/followers' },
+  GET_FOLLOWING: { method: 'GET', path: '/profiles/{userId}/following' },
+  GET_RELATIONSHIP: { method: 'GET', path: '/profiles/{userId}/relationship/{otherUserId}' },
+  LIST_FOLLOW_REQUESTS: { method: 'GET', path: '/profiles/{userId}/follow-requests' },
+  APPROVE_FOLLOW_REQUEST: { method: 'POST', path: '/profiles/{userId}/follow-requests/{requesterId}/approve' },
+  DENY_FOLLOW_REQUEST: { method: 'POST', path: '/profiles/{userId}/follow-requests/{requesterId}/deny' },
+  BLOCK_USER: { method: 'POST', path: '/profiles/{userId}/block' },
+  UNBLOCK_USER: { method: 'POST', path: '/profiles/{userId}/unblock' },
+  MUTE_USER: { method: 'POST', path: '/profiles/{userId}/mute' },
+  UNMUTE_USER: { method: 'POST', path: '/profiles/{userId}/unmute' },
+  LIST_BLOCKS: { method: 'GET', path: '/profiles/{userId}/blocks' },
+  LIST_MUTES: { method: 'GET', path: '/profiles/{userId}/mutes' },
+  CREATE_POST: { method: 'POST', path: '/posts' },
+  GET_USER_POSTS: { method: 'GET', path: '/profiles/{userId}/posts' },
+  UPDATE_POST: { method: 'PUT', path: '/posts/{postId}' },
+  DELETE_POST: { method: 'DELETE', path: '/posts/{postId}' },
+  GET_POST_REVISIONS: { method: 'GET', path: '/posts/{postId}/revisions' },
+  LIST_COMMENTS: { method: 'GET', path: '/posts/{postId}/comments' },
+  CREATE_COMMENT: { method: 'POST', path: '/posts/{postId}/comments' },
+  DELETE_COMMENT: { method: 'DELETE', path: '/posts/{postId}/comments/{commentId}' },
+  LIKE_POST: { method: 'POST', path: '/like' },
+  UNLIKE_POST: { method: 'POST', path: '/unlike' },
+  CHECK_LIKE: { method: 'GET', path: '/likes/{userId}/{postId}' },
+  GET_FEED: { method: 'GET', path: '/profiles/{userId}/feed' },
+  LIST_NOTIFICATIONS: { method: 'GET', path: '/notifications/{userId}' },
+  MARK_NOTIFICATIONS_READ: { method: 'POST', path: '/notifications/{userId}/read' },
+  SEARCH: { method: 'GET', path: '/search' },
+  GET_UPLOAD_URL: { method: 'POST', path: '/upload-url' },
+  LIST_USERS: { method: 'GET', path: '/admin/users' },
+  DELETE_USER: { method: 'DELETE', path: '/admin/users/{userId}' },
+  GET_USER_DELETION: { method: 'GET', path: '/admin/users/{userId}/deletion' },
+  CLEANUP_ALL: { method: 'POST', path: '/admin/cleanup' },
+  GENERATE_TEST_DATA: { method: 'POST', path: '/admin/test-data' },
+  GET_EVENTS: { method: 'GET', path: '/admin/events' },
+  LIST_DEAD_LETTER_QUEUES: { method: 'GET', path: '/admin/dead-letters' },
+  LIST_DEAD_LETTERS: { method: 'GET', path: '/admin/dead-letters/{consumer}' },
+  REDRIVE_DEAD_LETTERS: { method: 'POST', path: '/admin/dead-letters/{consumer}/redrive' },
+  DOCS: { method: 'GET', path: '/docs' },
+  OPENAPI_DOCUMENT: { method: 'GET', path: '/docs/openapi.json' },
+} as const;
 
-  // Feed endpoints
-  FEED_BY_USER: '/feed/{userId}',
+export type ApiEndpointName = keyof typeof API_ENDPOINTS;
 
-  // Images endpoints
-  IMAGES_UPLOAD_URL: '/images/upload-url',
+type PathParameterNames<Path extends string> =
+  Path extends `${string}{${infer Name}}${infer Rest}` ? Name | PathParameterNames<Rest> : never;
 
-  // Likes endpoints
-  LIKES_LIKE: '/likes/like',
-  LIKES_UNLIKE: '/likes/unlike',
-  LIKES_CHECK: '/likes/check/{userId}/{postId}',
+/** The path parameters of an endpoint, by name */
+export type EndpointParams<Name extends ApiEndpointName> =
+  Record<PathParameterNames<(typeof API_ENDPOINTS)[Name]['path']>, string>;
 
-  // Admin endpoints
-  ADMIN_USERS: '/admin/users',
-  ADMIN_USER_BY_ID: '/admin/users/{userId}',
-  ADMIN_CLEANUP: '/admin/cleanup',
-  ADMIN_TEST_DATA: '/admin/test-data',
-  ADMIN_EVENTS: '/admin/events'
-} as const;
+type EndpointArgs<Name extends ApiEndpointName> =
+  [PathParameterNames<(typeof API_ENDPOINTS)[Name]['path']>] extends [never] ? [] : [EndpointParams<Name>];
 
-// Helper function to replace path parameters
-export function buildEndpoint(template: string, params: Record<string, string>): string {
-  return Object.entries(params).reduce(
-    (url, [key, value]) => url.replace(`{${key}}`, value),
-    template
-  );
+/** An endpoint's path, e.g. /profiles/u1/feed, with its parameters URL-encoded */
+export function buildEndpoint<Name extends ApiEndpointName>(name: Name, ...args: EndpointArgs<Name>): string {
+  const [params = {}] = args as [Record<string, string>?];
+  return API_ENDPOINTS[name].path.replace(/\{(\w+)\}/g, (_, key: string) => encodeURIComponent(params[key]));
 }
-
-// Helper function to build query string
-export function buildQueryString(params: Record<string, string | number | undefined>): string {
-  const searchParams = new URLSearchParams();
-  Object.entries(params).forEach(([key, value]) => {
-    if (value !== undefined) {
-      searchParams.append(key, value.toString());
-    }
-  });
-  const qs = searchParams.toString();
-  return qs ? `?${qs}` : '';
-}
\ No newline at end of file
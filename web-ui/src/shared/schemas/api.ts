@@ -0,0 +1,561 @@
+// Generated from lambda/shared/schemas.mjs by `npm run generate:schemas`; do not edit.
+
+import { z } from 'zod';
+
+const isUrl = (value: string) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isTimestamp = (value: string) => !Number.isNaN(Date.parse(value));
+
+export const ProfileResponseSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  username: z.string({ error: 'username is required' }).min(1, 'username is required').max(50, 'username must be 50 characters or less'),
+  displayName: z.string({ error: 'displayName is required' }).min(1, 'displayName is required').max(100, 'displayName must be 100 characters or less'),
+  bio: z.string({ error: 'bio is required' }).max(500, 'bio must be 500 characters or less'),
+  avatar: z.string({ error: 'avatar is required' }),
+  followersCount: z.number({ error: 'followersCount must be a non-negative integer' }).int('followersCount must be a non-negative integer').min(0, 'followersCount must be a non-negative integer'),
+  followingCount: z.number({ error: 'followingCount must be a non-negative integer' }).int('followingCount must be a non-negative integer').min(0, 'followingCount must be a non-negative integer'),
+  postsCount: z.number({ error: 'postsCount must be a non-negative integer' }).int('postsCount must be a non-negative integer').min(0, 'postsCount must be a non-negative integer'),
+  isVerified: z.boolean({ error: 'isVerified must be true or false' }),
+  isPrivate: z.boolean({ error: 'isPrivate must be true or false' }),
+  createdAt: z.string({ error: 'createdAt is required' }).refine(isTimestamp, 'createdAt must be an ISO 8601 timestamp'),
+});
+
+export const AuthTokenResponseSchema = z.object({
+  token: z.string({ error: 'token is required' }).min(1, 'token is required'),
+  tokenType: z.string({ error: 'tokenType is required' }).min(1, 'tokenType is required'),
+  expiresIn: z.number({ error: 'expiresIn must be an integer of at least 1' }).int('expiresIn must be an integer of at least 1').min(1, 'expiresIn must be an integer of at least 1'),
+  profile: ProfileResponseSchema,
+});
+
+export const BlockActionResponseSchema = z.object({
+  message: z.string({ error: 'message is required' }).min(1, 'message is required'),
+  status: z.enum(['blocked', 'unblocked', 'muted', 'unmuted'], { error: 'status must be one of: blocked, unblocked, muted, unmuted' }),
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  targetUserId: z.string({ error: 'targetUserId is required' }).min(1, 'targetUserId is required'),
+  timestamp: z.string({ error: 'timestamp is required' }).refine(isTimestamp, 'timestamp must be an ISO 8601 timestamp'),
+});
+
+export const BlockListEntrySchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  since: z.string({ error: 'since is required' }).refine(isTimestamp, 'since must be an ISO 8601 timestamp'),
+  profile: ProfileResponseSchema.nullable(),
+});
+
+export const CommentResponseSchema = z.object({
+  commentId: z.string({ error: 'commentId is required' }).min(1, 'commentId is required'),
+  postId: z.string({ error: 'postId is required' }).min(1, 'postId is required'),
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  username: z.string({ error: 'username is required' }).min(1, 'username is required').max(50, 'username must be 50 characters or less'),
+  displayName: z.string({ error: 'displayName is required' }).min(1, 'displayName is required').max(100, 'displayName must be 100 characters or less'),
+  avatar: z.string({ error: 'avatar cannot be empty' }).optional(),
+  content: z.string({ error: 'content is required' }).min(1, 'content is required').max(1000, 'content must be 1000 characters or less'),
+  parentCommentId: z.string({ error: 'parentCommentId cannot be empty' }).optional(),
+  createdAt: z.string({ error: 'createdAt is required' }).refine(isTimestamp, 'createdAt must be an ISO 8601 timestamp'),
+  replies: z.array(z.record(z.string(), z.unknown()), { error: 'replies must be an array when provided' }).optional(),
+});
+
+export const CreateCommentRequestSchema = z.object({
+  postId: z.string({ error: 'Post ID is required' }).min(1, 'Post ID is required'),
+  userId: z.string({ error: 'User ID is required' }).min(1, 'User ID is required'),
+  content: z.string({ error: 'Content is required' }).trim().min(1, 'Content is required').max(1000, 'Content must be 1000 characters or less'),
+  parentCommentId: z.string({ error: 'Parent comment ID cannot be empty' }).min(1, 'Parent comment ID cannot be empty').optional(),
+});
+
+export const CreatePostRequestSchema = z.object({
+  userId: z.string({ error: 'User ID is required' }).min(1, 'User ID is required'),
+  content: z.string({ error: 'Content is required' }).min(1, 'Content is required').max(2000, 'Content must be 2000 characters or less'),
+  imageUrl: z.preprocess((value) => value === '' ? undefined : value, z.string({ error: 'Image URL cannot be empty' }).refine(isUrl, 'Image URL must be a valid URL').optional()),
+});
+
+export const CreateProfileRequestSchema = z.object({
+  username: z.string({ error: 'Username is required' }).min(1, 'Username is required').max(50, 'Username must be 50 characters or less'),
+  email: z.string({ error: 'Email is required' }).min(1, 'Email is required').regex(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Email must be a valid email address'),
+  displayName: z.string({ error: 'Display name is required' }).min(1, 'Display name is required').max(100, 'Display name must be 100 characters or less'),
+  bio: z.preprocess((value) => value === '' ? undefined : value, z.string({ error: 'Bio cannot be empty' }).max(500, 'Bio must be 500 characters or less').optional()),
+  avatar: z.preprocess((value) => value === '' ? undefined : value, z.string({ error: 'Avatar cannot be empty' }).refine(isUrl, 'Avatar must be a valid URL').optional()),
+});
+
+export const ErrorResponseSchema = z.object({
+  error: z.string({ error: 'error is required' }).min(1, 'error is required'),
+  details: z.union([z.string({ error: 'details cannot be empty' }), z.array(z.string({ error: 'details item cannot be empty' }), { error: 'details must be an array when provided' })]).optional(),
+});
+
+export const EventResponseSchema = z.object({
+  eventId: z.string({ error: 'eventId is required' }).min(1, 'eventId is required'),
+  source: z.string({ error: 'source is required' }).min(1, 'source is required'),
+  detailType: z.string({ error: 'detailType is required' }).min(1, 'detailType is required'),
+  detail: z.record(z.string(), z.unknown()),
+  timestamp: z.string({ error: 'timestamp is required' }).refine(isTimestamp, 'timestamp must be an ISO 8601 timestamp'),
+  region: z.string({ error: 'region cannot be empty' }).optional(),
+  account: z.string({ error: 'account cannot be empty' }).optional(),
+});
+
+export const FailedEventResponseSchema = z.object({
+  messageId: z.string({ error: 'messageId is required' }).min(1, 'messageId is required'),
+  consumer: z.string({ error: 'consumer is required' }).min(1, 'consumer is required'),
+  event: z.record(z.string(), z.unknown()),
+  error: z.object({
+    code: z.string({ error: 'code cannot be empty' }).optional(),
+    message: z.string({ error: 'message cannot be empty' }).optional(),
+  }),
+  attempts: z.number({ error: 'attempts must be an integer of at least 1' }).int('attempts must be an integer of at least 1').min(1, 'attempts must be an integer of at least 1').optional(),
+  failedAt: z.string({ error: 'failedAt cannot be empty' }).refine(isTimestamp, 'failedAt must be an ISO 8601 timestamp').optional(),
+});
+
+export const FeedItemSchema = z.object({
+  postId: z.string({ error: 'Post ID is required' }).min(1, 'Post ID is required'),
+  userId: z.string({ error: 'User ID is required' }).min(1, 'User ID is required'),
+  username: z.string({ error: 'Username is required' }).min(1, 'Username is required').max(50, 'Username must be 50 characters or less'),
+  displayName: z.string({ error: 'Display name is required' }).min(1, 'Display name is required').max(100, 'Display name must be 100 characters or less'),
+  avatar: z.string({ error: 'avatar cannot be empty' }).optional(),
+  content: z.string({ error: 'Content is required' }).min(1, 'Content is required').max(2000, 'Content must be 2000 characters or less'),
+  imageUrl: z.string({ error: 'imageUrl cannot be empty' }).optional(),
+  likesCount: z.number({ error: 'Likes count must be a non-negative integer' }).int('Likes count must be a non-negative integer').min(0, 'Likes count must be a non-negative integer'),
+  commentsCount: z.number({ error: 'Comments count must be a non-negative integer' }).int('Comments count must be a non-negative integer').min(0, 'Comments count must be a non-negative integer'),
+  createdAt: z.string({ error: 'Created at is required' }).refine(isTimestamp, 'Created at must be an ISO 8601 timestamp'),
+  feedTimestamp: z.number({ error: 'Feed timestamp must be a non-negative integer' }).int('Feed timestamp must be a non-negative integer').min(0, 'Feed timestamp must be a non-negative integer'),
+  editedAt: z.string({ error: 'Edited at cannot be empty' }).refine(isTimestamp, 'Edited at must be an ISO 8601 timestamp').optional(),
+});
+
+export const FeedModeSchema = z.enum(['chronological', 'ranked'], { error: 'Feed mode must be one of: chronological, ranked' });
+
+export const FollowActionResponseSchema = z.object({
+  message: z.string({ error: 'message is required' }).min(1, 'message is required'),
+  status: z.enum(['following', 'requested', 'unfollowed', 'cancelled'], { error: 'status must be one of: following, requested, unfollowed, cancelled' }),
+  followerId: z.string({ error: 'followerId is required' }).min(1, 'followerId is required'),
+  followedUserId: z.string({ error: 'followedUserId is required' }).min(1, 'followedUserId is required'),
+  createdAt: z.string({ error: 'createdAt is required' }).refine(isTimestamp, 'createdAt must be an ISO 8601 timestamp'),
+});
+
+export const FollowListEntrySchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  followedAt: z.string({ error: 'followedAt is required' }).refine(isTimestamp, 'followedAt must be an ISO 8601 timestamp'),
+  profile: ProfileResponseSchema.nullable(),
+});
+
+export const FollowRequestDecisionResponseSchema = z.object({
+  message: z.string({ error: 'message is required' }).min(1, 'message is required'),
+  decision: z.enum(['approved', 'denied'], { error: 'decision must be one of: approved, denied' }),
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  requesterId: z.string({ error: 'requesterId is required' }).min(1, 'requesterId is required'),
+  timestamp: z.string({ error: 'timestamp is required' }).refine(isTimestamp, 'timestamp must be an ISO 8601 timestamp'),
+});
+
+export const FollowRequestEntrySchema = z.object({
+  requesterId: z.string({ error: 'requesterId is required' }).min(1, 'requesterId is required'),
+  requestedAt: z.string({ error: 'requestedAt is required' }).refine(isTimestamp, 'requestedAt must be an ISO 8601 timestamp'),
+  profile: ProfileResponseSchema.nullable(),
+});
+
+export const FollowRequestSchema = z.object({
+  followerId: z.string({ error: 'Follower ID is required' }).min(1, 'Follower ID is required'),
+  followedUserId: z.string({ error: 'Followed user ID is required' }).min(1, 'Followed user ID is required'),
+}).refine((data) => data.followerId === undefined || data.followedUserId === undefined || data.followerId !== data.followedUserId, { message: 'Cannot follow yourself', path: ['followedUserId'] });
+
+export const FollowStatusResponseSchema = z.object({
+  isFollowing: z.boolean({ error: 'isFollowing must be true or false' }),
+  isRequested: z.boolean({ error: 'isRequested must be true or false' }),
+  followerId: z.string({ error: 'followerId is required' }).min(1, 'followerId is required'),
+  followedUserId: z.string({ error: 'followedUserId is required' }).min(1, 'followedUserId is required'),
+});
+
+export const NextCursorSchema = z.string({ error: 'Cursor cannot be empty' }).min(1, 'Cursor cannot be empty').nullable();
+
+export const GetBlockListResponseSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  list: z.enum(['blocks', 'mutes'], { error: 'list must be one of: blocks, mutes' }),
+  users: z.array(BlockListEntrySchema, { error: 'users must be an array' }),
+  count: z.number({ error: 'count must be a non-negative integer' }).int('count must be a non-negative integer').min(0, 'count must be a non-negative integer'),
+  nextCursor: NextCursorSchema,
+});
+
+export const GetDeadLetterQueuesResponseSchema = z.object({
+  queues: z.array(z.object({
+    consumer: z.string({ error: 'consumer is required' }).min(1, 'consumer is required'),
+    approximateCount: z.number({ error: 'approximateCount must be a non-negative integer' }).int('approximateCount must be a non-negative integer').min(0, 'approximateCount must be a non-negative integer'),
+    inFlight: z.number({ error: 'inFlight must be a non-negative integer' }).int('inFlight must be a non-negative integer').min(0, 'inFlight must be a non-negative integer'),
+  }), { error: 'queues must be an array' }),
+});
+
+export const GetEventsQuerySchema = z.object({
+  source: z.string({ error: 'source cannot be empty' }).min(1, 'source cannot be empty').optional(),
+  detailType: z.string({ error: 'detailType cannot be empty' }).min(1, 'detailType cannot be empty').optional(),
+  userId: z.string({ error: 'userId cannot be empty' }).min(1, 'userId cannot be empty').optional(),
+  from: z.string({ error: 'from cannot be empty' }).refine(isTimestamp, 'from must be an ISO 8601 timestamp').optional(),
+  to: z.string({ error: 'to cannot be empty' }).refine(isTimestamp, 'to must be an ISO 8601 timestamp').optional(),
+  limit: z.number({ error: 'limit must be an integer between 1 and 100' }).int('limit must be an integer between 1 and 100').min(1, 'limit must be an integer between 1 and 100').max(100, 'limit must be an integer between 1 and 100').optional(),
+  cursor: z.string({ error: 'cursor cannot be empty' }).min(1, 'cursor cannot be empty').optional(),
+}).refine((data) => data.from === undefined || data.to === undefined || !isTimestamp(data.from) || !isTimestamp(data.to) || Date.parse(data.from) <= Date.parse(data.to), { message: 'from must not be later than to', path: ['to'] });
+
+export const GetEventsResponseSchema = z.object({
+  events: z.array(EventResponseSchema, { error: 'events must be an array' }),
+  nextCursor: NextCursorSchema,
+});
+
+export const GetFailedEventsResponseSchema = z.object({
+  consumer: z.string({ error: 'consumer is required' }).min(1, 'consumer is required'),
+  events: z.array(FailedEventResponseSchema, { error: 'events must be an array' }),
+});
+
+export const GetFeedQuerySchema = z.object({
+  mode: z.enum(['chronological', 'ranked'], { error: 'Feed mode must be one of: chronological, ranked' }).default('chronological'),
+  limit: z.number({ error: 'limit must be an integer between 1 and 100' }).int('limit must be an integer between 1 and 100').min(1, 'limit must be an integer between 1 and 100').max(100, 'limit must be an integer between 1 and 100').optional(),
+  cursor: z.string({ error: 'cursor cannot be empty' }).min(1, 'cursor cannot be empty').optional(),
+});
+
+export const GetFeedResponseSchema = z.object({
+  feedItems: z.array(FeedItemSchema, { error: 'feedItems must be an array' }),
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  mode: FeedModeSchema,
+  nextCursor: NextCursorSchema,
+});
+
+export const GetFollowRequestsResponseSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  requests: z.array(FollowRequestEntrySchema, { error: 'requests must be an array' }),
+  count: z.number({ error: 'count must be a non-negative integer' }).int('count must be a non-negative integer').min(0, 'count must be a non-negative integer'),
+  nextCursor: NextCursorSchema,
+});
+
+export const GetFollowersResponseSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  followers: z.array(FollowListEntrySchema, { error: 'followers must be an array' }),
+  count: z.number({ error: 'count must be a non-negative integer' }).int('count must be a non-negative integer').min(0, 'count must be a non-negative integer'),
+  nextCursor: NextCursorSchema,
+});
+
+export const GetFollowingResponseSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  following: z.array(FollowListEntrySchema, { error: 'following must be an array' }),
+  count: z.number({ error: 'count must be a non-negative integer' }).int('count must be a non-negative integer').min(0, 'count must be a non-negative integer'),
+  nextCursor: NextCursorSchema,
+});
+
+export const NotificationTypeSchema = z.enum(['like', 'comment', 'follow', 'follow_request', 'mention'], { error: 'Notification type must be one of: like, comment, follow, follow_request, mention' });
+
+export const NotificationActorSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  username: z.string({ error: 'username is required' }),
+  displayName: z.string({ error: 'displayName is required' }),
+  avatar: z.string({ error: 'avatar cannot be empty' }).optional(),
+});
+
+export const NotificationResponseSchema = z.object({
+  notificationId: z.string({ error: 'notificationId is required' }).min(1, 'notificationId is required'),
+  type: NotificationTypeSchema,
+  message: z.string({ error: 'message is required' }).min(1, 'message is required'),
+  actors: z.array(NotificationActorSchema, { error: 'actors must be an array' }).max(3, 'actors must have at most 3 items'),
+  actorCount: z.number({ error: 'actorCount must be an integer of at least 1' }).int('actorCount must be an integer of at least 1').min(1, 'actorCount must be an integer of at least 1'),
+  postId: z.string({ error: 'postId cannot be empty' }).optional(),
+  commentId: z.string({ error: 'commentId cannot be empty' }).optional(),
+  preview: z.string({ error: 'preview cannot be empty' }).optional(),
+  read: z.boolean({ error: 'read must be true or false' }),
+  createdAt: z.string({ error: 'createdAt is required' }).refine(isTimestamp, 'createdAt must be an ISO 8601 timestamp'),
+  updatedAt: z.string({ error: 'updatedAt is required' }).refine(isTimestamp, 'updatedAt must be an ISO 8601 timestamp'),
+});
+
+export const GetNotificationsResponseSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  notifications: z.array(NotificationResponseSchema, { error: 'notifications must be an array' }),
+  unreadCount: z.number({ error: 'unreadCount must be a non-negative integer' }).int('unreadCount must be a non-negative integer').min(0, 'unreadCount must be a non-negative integer'),
+  count: z.number({ error: 'count must be a non-negative integer' }).int('count must be a non-negative integer').min(0, 'count must be a non-negative integer'),
+  nextCursor: NextCursorSchema,
+});
+
+export const PostRevisionResponseSchema = z.object({
+  revision: z.number({ error: 'revision must be an integer of at least 1' }).int('revision must be an integer of at least 1').min(1, 'revision must be an integer of at least 1'),
+  content: z.string({ error: 'content is required' }),
+  imageUrl: z.string({ error: 'imageUrl cannot be empty' }).optional(),
+  createdAt: z.string({ error: 'createdAt is required' }).refine(isTimestamp, 'createdAt must be an ISO 8601 timestamp'),
+  replacedAt: z.string({ error: 'replacedAt is required' }).refine(isTimestamp, 'replacedAt must be an ISO 8601 timestamp'),
+});
+
+export const GetPostRevisionsResponseSchema = z.object({
+  postId: z.string({ error: 'postId is required' }).min(1, 'postId is required'),
+  revisions: z.array(PostRevisionResponseSchema, { error: 'revisions must be an array' }),
+  nextCursor: NextCursorSchema,
+});
+
+export const PostResponseSchema = z.object({
+  postId: z.string({ error: 'postId is required' }).min(1, 'postId is required'),
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  username: z.string({ error: 'username is required' }).min(1, 'username is required').max(50, 'username must be 50 characters or less'),
+  displayName: z.string({ error: 'displayName is required' }).min(1, 'displayName is required').max(100, 'displayName must be 100 characters or less'),
+  avatar: z.string({ error: 'avatar cannot be empty' }).optional(),
+  content: z.string({ error: 'content is required' }).min(1, 'content is required').max(2000, 'content must be 2000 characters or less'),
+  imageUrl: z.string({ error: 'imageUrl cannot be empty' }).optional(),
+  likesCount: z.number({ error: 'likesCount must be a non-negative integer' }).int('likesCount must be a non-negative integer').min(0, 'likesCount must be a non-negative integer'),
+  commentsCount: z.number({ error: 'commentsCount must be a non-negative integer' }).int('commentsCount must be a non-negative integer').min(0, 'commentsCount must be a non-negative integer'),
+  createdAt: z.string({ error: 'createdAt is required' }).refine(isTimestamp, 'createdAt must be an ISO 8601 timestamp'),
+  editedAt: z.string({ error: 'editedAt cannot be empty' }).refine(isTimestamp, 'editedAt must be an ISO 8601 timestamp').optional(),
+  revisionCount: z.number({ error: 'revisionCount must be a non-negative integer' }).int('revisionCount must be a non-negative integer').min(0, 'revisionCount must be a non-negative integer').optional(),
+});
+
+export const GetUserPostsResponseSchema = z.object({
+  posts: z.array(PostResponseSchema, { error: 'posts must be an array' }),
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  nextCursor: NextCursorSchema,
+});
+
+export const LikeActionResponseSchema = z.object({
+  success: z.boolean({ error: 'success must be true or false' }),
+  message: z.string({ error: 'message is required' }).min(1, 'message is required'),
+  likesCount: z.number({ error: 'likesCount must be a non-negative integer' }).int('likesCount must be a non-negative integer').min(0, 'likesCount must be a non-negative integer'),
+});
+
+export const LikePostRequestSchema = z.object({
+  userId: z.string({ error: 'User ID is required' }).min(1, 'User ID is required'),
+  postId: z.string({ error: 'Post ID is required' }).min(1, 'Post ID is required'),
+});
+
+export const LikeStatusResponseSchema = z.object({
+  isLiked: z.boolean({ error: 'isLiked must be true or false' }),
+  likesCount: z.number({ error: 'likesCount must be a non-negative integer' }).int('likesCount must be a non-negative integer').min(0, 'likesCount must be a non-negative integer'),
+  postId: z.string({ error: 'postId is required' }).min(1, 'postId is required'),
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+});
+
+export const ListCommentsResponseSchema = z.object({
+  comments: z.array(CommentResponseSchema, { error: 'comments must be an array' }),
+  postId: z.string({ error: 'postId is required' }).min(1, 'postId is required'),
+  count: z.number({ error: 'count must be a non-negative integer' }).int('count must be a non-negative integer').min(0, 'count must be a non-negative integer'),
+  nextCursor: NextCursorSchema,
+});
+
+export const LoginRequestSchema = z.object({
+  username: z.string({ error: 'Username is required' }).min(1, 'Username is required'),
+  password: z.string({ error: 'Password is required' }).min(1, 'Password is required'),
+});
+
+export const MarkNotificationsReadRequestSchema = z.object({
+  notificationIds: z.array(z.string({ error: 'Notification ID cannot be empty' }).min(1, 'Notification ID cannot be empty'), { error: 'notificationIds must be a non-empty array when provided' }).min(1, 'notificationIds must be a non-empty array when provided').max(100, 'notificationIds must have at most 100 items').optional(),
+});
+
+export const MarkNotificationsReadResponseSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  marked: z.number({ error: 'marked must be a non-negative integer' }).int('marked must be a non-negative integer').min(0, 'marked must be a non-negative integer'),
+  unreadCount: z.number({ error: 'unreadCount must be a non-negative integer' }).int('unreadCount must be a non-negative integer').min(0, 'unreadCount must be a non-negative integer'),
+});
+
+export const PaginationQuerySchema = z.object({
+  limit: z.number({ error: 'limit must be an integer between 1 and 100' }).int('limit must be an integer between 1 and 100').min(1, 'limit must be an integer between 1 and 100').max(100, 'limit must be an integer between 1 and 100').optional(),
+  cursor: z.string({ error: 'cursor cannot be empty' }).min(1, 'cursor cannot be empty').optional(),
+});
+
+export const PostSearchResponseSchema = z.object({
+  query: z.string({ error: 'query is required' }).min(1, 'query is required'),
+  type: z.literal('posts', { error: 'type must be posts' }),
+  results: z.array(PostResponseSchema, { error: 'results must be an array' }),
+  count: z.number({ error: 'count must be a non-negative integer' }).int('count must be a non-negative integer').min(0, 'count must be a non-negative integer'),
+  nextCursor: NextCursorSchema,
+});
+
+export const ProfileSearchResponseSchema = z.object({
+  query: z.string({ error: 'query is required' }).min(1, 'query is required'),
+  type: z.literal('profiles', { error: 'type must be profiles' }),
+  results: z.array(ProfileResponseSchema, { error: 'results must be an array' }),
+  count: z.number({ error: 'count must be a non-negative integer' }).int('count must be a non-negative integer').min(0, 'count must be a non-negative integer'),
+  nextCursor: NextCursorSchema,
+});
+
+export const RedriveRequestSchema = z.object({
+  maxEvents: z.number({ error: 'maxEvents must be an integer between 1 and 500' }).int('maxEvents must be an integer between 1 and 500').min(1, 'maxEvents must be an integer between 1 and 500').max(500, 'maxEvents must be an integer between 1 and 500').default(100),
+});
+
+export const RedriveResponseSchema = z.object({
+  consumer: z.string({ error: 'consumer is required' }).min(1, 'consumer is required'),
+  redriven: z.number({ error: 'redriven must be a non-negative integer' }).int('redriven must be a non-negative integer').min(0, 'redriven must be a non-negative integer'),
+  failed: z.number({ error: 'failed must be a non-negative integer' }).int('failed must be a non-negative integer').min(0, 'failed must be a non-negative integer'),
+});
+
+export const RegisterRequestSchema = z.object({
+  username: z.string({ error: 'Username is required' }).min(1, 'Username is required').max(50, 'Username must be 50 characters or less'),
+  email: z.string({ error: 'Email is required' }).min(1, 'Email is required').regex(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Email must be a valid email address'),
+  displayName: z.string({ error: 'Display name is required' }).min(1, 'Display name is required').max(100, 'Display name must be 100 characters or less'),
+  bio: z.preprocess((value) => value === '' ? undefined : value, z.string({ error: 'Bio cannot be empty' }).max(500, 'Bio must be 500 characters or less').optional()),
+  avatar: z.preprocess((value) => value === '' ? undefined : value, z.string({ error: 'Avatar cannot be empty' }).refine(isUrl, 'Avatar must be a valid URL').optional()),
+  password: z.string({ error: 'Password is required' }).min(8, 'Password must be at least 8 characters').max(128, 'Password must be 128 characters or less'),
+});
+
+export const RelationshipResponseSchema = z.object({
+  userId: z.string({ error: 'userId is required' }).min(1, 'userId is required'),
+  otherUserId: z.string({ error: 'otherUserId is required' }).min(1, 'otherUserId is required'),
+  following: z.boolean({ error: 'following must be true or false' }),
+  followedBy: z.boolean({ error: 'followedBy must be true or false' }),
+  mutual: z.boolean({ error: 'mutual must be true or false' }),
+  blocked: z.boolean({ error: 'blocked must be true or false' }),
+  blockedBy: z.boolean({ error: 'blockedBy must be true or false' }),
+  requested: z.boolean({ error: 'requested must be true or false' }),
+  muted: z.boolean({ error: 'muted must be true or false' }),
+});
+
+export const SearchQuerySchema = z.object({
+  q: z.string({ error: 'Search query is required' }).trim().min(1, 'Search query is required').max(100, 'Search query must be 100 characters or less'),
+  type: z.enum(['profiles', 'posts'], { error: 'Search type must be one of: profiles, posts' }).default('profiles'),
+  limit: z.number({ error: 'limit must be an integer between 1 and 100' }).int('limit must be an integer between 1 and 100').min(1, 'limit must be an integer between 1 and 100').max(100, 'limit must be an integer between 1 and 100').optional(),
+  cursor: z.string({ error: 'cursor cannot be empty' }).min(1, 'cursor cannot be empty').optional(),
+});
+
+export const SearchResponseSchema = z.union([ProfileSearchResponseSchema, PostSearchResponseSchema]);
+
+export const SearchTypeSchema = z.enum(['profiles', 'posts'], { error: 'Search type must be one of: profiles, posts' });
+
+export const UnfollowRequestSchema = FollowRequestSchema;
+
+export const UnlikePostRequestSchema = LikePostRequestSchema;
+
+export const UpdatePostRequestSchema = z.object({
+  content: z.string({ error: 'Content cannot be empty' }).trim().min(1, 'Content cannot be empty').max(2000, 'Content must be 2000 characters or less').optional(),
+  imageUrl: z.literal('').or(z.string({ error: 'Image URL cannot be empty' }).refine(isUrl, 'Image URL must be a valid URL')).optional(),
+}).refine((data) => Object.values(data).filter((value) => value !== undefined).length >= 1, 'At least one of content, imageUrl must be provided');
+
+export const UpdateProfileRequestSchema = z.object({
+  displayName: z.string({ error: 'Display name cannot be empty' }).trim().min(1, 'Display name cannot be empty').max(100, 'Display name must be 100 characters or less').optional(),
+  bio: z.string({ error: 'Bio cannot be empty' }).max(500, 'Bio must be 500 characters or less').optional(),
+  avatar: z.literal('').or(z.string({ error: 'Avatar cannot be empty' }).refine(isUrl, 'Avatar must be a valid URL')).optional(),
+  isPrivate: z.boolean({ error: 'isPrivate must be true or false' }).optional(),
+}).refine((data) => Object.values(data).filter((value) => value !== undefined).length >= 1, 'At least one of displayName, bio, avatar, isPrivate must be provided');
+
+export const UploadUrlRequestSchema = z.object({
+  fileName: z.string({ error: 'File name is required' }).min(1, 'File name is required'),
+  fileType: z.string({ error: 'File type is required' }).min(1, 'File type is required').regex(/^image\//, 'Only image files are allowed'),
+  userId: z.string({ error: 'User ID is required' }).min(1, 'User ID is required'),
+});
+
+export const UploadUrlResponseSchema = z.object({
+  uploadUrl: z.string({ error: 'uploadUrl is required' }).min(1, 'uploadUrl is required'),
+  imageUrl: z.string({ error: 'imageUrl is required' }).min(1, 'imageUrl is required'),
+  key: z.string({ error: 'key is required' }).min(1, 'key is required'),
+  fileName: z.string({ error: 'fileName is required' }).min(1, 'fileName is required'),
+});
+
+export type ProfileResponse = z.infer<typeof ProfileResponseSchema>;
+export type AuthTokenResponse = z.infer<typeof AuthTokenResponseSchema>;
+export type BlockActionResponse = z.infer<typeof BlockActionResponseSchema>;
+export type BlockListEntry = z.infer<typeof BlockListEntrySchema>;
+export type CommentResponse = z.infer<typeof CommentResponseSchema>;
+export type CreateCommentRequest = z.infer<typeof CreateCommentRequestSchema>;
+export type CreatePostRequest = z.infer<typeof CreatePostRequestSchema>;
+export type CreateProfileRequest = z.infer<typeof CreateProfileRequestSchema>;
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+export type EventResponse = z.infer<typeof EventResponseSchema>;
+export type FailedEventResponse = z.infer<typeof FailedEventResponseSchema>;
+export type FeedItem = z.infer<typeof FeedItemSchema>;
+export type FeedMode = z.infer<typeof FeedModeSchema>;
+export type FollowActionResponse = z.infer<typeof FollowActionResponseSchema>;
+export type FollowListEntry = z.infer<typeof FollowListEntrySchema>;
+export type FollowRequestDecisionResponse = z.infer<typeof FollowRequestDecisionResponseSchema>;
+export type FollowRequestEntry = z.infer<typeof FollowRequestEntrySchema>;
+export type FollowRequest = z.infer<typeof FollowRequestSchema>;
+export type FollowStatusResponse = z.infer<typeof FollowStatusResponseSchema>;
+export type NextCursor = z.infer<typeof NextCursorSchema>;
+export type GetBlockListResponse = z.infer<typeof GetBlockListResponseSchema>;
+export type GetDeadLetterQueuesResponse = z.infer<typeof GetDeadLetterQueuesResponseSchema>;
+export type GetEventsQuery = z.infer<typeof GetEventsQuerySchema>;
+export type GetEventsResponse = z.infer<typeof GetEventsResponseSchema>;
+export type GetFailedEventsResponse = z.infer<typeof GetFailedEventsResponseSchema>;
+export type GetFeedQuery = z.infer<typeof GetFeedQuerySchema>;
+export type GetFeedResponse = z.infer<typeof GetFeedResponseSchema>;
+export type GetFollowRequestsResponse = z.infer<typeof GetFollowRequestsResponseSchema>;
+export type GetFollowersResponse = z.infer<typeof GetFollowersResponseSchema>;
+export type GetFollowingResponse = z.infer<typeof GetFollowingResponseSchema>;
+export type NotificationType = z.infer<typeof NotificationTypeSchema>;
+export type NotificationActor = z.infer<typeof NotificationActorSchema>;
+export type NotificationResponse = z.infer<typeof NotificationResponseSchema>;
+export type GetNotificationsResponse = z.infer<typeof GetNotificationsResponseSchema>;
+export type PostRevisionResponse = z.infer<typeof PostRevisionResponseSchema>;
+export type GetPostRevisionsResponse = z.infer<typeof GetPostRevisionsResponseSchema>;
+export type PostResponse = z.infer<typeof PostResponseSchema>;
+export type GetUserPostsResponse = z.infer<typeof GetUserPostsResponseSchema>;
+export type LikeActionResponse = z.infer<typeof LikeActionResponseSchema>;
+export type LikePostRequest = z.infer<typeof LikePostRequestSchema>;
+export type LikeStatusResponse = z.infer<typeof LikeStatusResponseSchema>;
+export type ListCommentsResponse = z.infer<typeof ListCommentsResponseSchema>;
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+export type MarkNotificationsReadRequest = z.infer<typeof MarkNotificationsReadRequestSchema>;
+export type MarkNotificationsReadResponse = z.infer<typeof MarkNotificationsReadResponseSchema>;
+export type PaginationQuery = z.infer<typeof PaginationQuerySchema>;
+export type PostSearchResponse = z.infer<typeof PostSearchResponseSchema>;
+export type ProfileSearchResponse = z.infer<typeof ProfileSearchResponseSchema>;
+export type RedriveRequest = z.infer<typeof RedriveRequestSchema>;
+export type RedriveResponse = z.infer<typeof RedriveResponseSchema>;
+export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
+export type RelationshipResponse = z.infer<typeof RelationshipResponseSchema>;
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+export type SearchType = z.infer<typeof SearchTypeSchema>;
+export type UnfollowRequest = z.infer<typeof UnfollowRequestSchema>;
+export type UnlikePostRequest = z.infer<typeof UnlikePostRequestSchema>;
+export type UpdatePostRequest = z.infer<typeof UpdatePostRequestSchema>;
+export type UpdateProfileRequest = z.infer<typeof UpdateProfileRequestSchema>;
+export type UploadUrlRequest = z.infer<typeof UploadUrlRequestSchema>;
+export type UploadUrlResponse = z.infer<typeof UploadUrlResponseSchema>;
+
+export const validateProfileResponse = (data: unknown): ProfileResponse => ProfileResponseSchema.parse(data);
+export const validateAuthTokenResponse = (data: unknown): AuthTokenResponse => AuthTokenResponseSchema.parse(data);
+export const validateBlockActionResponse = (data: unknown): BlockActionResponse => BlockActionResponseSchema.parse(data);
+export const validateBlockListEntry = (data: unknown): BlockListEntry => BlockListEntrySchema.parse(data);
+export const validateCommentResponse = (data: unknown): CommentResponse => CommentResponseSchema.parse(data);
+export const validateCreateCommentRequest = (data: unknown): CreateCommentRequest => CreateCommentRequestSchema.parse(data);
+export const validateCreatePostRequest = (data: unknown): CreatePostRequest => CreatePostRequestSchema.parse(data);
+export const validateCreateProfileRequest = (data: unknown): CreateProfileRequest => CreateProfileRequestSchema.parse(data);
+export const validateErrorResponse = (data: unknown): ErrorResponse => ErrorResponseSchema.parse(data);
+export const validateEventResponse = (data: unknown): EventResponse => EventResponseSchema.parse(data);
+export const validateFailedEventResponse = (data: unknown): FailedEventResponse => FailedEventResponseSchema.parse(data);
+export const validateFeedItem = (data: unknown): FeedItem => FeedItemSchema.parse(data);
+export const validateFeedMode = (data: unknown): FeedMode => FeedModeSchema.parse(data);
+export const validateFollowActionResponse = (data: unknown): FollowActionResponse => FollowActionResponseSchema.parse(data);
+export const validateFollowListEntry = (data: unknown): FollowListEntry => FollowListEntrySchema.parse(data);
+export const validateFollowRequestDecisionResponse = (data: unknown): FollowRequestDecisionResponse => FollowRequestDecisionResponseSchema.parse(data);
+export const validateFollowRequestEntry = (data: unknown): FollowRequestEntry => FollowRequestEntrySchema.parse(data);
+export const validateFollowRequest = (data: unknown): FollowRequest => FollowRequestSchema.parse(data);
+export const validateFollowStatusResponse = (data: unknown): FollowStatusResponse => FollowStatusResponseSchema.parse(data);
+export const validateNextCursor = (data: unknown): NextCursor => NextCursorSchema.parse(data);
+export const validateGetBlockListResponse = (data: unknown): GetBlockListResponse => GetBlockListResponseSchema.parse(data);
+export const validateGetDeadLetterQueuesResponse = (data: unknown): GetDeadLetterQueuesResponse => GetDeadLetterQueuesResponseSchema.parse(data);
+export const validateGetEventsQuery = (data: unknown): GetEventsQuery => GetEventsQuerySchema.parse(data);
+export const validateGetEventsResponse = (data: unknown): GetEventsResponse => GetEventsResponseSchema.parse(data);
+export const validateGetFailedEventsResponse = (data: unknown): GetFailedEventsResponse => GetFailedEventsResponseSchema.parse(data);
+export const validateGetFeedQuery = (data: unknown): GetFeedQuery => GetFeedQuerySchema.parse(data);
+export const validateGetFeedResponse = (data: unknown): GetFeedResponse => GetFeedResponseSchema.parse(data);
+export const validateGetFollowRequestsResponse = (data: unknown): GetFollowRequestsResponse => GetFollowRequestsResponseSchema.parse(data);
+export const validateGetFollowersResponse = (data: unknown): GetFollowersResponse => GetFollowersResponseSchema.parse(data);
+export const validateGetFollowingResponse = (data: unknown): GetFollowingResponse => GetFollowingResponseSchema.parse(data);
+export const validateNotificationType = (data: unknown): NotificationType => NotificationTypeSchema.parse(data);
+export const validateNotificationActor = (data: unknown): NotificationActor => NotificationActorSchema.parse(data);
+export const validateNotificationResponse = (data: unknown): NotificationResponse => NotificationResponseSchema.parse(data);
+export const validateGetNotificationsResponse = (data: unknown): GetNotificationsResponse => GetNotificationsResponseSchema.parse(data);
+export const validatePostRevisionResponse = (data: unknown): PostRevisionResponse => PostRevisionResponseSchema.parse(data);
+export const validateGetPostRevisionsResponse = (data: unknown): GetPostRevisionsResponse => GetPostRevisionsResponseSchema.parse(data);
+export const validatePostResponse = (data: unknown): PostResponse => PostResponseSchema.parse(data);
+export const validateGetUserPostsResponse = (data: unknown): GetUserPostsResponse => GetUserPostsResponseSchema.parse(data);
+export const validateLikeActionResponse = (data: unknown): LikeActionResponse => LikeActionResponseSchema.parse(data);
+export const validateLikePostRequest = (data: unknown): LikePostRequest => LikePostRequestSchema.parse(data);
+export const validateLikeStatusResponse = (data: unknown): LikeStatusResponse => LikeStatusResponseSchema.parse(data);
+export const validateListCommentsResponse = (data: unknown): ListCommentsResponse => ListCommentsResponseSchema.parse(data);
+export const validateLoginRequest = (data: unknown): LoginRequest => LoginRequestSchema.parse(data);
+export const validateMarkNotificationsReadRequest = (data: unknown): MarkNotificationsReadRequest => MarkNotificationsReadRequestSchema.parse(data);
+export const validateMarkNotificationsReadResponse = (data: unknown): MarkNotificationsReadResponse => MarkNotificationsReadResponseSchema.parse(data);
+export const validatePaginationQuery = (data: unknown): PaginationQuery => PaginationQuerySchema.parse(data);
+export const validatePostSearchResponse = (data: unknown): PostSearchResponse => PostSearchResponseSchema.parse(data);
+export const validateProfileSearchResponse = (data: unknown): ProfileSearchResponse => ProfileSearchResponseSchema.parse(data);
+export const validateRedriveRequest = (data: unknown): RedriveRequest => RedriveRequestSchema.parse(data);
+export const validateRedriveResponse = (data: unknown): RedriveResponse => RedriveResponseSchema.parse(data);
+export const validateRegisterRequest = (data: unknown): RegisterRequest => RegisterRequestSchema.parse(data);
+export const validateRelationshipResponse = (data: unknown): RelationshipResponse => RelationshipResponseSchema.parse(data);
+export const validateSearchQuery = (data: unknown): SearchQuery => SearchQuerySchema.parse(data);
+export const validateSearchResponse = (data: unknown): SearchResponse => SearchResponseSchema.parse(data);
+export const validateSearchType = (data: unknown): SearchType => SearchTypeSchema.parse(data);
+export const validateUnfollowRequest = (data: unknown): UnfollowRequest => UnfollowRequestSchema.parse(data);
+export const validateUnlikePostRequest = (data: unknown): UnlikePostRequest => UnlikePostRequestSchema.parse(data);
+export const validateUpdatePostRequest = (data: unknown): UpdatePostRequest => UpdatePostRequestSchema.parse(data);
+export const validateUpdateProfileRequest = (data: unknown): UpdateProfileRequest => UpdateProfileRequestSchema.parse(data);
+export const validateUploadUrlRequest = (data: unknown): UploadUrlRequest => UploadUrlRequestSchema.parse(data);
+export const validateUploadUrlResponse = (data: unknown): UploadUrlResponse => UploadUrlResponseSchema.parse(data);
@@ -18,7 +18,6 @@ const customRender = (
 
 // Mock API service for tests
 export const mockApiService = {
-  createProfile: jest.fn(),
   getProfile: jest.fn(),
   updateProfile: jest.fn(),
   searchProfiles: jest.fn(),
@@ -1,3 +1,30 @@
+import type {
+  FeedMode,
+  FollowRequestDecisionResponse,
+  FollowStatusResponse,
+  NotificationResponse,
+  RelationshipResponse,
+  SearchType,
+} from '@/shared/schemas/api';
+
+// The shapes the API's schemas declare; the rest below are the client's own
+export type {
+  BlockActionResponse,
+  CreateProfileRequest,
+  FeedMode,
+  FollowActionResponse,
+  MarkNotificationsReadResponse,
+  NotificationActor,
+  NotificationType,
+  SearchType,
+  UpdateProfileRequest,
+} from '@/shared/schemas/api';
+
+export type Relationship = RelationshipResponse;
+export type FollowStatus = FollowStatusResponse;
+export type FollowRequestDecision = FollowRequestDecisionResponse;
+export type Notification = NotificationResponse;
+
 export interface Profile {
   userId: string;
   username: string;
@@ -14,21 +41,6 @@ export interface Profile {
   updatedAt?: string;
 }
 
-export interface CreateProfileRequest {
-  username: string;
-  email: string;
-  displayName: string;
-  bio?: string;
-  avatar?: string;
-}
-
-export interface UpdateProfileRequest {
-  displayName?: string;
-  bio?: string;
-  avatar?: string;
-  isPrivate?: boolean;
-}
-
 export interface ApiError {
   error: string;
 }
@@ -55,6 +67,8 @@ export interface Post {
   commentsCount: number;
   createdAt: string;
   updatedAt?: string;
+  editedAt?: string;
+  revisionCount?: number;
 }
 
 export interface FeedItem {
@@ -70,9 +84,135 @@ export interface FeedItem {
   likesCount: number;
   commentsCount: number;
   createdAt: string;
+  editedAt?: string;
+}
+
+export interface PaginationParams {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FeedResponse {
+  feedItems: FeedItem[];
+  userId: string;
+  mode: FeedMode;
+  nextCursor: string | null;
+}
+
+export interface UserPostsResponse {
+  posts: Post[];
+  userId: string;
+  nextCursor: string | null;
+}
+
+export interface FollowListEntry {
+  userId: string;
+  followedAt: string;
+  profile: Profile | null; // null when the account no longer exists
+}
+
+export interface FollowersResponse {
+  followers: FollowListEntry[];
+  userId: string;
+  count: number;
+  nextCursor: string | null;
+}
+
+export interface FollowingResponse {
+  following: FollowListEntry[];
+  userId: string;
+  count: number;
+  nextCursor: string | null;
+}
+
+export interface FollowRequest {
+  requesterId: string;
+  requestedAt: string;
+  profile: Profile | null;
+}
+
+export interface FollowRequestsResponse {
+  requests: FollowRequest[];
+  userId: string;
+  count: number;
+  nextCursor: string | null;
+}
+
+export interface BlockListEntry {
+  userId: string;
+  since: string;
+  profile: Profile | null;
+}
+
+export interface BlockListResponse {
+  userId: string;
+  list: 'blocks' | 'mutes';
+  users: BlockListEntry[];
+  count: number;
+  nextCursor: string | null;
+}
+
+export interface NotificationsResponse {
+  userId: string;
+  notifications: Notification[];
+  unreadCount: number;
+  count: number;
+  nextCursor: string | null;
+}
+
+export interface SearchResponse<T> {
+  query: string;
+  type: SearchType;
+  results: T[];
+  count: number;
+  nextCursor: string | null;
+}
+
+export interface Comment {
+  commentId: string;
+  postId: string;
+  userId: string;
+  username: string;
+  displayName: string;
+  avatar: string;
+  content: string;
+  parentCommentId?: string;
+  createdAt: string;
+  replies?: Comment[];
+}
+
+export interface CommentsResponse {
+  comments: Comment[];
+  postId: string;
+  count: number;
+  nextCursor: string | null;
+}
+
+export interface CreateCommentRequest {
+  content: string;
+  parentCommentId?: string;
 }
 
 export interface CreatePostRequest {
   content: string;
   imageUrl?: string;
+}
+
+export interface UpdatePostRequest {
+  content?: string;
+  imageUrl?: string;
+}
+
+export interface PostRevision {
+  revision: number;
+  content: string;
+  imageUrl: string;
+  createdAt: string;
+  replacedAt: string;
+}
+
+export interface PostRevisionsResponse {
+  postId: string;
+  revisions: PostRevision[];
+  nextCursor: string | null;
 }
\ No newline at end of file